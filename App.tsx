@@ -9,11 +9,24 @@ import ModalManager from './components/ModalManager';
 import PatientFormModal from './components/PatientFormModal';
 import RecordFormModal from './components/RecordFormModal';
 import DoctorEditModal from './components/DoctorEditModal';
+import ClinicalImportModal from './components/ClinicalImportModal';
+import { AllergyConflictDialog } from './components/AllergyConflictDialog';
 import SimpleLogin from './components/SimpleLogin';
 import BackupService, { type EncryptedBackup } from './services/backupService';
 import type { Patient, MedicalRecord, Document, Reminder, Medication, Doctor } from './types';
 import { generatePatientPdf } from './services/pdfService';
+import { downloadFhirBundle } from './services/fhirExportService';
 import { MedicalRecordParser } from './services/medicalRecordParser';
+import { labResultsFromDocuments } from './services/labResultsService';
+import { vitalsFromParsedData } from './services/vitalsService';
+import {
+  AllergyConflictError,
+  applyAllergyOverride,
+  findUnacknowledgedConflicts,
+  getChangedMedications,
+  getPatientAllergies,
+  type AllergyConflict,
+} from './services/allergyService';
 import { simpleAuthService, type SimpleAuthState } from './services/simpleAuthService';
 import { useSecureHealthStore } from './stores/useSecureHealthStore';
 import DataRetrievalService from './services/dataRetrievalService';
@@ -68,6 +81,8 @@ const App: React.FC = () => {
     updateAppointment,
     deleteAppointment,
     createReminderFromAppointment,
+    addLabResults,
+    addVitalSigns,
   } = useSecureHealthStore();
 
   // Simple authentication state
@@ -81,11 +96,16 @@ const App: React.FC = () => {
   const [isPatientFormModalOpen, setIsPatientFormModalOpen] = useState(false);
   const [isRecordFormModalOpen, setIsRecordFormModalOpen] = useState(false);
   const [isDoctorModalOpen, setIsDoctorModalOpen] = useState(false);
+  const [isClinicalImportOpen, setIsClinicalImportOpen] = useState(false);
   const [isMobileSidebarOpen, setIsMobileSidebarOpen] = useState(false);
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [patientToEdit, setPatientToEdit] = useState<Patient | null>(null);
   const [recordToEdit, setRecordToEdit] = useState<MedicalRecord | null>(null);
   const [doctorToEdit, setDoctorToEdit] = useState<Doctor | null>(null);
+  const [allergyConflict, setAllergyConflict] = useState<{
+    conflicts: AllergyConflict[];
+    onOverride: (reason: string) => void;
+  } | null>(null);
 
   // Debounced console logging to reduce noise in production
   const debouncedLog = useDebounce((message: string) => {
@@ -378,61 +398,37 @@ const App: React.FC = () => {
         `Investigations: ${recordData.investigations}\n` +
         `Diagnosis: ${recordData.diagnosis}\n` +
         `Prescription: ${recordData.prescription}\n` +
-        `Notes: ${recordData.notes}`
+        `Notes: ${recordData.notes}`,
+        recordData.date
       );
 
-      // Process attached documents
-      const processedDocuments: Document[] = [];
+      // Read attached documents: the PDF text layer, with OCR for images and scanned pages
+      const extractedDocuments: Document[] = [];
       if (files && files.length > 0) {
         for (const file of files) {
-          try {
-            // Process document based on type
-            let documentContent = '';
-            let parsedDocumentData = null;
-
-            if (file.type === 'application/pdf') {
-              // For PDF files, we'll store the file and parse text content
-              documentContent = await MedicalRecordParser.extractPDFText(file);
-              parsedDocumentData = MedicalRecordParser.parseMedicalText(documentContent);
-            } else if (file.type.startsWith('image/')) {
-              // For images, we'll store the file and use OCR if available
-              documentContent = await MedicalRecordParser.extractImageText(file);
-              if (documentContent) {
-                parsedDocumentData = MedicalRecordParser.parseMedicalText(documentContent);
-              }
-            }
-
-            // Create document record
-            const document: Document = {
-              id: `doc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-              name: file.name,
-              type: file.type,
-              size: file.size,
-              uploadedAt: new Date().toISOString(),
-              content: documentContent,
-              parsedData: parsedDocumentData,
-              url: URL.createObjectURL(file) // For now, create blob URL - in production, this would be a secure file storage URL
-            };
+          const document: Document = {
+            id: `doc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            name: file.name,
+            type: file.type,
+            size: file.size,
+            uploadedAt: new Date().toISOString(),
+            url: URL.createObjectURL(file) // For now, create blob URL - in production, this would be a secure file storage URL
+          };
 
-            processedDocuments.push(document);
+          try {
+            // The text is cached on the document so the file is never read again
+            extractedDocuments.push(await MedicalRecordParser.extractDocumentText(document, file));
           } catch (error) {
             console.error(`Error processing file ${file.name}:`, error);
             // Still store the file even if parsing fails
-            const document: Document = {
-              id: `doc-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-              name: file.name,
-              type: file.type,
-              size: file.size,
-              uploadedAt: new Date().toISOString(),
-              url: URL.createObjectURL(file)
-            };
-            processedDocuments.push(document);
+            extractedDocuments.push(document);
           }
         }
       }
+      const { documents: processedDocuments } = await MedicalRecordParser.processMultipleDocuments(extractedDocuments);
 
       // Combine parsed data from manual entry and documents
-      const combinedParsedData = MedicalRecordParser.combineParsedData([parsedData], ...processedDocuments.map(doc => doc.parsedData).filter(Boolean));
+      const combinedParsedData = MedicalRecordParser.combineParsedData(parsedData, ...processedDocuments.map(doc => doc.parsedData).filter(Boolean));
 
       // Create enhanced record with parsed data
       const enhancedRecordData = {
@@ -441,6 +437,7 @@ const App: React.FC = () => {
         aiOverview: MedicalRecordParser.generateVisitOverview(combinedParsedData, recordData.complaint)
       };
 
+      const recordId = recordToEdit ? recordToEdit.id : `rec-${Date.now()}`;
       if (recordToEdit) {
         // Update existing record
         const updatedRecord: MedicalRecord = {
@@ -448,16 +445,32 @@ const App: React.FC = () => {
           ...enhancedRecordData,
           documents: [...recordToEdit.documents, ...processedDocuments], // Append new documents
         };
-        updateRecord(selectedPatientId, recordToEdit.id, updatedRecord);
+        await updateRecord(selectedPatientId, recordToEdit.id, updatedRecord);
       } else {
         // Create new record
         const newRecord: MedicalRecord = {
           ...enhancedRecordData,
-          id: `rec-${Date.now()}`,
+          id: recordId,
           documents: processedDocuments,
           isNew: true,
         };
-        addRecord(selectedPatientId, newRecord);
+        await addRecord(selectedPatientId, newRecord);
+      }
+
+      // Lab values read from the reports become trendable lab results
+      const labResults = labResultsFromDocuments(
+        processedDocuments,
+        { date: recordData.date, recordId },
+        patients.find(p => p.id === selectedPatientId)
+      );
+      if (labResults.length > 0) {
+        await addLabResults(selectedPatientId, labResults);
+      }
+
+      // Vitals written in the note or the reports join the vitals history
+      const vitalSigns = vitalsFromParsedData(combinedParsedData.vitals, { date: recordData.date, recordId });
+      if (vitalSigns.length > 0) {
+        await addVitalSigns(selectedPatientId, vitalSigns);
       }
 
       closeRecordForm();
@@ -535,6 +548,51 @@ const App: React.FC = () => {
     }
   };
 
+  const handleExportPatientFhir = (patientId: string) => {
+    try {
+      const patient = patients.find(p => p.id === patientId);
+      if (!patient) {
+        alert('Patient not found');
+        return;
+      }
+
+      downloadFhirBundle(patient, doctors);
+      announce('FHIR record exported successfully');
+    } catch (error) {
+      console.error('Error exporting patient FHIR bundle:', error);
+      alert('Failed to export FHIR record. Please try again.');
+    }
+  };
+
+  const handleImportClinicalData = (patient: Patient, isNew: boolean) => {
+    // Imported medications are checked against allergies like ones added by hand
+    const previous = isNew ? [] : patients.find(p => p.id === patient.id)?.currentMedications || [];
+    const imported = getChangedMedications(previous, patient.currentMedications);
+    const conflicts = findUnacknowledgedConflicts(imported, getPatientAllergies(patient));
+    if (conflicts.length > 0) {
+      setAllergyConflict({
+        conflicts,
+        onOverride: reason => {
+          const overridden = applyAllergyOverride(imported, getPatientAllergies(patient), reason);
+          handleImportClinicalData({
+            ...patient,
+            currentMedications: patient.currentMedications.map(m => overridden.find(o => o.id === m.id) || m),
+          }, isNew);
+        },
+      });
+      return;
+    }
+
+    if (isNew) {
+      addPatient(patient);
+    } else {
+      updatePatient(patient.id, patient);
+    }
+    setSelectedPatient(patient.id);
+    setIsClinicalImportOpen(false);
+    announce(`Hospital records imported for ${patient.name}`);
+  };
+
   const handleFileUpload = (files: FileList | null) => {
     if (!files || !selectedPatientId || !selectedRecordId) return;
 
@@ -603,20 +661,46 @@ const App: React.FC = () => {
     deleteReminder(patientId, reminderId);
   };
 
-  const handleAddMedication = (patientId: string, medicationData: Omit<Medication, 'id'>) => {
-    // Use store action to add medication
-    addMedication(patientId, medicationData);
+  // The store refuses medications that conflict with an allergy; ask for a
+  // reason and save again with the override
+  const requestAllergyOverride = (error: unknown, onOverride: (reason: string) => void) => {
+    if (error instanceof AllergyConflictError) {
+      setAllergyConflict({ conflicts: error.conflicts, onOverride });
+    }
   };
 
-  const handleAddBulkMedications = (patientId: string, medications: Omit<Medication, 'id'>[]) => {
-    // Use the dedicated bulk add action for better performance and reliability
-    addBulkMedications(patientId, medications);
-    announce(`Added ${medications.length} medications successfully`);
+  const allergiesOf = (patientId: string) => getPatientAllergies(patients.find(p => p.id === patientId) || {});
+
+  const handleAddMedication = async (patientId: string, medicationData: Omit<Medication, 'id'>) => {
+    try {
+      await addMedication(patientId, medicationData);
+    } catch (error) {
+      requestAllergyOverride(error, reason =>
+        handleAddMedication(patientId, applyAllergyOverride([medicationData], allergiesOf(patientId), reason)[0])
+      );
+    }
   };
 
-  const handleUpdateMedication = (patientId: string, updatedMedication: Medication) => {
-    // Use store action to update medication
-    updateMedication(patientId, updatedMedication);
+  const handleAddBulkMedications = async (patientId: string, medications: Omit<Medication, 'id'>[]) => {
+    try {
+      // Use the dedicated bulk add action for better performance and reliability
+      await addBulkMedications(patientId, medications);
+      announce(`Added ${medications.length} medications successfully`);
+    } catch (error) {
+      requestAllergyOverride(error, reason =>
+        handleAddBulkMedications(patientId, applyAllergyOverride(medications, allergiesOf(patientId), reason))
+      );
+    }
+  };
+
+  const handleUpdateMedication = async (patientId: string, updatedMedication: Medication) => {
+    try {
+      await updateMedication(patientId, updatedMedication);
+    } catch (error) {
+      requestAllergyOverride(error, reason =>
+        handleUpdateMedication(patientId, applyAllergyOverride([updatedMedication], allergiesOf(patientId), reason)[0])
+      );
+    }
   };
 
   const handleDeleteMedication = (patientId: string, medicationId: string) => {
@@ -668,9 +752,9 @@ const App: React.FC = () => {
       }));
       
       // Update patients with cleared data
-      clearedPatients.forEach(patient => {
-        updatePatient(patient.id, patient);
-      });
+      await Promise.all(clearedPatients.map(patient =>
+        updatePatient(patient.id, patient, { skipAllergyCheck: true })
+      ));
       
       // Perform logout
       await simpleAuthService.logout();
@@ -743,14 +827,13 @@ const App: React.FC = () => {
         const restoredData = await backupServiceRef.current!.restoreBackup(backup);
         
         // Update app state with restored data
-        restoredData.data.patients.forEach(patient => {
+        // The backup replaces current data as-is, so its medications skip the allergy check
+        await Promise.all(restoredData.data.patients.map(patient => {
           const existing = patients.find(p => p.id === patient.id);
-          if (existing) {
-            updatePatient(patient.id, patient);
-          } else {
-            addPatient(patient);
-          }
-        });
+          return existing
+            ? updatePatient(patient.id, patient, { skipAllergyCheck: true })
+            : addPatient(patient);
+        }));
 
         restoredData.data.doctors.forEach(doctor => {
           const existing = doctors.find(d => d.id === doctor.id);
@@ -849,6 +932,8 @@ const App: React.FC = () => {
               onDeletePatient={handleDeletePatient}
               onExportPatient={handleExportPatient}
               onExportPatientPdf={handleExportPatientPdf}
+              onExportPatientFhir={handleExportPatientFhir}
+              onImportClinicalData={() => setIsClinicalImportOpen(true)}
               onEditRecord={handleEditRecordModal}
               onSaveRecord={handleSaveRecord}
               onDeleteRecord={handleDeleteRecord}
@@ -879,6 +964,8 @@ const App: React.FC = () => {
               onDeletePatient={handleDeletePatient}
               onExportPatient={handleExportPatient}
               onExportPatientPdf={handleExportPatientPdf}
+              onExportPatientFhir={handleExportPatientFhir}
+              onImportClinicalData={() => setIsClinicalImportOpen(true)}
               onEditRecord={handleEditRecordModal}
               onSaveRecord={handleSaveRecord}
               onDeleteRecord={handleDeleteRecord}
@@ -1058,6 +1145,26 @@ const App: React.FC = () => {
             onClose={closeDoctorModal}
           />
 
+          <ClinicalImportModal
+            isOpen={isClinicalImportOpen}
+            patients={patients}
+            selectedPatientId={selectedPatientId}
+            doctors={doctors}
+            onImport={handleImportClinicalData}
+            onClose={() => setIsClinicalImportOpen(false)}
+          />
+
+          {allergyConflict && (
+            <AllergyConflictDialog
+              conflicts={allergyConflict.conflicts}
+              onOverride={reason => {
+                setAllergyConflict(null);
+                allergyConflict.onOverride(reason);
+              }}
+              onCancel={() => setAllergyConflict(null)}
+            />
+          )}
+
           <SecurityDashboard />
         </>
       )}
@@ -12,8 +12,11 @@ DROP TABLE IF EXISTS medications CASCADE;
 DROP TABLE IF EXISTS appointments CASCADE;
 DROP TABLE IF EXISTS medical_records CASCADE;
 DROP TABLE IF EXISTS patients CASCADE;
+DROP TABLE IF EXISTS household_members CASCADE;
+DROP TABLE IF EXISTS households CASCADE;
 DROP TABLE IF EXISTS doctors CASCADE;
 DROP TABLE IF EXISTS users CASCADE;
+DROP TABLE IF EXISTS refresh_tokens CASCADE;
 DROP TABLE IF EXISTS sessions CASCADE;
 
 -- Users table for authentication
@@ -33,18 +36,33 @@ CREATE TABLE users (
     last_login TIMESTAMP WITH TIME ZONE
 );
 
--- Sessions table for authentication
+-- Sessions table for authentication (one row per signed-in device)
 CREATE TABLE sessions (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    token VARCHAR(255) UNIQUE NOT NULL,
+    token TEXT UNIQUE NOT NULL,
     device_info TEXT,
     ip_address INET,
     expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    refresh_expires_at TIMESTAMP WITH TIME ZONE,
+    last_used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    revoked_reason VARCHAR(100),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     is_active BOOLEAN DEFAULT true
 );
 
+-- Rotating refresh tokens; every token issued for a session belongs to that session's family
+CREATE TABLE refresh_tokens (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    token_hash VARCHAR(64) UNIQUE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Doctors table
 CREATE TABLE doctors (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -61,6 +79,27 @@ CREATE TABLE doctors (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Households (several users sharing the same patients)
+CREATE TABLE households (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Household members; patient_ids NULL grants the role on every household patient
+CREATE TABLE household_members (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    household_id UUID NOT NULL REFERENCES households(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'caregiver', 'viewer')),
+    patient_ids UUID[],
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(household_id, user_id)
+);
+
 -- Patients table
 CREATE TABLE patients (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -75,6 +114,7 @@ CREATE TABLE patients (
     emergency_contact_name VARCHAR(255),
     emergency_contact_phone VARCHAR(50),
     primary_doctor_id UUID REFERENCES doctors(id),
+    household_id UUID REFERENCES households(id) ON DELETE SET NULL,
     avatar_url TEXT,
     medical_history TEXT,
     allergies TEXT,
@@ -155,6 +195,7 @@ CREATE TABLE medications (
     prescribed_by UUID REFERENCES doctors(id),
     instructions TEXT,
     is_active BOOLEAN DEFAULT true,
+    discontinued_reason TEXT,
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -180,6 +221,7 @@ CREATE TABLE audit_logs (
     action VARCHAR(100) NOT NULL,
     table_name VARCHAR(100),
     record_id UUID,
+    patient_id UUID REFERENCES patients(id) ON DELETE SET NULL,
     old_values JSONB,
     new_values JSONB,
     ip_address INET,
@@ -193,10 +235,15 @@ CREATE INDEX idx_users_username ON users(username);
 CREATE INDEX idx_sessions_user_id ON sessions(user_id);
 CREATE INDEX idx_sessions_token ON sessions(token);
 CREATE INDEX idx_sessions_expires_at ON sessions(expires_at);
+CREATE INDEX idx_refresh_tokens_session_id ON refresh_tokens(session_id);
 
 CREATE INDEX idx_patients_user_id ON patients(user_id);
 CREATE INDEX idx_patients_name ON patients(name);
 CREATE INDEX idx_patients_primary_doctor ON patients(primary_doctor_id);
+CREATE INDEX idx_patients_household_id ON patients(household_id);
+
+CREATE INDEX idx_household_members_user_id ON household_members(user_id);
+CREATE INDEX idx_household_members_household_id ON household_members(household_id);
 
 CREATE INDEX idx_doctors_name ON doctors(name);
 CREATE INDEX idx_doctors_specialty ON doctors(specialty);
@@ -221,6 +268,8 @@ CREATE INDEX idx_reminders_completed ON reminders(is_completed);
 CREATE INDEX idx_audit_logs_user_id ON audit_logs(user_id);
 CREATE INDEX idx_audit_logs_created_at ON audit_logs(created_at);
 CREATE INDEX idx_audit_logs_table_name ON audit_logs(table_name);
+CREATE INDEX idx_audit_logs_patient_id ON audit_logs(patient_id);
+CREATE INDEX idx_audit_logs_action ON audit_logs(action);
 
 -- Create function to automatically update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -238,6 +287,12 @@ CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
 CREATE TRIGGER update_doctors_updated_at BEFORE UPDATE ON doctors
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_households_updated_at BEFORE UPDATE ON households
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_household_members_updated_at BEFORE UPDATE ON household_members
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_patients_updated_at BEFORE UPDATE ON patients
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
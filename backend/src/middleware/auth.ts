@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { query } from '../config/database';
 import { logger } from '../utils/logger';
 import { User } from '../types';
@@ -9,6 +10,7 @@ declare global {
   namespace Express {
     interface Request {
       user?: Omit<User, 'password_hash'>;
+      sessionId?: string;
     }
   }
 }
@@ -17,6 +19,7 @@ interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  sid?: string;
   iat?: number;
   exp?: number;
 }
@@ -70,8 +73,9 @@ export const authMiddleware = async (req: Request, res: Response, next: NextFunc
       });
     }
 
-    // Attach user to request
+    // Attach user and session to request
     req.user = user;
+    req.sessionId = sessionResult.rows[0].id;
 
     logger.debug('User authenticated', { userId: user.id, email: user.email });
     next();
@@ -170,67 +174,23 @@ function extractToken(req: Request): string | null {
   return null;
 }
 
-// Generate JWT token
-export const generateToken = (user: Omit<User, 'password_hash'>): string => {
+// Generate a short-lived access token bound to a session (long-lived access comes from refresh tokens)
+export const generateToken = (user: Omit<User, 'password_hash'>, sessionId?: string): string => {
   const payload = {
     userId: user.id,
     email: user.email,
-    role: user.role
+    role: user.role,
+    ...(sessionId && { sid: sessionId })
   };
 
   const jwtSecret = process.env.JWT_SECRET || 'your-super-secret-key-change-in-production';
-  const expiresIn = process.env.JWT_EXPIRES_IN || '24h';
+  const expiresIn = process.env.JWT_EXPIRES_IN || '15m';
 
-  return jwt.sign(payload, jwtSecret, { expiresIn: expiresIn });
+  return jwt.sign(payload, jwtSecret, { expiresIn: expiresIn, jwtid: crypto.randomUUID() } as jwt.SignOptions);
 };
 
-// Refresh token
-export const refreshToken = async (req: Request, res: Response) => {
-  try {
-    const { refreshToken } = req.body;
-
-    if (!refreshToken) {
-      return res.status(400).json({
-        success: false,
-        error: 'Refresh token required'
-      });
-    }
-
-    const jwtSecret = process.env.JWT_SECRET || 'your-super-secret-key-change-in-production';
-    const decoded = jwt.verify(refreshToken, jwtSecret) as JWTPayload;
-
-    // Get user and validate session
-    const userQuery = `
-      SELECT id, email, username, first_name, last_name, role, avatar_url,
-             is_active, email_verified, created_at, updated_at, last_login
-      FROM users
-      WHERE id = $1 AND is_active = true
-    `;
-
-    const result = await query(userQuery, [decoded.userId]);
-
-    if (result.rows.length === 0) {
-      return res.status(401).json({
-        success: false,
-        error: 'User not found or inactive'
-      });
-    }
-
-    const user = result.rows[0];
-
-    // Generate new token
-    const newToken = generateToken(user);
-
-    res.json({
-      success: true,
-      token: newToken,
-      user
-    });
-  } catch (error) {
-    logger.error('Token refresh error:', error);
-    res.status(401).json({
-      success: false,
-      error: 'Invalid refresh token'
-    });
-  }
-};
\ No newline at end of file
+// Expiry of an access token, read back from its exp claim
+export const getTokenExpiry = (token: string): Date => {
+  const decoded = jwt.decode(token) as JWTPayload | null;
+  return new Date((decoded?.exp ?? Math.floor(Date.now() / 1000)) * 1000);
+};
@@ -1,10 +1,629 @@
 import { Router } from 'express';
+import { PoolClient } from 'pg';
+import { query, transaction } from '../config/database';
+import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+import { writeAuditLog } from '../utils/auditTrail';
+import { patientAccessCondition } from '../utils/patientAccess';
+import { Appointment, AppointmentQueryParams, PaginatedResponse } from '../types';
 
 const router = Router();
 
-// Placeholder routes - implement as needed
-router.get('/', (req, res) => {
-  res.json({ success: true, data: [], message: 'Appointments endpoint - coming soon' });
-});
+const STATUSES: Appointment['status'][] = ['scheduled', 'completed', 'cancelled', 'no-show'];
 
-export default router;
\ No newline at end of file
+// Only scheduled appointments can change status; the other states are final
+const STATUS_TRANSITIONS: Record<Appointment['status'], Appointment['status'][]> = {
+  scheduled: ['completed', 'cancelled', 'no-show'],
+  completed: [],
+  cancelled: [],
+  'no-show': []
+};
+
+const DEFAULT_DURATION_MINUTES = 60;
+
+// Columns that may be set on create/update (status has its own endpoint)
+const APPOINTMENT_FIELDS = [
+  'doctor_id', 'title', 'description', 'appointment_date', 'duration_minutes',
+  'location', 'notes'
+];
+
+// Lock the patient row so concurrent bookings for the same patient are serialized
+const lockWritablePatient = async (client: PoolClient, patientId: string, userId: string): Promise<boolean> => {
+  const result = await client.query(
+    `SELECT p.id FROM patients p
+     WHERE p.id = $1 AND ${patientAccessCondition('p', '$2', 'write')} AND p.is_active = true
+     FOR UPDATE OF p`,
+    [patientId, userId]
+  );
+  return result.rows.length > 0;
+};
+
+// Find a scheduled appointment for the patient that overlaps the given time slot
+const findConflict = async (
+  client: PoolClient,
+  patientId: string,
+  start: string,
+  durationMinutes: number,
+  excludeId?: string
+): Promise<any | null> => {
+  const params: any[] = [patientId, start, durationMinutes, DEFAULT_DURATION_MINUTES];
+  let excludeClause = '';
+
+  if (excludeId) {
+    params.push(excludeId);
+    excludeClause = `AND a.id <> $${params.length}`;
+  }
+
+  const conflictQuery = `
+    SELECT a.id, a.title, a.appointment_date, a.duration_minutes
+    FROM appointments a
+    WHERE a.patient_id = $1
+      AND a.status = 'scheduled'
+      AND a.appointment_date < $2::timestamptz + make_interval(mins => $3::int)
+      AND a.appointment_date + make_interval(mins => COALESCE(a.duration_minutes, $4::int)) > $2::timestamptz
+      ${excludeClause}
+    ORDER BY a.appointment_date ASC
+    LIMIT 1
+  `;
+
+  const result = await client.query(conflictQuery, params);
+  return result.rows[0] || null;
+};
+
+const isValidDuration = (value: any): boolean =>
+  Number.isInteger(Number(value)) && Number(value) > 0;
+
+// Get appointments across the user's patients
+router.get('/', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const {
+    page = 1,
+    limit = 20,
+    patient_id,
+    doctor_id,
+    status,
+    date_from,
+    date_to
+  }: AppointmentQueryParams = req.query as any;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  if (status && !STATUSES.includes(status as Appointment['status'])) {
+    return res.status(400).json({
+      success: false,
+      error: `Status must be one of: ${STATUSES.join(', ')}`
+    });
+  }
+
+  const offset = (Number(page) - 1) * Number(limit);
+  const limitNum = Number(limit);
+
+  try {
+    let whereClause = `WHERE ${patientAccessCondition('p', '$1')} AND p.is_active = true`;
+    let queryParams: any[] = [userId];
+    let paramCount = 1;
+
+    // Add patient filter
+    if (patient_id) {
+      paramCount++;
+      whereClause += ` AND a.patient_id = $${paramCount}`;
+      queryParams.push(patient_id);
+    }
+
+    // Add doctor filter
+    if (doctor_id) {
+      paramCount++;
+      whereClause += ` AND a.doctor_id = $${paramCount}`;
+      queryParams.push(doctor_id);
+    }
+
+    // Add status filter
+    if (status) {
+      paramCount++;
+      whereClause += ` AND a.status = $${paramCount}`;
+      queryParams.push(status);
+    }
+
+    // Add date range filters
+    if (date_from) {
+      paramCount++;
+      whereClause += ` AND a.appointment_date >= $${paramCount}`;
+      queryParams.push(date_from);
+    }
+
+    if (date_to) {
+      paramCount++;
+      whereClause += ` AND a.appointment_date <= $${paramCount}`;
+      queryParams.push(date_to);
+    }
+
+    // Get total count
+    const countQuery = `
+      SELECT COUNT(*) as total
+      FROM appointments a
+      JOIN patients p ON a.patient_id = p.id
+      ${whereClause}
+    `;
+
+    const countResult = await query(countQuery, queryParams);
+    const total = parseInt(countResult.rows[0].total);
+
+    // Get appointments with pagination
+    const appointmentsQuery = `
+      SELECT
+        a.id, a.patient_id, a.doctor_id, a.title, a.description, a.appointment_date,
+        a.duration_minutes, a.status, a.location, a.notes, a.reminder_sent,
+        a.created_at, a.updated_at,
+        p.name as patient_name,
+        d.name as doctor_name, d.specialty as doctor_specialty
+      FROM appointments a
+      JOIN patients p ON a.patient_id = p.id
+      LEFT JOIN doctors d ON a.doctor_id = d.id
+      ${whereClause}
+      ORDER BY a.appointment_date ASC
+      LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}
+    `;
+
+    queryParams.push(limitNum, offset);
+    const appointmentsResult = await query(appointmentsQuery, queryParams);
+
+    const response: PaginatedResponse<Appointment> = {
+      success: true,
+      data: appointmentsResult.rows,
+      pagination: {
+        page: Number(page),
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum)
+      }
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Get appointments error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch appointments'
+    });
+  }
+}));
+
+// Get a specific appointment by ID
+router.get('/:id', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const appointmentId = req.params.id;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const appointmentQuery = `
+      SELECT
+        a.id, a.patient_id, a.doctor_id, a.title, a.description, a.appointment_date,
+        a.duration_minutes, a.status, a.location, a.notes, a.reminder_sent,
+        a.created_at, a.updated_at,
+        p.name as patient_name,
+        d.name as doctor_name, d.specialty as doctor_specialty
+      FROM appointments a
+      JOIN patients p ON a.patient_id = p.id
+      LEFT JOIN doctors d ON a.doctor_id = d.id
+      WHERE a.id = $1 AND ${patientAccessCondition('p', '$2')} AND p.is_active = true
+    `;
+
+    const result = await query(appointmentQuery, [appointmentId, userId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Appointment not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.rows[0]
+    });
+
+  } catch (error) {
+    logger.error('Get appointment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch appointment'
+    });
+  }
+}));
+
+// Book a new appointment
+router.post('/', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const appointmentData = req.body;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  // Validate required fields
+  if (!appointmentData.patient_id || !appointmentData.title || !appointmentData.appointment_date) {
+    return res.status(400).json({
+      success: false,
+      error: 'patient_id, title and appointment_date are required'
+    });
+  }
+
+  if (appointmentData.duration_minutes !== undefined && !isValidDuration(appointmentData.duration_minutes)) {
+    return res.status(400).json({
+      success: false,
+      error: 'duration_minutes must be a positive whole number'
+    });
+  }
+
+  const durationMinutes = Number(appointmentData.duration_minutes ?? DEFAULT_DURATION_MINUTES);
+
+  try {
+    const result = await transaction(async (client) => {
+      if (!(await lockWritablePatient(client, appointmentData.patient_id, userId))) {
+        return { notFound: true };
+      }
+
+      const conflict = await findConflict(
+        client,
+        appointmentData.patient_id,
+        appointmentData.appointment_date,
+        durationMinutes
+      );
+
+      if (conflict) {
+        return { conflict };
+      }
+
+      const insertQuery = `
+        INSERT INTO appointments (
+          patient_id, doctor_id, title, description, appointment_date,
+          duration_minutes, location, notes
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6, $7, $8
+        )
+        RETURNING *
+      `;
+
+      const appointmentResult = await client.query(insertQuery, [
+        appointmentData.patient_id,
+        appointmentData.doctor_id || null,
+        appointmentData.title,
+        appointmentData.description || null,
+        appointmentData.appointment_date,
+        durationMinutes,
+        appointmentData.location || null,
+        appointmentData.notes || null
+      ]);
+
+      return { appointment: appointmentResult.rows[0] };
+    });
+
+    if (result.notFound) {
+      return res.status(404).json({
+        success: false,
+        error: 'Patient not found'
+      });
+    }
+
+    if (result.conflict) {
+      return res.status(409).json({
+        success: false,
+        error: 'Appointment overlaps with an existing appointment for this patient',
+        data: { conflictingAppointment: result.conflict }
+      });
+    }
+
+    logger.info('Appointment created successfully', {
+      appointmentId: result.appointment.id,
+      patientId: result.appointment.patient_id,
+      userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Appointment created successfully',
+      data: result.appointment
+    });
+
+  } catch (error) {
+    logger.error('Create appointment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create appointment'
+    });
+  }
+}));
+
+// Update appointment details (rescheduling re-runs the conflict check)
+router.put('/:id', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const appointmentId = req.params.id;
+  const updateData = req.body;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  if (updateData.status !== undefined) {
+    return res.status(400).json({
+      success: false,
+      error: 'Use PATCH /:id/status to change the appointment status'
+    });
+  }
+
+  if (updateData.duration_minutes !== undefined && !isValidDuration(updateData.duration_minutes)) {
+    return res.status(400).json({
+      success: false,
+      error: 'duration_minutes must be a positive whole number'
+    });
+  }
+
+  const updateFields: string[] = [];
+  const updateValues: any[] = [];
+  let paramCount = 0;
+
+  // Build dynamic update query
+  APPOINTMENT_FIELDS.forEach(field => {
+    if (updateData[field] !== undefined) {
+      paramCount++;
+      updateFields.push(`${field} = $${paramCount}`);
+      updateValues.push(updateData[field]);
+    }
+  });
+
+  if (updateFields.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'No valid fields to update'
+    });
+  }
+
+  updateFields.push('updated_at = NOW()');
+
+  try {
+    const result = await transaction(async (client) => {
+      const existingResult = await client.query(
+        `SELECT a.* FROM appointments a
+         JOIN patients p ON a.patient_id = p.id
+         WHERE a.id = $1 AND ${patientAccessCondition('p', '$2', 'write')} AND p.is_active = true`,
+        [appointmentId, userId]
+      );
+
+      if (existingResult.rows.length === 0) {
+        return { notFound: true };
+      }
+
+      const existing = existingResult.rows[0];
+      await lockWritablePatient(client, existing.patient_id, userId);
+
+      const isRescheduling =
+        updateData.appointment_date !== undefined || updateData.duration_minutes !== undefined;
+
+      if (isRescheduling && existing.status === 'scheduled') {
+        const conflict = await findConflict(
+          client,
+          existing.patient_id,
+          updateData.appointment_date ?? existing.appointment_date,
+          Number(updateData.duration_minutes ?? existing.duration_minutes ?? DEFAULT_DURATION_MINUTES),
+          appointmentId
+        );
+
+        if (conflict) {
+          return { conflict };
+        }
+      }
+
+      const updateQuery = `
+        UPDATE appointments
+        SET ${updateFields.join(', ')}
+        WHERE id = $${paramCount + 1}
+        RETURNING *
+      `;
+
+      const appointmentResult = await client.query(updateQuery, [...updateValues, appointmentId]);
+      return { appointment: appointmentResult.rows[0] };
+    });
+
+    if (result.notFound) {
+      return res.status(404).json({
+        success: false,
+        error: 'Appointment not found'
+      });
+    }
+
+    if (result.conflict) {
+      return res.status(409).json({
+        success: false,
+        error: 'Appointment overlaps with an existing appointment for this patient',
+        data: { conflictingAppointment: result.conflict }
+      });
+    }
+
+    logger.info('Appointment updated successfully', {
+      appointmentId,
+      patientId: result.appointment.patient_id,
+      userId
+    });
+
+    res.json({
+      success: true,
+      message: 'Appointment updated successfully',
+      data: result.appointment
+    });
+
+  } catch (error) {
+    logger.error('Update appointment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update appointment'
+    });
+  }
+}));
+
+// Change appointment status (scheduled -> completed / cancelled / no-show)
+router.patch('/:id/status', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const appointmentId = req.params.id;
+  const { status, notes } = req.body;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  if (!STATUSES.includes(status)) {
+    return res.status(400).json({
+      success: false,
+      error: `Status must be one of: ${STATUSES.join(', ')}`
+    });
+  }
+
+  try {
+    const result = await transaction(async (client) => {
+      const existingResult = await client.query(
+        `SELECT a.* FROM appointments a
+         JOIN patients p ON a.patient_id = p.id
+         WHERE a.id = $1 AND ${patientAccessCondition('p', '$2', 'write')} AND p.is_active = true
+         FOR UPDATE OF a`,
+        [appointmentId, userId]
+      );
+
+      if (existingResult.rows.length === 0) {
+        return { notFound: true };
+      }
+
+      const existing = existingResult.rows[0];
+      const currentStatus = existing.status as Appointment['status'];
+
+      if (!STATUS_TRANSITIONS[currentStatus].includes(status)) {
+        return { invalidTransition: currentStatus };
+      }
+
+      const updateResult = await client.query(
+        `UPDATE appointments
+         SET status = $1, notes = COALESCE($2, notes), updated_at = NOW()
+         WHERE id = $3
+         RETURNING *`,
+        [status, notes || null, appointmentId]
+      );
+
+      await writeAuditLog({
+        userId,
+        action: 'APPOINTMENT_STATUS_CHANGE',
+        tableName: 'appointments',
+        recordId: appointmentId,
+        patientId: existing.patient_id,
+        oldValues: { status: currentStatus },
+        newValues: { status, ...(notes && { notes }) },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }, client);
+
+      return { appointment: updateResult.rows[0] };
+    });
+
+    if (result.notFound) {
+      return res.status(404).json({
+        success: false,
+        error: 'Appointment not found'
+      });
+    }
+
+    if (result.invalidTransition) {
+      return res.status(409).json({
+        success: false,
+        error: `Cannot change status from ${result.invalidTransition} to ${status}`
+      });
+    }
+
+    logger.info('Appointment status changed', {
+      appointmentId,
+      status,
+      userId
+    });
+
+    res.json({
+      success: true,
+      message: 'Appointment status updated successfully',
+      data: result.appointment
+    });
+
+  } catch (error) {
+    logger.error('Update appointment status error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update appointment status'
+    });
+  }
+}));
+
+// Delete an appointment
+router.delete('/:id', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const appointmentId = req.params.id;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const deleteQuery = `
+      DELETE FROM appointments a
+      USING patients p
+      WHERE a.id = $1 AND a.patient_id = p.id AND ${patientAccessCondition('p', '$2', 'write')} AND p.is_active = true
+      RETURNING a.id, a.patient_id
+    `;
+
+    const result = await query(deleteQuery, [appointmentId, userId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Appointment not found'
+      });
+    }
+
+    logger.info('Appointment deleted successfully', {
+      appointmentId,
+      patientId: result.rows[0].patient_id,
+      userId
+    });
+
+    res.json({
+      success: true,
+      message: 'Appointment deleted successfully'
+    });
+
+  } catch (error) {
+    logger.error('Delete appointment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete appointment'
+    });
+  }
+}));
+
+export default router;
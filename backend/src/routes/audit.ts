@@ -0,0 +1,149 @@
+import { Router } from 'express';
+import { query } from '../config/database';
+import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+import { patientAccessCondition } from '../utils/patientAccess';
+import { AuditLog, AuditLogQueryParams, PaginatedResponse } from '../types';
+
+const router = Router();
+
+// Get audit events the user may see, newest first
+router.get('/', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const userRole = (req as any).user?.role;
+  const {
+    page = 1,
+    limit = 50,
+    patient_id,
+    user_id,
+    action,
+    table_name,
+    field,
+    date_from,
+    date_to
+  }: AuditLogQueryParams = req.query as any;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  const offset = (Number(page) - 1) * Number(limit);
+  const limitNum = Number(limit);
+
+  try {
+    let whereClause = 'WHERE 1 = 1';
+    let queryParams: any[] = [];
+    let paramCount = 0;
+
+    // Admins see everything; everyone else sees their own actions and
+    // events on patients they can read
+    if (userRole !== 'admin') {
+      paramCount++;
+      whereClause += ` AND (
+        al.user_id = $${paramCount}
+        OR EXISTS (
+          SELECT 1 FROM patients p
+          WHERE p.id = al.patient_id AND ${patientAccessCondition('p', `$${paramCount}`)}
+        )
+      )`;
+      queryParams.push(userId);
+    }
+
+    if (patient_id) {
+      paramCount++;
+      whereClause += ` AND al.patient_id = $${paramCount}`;
+      queryParams.push(patient_id);
+    }
+
+    if (user_id) {
+      paramCount++;
+      whereClause += ` AND al.user_id = $${paramCount}`;
+      queryParams.push(user_id);
+    }
+
+    if (action) {
+      paramCount++;
+      whereClause += ` AND al.action = $${paramCount}`;
+      queryParams.push(String(action).toUpperCase());
+    }
+
+    if (table_name) {
+      paramCount++;
+      whereClause += ` AND al.table_name = $${paramCount}`;
+      queryParams.push(table_name);
+    }
+
+    // Only events that changed the given column, e.g. field=allergies
+    if (field) {
+      paramCount++;
+      whereClause += ` AND (al.new_values ? $${paramCount} OR al.old_values ? $${paramCount})`;
+      queryParams.push(field);
+    }
+
+    // Add date range filters
+    if (date_from) {
+      paramCount++;
+      whereClause += ` AND al.created_at >= $${paramCount}`;
+      queryParams.push(date_from);
+    }
+
+    if (date_to) {
+      paramCount++;
+      whereClause += ` AND al.created_at <= $${paramCount}`;
+      queryParams.push(date_to);
+    }
+
+    // Get total count
+    const countQuery = `
+      SELECT COUNT(*) as total
+      FROM audit_logs al
+      ${whereClause}
+    `;
+
+    const countResult = await query(countQuery, queryParams);
+    const total = parseInt(countResult.rows[0].total);
+
+    // Get audit events with pagination
+    const auditQuery = `
+      SELECT
+        al.id, al.user_id, al.action, al.table_name, al.record_id, al.patient_id,
+        al.old_values, al.new_values, al.ip_address, al.created_at,
+        u.email as user_email, u.first_name as user_first_name, u.last_name as user_last_name,
+        pt.name as patient_name
+      FROM audit_logs al
+      LEFT JOIN users u ON al.user_id = u.id
+      LEFT JOIN patients pt ON al.patient_id = pt.id
+      ${whereClause}
+      ORDER BY al.created_at DESC
+      LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}
+    `;
+
+    queryParams.push(limitNum, offset);
+    const auditResult = await query(auditQuery, queryParams);
+
+    const response: PaginatedResponse<AuditLog> = {
+      success: true,
+      data: auditResult.rows,
+      pagination: {
+        page: Number(page),
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum)
+      }
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Get audit log error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch audit log'
+    });
+  }
+}));
+
+export default router;
@@ -2,7 +2,14 @@ import { Router } from 'express';
 import bcrypt from 'bcryptjs';
 import { query, transaction } from '../config/database';
 import { logger } from '../utils/logger';
-import { generateToken } from '../middleware/auth';
+import { authMiddleware } from '../middleware/auth';
+import {
+  createSession,
+  revokeSession,
+  revokeUserSessions,
+  rotateRefreshToken,
+  listUserSessions
+} from '../services/sessionService';
 import { asyncHandler } from '../middleware/errorHandler';
 import { LoginRequest, RegisterRequest, AuthResponse } from '../types';
 import { validationResult } from 'express-validator';
@@ -82,21 +89,12 @@ router.post('/register', asyncHandler(async (req, res) => {
       const user = userResult.rows[0];
 
       // Create session
-      const token = generateToken(user);
-      const sessionQuery = `
-        INSERT INTO sessions (user_id, token, expires_at, device_info, ip_address)
-        VALUES ($1, $2, NOW() + INTERVAL '24 hours', $3, $4)
-        RETURNING id
-      `;
-
-      await client.query(sessionQuery, [
-        user.id,
-        token,
-        req.get('User-Agent'),
-        req.ip
-      ]);
+      const session = await createSession(client, user, {
+        deviceInfo: req.get('User-Agent'),
+        ipAddress: req.ip
+      });
 
-      return { user, token };
+      return { user, ...session };
     });
 
     logger.info('User registered successfully', { userId: result.user.id, email });
@@ -105,7 +103,9 @@ router.post('/register', asyncHandler(async (req, res) => {
       success: true,
       message: 'User registered successfully',
       user: result.user,
-      token: result.token
+      token: result.token,
+      refreshToken: result.refreshToken,
+      sessionId: result.sessionId
     } as AuthResponse);
 
   } catch (error) {
@@ -159,48 +159,30 @@ router.post('/login', asyncHandler(async (req, res) => {
       });
     }
 
-    // Generate token
-    const tokenExpiry = rememberMe ? '7d' : '24h';
-    const token = generateToken({
-      id: user.id,
-      email: user.email,
-      username: user.username,
-      first_name: user.first_name,
-      last_name: user.last_name,
-      role: user.role,
-      is_active: user.is_active,
-      email_verified: user.email_verified,
-      created_at: user.created_at,
-      updated_at: user.updated_at,
-      last_login: user.last_login
-    });
-
-    // Update user's last login and create session
-    await transaction(async (client) => {
-      // Update last login
+    // Update user's last login and create a session for this device
+    const session = await transaction(async (client) => {
       await client.query(
         'UPDATE users SET last_login = NOW() WHERE id = $1',
         [user.id]
       );
 
-      // Invalidate old sessions (optional - only keep last session)
-      await client.query(
-        'UPDATE sessions SET is_active = false WHERE user_id = $1',
-        [user.id]
-      );
-
-      // Create new session
-      const sessionQuery = `
-        INSERT INTO sessions (user_id, token, expires_at, device_info, ip_address)
-        VALUES ($1, $2, NOW() + INTERVAL '${tokenExpiry}', $3, $4)
-      `;
-
-      await client.query(sessionQuery, [
-        user.id,
-        token,
-        req.get('User-Agent'),
-        req.ip
-      ]);
+      return createSession(client, {
+        id: user.id,
+        email: user.email,
+        username: user.username,
+        first_name: user.first_name,
+        last_name: user.last_name,
+        role: user.role,
+        is_active: user.is_active,
+        email_verified: user.email_verified,
+        created_at: user.created_at,
+        updated_at: user.updated_at,
+        last_login: user.last_login
+      }, {
+        deviceInfo: req.get('User-Agent'),
+        ipAddress: req.ip,
+        rememberMe
+      });
     });
 
     // Remove password hash from response
@@ -212,7 +194,9 @@ router.post('/login', asyncHandler(async (req, res) => {
       success: true,
       message: 'Login successful',
       user: userWithoutPassword,
-      token
+      token: session.token,
+      refreshToken: session.refreshToken,
+      sessionId: session.sessionId
     } as AuthResponse);
 
   } catch (error) {
@@ -237,12 +221,16 @@ router.post('/logout', asyncHandler(async (req, res) => {
 
     const token = authHeader.substring(7);
 
-    // Invalidate session
-    await query(
-      'UPDATE sessions SET is_active = false WHERE token = $1',
+    // Invalidate session and its refresh tokens
+    const sessionResult = await query(
+      'SELECT id FROM sessions WHERE token = $1 AND is_active = true',
       [token]
     );
 
+    if (sessionResult.rows.length > 0) {
+      await transaction(client => revokeSession(client, sessionResult.rows[0].id, 'logout'));
+    }
+
     logger.info('User logged out successfully');
 
     res.json({
@@ -259,6 +247,135 @@ router.post('/logout', asyncHandler(async (req, res) => {
   }
 }));
 
+// Exchange a refresh token for a new access/refresh token pair
+router.post('/refresh', asyncHandler(async (req, res) => {
+  const { refreshToken } = req.body;
+
+  if (!refreshToken) {
+    return res.status(400).json({
+      success: false,
+      error: 'Refresh token required'
+    });
+  }
+
+  try {
+    const result = await rotateRefreshToken(refreshToken, { ipAddress: req.ip });
+
+    if (result.status === 'reused') {
+      return res.status(401).json({
+        success: false,
+        error: 'Refresh token has already been used; the session has been signed out'
+      });
+    }
+
+    if (result.status === 'invalid') {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or expired refresh token'
+      });
+    }
+
+    res.json({
+      success: true,
+      user: result.user,
+      token: result.session.token,
+      refreshToken: result.session.refreshToken,
+      sessionId: result.session.sessionId
+    } as AuthResponse);
+
+  } catch (error) {
+    logger.error('Token refresh error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Token refresh failed'
+    });
+  }
+}));
+
+// List the user's signed-in devices
+router.get('/sessions', authMiddleware, asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+
+  try {
+    const sessions = await listUserSessions(userId);
+
+    res.json({
+      success: true,
+      data: sessions.map(session => ({
+        ...session,
+        is_current: session.id === req.sessionId
+      }))
+    });
+
+  } catch (error) {
+    logger.error('List sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch sessions'
+    });
+  }
+}));
+
+// Sign out every device except the current one
+router.post('/sessions/revoke-others', authMiddleware, asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+
+  try {
+    const revoked = await revokeUserSessions(userId, 'remote_sign_out', req.sessionId);
+
+    logger.info('Other sessions revoked', { userId, revoked });
+
+    res.json({
+      success: true,
+      message: `Signed out ${revoked} other device(s)`,
+      data: { revoked }
+    });
+
+  } catch (error) {
+    logger.error('Revoke other sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to sign out other devices'
+    });
+  }
+}));
+
+// Sign out a specific device
+router.delete('/sessions/:id', authMiddleware, asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const sessionId = req.params.id;
+
+  try {
+    const sessionResult = await query(
+      'SELECT id FROM sessions WHERE id = $1 AND user_id = $2 AND is_active = true',
+      [sessionId, userId]
+    );
+
+    if (sessionResult.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found'
+      });
+    }
+
+    await transaction(client => revokeSession(client, sessionId, 'remote_sign_out'));
+
+    logger.info('Session revoked', { userId, sessionId });
+
+    res.json({
+      success: true,
+      message: 'Device signed out successfully'
+    });
+
+  } catch (error) {
+    logger.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to sign out device'
+    });
+  }
+}));
+
 // Get current user profile
 router.get('/profile', asyncHandler(async (req, res) => {
   // This route should be protected by auth middleware
@@ -415,11 +532,8 @@ router.put('/change-password', asyncHandler(async (req, res) => {
       [newPasswordHash, userId]
     );
 
-    // Invalidate all existing sessions (force re-login)
-    await query(
-      'UPDATE sessions SET is_active = false WHERE user_id = $1',
-      [userId]
-    );
+    // Invalidate all existing sessions and refresh tokens (force re-login)
+    await revokeUserSessions(userId, 'password_change');
 
     logger.info('Password changed successfully', { userId });
 
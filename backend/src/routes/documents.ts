@@ -0,0 +1,299 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { query } from '../config/database';
+import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+import { sniffFileType, extensionMatches } from '../utils/fileSniffer';
+import { saveDocumentFile, readDocumentFile, deleteDocumentFile } from '../services/documentStorage';
+import { patientAccessCondition, PatientAccessLevel } from '../utils/patientAccess';
+
+// Mounted under /medical-records/:recordId/documents
+const router = Router({ mergeParams: true });
+
+const MAX_UPLOAD_BYTES = parseInt(process.env.MAX_UPLOAD_BYTES || String(10 * 1024 * 1024));
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 }
+});
+
+// Translate multer errors into the API's JSON error shape
+const uploadSingleFile = (req: Request, res: Response, next: NextFunction) => {
+  upload.single('file')(req, res, (error: any) => {
+    if (!error) {
+      return next();
+    }
+
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({
+        success: false,
+        error: `File exceeds the ${Math.round(MAX_UPLOAD_BYTES / (1024 * 1024))}MB upload limit`
+      });
+    }
+
+    return res.status(400).json({
+      success: false,
+      error: error.message || 'Invalid upload'
+    });
+  });
+};
+
+// Find a medical record on a patient the user can access at the given level
+const findAccessibleRecord = async (
+  recordId: string,
+  userId: string,
+  level: PatientAccessLevel
+): Promise<{ id: string; patient_id: string } | null> => {
+  const result = await query(
+    `SELECT mr.id, mr.patient_id
+     FROM medical_records mr
+     JOIN patients p ON mr.patient_id = p.id
+     WHERE mr.id = $1 AND ${patientAccessCondition('p', '$2', level)} AND p.is_active = true`,
+    [recordId, userId]
+  );
+  return result.rows[0] || null;
+};
+
+const DOCUMENT_COLUMNS = 'id, medical_record_id, original_name, file_type, file_size, mime_type, uploaded_at';
+
+// List documents attached to a medical record
+router.get('/', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const { recordId } = req.params;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    if (!(await findAccessibleRecord(recordId, userId, 'read'))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Medical record not found'
+      });
+    }
+
+    const result = await query(
+      `SELECT ${DOCUMENT_COLUMNS} FROM documents WHERE medical_record_id = $1 ORDER BY uploaded_at ASC`,
+      [recordId]
+    );
+
+    res.json({
+      success: true,
+      data: result.rows
+    });
+
+  } catch (error) {
+    logger.error('Get documents error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch documents'
+    });
+  }
+}));
+
+// Upload a document (multipart field "file")
+router.post('/', uploadSingleFile, asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const { recordId } = req.params;
+  const file = (req as any).file as Express.Multer.File | undefined;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  if (!file) {
+    return res.status(400).json({
+      success: false,
+      error: 'A file is required in the "file" field'
+    });
+  }
+
+  const sniffed = sniffFileType(file.buffer, file.originalname);
+
+  if (!sniffed) {
+    return res.status(415).json({
+      success: false,
+      error: 'Unsupported file type. Allowed types: pdf, jpg, jpeg, png, doc, docx'
+    });
+  }
+
+  if (!extensionMatches(file.originalname, sniffed)) {
+    return res.status(415).json({
+      success: false,
+      error: `File content does not match its extension (detected ${sniffed.fileType})`
+    });
+  }
+
+  let storedPath: string | null = null;
+
+  try {
+    const record = await findAccessibleRecord(recordId, userId, 'write');
+
+    if (!record) {
+      return res.status(404).json({
+        success: false,
+        error: 'Medical record not found'
+      });
+    }
+
+    const { filename, filePath } = await saveDocumentFile(record.patient_id, file.buffer);
+    storedPath = filePath;
+
+    const insertQuery = `
+      INSERT INTO documents (
+        medical_record_id, filename, original_name, file_type, file_size, file_path, mime_type
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING ${DOCUMENT_COLUMNS}
+    `;
+
+    const result = await query(insertQuery, [
+      recordId,
+      filename,
+      file.originalname,
+      sniffed.fileType,
+      file.size,
+      filePath,
+      sniffed.mimeType
+    ]);
+
+    logger.info('Document uploaded successfully', {
+      documentId: result.rows[0].id,
+      recordId,
+      userId,
+      fileType: sniffed.fileType,
+      size: file.size
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Document uploaded successfully',
+      data: result.rows[0]
+    });
+
+  } catch (error) {
+    // Don't leave an orphaned encrypted file behind when the insert fails
+    if (storedPath) {
+      await deleteDocumentFile(storedPath).catch(() => undefined);
+    }
+
+    logger.error('Upload document error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to upload document'
+    });
+  }
+}));
+
+// Download (decrypt) a document
+router.get('/:documentId', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const { recordId, documentId } = req.params;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const documentQuery = `
+      SELECT doc.id, doc.original_name, doc.file_path, doc.mime_type
+      FROM documents doc
+      JOIN medical_records mr ON doc.medical_record_id = mr.id
+      JOIN patients p ON mr.patient_id = p.id
+      WHERE doc.id = $1 AND mr.id = $2 AND ${patientAccessCondition('p', '$3')} AND p.is_active = true
+    `;
+
+    const result = await query(documentQuery, [documentId, recordId, userId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Document not found'
+      });
+    }
+
+    const document = result.rows[0];
+    const contents = await readDocumentFile(document.file_path);
+
+    logger.info('Document downloaded', { documentId, recordId, userId });
+
+    res.setHeader('Content-Type', document.mime_type || 'application/octet-stream');
+    res.setHeader('Content-Length', contents.length);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename*=UTF-8''${encodeURIComponent(document.original_name)}`
+    );
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.send(contents);
+
+  } catch (error) {
+    logger.error('Download document error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to download document'
+    });
+  }
+}));
+
+// Delete a document and its stored file
+router.delete('/:documentId', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const { recordId, documentId } = req.params;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const deleteQuery = `
+      DELETE FROM documents doc
+      USING medical_records mr, patients p
+      WHERE doc.id = $1
+        AND doc.medical_record_id = mr.id
+        AND mr.id = $2
+        AND mr.patient_id = p.id
+        AND ${patientAccessCondition('p', '$3', 'write')}
+        AND p.is_active = true
+      RETURNING doc.id, doc.file_path
+    `;
+
+    const result = await query(deleteQuery, [documentId, recordId, userId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Document not found'
+      });
+    }
+
+    await deleteDocumentFile(result.rows[0].file_path);
+
+    logger.info('Document deleted successfully', { documentId, recordId, userId });
+
+    res.json({
+      success: true,
+      message: 'Document deleted successfully'
+    });
+
+  } catch (error) {
+    logger.error('Delete document error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete document'
+    });
+  }
+}));
+
+export default router;
@@ -0,0 +1,747 @@
+import { Router } from 'express';
+import { query, transaction } from '../config/database';
+import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+import { patientAccessCondition } from '../utils/patientAccess';
+import { writeAuditLog } from '../utils/auditTrail';
+import { HouseholdRole } from '../types';
+
+const router = Router();
+
+const HOUSEHOLD_ROLES: HouseholdRole[] = ['owner', 'caregiver', 'viewer'];
+
+// The user's role in a household, or null when they are not a member
+const getMemberRole = async (householdId: string, userId: string): Promise<HouseholdRole | null> => {
+  const result = await query(
+    'SELECT role FROM household_members WHERE household_id = $1 AND user_id = $2',
+    [householdId, userId]
+  );
+  return result.rows[0]?.role || null;
+};
+
+// patient_ids may be omitted or null (all household patients) or a list of IDs
+const isValidPatientIds = (patientIds: any): boolean =>
+  patientIds === undefined ||
+  patientIds === null ||
+  (Array.isArray(patientIds) && patientIds.every(id => typeof id === 'string'));
+
+// Get the user's households with their members and patients
+router.get('/', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const householdsResult = await query(
+      `SELECT h.id, h.name, h.created_by, h.created_at, h.updated_at, hm.role
+       FROM households h
+       JOIN household_members hm ON hm.household_id = h.id
+       WHERE hm.user_id = $1
+       ORDER BY h.name ASC`,
+      [userId]
+    );
+
+    const householdIds = householdsResult.rows.map((h: any) => h.id);
+    const members: any = {};
+    const patients: any = {};
+
+    if (householdIds.length > 0) {
+      const membersResult = await query(
+        `SELECT hm.id, hm.household_id, hm.user_id, hm.role, hm.patient_ids, hm.created_at,
+                u.email, u.first_name, u.last_name
+         FROM household_members hm
+         JOIN users u ON hm.user_id = u.id
+         WHERE hm.household_id = ANY($1)
+         ORDER BY hm.created_at ASC`,
+        [householdIds]
+      );
+
+      membersResult.rows.forEach((member: any) => {
+        if (!members[member.household_id]) {
+          members[member.household_id] = [];
+        }
+        members[member.household_id].push(member);
+      });
+
+      // Members limited by patient_ids only see the patients they were given
+      const patientsResult = await query(
+        `SELECT p.id, p.household_id, p.name, p.user_id
+         FROM patients p
+         WHERE p.household_id = ANY($1) AND p.is_active = true AND ${patientAccessCondition('p', '$2')}
+         ORDER BY p.name ASC`,
+        [householdIds, userId]
+      );
+
+      patientsResult.rows.forEach((patient: any) => {
+        if (!patients[patient.household_id]) {
+          patients[patient.household_id] = [];
+        }
+        patients[patient.household_id].push(patient);
+      });
+    }
+
+    const households = householdsResult.rows.map((household: any) => ({
+      ...household,
+      members: members[household.id] || [],
+      patients: patients[household.id] || []
+    }));
+
+    res.json({
+      success: true,
+      data: households
+    });
+
+  } catch (error) {
+    logger.error('Get households error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch households'
+    });
+  }
+}));
+
+// Create a household; the creator becomes its first owner
+router.post('/', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const { name } = req.body;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Household name is required'
+    });
+  }
+
+  try {
+    const household = await transaction(async (client) => {
+      const householdResult = await client.query(
+        'INSERT INTO households (name, created_by) VALUES ($1, $2) RETURNING *',
+        [name.trim(), userId]
+      );
+
+      await client.query(
+        `INSERT INTO household_members (household_id, user_id, role) VALUES ($1, $2, 'owner')`,
+        [householdResult.rows[0].id, userId]
+      );
+
+      return householdResult.rows[0];
+    });
+
+    logger.info('Household created successfully', { householdId: household.id, userId });
+
+    res.status(201).json({
+      success: true,
+      message: 'Household created successfully',
+      data: { ...household, role: 'owner' }
+    });
+
+  } catch (error) {
+    logger.error('Create household error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create household'
+    });
+  }
+}));
+
+// Rename a household (owners only)
+router.put('/:id', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const householdId = req.params.id;
+  const { name } = req.body;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Household name is required'
+    });
+  }
+
+  try {
+    const role = await getMemberRole(householdId, userId);
+
+    if (!role) {
+      return res.status(404).json({
+        success: false,
+        error: 'Household not found'
+      });
+    }
+
+    if (role !== 'owner') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only household owners can rename the household'
+      });
+    }
+
+    const result = await query(
+      'UPDATE households SET name = $1, updated_at = NOW() WHERE id = $2 RETURNING *',
+      [name.trim(), householdId]
+    );
+
+    res.json({
+      success: true,
+      message: 'Household updated successfully',
+      data: result.rows[0]
+    });
+
+  } catch (error) {
+    logger.error('Update household error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update household'
+    });
+  }
+}));
+
+// Delete a household; its patients go back to being accessible only to their creators
+router.delete('/:id', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const householdId = req.params.id;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const role = await getMemberRole(householdId, userId);
+
+    if (!role) {
+      return res.status(404).json({
+        success: false,
+        error: 'Household not found'
+      });
+    }
+
+    if (role !== 'owner') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only household owners can delete the household'
+      });
+    }
+
+    await transaction(async (client) => {
+      await client.query('DELETE FROM households WHERE id = $1', [householdId]);
+
+      await writeAuditLog({
+        userId,
+        action: 'HOUSEHOLD_DELETE',
+        tableName: 'households',
+        recordId: householdId,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }, client);
+    });
+
+    logger.info('Household deleted successfully', { householdId, userId });
+
+    res.json({
+      success: true,
+      message: 'Household deleted successfully'
+    });
+
+  } catch (error) {
+    logger.error('Delete household error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete household'
+    });
+  }
+}));
+
+// Invite an existing user into the household (owners only)
+router.post('/:id/members', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const householdId = req.params.id;
+  const { email, role, patient_ids } = req.body;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  if (!email || !role) {
+    return res.status(400).json({
+      success: false,
+      error: 'email and role are required'
+    });
+  }
+
+  if (!HOUSEHOLD_ROLES.includes(role)) {
+    return res.status(400).json({
+      success: false,
+      error: `Role must be one of: ${HOUSEHOLD_ROLES.join(', ')}`
+    });
+  }
+
+  if (!isValidPatientIds(patient_ids)) {
+    return res.status(400).json({
+      success: false,
+      error: 'patient_ids must be an array of patient IDs or null'
+    });
+  }
+
+  try {
+    const requesterRole = await getMemberRole(householdId, userId);
+
+    if (!requesterRole) {
+      return res.status(404).json({
+        success: false,
+        error: 'Household not found'
+      });
+    }
+
+    if (requesterRole !== 'owner') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only household owners can add members'
+      });
+    }
+
+    const userResult = await query(
+      'SELECT id, email, first_name, last_name FROM users WHERE email = $1 AND is_active = true',
+      [email.toLowerCase()]
+    );
+
+    if (userResult.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'No user with that email address'
+      });
+    }
+
+    const invitee = userResult.rows[0];
+
+    const result = await transaction(async (client) => {
+      const memberResult = await client.query(
+        `INSERT INTO household_members (household_id, user_id, role, patient_ids)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (household_id, user_id) DO NOTHING
+         RETURNING *`,
+        [householdId, invitee.id, role, patient_ids || null]
+      );
+
+      if (memberResult.rows.length === 0) {
+        return { conflict: true };
+      }
+
+      await writeAuditLog({
+        userId,
+        action: 'HOUSEHOLD_MEMBER_ADD',
+        tableName: 'household_members',
+        recordId: memberResult.rows[0].id,
+        newValues: { user_id: invitee.id, role, patient_ids: patient_ids || null },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }, client);
+
+      return { member: memberResult.rows[0] };
+    });
+
+    if (result.conflict) {
+      return res.status(409).json({
+        success: false,
+        error: 'User is already a member of this household'
+      });
+    }
+
+    logger.info('Household member added', { householdId, memberUserId: invitee.id, role, userId });
+
+    res.status(201).json({
+      success: true,
+      message: 'Member added successfully',
+      data: {
+        ...result.member,
+        email: invitee.email,
+        first_name: invitee.first_name,
+        last_name: invitee.last_name
+      }
+    });
+
+  } catch (error) {
+    logger.error('Add household member error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add household member'
+    });
+  }
+}));
+
+// Change a member's role or patient grants (owners only)
+router.put('/:id/members/:memberId', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const { id: householdId, memberId } = req.params;
+  const { role, patient_ids } = req.body;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  if (role === undefined && patient_ids === undefined) {
+    return res.status(400).json({
+      success: false,
+      error: 'No valid fields to update'
+    });
+  }
+
+  if (role !== undefined && !HOUSEHOLD_ROLES.includes(role)) {
+    return res.status(400).json({
+      success: false,
+      error: `Role must be one of: ${HOUSEHOLD_ROLES.join(', ')}`
+    });
+  }
+
+  if (!isValidPatientIds(patient_ids)) {
+    return res.status(400).json({
+      success: false,
+      error: 'patient_ids must be an array of patient IDs or null'
+    });
+  }
+
+  try {
+    const requesterRole = await getMemberRole(householdId, userId);
+
+    if (!requesterRole) {
+      return res.status(404).json({
+        success: false,
+        error: 'Household not found'
+      });
+    }
+
+    if (requesterRole !== 'owner') {
+      return res.status(403).json({
+        success: false,
+        error: 'Only household owners can change member access'
+      });
+    }
+
+    const result = await transaction(async (client) => {
+      // Lock the owner rows so two owners can't demote each other at once
+      const ownersResult = await client.query(
+        `SELECT id FROM household_members WHERE household_id = $1 AND role = 'owner' FOR UPDATE`,
+        [householdId]
+      );
+
+      const existingResult = await client.query(
+        'SELECT * FROM household_members WHERE id = $1 AND household_id = $2 FOR UPDATE',
+        [memberId, householdId]
+      );
+
+      if (existingResult.rows.length === 0) {
+        return { notFound: true };
+      }
+
+      const existing = existingResult.rows[0];
+
+      if (existing.role === 'owner' && role && role !== 'owner' && ownersResult.rows.length === 1) {
+        return { lastOwner: true };
+      }
+
+      const updateFields: string[] = [];
+      const updateValues: any[] = [];
+      let paramCount = 0;
+
+      if (role !== undefined) {
+        paramCount++;
+        updateFields.push(`role = $${paramCount}`);
+        updateValues.push(role);
+      }
+
+      if (patient_ids !== undefined) {
+        paramCount++;
+        updateFields.push(`patient_ids = $${paramCount}`);
+        updateValues.push(patient_ids);
+      }
+
+      updateFields.push('updated_at = NOW()');
+      updateValues.push(memberId);
+
+      const updateResult = await client.query(
+        `UPDATE household_members SET ${updateFields.join(', ')} WHERE id = $${paramCount + 1} RETURNING *`,
+        updateValues
+      );
+
+      await writeAuditLog({
+        userId,
+        action: 'HOUSEHOLD_MEMBER_UPDATE',
+        tableName: 'household_members',
+        recordId: memberId,
+        oldValues: { role: existing.role, patient_ids: existing.patient_ids },
+        newValues: { role: updateResult.rows[0].role, patient_ids: updateResult.rows[0].patient_ids },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }, client);
+
+      return { member: updateResult.rows[0] };
+    });
+
+    if (result.notFound) {
+      return res.status(404).json({
+        success: false,
+        error: 'Member not found'
+      });
+    }
+
+    if (result.lastOwner) {
+      return res.status(409).json({
+        success: false,
+        error: 'A household must keep at least one owner'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Member updated successfully',
+      data: result.member
+    });
+
+  } catch (error) {
+    logger.error('Update household member error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update household member'
+    });
+  }
+}));
+
+// Remove a member; owners can remove anyone and any member can leave
+router.delete('/:id/members/:memberId', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const { id: householdId, memberId } = req.params;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const requesterRole = await getMemberRole(householdId, userId);
+
+    if (!requesterRole) {
+      return res.status(404).json({
+        success: false,
+        error: 'Household not found'
+      });
+    }
+
+    const result = await transaction(async (client) => {
+      const ownersResult = await client.query(
+        `SELECT id FROM household_members WHERE household_id = $1 AND role = 'owner' FOR UPDATE`,
+        [householdId]
+      );
+
+      const existingResult = await client.query(
+        'SELECT * FROM household_members WHERE id = $1 AND household_id = $2 FOR UPDATE',
+        [memberId, householdId]
+      );
+
+      if (existingResult.rows.length === 0) {
+        return { notFound: true };
+      }
+
+      const existing = existingResult.rows[0];
+
+      if (requesterRole !== 'owner' && existing.user_id !== userId) {
+        return { forbidden: true };
+      }
+
+      if (existing.role === 'owner' && ownersResult.rows.length === 1) {
+        return { lastOwner: true };
+      }
+
+      await client.query('DELETE FROM household_members WHERE id = $1', [memberId]);
+
+      await writeAuditLog({
+        userId,
+        action: 'HOUSEHOLD_MEMBER_REMOVE',
+        tableName: 'household_members',
+        recordId: memberId,
+        oldValues: { user_id: existing.user_id, role: existing.role, patient_ids: existing.patient_ids },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }, client);
+
+      return { removed: true };
+    });
+
+    if (result.notFound) {
+      return res.status(404).json({
+        success: false,
+        error: 'Member not found'
+      });
+    }
+
+    if (result.forbidden) {
+      return res.status(403).json({
+        success: false,
+        error: 'Only household owners can remove other members'
+      });
+    }
+
+    if (result.lastOwner) {
+      return res.status(409).json({
+        success: false,
+        error: 'A household must keep at least one owner'
+      });
+    }
+
+    logger.info('Household member removed', { householdId, memberId, userId });
+
+    res.json({
+      success: true,
+      message: 'Member removed successfully'
+    });
+
+  } catch (error) {
+    logger.error('Remove household member error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove household member'
+    });
+  }
+}));
+
+// Share one of the user's own patients with the household
+router.post('/:id/patients/:patientId', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const { id: householdId, patientId } = req.params;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const role = await getMemberRole(householdId, userId);
+
+    if (!role) {
+      return res.status(404).json({
+        success: false,
+        error: 'Household not found'
+      });
+    }
+
+    if (role === 'viewer') {
+      return res.status(403).json({
+        success: false,
+        error: 'Viewers cannot add patients to the household'
+      });
+    }
+
+    const result = await query(
+      `UPDATE patients
+       SET household_id = $1, updated_at = NOW()
+       WHERE id = $2 AND user_id = $3 AND is_active = true
+       RETURNING id, name, household_id`,
+      [householdId, patientId, userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Patient not found'
+      });
+    }
+
+    logger.info('Patient added to household', { householdId, patientId, userId });
+
+    res.json({
+      success: true,
+      message: 'Patient added to household',
+      data: result.rows[0]
+    });
+
+  } catch (error) {
+    logger.error('Add household patient error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add patient to household'
+    });
+  }
+}));
+
+// Stop sharing a patient; allowed for the patient's creator and household owners
+router.delete('/:id/patients/:patientId', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const { id: householdId, patientId } = req.params;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const role = await getMemberRole(householdId, userId);
+
+    if (!role) {
+      return res.status(404).json({
+        success: false,
+        error: 'Household not found'
+      });
+    }
+
+    const result = await query(
+      `UPDATE patients
+       SET household_id = NULL, updated_at = NOW()
+       WHERE id = $1 AND household_id = $2 AND (user_id = $3 OR $4 = 'owner')
+       RETURNING id, name`,
+      [patientId, householdId, userId, role]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Patient not found'
+      });
+    }
+
+    logger.info('Patient removed from household', { householdId, patientId, userId });
+
+    res.json({
+      success: true,
+      message: 'Patient removed from household'
+    });
+
+  } catch (error) {
+    logger.error('Remove household patient error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove patient from household'
+    });
+  }
+}));
+
+export default router;
@@ -1,10 +1,487 @@
 import { Router } from 'express';
+import { query, transaction } from '../config/database';
+import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+import { canAccessPatient, patientAccessCondition } from '../utils/patientAccess';
+import { writeAuditLog, diffValues } from '../utils/auditTrail';
+import { deleteDocumentFile } from '../services/documentStorage';
+import { MedicalRecord, MedicalRecordQueryParams, PaginatedResponse } from '../types';
 
 const router = Router();
 
-// Placeholder routes - implement as needed
-router.get('/', (req, res) => {
-  res.json({ success: true, data: [], message: 'Medical records endpoint - coming soon' });
-});
+const SEVERITIES = ['low', 'medium', 'high', 'critical'];
 
-export default router;
\ No newline at end of file
+// Columns that may be set on create/update
+const RECORD_FIELDS = [
+  'doctor_id', 'record_date', 'complaint', 'symptoms', 'investigations',
+  'diagnosis', 'prescription', 'notes', 'follow_up_date', 'severity'
+];
+
+// Get medical records for one of the user's patients
+router.get('/', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const {
+    page = 1,
+    limit = 20,
+    patient_id,
+    doctor_id,
+    date_from,
+    date_to,
+    severity
+  }: MedicalRecordQueryParams = req.query as any;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  if (!patient_id) {
+    return res.status(400).json({
+      success: false,
+      error: 'patient_id is required'
+    });
+  }
+
+  if (severity && !SEVERITIES.includes(severity)) {
+    return res.status(400).json({
+      success: false,
+      error: `Severity must be one of: ${SEVERITIES.join(', ')}`
+    });
+  }
+
+  const offset = (Number(page) - 1) * Number(limit);
+  const limitNum = Number(limit);
+
+  try {
+    let whereClause = `WHERE mr.patient_id = $1 AND ${patientAccessCondition('p', '$2')} AND p.is_active = true`;
+    let queryParams: any[] = [patient_id, userId];
+    let paramCount = 2;
+
+    // Add doctor filter
+    if (doctor_id) {
+      paramCount++;
+      whereClause += ` AND mr.doctor_id = $${paramCount}`;
+      queryParams.push(doctor_id);
+    }
+
+    // Add date range filters
+    if (date_from) {
+      paramCount++;
+      whereClause += ` AND mr.record_date >= $${paramCount}`;
+      queryParams.push(date_from);
+    }
+
+    if (date_to) {
+      paramCount++;
+      whereClause += ` AND mr.record_date <= $${paramCount}`;
+      queryParams.push(date_to);
+    }
+
+    // Add severity filter
+    if (severity) {
+      paramCount++;
+      whereClause += ` AND mr.severity = $${paramCount}`;
+      queryParams.push(severity);
+    }
+
+    // Get total count
+    const countQuery = `
+      SELECT COUNT(*) as total
+      FROM medical_records mr
+      JOIN patients p ON mr.patient_id = p.id
+      ${whereClause}
+    `;
+
+    const countResult = await query(countQuery, queryParams);
+    const total = parseInt(countResult.rows[0].total);
+
+    // Get records with pagination
+    const recordsQuery = `
+      SELECT
+        mr.id, mr.patient_id, mr.doctor_id, mr.record_date, mr.complaint,
+        mr.symptoms, mr.investigations, mr.diagnosis, mr.prescription, mr.notes,
+        mr.follow_up_date, mr.severity, mr.created_at, mr.updated_at,
+        d.name as doctor_name, d.specialty as doctor_specialty,
+        (SELECT COUNT(*) FROM documents doc WHERE doc.medical_record_id = mr.id) as document_count
+      FROM medical_records mr
+      JOIN patients p ON mr.patient_id = p.id
+      LEFT JOIN doctors d ON mr.doctor_id = d.id
+      ${whereClause}
+      ORDER BY mr.record_date DESC, mr.created_at DESC
+      LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}
+    `;
+
+    queryParams.push(limitNum, offset);
+    const recordsResult = await query(recordsQuery, queryParams);
+
+    const response: PaginatedResponse<MedicalRecord> = {
+      success: true,
+      data: recordsResult.rows,
+      pagination: {
+        page: Number(page),
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum)
+      }
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Get medical records error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch medical records'
+    });
+  }
+}));
+
+// Get a specific medical record by ID
+router.get('/:id', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const recordId = req.params.id;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const recordQuery = `
+      SELECT
+        mr.id, mr.patient_id, mr.doctor_id, mr.record_date, mr.complaint,
+        mr.symptoms, mr.investigations, mr.diagnosis, mr.prescription, mr.notes,
+        mr.follow_up_date, mr.severity, mr.created_at, mr.updated_at,
+        d.name as doctor_name, d.specialty as doctor_specialty
+      FROM medical_records mr
+      JOIN patients p ON mr.patient_id = p.id
+      LEFT JOIN doctors d ON mr.doctor_id = d.id
+      WHERE mr.id = $1 AND ${patientAccessCondition('p', '$2')} AND p.is_active = true
+    `;
+
+    const recordResult = await query(recordQuery, [recordId, userId]);
+
+    if (recordResult.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Medical record not found'
+      });
+    }
+
+    // Get attached documents
+    const documentsQuery = `
+      SELECT id, filename, original_name, file_type, file_size, mime_type, uploaded_at
+      FROM documents
+      WHERE medical_record_id = $1
+      ORDER BY uploaded_at ASC
+    `;
+
+    const documentsResult = await query(documentsQuery, [recordId]);
+
+    res.json({
+      success: true,
+      data: {
+        ...recordResult.rows[0],
+        documents: documentsResult.rows
+      }
+    });
+
+  } catch (error) {
+    logger.error('Get medical record error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch medical record'
+    });
+  }
+}));
+
+// Create a new medical record
+router.post('/', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const recordData = req.body;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  // Validate required fields
+  if (!recordData.patient_id || !recordData.record_date) {
+    return res.status(400).json({
+      success: false,
+      error: 'patient_id and record_date are required'
+    });
+  }
+
+  if (recordData.severity && !SEVERITIES.includes(recordData.severity)) {
+    return res.status(400).json({
+      success: false,
+      error: `Severity must be one of: ${SEVERITIES.join(', ')}`
+    });
+  }
+
+  try {
+    if (!(await canAccessPatient(recordData.patient_id, userId, 'write'))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Patient not found'
+      });
+    }
+
+    const insertQuery = `
+      INSERT INTO medical_records (
+        patient_id, doctor_id, record_date, complaint, symptoms, investigations,
+        diagnosis, prescription, notes, follow_up_date, severity
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11
+      )
+      RETURNING *
+    `;
+
+    const record = await transaction(async (client) => {
+      const result = await client.query(insertQuery, [
+        recordData.patient_id,
+        recordData.doctor_id || null,
+        recordData.record_date,
+        recordData.complaint || null,
+        recordData.symptoms || null,
+        recordData.investigations || null,
+        recordData.diagnosis || null,
+        recordData.prescription || null,
+        recordData.notes || null,
+        recordData.follow_up_date || null,
+        recordData.severity || 'medium'
+      ]);
+
+      await writeAuditLog({
+        userId,
+        action: 'MEDICAL_RECORD_CREATE',
+        tableName: 'medical_records',
+        recordId: result.rows[0].id,
+        patientId: result.rows[0].patient_id,
+        newValues: result.rows[0],
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }, client);
+
+      return result.rows[0];
+    });
+
+    logger.info('Medical record created successfully', {
+      recordId: record.id,
+      patientId: record.patient_id,
+      userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Medical record created successfully',
+      data: record
+    });
+
+  } catch (error) {
+    logger.error('Create medical record error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create medical record'
+    });
+  }
+}));
+
+// Update a medical record
+router.put('/:id', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const recordId = req.params.id;
+  const updateData = req.body;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  if (updateData.severity && !SEVERITIES.includes(updateData.severity)) {
+    return res.status(400).json({
+      success: false,
+      error: `Severity must be one of: ${SEVERITIES.join(', ')}`
+    });
+  }
+
+  const updateFields: string[] = [];
+  const updateValues: any[] = [];
+  let paramCount = 0;
+
+  // Build dynamic update query
+  RECORD_FIELDS.forEach(field => {
+    if (updateData[field] !== undefined) {
+      paramCount++;
+      updateFields.push(`${field} = $${paramCount}`);
+      updateValues.push(updateData[field]);
+    }
+  });
+
+  if (updateFields.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'No valid fields to update'
+    });
+  }
+
+  updateFields.push('updated_at = NOW()');
+
+  try {
+    const result = await transaction(async (client) => {
+      // Lock the current row so the audit diff reflects exactly what this update replaced
+      const previousResult = await client.query(
+        `SELECT mr.* FROM medical_records mr
+         JOIN patients p ON mr.patient_id = p.id
+         WHERE mr.id = $1 AND ${patientAccessCondition('p', '$2', 'write')} AND p.is_active = true
+         FOR UPDATE OF mr`,
+        [recordId, userId]
+      );
+
+      if (previousResult.rows.length === 0) {
+        return { notFound: true };
+      }
+
+      updateValues.push(recordId);
+
+      const updateResult = await client.query(
+        `UPDATE medical_records SET ${updateFields.join(', ')} WHERE id = $${paramCount + 1} RETURNING *`,
+        updateValues
+      );
+
+      const changes = diffValues(previousResult.rows[0], updateResult.rows[0]);
+
+      if (changes) {
+        await writeAuditLog({
+          userId,
+          action: 'MEDICAL_RECORD_UPDATE',
+          tableName: 'medical_records',
+          recordId: recordId,
+          patientId: updateResult.rows[0].patient_id,
+          ...changes,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }, client);
+      }
+
+      return { record: updateResult.rows[0] };
+    });
+
+    if (result.notFound) {
+      return res.status(404).json({
+        success: false,
+        error: 'Medical record not found'
+      });
+    }
+
+    logger.info('Medical record updated successfully', {
+      recordId,
+      patientId: result.record.patient_id,
+      userId
+    });
+
+    res.json({
+      success: true,
+      message: 'Medical record updated successfully',
+      data: result.record
+    });
+
+  } catch (error) {
+    logger.error('Update medical record error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update medical record'
+    });
+  }
+}));
+
+// Delete a medical record (document rows are removed by the ON DELETE CASCADE)
+router.delete('/:id', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const recordId = req.params.id;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    // Collect stored files before the cascade removes their rows
+    const documentsResult = await query(
+      'SELECT file_path FROM documents WHERE medical_record_id = $1',
+      [recordId]
+    );
+
+    const deleteQuery = `
+      DELETE FROM medical_records mr
+      USING patients p
+      WHERE mr.id = $1 AND mr.patient_id = p.id AND ${patientAccessCondition('p', '$2', 'write')} AND p.is_active = true
+      RETURNING mr.*
+    `;
+
+    const result = await transaction(async (client) => {
+      const deleteResult = await client.query(deleteQuery, [recordId, userId]);
+
+      if (deleteResult.rows.length > 0) {
+        await writeAuditLog({
+          userId,
+          action: 'MEDICAL_RECORD_DELETE',
+          tableName: 'medical_records',
+          recordId: recordId,
+          patientId: deleteResult.rows[0].patient_id,
+          oldValues: deleteResult.rows[0],
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }, client);
+      }
+
+      return deleteResult;
+    });
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Medical record not found'
+      });
+    }
+
+    await Promise.all(
+      documentsResult.rows.map((document: any) =>
+        deleteDocumentFile(document.file_path).catch(error =>
+          logger.warn('Failed to remove document file', { filePath: document.file_path, error })
+        )
+      )
+    );
+
+    logger.info('Medical record deleted successfully', {
+      recordId,
+      patientId: result.rows[0].patient_id,
+      userId
+    });
+
+    res.json({
+      success: true,
+      message: 'Medical record deleted successfully'
+    });
+
+  } catch (error) {
+    logger.error('Delete medical record error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete medical record'
+    });
+  }
+}));
+
+export default router;
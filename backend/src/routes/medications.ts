@@ -1,10 +1,482 @@
 import { Router } from 'express';
+import { query, transaction } from '../config/database';
+import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+import { canAccessPatient, patientAccessCondition } from '../utils/patientAccess';
+import { writeAuditLog, diffValues } from '../utils/auditTrail';
+import { Medication, MedicationQueryParams, PaginatedResponse } from '../types';
 
 const router = Router();
 
-// Placeholder routes - implement as needed
-router.get('/', (req, res) => {
-  res.json({ success: true, data: [], message: 'Medications endpoint - coming soon' });
-});
+const ROUTES = ['oral', 'topical', 'injection', 'inhalation', 'other'];
 
-export default router;
\ No newline at end of file
+// Columns that may be set on create/update
+const MEDICATION_FIELDS = [
+  'name', 'dosage', 'frequency', 'route', 'start_date', 'end_date',
+  'prescribed_by', 'instructions'
+];
+
+const MEDICATION_COLUMNS = `
+  m.id, m.patient_id, m.name, m.dosage, m.frequency, m.route, m.start_date,
+  m.end_date, m.prescribed_by, m.instructions, m.is_active, m.discontinued_reason,
+  m.created_at, m.updated_at,
+  d.name as prescribed_by_name
+`;
+
+// Get medications for one of the user's patients
+router.get('/', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const { page = 1, limit = 50, patient_id, active }: MedicationQueryParams = req.query as any;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  if (!patient_id) {
+    return res.status(400).json({
+      success: false,
+      error: 'patient_id is required'
+    });
+  }
+
+  const offset = (Number(page) - 1) * Number(limit);
+  const limitNum = Number(limit);
+
+  try {
+    let whereClause = `WHERE m.patient_id = $1 AND ${patientAccessCondition('p', '$2')} AND p.is_active = true`;
+    let queryParams: any[] = [patient_id, userId];
+    let paramCount = 2;
+
+    // Add active/discontinued filter
+    if (active !== undefined) {
+      paramCount++;
+      whereClause += ` AND m.is_active = $${paramCount}`;
+      queryParams.push(active === 'true');
+    }
+
+    // Get total count
+    const countQuery = `
+      SELECT COUNT(*) as total
+      FROM medications m
+      JOIN patients p ON m.patient_id = p.id
+      ${whereClause}
+    `;
+
+    const countResult = await query(countQuery, queryParams);
+    const total = parseInt(countResult.rows[0].total);
+
+    // Get medications with pagination
+    const medicationsQuery = `
+      SELECT ${MEDICATION_COLUMNS}
+      FROM medications m
+      JOIN patients p ON m.patient_id = p.id
+      LEFT JOIN doctors d ON m.prescribed_by = d.id
+      ${whereClause}
+      ORDER BY m.is_active DESC, m.name ASC
+      LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}
+    `;
+
+    queryParams.push(limitNum, offset);
+    const medicationsResult = await query(medicationsQuery, queryParams);
+
+    const response: PaginatedResponse<Medication> = {
+      success: true,
+      data: medicationsResult.rows,
+      pagination: {
+        page: Number(page),
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum)
+      }
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Get medications error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch medications'
+    });
+  }
+}));
+
+// Get a patient's full medication history, including discontinued medications
+router.get('/history/:patientId', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const patientId = req.params.patientId;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const historyQuery = `
+      SELECT ${MEDICATION_COLUMNS}
+      FROM medications m
+      JOIN patients p ON m.patient_id = p.id
+      LEFT JOIN doctors d ON m.prescribed_by = d.id
+      WHERE m.patient_id = $1 AND ${patientAccessCondition('p', '$2')} AND p.is_active = true
+      ORDER BY m.start_date DESC, m.created_at DESC
+    `;
+
+    const result = await query(historyQuery, [patientId, userId]);
+
+    res.json({
+      success: true,
+      data: {
+        active: result.rows.filter((medication: any) => medication.is_active),
+        discontinued: result.rows.filter((medication: any) => !medication.is_active)
+      }
+    });
+
+  } catch (error) {
+    logger.error('Get medication history error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch medication history'
+    });
+  }
+}));
+
+// Get a specific medication by ID
+router.get('/:id', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const medicationId = req.params.id;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const medicationQuery = `
+      SELECT ${MEDICATION_COLUMNS}
+      FROM medications m
+      JOIN patients p ON m.patient_id = p.id
+      LEFT JOIN doctors d ON m.prescribed_by = d.id
+      WHERE m.id = $1 AND ${patientAccessCondition('p', '$2')} AND p.is_active = true
+    `;
+
+    const result = await query(medicationQuery, [medicationId, userId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Medication not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: result.rows[0]
+    });
+
+  } catch (error) {
+    logger.error('Get medication error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch medication'
+    });
+  }
+}));
+
+// Create a new medication
+router.post('/', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const medicationData = req.body;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  // Validate required fields
+  if (!medicationData.patient_id || !medicationData.name || !medicationData.dosage || !medicationData.frequency) {
+    return res.status(400).json({
+      success: false,
+      error: 'patient_id, name, dosage and frequency are required'
+    });
+  }
+
+  if (medicationData.route && !ROUTES.includes(medicationData.route)) {
+    return res.status(400).json({
+      success: false,
+      error: `Route must be one of: ${ROUTES.join(', ')}`
+    });
+  }
+
+  try {
+    if (!(await canAccessPatient(medicationData.patient_id, userId, 'write'))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Patient not found'
+      });
+    }
+
+    const insertQuery = `
+      INSERT INTO medications (
+        patient_id, name, dosage, frequency, route, start_date, end_date,
+        prescribed_by, instructions
+      ) VALUES (
+        $1, $2, $3, $4, $5, COALESCE($6, CURRENT_DATE), $7, $8, $9
+      )
+      RETURNING *
+    `;
+
+    const medication = await transaction(async (client) => {
+      const result = await client.query(insertQuery, [
+        medicationData.patient_id,
+        medicationData.name,
+        medicationData.dosage,
+        medicationData.frequency,
+        medicationData.route || 'oral',
+        medicationData.start_date || null,
+        medicationData.end_date || null,
+        medicationData.prescribed_by || null,
+        medicationData.instructions || null
+      ]);
+
+      await writeAuditLog({
+        userId,
+        action: 'MEDICATION_CREATE',
+        tableName: 'medications',
+        recordId: result.rows[0].id,
+        patientId: result.rows[0].patient_id,
+        newValues: result.rows[0],
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }, client);
+
+      return result.rows[0];
+    });
+
+    logger.info('Medication created successfully', {
+      medicationId: medication.id,
+      patientId: medication.patient_id,
+      userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Medication created successfully',
+      data: medication
+    });
+
+  } catch (error) {
+    logger.error('Create medication error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create medication'
+    });
+  }
+}));
+
+// Update a medication
+router.put('/:id', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const medicationId = req.params.id;
+  const updateData = req.body;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  if (updateData.route && !ROUTES.includes(updateData.route)) {
+    return res.status(400).json({
+      success: false,
+      error: `Route must be one of: ${ROUTES.join(', ')}`
+    });
+  }
+
+  const updateFields: string[] = [];
+  const updateValues: any[] = [];
+  let paramCount = 0;
+
+  // Build dynamic update query
+  MEDICATION_FIELDS.forEach(field => {
+    if (updateData[field] !== undefined) {
+      paramCount++;
+      updateFields.push(`${field} = $${paramCount}`);
+      updateValues.push(updateData[field]);
+    }
+  });
+
+  if (updateFields.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'No valid fields to update'
+    });
+  }
+
+  updateFields.push('updated_at = NOW()');
+
+  try {
+    const result = await transaction(async (client) => {
+      // Lock the current row so the audit diff reflects exactly what this update replaced
+      const previousResult = await client.query(
+        `SELECT m.* FROM medications m
+         JOIN patients p ON m.patient_id = p.id
+         WHERE m.id = $1 AND ${patientAccessCondition('p', '$2', 'write')} AND p.is_active = true
+         FOR UPDATE OF m`,
+        [medicationId, userId]
+      );
+
+      if (previousResult.rows.length === 0) {
+        return { notFound: true };
+      }
+
+      updateValues.push(medicationId);
+
+      const updateResult = await client.query(
+        `UPDATE medications SET ${updateFields.join(', ')} WHERE id = $${paramCount + 1} RETURNING *`,
+        updateValues
+      );
+
+      const changes = diffValues(previousResult.rows[0], updateResult.rows[0]);
+
+      if (changes) {
+        await writeAuditLog({
+          userId,
+          action: 'MEDICATION_UPDATE',
+          tableName: 'medications',
+          recordId: medicationId,
+          patientId: updateResult.rows[0].patient_id,
+          ...changes,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }, client);
+      }
+
+      return { medication: updateResult.rows[0] };
+    });
+
+    if (result.notFound) {
+      return res.status(404).json({
+        success: false,
+        error: 'Medication not found'
+      });
+    }
+
+    logger.info('Medication updated successfully', {
+      medicationId,
+      patientId: result.medication.patient_id,
+      userId
+    });
+
+    res.json({
+      success: true,
+      message: 'Medication updated successfully',
+      data: result.medication
+    });
+
+  } catch (error) {
+    logger.error('Update medication error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update medication'
+    });
+  }
+}));
+
+// Discontinue a medication, keeping it in the patient's history
+router.post('/:id/discontinue', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const medicationId = req.params.id;
+  const { end_date, reason } = req.body;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  if (!reason) {
+    return res.status(400).json({
+      success: false,
+      error: 'A reason is required to discontinue a medication'
+    });
+  }
+
+  try {
+    const discontinueQuery = `
+      UPDATE medications m
+      SET is_active = false,
+          end_date = COALESCE($1, CURRENT_DATE),
+          discontinued_reason = $2,
+          updated_at = NOW()
+      FROM patients p
+      WHERE m.id = $3
+        AND m.patient_id = p.id
+        AND ${patientAccessCondition('p', '$4', 'write')}
+        AND p.is_active = true
+        AND m.is_active = true
+      RETURNING m.*
+    `;
+
+    const result = await transaction(async (client) => {
+      const discontinueResult = await client.query(discontinueQuery, [end_date || null, reason, medicationId, userId]);
+
+      if (discontinueResult.rows.length > 0) {
+        const medication = discontinueResult.rows[0];
+
+        await writeAuditLog({
+          userId,
+          action: 'MEDICATION_DISCONTINUE',
+          tableName: 'medications',
+          recordId: medicationId,
+          patientId: medication.patient_id,
+          oldValues: { is_active: true },
+          newValues: { is_active: false, end_date: medication.end_date, discontinued_reason: reason },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }, client);
+      }
+
+      return discontinueResult;
+    });
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Active medication not found'
+      });
+    }
+
+    logger.info('Medication discontinued successfully', {
+      medicationId,
+      patientId: result.rows[0].patient_id,
+      userId,
+      reason
+    });
+
+    res.json({
+      success: true,
+      message: 'Medication discontinued successfully',
+      data: result.rows[0]
+    });
+
+  } catch (error) {
+    logger.error('Discontinue medication error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to discontinue medication'
+    });
+  }
+}));
+
+export default router;
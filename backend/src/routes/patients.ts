@@ -2,12 +2,15 @@ import { Router } from 'express';
 import { query, transaction } from '../config/database';
 import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware/errorHandler';
+import { patientAccessCondition, patientAccessRoleColumn, canAccessPatient } from '../utils/patientAccess';
+import { writeAuditLog, diffValues } from '../utils/auditTrail';
+import { buildPatientFhirBundle, FHIR_MIME_TYPE } from '../services/fhirExport';
 import { Patient, PatientQueryParams, PaginatedResponse } from '../types';
 import { v4 as uuidv4 } from 'uuid';
 
 const router = Router();
 
-// Get all patients for the authenticated user
+// Get all patients the authenticated user owns or shares through a household
 router.get('/', asyncHandler(async (req, res) => {
   const userId = (req as any).user?.id;
   const { page = 1, limit = 20, search, doctor_id }: PatientQueryParams = req.query;
@@ -23,7 +26,7 @@ router.get('/', asyncHandler(async (req, res) => {
   const limitNum = Number(limit);
 
   try {
-    let whereClause = 'WHERE p.user_id = $1 AND p.is_active = true';
+    let whereClause = `WHERE ${patientAccessCondition('p', '$1')} AND p.is_active = true`;
     let queryParams: any[] = [userId];
     let paramCount = 1;
 
@@ -56,9 +59,10 @@ router.get('/', asyncHandler(async (req, res) => {
       SELECT
         p.id, p.name, p.date_of_birth, p.gender, p.blood_type, p.phone, p.email,
         p.address, p.emergency_contact_name, p.emergency_contact_phone,
-        p.primary_doctor_id, p.avatar_url, p.medical_history, p.allergies,
+        p.primary_doctor_id, p.household_id, p.avatar_url, p.medical_history, p.allergies,
         p.family_medical_history, p.is_active, p.created_at, p.updated_at,
-        d.name as primary_doctor_name, d.specialty as primary_doctor_specialty
+        d.name as primary_doctor_name, d.specialty as primary_doctor_specialty,
+        ${patientAccessRoleColumn('p', '$1')} as access_role
       FROM patients p
       LEFT JOIN doctors d ON p.primary_doctor_id = d.id
       ${whereClause}
@@ -138,12 +142,13 @@ router.get('/:id', asyncHandler(async (req, res) => {
       SELECT
         p.id, p.name, p.date_of_birth, p.gender, p.blood_type, p.phone, p.email,
         p.address, p.emergency_contact_name, p.emergency_contact_phone,
-        p.primary_doctor_id, p.avatar_url, p.medical_history, p.allergies,
+        p.primary_doctor_id, p.household_id, p.avatar_url, p.medical_history, p.allergies,
         p.family_medical_history, p.is_active, p.created_at, p.updated_at,
-        d.name as primary_doctor_name, d.specialty as primary_doctor_specialty
+        d.name as primary_doctor_name, d.specialty as primary_doctor_specialty,
+        ${patientAccessRoleColumn('p', '$2')} as access_role
       FROM patients p
       LEFT JOIN doctors d ON p.primary_doctor_id = d.id
-      WHERE p.id = $1 AND p.user_id = $2 AND p.is_active = true
+      WHERE p.id = $1 AND ${patientAccessCondition('p', '$2')} AND p.is_active = true
     `;
 
     const patientResult = await query(patientQuery, [patientId, userId]);
@@ -183,6 +188,62 @@ router.get('/:id', asyncHandler(async (req, res) => {
   }
 }));
 
+// Export a patient's complete record as a FHIR R4 Bundle
+router.get('/:id/fhir', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const patientId = req.params.id;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    if (!(await canAccessPatient(patientId, userId, 'read'))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Patient not found'
+      });
+    }
+
+    const bundle = await buildPatientFhirBundle(patientId, `${req.protocol}://${req.get('host')}`);
+
+    if (!bundle) {
+      return res.status(404).json({
+        success: false,
+        error: 'Patient not found'
+      });
+    }
+
+    await writeAuditLog({
+      userId,
+      action: 'PATIENT_FHIR_EXPORT',
+      tableName: 'patients',
+      recordId: patientId,
+      patientId,
+      newValues: { resources: bundle.entry.length },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+
+    logger.info('Patient exported as FHIR', { patientId, userId, resources: bundle.entry.length });
+
+    res.setHeader('Content-Type', FHIR_MIME_TYPE);
+    res.setHeader('Content-Disposition', `attachment; filename="patient-${patientId}-fhir.json"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.send(JSON.stringify(bundle));
+
+  } catch (error) {
+    logger.error('FHIR export error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to export patient'
+    });
+  }
+}));
+
 // Create a new patient
 router.post('/', asyncHandler(async (req, res) => {
   const userId = (req as any).user?.id;
@@ -204,6 +265,22 @@ router.post('/', asyncHandler(async (req, res) => {
   }
 
   try {
+    // Patients can only be added to households where the user may write
+    if (patientData.household_id) {
+      const membershipResult = await query(
+        `SELECT id FROM household_members
+         WHERE household_id = $1 AND user_id = $2 AND role IN ('owner', 'caregiver')`,
+        [patientData.household_id, userId]
+      );
+
+      if (membershipResult.rows.length === 0) {
+        return res.status(403).json({
+          success: false,
+          error: 'You cannot add patients to this household'
+        });
+      }
+    }
+
     const result = await transaction(async (client) => {
       // Insert patient
       const patientQuery = `
@@ -211,9 +288,9 @@ router.post('/', asyncHandler(async (req, res) => {
           user_id, name, date_of_birth, gender, blood_type, phone, email,
           address, emergency_contact_name, emergency_contact_phone,
           primary_doctor_id, avatar_url, medical_history, allergies,
-          family_medical_history
+          family_medical_history, household_id
         ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
         )
         RETURNING *
       `;
@@ -233,7 +310,8 @@ router.post('/', asyncHandler(async (req, res) => {
         patientData.avatar_url || null,
         patientData.medical_history || null,
         patientData.allergies || null,
-        patientData.family_medical_history || null
+        patientData.family_medical_history || null,
+        patientData.household_id || null
       ]);
 
       const patient = patientResult.rows[0];
@@ -257,6 +335,17 @@ router.post('/', asyncHandler(async (req, res) => {
         await client.query(hospitalQuery, hospitalParams);
       }
 
+      await writeAuditLog({
+        userId,
+        action: 'PATIENT_CREATE',
+        tableName: 'patients',
+        recordId: patient.id,
+        patientId: patient.id,
+        newValues: patient,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }, client);
+
       return patient;
     });
 
@@ -299,7 +388,7 @@ router.put('/:id', asyncHandler(async (req, res) => {
       // Update patient
       const updateFields = [];
       const updateValues = [];
-      let paramCount = 1;
+      let paramCount = 0;
 
       // Build dynamic update query
       const allowedFields = [
@@ -321,23 +410,31 @@ router.put('/:id', asyncHandler(async (req, res) => {
         throw new Error('No valid fields to update');
       }
 
+      // Lock the current row so the audit diff reflects exactly what this update replaced
+      const previousResult = await client.query(
+        `SELECT p.* FROM patients p
+         WHERE p.id = $1 AND ${patientAccessCondition('p', '$2', 'write')} AND p.is_active = true
+         FOR UPDATE OF p`,
+        [patientId, userId]
+      );
+
+      if (previousResult.rows.length === 0) {
+        throw new Error('Patient not found');
+      }
+
       updateFields.push('updated_at = NOW()');
 
       const updateQuery = `
         UPDATE patients
         SET ${updateFields.join(', ')}
-        WHERE id = $${paramCount + 1} AND user_id = $${paramCount + 2} AND is_active = true
+        WHERE id = $${paramCount + 1}
         RETURNING *
       `;
 
-      updateValues.push(patientId, userId);
+      updateValues.push(patientId);
 
       const patientResult = await client.query(updateQuery, updateValues);
 
-      if (patientResult.rows.length === 0) {
-        throw new Error('Patient not found');
-      }
-
       // Update hospital IDs if provided
       if (updateData.hospitalIds !== undefined) {
         // Delete existing hospital IDs
@@ -366,6 +463,21 @@ router.put('/:id', asyncHandler(async (req, res) => {
         }
       }
 
+      const changes = diffValues(previousResult.rows[0], patientResult.rows[0]);
+
+      if (changes) {
+        await writeAuditLog({
+          userId,
+          action: 'PATIENT_UPDATE',
+          tableName: 'patients',
+          recordId: patientId,
+          patientId,
+          ...changes,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }, client);
+      }
+
       return patientResult.rows[0];
     });
 
@@ -383,6 +495,14 @@ router.put('/:id', asyncHandler(async (req, res) => {
 
   } catch (error) {
     if (error.message === 'Patient not found') {
+      // Viewers can see the patient but not change it
+      if (await canAccessPatient(patientId, userId, 'read')) {
+        return res.status(403).json({
+          success: false,
+          error: 'You have read-only access to this patient'
+        });
+      }
+
       return res.status(404).json({
         success: false,
         error: 'Patient not found'
@@ -411,15 +531,41 @@ router.delete('/:id', asyncHandler(async (req, res) => {
 
   try {
     const deleteQuery = `
-      UPDATE patients
+      UPDATE patients p
       SET is_active = false, updated_at = NOW()
-      WHERE id = $1 AND user_id = $2 AND is_active = true
-      RETURNING id, name
+      WHERE p.id = $1 AND ${patientAccessCondition('p', '$2', 'manage')} AND p.is_active = true
+      RETURNING p.id, p.name
     `;
 
-    const result = await query(deleteQuery, [patientId, userId]);
+    const result = await transaction(async (client) => {
+      const deleteResult = await client.query(deleteQuery, [patientId, userId]);
+
+      if (deleteResult.rows.length > 0) {
+        await writeAuditLog({
+          userId,
+          action: 'PATIENT_DELETE',
+          tableName: 'patients',
+          recordId: patientId,
+          patientId,
+          oldValues: { is_active: true },
+          newValues: { is_active: false },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }, client);
+      }
+
+      return deleteResult;
+    });
 
     if (result.rows.length === 0) {
+      // Only owners may delete; caregivers and viewers get a clear refusal
+      if (await canAccessPatient(patientId, userId, 'read')) {
+        return res.status(403).json({
+          success: false,
+          error: 'Only a household owner can delete this patient'
+        });
+      }
+
       return res.status(404).json({
         success: false,
         error: 'Patient not found'
@@ -1,10 +1,432 @@
 import { Router } from 'express';
+import { query } from '../config/database';
+import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+import { canAccessPatient, patientAccessCondition } from '../utils/patientAccess';
+import { reminderScheduler } from '../services/reminderScheduler';
+import { Reminder, ReminderQueryParams, PaginatedResponse } from '../types';
 
 const router = Router();
 
-// Placeholder routes - implement as needed
-router.get('/', (req, res) => {
-  res.json({ success: true, data: [], message: 'Reminders endpoint - coming soon' });
-});
+const REMINDER_TYPES: Reminder['reminder_type'][] = ['medication', 'appointment', 'follow-up', 'other'];
 
-export default router;
\ No newline at end of file
+// Columns that may be set on update
+const REMINDER_FIELDS = ['title', 'description', 'reminder_date', 'reminder_type'];
+
+// Get reminders across the user's patients
+router.get('/', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const {
+    page = 1,
+    limit = 50,
+    patient_id,
+    completed,
+    date_from,
+    date_to
+  }: ReminderQueryParams = req.query as any;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  const offset = (Number(page) - 1) * Number(limit);
+  const limitNum = Number(limit);
+
+  try {
+    let whereClause = `WHERE ${patientAccessCondition('p', '$1')} AND p.is_active = true`;
+    let queryParams: any[] = [userId];
+    let paramCount = 1;
+
+    // Add patient filter
+    if (patient_id) {
+      paramCount++;
+      whereClause += ` AND r.patient_id = $${paramCount}`;
+      queryParams.push(patient_id);
+    }
+
+    // Add completion filter
+    if (completed !== undefined) {
+      paramCount++;
+      whereClause += ` AND r.is_completed = $${paramCount}`;
+      queryParams.push(completed === 'true');
+    }
+
+    // Add date range filters
+    if (date_from) {
+      paramCount++;
+      whereClause += ` AND r.reminder_date >= $${paramCount}`;
+      queryParams.push(date_from);
+    }
+
+    if (date_to) {
+      paramCount++;
+      whereClause += ` AND r.reminder_date <= $${paramCount}`;
+      queryParams.push(date_to);
+    }
+
+    // Get total count
+    const countQuery = `
+      SELECT COUNT(*) as total
+      FROM reminders r
+      JOIN patients p ON r.patient_id = p.id
+      ${whereClause}
+    `;
+
+    const countResult = await query(countQuery, queryParams);
+    const total = parseInt(countResult.rows[0].total);
+
+    // Get reminders with pagination
+    const remindersQuery = `
+      SELECT
+        r.id, r.patient_id, r.title, r.description, r.reminder_date, r.reminder_type,
+        r.is_completed, r.notification_sent, r.created_at, r.updated_at,
+        p.name as patient_name
+      FROM reminders r
+      JOIN patients p ON r.patient_id = p.id
+      ${whereClause}
+      ORDER BY r.reminder_date ASC
+      LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}
+    `;
+
+    queryParams.push(limitNum, offset);
+    const remindersResult = await query(remindersQuery, queryParams);
+
+    const response: PaginatedResponse<Reminder> = {
+      success: true,
+      data: remindersResult.rows,
+      pagination: {
+        page: Number(page),
+        limit: limitNum,
+        total,
+        pages: Math.ceil(total / limitNum)
+      }
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    logger.error('Get reminders error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch reminders'
+    });
+  }
+}));
+
+// Get a specific reminder by ID
+router.get('/:id', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const reminderId = req.params.id;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const reminderQuery = `
+      SELECT r.*, p.name as patient_name
+      FROM reminders r
+      JOIN patients p ON r.patient_id = p.id
+      WHERE r.id = $1 AND ${patientAccessCondition('p', '$2')} AND p.is_active = true
+    `;
+
+    const result = await query(reminderQuery, [reminderId, userId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Reminder not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...result.rows[0],
+        scheduled: reminderScheduler.isScheduled(reminderId)
+      }
+    });
+
+  } catch (error) {
+    logger.error('Get reminder error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch reminder'
+    });
+  }
+}));
+
+// Create a reminder and schedule its notification
+router.post('/', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const reminderData = req.body;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  // Validate required fields
+  if (!reminderData.patient_id || !reminderData.title || !reminderData.reminder_date || !reminderData.reminder_type) {
+    return res.status(400).json({
+      success: false,
+      error: 'patient_id, title, reminder_date and reminder_type are required'
+    });
+  }
+
+  if (!REMINDER_TYPES.includes(reminderData.reminder_type)) {
+    return res.status(400).json({
+      success: false,
+      error: `Reminder type must be one of: ${REMINDER_TYPES.join(', ')}`
+    });
+  }
+
+  try {
+    if (!(await canAccessPatient(reminderData.patient_id, userId, 'write'))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Patient not found'
+      });
+    }
+
+    const insertQuery = `
+      INSERT INTO reminders (patient_id, title, description, reminder_date, reminder_type)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING *
+    `;
+
+    const result = await query(insertQuery, [
+      reminderData.patient_id,
+      reminderData.title,
+      reminderData.description || null,
+      reminderData.reminder_date,
+      reminderData.reminder_type
+    ]);
+
+    const reminder = result.rows[0];
+    reminderScheduler.schedule(reminder.id, reminder.reminder_date);
+
+    logger.info('Reminder created successfully', {
+      reminderId: reminder.id,
+      patientId: reminder.patient_id,
+      userId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Reminder created successfully',
+      data: reminder
+    });
+
+  } catch (error) {
+    logger.error('Create reminder error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create reminder'
+    });
+  }
+}));
+
+// Update a reminder; moving the date re-arms the notification
+router.put('/:id', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const reminderId = req.params.id;
+  const updateData = req.body;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  if (updateData.reminder_type && !REMINDER_TYPES.includes(updateData.reminder_type)) {
+    return res.status(400).json({
+      success: false,
+      error: `Reminder type must be one of: ${REMINDER_TYPES.join(', ')}`
+    });
+  }
+
+  const updateFields: string[] = [];
+  const updateValues: any[] = [];
+  let paramCount = 0;
+
+  // Build dynamic update query
+  REMINDER_FIELDS.forEach(field => {
+    if (updateData[field] !== undefined) {
+      paramCount++;
+      updateFields.push(`${field} = $${paramCount}`);
+      updateValues.push(updateData[field]);
+    }
+  });
+
+  if (updateFields.length === 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'No valid fields to update'
+    });
+  }
+
+  if (updateData.reminder_date !== undefined) {
+    updateFields.push('notification_sent = false');
+  }
+
+  updateFields.push('updated_at = NOW()');
+
+  try {
+    const updateQuery = `
+      UPDATE reminders r
+      SET ${updateFields.join(', ')}
+      FROM patients p
+      WHERE r.id = $${paramCount + 1}
+        AND r.patient_id = p.id
+        AND ${patientAccessCondition('p', `$${paramCount + 2}`, 'write')}
+        AND p.is_active = true
+      RETURNING r.*
+    `;
+
+    updateValues.push(reminderId, userId);
+
+    const result = await query(updateQuery, updateValues);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Reminder not found'
+      });
+    }
+
+    const reminder = result.rows[0];
+
+    if (!reminder.is_completed && !reminder.notification_sent) {
+      reminderScheduler.schedule(reminder.id, reminder.reminder_date);
+    }
+
+    logger.info('Reminder updated successfully', {
+      reminderId,
+      patientId: reminder.patient_id,
+      userId
+    });
+
+    res.json({
+      success: true,
+      message: 'Reminder updated successfully',
+      data: reminder
+    });
+
+  } catch (error) {
+    logger.error('Update reminder error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update reminder'
+    });
+  }
+}));
+
+// Mark a reminder as completed and stop its notification
+router.patch('/:id/complete', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const reminderId = req.params.id;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const completeQuery = `
+      UPDATE reminders r
+      SET is_completed = true, updated_at = NOW()
+      FROM patients p
+      WHERE r.id = $1 AND r.patient_id = p.id AND ${patientAccessCondition('p', '$2', 'write')} AND p.is_active = true
+      RETURNING r.*
+    `;
+
+    const result = await query(completeQuery, [reminderId, userId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Reminder not found'
+      });
+    }
+
+    reminderScheduler.cancel(reminderId);
+
+    res.json({
+      success: true,
+      message: 'Reminder completed',
+      data: result.rows[0]
+    });
+
+  } catch (error) {
+    logger.error('Complete reminder error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to complete reminder'
+    });
+  }
+}));
+
+// Delete a reminder
+router.delete('/:id', asyncHandler(async (req, res) => {
+  const userId = (req as any).user?.id;
+  const reminderId = req.params.id;
+
+  if (!userId) {
+    return res.status(401).json({
+      success: false,
+      error: 'Authentication required'
+    });
+  }
+
+  try {
+    const deleteQuery = `
+      DELETE FROM reminders r
+      USING patients p
+      WHERE r.id = $1 AND r.patient_id = p.id AND ${patientAccessCondition('p', '$2', 'write')} AND p.is_active = true
+      RETURNING r.id, r.patient_id
+    `;
+
+    const result = await query(deleteQuery, [reminderId, userId]);
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Reminder not found'
+      });
+    }
+
+    reminderScheduler.cancel(reminderId);
+
+    logger.info('Reminder deleted successfully', {
+      reminderId,
+      patientId: result.rows[0].patient_id,
+      userId
+    });
+
+    res.json({
+      success: true,
+      message: 'Reminder deleted successfully'
+    });
+
+  } catch (error) {
+    logger.error('Delete reminder error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete reminder'
+    });
+  }
+}));
+
+export default router;
@@ -8,15 +8,19 @@ import { testConnection, closeDatabase } from './config/database';
 import { logger } from './utils/logger';
 import { errorHandler } from './middleware/errorHandler';
 import { authMiddleware } from './middleware/auth';
+import { reminderScheduler } from './services/reminderScheduler';
 
 // Import routes
 import authRoutes from './routes/auth';
 import patientRoutes from './routes/patients';
 import doctorRoutes from './routes/doctors';
 import medicalRecordRoutes from './routes/medicalRecords';
+import documentRoutes from './routes/documents';
 import appointmentRoutes from './routes/appointments';
 import medicationRoutes from './routes/medications';
 import reminderRoutes from './routes/reminders';
+import householdRoutes from './routes/households';
+import auditRoutes from './routes/audit';
 
 const app = express();
 const PORT = process.env.PORT || 8000;
@@ -88,10 +92,13 @@ app.get('/health', async (req, res) => {
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/patients', authMiddleware, patientRoutes);
 app.use('/api/v1/doctors', authMiddleware, doctorRoutes);
+app.use('/api/v1/medical-records/:recordId/documents', authMiddleware, documentRoutes);
 app.use('/api/v1/medical-records', authMiddleware, medicalRecordRoutes);
 app.use('/api/v1/appointments', authMiddleware, appointmentRoutes);
 app.use('/api/v1/medications', authMiddleware, medicationRoutes);
 app.use('/api/v1/reminders', authMiddleware, reminderRoutes);
+app.use('/api/v1/households', authMiddleware, householdRoutes);
+app.use('/api/v1/audit', authMiddleware, auditRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -109,12 +116,14 @@ app.use(errorHandler);
 // Graceful shutdown
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  reminderScheduler.stop();
   await closeDatabase();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
+  reminderScheduler.stop();
   await closeDatabase();
   process.exit(0);
 });
@@ -140,6 +149,9 @@ const startServer = async () => {
       process.exit(1);
     }
 
+    // Load pending reminders so notifications survive restarts
+    await reminderScheduler.start();
+
     app.listen(PORT, () => {
       logger.info(`Server running on port ${PORT}`);
       logger.info(`Environment: ${process.env.NODE_ENV || 'development'}`);
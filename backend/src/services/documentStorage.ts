@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const DEVELOPMENT_KEY = 'family-health-keeper-development-document-key';
+
+let warnedAboutDevelopmentKey = false;
+
+// Root directory for encrypted attachments (DOCUMENT_STORAGE_DIR, default ./uploads/documents)
+export const getStorageDir = (): string =>
+  path.resolve(process.env.DOCUMENT_STORAGE_DIR || path.join('uploads', 'documents'));
+
+// 256-bit key derived from DOCUMENT_ENCRYPTION_KEY; required in production
+const getEncryptionKey = (): Buffer => {
+  let secret = process.env.DOCUMENT_ENCRYPTION_KEY;
+
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('DOCUMENT_ENCRYPTION_KEY must be set in production');
+    }
+
+    if (!warnedAboutDevelopmentKey) {
+      logger.warn('DOCUMENT_ENCRYPTION_KEY not set, using the development key for documents');
+      warnedAboutDevelopmentKey = true;
+    }
+    secret = DEVELOPMENT_KEY;
+  }
+
+  return crypto.createHash('sha256').update(secret).digest();
+};
+
+// Layout on disk: IV (12 bytes) | auth tag (16 bytes) | ciphertext
+export const encryptBuffer = (plain: Buffer, key: Buffer = getEncryptionKey()): Buffer => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(plain), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+};
+
+export const decryptBuffer = (payload: Buffer, key: Buffer = getEncryptionKey()): Buffer => {
+  const iv = payload.subarray(0, IV_LENGTH);
+  const tag = payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const encrypted = payload.subarray(IV_LENGTH + TAG_LENGTH);
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+};
+
+// Resolve a stored relative path, refusing anything that escapes the storage directory
+const resolveStoredPath = (filePath: string): string => {
+  const root = getStorageDir();
+  const absolutePath = path.resolve(root, filePath);
+
+  if (!absolutePath.startsWith(root + path.sep)) {
+    throw new Error('Invalid document path');
+  }
+
+  return absolutePath;
+};
+
+// Encrypt and write a file; returns the generated filename and the path relative to the storage dir
+export const saveDocumentFile = async (
+  patientId: string,
+  contents: Buffer
+): Promise<{ filename: string; filePath: string }> => {
+  const filename = `${crypto.randomUUID()}.enc`;
+  const filePath = path.join(patientId, filename);
+  const absolutePath = resolveStoredPath(filePath);
+
+  await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+  await fs.writeFile(absolutePath, encryptBuffer(contents), { mode: 0o600 });
+
+  return { filename, filePath };
+};
+
+export const readDocumentFile = async (filePath: string): Promise<Buffer> => {
+  const payload = await fs.readFile(resolveStoredPath(filePath));
+  return decryptBuffer(payload);
+};
+
+export const deleteDocumentFile = async (filePath: string): Promise<void> => {
+  try {
+    await fs.unlink(resolveStoredPath(filePath));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+};
@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import { query } from '../config/database';
+
+/**
+ * FHIR R4 export of a patient's complete record as a "collection" Bundle.
+ *
+ * Rows that have their own UUID keep it as their urn:uuid full URL, so
+ * repeated exports of the same data reference the same resources.
+ */
+
+export const FHIR_MIME_TYPE = 'application/fhir+json';
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [key: string]: any;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  meta: { lastUpdated: string };
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+const TERMINOLOGY = 'http://terminology.hl7.org/CodeSystem';
+const SNOMED = 'http://snomed.info/sct';
+
+const concept = (system: string, code: string, display?: string) => ({
+  coding: [{ system, code, ...(display && { display }) }]
+});
+
+const text = (value: string) => ({ text: value });
+
+const APPOINTMENT_STATUS: Record<string, string> = {
+  scheduled: 'booked',
+  completed: 'fulfilled',
+  cancelled: 'cancelled',
+  'no-show': 'noshow'
+};
+
+const SEVERITY: Record<string, { code: string; display: string }> = {
+  low: { code: '255604002', display: 'Mild' },
+  medium: { code: '6736007', display: 'Moderate' },
+  high: { code: '24484000', display: 'Severe' },
+  critical: { code: '24484000', display: 'Severe' }
+};
+
+// pg returns DATE columns as local-midnight Dates; keep the calendar date
+const toFhirDate = (value: Date | string | null): string | undefined => {
+  if (!value) return undefined;
+  if (typeof value === 'string') return value.slice(0, 10);
+
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+};
+
+const toFhirInstant = (value: Date | string | null): string | undefined =>
+  value ? new Date(value).toISOString() : undefined;
+
+// Allergies are stored as free text; split common list separators
+const splitList = (value?: string | null): string[] =>
+  (value || '').split(/[,;\n]/).map(item => item.trim()).filter(Boolean);
+
+const splitName = (name: string): { family?: string; given?: string[] } => {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length < 2) return { given: parts.filter(Boolean) };
+  return { family: parts[parts.length - 1], given: parts.slice(0, -1) };
+};
+
+/**
+ * Build the FHIR bundle for a patient. Access must be checked by the caller.
+ * `documentBaseUrl` is the API origin used for DocumentReference download links.
+ */
+export const buildPatientFhirBundle = async (
+  patientId: string,
+  documentBaseUrl: string
+): Promise<FhirBundle | null> => {
+  const patientResult = await query(
+    'SELECT * FROM patients WHERE id = $1 AND is_active = true',
+    [patientId]
+  );
+
+  if (patientResult.rows.length === 0) {
+    return null;
+  }
+
+  const patient = patientResult.rows[0];
+
+  const [hospitalResult, recordsResult, documentsResult, medicationsResult, appointmentsResult] = await Promise.all([
+    query('SELECT hospital_name, hospital_patient_id FROM patient_hospital_ids WHERE patient_id = $1', [patientId]),
+    query(
+      `SELECT mr.*, d.name as doctor_name
+       FROM medical_records mr
+       LEFT JOIN doctors d ON mr.doctor_id = d.id
+       WHERE mr.patient_id = $1
+       ORDER BY mr.record_date ASC`,
+      [patientId]
+    ),
+    query(
+      `SELECT doc.id, doc.medical_record_id, doc.original_name, doc.mime_type, doc.file_size, doc.uploaded_at
+       FROM documents doc
+       JOIN medical_records mr ON doc.medical_record_id = mr.id
+       WHERE mr.patient_id = $1`,
+      [patientId]
+    ),
+    query(
+      `SELECT m.*, d.name as prescribed_by_name
+       FROM medications m
+       LEFT JOIN doctors d ON m.prescribed_by = d.id
+       WHERE m.patient_id = $1
+       ORDER BY m.start_date ASC`,
+      [patientId]
+    ),
+    query(
+      `SELECT a.*, d.name as doctor_name
+       FROM appointments a
+       LEFT JOIN doctors d ON a.doctor_id = d.id
+       WHERE a.patient_id = $1
+       ORDER BY a.appointment_date ASC`,
+      [patientId]
+    )
+  ]);
+
+  const entry: FhirBundle['entry'] = [];
+  const add = (resource: FhirResource, id: string = crypto.randomUUID()): string => {
+    const fullUrl = `urn:uuid:${id}`;
+    entry.push({ fullUrl, resource });
+    return fullUrl;
+  };
+
+  // Patient
+  const telecom = [
+    patient.phone && { system: 'phone', value: patient.phone },
+    patient.email && { system: 'email', value: patient.email }
+  ].filter(Boolean);
+
+  const subject = {
+    reference: add({
+      resourceType: 'Patient',
+      id: patient.id,
+      active: true,
+      ...(hospitalResult.rows.length > 0 && {
+        identifier: hospitalResult.rows.map((hospital: any) => ({
+          type: { ...concept(`${TERMINOLOGY}/v2-0203`, 'MR', 'Medical record number'), text: 'Hospital ID' },
+          value: hospital.hospital_patient_id,
+          assigner: { display: hospital.hospital_name }
+        }))
+      }),
+      name: [{ text: patient.name, ...splitName(patient.name) }],
+      ...(telecom.length > 0 && { telecom }),
+      ...(patient.gender && { gender: patient.gender }),
+      ...(patient.date_of_birth && { birthDate: toFhirDate(patient.date_of_birth) }),
+      ...(patient.address && { address: [{ text: patient.address }] }),
+      ...(patient.emergency_contact_name && {
+        contact: [{
+          relationship: [concept(`${TERMINOLOGY}/v2-0131`, 'C', 'Emergency Contact')],
+          name: { text: patient.emergency_contact_name },
+          ...(patient.emergency_contact_phone && {
+            telecom: [{ system: 'phone', value: patient.emergency_contact_phone }]
+          })
+        }]
+      })
+    }, patient.id),
+    display: patient.name
+  };
+
+  // Allergies
+  splitList(patient.allergies).forEach(allergy => add({
+    resourceType: 'AllergyIntolerance',
+    clinicalStatus: concept(`${TERMINOLOGY}/allergyintolerance-clinical`, 'active'),
+    code: text(allergy),
+    patient: subject
+  }));
+
+  // Medical records: one Encounter each, with its diagnosis, investigations and documents
+  const encounterUrls: Record<string, string> = {};
+
+  recordsResult.rows.forEach((record: any) => {
+    const recordDate = toFhirDate(record.record_date);
+    const encounter = {
+      reference: add({
+        resourceType: 'Encounter',
+        id: record.id,
+        status: 'finished',
+        class: { system: `${TERMINOLOGY}/v3-ActCode`, code: 'AMB', display: 'ambulatory' },
+        subject,
+        ...(recordDate && { period: { start: recordDate } }),
+        ...(record.doctor_name && { participant: [{ individual: { display: record.doctor_name } }] }),
+        ...(record.complaint && { reasonCode: [text(record.complaint)] })
+      }, record.id)
+    };
+    encounterUrls[record.id] = encounter.reference;
+
+    if (record.diagnosis) {
+      const severity = SEVERITY[record.severity];
+
+      add({
+        resourceType: 'Condition',
+        clinicalStatus: concept(`${TERMINOLOGY}/condition-clinical`, 'active'),
+        category: [concept(`${TERMINOLOGY}/condition-category`, 'encounter-diagnosis', 'Encounter Diagnosis')],
+        ...(severity && { severity: concept(SNOMED, severity.code, severity.display) }),
+        code: text(record.diagnosis),
+        subject,
+        encounter,
+        ...(recordDate && { recordedDate: recordDate })
+      });
+    }
+
+    if (record.investigations) {
+      add({
+        resourceType: 'Observation',
+        status: 'final',
+        category: [concept(`${TERMINOLOGY}/observation-category`, 'laboratory', 'Laboratory')],
+        code: text('Investigations'),
+        subject,
+        encounter,
+        ...(recordDate && { effectiveDateTime: recordDate }),
+        valueString: record.investigations
+      });
+    }
+  });
+
+  documentsResult.rows.forEach((document: any) => add({
+    resourceType: 'DocumentReference',
+    id: document.id,
+    status: 'current',
+    subject,
+    date: toFhirInstant(document.uploaded_at),
+    description: document.original_name,
+    content: [{
+      attachment: {
+        ...(document.mime_type && { contentType: document.mime_type }),
+        url: `${documentBaseUrl}/api/v1/medical-records/${document.medical_record_id}/documents/${document.id}`,
+        title: document.original_name,
+        size: document.file_size,
+        creation: toFhirInstant(document.uploaded_at)
+      }
+    }],
+    context: { encounter: [{ reference: encounterUrls[document.medical_record_id] }] }
+  }, document.id));
+
+  // Medications
+  medicationsResult.rows.forEach((medication: any) => {
+    const start = toFhirDate(medication.start_date);
+    const end = toFhirDate(medication.end_date);
+
+    add({
+      resourceType: 'MedicationStatement',
+      id: medication.id,
+      status: medication.is_active ? 'active' : 'stopped',
+      ...(medication.discontinued_reason && { statusReason: [text(medication.discontinued_reason)] }),
+      medicationCodeableConcept: text(medication.name),
+      subject,
+      ...(start && { effectivePeriod: { start, ...(end && { end }) } }),
+      ...(medication.prescribed_by_name && { informationSource: { display: medication.prescribed_by_name } }),
+      dosage: [{
+        text: `${medication.dosage}, ${medication.frequency}`,
+        ...(medication.instructions && { patientInstruction: medication.instructions }),
+        ...(medication.route && { route: text(medication.route) })
+      }]
+    }, medication.id);
+  });
+
+  // Appointments
+  appointmentsResult.rows.forEach((appointment: any) => {
+    const start = new Date(appointment.appointment_date);
+    const minutes = appointment.duration_minutes || 60;
+
+    add({
+      resourceType: 'Appointment',
+      id: appointment.id,
+      status: APPOINTMENT_STATUS[appointment.status] || 'booked',
+      description: appointment.title,
+      start: start.toISOString(),
+      end: new Date(start.getTime() + minutes * 60000).toISOString(),
+      minutesDuration: minutes,
+      ...((appointment.description || appointment.notes) && {
+        comment: [appointment.description, appointment.notes].filter(Boolean).join('\n')
+      }),
+      participant: [
+        { actor: subject, status: 'accepted' },
+        ...(appointment.doctor_name ? [{ actor: { display: appointment.doctor_name }, status: 'accepted' }] : []),
+        ...(appointment.location ? [{ actor: { display: appointment.location }, status: 'accepted' }] : [])
+      ]
+    }, appointment.id);
+  });
+
+  const now = new Date().toISOString();
+
+  return {
+    resourceType: 'Bundle',
+    id: crypto.randomUUID(),
+    meta: { lastUpdated: now },
+    type: 'collection',
+    timestamp: now,
+    entry
+  };
+};
@@ -0,0 +1,155 @@
+import nodemailer from 'nodemailer';
+import { logger } from '../utils/logger';
+
+export interface ReminderNotification {
+  reminderId: string;
+  patientId: string;
+  patientName: string;
+  recipientEmail?: string;
+  title: string;
+  description?: string;
+  reminderType: string;
+  reminderDate: Date;
+}
+
+export interface ReminderNotifier {
+  readonly name: string;
+  send(notification: ReminderNotification): Promise<void>;
+}
+
+// Writes reminders to the application log; the default when nothing else is configured
+export class LogNotifier implements ReminderNotifier {
+  readonly name = 'log';
+
+  async send(notification: ReminderNotification): Promise<void> {
+    logger.info('Reminder due', {
+      reminderId: notification.reminderId,
+      patientId: notification.patientId,
+      title: notification.title,
+      reminderType: notification.reminderType,
+      reminderDate: notification.reminderDate
+    });
+  }
+}
+
+// POSTs the reminder as JSON to an external URL (chat bots, push gateways, automation tools)
+export class WebhookNotifier implements ReminderNotifier {
+  readonly name = 'webhook';
+  private url: string;
+  private secret?: string;
+
+  constructor(url: string, secret?: string) {
+    this.url = url;
+    this.secret = secret;
+  }
+
+  async send(notification: ReminderNotification): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.secret && { 'X-Webhook-Secret': this.secret })
+      },
+      body: JSON.stringify({ event: 'reminder.due', reminder: notification })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with status ${response.status}`);
+    }
+  }
+}
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+// Emails the reminder to the account that owns the patient
+export class SmtpNotifier implements ReminderNotifier {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(private config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      ...(config.user && { auth: { user: config.user, pass: config.password } })
+    });
+  }
+
+  async send(notification: ReminderNotification): Promise<void> {
+    if (!notification.recipientEmail) {
+      throw new Error('Reminder has no recipient email address');
+    }
+
+    await this.transporter.sendMail({
+      from: this.config.from,
+      to: notification.recipientEmail,
+      subject: `Reminder for ${notification.patientName}: ${notification.title}`,
+      text: [
+        `${notification.title} (${notification.reminderType})`,
+        `Patient: ${notification.patientName}`,
+        `Due: ${new Date(notification.reminderDate).toLocaleString()}`,
+        notification.description || ''
+      ].join('\n').trim()
+    });
+  }
+}
+
+// Keeps notifications in memory instead of sending them, for local development
+export class MemoryNotifier implements ReminderNotifier {
+  readonly name = 'memory';
+  readonly sent: ReminderNotification[] = [];
+
+  async send(notification: ReminderNotification): Promise<void> {
+    this.sent.push(notification);
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
+
+/**
+ * Build the notifier selected by REMINDER_NOTIFIER (log | webhook | smtp | memory).
+ * Webhook reads REMINDER_WEBHOOK_URL and REMINDER_WEBHOOK_SECRET; SMTP reads
+ * SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD and SMTP_FROM.
+ */
+export const createNotifierFromEnv = (env: typeof process.env = process.env): ReminderNotifier => {
+  const kind = env.REMINDER_NOTIFIER || 'log';
+
+  switch (kind) {
+    case 'webhook':
+      if (!env.REMINDER_WEBHOOK_URL) {
+        throw new Error('REMINDER_WEBHOOK_URL is required for the webhook notifier');
+      }
+      return new WebhookNotifier(env.REMINDER_WEBHOOK_URL, env.REMINDER_WEBHOOK_SECRET);
+
+    case 'smtp':
+      if (!env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required for the smtp notifier');
+      }
+      return new SmtpNotifier({
+        host: env.SMTP_HOST,
+        port: parseInt(env.SMTP_PORT || '587'),
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD,
+        from: env.SMTP_FROM || 'Family Health Keeper <no-reply@localhost>'
+      });
+
+    case 'memory':
+      return new MemoryNotifier();
+
+    case 'log':
+      return new LogNotifier();
+
+    default:
+      throw new Error(`Unknown REMINDER_NOTIFIER: ${kind}`);
+  }
+};
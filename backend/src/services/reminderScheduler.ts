@@ -0,0 +1,129 @@
+import schedule, { Job } from 'node-schedule';
+import { query } from '../config/database';
+import { logger } from '../utils/logger';
+import { ReminderNotifier, ReminderNotification, createNotifierFromEnv } from './reminderNotifier';
+
+const PENDING_REMINDER_QUERY = `
+  SELECT
+    r.id, r.patient_id, r.title, r.description, r.reminder_date, r.reminder_type,
+    p.name as patient_name, u.email as user_email
+  FROM reminders r
+  JOIN patients p ON r.patient_id = p.id
+  JOIN users u ON p.user_id = u.id
+  WHERE r.is_completed = false AND r.notification_sent = false AND p.is_active = true
+`;
+
+/**
+ * Fires reminders at their reminder_date through a pluggable notifier.
+ *
+ * The database is the source of truth: on start() every pending reminder is
+ * re-scheduled, and reminders whose time passed while the server was down are
+ * sent immediately, so nothing is lost across restarts.
+ */
+export class ReminderScheduler {
+  private notifier: ReminderNotifier;
+  private jobs = new Map<string, Job>();
+  private started = false;
+
+  constructor(notifier: ReminderNotifier) {
+    this.notifier = notifier;
+  }
+
+  async start(): Promise<void> {
+    if (this.started) return;
+    this.started = true;
+
+    const result = await query(`${PENDING_REMINDER_QUERY} ORDER BY r.reminder_date ASC`);
+
+    for (const row of result.rows) {
+      this.schedule(row.id, row.reminder_date);
+    }
+
+    logger.info('Reminder scheduler started', {
+      notifier: this.notifier.name,
+      pending: result.rows.length
+    });
+  }
+
+  stop(): void {
+    this.jobs.forEach(job => job.cancel());
+    this.jobs.clear();
+    this.started = false;
+  }
+
+  // Schedule (or re-schedule) a reminder; overdue reminders fire right away
+  schedule(reminderId: string, reminderDate: Date | string): void {
+    this.cancel(reminderId);
+
+    const fireAt = new Date(reminderDate);
+
+    if (fireAt.getTime() <= Date.now()) {
+      void this.fire(reminderId);
+      return;
+    }
+
+    const job = schedule.scheduleJob(`reminder:${reminderId}`, fireAt, () => {
+      this.jobs.delete(reminderId);
+      void this.fire(reminderId);
+    });
+
+    if (job) {
+      this.jobs.set(reminderId, job);
+    }
+  }
+
+  cancel(reminderId: string): void {
+    const job = this.jobs.get(reminderId);
+    if (job) {
+      job.cancel();
+      this.jobs.delete(reminderId);
+    }
+  }
+
+  isScheduled(reminderId: string): boolean {
+    return this.jobs.has(reminderId);
+  }
+
+  get scheduledCount(): number {
+    return this.jobs.size;
+  }
+
+  // Send the notification and mark it sent; re-reads the row so edits and completions made since scheduling are honoured
+  async fire(reminderId: string): Promise<boolean> {
+    try {
+      const result = await query(`${PENDING_REMINDER_QUERY} AND r.id = $1`, [reminderId]);
+
+      if (result.rows.length === 0) {
+        return false;
+      }
+
+      const row = result.rows[0];
+      const notification: ReminderNotification = {
+        reminderId: row.id,
+        patientId: row.patient_id,
+        patientName: row.patient_name,
+        recipientEmail: row.user_email,
+        title: row.title,
+        description: row.description,
+        reminderType: row.reminder_type,
+        reminderDate: row.reminder_date
+      };
+
+      await this.notifier.send(notification);
+
+      await query(
+        'UPDATE reminders SET notification_sent = true, updated_at = NOW() WHERE id = $1',
+        [reminderId]
+      );
+
+      logger.info('Reminder notification sent', { reminderId, notifier: this.notifier.name });
+      return true;
+    } catch (error) {
+      // Left unsent so the next start() retries it
+      logger.error('Failed to send reminder notification', { reminderId, error });
+      return false;
+    }
+  }
+}
+
+export const reminderScheduler = new ReminderScheduler(createNotifierFromEnv());
@@ -0,0 +1,221 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import { query, transaction } from '../config/database';
+import { logger } from '../utils/logger';
+import { generateToken, getTokenExpiry } from '../middleware/auth';
+import { User } from '../types';
+
+type SessionUser = Omit<User, 'password_hash'>;
+
+interface Queryable {
+  query: PoolClient['query'];
+}
+
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '7');
+const REMEMBER_ME_REFRESH_TTL_DAYS = parseInt(process.env.REMEMBER_ME_REFRESH_TTL_DAYS || '30');
+
+const USER_COLUMNS = `
+  id, email, username, first_name, last_name, role, avatar_url,
+  is_active, email_verified, created_at, updated_at, last_login
+`;
+
+export interface IssuedSession {
+  sessionId: string;
+  token: string;
+  refreshToken: string;
+}
+
+export type RefreshResult =
+  | { status: 'ok'; user: SessionUser; session: IssuedSession }
+  | { status: 'invalid' }
+  | { status: 'reused'; sessionId: string };
+
+// Only hashes are stored, so a leaked database does not yield usable refresh tokens
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const generateRefreshToken = (): string => crypto.randomBytes(48).toString('base64url');
+
+const insertRefreshToken = async (
+  db: Queryable,
+  sessionId: string,
+  expiresAt: Date
+): Promise<string> => {
+  const refreshToken = generateRefreshToken();
+
+  await db.query(
+    'INSERT INTO refresh_tokens (session_id, token_hash, expires_at) VALUES ($1, $2, $3)',
+    [sessionId, hashToken(refreshToken), expiresAt]
+  );
+
+  return refreshToken;
+};
+
+/**
+ * Start a session for a newly signed-in device. The session row carries the
+ * current access token; its refresh tokens form one rotation family.
+ */
+export const createSession = async (
+  db: Queryable,
+  user: SessionUser,
+  options: { deviceInfo?: string; ipAddress?: string; rememberMe?: boolean } = {}
+): Promise<IssuedSession> => {
+  const sessionId = crypto.randomUUID();
+  const token = generateToken(user, sessionId);
+  const ttlDays = options.rememberMe ? REMEMBER_ME_REFRESH_TTL_DAYS : REFRESH_TOKEN_TTL_DAYS;
+  const refreshExpiresAt = new Date(Date.now() + ttlDays * 24 * 60 * 60 * 1000);
+
+  await db.query(
+    `INSERT INTO sessions (id, user_id, token, device_info, ip_address, expires_at, refresh_expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      sessionId,
+      user.id,
+      token,
+      options.deviceInfo || null,
+      options.ipAddress || null,
+      getTokenExpiry(token),
+      refreshExpiresAt
+    ]
+  );
+
+  const refreshToken = await insertRefreshToken(db, sessionId, refreshExpiresAt);
+
+  return { sessionId, token, refreshToken };
+};
+
+// Revoke a session and every refresh token in its family
+export const revokeSession = async (db: Queryable, sessionId: string, reason: string): Promise<void> => {
+  await db.query(
+    `UPDATE sessions
+     SET is_active = false, revoked_at = NOW(), revoked_reason = $2
+     WHERE id = $1 AND is_active = true`,
+    [sessionId, reason]
+  );
+
+  await db.query(
+    'UPDATE refresh_tokens SET revoked_at = NOW() WHERE session_id = $1 AND revoked_at IS NULL',
+    [sessionId]
+  );
+};
+
+// Revoke all of a user's sessions, optionally keeping the caller's own
+export const revokeUserSessions = async (
+  userId: string,
+  reason: string,
+  exceptSessionId?: string
+): Promise<number> => {
+  return transaction(async (client) => {
+    const result = await client.query(
+      `UPDATE sessions
+       SET is_active = false, revoked_at = NOW(), revoked_reason = $2
+       WHERE user_id = $1 AND is_active = true AND ($3::uuid IS NULL OR id <> $3::uuid)
+       RETURNING id`,
+      [userId, reason, exceptSessionId || null]
+    );
+
+    const sessionIds = result.rows.map((row: any) => row.id);
+
+    if (sessionIds.length > 0) {
+      await client.query(
+        'UPDATE refresh_tokens SET revoked_at = NOW() WHERE session_id = ANY($1) AND revoked_at IS NULL',
+        [sessionIds]
+      );
+    }
+
+    return sessionIds.length;
+  });
+};
+
+/**
+ * Exchange a refresh token for a new access/refresh pair. Each refresh token
+ * works once: presenting a token that was already rotated means it was copied,
+ * so the whole family (the device session) is revoked.
+ */
+export const rotateRefreshToken = async (
+  refreshToken: string,
+  options: { ipAddress?: string } = {}
+): Promise<RefreshResult> => {
+  const result: RefreshResult = await transaction(async (client) => {
+    const tokenResult = await client.query(
+      `SELECT rt.id, rt.session_id, rt.expires_at, rt.used_at, rt.revoked_at,
+              s.user_id, s.is_active as session_active, s.refresh_expires_at
+       FROM refresh_tokens rt
+       JOIN sessions s ON rt.session_id = s.id
+       WHERE rt.token_hash = $1
+       FOR UPDATE OF rt`,
+      [hashToken(refreshToken)]
+    );
+
+    if (tokenResult.rows.length === 0) {
+      return { status: 'invalid' };
+    }
+
+    const stored = tokenResult.rows[0];
+
+    if (stored.used_at || stored.revoked_at) {
+      await revokeSession(client, stored.session_id, 'refresh_token_reuse');
+      return { status: 'reused', sessionId: stored.session_id };
+    }
+
+    if (!stored.session_active || new Date(stored.expires_at).getTime() <= Date.now()) {
+      return { status: 'invalid' };
+    }
+
+    const userResult = await client.query(
+      `SELECT ${USER_COLUMNS} FROM users WHERE id = $1 AND is_active = true`,
+      [stored.user_id]
+    );
+
+    if (userResult.rows.length === 0) {
+      await revokeSession(client, stored.session_id, 'user_inactive');
+      return { status: 'invalid' };
+    }
+
+    const user = userResult.rows[0] as SessionUser;
+
+    await client.query('UPDATE refresh_tokens SET used_at = NOW() WHERE id = $1', [stored.id]);
+
+    const token = generateToken(user, stored.session_id);
+
+    await client.query(
+      `UPDATE sessions
+       SET token = $1, expires_at = $2, last_used_at = NOW(), ip_address = COALESCE($3, ip_address)
+       WHERE id = $4`,
+      [token, getTokenExpiry(token), options.ipAddress || null, stored.session_id]
+    );
+
+    // The family keeps the absolute expiry it was created with
+    const nextRefreshToken = await insertRefreshToken(
+      client,
+      stored.session_id,
+      stored.refresh_expires_at || stored.expires_at
+    );
+
+    return {
+      status: 'ok',
+      user,
+      session: { sessionId: stored.session_id, token, refreshToken: nextRefreshToken }
+    };
+  });
+
+  if (result.status === 'reused') {
+    logger.warn('Refresh token reuse detected, session revoked', { sessionId: result.sessionId });
+  }
+
+  return result;
+};
+
+// Active sessions for the "signed-in devices" view
+export const listUserSessions = async (userId: string): Promise<any[]> => {
+  const result = await query(
+    `SELECT id, device_info, ip_address, created_at, last_used_at, refresh_expires_at
+     FROM sessions
+     WHERE user_id = $1 AND is_active = true
+       AND COALESCE(refresh_expires_at, expires_at) > NOW()
+     ORDER BY last_used_at DESC NULLS LAST, created_at DESC`,
+    [userId]
+  );
+
+  return result.rows;
+};
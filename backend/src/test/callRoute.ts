@@ -0,0 +1,45 @@
+import { Router } from 'express';
+
+// The parts of Express's route layers the tests need to reach a handler
+interface RouteLayer {
+  route?: {
+    path: string;
+    methods: Record<string, boolean>;
+    stack: { handle: (req: unknown, res: unknown, next: (error?: unknown) => void) => void }[];
+  };
+}
+
+export interface RouteRequest {
+  params?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * Runs a route's handler directly as user-1 and resolves with the status and
+ * body it responded with
+ */
+export const callRoute = (
+  router: Router,
+  method: 'get' | 'post' | 'put' | 'patch' | 'delete',
+  path: string,
+  { params = {}, body = {} }: RouteRequest = {}
+) =>
+  new Promise<{ status: number; body: unknown }>((resolve, reject) => {
+    const route = (router.stack as unknown as RouteLayer[])
+      .map(layer => layer.route)
+      .find(candidate => candidate?.path === path && candidate.methods[method]);
+    let status = 200;
+    const res = {
+      status(code: number) {
+        status = code;
+        return res;
+      },
+      json(payload: unknown) {
+        resolve({ status, body: payload });
+        return res;
+      }
+    };
+
+    if (!route) throw new Error(`No ${method.toUpperCase()} ${path} route`);
+    route.stack[0].handle({ user: { id: 'user-1' }, params, body }, res, reject);
+  });
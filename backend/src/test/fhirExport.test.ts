@@ -0,0 +1,130 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { query } from '../config/database';
+import { buildPatientFhirBundle, FhirResource } from '../services/fhirExport';
+
+jest.mock('../config/database', () => ({ query: jest.fn() }));
+
+const mockQuery = jest.mocked(query);
+
+const PATIENT_ID = '6f1c0a52-3c1e-4a7e-9a55-0a7f4c2d9b10';
+const RECORD_ID = '0b7d3f9e-5e0a-4b9b-8f1e-2a4c6d8e0f12';
+
+// pg hands back DATE columns as local midnight
+const tables: Record<string, Record<string, unknown>[]> = {
+  patients: [{
+    id: PATIENT_ID,
+    name: 'Asha Rao',
+    gender: 'female',
+    date_of_birth: new Date(1958, 2, 14),
+    phone: '+91 98450 12345',
+    allergies: 'Penicillin, Sulfa drugs'
+  }],
+  patient_hospital_ids: [{ hospital_name: 'Manipal Hospital', hospital_patient_id: 'MH-20418' }],
+  medical_records: [{
+    id: RECORD_ID,
+    record_date: new Date(2024, 0, 10),
+    complaint: 'Headache',
+    diagnosis: 'Hypertension',
+    investigations: 'BP 150/95',
+    severity: 'medium',
+    doctor_name: 'Dr. Meera Rao'
+  }],
+  documents: [{
+    id: 'a3e2c1d0-7b6a-4f5e-9d8c-1b2a3c4d5e6f',
+    medical_record_id: RECORD_ID,
+    original_name: 'ecg.pdf',
+    mime_type: 'application/pdf',
+    file_size: 2048,
+    uploaded_at: new Date('2024-01-10T06:00:00Z')
+  }],
+  medications: [{
+    id: 'c4d5e6f7-8a9b-4c0d-8e1f-2a3b4c5d6e7f',
+    name: 'Amlodipine',
+    dosage: '5mg',
+    frequency: 'Once daily',
+    route: 'oral',
+    start_date: new Date(2024, 0, 10),
+    end_date: new Date(2024, 5, 30),
+    is_active: false,
+    discontinued_reason: 'Ankle swelling',
+    prescribed_by_name: 'Dr. Meera Rao'
+  }],
+  appointments: [{
+    id: 'e6f7a8b9-0c1d-4e2f-8a3b-4c5d6e7f8a9b',
+    title: 'BP review',
+    status: 'scheduled',
+    appointment_date: new Date('2024-01-24T04:30:00Z'),
+    duration_minutes: 30,
+    doctor_name: 'Dr. Meera Rao'
+  }]
+};
+
+const FROM_TABLE = /FROM (\w+)/;
+
+const resourcesOf = (entry: { resource: FhirResource }[], type: string) =>
+  entry.map(item => item.resource).filter(resource => resource.resourceType === type);
+
+describe('FHIR export', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    mockQuery.mockImplementation(async (text: string) => ({ rows: tables[text.match(FROM_TABLE)?.[1] || ''] || [] }));
+  });
+
+  it('builds a collection bundle of the whole record', async () => {
+    const bundle = await buildPatientFhirBundle(PATIENT_ID, 'https://api.example.com');
+
+    expect(bundle).toMatchObject({ resourceType: 'Bundle', type: 'collection' });
+    expect(bundle?.entry.map(item => item.resource.resourceType)).toEqual([
+      'Patient',
+      'AllergyIntolerance',
+      'AllergyIntolerance',
+      'Encounter',
+      'Condition',
+      'Observation',
+      'DocumentReference',
+      'MedicationStatement',
+      'Appointment'
+    ]);
+    expect(bundle?.entry[0]).toEqual(expect.objectContaining({ fullUrl: `urn:uuid:${PATIENT_ID}` }));
+  });
+
+  it('only references resources contained in the bundle', async () => {
+    const bundle = await buildPatientFhirBundle(PATIENT_ID, 'https://api.example.com');
+    const fullUrls = new Set(bundle?.entry.map(item => item.fullUrl));
+    const references = JSON.stringify(bundle).match(/"reference":"[^"]+"/g) || [];
+
+    expect(references.length).toBeGreaterThan(0);
+    references.forEach(reference => {
+      expect(fullUrls).toContain(reference.slice('"reference":"'.length, -1));
+    });
+  });
+
+  it('maps dates, statuses and document links', async () => {
+    const bundle = await buildPatientFhirBundle(PATIENT_ID, 'https://api.example.com');
+    const entry = bundle?.entry || [];
+
+    expect(resourcesOf(entry, 'Patient')[0]).toMatchObject({
+      birthDate: '1958-03-14',
+      identifier: [{ value: 'MH-20418', assigner: { display: 'Manipal Hospital' } }]
+    });
+    expect(resourcesOf(entry, 'Encounter')[0]).toMatchObject({ period: { start: '2024-01-10' } });
+    expect(resourcesOf(entry, 'MedicationStatement')[0]).toMatchObject({
+      status: 'stopped',
+      statusReason: [{ text: 'Ankle swelling' }],
+      effectivePeriod: { start: '2024-01-10', end: '2024-06-30' }
+    });
+    expect(resourcesOf(entry, 'Appointment')[0]).toMatchObject({
+      status: 'booked',
+      start: '2024-01-24T04:30:00.000Z',
+      end: '2024-01-24T05:00:00.000Z'
+    });
+    expect(resourcesOf(entry, 'DocumentReference')[0].content[0].attachment.url)
+      .toBe(`https://api.example.com/api/v1/medical-records/${RECORD_ID}/documents/a3e2c1d0-7b6a-4f5e-9d8c-1b2a3c4d5e6f`);
+  });
+
+  it('returns null for a missing patient', async () => {
+    mockQuery.mockResolvedValue({ rows: [] });
+
+    await expect(buildPatientFhirBundle('missing', 'https://api.example.com')).resolves.toBeNull();
+  });
+});
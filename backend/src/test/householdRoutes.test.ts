@@ -0,0 +1,34 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { query } from '../config/database';
+import router from '../routes/households';
+import { callRoute } from './callRoute';
+
+jest.mock('../config/database', () => ({ query: jest.fn(), transaction: jest.fn() }));
+jest.mock('../utils/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+const mockQuery = jest.mocked(query);
+
+describe('household routes', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+  });
+
+  it('lists only the household patients the member may access', async () => {
+    mockQuery
+      .mockResolvedValueOnce({ rows: [{ id: 'household-1', name: 'Rao family', role: 'caregiver' }] })
+      .mockResolvedValueOnce({ rows: [{ id: 'member-1', household_id: 'household-1', user_id: 'user-1', role: 'caregiver', patient_ids: ['patient-1'] }] })
+      .mockResolvedValueOnce({ rows: [{ id: 'patient-1', household_id: 'household-1', name: 'Asha Rao', user_id: 'user-2' }] });
+
+    const response = await callRoute(router, 'get', '/');
+
+    const [patientsQuery, params] = mockQuery.mock.calls[2];
+    expect(patientsQuery).toContain('p.user_id = $2');
+    expect(patientsQuery).toContain('hm.patient_ids IS NULL OR p.id = ANY(hm.patient_ids)');
+    expect(params).toEqual([['household-1'], 'user-1']);
+
+    expect(response.body).toMatchObject({
+      success: true,
+      data: [{ id: 'household-1', patients: [{ id: 'patient-1', name: 'Asha Rao' }] }]
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, jest, beforeEach, afterAll } from '@jest/globals';
+import nodemailer from 'nodemailer';
+import {
+  LogNotifier,
+  MemoryNotifier,
+  ReminderNotification,
+  SmtpNotifier,
+  WebhookNotifier,
+  createNotifierFromEnv
+} from '../services/reminderNotifier';
+
+jest.mock('../utils/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+jest.mock('nodemailer', () => ({ createTransport: jest.fn() }));
+
+type FetchResponse = Awaited<ReturnType<typeof fetch>>;
+
+const notification: ReminderNotification = {
+  reminderId: 'rem-1',
+  patientId: 'patient-1',
+  patientName: 'Asha Rao',
+  recipientEmail: 'asha@example.com',
+  title: 'Take Metformin',
+  description: 'After breakfast',
+  reminderType: 'medication',
+  reminderDate: new Date('2024-01-10T09:00:00Z')
+};
+
+describe('reminder notifiers', () => {
+  const sendMail = jest.fn();
+  const fetchMock = jest.fn<typeof fetch>();
+  const realFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(nodemailer.createTransport).mockReturnValue({ sendMail } as unknown as nodemailer.Transporter);
+    global.fetch = fetchMock;
+  });
+
+  afterAll(() => {
+    global.fetch = realFetch;
+  });
+
+  it('picks the notifier named by REMINDER_NOTIFIER', () => {
+    expect(createNotifierFromEnv({})).toBeInstanceOf(LogNotifier);
+    expect(createNotifierFromEnv({ REMINDER_NOTIFIER: 'memory' })).toBeInstanceOf(MemoryNotifier);
+    expect(createNotifierFromEnv({ REMINDER_NOTIFIER: 'webhook', REMINDER_WEBHOOK_URL: 'https://hooks.example.com' })).toBeInstanceOf(WebhookNotifier);
+    expect(createNotifierFromEnv({ REMINDER_NOTIFIER: 'smtp', SMTP_HOST: 'smtp.example.com' })).toBeInstanceOf(SmtpNotifier);
+
+    expect(() => createNotifierFromEnv({ REMINDER_NOTIFIER: 'webhook' })).toThrow('REMINDER_WEBHOOK_URL is required');
+    expect(() => createNotifierFromEnv({ REMINDER_NOTIFIER: 'pager' })).toThrow('Unknown REMINDER_NOTIFIER: pager');
+  });
+
+  it('posts the reminder to the webhook with its secret', async () => {
+    fetchMock.mockResolvedValue({ ok: true, status: 200 } as FetchResponse);
+
+    await new WebhookNotifier('https://hooks.example.com/reminders', 's3cret').send(notification);
+
+    expect(fetchMock).toHaveBeenCalledWith('https://hooks.example.com/reminders', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Webhook-Secret': 's3cret' },
+      body: JSON.stringify({ event: 'reminder.due', reminder: notification })
+    });
+  });
+
+  it('fails when the webhook answers with an error status', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 503 } as FetchResponse);
+
+    await expect(new WebhookNotifier('https://hooks.example.com/reminders').send(notification))
+      .rejects.toThrow('Webhook responded with status 503');
+  });
+
+  it('emails the reminder to the patient owner', async () => {
+    const notifier = new SmtpNotifier({ host: 'smtp.example.com', port: 587, secure: false, from: 'reminders@example.com' });
+
+    await notifier.send(notification);
+
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+      from: 'reminders@example.com',
+      to: 'asha@example.com',
+      subject: 'Reminder for Asha Rao: Take Metformin'
+    }));
+    await expect(notifier.send({ ...notification, recipientEmail: undefined }))
+      .rejects.toThrow('Reminder has no recipient email address');
+  });
+
+  it('keeps reminders in memory until cleared', async () => {
+    const notifier = new MemoryNotifier();
+
+    await notifier.send(notification);
+    expect(notifier.sent).toEqual([notification]);
+
+    notifier.clear();
+    expect(notifier.sent).toEqual([]);
+  });
+});
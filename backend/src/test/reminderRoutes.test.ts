@@ -0,0 +1,68 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { query } from '../config/database';
+import { reminderScheduler } from '../services/reminderScheduler';
+import router from '../routes/reminders';
+import { callRoute } from './callRoute';
+
+jest.mock('../config/database', () => ({ query: jest.fn() }));
+jest.mock('../utils/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+jest.mock('../services/reminderScheduler', () => ({
+  reminderScheduler: { schedule: jest.fn(), cancel: jest.fn(), isScheduled: jest.fn() }
+}));
+
+const mockQuery = jest.mocked(query);
+const mockScheduler = jest.mocked(reminderScheduler);
+
+const reminderRow = (fields: Record<string, unknown> = {}) => ({
+  id: 'rem-1',
+  patient_id: 'patient-1',
+  title: 'Take Metformin',
+  reminder_date: '2024-01-10T09:00:00.000Z',
+  reminder_type: 'medication',
+  is_completed: false,
+  notification_sent: false,
+  ...fields
+});
+
+describe('reminder routes', () => {
+  beforeEach(() => {
+    mockQuery.mockReset();
+    jest.clearAllMocks();
+  });
+
+  it('re-schedules a reminder when its date is updated', async () => {
+    mockQuery.mockResolvedValue({ rows: [reminderRow({ reminder_date: '2024-01-11T09:00:00.000Z' })] });
+
+    const response = await callRoute(router, 'put', '/:id', { params: { id: 'rem-1' }, body: { reminder_date: '2024-01-11T09:00:00.000Z' } });
+
+    expect(response.status).toBe(200);
+    expect(mockQuery.mock.calls[0][0]).toContain('notification_sent = false');
+    expect(mockScheduler.schedule).toHaveBeenCalledWith('rem-1', '2024-01-11T09:00:00.000Z');
+  });
+
+  it('does not re-arm a completed reminder on update', async () => {
+    mockQuery.mockResolvedValue({ rows: [reminderRow({ is_completed: true })] });
+
+    await callRoute(router, 'put', '/:id', { params: { id: 'rem-1' }, body: { title: 'Take Metformin 500mg' } });
+
+    expect(mockScheduler.schedule).not.toHaveBeenCalled();
+  });
+
+  it('cancels the job when a reminder is completed or deleted', async () => {
+    mockQuery.mockResolvedValue({ rows: [reminderRow()] });
+
+    await callRoute(router, 'patch', '/:id/complete', { params: { id: 'rem-1' } });
+    await callRoute(router, 'delete', '/:id', { params: { id: 'rem-1' } });
+
+    expect(mockScheduler.cancel.mock.calls).toEqual([['rem-1'], ['rem-1']]);
+  });
+
+  it('keeps the job when the reminder to delete is not found', async () => {
+    mockQuery.mockResolvedValue({ rows: [] });
+
+    const response = await callRoute(router, 'delete', '/:id', { params: { id: 'rem-other' } });
+
+    expect(response.status).toBe(404);
+    expect(mockScheduler.cancel).not.toHaveBeenCalled();
+  });
+});
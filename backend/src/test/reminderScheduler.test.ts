@@ -0,0 +1,150 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import schedule from 'node-schedule';
+import { query } from '../config/database';
+import { MemoryNotifier, ReminderNotifier } from '../services/reminderNotifier';
+import { ReminderScheduler } from '../services/reminderScheduler';
+
+jest.mock('../config/database', () => ({ query: jest.fn() }));
+jest.mock('../utils/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+const mockQuery = jest.mocked(query);
+
+const NOW = new Date('2024-01-10T08:00:00Z');
+const AT_NINE = new Date('2024-01-10T09:00:00Z');
+const AT_TEN = new Date('2024-01-10T10:00:00Z');
+
+const pendingRow = (id: string, reminderDate: Date) => ({
+  id,
+  patient_id: 'patient-1',
+  patient_name: 'Asha Rao',
+  user_email: 'asha@example.com',
+  title: 'Take Metformin',
+  description: 'After breakfast',
+  reminder_type: 'medication',
+  reminder_date: reminderDate
+});
+
+// Answers the pending-reminder lookup with `rows` and the mark-as-sent update with nothing
+const databaseWith = (rows: ReturnType<typeof pendingRow>[]) => {
+  mockQuery.mockImplementation(async (text: string, params?: unknown[]) => {
+    const matching = text.includes('r.id = $1') ? rows.filter(row => row.id === params?.[0]) : rows;
+    return { rows: text.startsWith('UPDATE') ? [] : matching };
+  });
+};
+
+// Lets the notifier and database promises started by a timer settle
+const flush = async () => {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+const sentUpdates = () => mockQuery.mock.calls.filter(([text]) => text.startsWith('UPDATE reminders'));
+
+describe('ReminderScheduler', () => {
+  let notifier: MemoryNotifier;
+  let scheduler: ReminderScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    mockQuery.mockReset();
+    notifier = new MemoryNotifier();
+    scheduler = new ReminderScheduler(notifier);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  it('sends a reminder at its time and marks it sent', async () => {
+    databaseWith([pendingRow('rem-1', AT_NINE)]);
+
+    scheduler.schedule('rem-1', AT_NINE);
+    expect(scheduler.isScheduled('rem-1')).toBe(true);
+
+    jest.advanceTimersByTime(59 * 60 * 1000);
+    await flush();
+    expect(notifier.sent).toHaveLength(0);
+
+    jest.advanceTimersByTime(60 * 1000);
+    await flush();
+
+    expect(notifier.sent).toEqual([{
+      reminderId: 'rem-1',
+      patientId: 'patient-1',
+      patientName: 'Asha Rao',
+      recipientEmail: 'asha@example.com',
+      title: 'Take Metformin',
+      description: 'After breakfast',
+      reminderType: 'medication',
+      reminderDate: AT_NINE
+    }]);
+    expect(sentUpdates()).toEqual([[expect.any(String), ['rem-1']]]);
+    expect(scheduler.isScheduled('rem-1')).toBe(false);
+  });
+
+  it('moves the job when a reminder is re-scheduled', async () => {
+    databaseWith([pendingRow('rem-1', AT_TEN)]);
+
+    scheduler.schedule('rem-1', AT_NINE);
+    scheduler.schedule('rem-1', AT_TEN);
+
+    expect(scheduler.scheduledCount).toBe(1);
+    expect(schedule.scheduledJobs['reminder:rem-1'].nextInvocation()?.getTime()).toBe(AT_TEN.getTime());
+
+    jest.advanceTimersByTime(90 * 60 * 1000);
+    await flush();
+    expect(notifier.sent).toHaveLength(0);
+
+    jest.advanceTimersByTime(30 * 60 * 1000);
+    await flush();
+    expect(notifier.sent).toHaveLength(1);
+  });
+
+  it('does not send a cancelled reminder', async () => {
+    databaseWith([pendingRow('rem-1', AT_NINE)]);
+
+    scheduler.schedule('rem-1', AT_NINE);
+    scheduler.cancel('rem-1');
+
+    expect(scheduler.isScheduled('rem-1')).toBe(false);
+
+    jest.advanceTimersByTime(2 * 60 * 60 * 1000);
+    await flush();
+    expect(mockQuery).not.toHaveBeenCalled();
+    expect(notifier.sent).toHaveLength(0);
+  });
+
+  it('sends overdue reminders straight away and skips ones completed since scheduling', async () => {
+    databaseWith([pendingRow('rem-overdue', new Date('2024-01-10T07:00:00Z'))]);
+
+    scheduler.schedule('rem-overdue', '2024-01-10T07:00:00Z');
+    scheduler.schedule('rem-completed', '2024-01-10T07:30:00Z');
+    await flush();
+
+    expect(notifier.sent.map(notification => notification.reminderId)).toEqual(['rem-overdue']);
+    expect(scheduler.scheduledCount).toBe(0);
+  });
+
+  it('re-arms every pending reminder on start', async () => {
+    databaseWith([pendingRow('rem-1', AT_NINE), pendingRow('rem-2', AT_TEN)]);
+
+    await scheduler.start();
+
+    expect(scheduler.isScheduled('rem-1')).toBe(true);
+    expect(scheduler.isScheduled('rem-2')).toBe(true);
+  });
+
+  it('leaves a reminder unsent when the notifier fails', async () => {
+    databaseWith([pendingRow('rem-1', AT_NINE)]);
+    const failing: ReminderNotifier = {
+      name: 'failing',
+      send: jest.fn<ReminderNotifier['send']>(async () => {
+        throw new Error('SMTP unavailable');
+      })
+    };
+
+    await expect(new ReminderScheduler(failing).fire('rem-1')).resolves.toBe(false);
+    expect(failing.send).toHaveBeenCalledTimes(1);
+    expect(sentUpdates()).toHaveLength(0);
+  });
+});
@@ -21,10 +21,24 @@ export interface Session {
   device_info?: string;
   ip_address?: string;
   expires_at: Date;
+  refresh_expires_at?: Date;
+  last_used_at?: Date;
+  revoked_at?: Date;
+  revoked_reason?: string;
   created_at: Date;
   is_active: boolean;
 }
 
+export interface RefreshToken {
+  id: string;
+  session_id: string;
+  token_hash: string;
+  expires_at: Date;
+  used_at?: Date;
+  revoked_at?: Date;
+  created_at: Date;
+}
+
 export interface Doctor {
   id: string;
   name: string;
@@ -53,6 +67,7 @@ export interface Patient {
   emergency_contact_name?: string;
   emergency_contact_phone?: string;
   primary_doctor_id?: string;
+  household_id?: string;
   avatar_url?: string;
   medical_history?: string;
   allergies?: string;
@@ -62,6 +77,26 @@ export interface Patient {
   updated_at: Date;
 }
 
+export type HouseholdRole = 'owner' | 'caregiver' | 'viewer';
+
+export interface Household {
+  id: string;
+  name: string;
+  created_by?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface HouseholdMember {
+  id: string;
+  household_id: string;
+  user_id: string;
+  role: HouseholdRole;
+  patient_ids?: string[] | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface PatientHospitalId {
   id: string;
   patient_id: string;
@@ -127,6 +162,7 @@ export interface Medication {
   prescribed_by?: string;
   instructions?: string;
   is_active: boolean;
+  discontinued_reason?: string;
   created_at: Date;
   updated_at: Date;
 }
@@ -150,6 +186,7 @@ export interface AuditLog {
   action: string;
   table_name?: string;
   record_id?: string;
+  patient_id?: string;
   old_values?: any;
   new_values?: any;
   ip_address?: string;
@@ -178,6 +215,8 @@ export interface AuthResponse {
   success: boolean;
   user?: Omit<User, 'password_hash'>;
   token?: string;
+  refreshToken?: string;
+  sessionId?: string;
   message?: string;
 }
 
@@ -216,6 +255,28 @@ export interface MedicalRecordQueryParams extends PaginationParams {
   severity?: string;
 }
 
+export interface MedicationQueryParams extends PaginationParams {
+  patient_id: string;
+  active?: string;
+}
+
+export interface ReminderQueryParams extends PaginationParams {
+  patient_id?: string;
+  completed?: string;
+  date_from?: string;
+  date_to?: string;
+}
+
+export interface AuditLogQueryParams extends PaginationParams {
+  patient_id?: string;
+  user_id?: string;
+  action?: string;
+  table_name?: string;
+  field?: string;
+  date_from?: string;
+  date_to?: string;
+}
+
 export interface AppointmentQueryParams extends PaginationParams {
   patient_id?: string;
   doctor_id?: string;
@@ -0,0 +1,80 @@
+import { PoolClient } from 'pg';
+import { query } from '../config/database';
+import { logger } from './logger';
+
+export interface AuditEntry {
+  userId?: string;
+  action: string;
+  tableName: string;
+  recordId: string;
+  patientId?: string;
+  oldValues?: any;
+  newValues?: any;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Persist an audit event to audit_logs, inside the caller's transaction when one is given
+export const writeAuditLog = async (entry: AuditEntry, client?: PoolClient): Promise<void> => {
+  const insertQuery = `
+    INSERT INTO audit_logs (
+      user_id, action, table_name, record_id, patient_id, old_values, new_values, ip_address, user_agent
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+  `;
+
+  const params = [
+    entry.userId || null,
+    entry.action,
+    entry.tableName,
+    entry.recordId,
+    entry.patientId || null,
+    entry.oldValues ? JSON.stringify(entry.oldValues) : null,
+    entry.newValues ? JSON.stringify(entry.newValues) : null,
+    entry.ipAddress || null,
+    entry.userAgent || null
+  ];
+
+  if (client) {
+    await client.query(insertQuery, params);
+  } else {
+    await query(insertQuery, params);
+  }
+
+  logger.info('Audit event recorded', {
+    action: entry.action,
+    tableName: entry.tableName,
+    recordId: entry.recordId,
+    userId: entry.userId
+  });
+};
+
+// Bookkeeping columns that change on every write and only add noise to a diff
+const IGNORED_DIFF_FIELDS = ['created_at', 'updated_at'];
+
+const comparable = (value: any): string =>
+  JSON.stringify(value instanceof Date ? value.toISOString() : value ?? null);
+
+/**
+ * Reduce a before/after pair of rows to the columns that actually changed.
+ * Returns null when nothing changed so callers can skip the audit entry.
+ */
+export const diffValues = (
+  before: Record<string, any>,
+  after: Record<string, any>
+): { oldValues: Record<string, any>; newValues: Record<string, any> } | null => {
+  const oldValues: Record<string, any> = {};
+  const newValues: Record<string, any> = {};
+
+  Object.keys(after).forEach(field => {
+    if (IGNORED_DIFF_FIELDS.includes(field)) {
+      return;
+    }
+
+    if (comparable(before[field]) !== comparable(after[field])) {
+      oldValues[field] = before[field] ?? null;
+      newValues[field] = after[field] ?? null;
+    }
+  });
+
+  return Object.keys(newValues).length > 0 ? { oldValues, newValues } : null;
+};
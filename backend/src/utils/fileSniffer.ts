@@ -0,0 +1,72 @@
+import { Document } from '../types';
+
+export interface SniffedFileType {
+  fileType: Document['file_type'];
+  mimeType: string;
+}
+
+const startsWith = (buffer: Buffer, signature: number[], offset = 0): boolean =>
+  buffer.length >= offset + signature.length &&
+  signature.every((byte, i) => buffer[offset + i] === byte);
+
+const PDF = [0x25, 0x50, 0x44, 0x46, 0x2d]; // %PDF-
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JPEG = [0xff, 0xd8, 0xff];
+const OLE2 = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]; // legacy .doc container
+const ZIP = [0x50, 0x4b, 0x03, 0x04]; // .docx container
+
+/**
+ * Identify an uploaded file from its leading bytes rather than its name or the
+ * client-supplied MIME type. Returns null for anything outside the types the
+ * documents table accepts.
+ */
+export const sniffFileType = (buffer: Buffer, originalName = ''): SniffedFileType | null => {
+  if (startsWith(buffer, PDF)) {
+    return { fileType: 'pdf', mimeType: 'application/pdf' };
+  }
+
+  if (startsWith(buffer, PNG)) {
+    return { fileType: 'png', mimeType: 'image/png' };
+  }
+
+  if (startsWith(buffer, JPEG)) {
+    const fileType = originalName.toLowerCase().endsWith('.jpeg') ? 'jpeg' : 'jpg';
+    return { fileType, mimeType: 'image/jpeg' };
+  }
+
+  if (startsWith(buffer, OLE2)) {
+    return { fileType: 'doc', mimeType: 'application/msword' };
+  }
+
+  // A .docx is a zip archive with a word/ part; other zips are rejected
+  if (startsWith(buffer, ZIP) && buffer.includes('word/')) {
+    return {
+      fileType: 'docx',
+      mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    };
+  }
+
+  return null;
+};
+
+// Extensions that belong to the same sniffed family
+const EXTENSION_FAMILIES: Record<Document['file_type'], string[]> = {
+  pdf: ['pdf'],
+  png: ['png'],
+  jpg: ['jpg', 'jpeg'],
+  jpeg: ['jpg', 'jpeg'],
+  doc: ['doc'],
+  docx: ['docx']
+};
+
+// Reject files whose extension claims a different allowed type than their content
+export const extensionMatches = (originalName: string, sniffed: SniffedFileType): boolean => {
+  const extension = originalName.includes('.') ? originalName.split('.').pop()!.toLowerCase() : '';
+  const knownExtensions = Object.values(EXTENSION_FAMILIES).flat();
+
+  if (!knownExtensions.includes(extension)) {
+    return true;
+  }
+
+  return EXTENSION_FAMILIES[sniffed.fileType].includes(extension);
+};
@@ -0,0 +1,65 @@
+import { query } from '../config/database';
+import { HouseholdRole } from '../types';
+
+/**
+ * read   - view the patient and everything attached to it
+ * write  - create/update/delete records, medications, appointments, reminders
+ * manage - delete the patient itself
+ */
+export type PatientAccessLevel = 'read' | 'write' | 'manage';
+
+const ROLES_FOR_LEVEL: Record<PatientAccessLevel, HouseholdRole[]> = {
+  read: ['owner', 'caregiver', 'viewer'],
+  write: ['owner', 'caregiver'],
+  manage: ['owner']
+};
+
+/**
+ * SQL condition granting access to the patient row aliased as `patientAlias`.
+ * The creating user always has full access; household members get the access
+ * of their role, limited to their patient_ids when that list is set.
+ * `userParam` is the placeholder holding the user ID (e.g. '$2').
+ */
+export const patientAccessCondition = (
+  patientAlias: string,
+  userParam: string,
+  level: PatientAccessLevel = 'read'
+): string => {
+  const roles = ROLES_FOR_LEVEL[level].map(role => `'${role}'`).join(', ');
+
+  return `(
+    ${patientAlias}.user_id = ${userParam}
+    OR EXISTS (
+      SELECT 1 FROM household_members hm
+      WHERE hm.household_id = ${patientAlias}.household_id
+        AND hm.user_id = ${userParam}
+        AND hm.role IN (${roles})
+        AND (hm.patient_ids IS NULL OR ${patientAlias}.id = ANY(hm.patient_ids))
+    )
+  )`;
+};
+
+// The caller's role for the patient row aliased as `patientAlias`, as a SELECT expression
+export const patientAccessRoleColumn = (patientAlias: string, userParam: string): string => `
+  CASE WHEN ${patientAlias}.user_id = ${userParam} THEN 'owner' ELSE (
+    SELECT hm.role FROM household_members hm
+    WHERE hm.household_id = ${patientAlias}.household_id
+      AND hm.user_id = ${userParam}
+      AND (hm.patient_ids IS NULL OR ${patientAlias}.id = ANY(hm.patient_ids))
+    LIMIT 1
+  ) END
+`;
+
+// Check that a user may access an active patient at the given level
+export const canAccessPatient = async (
+  patientId: string,
+  userId: string,
+  level: PatientAccessLevel = 'read'
+): Promise<boolean> => {
+  const result = await query(
+    `SELECT p.id FROM patients p
+     WHERE p.id = $1 AND p.is_active = true AND ${patientAccessCondition('p', '$2', level)}`,
+    [patientId, userId]
+  );
+  return result.rows.length > 0;
+};
@@ -6,6 +6,10 @@ import HealthInsights from './HealthInsights';
 import CurrentMedications from './CurrentMedications';
 import { EyeCareModule } from './EyeCareModule';
 import ProfessionalDiabetesModule from './ProfessionalDiabetesModule';
+import ProfessionalHypertensionModule from './ProfessionalHypertensionModule';
+import { AllergiesModule } from './AllergiesModule';
+import { MedicationAdherence } from './MedicationAdherence';
+import { MedicationStock } from './MedicationStock';
 
 interface DashboardProps {
   patient: Patient;
@@ -430,6 +434,27 @@ const AccessibleDashboard: React.FC<DashboardProps> = ({
               Diabetes
             </button>
 
+            <button
+              onClick={() => {
+                const element = document.getElementById('hypertension-section');
+                element?.scrollIntoView({ behavior: 'smooth' });
+                element?.focus();
+                announceToScreenReader('Navigated to hypertension management section');
+              }}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-all ${
+                focusedWidget === 'hypertension'
+                  ? 'bg-blue-100 text-blue-800 border-2 border-blue-400'
+                  : 'bg-gray-100 text-gray-700 border-2 border-transparent hover:bg-gray-200'
+              }`}
+              onFocus={() => setFocusedWidget('hypertension')}
+              onBlur={() => setFocusedWidget(null)}
+            >
+              <span className='material-symbols-outlined' aria-hidden='true'>
+                blood_pressure
+              </span>
+              Blood Pressure
+            </button>
+
             <button
               onClick={() => {
                 const element = document.getElementById('ai-assistant-section');
@@ -672,6 +697,51 @@ const AccessibleDashboard: React.FC<DashboardProps> = ({
 
         {/* Specialized Modules */}
         <div className='grid grid-cols-1 lg:grid-cols-2 gap-6'>
+          {/* Allergies Module */}
+          <section
+            id='allergies-section'
+            aria-labelledby='allergies-heading'
+            onFocus={() => handleSectionFocus('allergies')}
+            tabIndex={-1}
+          >
+            <h2 id='allergies-heading' className='text-xl font-semibold mb-4'>
+              Allergies
+            </h2>
+            <div className='bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 focus-within:ring-2 focus-within:ring-primary-500 focus-within:outline-none'>
+              <AllergiesModule patientId={patient.id} />
+            </div>
+          </section>
+
+          {/* Adherence Module */}
+          <section
+            id='adherence-section'
+            aria-labelledby='adherence-heading'
+            onFocus={() => handleSectionFocus('adherence')}
+            tabIndex={-1}
+          >
+            <h2 id='adherence-heading' className='text-xl font-semibold mb-4'>
+              Medication Adherence
+            </h2>
+            <div className='bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 focus-within:ring-2 focus-within:ring-primary-500 focus-within:outline-none'>
+              <MedicationAdherence patientId={patient.id} />
+            </div>
+          </section>
+
+          {/* Pill Stock Module */}
+          <section
+            id='pill-stock-section'
+            aria-labelledby='pill-stock-heading'
+            onFocus={() => handleSectionFocus('pill stock')}
+            tabIndex={-1}
+          >
+            <h2 id='pill-stock-heading' className='text-xl font-semibold mb-4'>
+              Pill Stock
+            </h2>
+            <div className='bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 focus-within:ring-2 focus-within:ring-primary-500 focus-within:outline-none'>
+              <MedicationStock patientId={patient.id} />
+            </div>
+          </section>
+
           {/* Eye Care Module */}
           <section
             id='eye-care-section'
@@ -707,6 +777,21 @@ const AccessibleDashboard: React.FC<DashboardProps> = ({
               <ProfessionalDiabetesModule patientId={patient.id} />
             </div>
           </section>
+
+          {/* Hypertension Module */}
+          <section
+            id='hypertension-section'
+            aria-labelledby='hypertension-heading'
+            onFocus={() => handleSectionFocus('hypertension')}
+            tabIndex={-1}
+          >
+            <h2 id='hypertension-heading' className='text-xl font-semibold mb-4'>
+              Hypertension Management
+            </h2>
+            <div className='bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 focus-within:ring-2 focus-within:ring-primary-500 focus-within:outline-none'>
+              <ProfessionalHypertensionModule patientId={patient.id} />
+            </div>
+          </section>
         </div>
 
         {/* AI Assistant */}
@@ -0,0 +1,176 @@
+import React from 'react';
+import {
+  AGP_TARGETS,
+  AGP_THRESHOLDS,
+  type AgpHourBin,
+  type AgpReport as AgpReportData,
+  type GlucoseRangeShares,
+} from '../services/agpService';
+
+interface AgpReportProps {
+  report: AgpReportData;
+}
+
+export const RANGE_BANDS: { key: keyof GlucoseRangeShares; label: string; target: string; color: string }[] = [
+  { key: 'veryHigh', label: 'Very high (>250)', target: `<${AGP_TARGETS.veryHigh}%`, color: '#f97316' },
+  { key: 'high', label: 'High (181-250)', target: `<${AGP_TARGETS.high}%`, color: '#facc15' },
+  { key: 'inRange', label: 'In range (70-180)', target: `>${AGP_TARGETS.inRange}%`, color: '#22c55e' },
+  { key: 'low', label: 'Low (54-69)', target: `<${AGP_TARGETS.low}%`, color: '#ef4444' },
+  { key: 'veryLow', label: 'Very low (<54)', target: `<${AGP_TARGETS.veryLow}%`, color: '#991b1b' },
+];
+
+const CHART = { width: 720, height: 260, left: 40, right: 10, top: 10, bottom: 24, max: 350 };
+
+const x = (hour: number) => CHART.left + (hour / 24) * (CHART.width - CHART.left - CHART.right);
+const y = (value: number) =>
+  CHART.top + (1 - Math.min(value, CHART.max) / CHART.max) * (CHART.height - CHART.top - CHART.bottom);
+
+// A band between two percentiles, drawn through the middle of each hour
+const bandPath = (profile: AgpHourBin[], lower: keyof AgpHourBin, upper: keyof AgpHourBin) => {
+  const top = profile.map(bin => `${x(bin.hour + 0.5)},${y(bin[upper])}`);
+  const bottom = [...profile].reverse().map(bin => `${x(bin.hour + 0.5)},${y(bin[lower])}`);
+  return `M${[...top, ...bottom].join(' L')} Z`;
+};
+
+const AgpChart: React.FC<{ profile: AgpHourBin[] }> = ({ profile }) => (
+  <svg
+    viewBox={`0 0 ${CHART.width} ${CHART.height}`}
+    className='w-full h-auto'
+    role='img'
+    aria-label='Ambulatory glucose profile: glucose percentiles by time of day'
+  >
+    <rect
+      x={x(0)}
+      y={y(AGP_THRESHOLDS.high)}
+      width={x(24) - x(0)}
+      height={y(AGP_THRESHOLDS.low) - y(AGP_THRESHOLDS.high)}
+      fill='#dcfce7'
+    />
+    {[54, 70, 180, 250].map(value => (
+      <g key={value}>
+        <line x1={x(0)} x2={x(24)} y1={y(value)} y2={y(value)} stroke={value === 70 || value === 180 ? '#16a34a' : '#d1d5db'} strokeDasharray={value === 70 || value === 180 ? undefined : '4 4'} />
+        <text x={CHART.left - 4} y={y(value) + 4} textAnchor='end' fontSize='10' fill='#6b7280'>{value}</text>
+      </g>
+    ))}
+    {[0, 3, 6, 9, 12, 15, 18, 21, 24].map(hour => (
+      <text key={hour} x={x(hour)} y={CHART.height - 6} textAnchor='middle' fontSize='10' fill='#6b7280'>
+        {hour === 0 || hour === 24 ? '12am' : hour === 12 ? '12pm' : hour < 12 ? `${hour}am` : `${hour - 12}pm`}
+      </text>
+    ))}
+    {profile.length > 1 && (
+      <>
+        <path d={bandPath(profile, 'p5', 'p95')} fill='#93c5fd' fillOpacity='0.35' />
+        <path d={bandPath(profile, 'p25', 'p75')} fill='#3b82f6' fillOpacity='0.45' />
+        <polyline
+          points={profile.map(bin => `${x(bin.hour + 0.5)},${y(bin.p50)}`).join(' ')}
+          fill='none'
+          stroke='#1e3a8a'
+          strokeWidth='2'
+        />
+      </>
+    )}
+  </svg>
+);
+
+/**
+ * The AGP report: range shares against their targets, glucose statistics,
+ * percentile bands by time of day and low glucose episodes
+ */
+export const AgpReport: React.FC<AgpReportProps> = ({ report }) => {
+  const stats = [
+    { label: 'Mean glucose', value: `${report.mean} mg/dL` },
+    { label: 'GMI', value: `${report.gmi}%`, hint: 'Estimated HbA1c' },
+    {
+      label: 'Variability (CV)',
+      value: `${report.cv}%`,
+      hint: `Target ≤${AGP_TARGETS.cv}%`,
+      alert: report.cv > AGP_TARGETS.cv,
+    },
+    {
+      label: report.sensorActive !== undefined ? 'Sensor active' : 'Readings',
+      value: report.sensorActive !== undefined ? `${report.sensorActive}%` : `${report.readingCount}`,
+      hint: report.sensorActive !== undefined ? `${report.readingCount} readings` : undefined,
+      alert: report.sensorActive !== undefined && report.sensorActive < 70,
+    },
+  ];
+
+  return (
+    <div className='space-y-6'>
+      <div className='text-sm text-gray-600 dark:text-gray-400'>
+        {new Date(report.from).toLocaleDateString()} – {new Date(report.to).toLocaleDateString()} ({report.days} days)
+      </div>
+
+      <div className='grid grid-cols-2 md:grid-cols-4 gap-4'>
+        {stats.map(stat => (
+          <div key={stat.label} className='p-4 rounded-lg border border-gray-200 dark:border-gray-700'>
+            <div className='text-sm text-gray-500 dark:text-gray-400'>{stat.label}</div>
+            <div className={`text-2xl font-bold ${stat.alert ? 'text-orange-600' : 'text-gray-900 dark:text-gray-100'}`}>{stat.value}</div>
+            {stat.hint && <div className='text-xs text-gray-500 dark:text-gray-400'>{stat.hint}</div>}
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <h4 className='font-semibold text-gray-900 dark:text-gray-100 mb-2'>Time in Ranges</h4>
+        <div className='flex h-6 rounded overflow-hidden' role='img' aria-label={`${report.ranges.inRange}% of readings in range`}>
+          {[...RANGE_BANDS].reverse().map(band => (
+            <div key={band.key} style={{ width: `${report.ranges[band.key]}%`, backgroundColor: band.color }} />
+          ))}
+        </div>
+        <table className='w-full mt-3 text-sm'>
+          <tbody>
+            {RANGE_BANDS.map(band => (
+              <tr key={band.key}>
+                <td className='py-1'>
+                  <span className='inline-block w-3 h-3 rounded-sm mr-2 align-middle' style={{ backgroundColor: band.color }} />
+                  {band.label}
+                </td>
+                <td className='py-1 text-right font-semibold'>{report.ranges[band.key]}%</td>
+                <td className='py-1 pl-4 text-right text-gray-500 dark:text-gray-400'>Target {band.target}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h4 className='font-semibold text-gray-900 dark:text-gray-100 mb-2'>Ambulatory Glucose Profile</h4>
+        {report.profile.length > 1 ? (
+          <>
+            <AgpChart profile={report.profile} />
+            <p className='text-xs text-gray-500 dark:text-gray-400 mt-1'>
+              Line: median. Dark band: 25th–75th percentile. Light band: 5th–95th percentile. Green: 70–180 mg/dL target range.
+            </p>
+          </>
+        ) : (
+          <p className='text-sm text-gray-500 dark:text-gray-400'>
+            Not enough readings across the day for a profile. Import CGM data to see one.
+          </p>
+        )}
+      </div>
+
+      <div>
+        <h4 className='font-semibold text-gray-900 dark:text-gray-100 mb-2'>
+          Low Glucose Episodes ({report.episodes.length})
+        </h4>
+        {report.episodes.length === 0 ? (
+          <p className='text-sm text-gray-500 dark:text-gray-400'>No readings below 70 mg/dL in this period.</p>
+        ) : (
+          <ul className='space-y-1 text-sm'>
+            {report.episodes.map(episode => (
+              <li key={`${episode.date}T${episode.time}`} className='flex justify-between'>
+                <span>
+                  {new Date(episode.date).toLocaleDateString()} {episode.time}
+                  {episode.durationMinutes !== undefined && ` • ${episode.durationMinutes} min`}
+                </span>
+                <span className={episode.level === 2 ? 'text-red-700 font-semibold' : 'text-red-500'}>
+                  Lowest {episode.nadir} mg/dL (level {episode.level})
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
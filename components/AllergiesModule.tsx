@@ -0,0 +1,215 @@
+import React, { useMemo, useState } from 'react';
+import { useSecureHealthStore } from '../stores/useSecureHealthStore';
+import type { AllergyRecord } from '../types';
+import { DRUG_CLASSES, SEVERITY_LABELS, detectDrugClass, getPatientAllergies } from '../services/allergyService';
+
+interface AllergiesModuleProps {
+  patientId: string;
+}
+
+const SEVERITY_STYLES: Record<AllergyRecord['severity'], string> = {
+  mild: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200',
+  moderate: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-200',
+  severe: 'bg-red-600 text-white',
+  unknown: 'bg-gray-200 text-gray-700 dark:bg-gray-600 dark:text-gray-200',
+};
+
+const CATEGORY_LABELS: Record<AllergyRecord['category'], string> = {
+  drug: 'Medication',
+  food: 'Food',
+  environmental: 'Environmental',
+  other: 'Other',
+};
+
+const isLegacy = (allergy: AllergyRecord) => allergy.id.startsWith('allergy-legacy-');
+
+export const AllergiesModule: React.FC<AllergiesModuleProps> = ({ patientId }) => {
+  const { theme, patients, addAllergy, deleteAllergy } = useSecureHealthStore();
+  const patient = patients.find(p => p.id === patientId);
+
+  const [showForm, setShowForm] = useState(false);
+  // Prefilled when adding details to a free-text allergy
+  const [draft, setDraft] = useState<Partial<AllergyRecord>>({});
+  const [substance, setSubstance] = useState('');
+  const [formKey, setFormKey] = useState(0);
+
+  const isDark = theme === 'dark';
+  const allergies = useMemo(() => (patient ? getPatientAllergies(patient) : []), [patient]);
+  const detectedClass = substance ? detectDrugClass(substance) : undefined;
+
+  const openForm = (prefill: Partial<AllergyRecord> = {}) => {
+    setDraft(prefill);
+    setSubstance(prefill.substance || '');
+    setFormKey(formKey + 1);
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const category = formData.get('category') as AllergyRecord['category'];
+
+    await addAllergy(patientId, {
+      substance,
+      category,
+      drugClass: category === 'drug' ? (formData.get('drugClass') as string) || undefined : undefined,
+      reaction: formData.get('reaction') as string || undefined,
+      severity: formData.get('severity') as AllergyRecord['severity'],
+      verification: formData.get('verification') as AllergyRecord['verification'],
+      onsetDate: formData.get('onsetDate') as string || undefined,
+      notes: formData.get('notes') as string || undefined,
+    });
+    setShowForm(false);
+    setDraft({});
+    setSubstance('');
+  };
+
+  if (!patient) return null;
+
+  return (
+    <div className={`p-6 rounded-lg ${isDark ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'}`}>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold flex items-center gap-2">
+          <span className="material-symbols-outlined">allergy</span>
+          Allergies
+        </h2>
+        <button
+          onClick={() => (showForm ? setShowForm(false) : openForm())}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 flex items-center gap-2"
+        >
+          <span className="material-symbols-outlined">add</span>
+          Add Allergy
+        </button>
+      </div>
+
+      {showForm && (
+        <form key={formKey} onSubmit={handleSubmit} className={`mb-6 p-4 rounded-lg ${isDark ? 'bg-gray-700' : 'bg-gray-50'}`}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="allergy-substance" className="block mb-2 font-medium">Substance</label>
+              <input
+                id="allergy-substance"
+                type="text"
+                name="substance"
+                required
+                value={substance}
+                onChange={e => setSubstance(e.target.value)}
+                placeholder="e.g., Penicillin, Peanuts"
+                className="w-full p-2 rounded border dark:bg-gray-800"
+              />
+            </div>
+            <div>
+              <label htmlFor="allergy-category" className="block mb-2 font-medium">Type</label>
+              <select id="allergy-category" name="category" defaultValue={draft.category || 'drug'} className="w-full p-2 rounded border dark:bg-gray-800">
+                {Object.entries(CATEGORY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="allergy-class" className="block mb-2 font-medium">Drug class</label>
+              <select
+                id="allergy-class"
+                name="drugClass"
+                key={detectedClass?.key}
+                defaultValue={draft.drugClass || detectedClass?.key || ''}
+                className="w-full p-2 rounded border dark:bg-gray-800"
+              >
+                <option value="">Not in a listed class</option>
+                {DRUG_CLASSES.map(drugClass => (
+                  <option key={drugClass.key} value={drugClass.key}>{drugClass.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="allergy-reaction" className="block mb-2 font-medium">Reaction</label>
+              <input id="allergy-reaction" type="text" name="reaction" defaultValue={draft.reaction} placeholder="e.g., Hives, Anaphylaxis" className="w-full p-2 rounded border dark:bg-gray-800" />
+            </div>
+            <div>
+              <label htmlFor="allergy-severity" className="block mb-2 font-medium">Severity</label>
+              <select id="allergy-severity" name="severity" defaultValue={draft.severity || 'moderate'} className="w-full p-2 rounded border dark:bg-gray-800">
+                {Object.entries(SEVERITY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="allergy-verification" className="block mb-2 font-medium">Source</label>
+              <select id="allergy-verification" name="verification" defaultValue={draft.verification || 'self-reported'} className="w-full p-2 rounded border dark:bg-gray-800">
+                <option value="self-reported">Self-reported</option>
+                <option value="verified">Verified by a clinician</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="allergy-onset" className="block mb-2 font-medium">First reaction</label>
+              <input id="allergy-onset" type="date" name="onsetDate" className="w-full p-2 rounded border dark:bg-gray-800" />
+            </div>
+            <div>
+              <label htmlFor="allergy-notes" className="block mb-2 font-medium">Notes</label>
+              <input id="allergy-notes" type="text" name="notes" className="w-full p-2 rounded border dark:bg-gray-800" />
+            </div>
+          </div>
+          <div className="flex gap-2 mt-4">
+            <button type="submit" className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600">
+              Save Allergy
+            </button>
+            <button type="button" onClick={() => setShowForm(false)} className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {allergies.length === 0 ? (
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">No known allergies recorded.</p>
+      ) : (
+        <div className="space-y-3">
+          {allergies.map(allergy => {
+            const drugClass = DRUG_CLASSES.find(c => c.key === allergy.drugClass);
+            return (
+              <div key={allergy.id} className={`p-4 rounded-lg border flex justify-between items-start ${isDark ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'}`}>
+                <div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold text-lg">{allergy.substance}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[allergy.severity]}`}>
+                      {SEVERITY_LABELS[allergy.severity]}
+                    </span>
+                    <span className="text-xs px-2 py-0.5 rounded bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+                      {allergy.verification === 'verified' ? 'Verified' : 'Self-reported'}
+                    </span>
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                    {[
+                      CATEGORY_LABELS[allergy.category],
+                      drugClass?.label,
+                      allergy.reaction && `Reaction: ${allergy.reaction}`,
+                      allergy.onsetDate && `Since ${new Date(allergy.onsetDate).toLocaleDateString()}`,
+                      allergy.notes,
+                    ].filter(Boolean).join(' • ')}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  {isLegacy(allergy) && (
+                    <button
+                      onClick={() => openForm({ substance: allergy.substance, category: allergy.category, drugClass: allergy.drugClass })}
+                      className="text-sm text-blue-600 hover:underline"
+                    >
+                      Add details
+                    </button>
+                  )}
+                  <button
+                    onClick={() => deleteAllergy(patientId, allergy.id)}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={`Delete ${allergy.substance} allergy`}
+                  >
+                    <span className="material-symbols-outlined text-base">delete</span>
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
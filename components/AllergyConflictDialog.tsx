@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { SEVERITY_LABELS, type AllergyConflict } from '../services/allergyService';
+
+interface AllergyConflictDialogProps {
+  conflicts: AllergyConflict[];
+  onOverride: (reason: string) => void;
+  onCancel: () => void;
+}
+
+const MATCH_LABELS: Record<AllergyConflict['match'], string> = {
+  'same-drug': 'Same drug',
+  'same-class': 'Same drug class',
+  'cross-reactive': 'Possible cross-reaction',
+};
+
+/**
+ * Blocks saving medications that conflict with a recorded allergy until the
+ * user gives a reason for prescribing them anyway
+ */
+export const AllergyConflictDialog: React.FC<AllergyConflictDialogProps> = ({ conflicts, onOverride, onCancel }) => {
+  const [reason, setReason] = useState('');
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4 z-[60]">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="allergy-conflict-title"
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-lg p-6 text-gray-900 dark:text-gray-100"
+      >
+        <h2 id="allergy-conflict-title" className="text-xl font-bold flex items-center gap-2 text-red-700 dark:text-red-400">
+          <span className="material-symbols-outlined">warning</span>
+          Allergy warning
+        </h2>
+        <ul className="mt-4 space-y-3">
+          {conflicts.map((conflict, index) => (
+            <li
+              key={`${conflict.medicationName}-${conflict.allergy.id}-${index}`}
+              className={`p-3 rounded-lg border ${
+                conflict.risk === 'high'
+                  ? 'border-red-300 bg-red-50 dark:border-red-800 dark:bg-red-900/20'
+                  : 'border-orange-300 bg-orange-50 dark:border-orange-800 dark:bg-orange-900/20'
+              }`}
+            >
+              <div className="flex justify-between items-baseline gap-2">
+                <span className="font-semibold">{conflict.medicationName}</span>
+                <span className="text-xs font-medium">{MATCH_LABELS[conflict.match]}</span>
+              </div>
+              <p className="text-sm mt-1">{conflict.message}</p>
+              <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                {conflict.allergy.substance}: {SEVERITY_LABELS[conflict.allergy.severity].toLowerCase()}
+                {conflict.allergy.reaction && `, ${conflict.allergy.reaction}`}
+                {` (${conflict.allergy.verification === 'verified' ? 'verified' : 'self-reported'})`}
+              </p>
+            </li>
+          ))}
+        </ul>
+
+        <label htmlFor="allergy-override-reason" className="block mt-4 mb-2 font-medium text-sm">
+          Reason for prescribing anyway
+        </label>
+        <textarea
+          id="allergy-override-reason"
+          value={reason}
+          onChange={e => setReason(e.target.value)}
+          rows={3}
+          placeholder="e.g., Tolerated cefalexin in 2022 under supervision"
+          className="w-full p-2 rounded border dark:bg-gray-700 dark:border-gray-600"
+        />
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">The reason is saved with the medication.</p>
+
+        <div className="flex justify-end gap-2 mt-4">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Go back
+          </button>
+          <button
+            type="button"
+            disabled={!reason.trim()}
+            onClick={() => onOverride(reason)}
+            className="px-4 py-2 text-sm bg-red-600 hover:bg-red-700 text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Override and save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { Plus, Trash2, AlertCircle, Clock, Pill, Zap, Copy, ChevronDown, ChevronUp, Table, List, Download, Upload, X, User } from 'lucide-react';
-import type { Medication, Doctor } from '../types';
+import type { Medication, Doctor, AllergyRecord } from '../types';
+import { applyAllergyOverride, findUnacknowledgedConflicts, type AllergyConflict } from '../services/allergyService';
+import { AllergyConflictDialog } from './AllergyConflictDialog';
 
 interface BulkMedicationModalProps {
   isOpen: boolean;
@@ -8,6 +10,7 @@ interface BulkMedicationModalProps {
   onSave: (medications: Omit<Medication, 'id'>[]) => void;
   editingMedications?: Medication[];
   doctors?: Doctor[];
+  allergies?: AllergyRecord[];
 }
 
 // Enhanced medication database with combined name+strength format
@@ -112,7 +115,8 @@ const BulkMedicationModal: React.FC<BulkMedicationModalProps> = ({
   onClose,
   onSave,
   editingMedications = [],
-  doctors = []
+  doctors = [],
+  allergies = []
 }) => {
   // Generate doctor options for dropdown with memoization
   const doctorOptions = useMemo(() => {
@@ -164,6 +168,8 @@ const BulkMedicationModal: React.FC<BulkMedicationModalProps> = ({
   const [copiedMedication, setCopiedMedication] = useState<any>(null);
   const [showAutocomplete, setShowAutocomplete] = useState<{ row: number; field: string } | null>(null);
   const [filteredMeds, setFilteredMeds] = useState(MEDICATION_DATABASE);
+  // Allergy conflicts waiting for an override reason before saving
+  const [pendingConflicts, setPendingConflicts] = useState<AllergyConflict[] | null>(null);
   const tableRef = useRef<HTMLDivElement>(null);
 
   function createEmptyMedication(options: typeof doctorOptions) {
@@ -371,9 +377,25 @@ const BulkMedicationModal: React.FC<BulkMedicationModalProps> = ({
       return;
     }
 
+    const conflicts = findUnacknowledgedConflicts(validMedications, allergies);
+    if (conflicts.length > 0) {
+      setPendingConflicts(conflicts);
+      return;
+    }
+
     onSave(validMedications);
     onClose();
-  }, [medications, validateMedications, onSave, onClose]);
+  }, [medications, validateMedications, allergies, onSave, onClose]);
+
+  const handleAllergyOverride = useCallback((reason: string) => {
+    const validMedications = medications.filter(med =>
+      med.name.trim() && med.dosage.trim()
+    );
+
+    setPendingConflicts(null);
+    onSave(applyAllergyOverride(validMedications, allergies, reason));
+    onClose();
+  }, [medications, allergies, onSave, onClose]);
 
   const handleCSVImport = useCallback((e: any) => {
     const file = e.target.files?.[0];
@@ -952,6 +974,14 @@ const BulkMedicationModal: React.FC<BulkMedicationModalProps> = ({
           </div>
         </form>
       </div>
+
+      {pendingConflicts && (
+        <AllergyConflictDialog
+          conflicts={pendingConflicts}
+          onOverride={handleAllergyOverride}
+          onCancel={() => setPendingConflicts(null)}
+        />
+      )}
     </div>
   );
 };
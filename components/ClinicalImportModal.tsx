@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { Patient, Doctor } from '../types';
+import {
+    parseClinicalDocument,
+    previewClinicalImport,
+    applyClinicalImport,
+    type ClinicalImportOptions,
+    type ClinicalImportPreview,
+    type ImportedClinicalData,
+} from '../services/clinicalImportService';
+
+interface ClinicalImportModalProps {
+    isOpen: boolean;
+    patients: Patient[];
+    selectedPatientId: string | null;
+    doctors: Doctor[];
+    onImport: (patient: Patient, isNew: boolean) => void;
+    onClose: () => void;
+}
+
+const NEW_PATIENT = 'new';
+
+const FIELD_LABELS: Record<string, string> = {
+    name: 'Name',
+    dateOfBirth: 'Date of birth',
+    gender: 'Gender',
+    contactInfo: 'Contact details',
+    emergencyContact: 'Emergency contact',
+};
+
+const formatValue = (value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'object') {
+        return Object.values(value as Record<string, unknown>).filter(Boolean).join(', ');
+    }
+    return String(value);
+};
+
+const Section: React.FC<{ title: string; count: number; children: React.ReactNode }> = ({ title, count, children }) => (
+    <div>
+        <h4 className="text-sm font-semibold mb-1">{title} <span className="text-subtle-light dark:text-subtle-dark font-normal">({count})</span></h4>
+        {children}
+    </div>
+);
+
+const ItemList: React.FC<{ added: string[]; existing: string[] }> = ({ added, existing }) => (
+    <ul className="text-sm space-y-0.5">
+        {added.map(item => <li key={`a-${item}`} className="text-green-700 dark:text-green-400">+ {item}</li>)}
+        {existing.map(item => <li key={`e-${item}`} className="text-subtle-light dark:text-subtle-dark">= {item} (already recorded)</li>)}
+    </ul>
+);
+
+const ClinicalImportModal: React.FC<ClinicalImportModalProps> = ({ isOpen, patients, selectedPatientId, doctors, onImport, onClose }) => {
+    const [data, setData] = useState<ImportedClinicalData | null>(null);
+    const [fileName, setFileName] = useState('');
+    const [targetId, setTargetId] = useState<string>(NEW_PATIENT);
+    const [mergeStrategy, setMergeStrategy] = useState<ClinicalImportOptions['mergeStrategy']>('merge-preserve');
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (isOpen) {
+            setData(null);
+            setFileName('');
+            setError(null);
+            setTargetId(selectedPatientId || NEW_PATIENT);
+        }
+    }, [isOpen, selectedPatientId]);
+
+    const target = patients.find(p => p.id === targetId) || null;
+
+    const preview = useMemo<ClinicalImportPreview | string | null>(() => {
+        if (!data) return null;
+        try {
+            return previewClinicalImport(data, target, { mergeStrategy, doctors });
+        } catch (err) {
+            return err instanceof Error ? err.message : 'Could not prepare the import';
+        }
+    }, [data, target, mergeStrategy, doctors]);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        setFileName(file.name);
+        setError(null);
+        try {
+            setData(parseClinicalDocument(await file.text()));
+        } catch (err) {
+            setData(null);
+            setError(err instanceof Error ? err.message : 'Could not read the file');
+        }
+    };
+
+    const handleImport = () => {
+        if (!preview || typeof preview === 'string') return;
+        onImport(applyClinicalImport(preview, target), preview.isNewPatient);
+    };
+
+    if (!isOpen) return null;
+
+    const medicationChanges = preview && typeof preview !== 'string'
+        ? preview.medications.changes.filter(change => change.source === 'import')
+        : [];
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" aria-modal="true" role="dialog">
+            <div className="bg-surface-light dark:bg-surface-dark rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+                <div className="p-4 border-b border-border-light dark:border-border-dark flex justify-between items-center">
+                    <h3 className="text-lg font-semibold">Import Hospital Records</h3>
+                    <button onClick={onClose} aria-label="Close import" className="p-1 rounded-full hover:bg-gray-200 dark:hover:bg-gray-700">
+                        <span className="material-symbols-outlined">close</span>
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4 overflow-y-auto">
+                    <div>
+                        <label htmlFor="clinical-import-file" className="block text-sm font-medium text-subtle-light dark:text-subtle-dark mb-1">FHIR bundle (.json) or C-CDA discharge summary (.xml)</label>
+                        <input id="clinical-import-file" type="file" accept=".json,.xml,application/json,application/fhir+json,text/xml,application/xml" onChange={handleFile} className="w-full text-sm" />
+                        {fileName && !error && data && (
+                            <p className="text-xs text-subtle-light dark:text-subtle-dark mt-1">{fileName}: {data.format === 'fhir' ? 'FHIR bundle' : 'C-CDA document'}{data.patient.name && ` for ${data.patient.name}`}</p>
+                        )}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="clinical-import-target" className="block text-sm font-medium text-subtle-light dark:text-subtle-dark mb-1">Import into</label>
+                            <select id="clinical-import-target" value={targetId} onChange={e => setTargetId(e.target.value)} className="w-full rounded-md border-border-light dark:border-border-dark bg-input-bg-light dark:bg-input-bg-dark text-sm">
+                                <option value={NEW_PATIENT}>New person</option>
+                                {patients.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="clinical-import-strategy" className="block text-sm font-medium text-subtle-light dark:text-subtle-dark mb-1">Personal details</label>
+                            <select id="clinical-import-strategy" value={mergeStrategy} onChange={e => setMergeStrategy(e.target.value as ClinicalImportOptions['mergeStrategy'])} disabled={!target} className="w-full rounded-md border-border-light dark:border-border-dark bg-input-bg-light dark:bg-input-bg-dark text-sm disabled:opacity-50">
+                                <option value="merge-preserve">Keep existing, fill blanks</option>
+                                <option value="merge">Update from document</option>
+                            </select>
+                        </div>
+                    </div>
+
+                    {(error || typeof preview === 'string') && (
+                        <p role="alert" className="text-sm text-red-600">{error || preview}</p>
+                    )}
+
+                    {preview && typeof preview !== 'string' && (
+                        <div className="space-y-4 border-t border-border-light dark:border-border-dark pt-4">
+                            {preview.warnings.length > 0 && (
+                                <ul className="text-sm text-amber-700 dark:text-amber-400 space-y-0.5">
+                                    {preview.warnings.map(warning => <li key={warning}>⚠ {warning}</li>)}
+                                </ul>
+                            )}
+
+                            {preview.demographics.length > 0 && (
+                                <Section title="Personal details" count={preview.demographics.length}>
+                                    <table className="text-sm w-full">
+                                        <tbody>
+                                            {preview.demographics.map(change => (
+                                                <tr key={change.field}>
+                                                    <td className="pr-2 text-subtle-light dark:text-subtle-dark">{FIELD_LABELS[change.field]}</td>
+                                                    <td className="pr-2 line-through text-subtle-light dark:text-subtle-dark">{formatValue(change.current)}</td>
+                                                    <td className="text-green-700 dark:text-green-400">{formatValue(change.imported)}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </Section>
+                            )}
+
+                            <Section title="Visits" count={preview.records.added.length}>
+                                <ItemList
+                                    added={preview.records.added.map(r => `${r.date} ${r.diagnosis || r.complaint || 'Visit'}`)}
+                                    existing={preview.records.existing.map(r => `${r.date} ${r.diagnosis || r.complaint || 'Visit'}`)}
+                                />
+                            </Section>
+
+                            <Section title="Allergies" count={preview.allergies.added.length}>
+                                <ItemList added={preview.allergies.added} existing={preview.allergies.existing} />
+                            </Section>
+
+                            <Section title="Conditions" count={preview.conditions.added.length}>
+                                <ItemList added={preview.conditions.added} existing={preview.conditions.existing} />
+                            </Section>
+
+                            <Section title="Medications" count={preview.medications.summary.added + preview.medications.summary.modified}>
+                                <ul className="text-sm space-y-0.5">
+                                    {medicationChanges.map(change => (
+                                        <li key={change.medication.id} className={change.changeType === 'continued' ? 'text-subtle-light dark:text-subtle-dark' : 'text-green-700 dark:text-green-400'}>
+                                            {change.changeType === 'added' ? '+' : change.changeType === 'modified' ? '~' : '='} {change.medication.name} {change.medication.strength} {change.medication.dosage} {change.medication.frequency}
+                                            {change.previousMedication && <span className="text-subtle-light dark:text-subtle-dark"> (was {change.previousMedication.strength} {change.previousMedication.dosage} {change.previousMedication.frequency})</span>}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </Section>
+                        </div>
+                    )}
+                </div>
+
+                <div className="p-4 border-t border-border-light dark:border-border-dark flex items-center justify-end gap-2 bg-gray-50 dark:bg-gray-800/50 rounded-b-lg">
+                    <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-medium text-subtle-light dark:text-subtle-dark bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors">Cancel</button>
+                    <button type="button" onClick={handleImport} disabled={!preview || typeof preview === 'string'} className="px-4 py-2 text-sm font-medium text-white bg-primary-DEFAULT rounded-md hover:bg-primary-hover transition-colors disabled:opacity-50">Import</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ClinicalImportModal;
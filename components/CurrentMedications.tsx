@@ -2,6 +2,8 @@ import React, { useState, useMemo } from 'react';
 import { Plus } from 'lucide-react';
 import type { Patient, Medication, Doctor } from '../types';
 import BulkMedicationModal from './BulkMedicationModal';
+import { getPatientAllergies } from '../services/allergyService';
+import { getStockForecast } from '../services/medicationStockService';
 
 interface CurrentMedicationsProps {
   patient: Patient;
@@ -91,20 +93,19 @@ const CurrentMedications: React.FC<CurrentMedicationsProps> = ({
   };
 
   const getRefillStatus = (medication: Medication) => {
-    if (!medication.refillDate) {
-      return { color: 'gray', text: 'No refill date' };
+    const forecast = getStockForecast(medication);
+    if (!forecast?.needsRefill) {
+      return { color: 'gray', text: forecast ? `${forecast.remaining} left` : 'Stock not tracked' };
     }
 
-    const today = new Date();
-    const refillDate = new Date(medication.refillDate);
-    const daysUntilRefill = Math.ceil((refillDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
+    const daysLeft = forecast.daysLeft!;
 
-    if (daysUntilRefill > 30) {
+    if (daysLeft > 30) {
       return { color: 'green', text: 'Well stocked' };
-    } else if (daysUntilRefill > 14) {
-      return { color: 'yellow', text: `${daysUntilRefill} days left` };
-    } else if (daysUntilRefill > 0) {
-      return { color: 'orange', text: `${daysUntilRefill} days left` };
+    } else if (daysLeft > 14) {
+      return { color: 'yellow', text: `${daysLeft} days left` };
+    } else if (daysLeft > 0) {
+      return { color: 'orange', text: `${daysLeft} days left` };
     } else {
       return { color: 'red', text: 'Refill needed' };
     }
@@ -254,6 +255,14 @@ const CurrentMedications: React.FC<CurrentMedicationsProps> = ({
                               "{med.notes}"
                             </div>
                           )}
+                          {med.allergyOverride && (
+                            <div
+                              className="text-xs text-red-700 dark:text-red-400 mt-1"
+                              title={`Overridden ${new Date(med.allergyOverride.overriddenAt).toLocaleDateString()}`}
+                            >
+                              Allergy override ({med.allergyOverride.substances.join(', ')}): {med.allergyOverride.reason}
+                            </div>
+                          )}
                         </div>
                       </div>
                     </td>
@@ -412,6 +421,7 @@ const CurrentMedications: React.FC<CurrentMedicationsProps> = ({
         isOpen={bulkModalState.isOpen}
         editingMedications={bulkModalState.editingMedications}
         doctors={doctors}
+        allergies={getPatientAllergies(patient)}
         onSave={(medications) => {
           // Add new medications
           onAddBulkMedications(patient.id, medications);
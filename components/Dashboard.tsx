@@ -4,9 +4,19 @@ import AppointmentManager from '../src/components/AppointmentManager';
 import AIAssistant from './AIAssistant';
 import HealthInsights from './HealthInsights';
 import CurrentMedications from './CurrentMedications';
+import DrugInteractions from './DrugInteractions';
 import DataSearchPanel from './DataSearchPanel';
 import { EyeCareModule } from './EyeCareModule';
 import { DiabetesModule } from './DiabetesModule';
+import ProfessionalHypertensionModule from './ProfessionalHypertensionModule';
+import { LabResultsModule, FLAG_STYLES } from './LabResultsModule';
+import { VitalsModule } from './VitalsModule';
+import { AllergiesModule } from './AllergiesModule';
+import { MedicationAdherence } from './MedicationAdherence';
+import { MedicationStock } from './MedicationStock';
+import { RefillsDue } from './RefillsDue';
+import { getOutOfRangeResults } from '../services/labResultsService';
+import { getRefillsDue } from '../services/medicationStockService';
 
 interface DashboardProps {
     patient: Patient;
@@ -65,11 +75,7 @@ const Dashboard: React.FC<DashboardProps> = ({
 
     // Group medications by adherence
     const medicationStats = useMemo(() => {
-        const medicationsNeedingRefill = patient.currentMedications.filter(m => {
-            if (!m.endDate) return false;
-            const daysUntilEnd = Math.ceil((new Date(m.endDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
-            return daysUntilEnd <= 7;
-        });
+        const medicationsNeedingRefill = getRefillsDue([patient]);
 
         return {
             total: patient.currentMedications.length,
@@ -154,6 +160,9 @@ const Dashboard: React.FC<DashboardProps> = ({
             }));
     }, [patient.records]);
 
+    // Latest result of each lab test that is outside its reference range
+    const outOfRangeLabs = useMemo(() => getOutOfRangeResults(patient.labResults || []), [patient.labResults]);
+
     const getInsightIconColor = (type: string) => {
         switch (type) {
             case 'success': return 'text-green-600';
@@ -229,6 +238,38 @@ const Dashboard: React.FC<DashboardProps> = ({
                 </div>
             </div>
 
+            {/* Out-of-range lab results */}
+            {outOfRangeLabs.length > 0 && (
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                    <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+                        <h2 className="text-lg font-semibold text-text-light dark:text-text-dark flex items-center gap-2">
+                            <span className="material-symbols-outlined text-red-600">labs</span>
+                            Lab Results Out of Range
+                        </h2>
+                    </div>
+                    <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                        {outOfRangeLabs.map((result) => (
+                            <div key={result.id} className={`flex items-center justify-between p-3 rounded-md ${FLAG_STYLES[result.flag!].bg} dark:bg-gray-900`}>
+                                <div>
+                                    <p className="font-medium text-text-light dark:text-text-dark">{result.name}</p>
+                                    <p className="text-sm text-subtle-light dark:text-subtle-dark">
+                                        {new Date(result.date).toLocaleDateString()}
+                                        {result.referenceRange?.text && ` · reference ${result.referenceRange.text}`}
+                                    </p>
+                                </div>
+                                <div className={`text-right ${FLAG_STYLES[result.flag!].color}`}>
+                                    <p className="font-bold">{result.value} {result.unit}</p>
+                                    <p className="text-xs">{FLAG_STYLES[result.flag!].label}</p>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Refills due across the family */}
+            <RefillsDue />
+
             {/* Medical Data Search */}
             <DataSearchPanel patientId={patient.id} patientName={patient.name} />
 
@@ -282,6 +323,18 @@ const Dashboard: React.FC<DashboardProps> = ({
                                     onUpdateMedication={onUpdateMedication}
                                     onDeleteMedication={onDeleteMedication}
                                 />
+                                <div className="p-4">
+                                    <MedicationStock patientId={patient.id} />
+                                </div>
+                                <div className="p-4">
+                                    <MedicationAdherence patientId={patient.id} />
+                                </div>
+                                <div className="p-4">
+                                    <DrugInteractions
+                                        medications={patient.currentMedications}
+                                        diabetesMedications={patient.diabetesRecord?.medications}
+                                    />
+                                </div>
                             </div>
                         )}
 
@@ -423,10 +476,30 @@ const Dashboard: React.FC<DashboardProps> = ({
                 <EyeCareModule patientId={patient.id} />
             </div>
 
+            {/* Allergies Module */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                <AllergiesModule patientId={patient.id} />
+            </div>
+
+            {/* Vitals Module */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                <VitalsModule patientId={patient.id} />
+            </div>
+
+            {/* Lab Results Module */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                <LabResultsModule patientId={patient.id} />
+            </div>
+
             {/* Diabetes Module */}
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
                 <DiabetesModule patientId={patient.id} />
             </div>
+
+            {/* Hypertension Module */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+                <ProfessionalHypertensionModule patientId={patient.id} />
+            </div>
         </div>
     );
 };
@@ -1,20 +1,30 @@
 import React, { useState, useMemo } from 'react';
 import { useSecureHealthStore } from '../stores/useSecureHealthStore';
 import type { HbA1cReading, BloodGlucoseReading, DiabetesMedication } from '../types';
+import { GlucoseCsvImport } from './GlucoseCsvImport';
+import { GlucoseDayChart } from './GlucoseDayChart';
+import { InsulinLog } from './InsulinLog';
 
 interface DiabetesModuleProps {
   patientId: string;
 }
 
+// Imported CGM data runs to hundreds of readings a week, so the list is paged
+const GLUCOSE_PAGE_SIZE = 50;
+
 export const DiabetesModule: React.FC<DiabetesModuleProps> = ({ patientId }) => {
   const { theme, patients, initializeDiabetesRecord, addHbA1cReading, addBloodGlucoseReading, addDiabetesMedication } = useSecureHealthStore();
   const patient = patients.find(p => p.id === patientId);
   const diabetesRecord = patient?.diabetesRecord;
 
-  const [activeTab, setActiveTab] = useState<'hba1c' | 'glucose' | 'medications'>('hba1c');
+  const [activeTab, setActiveTab] = useState<'hba1c' | 'glucose' | 'insulin' | 'medications'>('hba1c');
   const [showHba1cForm, setShowHba1cForm] = useState(false);
   const [showGlucoseForm, setShowGlucoseForm] = useState(false);
   const [showMedicationForm, setShowMedicationForm] = useState(false);
+  const [showGlucoseImport, setShowGlucoseImport] = useState(false);
+  const [visibleGlucoseCount, setVisibleGlucoseCount] = useState(GLUCOSE_PAGE_SIZE);
+  const [chartDate, setChartDate] = useState<string | null>(null);
+  const [showInsulinOverlay, setShowInsulinOverlay] = useState(true);
 
   const isDark = theme === 'dark';
 
@@ -25,6 +35,25 @@ export const DiabetesModule: React.FC<DiabetesModuleProps> = ({ patientId }) =>
     }
   }, [patient, diabetesRecord, patientId, initializeDiabetesRecord]);
 
+  // Newest first
+  const sortedGlucoseReadings = useMemo(
+    () => [...(diabetesRecord?.bloodGlucoseReadings || [])].sort((a, b) =>
+      `${b.date}T${b.time}`.localeCompare(`${a.date}T${a.time}`)
+    ),
+    [diabetesRecord?.bloodGlucoseReadings]
+  );
+
+  // Days with readings or doses, newest first, for stepping through the day chart
+  const chartDays = useMemo(
+    () => [...new Set([
+      ...sortedGlucoseReadings.map(reading => reading.date),
+      ...(diabetesRecord?.insulinLog || []).map(entry => entry.date),
+    ])].sort((a, b) => b.localeCompare(a)),
+    [sortedGlucoseReadings, diabetesRecord?.insulinLog]
+  );
+  const shownChartDate = chartDate && chartDays.includes(chartDate) ? chartDate : chartDays[0];
+  const chartDayIndex = shownChartDate ? chartDays.indexOf(shownChartDate) : -1;
+
   // HbA1c trend calculation
   const hba1cTrend = useMemo(() => {
     if (!diabetesRecord?.hba1cReadings || diabetesRecord.hba1cReadings.length < 2) {
@@ -142,6 +171,16 @@ export const DiabetesModule: React.FC<DiabetesModuleProps> = ({ patientId }) =>
         >
           Blood Glucose ({diabetesRecord?.bloodGlucoseReadings?.length || 0})
         </button>
+        <button
+          onClick={() => setActiveTab('insulin')}
+          className={`px-4 py-2 font-medium ${
+            activeTab === 'insulin'
+              ? 'border-b-2 border-blue-500 text-blue-500'
+              : isDark ? 'text-gray-400' : 'text-gray-600'
+          }`}
+        >
+          Insulin & Carbs ({diabetesRecord?.insulinLog?.length || 0})
+        </button>
         <button
           onClick={() => setActiveTab('medications')}
           className={`px-4 py-2 font-medium ${
@@ -274,15 +313,28 @@ export const DiabetesModule: React.FC<DiabetesModuleProps> = ({ patientId }) =>
         <div>
           <div className="flex justify-between items-center mb-4">
             <h3 className="text-xl font-semibold">Blood Glucose Readings</h3>
-            <button
-              onClick={() => setShowGlucoseForm(!showGlucoseForm)}
-              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 flex items-center gap-2"
-            >
-              <span className="material-symbols-outlined">add</span>
-              Add Reading
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowGlucoseImport(!showGlucoseImport)}
+                className="px-4 py-2 bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-100 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 flex items-center gap-2"
+              >
+                <span className="material-symbols-outlined">upload_file</span>
+                Import CSV
+              </button>
+              <button
+                onClick={() => setShowGlucoseForm(!showGlucoseForm)}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 flex items-center gap-2"
+              >
+                <span className="material-symbols-outlined">add</span>
+                Add Reading
+              </button>
+            </div>
           </div>
 
+          {showGlucoseImport && (
+            <GlucoseCsvImport patientId={patientId} onClose={() => setShowGlucoseImport(false)} />
+          )}
+
           {showGlucoseForm && (
             <form onSubmit={handleAddGlucose} className={`mb-6 p-4 rounded-lg ${isDark ? 'bg-gray-700' : 'bg-gray-50'}`}>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -327,8 +379,47 @@ export const DiabetesModule: React.FC<DiabetesModuleProps> = ({ patientId }) =>
             </form>
           )}
 
+          {shownChartDate && (
+            <div className={`mb-6 p-4 rounded-lg border ${isDark ? 'border-gray-600' : 'border-gray-200'}`}>
+              <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setChartDate(chartDays[chartDayIndex + 1])}
+                    disabled={chartDayIndex >= chartDays.length - 1}
+                    className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+                    aria-label="Previous day"
+                  >
+                    <span className="material-symbols-outlined">chevron_left</span>
+                  </button>
+                  <span className="font-semibold">{new Date(shownChartDate).toLocaleDateString()}</span>
+                  <button
+                    onClick={() => setChartDate(chartDays[chartDayIndex - 1])}
+                    disabled={chartDayIndex <= 0}
+                    className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+                    aria-label="Next day"
+                  >
+                    <span className="material-symbols-outlined">chevron_right</span>
+                  </button>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={showInsulinOverlay}
+                    onChange={(e) => setShowInsulinOverlay(e.target.checked)}
+                  />
+                  Show insulin & carbs
+                </label>
+              </div>
+              <GlucoseDayChart
+                date={shownChartDate}
+                readings={diabetesRecord?.bloodGlucoseReadings || []}
+                insulinLog={showInsulinOverlay ? diabetesRecord?.insulinLog || [] : undefined}
+              />
+            </div>
+          )}
+
           <div className="space-y-3">
-            {diabetesRecord?.bloodGlucoseReadings?.sort((a, b) => new Date(b.date + ' ' + b.time).getTime() - new Date(a.date + ' ' + a.time).getTime()).map((reading) => (
+            {sortedGlucoseReadings.slice(0, visibleGlucoseCount).map((reading) => (
               <div key={reading.id} className={`p-4 rounded-lg border ${isDark ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'}`}>
                 <div className="flex justify-between items-center">
                   <div>
@@ -338,6 +429,11 @@ export const DiabetesModule: React.FC<DiabetesModuleProps> = ({ patientId }) =>
                       <span className="text-xs px-2 py-1 rounded bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
                         {reading.type}
                       </span>
+                      {reading.source && reading.source !== 'manual' && (
+                        <span className="text-xs px-2 py-1 rounded bg-gray-200 text-gray-700 dark:bg-gray-600 dark:text-gray-200">
+                          {reading.source === 'cgm' ? 'CGM' : 'Meter'}
+                        </span>
+                      )}
                     </div>
                     {reading.context && <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">Context: {reading.context}</div>}
                     {reading.notes && <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">{reading.notes}</div>}
@@ -346,9 +442,20 @@ export const DiabetesModule: React.FC<DiabetesModuleProps> = ({ patientId }) =>
               </div>
             ))}
           </div>
+          {sortedGlucoseReadings.length > visibleGlucoseCount && (
+            <button
+              onClick={() => setVisibleGlucoseCount(visibleGlucoseCount + GLUCOSE_PAGE_SIZE)}
+              className="mt-3 w-full py-2 text-sm text-blue-600 hover:underline"
+            >
+              Show more ({sortedGlucoseReadings.length - visibleGlucoseCount} older readings)
+            </button>
+          )}
         </div>
       )}
 
+      {/* Insulin & Carbs Tab */}
+      {activeTab === 'insulin' && <InsulinLog patientId={patientId} />}
+
       {/* Medications Tab */}
       {activeTab === 'medications' && (
         <div>
@@ -1,123 +1,97 @@
-import React, { useMemo } from 'react';
-import type { Medication } from '../types';
-
-interface DrugInteraction {
-  severity: 'high' | 'moderate' | 'low';
-  medication1: string;
-  medication2: string;
-  description: string;
-  recommendation: string;
-  evidence: string;
-}
+import React, { useMemo, useRef, useState } from 'react';
+import type { DiabetesMedication, Medication } from '../types';
+import {
+  InteractionDatasetError,
+  collectMedications,
+  findInteractions,
+  importInteractionDataset,
+  loadInteractionDataset,
+  resetInteractionDataset,
+  type InteractionSide,
+} from '../services/drugInteractionService';
+import { BUILT_IN_INTERACTION_DATASET } from '../services/drugInteractionDataset';
 
 interface DrugInteractionsProps {
   medications: Medication[];
+  diabetesMedications?: DiabetesMedication[];
 }
 
-// Common drug interactions database
-const commonInteractions: DrugInteraction[] = [
-  {
-    severity: 'high',
-    medication1: 'warfarin',
-    medication2: 'aspirin',
-    description: 'Increased risk of bleeding',
-    recommendation: 'Avoid concurrent use. If essential, monitor INR closely and watch for bleeding signs.',
-    evidence: 'Significant increase in bleeding risk'
-  },
-  {
-    severity: 'high',
-    medication1: 'lisinopril',
-    medication2: 'ibuprofen',
-    description: 'Reduced antihypertensive effect and increased kidney risk',
-    recommendation: 'Use acetaminophen instead for pain relief. Monitor blood pressure and kidney function.',
-    evidence: 'NSAIDs can reduce ACE inhibitor effectiveness'
-  },
-  {
-    severity: 'moderate',
-    medication1: 'metformin',
-    medication2: 'furosemide',
-    description: 'Increased risk of lactic acidosis',
-    recommendation: 'Monitor kidney function regularly. Watch for signs of lactic acidosis.',
-    evidence: 'Both drugs affect kidney function'
-  },
-  {
-    severity: 'high',
-    medication1: 'simvastatin',
-    medication2: 'clarithromycin',
-    description: 'Increased risk of muscle damage and rhabdomyolysis',
-    recommendation: 'Avoid concurrent use. Consider alternative antibiotics or statins.',
-    evidence: 'Clarithromycin inhibits statin metabolism'
-  },
-  {
-    severity: 'moderate',
-    medication1: 'digoxin',
-    medication2: 'furosemide',
-    description: 'Increased risk of digoxin toxicity',
-    recommendation: 'Monitor digoxin levels and electrolytes closely. Watch for toxicity signs.',
-    evidence: 'Diuretics can increase digoxin levels'
-  },
-  {
-    severity: 'moderate',
-    medication1: 'sertraline',
-    medication2: 'tramadol',
-    description: 'Increased risk of seizures and serotonin syndrome',
-    recommendation: 'Use with caution. Monitor for neurological symptoms.',
-    evidence: 'Both affect serotonin levels'
-  },
-  {
-    severity: 'high',
-    medication1: 'clopidogrel',
-    medication2: 'omeprazole',
-    description: 'Reduced antiplatelet effect of clopidogrel',
-    recommendation: 'Avoid omeprazole. Use alternative PPIs like pantoprazole.',
-    evidence: 'Omeprazole inhibits clopidogrel activation'
-  },
-  {
-    severity: 'moderate',
-    medication1: 'metformin',
-    medication2: 'contrast media',
-    description: 'Increased risk of lactic acidosis',
-    recommendation: 'Hold metformin before and after contrast procedures. Monitor kidney function.',
-    evidence: 'Contrast can affect kidney function'
-  },
-  {
-    severity: 'high',
-    medication1: 'albuterol',
-    medication2: 'propranolol',
-    description: 'Reduced effectiveness of albuterol',
-    recommendation: 'Use cardioselective beta-blockers. Monitor respiratory function.',
-    evidence: 'Non-selective beta-blockers can block bronchodilation'
-  },
-  {
-    severity: 'moderate',
-    medication1: 'atorvastatin',
-    medication2: 'grapefruit juice',
-    description: 'Increased statin levels and side effects',
-    recommendation: 'Avoid grapefruit juice. Monitor for muscle pain.',
-    evidence: 'Grapefruit inhibits statin metabolism'
-  }
-];
+const sideLabel = (side: InteractionSide) => {
+  const via = side.matchedBy === 'class' ? side.className : side.matchedBy === 'alias' ? side.drug : undefined;
+  return `${side.medication.name}${via ? ` (${via})` : ''}${side.medication.source === 'diabetes' ? ' • diabetes' : ''}`;
+};
 
-const DrugInteractions: React.FC<DrugInteractionsProps> = ({ medications }) => {
-  const interactions = useMemo(() => {
-    if (medications.length < 2) return [];
+const DrugInteractions: React.FC<DrugInteractionsProps> = ({ medications, diabetesMedications = [] }) => {
+  const [dataset, setDataset] = useState(loadInteractionDataset);
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-    const foundInteractions: DrugInteraction[] = [];
-    const medNames = medications.map(med => med.name.toLowerCase());
+  const checkedMedications = useMemo(
+    () => collectMedications(medications, diabetesMedications),
+    [medications, diabetesMedications]
+  );
+  const interactions = useMemo(
+    () => (checkedMedications.length < 2 ? [] : findInteractions(checkedMedications, dataset)),
+    [checkedMedications, dataset]
+  );
 
-    commonInteractions.forEach(interaction => {
-      const hasMed1 = medNames.some(name => name.includes(interaction.medication1));
-      const hasMed2 = medNames.some(name => name.includes(interaction.medication2));
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = importInteractionDataset(await file.text());
+      setDataset(imported);
+      setImportMessage({ text: `Updated to version ${imported.version} (${imported.interactions.length} interactions)`, isError: false });
+    } catch (error) {
+      setImportMessage({
+        text: error instanceof InteractionDatasetError ? error.message : 'Failed to import the dataset',
+        isError: true,
+      });
+    }
+  };
 
-      if (hasMed1 && hasMed2) {
-        foundInteractions.push(interaction);
-      }
-    });
+  const handleReset = () => {
+    setDataset(resetInteractionDataset());
+    setImportMessage(null);
+  };
 
-    // Sort by severity
-    const severityOrder = { high: 3, moderate: 2, low: 1 };
-    return foundInteractions.sort((a, b) => severityOrder[b.severity] - severityOrder[a.severity]);
-  }, [medications]);
+  const datasetBar = (
+    <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-600 text-xs text-gray-600 dark:text-gray-400">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span>
+          Interaction data: {dataset.source || 'Imported'} version {dataset.version}
+          {dataset.updatedAt && `, updated ${new Date(dataset.updatedAt).toLocaleDateString()}`}
+          {` • ${dataset.interactions.length} interactions, ${dataset.drugs.length} drugs`}
+        </span>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            Import dataset (JSON)
+          </button>
+          {dataset !== BUILT_IN_INTERACTION_DATASET && (
+            <button
+              type="button"
+              onClick={handleReset}
+              className="px-2 py-1 rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Use built-in
+            </button>
+          )}
+        </div>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+      </div>
+      {importMessage && (
+        <p role={importMessage.isError ? 'alert' : 'status'} className={`mt-2 ${importMessage.isError ? 'text-red-600' : 'text-green-700 dark:text-green-400'}`}>
+          {importMessage.text}
+        </p>
+      )}
+    </div>
+  );
 
   const getSeverityColor = (severity: string) => {
     switch (severity) {
@@ -158,11 +132,12 @@ const DrugInteractions: React.FC<DrugInteractionsProps> = ({ medications }) => {
     }
   };
 
-  if (medications.length === 0) {
+  if (checkedMedications.length === 0) {
     return (
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
         <h3 className="text-lg font-semibold mb-4 text-gray-900 dark:text-white">Drug Interactions</h3>
         <p className="text-gray-600 dark:text-gray-400">No medications available to check for interactions.</p>
+        {datasetBar}
       </div>
     );
   }
@@ -177,7 +152,7 @@ const DrugInteractions: React.FC<DrugInteractionsProps> = ({ medications }) => {
             <div>
               <h4 className="font-medium text-green-800">No Significant Interactions Found</h4>
               <p className="text-green-700 text-sm mt-1">
-                No known interactions detected among current medications ({medications.length} medications checked).
+                No known interactions detected among current medications ({checkedMedications.length} medications checked).
               </p>
             </div>
           </div>
@@ -188,8 +163,12 @@ const DrugInteractions: React.FC<DrugInteractionsProps> = ({ medications }) => {
             {medications.map((med, index) => (
               <li key={index}>{med.name} {med.strength && `(${med.strength})`}</li>
             ))}
+            {checkedMedications.filter(med => med.source === 'diabetes').map(med => (
+              <li key={med.id}>{med.name} (diabetes)</li>
+            ))}
           </ul>
         </div>
+        {datasetBar}
       </div>
     );
   }
@@ -215,40 +194,42 @@ const DrugInteractions: React.FC<DrugInteractionsProps> = ({ medications }) => {
       </div>
 
       <div className="space-y-4">
-        {interactions.map((interaction, index) => (
+        {interactions.map(({ rule, first, second }) => (
           <div
-            key={index}
-            className={`border rounded-lg p-4 ${getSeverityColor(interaction.severity)}`}
+            key={`${rule.id}-${first.medication.id}-${second.medication.id}`}
+            className={`border rounded-lg p-4 ${getSeverityColor(rule.severity)}`}
           >
             <div className="flex items-start justify-between mb-3">
               <div className="flex items-center">
-                <span className="text-xl mr-2">{getSeverityIcon(interaction.severity)}</span>
-                <h4 className="font-medium">{getSeverityText(interaction.severity)}</h4>
+                <span className="text-xl mr-2">{getSeverityIcon(rule.severity)}</span>
+                <h4 className="font-medium">{getSeverityText(rule.severity)}</h4>
               </div>
             </div>
 
             <div className="mb-3">
               <h5 className="font-medium text-sm mb-1">Interaction:</h5>
               <p className="text-sm opacity-90">
-                <span className="font-medium">{interaction.medication1}</span> +{' '}
-                <span className="font-medium">{interaction.medication2}</span>
+                <span className="font-medium">{sideLabel(first)}</span> +{' '}
+                <span className="font-medium">{sideLabel(second)}</span>
               </p>
             </div>
 
             <div className="mb-3">
               <h5 className="font-medium text-sm mb-1">Description:</h5>
-              <p className="text-sm opacity-90">{interaction.description}</p>
+              <p className="text-sm opacity-90">{rule.description}</p>
             </div>
 
             <div className="mb-3">
               <h5 className="font-medium text-sm mb-1">Recommendation:</h5>
-              <p className="text-sm opacity-90 font-medium">{interaction.recommendation}</p>
+              <p className="text-sm opacity-90 font-medium">{rule.recommendation}</p>
             </div>
 
-            <div>
-              <h5 className="font-medium text-sm mb-1">Evidence:</h5>
-              <p className="text-xs opacity-75 italic">{interaction.evidence}</p>
-            </div>
+            {rule.evidence && (
+              <div>
+                <h5 className="font-medium text-sm mb-1">Evidence:</h5>
+                <p className="text-xs opacity-75 italic">{rule.evidence}</p>
+              </div>
+            )}
           </div>
         ))}
       </div>
@@ -265,6 +246,7 @@ const DrugInteractions: React.FC<DrugInteractionsProps> = ({ medications }) => {
           </p>
         </div>
       </div>
+      {datasetBar}
     </div>
   );
 };
@@ -0,0 +1,257 @@
+import React, { useMemo, useState } from 'react';
+import { useSecureHealthStore } from '../stores/useSecureHealthStore';
+import {
+  GLUCOSE_IMPORT_PRESETS,
+  detectPreset,
+  mergeGlucoseReadings,
+  parseCsv,
+  parseGlucoseCsv,
+  type DateOrder,
+  type GlucoseColumnMapping,
+  type GlucoseUnit,
+} from '../services/glucoseImportService';
+
+interface GlucoseCsvImportProps {
+  patientId: string;
+  onClose: () => void;
+}
+
+interface CustomMapping {
+  timestamp: string;
+  date: string;
+  time: string;
+  value: string;
+  unit: GlucoseUnit | '';
+  mealTag: string;
+  dateOrder: DateOrder;
+  source: 'cgm' | 'glucometer';
+}
+
+const CUSTOM = 'custom';
+
+const selectClass = 'w-full p-2 rounded border dark:bg-gray-800';
+
+/**
+ * Bulk import of glucose readings from a CGM or glucometer CSV export. The
+ * device is recognised from the header row where possible; otherwise the
+ * columns are mapped by hand.
+ */
+export const GlucoseCsvImport: React.FC<GlucoseCsvImportProps> = ({ patientId, onClose }) => {
+  const { patients, importBloodGlucoseReadings } = useSecureHealthStore();
+  const existing = patients.find(p => p.id === patientId)?.diabetesRecord?.bloodGlucoseReadings || [];
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [text, setText] = useState('');
+  const [presetId, setPresetId] = useState<string>(CUSTOM);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [custom, setCustom] = useState<CustomMapping>({
+    timestamp: '', date: '', time: '', value: '', unit: '', mealTag: '', dateOrder: 'dmy', source: 'glucometer',
+  });
+  const [importing, setImporting] = useState(false);
+
+  const rows = useMemo(() => (text ? parseCsv(text) : []), [text]);
+  const headers = rows[headerRow] || [];
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = event => {
+      const content = event.target?.result as string;
+      const parsedRows = parseCsv(content);
+      setText(content);
+      setFileName(file.name);
+      setPresetId(detectPreset(parsedRows)?.id || CUSTOM);
+      // The header is usually the widest of the first few rows
+      const widths = parsedRows.slice(0, 10).map(row => row.filter(Boolean).length);
+      setHeaderRow(widths.indexOf(Math.max(...widths)));
+    };
+    reader.readAsText(file);
+  };
+
+  const preset = GLUCOSE_IMPORT_PRESETS.find(p => p.id === presetId);
+
+  const mapping: GlucoseColumnMapping | null = useMemo(() => {
+    if (preset) return preset.mapping;
+    if (!custom.value || !(custom.timestamp || (custom.date && custom.time))) return null;
+    return {
+      timestamp: custom.timestamp || undefined,
+      date: custom.timestamp ? undefined : custom.date,
+      time: custom.timestamp ? undefined : custom.time,
+      value: custom.value,
+      unit: custom.unit || undefined,
+      mealTag: custom.mealTag || undefined,
+      dateOrder: custom.dateOrder,
+    };
+  }, [preset, custom]);
+
+  const result = useMemo(
+    () => (text && mapping ? parseGlucoseCsv(text, mapping, preset?.source || custom.source) : null),
+    [text, mapping, preset, custom.source]
+  );
+
+  const newReadings = useMemo(
+    () => (result ? mergeGlucoseReadings(existing, result.readings).length - existing.length : 0),
+    [existing, result]
+  );
+
+  const handleImport = async () => {
+    if (!result || newReadings === 0) return;
+    setImporting(true);
+    await importBloodGlucoseReadings(patientId, result.readings);
+    setImporting(false);
+    onClose();
+  };
+
+  const columnSelect = (field: keyof CustomMapping, label: string, optional = false) => (
+    <div>
+      <label htmlFor={`glucose-map-${field}`} className="block mb-1 text-sm font-medium">{label}</label>
+      <select
+        id={`glucose-map-${field}`}
+        value={custom[field]}
+        onChange={e => setCustom({ ...custom, [field]: e.target.value })}
+        className={selectClass}
+      >
+        <option value="">{optional ? 'None' : 'Select column'}</option>
+        {headers.map((header, i) => header && <option key={i} value={header}>{header}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="mb-6 p-4 rounded-lg border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700">
+      <div className="flex justify-between items-center mb-4">
+        <h4 className="text-lg font-semibold">Import readings from CSV</h4>
+        <button onClick={onClose} aria-label="Close import" className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+          <span className="material-symbols-outlined">close</span>
+        </button>
+      </div>
+
+      <label htmlFor="glucose-csv-file" className="block mb-2 text-sm text-gray-600 dark:text-gray-300">
+        Export a CSV from your CGM or glucometer app (Dexcom Clarity, LibreView, mySugr and others) and choose it here.
+      </label>
+      <input id="glucose-csv-file" type="file" accept=".csv,.txt" onChange={handleFile} className="mb-4" />
+
+      {fileName && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label htmlFor="glucose-preset" className="block mb-1 text-sm font-medium">Format</label>
+              <select id="glucose-preset" value={presetId} onChange={e => setPresetId(e.target.value)} className={selectClass}>
+                {GLUCOSE_IMPORT_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                <option value={CUSTOM}>Custom column mapping</option>
+              </select>
+            </div>
+            {!preset && (
+              <div>
+                <label htmlFor="glucose-header-row" className="block mb-1 text-sm font-medium">Header row</label>
+                <select id="glucose-header-row" value={headerRow} onChange={e => setHeaderRow(Number(e.target.value))} className={selectClass}>
+                  {rows.slice(0, 10).map((row, i) => (
+                    <option key={i} value={i}>Row {i + 1}: {row.filter(Boolean).slice(0, 4).join(', ')}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {!preset && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+              {columnSelect('timestamp', 'Date & time column', true)}
+              {!custom.timestamp && columnSelect('date', 'Date column')}
+              {!custom.timestamp && columnSelect('time', 'Time column')}
+              {columnSelect('value', 'Glucose column')}
+              <div>
+                <label htmlFor="glucose-map-unit" className="block mb-1 text-sm font-medium">Unit</label>
+                <select
+                  id="glucose-map-unit"
+                  value={custom.unit}
+                  onChange={e => setCustom({ ...custom, unit: e.target.value as CustomMapping['unit'] })}
+                  className={selectClass}
+                >
+                  <option value="">Detect</option>
+                  <option value="mg/dL">mg/dL</option>
+                  <option value="mmol/L">mmol/L</option>
+                </select>
+              </div>
+              {columnSelect('mealTag', 'Meal tag column', true)}
+              <div>
+                <label htmlFor="glucose-map-order" className="block mb-1 text-sm font-medium">Dates written as</label>
+                <select
+                  id="glucose-map-order"
+                  value={custom.dateOrder}
+                  onChange={e => setCustom({ ...custom, dateOrder: e.target.value as DateOrder })}
+                  className={selectClass}
+                >
+                  <option value="dmy">Day/Month/Year</option>
+                  <option value="mdy">Month/Day/Year</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="glucose-map-source" className="block mb-1 text-sm font-medium">Device</label>
+                <select
+                  id="glucose-map-source"
+                  value={custom.source}
+                  onChange={e => setCustom({ ...custom, source: e.target.value as CustomMapping['source'] })}
+                  className={selectClass}
+                >
+                  <option value="glucometer">Glucometer</option>
+                  <option value="cgm">CGM</option>
+                </select>
+              </div>
+            </div>
+          )}
+
+          {result && (
+            <div className="mb-4 text-sm">
+              {result.readings.length === 0 ? (
+                <p role="alert" className="text-red-600">
+                  No readings found. Check that the format matches the file, or map the columns yourself.
+                </p>
+              ) : (
+                <>
+                  <p>
+                    <strong>{result.readings.length}</strong> readings in {result.unit}
+                    {result.from && ` from ${new Date(result.from).toLocaleDateString()} to ${new Date(result.to!).toLocaleDateString()}`}
+                    {' '}• <strong>{newReadings}</strong> new
+                    {result.readings.length > newReadings && `, ${result.readings.length - newReadings} already recorded`}
+                  </p>
+                  {(result.skipped > 0 || result.duplicates > 0) && (
+                    <p className="text-gray-500 dark:text-gray-400">
+                      {result.skipped > 0 && `${result.skipped} rows without a reading were skipped. `}
+                      {result.duplicates > 0 && `${result.duplicates} repeated timestamps were ignored.`}
+                    </p>
+                  )}
+                  <table className="mt-2 text-xs">
+                    <tbody>
+                      {result.readings.slice(-5).map(reading => (
+                        <tr key={reading.id}>
+                          <td className="pr-4">{reading.date} {reading.time}</td>
+                          <td className="pr-4 font-semibold">{reading.value} mg/dL</td>
+                          <td>{reading.context}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleImport}
+              disabled={!result || newReadings === 0 || importing}
+              className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {importing ? 'Importing…' : `Import ${newReadings} readings`}
+            </button>
+            <button onClick={onClose} className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600">
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React from 'react';
+import type { BloodGlucoseReading, InsulinLogEntry } from '../types';
+
+interface GlucoseDayChartProps {
+  date: string;
+  readings: BloodGlucoseReading[];
+  // Doses and carbs are drawn over the glucose line when given
+  insulinLog?: InsulinLogEntry[];
+}
+
+const CHART = { width: 720, height: 280, left: 36, right: 10, top: 24, bottom: 60, max: 350 };
+// Strip under the glucose plot for insulin bars
+const DOSE_STRIP = { top: CHART.height - CHART.bottom + 14, height: 26 };
+
+const minutes = (time: string) => {
+  const [hours, mins] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (mins || 0);
+};
+
+const x = (time: string) => CHART.left + (minutes(time) / (24 * 60)) * (CHART.width - CHART.left - CHART.right);
+const y = (value: number) =>
+  CHART.top + (1 - Math.min(value, CHART.max) / CHART.max) * (CHART.height - CHART.top - CHART.bottom);
+
+const pointColor = (value: number) => (value < 70 ? '#dc2626' : value > 180 ? '#f59e0b' : '#16a34a');
+
+/**
+ * One day of glucose readings, with the day's insulin doses as bars below and
+ * carbs as markers above
+ */
+export const GlucoseDayChart: React.FC<GlucoseDayChartProps> = ({ date, readings, insulinLog }) => {
+  const day = readings
+    .filter(reading => reading.date === date)
+    .sort((a, b) => minutes(a.time) - minutes(b.time));
+  const doses = (insulinLog || []).filter(entry => entry.date === date);
+  const maxUnits = Math.max(10, ...doses.map(entry => entry.units));
+
+  return (
+    <svg
+      viewBox={`0 0 ${CHART.width} ${CHART.height}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={`Glucose readings on ${date}${insulinLog ? ' with insulin and carbs' : ''}`}
+    >
+      <rect x={CHART.left} y={y(180)} width={CHART.width - CHART.left - CHART.right} height={y(70) - y(180)} fill="#dcfce7" opacity="0.6" />
+      {[70, 180, 250].map(value => (
+        <g key={value}>
+          <line x1={CHART.left} x2={CHART.width - CHART.right} y1={y(value)} y2={y(value)} stroke="#d1d5db" strokeDasharray="4 4" />
+          <text x={CHART.left - 4} y={y(value) + 4} textAnchor="end" fontSize="10" fill="#6b7280">{value}</text>
+        </g>
+      ))}
+      {[0, 6, 12, 18].map(hour => {
+        const time = `${hour}:00`;
+        return (
+          <g key={hour}>
+            <line x1={x(time)} x2={x(time)} y1={CHART.top} y2={CHART.height - CHART.bottom} stroke="#f3f4f6" />
+            <text x={x(time)} y={CHART.height - CHART.bottom + 10} textAnchor="middle" fontSize="10" fill="#6b7280">
+              {hour === 0 ? '12am' : hour === 12 ? '12pm' : hour < 12 ? `${hour}am` : `${hour - 12}pm`}
+            </text>
+          </g>
+        );
+      })}
+
+      {day.length > 1 && (
+        <polyline
+          points={day.map(reading => `${x(reading.time)},${y(reading.value)}`).join(' ')}
+          fill="none"
+          stroke="#3b82f6"
+          strokeWidth="1.5"
+        />
+      )}
+      {day.map(reading => (
+        <circle key={reading.id} cx={x(reading.time)} cy={y(reading.value)} r={day.length > 48 ? 1.5 : 3} fill={pointColor(reading.value)}>
+          <title>{`${reading.time}: ${reading.value} mg/dL`}</title>
+        </circle>
+      ))}
+
+      {insulinLog && doses.map(entry => {
+        const barHeight = (entry.units / maxUnits) * DOSE_STRIP.height;
+        return (
+          <g key={entry.id}>
+            <line x1={x(entry.time)} x2={x(entry.time)} y1={CHART.top} y2={DOSE_STRIP.top} stroke="#a855f7" strokeOpacity="0.25" />
+            {entry.units > 0 && (
+              <rect
+                x={x(entry.time) - 3}
+                y={DOSE_STRIP.top + DOSE_STRIP.height - barHeight}
+                width="6"
+                height={barHeight}
+                fill={entry.type === 'basal' ? '#6b7280' : '#a855f7'}
+              >
+                <title>{`${entry.time}: ${entry.units}u ${entry.type}${entry.correctionUnits ? ` (${entry.correctionUnits}u correction)` : ''}`}</title>
+              </rect>
+            )}
+            {entry.units > 0 && (
+              <text x={x(entry.time)} y={DOSE_STRIP.top + DOSE_STRIP.height + 10} textAnchor="middle" fontSize="9" fill="#6b7280">
+                {entry.units}u
+              </text>
+            )}
+            {entry.carbs ? (
+              <g>
+                <circle cx={x(entry.time)} cy={CHART.top - 10} r="9" fill="#fef3c7" stroke="#f59e0b" />
+                <text x={x(entry.time)} y={CHART.top - 7} textAnchor="middle" fontSize="8" fill="#92400e">{entry.carbs}g</text>
+                <title>{`${entry.time}: ${entry.carbs}g carbs${entry.mealTag ? `, ${entry.mealTag}` : ''}`}</title>
+              </g>
+            ) : null}
+          </g>
+        );
+      })}
+      {day.length === 0 && (
+        <text x={CHART.width / 2} y={CHART.height / 2 - 20} textAnchor="middle" fontSize="12" fill="#9ca3af">
+          No glucose readings on this day
+        </text>
+      )}
+    </svg>
+  );
+};
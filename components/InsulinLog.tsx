@@ -0,0 +1,265 @@
+import React, { useMemo, useState } from 'react';
+import { useSecureHealthStore } from '../stores/useSecureHealthStore';
+import type { InsulinLogEntry } from '../types';
+import {
+  MEAL_TAGS,
+  formatCarbRatio,
+  getDailyTotals,
+  reviewCarbRatios,
+  sortLog,
+  type CarbRatioReview,
+} from '../services/insulinLogService';
+
+interface InsulinLogProps {
+  patientId: string;
+}
+
+const REVIEW_MESSAGES: Record<CarbRatioReview['outcome'], { text: string; className: string }> = {
+  'on-target': { text: 'Glucose after this meal is usually on target.', className: 'text-green-700 dark:text-green-400' },
+  'high-after': { text: 'Glucose usually rises well after this meal. Discuss the ratio with your diabetes team.', className: 'text-orange-700 dark:text-orange-400' },
+  'low-after': { text: 'Glucose has gone below 70 after this meal. Discuss the ratio with your diabetes team.', className: 'text-red-700 dark:text-red-400' },
+  insufficient: { text: 'Log a reading 2–4 hours after at least 3 meals to review this ratio.', className: 'text-gray-500 dark:text-gray-400' },
+};
+
+const ENTRY_PAGE_SIZE = 30;
+
+/**
+ * Basal and bolus doses with carbs, daily totals and a review of how each
+ * meal's insulin-to-carb ratio has worked
+ */
+export const InsulinLog: React.FC<InsulinLogProps> = ({ patientId }) => {
+  const { theme, patients, addInsulinLogEntry, deleteInsulinLogEntry } = useSecureHealthStore();
+  const diabetesRecord = patients.find(p => p.id === patientId)?.diabetesRecord;
+  const log = diabetesRecord?.insulinLog || [];
+  const readings = diabetesRecord?.bloodGlucoseReadings || [];
+  const isDark = theme === 'dark';
+
+  const [showForm, setShowForm] = useState(false);
+  const [entryType, setEntryType] = useState<InsulinLogEntry['type']>('bolus');
+  const [visibleCount, setVisibleCount] = useState(ENTRY_PAGE_SIZE);
+
+  const dailyTotals = useMemo(() => getDailyTotals(log).slice(0, 7), [log]);
+  const reviews = useMemo(() => reviewCarbRatios(log, readings), [log, readings]);
+  const entries = useMemo(() => sortLog(log).reverse(), [log]);
+  const readingsById = useMemo(() => new Map(readings.map(reading => [reading.id, reading])), [readings]);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const number = (name: string) => {
+      const value = formData.get(name) as string | null;
+      return value ? parseFloat(value) : undefined;
+    };
+
+    const entry: Omit<InsulinLogEntry, 'id'> = {
+      date: formData.get('date') as string,
+      time: formData.get('time') as string,
+      type: entryType,
+      units: number('units') || 0,
+      correctionUnits: entryType === 'bolus' ? number('correctionUnits') : undefined,
+      carbs: entryType === 'bolus' ? number('carbs') : undefined,
+      mealTag: (formData.get('mealTag') as InsulinLogEntry['mealTag']) || undefined,
+      insulinName: formData.get('insulinName') as string || undefined,
+      notes: formData.get('notes') as string || undefined,
+    };
+
+    await addInsulinLogEntry(patientId, entry);
+    setShowForm(false);
+    form.reset();
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-xl font-semibold">Insulin & Carbs</h3>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 flex items-center gap-2"
+        >
+          <span className="material-symbols-outlined">add</span>
+          Log Dose
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className={`p-4 rounded-lg ${isDark ? 'bg-gray-700' : 'bg-gray-50'}`}>
+          <div className="flex gap-2 mb-4" role="radiogroup" aria-label="Dose type">
+            {(['bolus', 'basal'] as const).map(type => (
+              <button
+                key={type}
+                type="button"
+                role="radio"
+                aria-checked={entryType === type}
+                onClick={() => setEntryType(type)}
+                className={`px-4 py-1.5 rounded-full text-sm font-medium capitalize ${
+                  entryType === type ? 'bg-blue-500 text-white' : isDark ? 'bg-gray-600' : 'bg-gray-200'
+                }`}
+              >
+                {type}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <label htmlFor="insulin-date" className="block mb-2 font-medium">Date</label>
+              <input id="insulin-date" type="date" name="date" required defaultValue={now.toISOString().split('T')[0]} className="w-full p-2 rounded border dark:bg-gray-800" />
+            </div>
+            <div>
+              <label htmlFor="insulin-time" className="block mb-2 font-medium">Time</label>
+              <input id="insulin-time" type="time" name="time" required defaultValue={now.toTimeString().slice(0, 5)} className="w-full p-2 rounded border dark:bg-gray-800" />
+            </div>
+            <div>
+              <label htmlFor="insulin-units" className="block mb-2 font-medium">Units</label>
+              <input id="insulin-units" type="number" name="units" min="0" step="0.5" required={entryType === 'basal'} placeholder="e.g., 6" className="w-full p-2 rounded border dark:bg-gray-800" />
+            </div>
+            <div>
+              <label htmlFor="insulin-name" className="block mb-2 font-medium">Insulin</label>
+              <input id="insulin-name" type="text" name="insulinName" placeholder={entryType === 'basal' ? 'e.g., Tresiba' : 'e.g., NovoRapid'} className="w-full p-2 rounded border dark:bg-gray-800" />
+            </div>
+            {entryType === 'bolus' && (
+              <>
+                <div>
+                  <label htmlFor="insulin-carbs" className="block mb-2 font-medium">Carbs (g)</label>
+                  <input id="insulin-carbs" type="number" name="carbs" min="0" placeholder="e.g., 45" className="w-full p-2 rounded border dark:bg-gray-800" />
+                </div>
+                <div>
+                  <label htmlFor="insulin-correction" className="block mb-2 font-medium">Of which correction</label>
+                  <input id="insulin-correction" type="number" name="correctionUnits" min="0" step="0.5" placeholder="units" className="w-full p-2 rounded border dark:bg-gray-800" />
+                </div>
+                <div>
+                  <label htmlFor="insulin-meal" className="block mb-2 font-medium">Meal</label>
+                  <select id="insulin-meal" name="mealTag" defaultValue="" className="w-full p-2 rounded border dark:bg-gray-800">
+                    <option value="">None</option>
+                    {MEAL_TAGS.map(tag => <option key={tag} value={tag} className="capitalize">{tag}</option>)}
+                  </select>
+                </div>
+              </>
+            )}
+            <div className={entryType === 'bolus' ? '' : 'col-span-2 md:col-span-4'}>
+              <label htmlFor="insulin-notes" className="block mb-2 font-medium">Notes</label>
+              <input id="insulin-notes" type="text" name="notes" className="w-full p-2 rounded border dark:bg-gray-800" />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+            A glucose reading logged within 30 minutes of the dose is linked to it.
+          </p>
+          <div className="flex gap-2 mt-4">
+            <button type="submit" className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600">
+              Save
+            </button>
+            <button type="button" onClick={() => setShowForm(false)} className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {log.length === 0 ? (
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">No doses logged yet.</p>
+      ) : (
+        <>
+          {/* Daily totals */}
+          <div>
+            <h4 className="font-semibold mb-2">Daily Totals</h4>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 pr-4">Day</th>
+                    <th className="py-2 pr-4">Basal</th>
+                    <th className="py-2 pr-4">Bolus</th>
+                    <th className="py-2 pr-4">Correction</th>
+                    <th className="py-2 pr-4">Total</th>
+                    <th className="py-2">Carbs</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {dailyTotals.map(day => (
+                    <tr key={day.date} className="border-b border-gray-100 dark:border-gray-800">
+                      <td className="py-2 pr-4">{new Date(day.date).toLocaleDateString()}</td>
+                      <td className="py-2 pr-4">{day.basal}u <span className="text-xs text-gray-500">({day.basalPercent}%)</span></td>
+                      <td className="py-2 pr-4">{day.bolus}u</td>
+                      <td className="py-2 pr-4">{day.correction}u</td>
+                      <td className="py-2 pr-4 font-semibold">{day.total}u</td>
+                      <td className="py-2">{day.carbs}g</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Ratio review */}
+          {reviews.length > 0 && (
+            <div>
+              <h4 className="font-semibold mb-2">Insulin-to-Carb Ratio Review</h4>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {reviews.map(review => (
+                  <div key={review.mealTag} className={`p-4 rounded-lg border ${isDark ? 'border-gray-600' : 'border-gray-200'}`}>
+                    <div className="flex justify-between items-baseline">
+                      <span className="font-medium capitalize">{review.mealTag}</span>
+                      <span className="text-lg font-bold">{formatCarbRatio(review.averageRatio)}</span>
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {review.meals} meals
+                      {review.averageRise !== undefined && ` • average change ${review.averageRise > 0 ? '+' : ''}${review.averageRise} mg/dL after 2–4 hours`}
+                    </div>
+                    <p className={`text-sm mt-2 ${REVIEW_MESSAGES[review.outcome].className}`}>
+                      {REVIEW_MESSAGES[review.outcome].text}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Entries */}
+          <div className="space-y-2">
+            <h4 className="font-semibold">Log</h4>
+            {entries.slice(0, visibleCount).map(entry => {
+              const reading = entry.glucoseReadingId ? readingsById.get(entry.glucoseReadingId) : undefined;
+              return (
+                <div key={entry.id} className={`p-3 rounded-lg border flex justify-between items-center ${isDark ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'}`}>
+                  <div>
+                    <div className="flex items-center gap-3">
+                      <span className="font-semibold">{new Date(entry.date).toLocaleDateString()} {entry.time}</span>
+                      {entry.units > 0 && <span className="text-lg font-bold">{entry.units}u</span>}
+                      <span className={`text-xs px-2 py-1 rounded ${entry.type === 'basal' ? 'bg-gray-200 text-gray-800 dark:bg-gray-600 dark:text-gray-100' : 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300'}`}>
+                        {entry.type}
+                      </span>
+                      {entry.carbs ? <span className="text-sm">{entry.carbs}g carbs</span> : null}
+                      {entry.mealTag && <span className="text-xs text-gray-500 capitalize">{entry.mealTag}</span>}
+                    </div>
+                    <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                      {[
+                        entry.insulinName,
+                        entry.correctionUnits ? `${entry.correctionUnits}u correction` : undefined,
+                        reading ? `Glucose ${reading.value} mg/dL at ${reading.time}` : undefined,
+                        entry.notes,
+                      ].filter(Boolean).join(' • ')}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => deleteInsulinLogEntry(patientId, entry.id)}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={`Delete ${entry.type} dose at ${entry.date} ${entry.time}`}
+                  >
+                    <span className="material-symbols-outlined text-base">delete</span>
+                  </button>
+                </div>
+              );
+            })}
+            {entries.length > visibleCount && (
+              <button onClick={() => setVisibleCount(visibleCount + ENTRY_PAGE_SIZE)} className="w-full py-2 text-sm text-blue-600 hover:underline">
+                Show more ({entries.length - visibleCount} older entries)
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,301 @@
+import React, { useState, useMemo } from 'react';
+import { useSecureHealthStore } from '../stores/useSecureHealthStore';
+import type { LabFlag, LabResult } from '../types';
+import {
+  LAB_TESTS,
+  LAB_PANELS,
+  createLabResult,
+  getLabTest,
+  getLabTrends,
+  isOutOfRange,
+  type LabTrend,
+} from '../services/labResultsService';
+
+interface LabResultsModuleProps {
+  patientId: string;
+}
+
+const OTHER_TEST = 'other';
+
+export const FLAG_STYLES: Record<LabFlag, { label: string; color: string; bg: string }> = {
+  normal: { label: 'Normal', color: 'text-green-600', bg: 'bg-green-50' },
+  low: { label: 'Low', color: 'text-yellow-600', bg: 'bg-yellow-50' },
+  high: { label: 'High', color: 'text-yellow-600', bg: 'bg-yellow-50' },
+  'critical-low': { label: 'Critically low', color: 'text-red-600', bg: 'bg-red-50' },
+  'critical-high': { label: 'Critically high', color: 'text-red-600', bg: 'bg-red-50' },
+};
+
+const FLAG_FILL: Record<LabFlag, string> = {
+  normal: '#16a34a',
+  low: '#ca8a04',
+  high: '#ca8a04',
+  'critical-low': '#dc2626',
+  'critical-high': '#dc2626',
+};
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+const LabTrendChart: React.FC<{ trend: LabTrend; isDark: boolean }> = ({ trend, isDark }) => {
+  const width = 600;
+  const height = 200;
+  const padding = { top: 16, right: 16, bottom: 28, left: 48 };
+
+  const { results } = trend;
+  const range = trend.latest.referenceRange;
+  const values = [...results.map(r => r.value), range?.low, range?.high].filter((v): v is number => v !== undefined);
+  const spread = Math.max(...values) - Math.min(...values) || Math.abs(values[0]) || 1;
+  const min = Math.min(...values) - spread * 0.1;
+  const max = Math.max(...values) + spread * 0.1;
+
+  const times = results.map(r => new Date(r.date).getTime());
+  const first = Math.min(...times);
+  const span = Math.max(...times) - first;
+
+  const x = (time: number) =>
+    span ? padding.left + ((time - first) / span) * (width - padding.left - padding.right) : width / 2;
+  const y = (value: number) =>
+    padding.top + (1 - (value - min) / (max - min)) * (height - padding.top - padding.bottom);
+
+  const bandTop = y(Math.min(range?.high ?? max, max));
+  const bandBottom = y(Math.max(range?.low ?? min, min));
+  const axisColor = isDark ? '#9ca3af' : '#6b7280';
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label={`${trend.name} trend`}>
+      {range && (range.low !== undefined || range.high !== undefined) && (
+        <rect x={padding.left} y={bandTop} width={width - padding.left - padding.right} height={Math.max(bandBottom - bandTop, 0)} fill="#16a34a" opacity={0.1} />
+      )}
+      {[min, max].map(value => (
+        <text key={value} x={padding.left - 6} y={y(value) + 4} textAnchor="end" fontSize={11} fill={axisColor}>
+          {Number(value.toFixed(1))}
+        </text>
+      ))}
+      <line x1={padding.left} x2={width - padding.right} y1={height - padding.bottom} y2={height - padding.bottom} stroke={axisColor} strokeWidth={0.5} />
+      <polyline
+        points={results.map((r, i) => `${x(times[i])},${y(r.value)}`).join(' ')}
+        fill="none"
+        stroke="#3b82f6"
+        strokeWidth={2}
+      />
+      {results.map((r, i) => (
+        <circle key={r.id} cx={x(times[i])} cy={y(r.value)} r={4} fill={FLAG_FILL[r.flag || 'normal']}>
+          <title>{`${formatDate(r.date)}: ${r.value} ${r.unit}`}</title>
+        </circle>
+      ))}
+      <text x={padding.left} y={height - 8} fontSize={11} fill={axisColor}>{formatDate(results[0].date)}</text>
+      {results.length > 1 && (
+        <text x={width - padding.right} y={height - 8} textAnchor="end" fontSize={11} fill={axisColor}>
+          {formatDate(results[results.length - 1].date)}
+        </text>
+      )}
+    </svg>
+  );
+};
+
+export const LabResultsModule: React.FC<LabResultsModuleProps> = ({ patientId }) => {
+  const { theme, patients, addLabResults, deleteLabResult } = useSecureHealthStore();
+  const patient = patients.find(p => p.id === patientId);
+  const labResults = patient?.labResults;
+
+  const [selectedTestCode, setSelectedTestCode] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formTestCode, setFormTestCode] = useState(LAB_TESTS[0].code);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const isDark = theme === 'dark';
+
+  const trends = useMemo(() => getLabTrends(labResults || []), [labResults]);
+  const selectedTrend = trends.find(t => t.testCode === selectedTestCode) || trends[0];
+  const formTest = getLabTest(formTestCode);
+
+  const handleAddResult = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+
+    const result = createLabResult({
+      name: formTest ? formTest.name : (formData.get('name') as string),
+      value: formData.get('value') as string,
+      unit: formData.get('unit') as string || undefined,
+      reference: formData.get('reference') as string || undefined,
+      date: formData.get('date') as string,
+      notes: formData.get('notes') as string || undefined,
+      source: 'manual',
+    }, patient);
+
+    if (!result) {
+      setFormError('Enter the result as a number');
+      return;
+    }
+    if (formTest && result.testCode !== formTest.code) {
+      setFormError(`${formTest.name} cannot be recorded in that unit`);
+      return;
+    }
+
+    await addLabResults(patientId, [result]);
+    setFormError(null);
+    setShowForm(false);
+    setSelectedTestCode(result.testCode);
+    form.reset();
+  };
+
+  return (
+    <div className={`p-6 rounded-lg ${isDark ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'}`} style={{ minHeight: '200px' }}>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold flex items-center gap-2">
+          <span className="material-symbols-outlined">labs</span>
+          Lab Results
+        </h2>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 flex items-center gap-2"
+        >
+          <span className="material-symbols-outlined">add</span>
+          Add Result
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleAddResult} className={`mb-6 p-4 rounded-lg ${isDark ? 'bg-gray-700' : 'bg-gray-50'}`}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="lab-test" className="block mb-2 font-medium">Test</label>
+              <select id="lab-test" value={formTestCode} onChange={e => setFormTestCode(e.target.value)} className="w-full p-2 rounded border dark:bg-gray-800">
+                {Object.entries(LAB_PANELS).map(([panel, label]) => (
+                  <optgroup key={panel} label={label}>
+                    {LAB_TESTS.filter(test => test.panel === panel).map(test => (
+                      <option key={test.code} value={test.code}>{test.name}</option>
+                    ))}
+                  </optgroup>
+                ))}
+                <option value={OTHER_TEST}>Other test…</option>
+              </select>
+            </div>
+            {!formTest && (
+              <div>
+                <label htmlFor="lab-name" className="block mb-2 font-medium">Test name</label>
+                <input id="lab-name" type="text" name="name" required className="w-full p-2 rounded border dark:bg-gray-800" />
+              </div>
+            )}
+            <div>
+              <label htmlFor="lab-date" className="block mb-2 font-medium">Date</label>
+              <input id="lab-date" type="date" name="date" required className="w-full p-2 rounded border dark:bg-gray-800" />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label htmlFor="lab-value" className="block mb-2 font-medium">Result</label>
+                <input id="lab-value" type="number" step="any" name="value" required className="w-full p-2 rounded border dark:bg-gray-800" />
+              </div>
+              <div>
+                <label htmlFor="lab-unit" className="block mb-2 font-medium">Unit</label>
+                <input
+                  id="lab-unit"
+                  key={formTestCode}
+                  type="text"
+                  name="unit"
+                  list="lab-units"
+                  defaultValue={formTest?.unit}
+                  className="w-full p-2 rounded border dark:bg-gray-800"
+                />
+                <datalist id="lab-units">
+                  {formTest && [formTest.unit, ...Object.keys(formTest.conversions || {})].map(unit => <option key={unit} value={unit} />)}
+                </datalist>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="lab-reference" className="block mb-2 font-medium">Reference range on report</label>
+              <input id="lab-reference" type="text" name="reference" placeholder={formTest ? 'Optional, e.g. 70-100' : 'e.g. 70-100'} className="w-full p-2 rounded border dark:bg-gray-800" />
+            </div>
+            <div className="col-span-2">
+              <label htmlFor="lab-notes" className="block mb-2 font-medium">Notes</label>
+              <textarea id="lab-notes" name="notes" rows={2} className="w-full p-2 rounded border dark:bg-gray-800"></textarea>
+            </div>
+          </div>
+          {formError && <p role="alert" className="text-sm text-red-600 mt-2">{formError}</p>}
+          <div className="flex gap-2 mt-4">
+            <button type="submit" className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600">
+              Save Result
+            </button>
+            <button type="button" onClick={() => { setShowForm(false); setFormError(null); }} className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {trends.length === 0 ? (
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+          No lab results yet. Results are read from attached lab reports, or can be added by hand.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {/* Latest result per test */}
+          <div className="space-y-2">
+            {trends.map(trend => {
+              const flag = trend.latest.flag && FLAG_STYLES[trend.latest.flag];
+              return (
+                <button
+                  key={trend.testCode}
+                  onClick={() => setSelectedTestCode(trend.testCode)}
+                  className={`w-full text-left p-3 rounded-lg border ${
+                    selectedTrend?.testCode === trend.testCode
+                      ? 'border-blue-500'
+                      : isDark ? 'border-gray-600' : 'border-gray-200'
+                  } ${isDark ? 'bg-gray-700' : 'bg-gray-50'}`}
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium">{trend.name}</span>
+                    <span className="material-symbols-outlined text-gray-500">
+                      {trend.direction === 'up' ? 'trending_up' : trend.direction === 'down' ? 'trending_down' : 'trending_flat'}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 mt-1">
+                    <span className={`font-bold ${flag && isOutOfRange(trend.latest) ? flag.color : ''}`}>{trend.latest.value} {trend.unit}</span>
+                    {flag && <span className={`text-xs px-2 py-0.5 rounded ${flag.bg} ${flag.color}`}>{flag.label}</span>}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Trend chart and history of the selected test */}
+          {selectedTrend && (
+            <div className="lg:col-span-2">
+              <h3 className="text-xl font-semibold mb-1">{selectedTrend.name}</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                {selectedTrend.unit}
+                {selectedTrend.latest.referenceRange?.text && ` · reference ${selectedTrend.latest.referenceRange.text}`}
+                {selectedTrend.change !== undefined && ` · ${selectedTrend.change > 0 ? '+' : ''}${selectedTrend.change} since ${formatDate(selectedTrend.previous!.date)}`}
+              </p>
+              <LabTrendChart trend={selectedTrend} isDark={isDark} />
+
+              <div className="space-y-2 mt-4">
+                {[...selectedTrend.results].reverse().map((result: LabResult) => {
+                  const flag = result.flag && FLAG_STYLES[result.flag];
+                  return (
+                    <div key={result.id} className={`p-3 rounded-lg border flex justify-between items-center ${isDark ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'}`}>
+                      <div className="flex items-center gap-3">
+                        <span className="font-semibold">{formatDate(result.date)}</span>
+                        <span>{result.value} {result.unit}</span>
+                        {result.reportedValue && <span className="text-xs text-gray-500">reported {result.reportedValue}</span>}
+                        {flag && <span className={`text-xs px-2 py-0.5 rounded ${flag.bg} ${flag.color}`}>{flag.label}</span>}
+                        <span className="text-xs text-gray-500">{result.source === 'document' ? 'from report' : result.source}</span>
+                      </div>
+                      <button
+                        onClick={() => deleteLabResult(patientId, result.id)}
+                        aria-label={`Delete ${result.name} result from ${formatDate(result.date)}`}
+                        className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                      >
+                        <span className="material-symbols-outlined text-sm">delete</span>
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { useSecureHealthStore } from '../stores/useSecureHealthStore';
+import {
+  ADHERENCE_DEFAULT_DAYS,
+  getMissedDoses,
+  getPatientAdherence,
+  getTodaysDoses,
+  type DoseStatus,
+} from '../services/adherenceService';
+
+interface MedicationAdherenceProps {
+  patientId: string;
+}
+
+const PERIODS = [7, ADHERENCE_DEFAULT_DAYS, 90];
+
+// Missed doses shown before "Show all"
+const MISSED_PREVIEW = 10;
+
+const STATUS_STYLES: Record<DoseStatus, string> = {
+  taken: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  late: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200',
+  skipped: 'bg-gray-200 text-gray-700 dark:bg-gray-600 dark:text-gray-200',
+  missed: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  due: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  upcoming: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const STATUS_LABELS: Record<DoseStatus, string> = {
+  taken: 'Taken',
+  late: 'Taken late',
+  skipped: 'Skipped',
+  missed: 'Missed',
+  due: 'Due now',
+  upcoming: 'Upcoming',
+};
+
+const percentColor = (percent?: number): string => {
+  if (percent === undefined) return 'text-gray-500';
+  if (percent >= 90) return 'text-green-600 dark:text-green-400';
+  if (percent >= 75) return 'text-yellow-600 dark:text-yellow-400';
+  return 'text-red-600 dark:text-red-400';
+};
+
+export const MedicationAdherence: React.FC<MedicationAdherenceProps> = ({ patientId }) => {
+  const { theme, patients, recordDose, undoDose } = useSecureHealthStore();
+  const patient = patients.find(p => p.id === patientId);
+
+  const [days, setDays] = useState(ADHERENCE_DEFAULT_DAYS);
+  const [showAllMissed, setShowAllMissed] = useState(false);
+
+  const isDark = theme === 'dark';
+  const medications = useMemo(() => patient?.currentMedications || [], [patient]);
+  const todaysDoses = useMemo(() => getTodaysDoses(medications), [medications]);
+  const adherence = useMemo(() => getPatientAdherence(medications, days), [medications, days]);
+  const missedDoses = useMemo(() => getMissedDoses(medications, days), [medications, days]);
+
+  if (!patient) return null;
+
+  const scheduled = medications.filter(m => m.timings && m.timings.length > 0);
+  const shownMissed = showAllMissed ? missedDoses : missedDoses.slice(0, MISSED_PREVIEW);
+
+  return (
+    <div className={`p-6 rounded-lg ${isDark ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'}`}>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold flex items-center gap-2">
+          <span className="material-symbols-outlined">task_alt</span>
+          Adherence
+        </h2>
+        <select
+          value={days}
+          onChange={e => setDays(Number(e.target.value))}
+          aria-label="Adherence period"
+          className="p-2 rounded border dark:bg-gray-700"
+        >
+          {PERIODS.map(period => (
+            <option key={period} value={period}>Last {period} days</option>
+          ))}
+        </select>
+      </div>
+
+      {scheduled.length === 0 ? (
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+          Add dose times to a medication to start tracking adherence.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <div>
+            <h3 className="text-lg font-semibold mb-3">Today's doses</h3>
+            {todaysDoses.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No doses scheduled today.</p>
+            ) : (
+              <div className="space-y-2">
+                {todaysDoses.map(dose => (
+                  <div
+                    key={`${dose.medicationId}-${dose.time}`}
+                    className={`p-3 rounded-lg border flex items-center justify-between ${isDark ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'}`}
+                  >
+                    <div className="flex items-center gap-3">
+                      <span className="font-mono text-sm">{dose.time}</span>
+                      <span className="font-medium">{dose.medicationName}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[dose.status]}`}>
+                        {STATUS_LABELS[dose.status]}
+                      </span>
+                    </div>
+                    {dose.event ? (
+                      <button
+                        onClick={() => undoDose(patientId, dose.medicationId, dose.event!.id)}
+                        className="text-sm text-blue-600 hover:underline"
+                      >
+                        Undo
+                      </button>
+                    ) : (
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => recordDose(patientId, dose.medicationId, dose.date, dose.time, 'taken')}
+                          className="px-3 py-1 text-sm bg-green-500 text-white rounded hover:bg-green-600"
+                        >
+                          Taken
+                        </button>
+                        <button
+                          onClick={() => recordDose(patientId, dose.medicationId, dose.date, dose.time, 'skipped')}
+                          className="px-3 py-1 text-sm bg-gray-500 text-white rounded hover:bg-gray-600"
+                        >
+                          Skip
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold mb-3">Over the last {days} days</h3>
+            {adherence.medications.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Adherence is shown once doses have been recorded.
+              </p>
+            ) : (
+              <>
+                <div className={`p-4 rounded-lg mb-3 ${isDark ? 'bg-gray-700' : 'bg-blue-50'}`}>
+                  <div className={`text-3xl font-bold ${percentColor(adherence.percent)}`}>
+                    {adherence.percent !== undefined ? `${adherence.percent}%` : '—'}
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-400">
+                    {adherence.taken + adherence.late} of {adherence.due} doses taken
+                    {adherence.late > 0 && ` (${adherence.late} late)`}
+                    {adherence.skipped > 0 && ` • ${adherence.skipped} skipped`}
+                    {adherence.missed > 0 && ` • ${adherence.missed} missed`}
+                  </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {adherence.medications.map(medication => (
+                    <div
+                      key={medication.medicationId}
+                      className={`p-3 rounded-lg border ${isDark ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{medication.medicationName}</span>
+                        <span className={`font-bold ${percentColor(medication.percent)}`}>
+                          {medication.percent !== undefined ? `${medication.percent}%` : '—'}
+                        </span>
+                      </div>
+                      <div className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                        {medication.taken + medication.late}/{medication.due} doses
+                        {medication.streak > 0 && ` • ${medication.streak}-day streak`}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+
+          {missedDoses.length > 0 && (
+            <div>
+              <h3 className="text-lg font-semibold mb-3">Missed doses ({missedDoses.length})</h3>
+              <div className="space-y-2">
+                {shownMissed.map(dose => (
+                  <div
+                    key={`${dose.medicationId}-${dose.date}-${dose.time}`}
+                    className={`p-3 rounded-lg border flex items-center justify-between ${isDark ? 'bg-gray-700 border-gray-600' : 'bg-red-50 border-red-100'}`}
+                  >
+                    <div>
+                      <span className="font-medium">{dose.medicationName}</span>
+                      <span className="text-sm text-gray-600 dark:text-gray-400 ml-2">
+                        {new Date(`${dose.date}T${dose.time}`).toLocaleDateString()} at {dose.time}
+                      </span>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => recordDose(patientId, dose.medicationId, dose.date, dose.time, 'taken')}
+                        className="text-sm text-blue-600 hover:underline"
+                      >
+                        Was taken
+                      </button>
+                      <button
+                        onClick={() => recordDose(patientId, dose.medicationId, dose.date, dose.time, 'skipped')}
+                        className="text-sm text-gray-600 dark:text-gray-300 hover:underline"
+                      >
+                        Was skipped
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {missedDoses.length > MISSED_PREVIEW && (
+                <button onClick={() => setShowAllMissed(!showAllMissed)} className="mt-2 text-sm text-blue-600 hover:underline">
+                  {showAllMissed ? 'Show fewer' : `Show all ${missedDoses.length}`}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
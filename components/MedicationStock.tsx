@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { useSecureHealthStore } from '../stores/useSecureHealthStore';
+import type { Medication } from '../types';
+import { REFILL_REMINDER_DEFAULT_DAYS, getStockForecast, type StockForecast } from '../services/medicationStockService';
+
+interface MedicationStockProps {
+  patientId: string;
+}
+
+const forecastText = (forecast?: StockForecast): string => {
+  if (!forecast) return 'Stock not tracked';
+  if (forecast.dailyUsage === 0) return `${forecast.remaining} left, taken as needed`;
+  if (forecast.daysLeft === 0) return 'Runs out today';
+  const runOut = new Date(`${forecast.runOutDate}T00:00`).toLocaleDateString();
+  return `${forecast.remaining} left, about ${forecast.daysLeft} day${forecast.daysLeft === 1 ? '' : 's'} (until ${runOut})`;
+};
+
+const forecastColor = (forecast?: StockForecast): string => {
+  if (!forecast?.needsRefill) return 'text-gray-600 dark:text-gray-400';
+  if (forecast.daysLeft! <= 3) return 'text-red-600 dark:text-red-400';
+  if (forecast.daysLeft! <= 14) return 'text-orange-600 dark:text-orange-400';
+  return 'text-green-600 dark:text-green-400';
+};
+
+export const MedicationStock: React.FC<MedicationStockProps> = ({ patientId }) => {
+  const { theme, patients, updateMedicationStock, refillMedication } = useSecureHealthStore();
+  const patient = patients.find(p => p.id === patientId);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const isDark = theme === 'dark';
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>, medication: Medication) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    const packSize = formData.get('packSize') as string;
+    const reminderDays = formData.get('refillReminderDays') as string;
+
+    await updateMedicationStock(patientId, medication.id, {
+      pillCount: Number(formData.get('pillCount')),
+      packSize: packSize ? Number(packSize) : undefined,
+      refillReminderDays: reminderDays ? Number(reminderDays) : undefined,
+    });
+    setEditingId(null);
+  };
+
+  if (!patient) return null;
+
+  return (
+    <div className={`p-6 rounded-lg ${isDark ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'}`}>
+      <h2 className="text-2xl font-bold flex items-center gap-2 mb-6">
+        <span className="material-symbols-outlined">inventory_2</span>
+        Pill Stock
+      </h2>
+
+      {patient.currentMedications.length === 0 ? (
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">No current medications.</p>
+      ) : (
+        <div className="space-y-3">
+          {patient.currentMedications.map(medication => {
+            const forecast = getStockForecast(medication);
+            return (
+              <div key={medication.id} className={`p-4 rounded-lg border ${isDark ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="font-semibold">{medication.name}</div>
+                    <div className={`text-sm mt-1 ${forecastColor(forecast)}`}>{forecastText(forecast)}</div>
+                    {forecast && (
+                      <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {forecast.dailyUsage > 0 && `Uses ${forecast.dailyUsage} a day • `}
+                        {forecast.source === 'doses' ? 'Counting recorded doses' : 'Counting from the schedule'}
+                        {medication.packSize && ` • Pack of ${medication.packSize}`}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    {forecast && medication.packSize && (
+                      <button
+                        onClick={() => refillMedication(patientId, medication.id)}
+                        className="px-3 py-1 text-sm bg-green-500 text-white rounded hover:bg-green-600"
+                      >
+                        Refilled
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setEditingId(editingId === medication.id ? null : medication.id)}
+                      className="px-3 py-1 text-sm text-blue-600 hover:underline"
+                    >
+                      {forecast ? 'Recount' : 'Track stock'}
+                    </button>
+                  </div>
+                </div>
+
+                {editingId === medication.id && (
+                  <form onSubmit={e => handleSubmit(e, medication)} className="grid grid-cols-1 md:grid-cols-4 gap-3 mt-4 items-end">
+                    <div>
+                      <label htmlFor={`stock-count-${medication.id}`} className="block mb-1 text-sm font-medium">Units on hand</label>
+                      <input
+                        id={`stock-count-${medication.id}`}
+                        type="number"
+                        name="pillCount"
+                        min="0"
+                        step="0.5"
+                        required
+                        defaultValue={forecast?.remaining}
+                        className="w-full p-2 rounded border dark:bg-gray-800"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor={`stock-pack-${medication.id}`} className="block mb-1 text-sm font-medium">Pack size</label>
+                      <input
+                        id={`stock-pack-${medication.id}`}
+                        type="number"
+                        name="packSize"
+                        min="1"
+                        defaultValue={medication.packSize}
+                        className="w-full p-2 rounded border dark:bg-gray-800"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor={`stock-reminder-${medication.id}`} className="block mb-1 text-sm font-medium">Remind days before</label>
+                      <input
+                        id={`stock-reminder-${medication.id}`}
+                        type="number"
+                        name="refillReminderDays"
+                        min="0"
+                        placeholder={String(REFILL_REMINDER_DEFAULT_DAYS)}
+                        defaultValue={medication.refillReminderDays}
+                        className="w-full p-2 rounded border dark:bg-gray-800"
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <button type="submit" className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600">
+                        Save
+                      </button>
+                      <button type="button" onClick={() => setEditingId(null)} className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600">
+                        Cancel
+                      </button>
+                    </div>
+                  </form>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
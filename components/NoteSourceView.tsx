@@ -0,0 +1,106 @@
+import React, { useMemo, useState } from 'react';
+import { ParsedMedicalData, SourceSpan } from '../services/medicalRecordParser';
+
+interface NoteSourceViewProps {
+  text: string;
+  parsedData: ParsedMedicalData;
+}
+
+interface SourcedItem {
+  key: string;
+  label: string;
+  span: SourceSpan;
+}
+
+const GROUPS = [
+  { field: 'chiefComplaints', title: 'Complaints', className: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200' },
+  { field: 'investigations', title: 'Investigations', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200' },
+  { field: 'diagnoses', title: 'Diagnoses', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200' },
+  { field: 'prescriptions', title: 'Prescriptions', className: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-200' },
+  { field: 'notes', title: 'Notes', className: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200' },
+] as const;
+
+/**
+ * The text a record was parsed from, with each extracted item highlighted
+ * where it was found. Hovering or selecting an item marks its source.
+ */
+const NoteSourceView: React.FC<NoteSourceViewProps> = ({ text, parsedData }) => {
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const [pinnedKey, setPinnedKey] = useState<string | null>(null);
+  const sources = parsedData.sources;
+
+  const groups = useMemo(() => {
+    if (!sources) return [];
+    return GROUPS.map(group => ({
+      ...group,
+      items: sources[group.field].map((span, i): SourcedItem => {
+        const value = parsedData[group.field][i];
+        const label = typeof value === 'string'
+          ? value
+          : [value.name, value.strength, value.frequency].filter(Boolean).join(' ');
+        return { key: `${group.field}-${i}`, label, span };
+      }),
+    })).filter(group => group.items.length > 0);
+  }, [parsedData, sources]);
+
+  if (!sources || groups.length === 0) return null;
+
+  const highlighted = activeKey || pinnedKey;
+  const spans = groups
+    .flatMap(group => group.items.map(item => ({ ...item, className: group.className })))
+    .sort((a, b) => a.span.start - b.span.start);
+
+  // Split the text into plain runs and the spans items came from
+  const segments: React.ReactNode[] = [];
+  let position = 0;
+  for (const { key, span, className } of spans) {
+    if (span.start < position) continue;
+    if (span.start > position) segments.push(text.slice(position, span.start));
+    segments.push(
+      <mark
+        key={key}
+        className={`rounded px-0.5 ${key === highlighted ? 'bg-yellow-300 text-gray-900 ring-2 ring-yellow-400' : className}`}
+      >
+        {text.slice(span.start, span.end)}
+      </mark>
+    );
+    position = span.end;
+  }
+  segments.push(text.slice(position));
+
+  return (
+    <div className='grid gap-4 md:grid-cols-2'>
+      <div className='space-y-3'>
+        {groups.map(group => (
+          <div key={group.field}>
+            <h4 className='text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1'>
+              {group.title}
+            </h4>
+            <div className='flex flex-wrap gap-1'>
+              {group.items.map(item => (
+                <button
+                  key={item.key}
+                  onMouseEnter={() => setActiveKey(item.key)}
+                  onMouseLeave={() => setActiveKey(null)}
+                  onFocus={() => setActiveKey(item.key)}
+                  onBlur={() => setActiveKey(null)}
+                  onClick={() => setPinnedKey(pinnedKey === item.key ? null : item.key)}
+                  className={`px-2 py-1 text-xs rounded-md text-left transition-shadow ${group.className} ${
+                    item.key === highlighted ? 'ring-2 ring-yellow-400' : ''
+                  }`}
+                >
+                  {item.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <pre className='whitespace-pre-wrap font-sans text-sm text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-900/20 p-3 rounded-lg border border-gray-200 dark:border-gray-700'>
+        {segments}
+      </pre>
+    </div>
+  );
+};
+
+export default NoteSourceView;
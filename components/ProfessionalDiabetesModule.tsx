@@ -20,23 +20,40 @@ import type {
   BloodGlucoseReading,
   DiabetesMedication,
 } from '../types';
+import { useSecureHealthStore } from '../stores/useSecureHealthStore';
+import { buildAgpReport } from '../services/agpService';
+import { generateAgpPdf } from '../services/pdfService';
+import { AgpReport } from './AgpReport';
 
 interface ProfessionalDiabetesModuleProps {
+  // Either the record itself or the patient to read it from the store for
+  patientId?: string;
   diabetesRecord?: DiabetesRecord;
   onUpdate?: (diabetesRecord: DiabetesRecord) => void;
 }
 
 const ProfessionalDiabetesModule: React.FC<ProfessionalDiabetesModuleProps> = ({
-  diabetesRecord,
+  patientId,
+  diabetesRecord: recordProp,
   onUpdate,
 }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'hba1c' | 'glucose' | 'medications'>(
+  const { patients } = useSecureHealthStore();
+  const patient = patients.find(p => p.id === (patientId || recordProp?.patientId));
+  const diabetesRecord = recordProp || patient?.diabetesRecord;
+
+  const [activeTab, setActiveTab] = useState<'overview' | 'agp' | 'hba1c' | 'glucose' | 'medications'>(
     'overview',
   );
   const [showHba1cForm, setShowHba1cForm] = useState(false);
   const [showGlucoseForm, setShowGlucoseForm] = useState(false);
   const [showMedicationForm, setShowMedicationForm] = useState(false);
 
+  // AGP over the last 14 days
+  const agpReport = useMemo(
+    () => (diabetesRecord ? buildAgpReport(diabetesRecord.bloodGlucoseReadings) : undefined),
+    [diabetesRecord],
+  );
+
   // Calculate diabetes management metrics
   const diabetesMetrics = useMemo(() => {
     if (!diabetesRecord) return null;
@@ -89,13 +106,9 @@ const ProfessionalDiabetesModule: React.FC<ProfessionalDiabetesModuleProps> = ({
       {} as Record<string, { average: number; count: number; inRange: number }>,
     );
 
-    // Time in range percentage
-    const totalReadings = diabetesRecord.bloodGlucoseReadings.length;
-    const inRangeReadings = Object.values(averageGlucose).reduce(
-      (sum, data) => sum + data.inRange,
-      0,
-    );
-    const timeInRange = totalReadings > 0 ? (inRangeReadings / totalReadings) * 100 : 0;
+    // Time in range (70-180 mg/dL) over the AGP period
+    const totalReadings = agpReport?.readingCount || 0;
+    const timeInRange = agpReport?.ranges.inRange || 0;
 
     // Recent readings (last 7 days)
     const sevenDaysAgo = new Date();
@@ -128,7 +141,7 @@ const ProfessionalDiabetesModule: React.FC<ProfessionalDiabetesModuleProps> = ({
       lastCheckup: diabetesRecord.lastCheckup,
       nextCheckup: diabetesRecord.nextCheckup,
     };
-  }, [diabetesRecord]);
+  }, [diabetesRecord, agpReport]);
 
   const getHbA1cColor = (value: number) => {
     if (value < 5.7) return 'text-green-600';
@@ -207,8 +220,10 @@ const ProfessionalDiabetesModule: React.FC<ProfessionalDiabetesModuleProps> = ({
           </div>
           <div className='flex gap-2'>
             <button
-              className='p-2.5 bg-white/10 hover:bg-white/20 backdrop-blur rounded-lg transition-all border border-white/20'
-              title='Export diabetes records'
+              onClick={() => patient && agpReport && generateAgpPdf(patient, agpReport)}
+              disabled={!patient || !agpReport}
+              className='p-2.5 bg-white/10 hover:bg-white/20 backdrop-blur rounded-lg transition-all border border-white/20 disabled:opacity-50'
+              title='Export AGP report (PDF)'
             >
               <Download className='h-5 w-5 text-indigo-200' />
             </button>
@@ -266,7 +281,7 @@ const ProfessionalDiabetesModule: React.FC<ProfessionalDiabetesModuleProps> = ({
       {/* Navigation Tabs */}
       <div className='border-b border-gray-200 dark:border-gray-700'>
         <nav className='flex space-x-8 px-6'>
-          {['overview', 'hba1c', 'glucose', 'medications'].map(tab => (
+          {['overview', 'agp', 'hba1c', 'glucose', 'medications'].map(tab => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab as any)}
@@ -276,7 +291,7 @@ const ProfessionalDiabetesModule: React.FC<ProfessionalDiabetesModuleProps> = ({
                   : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
               }`}
             >
-              {tab === 'hba1c' ? 'HbA1c' : tab}
+              {tab === 'hba1c' ? 'HbA1c' : tab === 'agp' ? 'AGP' : tab}
             </button>
           ))}
         </nav>
@@ -375,8 +390,8 @@ const ProfessionalDiabetesModule: React.FC<ProfessionalDiabetesModuleProps> = ({
                   {diabetesMetrics?.timeInRange.toFixed(0)}%
                 </span>
                 <div className='text-sm text-gray-600'>
-                  <div>Target: ≥70%</div>
-                  <div>{diabetesMetrics?.totalGlucoseReadings} total readings</div>
+                  <div>Target: ≥70% at 70–180 mg/dL</div>
+                  <div>{diabetesMetrics?.totalGlucoseReadings} readings in the last 14 days</div>
                 </div>
               </div>
               <div className='mt-4 bg-gray-200 rounded-full h-4'>
@@ -454,6 +469,32 @@ const ProfessionalDiabetesModule: React.FC<ProfessionalDiabetesModuleProps> = ({
           </div>
         )}
 
+        {/* AGP Tab */}
+        {activeTab === 'agp' && (
+          <div className='space-y-4'>
+            <div className='flex items-center justify-between'>
+              <h3 className='text-lg font-semibold text-gray-900'>Ambulatory Glucose Profile</h3>
+              {patient && agpReport && (
+                <button
+                  onClick={() => generateAgpPdf(patient, agpReport)}
+                  className='flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg transition-colors'
+                >
+                  <Download className='h-4 w-4' />
+                  Export PDF
+                </button>
+              )}
+            </div>
+            {agpReport ? (
+              <AgpReport report={agpReport} />
+            ) : (
+              <div className='text-center py-8'>
+                <Droplet className='h-12 w-12 text-gray-400 mx-auto mb-3' />
+                <p className='text-gray-500'>No glucose readings in the last 14 days</p>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* HbA1c Tab */}
         {activeTab === 'hba1c' && (
           <div className='space-y-4'>
@@ -0,0 +1,525 @@
+import React, { useState, useMemo } from 'react';
+import { useSecureHealthStore } from '../stores/useSecureHealthStore';
+import type { AntihypertensiveMedication, HomeBloodPressureReading } from '../types';
+import {
+  BP_CATEGORIES,
+  DRUG_CLASS_LABELS,
+  MORNING_EVENING_THRESHOLD,
+  analyseMorningEvening,
+  classifyBloodPressure,
+  formatBloodPressure,
+  getActiveMedications,
+  getLatestReading,
+  getPeriodAverages,
+  getReadingPeriod,
+  isAtTarget,
+  sortReadings,
+  type BpAverage,
+  type BpCategory,
+} from '../services/hypertensionService';
+import { toLocalDate } from '../services/adherenceService';
+
+interface ProfessionalHypertensionModuleProps {
+  patientId: string;
+}
+
+const CATEGORY_STYLES: Record<BpCategory, string> = {
+  normal: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200',
+  elevated: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-200',
+  stage1: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-200',
+  stage2: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200',
+  crisis: 'bg-red-600 text-white',
+};
+
+const inputClass = 'w-full p-2 rounded border dark:bg-gray-800 dark:border-gray-600';
+
+const CategoryBadge: React.FC<{ reading: Pick<BpAverage, 'systolic' | 'diastolic'> }> = ({ reading }) => {
+  const category = classifyBloodPressure(reading.systolic, reading.diastolic);
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${CATEGORY_STYLES[category]}`}>
+      {BP_CATEGORIES[category].label}
+    </span>
+  );
+};
+
+const ProfessionalHypertensionModule: React.FC<ProfessionalHypertensionModuleProps> = ({ patientId }) => {
+  const {
+    patients,
+    initializeHypertensionRecord,
+    addBloodPressureReading,
+    deleteBloodPressureReading,
+    addAntihypertensiveMedication,
+    updateAntihypertensiveMedication,
+    deleteAntihypertensiveMedication,
+    updateHypertensionRecord,
+  } = useSecureHealthStore();
+  const patient = patients.find(p => p.id === patientId);
+  const record = patient?.hypertensionRecord;
+
+  const [activeTab, setActiveTab] = useState<'overview' | 'readings' | 'medications'>('overview');
+  const [showReadingForm, setShowReadingForm] = useState(false);
+  const [showMedicationForm, setShowMedicationForm] = useState(false);
+  const [editingTarget, setEditingTarget] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const metrics = useMemo(() => {
+    if (!record) return null;
+    return {
+      latest: getLatestReading(record.readings),
+      periods: getPeriodAverages(record),
+      morningEvening: analyseMorningEvening(record.readings),
+      activeMedications: getActiveMedications(record.medications),
+    };
+  }, [record]);
+
+  const readings = useMemo(() => (record ? sortReadings(record.readings).reverse() : []), [record]);
+
+  const handleAddReading = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+    const systolic = parseInt(formData.get('systolic') as string, 10);
+    const diastolic = parseInt(formData.get('diastolic') as string, 10);
+    const pulse = formData.get('pulse') as string;
+
+    if (systolic <= diastolic) {
+      setFormError('Systolic pressure (the top number) must be higher than diastolic.');
+      return;
+    }
+
+    const reading: Omit<HomeBloodPressureReading, 'id'> = {
+      date: formData.get('date') as string,
+      time: formData.get('time') as string,
+      systolic,
+      diastolic,
+      pulse: pulse ? parseInt(pulse, 10) : undefined,
+      arm: formData.get('arm') as HomeBloodPressureReading['arm'],
+      position: formData.get('position') as HomeBloodPressureReading['position'],
+      notes: formData.get('notes') as string || undefined,
+    };
+
+    await addBloodPressureReading(patientId, reading);
+    setFormError(null);
+    setShowReadingForm(false);
+    form.reset();
+  };
+
+  const handleAddMedication = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+
+    const medication: Omit<AntihypertensiveMedication, 'id'> = {
+      name: formData.get('name') as string,
+      drugClass: formData.get('drugClass') as AntihypertensiveMedication['drugClass'],
+      dosage: formData.get('dosage') as string,
+      frequency: formData.get('frequency') as string,
+      startDate: formData.get('startDate') as string,
+      notes: formData.get('notes') as string || undefined,
+    };
+
+    await addAntihypertensiveMedication(patientId, medication);
+    setShowMedicationForm(false);
+    form.reset();
+  };
+
+  const handleSaveTarget = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    await updateHypertensionRecord(patientId, {
+      targetSystolic: parseInt(formData.get('targetSystolic') as string, 10),
+      targetDiastolic: parseInt(formData.get('targetDiastolic') as string, 10),
+    });
+    setEditingTarget(false);
+  };
+
+  if (!patient) return null;
+
+  if (!record || !metrics) {
+    return (
+      <div className='p-8 text-center'>
+        <span className='material-symbols-outlined text-5xl text-gray-400'>blood_pressure</span>
+        <h3 className='text-lg font-medium text-gray-900 dark:text-gray-100 mt-2 mb-2'>No Hypertension Record</h3>
+        <p className='text-gray-500 dark:text-gray-400'>
+          Log home blood pressure readings to see averages and morning-vs-evening patterns.
+        </p>
+        <button
+          onClick={() => initializeHypertensionRecord(patientId)}
+          className='mt-4 px-4 py-2 bg-rose-600 hover:bg-rose-700 text-white rounded-lg transition-colors'
+        >
+          Start Tracking Blood Pressure
+        </button>
+      </div>
+    );
+  }
+
+  const { latest, periods, morningEvening, activeMedications } = metrics;
+  const target = `${record.targetSystolic}/${record.targetDiastolic}`;
+
+  return (
+    <div className='rounded-xl'>
+      {/* Header */}
+      <div className='bg-gradient-to-r from-rose-700 to-red-800 p-6 rounded-t-xl'>
+        <div className='flex items-center justify-between mb-4'>
+          <div className='flex items-center gap-3'>
+            <div className='w-14 h-14 bg-white/10 backdrop-blur rounded-xl flex items-center justify-center border border-white/20'>
+              <span className='material-symbols-outlined text-3xl text-white'>blood_pressure</span>
+            </div>
+            <div>
+              <h2 className='text-2xl font-bold text-white mb-1'>Hypertension Care</h2>
+              <p className='text-rose-200 text-sm'>Home blood pressure monitoring against a target of {target} mmHg</p>
+            </div>
+          </div>
+          <button
+            onClick={() => { setActiveTab('readings'); setShowReadingForm(true); }}
+            className='flex items-center gap-2 px-4 py-2.5 bg-white text-rose-800 rounded-lg hover:bg-rose-50 transition-all font-medium shadow-sm'
+          >
+            <span className='material-symbols-outlined'>add</span>
+            Log Reading
+          </button>
+        </div>
+
+        {/* Quick Stats */}
+        <div className='grid grid-cols-2 md:grid-cols-4 gap-4'>
+          <div className='bg-white/10 backdrop-blur rounded-lg p-3 border border-white/20'>
+            <div className='text-rose-100 text-sm'>Latest</div>
+            <div className='text-2xl font-bold text-white'>{latest ? formatBloodPressure(latest) : 'N/A'}</div>
+            {latest && <div className='text-xs text-rose-200'>{new Date(latest.date).toLocaleDateString()} {latest.time}</div>}
+          </div>
+          <div className='bg-white/10 backdrop-blur rounded-lg p-3 border border-white/20'>
+            <div className='text-rose-100 text-sm'>7-Day Average</div>
+            <div className='text-2xl font-bold text-white'>
+              {periods[0].average ? formatBloodPressure(periods[0].average) : 'N/A'}
+            </div>
+            <div className='text-xs text-rose-200'>{periods[0].average?.count || 0} readings</div>
+          </div>
+          <div className='bg-white/10 backdrop-blur rounded-lg p-3 border border-white/20'>
+            <div className='text-rose-100 text-sm'>At Target (30 days)</div>
+            <div className='text-2xl font-bold text-white'>{periods[1].atTarget}%</div>
+          </div>
+          <div className='bg-white/10 backdrop-blur rounded-lg p-3 border border-white/20'>
+            <div className='text-rose-100 text-sm'>Active Meds</div>
+            <div className='text-2xl font-bold text-white'>{activeMedications.length}</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Navigation Tabs */}
+      <div className='border-b border-gray-200 dark:border-gray-700'>
+        <nav className='flex space-x-8 px-6'>
+          {(['overview', 'readings', 'medications'] as const).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors capitalize ${
+                activeTab === tab
+                  ? 'border-rose-500 text-rose-600 dark:text-rose-400'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+              }`}
+            >
+              {tab}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      <div className='p-6'>
+        {/* Overview Tab */}
+        {activeTab === 'overview' && (
+          <div className='space-y-6'>
+            {/* Period Averages */}
+            <div>
+              <h3 className='text-lg font-semibold mb-3'>Average Blood Pressure</h3>
+              <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+                {periods.map(({ days, average, atTarget }) => (
+                  <div key={days} className='p-4 rounded-lg border border-gray-200 dark:border-gray-700'>
+                    <div className='flex items-center justify-between'>
+                      <span className='text-sm text-gray-500 dark:text-gray-400'>Last {days} days</span>
+                      {average && <CategoryBadge reading={average} />}
+                    </div>
+                    {average ? (
+                      <>
+                        <div className='text-3xl font-bold mt-1'>
+                          {formatBloodPressure(average)} <span className='text-sm font-normal text-gray-500'>mmHg</span>
+                        </div>
+                        <div className='text-xs text-gray-500 dark:text-gray-400 mt-1'>
+                          {average.count} readings{average.pulse ? ` • pulse ${average.pulse} bpm` : ''}
+                        </div>
+                        <div className='mt-3 bg-gray-200 dark:bg-gray-700 rounded-full h-2'>
+                          <div
+                            className={`h-2 rounded-full ${atTarget >= 70 ? 'bg-green-500' : atTarget >= 50 ? 'bg-yellow-500' : 'bg-red-500'}`}
+                            style={{ width: `${atTarget}%` }}
+                          />
+                        </div>
+                        <div className='text-xs text-gray-500 dark:text-gray-400 mt-1'>{atTarget}% below {target}</div>
+                      </>
+                    ) : (
+                      <div className='text-gray-400 mt-2'>No readings</div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Morning vs Evening */}
+            <div className='p-4 rounded-lg border border-gray-200 dark:border-gray-700'>
+              <h3 className='text-lg font-semibold mb-3'>Morning vs Evening (last {morningEvening.days} days)</h3>
+              <div className='grid grid-cols-2 gap-4'>
+                {([['Morning', 'wb_sunny', morningEvening.morning], ['Evening', 'dark_mode', morningEvening.evening]] as const).map(
+                  ([label, icon, average]) => (
+                    <div key={label} className='flex items-center gap-3'>
+                      <span className='material-symbols-outlined text-gray-500'>{icon}</span>
+                      <div>
+                        <div className='text-sm text-gray-500 dark:text-gray-400'>{label}</div>
+                        <div className='text-xl font-bold'>{average ? formatBloodPressure(average) : '—'}</div>
+                        {average && <div className='text-xs text-gray-500'>{average.count} readings</div>}
+                      </div>
+                    </div>
+                  )
+                )}
+              </div>
+              <p className='text-sm mt-3 text-gray-600 dark:text-gray-300'>
+                {morningEvening.pattern === undefined
+                  ? 'Log readings both in the morning (4am-noon) and evening (after 4pm) to compare them.'
+                  : morningEvening.pattern === 'balanced'
+                    ? `Morning and evening readings are within ${MORNING_EVENING_THRESHOLD} mmHg of each other.`
+                    : `${morningEvening.pattern === 'morning' ? 'Morning' : 'Evening'} systolic pressure averages ${Math.abs(morningEvening.systolicDifference!)} mmHg higher. Ask your doctor whether the timing of your medication should change.`}
+              </p>
+            </div>
+
+            {/* Target */}
+            <div className='p-4 rounded-lg border border-gray-200 dark:border-gray-700'>
+              {editingTarget ? (
+                <form onSubmit={handleSaveTarget} className='flex flex-wrap items-end gap-3'>
+                  <div>
+                    <label htmlFor='bp-target-systolic' className='block text-sm mb-1'>Target systolic</label>
+                    <input id='bp-target-systolic' name='targetSystolic' type='number' min='90' max='180' defaultValue={record.targetSystolic} required className={inputClass} />
+                  </div>
+                  <div>
+                    <label htmlFor='bp-target-diastolic' className='block text-sm mb-1'>Target diastolic</label>
+                    <input id='bp-target-diastolic' name='targetDiastolic' type='number' min='50' max='110' defaultValue={record.targetDiastolic} required className={inputClass} />
+                  </div>
+                  <button type='submit' className='px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600'>Save</button>
+                  <button type='button' onClick={() => setEditingTarget(false)} className='px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600'>Cancel</button>
+                </form>
+              ) : (
+                <div className='flex items-center justify-between'>
+                  <div>
+                    <div className='text-sm text-gray-500 dark:text-gray-400'>Target set with your doctor</div>
+                    <div className='text-xl font-bold'>Below {target} mmHg</div>
+                  </div>
+                  <button onClick={() => setEditingTarget(true)} className='text-sm text-rose-600 hover:underline'>Change</button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Readings Tab */}
+        {activeTab === 'readings' && (
+          <div className='space-y-4'>
+            {showReadingForm ? (
+              <form onSubmit={handleAddReading} className='p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/20'>
+                <div className='grid grid-cols-2 md:grid-cols-4 gap-4'>
+                  <div>
+                    <label htmlFor='bp-date' className='block mb-1 text-sm font-medium'>Date</label>
+                    <input id='bp-date' name='date' type='date' required defaultValue={toLocalDate(new Date())} className={inputClass} />
+                  </div>
+                  <div>
+                    <label htmlFor='bp-time' className='block mb-1 text-sm font-medium'>Time</label>
+                    <input id='bp-time' name='time' type='time' required defaultValue={new Date().toTimeString().slice(0, 5)} className={inputClass} />
+                  </div>
+                  <div>
+                    <label htmlFor='bp-systolic' className='block mb-1 text-sm font-medium'>Systolic (mmHg)</label>
+                    <input id='bp-systolic' name='systolic' type='number' min='60' max='260' required className={inputClass} />
+                  </div>
+                  <div>
+                    <label htmlFor='bp-diastolic' className='block mb-1 text-sm font-medium'>Diastolic (mmHg)</label>
+                    <input id='bp-diastolic' name='diastolic' type='number' min='30' max='160' required className={inputClass} />
+                  </div>
+                  <div>
+                    <label htmlFor='bp-pulse' className='block mb-1 text-sm font-medium'>Pulse (bpm)</label>
+                    <input id='bp-pulse' name='pulse' type='number' min='30' max='220' className={inputClass} />
+                  </div>
+                  <div>
+                    <label htmlFor='bp-arm' className='block mb-1 text-sm font-medium'>Arm</label>
+                    <select id='bp-arm' name='arm' defaultValue='left' className={inputClass}>
+                      <option value='left'>Left</option>
+                      <option value='right'>Right</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor='bp-position' className='block mb-1 text-sm font-medium'>Position</label>
+                    <select id='bp-position' name='position' defaultValue='sitting' className={inputClass}>
+                      <option value='sitting'>Sitting</option>
+                      <option value='standing'>Standing</option>
+                      <option value='lying'>Lying down</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor='bp-notes' className='block mb-1 text-sm font-medium'>Notes</label>
+                    <input id='bp-notes' name='notes' type='text' placeholder='e.g. before medicine' className={inputClass} />
+                  </div>
+                </div>
+                {formError && <p role='alert' className='text-sm text-red-600 mt-2'>{formError}</p>}
+                <div className='flex gap-2 mt-4'>
+                  <button type='submit' className='px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600'>Save Reading</button>
+                  <button type='button' onClick={() => { setShowReadingForm(false); setFormError(null); }} className='px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600'>Cancel</button>
+                </div>
+              </form>
+            ) : (
+              <button onClick={() => setShowReadingForm(true)} className='px-4 py-2 bg-rose-600 text-white rounded-lg hover:bg-rose-700 flex items-center gap-2'>
+                <span className='material-symbols-outlined'>add</span>
+                Log Reading
+              </button>
+            )}
+
+            {readings.length === 0 ? (
+              <p className='text-center py-8 text-gray-500 dark:text-gray-400'>No readings logged yet.</p>
+            ) : (
+              <div className='overflow-x-auto'>
+                <table className='w-full text-sm'>
+                  <thead>
+                    <tr className='text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700'>
+                      <th className='py-2 pr-4'>When</th>
+                      <th className='py-2 pr-4'>Reading</th>
+                      <th className='py-2 pr-4'>Pulse</th>
+                      <th className='py-2 pr-4'>Arm / Position</th>
+                      <th className='py-2 pr-4'>Category</th>
+                      <th className='py-2' />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {readings.map(reading => (
+                      <tr key={reading.id} className='border-b border-gray-100 dark:border-gray-800'>
+                        <td className='py-2 pr-4'>
+                          {new Date(reading.date).toLocaleDateString()} {reading.time}
+                          <span className='ml-1 text-xs text-gray-400 capitalize'>
+                            {getReadingPeriod(reading.time) !== 'other' && getReadingPeriod(reading.time)}
+                          </span>
+                        </td>
+                        <td className={`py-2 pr-4 font-semibold ${isAtTarget(reading, record) ? 'text-green-600' : ''}`}>
+                          {formatBloodPressure(reading)}
+                        </td>
+                        <td className='py-2 pr-4'>{reading.pulse ?? '—'}</td>
+                        <td className='py-2 pr-4 capitalize'>{reading.arm} / {reading.position}</td>
+                        <td className='py-2 pr-4'><CategoryBadge reading={reading} /></td>
+                        <td className='py-2 text-right'>
+                          <button
+                            onClick={() => deleteBloodPressureReading(patientId, reading.id)}
+                            className='text-gray-400 hover:text-red-600'
+                            aria-label={`Delete reading ${formatBloodPressure(reading)} on ${reading.date}`}
+                          >
+                            <span className='material-symbols-outlined text-base'>delete</span>
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Medications Tab */}
+        {activeTab === 'medications' && (
+          <div className='space-y-4'>
+            {showMedicationForm ? (
+              <form onSubmit={handleAddMedication} className='p-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/20'>
+                <div className='grid grid-cols-1 md:grid-cols-3 gap-4'>
+                  <div>
+                    <label htmlFor='bpmed-name' className='block mb-1 text-sm font-medium'>Medicine</label>
+                    <input id='bpmed-name' name='name' type='text' required placeholder='e.g. Telmisartan' className={inputClass} />
+                  </div>
+                  <div>
+                    <label htmlFor='bpmed-class' className='block mb-1 text-sm font-medium'>Class</label>
+                    <select id='bpmed-class' name='drugClass' defaultValue='arb' className={inputClass}>
+                      {Object.entries(DRUG_CLASS_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor='bpmed-dosage' className='block mb-1 text-sm font-medium'>Dosage</label>
+                    <input id='bpmed-dosage' name='dosage' type='text' required placeholder='e.g. 40 mg' className={inputClass} />
+                  </div>
+                  <div>
+                    <label htmlFor='bpmed-frequency' className='block mb-1 text-sm font-medium'>Frequency</label>
+                    <input id='bpmed-frequency' name='frequency' type='text' required placeholder='e.g. Once daily, morning' className={inputClass} />
+                  </div>
+                  <div>
+                    <label htmlFor='bpmed-start' className='block mb-1 text-sm font-medium'>Start date</label>
+                    <input id='bpmed-start' name='startDate' type='date' required defaultValue={toLocalDate(new Date())} className={inputClass} />
+                  </div>
+                  <div>
+                    <label htmlFor='bpmed-notes' className='block mb-1 text-sm font-medium'>Notes</label>
+                    <input id='bpmed-notes' name='notes' type='text' className={inputClass} />
+                  </div>
+                </div>
+                <div className='flex gap-2 mt-4'>
+                  <button type='submit' className='px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600'>Save Medication</button>
+                  <button type='button' onClick={() => setShowMedicationForm(false)} className='px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600'>Cancel</button>
+                </div>
+              </form>
+            ) : (
+              <button onClick={() => setShowMedicationForm(true)} className='px-4 py-2 bg-rose-600 text-white rounded-lg hover:bg-rose-700 flex items-center gap-2'>
+                <span className='material-symbols-outlined'>add</span>
+                Add Medication
+              </button>
+            )}
+
+            {record.medications.length === 0 ? (
+              <p className='text-center py-8 text-gray-500 dark:text-gray-400'>No blood pressure medications recorded.</p>
+            ) : (
+              <div className='space-y-3'>
+                {record.medications.map(medication => {
+                  const active = activeMedications.includes(medication);
+                  return (
+                    <div
+                      key={medication.id}
+                      className={`flex items-center justify-between p-3 rounded-lg border border-gray-200 dark:border-gray-700 ${active ? '' : 'opacity-60'}`}
+                    >
+                      <div>
+                        <h4 className='font-medium'>
+                          {medication.name}
+                          <span className='ml-2 px-2 py-0.5 rounded-full text-xs bg-rose-100 text-rose-800 dark:bg-rose-900/30 dark:text-rose-200'>
+                            {DRUG_CLASS_LABELS[medication.drugClass]}
+                          </span>
+                        </h4>
+                        <p className='text-sm text-gray-600 dark:text-gray-300'>{medication.dosage} • {medication.frequency}</p>
+                        <p className='text-xs text-gray-500'>
+                          Started {new Date(medication.startDate).toLocaleDateString()}
+                          {medication.endDate && ` • Stopped ${new Date(medication.endDate).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                      <div className='flex items-center gap-2'>
+                        {active && (
+                          <button
+                            onClick={() => updateAntihypertensiveMedication(patientId, medication.id, { endDate: toLocalDate(new Date()) })}
+                            className='text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+                          >
+                            Stop
+                          </button>
+                        )}
+                        <button
+                          onClick={() => deleteAntihypertensiveMedication(patientId, medication.id)}
+                          className='text-gray-400 hover:text-red-600'
+                          aria-label={`Delete ${medication.name}`}
+                        >
+                          <span className='material-symbols-outlined text-base'>delete</span>
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfessionalHypertensionModule;
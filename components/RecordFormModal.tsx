@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
-import type { MedicalRecord, Doctor, Document } from '../types';
-import { processMedicalDocument } from '../services/ocrService';
+import type { MedicalRecord, Doctor } from '../types';
+import { recognizeImage, extractMedicalData, type OcrProgress } from '../services/ocrService';
 
 interface RecordFormModalProps {
   isOpen: boolean;
@@ -50,6 +50,7 @@ const RecordFormModal: React.FC<RecordFormModalProps> = ({
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [isProcessingOCR, setIsProcessingOCR] = useState(false);
+  const [ocrProgress, setOcrProgress] = useState<(OcrProgress & { fileName: string }) | null>(null);
   const [ocrSuggestions, setOcrSuggestions] = useState<{
     complaint?: string;
     investigations?: string;
@@ -134,23 +135,16 @@ const RecordFormModal: React.FC<RecordFormModalProps> = ({
         notes: ''
       };
 
-      for (const file of files) {
-        // Create a mock document object for OCR processing
-        const mockDocument: Document = {
-          id: `temp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          name: file.name,
-          type: file.type === 'application/pdf' ? 'pdf' : 'image',
-          uploadedAt: new Date().toISOString(),
-          size: file.size,
-          url: URL.createObjectURL(file)
-        };
-
+      // Only images go through OCR
+      for (const file of files.filter(f => f.type.startsWith('image/'))) {
         try {
-          const ocrResult = await processMedicalDocument(mockDocument);
+          const ocrResult = await recognizeImage(file, {
+            onProgress: progress => setOcrProgress({ ...progress, fileName: file.name })
+          });
 
           // Extract and categorize information from OCR result
           const extractedText = ocrResult.text;
-          const extractedDataFromOCR = ocrResult.extractedData;
+          const extractedDataFromOCR = extractMedicalData(extractedText);
 
           // Auto-fill complaint
           if (extractedDataFromOCR.diagnosis && extractedDataFromOCR.diagnosis.length > 0) {
@@ -200,6 +194,7 @@ const RecordFormModal: React.FC<RecordFormModalProps> = ({
       console.error('Error during OCR processing:', error);
     } finally {
       setIsProcessingOCR(false);
+      setOcrProgress(null);
     }
   };
 
@@ -449,9 +444,20 @@ const RecordFormModal: React.FC<RecordFormModalProps> = ({
                         Processing OCR... Extracting medical information
                       </span>
                     </div>
-                    <p className="text-xs text-blue-600 mt-1">
-                      Automatically analyzing documents to fill prescription and other fields
-                    </p>
+                    {ocrProgress ? (
+                      <div className="mt-2" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(ocrProgress.progress * 100)} aria-label={`OCR ${ocrProgress.status}`}>
+                        <p className="text-xs text-blue-600 mb-1">
+                          {ocrProgress.fileName}: {ocrProgress.status} ({Math.round(ocrProgress.progress * 100)}%)
+                        </p>
+                        <div className="h-1.5 bg-blue-100 rounded-full overflow-hidden">
+                          <div className="h-full bg-blue-600 transition-all" style={{ width: `${Math.round(ocrProgress.progress * 100)}%` }} />
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="text-xs text-blue-600 mt-1">
+                        Automatically analyzing documents to fill prescription and other fields
+                      </p>
+                    )}
                   </div>
                 )}
 
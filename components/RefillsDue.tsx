@@ -0,0 +1,51 @@
+import React, { useMemo } from 'react';
+import { useSecureHealthStore } from '../stores/useSecureHealthStore';
+import { getRefillsDue } from '../services/medicationStockService';
+
+// Refills due within this many days, across every family member
+const REFILL_WINDOW_DAYS = 7;
+
+export const RefillsDue: React.FC = () => {
+  const { patients, refillMedication } = useSecureHealthStore();
+  const refills = useMemo(() => getRefillsDue(patients, REFILL_WINDOW_DAYS), [patients]);
+
+  if (refills.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-text-light dark:text-text-dark flex items-center gap-2">
+          <span className="material-symbols-outlined text-orange-600">prescriptions</span>
+          Refills Due This Week
+        </h2>
+      </div>
+      <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+        {refills.map(({ patientId, patientName, medication, forecast }) => (
+          <div
+            key={`${patientId}-${medication.id}`}
+            className={`flex items-center justify-between p-3 rounded-md ${forecast.daysLeft! <= 3 ? 'bg-red-50' : 'bg-orange-50'} dark:bg-gray-900`}
+          >
+            <div>
+              <p className="font-medium text-text-light dark:text-text-dark">{medication.name}</p>
+              <p className="text-sm text-subtle-light dark:text-subtle-dark">
+                {patientName} · {forecast.remaining} left · runs out {new Date(`${forecast.runOutDate}T00:00`).toLocaleDateString()}
+              </p>
+            </div>
+            {medication.packSize ? (
+              <button
+                onClick={() => refillMedication(patientId, medication.id)}
+                className="px-3 py-1 text-sm bg-green-500 text-white rounded hover:bg-green-600"
+              >
+                Refilled
+              </button>
+            ) : (
+              <span className={`text-sm font-bold ${forecast.daysLeft! <= 3 ? 'text-red-600' : 'text-orange-600'}`}>
+                {forecast.daysLeft} day{forecast.daysLeft === 1 ? '' : 's'}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
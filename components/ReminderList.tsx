@@ -178,6 +178,12 @@ const ReminderItem: React.FC<{ reminder: Reminder; onToggle: () => void; onDelet
                             {reminder.priority.charAt(0).toUpperCase() + reminder.priority.slice(1)}
                         </span>
                      )}
+                     {reminder.recurrence && (
+                        <span className="flex items-center gap-0.5 text-xs text-subtle-light dark:text-subtle-dark" title="Follows medication timings">
+                            <span className="material-symbols-outlined text-sm">repeat</span>
+                            Daily
+                        </span>
+                     )}
                 </div>
                 <p className={`text-xs ${reminder.completed ? 'text-subtle-light dark:text-subtle-dark' : (isOverdue ? 'text-red-600 dark:text-red-400 font-medium' : 'text-subtle-light dark:text-subtle-dark')}`}>
                     {displayDate}
@@ -186,13 +192,16 @@ const ReminderItem: React.FC<{ reminder: Reminder; onToggle: () => void; onDelet
                      <p className="text-xs text-subtle-light dark:text-subtle-dark -mt-0.5">{reminderDateText}</p>
                 )}
             </div>
-            <button
-              onClick={onDelete}
-              aria-label={`Delete reminder: ${reminder.title}`}
-              className="p-1 ml-2 text-subtle-light dark:text-subtle-dark hover:text-red-500 rounded-full focus:outline-none focus:ring-2 focus:ring-red-500"
-            >
-                <span className="material-symbols-outlined text-base">delete</span>
-            </button>
+            {/* Dose reminders are regenerated from medication timings, so they are changed there */}
+            {!reminder.recurrence && (
+                <button
+                  onClick={onDelete}
+                  aria-label={`Delete reminder: ${reminder.title}`}
+                  className="p-1 ml-2 text-subtle-light dark:text-subtle-dark hover:text-red-500 rounded-full focus:outline-none focus:ring-2 focus:ring-red-500"
+                >
+                    <span className="material-symbols-outlined text-base">delete</span>
+                </button>
+            )}
         </li>
     );
 };
@@ -340,12 +349,13 @@ const ReminderList: React.FC<ReminderListProps> = ({ patient, onAddReminder, onT
 
     const reminders = patient.reminders || [];
     
-    const { overdue, today, upcoming, completed } = useMemo(() => {
+    const { doses, overdue, today, upcoming, completed } = useMemo(() => {
         const now = new Date();
         now.setHours(0, 0, 0, 0); // Compare dates only
         const todayStr = new Date().toISOString().split('T')[0];
         
         const categorized = {
+            doses: [] as Reminder[],
             overdue: [] as Reminder[],
             today: [] as Reminder[],
             upcoming: [] as Reminder[],
@@ -357,6 +367,10 @@ const ReminderList: React.FC<ReminderListProps> = ({ patient, onAddReminder, onT
         reminders
           .sort((a, b) => new Date(`${getEffectiveDate(a)}T${a.time}`).getTime() - new Date(`${getEffectiveDate(b)}T${b.time}`).getTime())
           .forEach(r => {
+            if (r.recurrence) {
+                categorized.doses.push(r);
+                return;
+            }
             if (r.completed) {
                 categorized.completed.push(r);
                 return;
@@ -459,6 +473,7 @@ const ReminderList: React.FC<ReminderListProps> = ({ patient, onAddReminder, onT
                     </div>
                 ) : (
                     <div className="mt-4">
+                        {renderGroup('Daily Doses', doses)}
                         {renderGroup('Overdue', overdue, true)}
                         {renderGroup('Today', today)}
                         {renderGroup('Upcoming', upcoming)}
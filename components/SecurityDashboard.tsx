@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { secureStorage } from '../services/secureStorageService';
+import { apiService } from '../services/apiService';
+import type { DeviceSession } from '../types';
 
 interface SecurityStatus {
   isActiveSession: boolean;
@@ -23,11 +25,14 @@ export const SecurityDashboard: React.FC = () => {
   const [auditLog, setAuditLog] = useState<AuditLogEntry[]>([]);
   const [newEncryptionKey, setNewEncryptionKey] = useState('');
   const [showKeyChange, setShowKeyChange] = useState(false);
+  const [devices, setDevices] = useState<DeviceSession[]>([]);
+  const [devicesError, setDevicesError] = useState<string | null>(null);
 
   useEffect(() => {
     if (isOpen) {
       updateSecurityStatus();
       updateAuditLog();
+      updateDevices();
     }
   }, [isOpen]);
 
@@ -41,9 +46,64 @@ export const SecurityDashboard: React.FC = () => {
     setAuditLog(log);
   };
 
+  // Signed-in devices only exist when the app is connected to the backend
+  const updateDevices = async () => {
+    if (!apiService.isAuthenticated()) {
+      setDevices([]);
+      return;
+    }
+
+    try {
+      const response = await apiService.getSessions();
+      setDevices(response.data);
+      setDevicesError(null);
+    } catch (error) {
+      setDevicesError('Could not load signed-in devices');
+    }
+  };
+
   const handleRefresh = () => {
     updateSecurityStatus();
     updateAuditLog();
+    updateDevices();
+  };
+
+  const handleSignOutDevice = async (sessionId: string) => {
+    if (!confirm('Sign out this device?')) return;
+
+    try {
+      await apiService.revokeSession(sessionId);
+      updateDevices();
+    } catch (error) {
+      alert('Failed to sign out device. Please try again.');
+    }
+  };
+
+  const handleSignOutOtherDevices = async () => {
+    if (!confirm('Sign out all other devices?')) return;
+
+    try {
+      await apiService.revokeOtherSessions();
+      updateDevices();
+    } catch (error) {
+      alert('Failed to sign out other devices. Please try again.');
+    }
+  };
+
+  const describeDevice = (deviceInfo?: string) => {
+    if (!deviceInfo) return 'Unknown device';
+    const browser = /Edg\//.test(deviceInfo) ? 'Edge'
+      : /Chrome\//.test(deviceInfo) ? 'Chrome'
+      : /Firefox\//.test(deviceInfo) ? 'Firefox'
+      : /Safari\//.test(deviceInfo) ? 'Safari'
+      : 'Browser';
+    const platform = /Android/.test(deviceInfo) ? 'Android'
+      : /iPhone|iPad/.test(deviceInfo) ? 'iOS'
+      : /Windows/.test(deviceInfo) ? 'Windows'
+      : /Mac OS X/.test(deviceInfo) ? 'macOS'
+      : /Linux/.test(deviceInfo) ? 'Linux'
+      : 'Unknown OS';
+    return `${browser} on ${platform}`;
   };
 
   const handleLogout = () => {
@@ -242,6 +302,62 @@ export const SecurityDashboard: React.FC = () => {
               </button>
             </div>
 
+            {/* Signed-in Devices */}
+            {apiService.isAuthenticated() && (
+              <div className="mt-6">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="text-sm font-semibold text-gray-900 dark:text-white">
+                    Signed-in Devices
+                  </h4>
+                  {devices.some(device => !device.isCurrent) && (
+                    <button
+                      onClick={handleSignOutOtherDevices}
+                      className="text-xs text-red-600 hover:text-red-700 dark:text-red-400"
+                    >
+                      Sign out others
+                    </button>
+                  )}
+                </div>
+
+                {devicesError && (
+                  <p className="text-xs text-red-600 dark:text-red-400 mb-2">{devicesError}</p>
+                )}
+
+                <div className="space-y-2">
+                  {devices.map((device) => (
+                    <div
+                      key={device.id}
+                      className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg flex items-start justify-between gap-2"
+                    >
+                      <div className="min-w-0">
+                        <span className="text-sm font-medium text-gray-700 dark:text-gray-300 block truncate">
+                          {describeDevice(device.deviceInfo)}
+                          {device.isCurrent && (
+                            <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-300">
+                              This device
+                            </span>
+                          )}
+                        </span>
+                        <span className="text-xs text-gray-600 dark:text-gray-400 block">
+                          {device.ipAddress || 'Unknown IP'} · last active{' '}
+                          {formatTimestamp(new Date(device.lastUsedAt || device.createdAt))}
+                        </span>
+                      </div>
+                      {!device.isCurrent && (
+                        <button
+                          onClick={() => handleSignOutDevice(device.id)}
+                          className="p-1 text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+                          title="Sign out this device"
+                        >
+                          <span className="material-symbols-outlined text-sm">logout</span>
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Change Encryption Key Form */}
             {showKeyChange && (
               <div className="mt-4 p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
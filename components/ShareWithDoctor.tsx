@@ -12,6 +12,7 @@ interface ShareWithDoctorProps {
 interface ShareOptions {
   includeFullHistory: boolean;
   includeMedications: boolean;
+  includeAdherence: boolean;
   includeAllergies: boolean;
   includeRecentVisits: boolean;
   maxRecentVisits: number;
@@ -29,6 +30,7 @@ export const ShareWithDoctor: React.FC<ShareWithDoctorProps> = ({
   const [shareOptions, setShareOptions] = useState<ShareOptions>({
     includeFullHistory: true,
     includeMedications: true,
+    includeAdherence: true,
     includeAllergies: true,
     includeRecentVisits: true,
     maxRecentVisits: 3,
@@ -90,6 +92,7 @@ export const ShareWithDoctor: React.FC<ShareWithDoctorProps> = ({
     const quickOptions: ShareOptions = {
       includeFullHistory: true,
       includeMedications: true,
+      includeAdherence: true,
       includeAllergies: true,
       includeRecentVisits: true,
       maxRecentVisits: 2,
@@ -249,6 +252,21 @@ export const ShareWithDoctor: React.FC<ShareWithDoctorProps> = ({
                       </span>
                     </label>
 
+                    <label className="flex items-center gap-3 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={shareOptions.includeAdherence}
+                        onChange={(e) => setShareOptions(prev => ({
+                          ...prev,
+                          includeAdherence: e.target.checked
+                        }))}
+                        className="w-4 h-4 text-green-600 focus:ring-green-500 rounded"
+                      />
+                      <span className="text-sm text-gray-700 dark:text-gray-300">
+                        Medication Adherence
+                      </span>
+                    </label>
+
                     <label className="flex items-center gap-3 cursor-pointer">
                       <input
                         type="checkbox"
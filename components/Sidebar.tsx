@@ -17,6 +17,8 @@ interface SidebarProps {
     onDeletePatient: () => void;
     onExportPatient: (id: string) => void;
     onExportPatientPdf: (id: string) => void;
+    onExportPatientFhir: (id: string) => void;
+    onImportClinicalData: () => void;
     onSaveRecord: () => void;
     onDeleteRecord: () => void;
     isEditing: boolean;
@@ -44,6 +46,8 @@ const Sidebar: React.FC<SidebarProps> = ({
     onDeletePatient,
     onExportPatient,
     onExportPatientPdf,
+    onExportPatientFhir,
+    onImportClinicalData,
     onEditRecord,
     onSaveRecord,
     onDeleteRecord,
@@ -307,6 +311,12 @@ const Sidebar: React.FC<SidebarProps> = ({
                             </button>
                              <button onClick={() => selectedPatient && onExportPatientPdf(selectedPatient.id)} title="Export as PDF" aria-label="Export selected person's data as a PDF document" className="p-1 text-subtle-light dark:text-subtle-dark hover:text-primary-DEFAULT">
                                 <span className="material-symbols-outlined text-base">picture_as_pdf</span>
+                            </button>
+                             <button onClick={() => selectedPatient && onExportPatientFhir(selectedPatient.id)} title="Export as FHIR" aria-label="Export selected person's data as a FHIR R4 bundle for hospitals" className="p-1 text-subtle-light dark:text-subtle-dark hover:text-primary-DEFAULT">
+                                <span className="material-symbols-outlined text-base">data_object</span>
+                            </button>
+                             <button onClick={onImportClinicalData} title="Import Hospital Records" aria-label="Import a FHIR bundle or C-CDA discharge summary from a hospital" className="p-1 text-subtle-light dark:text-subtle-dark hover:text-primary-DEFAULT">
+                                <span className="material-symbols-outlined text-base">upload_file</span>
                             </button>
                             <ShareWithDoctor
                                 patient={selectedPatient}
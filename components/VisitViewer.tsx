@@ -1,8 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { FileText, Brain, Download, Share2, Calendar, User, Stethoscope } from 'lucide-react';
 import { MedicalRecord, Doctor, Document } from '../types';
 import { MedicalRecordParser, VisitOverview } from '../services/medicalRecordParser';
 import VisitOverviewComponent from './VisitOverview';
+import NoteSourceView from './NoteSourceView';
 
 interface VisitViewerProps {
   record: MedicalRecord;
@@ -28,6 +29,20 @@ const VisitViewer: React.FC<VisitViewerProps> = ({
   const [visitOverview, setVisitOverview] = useState<VisitOverview | null>(null);
   const [isGeneratingOverview, setIsGeneratingOverview] = useState(false);
   const [activeTab, setActiveTab] = useState<'overview' | 'details' | 'documents'>('overview');
+  const [sourceDocumentId, setSourceDocumentId] = useState<string | null>(null);
+
+  // The record as one note, so extracted items can point back into it
+  const recordText = useMemo(() => [
+    `C/C: ${record.complaint}`,
+    record.investigations && `Ix: ${record.investigations}`,
+    `D/Dx: ${record.diagnosis}`,
+    record.prescription && `R/X: ${record.prescription}`,
+    record.notes && `Notes: ${record.notes}`,
+  ].filter(Boolean).join('\n'), [record]);
+  const recordParsedData = useMemo(
+    () => MedicalRecordParser.parseMedicalRecord(recordText, record.date),
+    [recordText, record.date]
+  );
 
   // Check for existing AI overview on mount
   useEffect(() => {
@@ -44,21 +59,16 @@ const VisitViewer: React.FC<VisitViewerProps> = ({
       // Simulate AI processing delay
       await new Promise(resolve => setTimeout(resolve, 1500));
 
-      // Combine record text with document data
-      let combinedText = `
-        C/C: ${record.complaint}
-        Ix: ${record.investigations}
-        D/Dx: ${record.diagnosis}
-        R/X: ${record.prescription}
-        Notes: ${record.notes}
-      `;
-
       // If there are documents, process them too
       if (documents.length > 0) {
-        const documentData = MedicalRecordParser.processMultipleDocuments(documents);
-        const parsedData = MedicalRecordParser.parseMedicalRecord(combinedText);
+        const { mergedData: documentData, documents: processedDocuments } =
+          await MedicalRecordParser.processMultipleDocuments(documents);
+        // Keep extracted text on the record so documents are only read once
+        const documentsChanged = processedDocuments.some((doc, i) => doc !== documents[i]);
 
-        // Merge data from documents
+        // Merge data from documents into a copy of the record's own data;
+        // the merged lists no longer line up with the record's sources
+        const parsedData = { ...recordParsedData, sources: undefined };
         parsedData.chiefComplaints = [
           ...new Set([...parsedData.chiefComplaints, ...documentData.chiefComplaints]),
         ];
@@ -77,14 +87,18 @@ const VisitViewer: React.FC<VisitViewerProps> = ({
         // Save the AI overview to the record for persistence
         if (onUpdateRecord && patientId) {
           try {
-            await onUpdateRecord(patientId, record.id, { aiOverview: overview });
+            await onUpdateRecord(patientId, record.id, {
+              aiOverview: overview,
+              ...(documentsChanged && {
+                documents: record.documents.map(doc => processedDocuments.find(p => p.id === doc.id) || doc),
+              }),
+            });
           } catch (error) {
             console.error('Failed to save AI overview:', error);
           }
         }
       } else {
-        const parsedData = MedicalRecordParser.parseMedicalRecord(combinedText);
-        const overview = MedicalRecordParser.generateVisitOverview(parsedData, record);
+        const overview = MedicalRecordParser.generateVisitOverview(recordParsedData, record);
         setVisitOverview(overview);
 
         // Save the AI overview to the record for persistence
@@ -125,6 +139,8 @@ const VisitViewer: React.FC<VisitViewerProps> = ({
     }
   };
 
+  const sourceDocument = documents.find(doc => doc.id === sourceDocumentId);
+
   const handleExportPDF = () => {
     // This would integrate with a PDF generation library
     window.print();
@@ -344,6 +360,16 @@ const VisitViewer: React.FC<VisitViewerProps> = ({
                 </p>
               </div>
             )}
+
+            {/* Where each extracted item was found */}
+            {recordParsedData.sources && (
+              <div className='p-4 rounded-lg border border-gray-200 dark:border-gray-700'>
+                <h3 className='text-sm font-semibold text-gray-900 dark:text-gray-100 mb-3'>
+                  Extracted from this record
+                </h3>
+                <NoteSourceView text={recordText} parsedData={recordParsedData} />
+              </div>
+            )}
           </div>
         )}
 
@@ -371,14 +397,32 @@ const VisitViewer: React.FC<VisitViewerProps> = ({
                         </p>
                       </div>
                     </div>
-                    <button
-                      onClick={() => window.open(doc.url, '_blank')}
-                      className='px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors'
-                    >
-                      View
-                    </button>
+                    <div className='flex gap-2'>
+                      {doc.content && doc.parsedData?.sources && (
+                        <button
+                          onClick={() => setSourceDocumentId(sourceDocumentId === doc.id ? null : doc.id)}
+                          className='px-3 py-1 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors'
+                        >
+                          {sourceDocumentId === doc.id ? 'Hide Text' : 'Extracted Text'}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => window.open(doc.url, '_blank')}
+                        className='px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors'
+                      >
+                        View
+                      </button>
+                    </div>
                   </div>
                 ))}
+                {sourceDocument?.content && sourceDocument.parsedData && (
+                  <div className='p-4 rounded-lg border border-gray-200 dark:border-gray-700'>
+                    <h3 className='text-sm font-semibold text-gray-900 dark:text-gray-100 mb-3'>
+                      Extracted from {sourceDocument.name}
+                    </h3>
+                    <NoteSourceView text={sourceDocument.content} parsedData={sourceDocument.parsedData} />
+                  </div>
+                )}
               </div>
             ) : (
               <div className='text-center py-12'>
@@ -0,0 +1,357 @@
+import React, { useState, useMemo } from 'react';
+import { useSecureHealthStore } from '../stores/useSecureHealthStore';
+import type { VitalSign, VitalType } from '../types';
+import { FLAG_STYLES } from './LabResultsModule';
+import {
+  VITAL_DEFINITIONS,
+  createVitalSign,
+  formatVitalValue,
+  getBmi,
+  getVitalTrends,
+  type BmiCategory,
+  type VitalTrend,
+} from '../services/vitalsService';
+
+interface VitalsModuleProps {
+  patientId: string;
+}
+
+const VITAL_ICONS: Record<VitalType, string> = {
+  bloodPressure: 'favorite',
+  heartRate: 'monitor_heart',
+  temperature: 'thermostat',
+  respiratoryRate: 'pulmonology',
+  oxygenSaturation: 'spo2',
+  weight: 'monitor_weight',
+  height: 'height',
+};
+
+const BMI_LABELS: Record<BmiCategory, string> = {
+  underweight: 'Underweight',
+  normal: 'Healthy weight',
+  overweight: 'Overweight',
+  obese: 'Obese',
+};
+
+const BMI_STYLES: Record<BmiCategory, { color: string; bg: string }> = {
+  underweight: FLAG_STYLES.low,
+  normal: FLAG_STYLES.normal,
+  overweight: FLAG_STYLES.high,
+  obese: FLAG_STYLES['critical-high'],
+};
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+const rangeText = (trend: VitalTrend) => {
+  const range = trend.range;
+  if (!range || (range.low === undefined && range.high === undefined)) return undefined;
+  if (trend.type === 'bloodPressure') {
+    return `${range.low}-${range.high}/${range.secondaryLow}-${range.secondaryHigh}`;
+  }
+  return range.high === undefined ? `≥${range.low}` : `${range.low}-${range.high}`;
+};
+
+const VitalCard: React.FC<{ trend: VitalTrend; selected: boolean; isDark: boolean; onSelect: () => void }> = ({
+  trend,
+  selected,
+  isDark,
+  onSelect,
+}) => {
+  const flag = trend.flag && FLAG_STYLES[trend.flag];
+  return (
+    <button
+      onClick={onSelect}
+      className={`w-full text-left p-3 rounded-lg border ${
+        selected ? 'border-blue-500' : isDark ? 'border-gray-600' : 'border-gray-200'
+      } ${isDark ? 'bg-gray-700' : 'bg-gray-50'}`}
+    >
+      <div className="flex justify-between items-center">
+        <span className="font-medium flex items-center gap-2">
+          <span className="material-symbols-outlined text-base">{VITAL_ICONS[trend.type]}</span>
+          {trend.label}
+        </span>
+        <span
+          className="material-symbols-outlined text-gray-500"
+          title={trend.previous ? `${trend.change! > 0 ? '+' : ''}${trend.change} since ${formatDate(trend.previous.date)}` : 'First reading'}
+        >
+          {trend.direction === 'up' ? 'trending_up' : trend.direction === 'down' ? 'trending_down' : 'trending_flat'}
+        </span>
+      </div>
+      <div className="flex items-center gap-2 mt-1">
+        <span className={`font-bold ${flag && trend.flag !== 'normal' ? flag.color : ''}`}>{formatVitalValue(trend.latest)}</span>
+        {flag && <span className={`text-xs px-2 py-0.5 rounded ${flag.bg} ${flag.color}`}>{flag.label}</span>}
+      </div>
+      <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">Updated {formatDate(trend.latest.date)}</div>
+    </button>
+  );
+};
+
+const VitalTrendChart: React.FC<{ trend: VitalTrend; isDark: boolean }> = ({ trend, isDark }) => {
+  const width = 600;
+  const height = 200;
+  const padding = { top: 16, right: 16, bottom: 28, left: 48 };
+
+  const { readings, range } = trend;
+  const isBloodPressure = trend.type === 'bloodPressure';
+  const values = [
+    ...readings.map(r => r.value),
+    ...readings.map(r => r.secondaryValue),
+    range?.low,
+    range?.high,
+    isBloodPressure ? range?.secondaryLow : undefined,
+  ].filter((v): v is number => v !== undefined);
+  const spread = Math.max(...values) - Math.min(...values) || Math.abs(values[0]) || 1;
+  const min = Math.min(...values) - spread * 0.1;
+  const max = Math.max(...values) + spread * 0.1;
+
+  const times = readings.map(r => new Date(r.date).getTime());
+  const first = Math.min(...times);
+  const span = Math.max(...times) - first;
+
+  const x = (time: number) =>
+    span ? padding.left + ((time - first) / span) * (width - padding.left - padding.right) : width / 2;
+  const y = (value: number) =>
+    padding.top + (1 - (value - min) / (max - min)) * (height - padding.top - padding.bottom);
+
+  // Normal bands: systolic and diastolic for blood pressure
+  const bands = range
+    ? [
+        { low: range.low, high: range.high },
+        ...(isBloodPressure ? [{ low: range.secondaryLow, high: range.secondaryHigh }] : []),
+      ].filter(band => band.low !== undefined || band.high !== undefined)
+    : [];
+  const lines = [
+    { key: 'value', color: '#3b82f6', points: readings.map((r, i) => ({ id: r.id, time: times[i], value: r.value, date: r.date })) },
+    ...(isBloodPressure
+      ? [{
+          key: 'secondary',
+          color: '#8b5cf6',
+          points: readings
+            .map((r, i) => ({ id: r.id, time: times[i], value: r.secondaryValue, date: r.date }))
+            .filter((p): p is { id: string; time: number; value: number; date: string } => p.value !== undefined),
+        }]
+      : []),
+  ];
+  const axisColor = isDark ? '#9ca3af' : '#6b7280';
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label={`${trend.label} trend`}>
+      {bands.map((band, i) => {
+        const top = y(Math.min(band.high ?? max, max));
+        const bottom = y(Math.max(band.low ?? min, min));
+        return (
+          <rect key={i} x={padding.left} y={top} width={width - padding.left - padding.right} height={Math.max(bottom - top, 0)} fill="#16a34a" opacity={0.1} />
+        );
+      })}
+      {[min, max].map(value => (
+        <text key={value} x={padding.left - 6} y={y(value) + 4} textAnchor="end" fontSize={11} fill={axisColor}>
+          {Number(value.toFixed(1))}
+        </text>
+      ))}
+      <line x1={padding.left} x2={width - padding.right} y1={height - padding.bottom} y2={height - padding.bottom} stroke={axisColor} strokeWidth={0.5} />
+      {lines.map(line => (
+        <g key={line.key}>
+          <polyline points={line.points.map(p => `${x(p.time)},${y(p.value)}`).join(' ')} fill="none" stroke={line.color} strokeWidth={2} />
+          {line.points.map(p => (
+            <circle key={p.id} cx={x(p.time)} cy={y(p.value)} r={4} fill={line.color}>
+              <title>{`${formatDate(p.date)}: ${p.value} ${trend.unit}`}</title>
+            </circle>
+          ))}
+        </g>
+      ))}
+      <text x={padding.left} y={height - 8} fontSize={11} fill={axisColor}>{formatDate(readings[0].date)}</text>
+      {readings.length > 1 && (
+        <text x={width - padding.right} y={height - 8} textAnchor="end" fontSize={11} fill={axisColor}>
+          {formatDate(readings[readings.length - 1].date)}
+        </text>
+      )}
+    </svg>
+  );
+};
+
+export const VitalsModule: React.FC<VitalsModuleProps> = ({ patientId }) => {
+  const { theme, patients, addVitalSigns, deleteVitalSign } = useSecureHealthStore();
+  const patient = patients.find(p => p.id === patientId);
+  const vitalSigns = patient?.vitalSigns;
+
+  const [selectedType, setSelectedType] = useState<VitalType | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formType, setFormType] = useState<VitalType>('bloodPressure');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const isDark = theme === 'dark';
+
+  const trends = useMemo(() => getVitalTrends(vitalSigns || [], patient), [vitalSigns, patient]);
+  const bmi = useMemo(() => getBmi(vitalSigns || [], patient), [vitalSigns, patient]);
+  const selectedTrend = trends.find(t => t.type === selectedType) || trends[0];
+  const formDefinition = VITAL_DEFINITIONS[formType];
+
+  const handleAddReading = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+
+    const vital = createVitalSign({
+      type: formType,
+      value: formData.get('value') as string,
+      unit: formData.get('unit') as string || undefined,
+      date: formData.get('date') as string,
+      notes: formData.get('notes') as string || undefined,
+      source: 'manual',
+    });
+
+    if (!vital) {
+      setFormError(formType === 'bloodPressure'
+        ? 'Enter blood pressure as systolic/diastolic, e.g. 120/80'
+        : `Enter ${formDefinition.label.toLowerCase()} as a number in ${[formDefinition.unit, ...Object.keys(formDefinition.conversions || {})].join(' or ')}`);
+      return;
+    }
+
+    await addVitalSigns(patientId, [vital]);
+    setFormError(null);
+    setShowForm(false);
+    setSelectedType(vital.type);
+    form.reset();
+  };
+
+  return (
+    <div className={`p-6 rounded-lg ${isDark ? 'bg-gray-800 text-white' : 'bg-white text-gray-900'}`} style={{ minHeight: '200px' }}>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-bold flex items-center gap-2">
+          <span className="material-symbols-outlined">vital_signs</span>
+          Vital Signs
+        </h2>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 flex items-center gap-2"
+        >
+          <span className="material-symbols-outlined">add</span>
+          Add Reading
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleAddReading} className={`mb-6 p-4 rounded-lg ${isDark ? 'bg-gray-700' : 'bg-gray-50'}`}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="vital-type" className="block mb-2 font-medium">Vital</label>
+              <select id="vital-type" value={formType} onChange={e => setFormType(e.target.value as VitalType)} className="w-full p-2 rounded border dark:bg-gray-800">
+                {Object.values(VITAL_DEFINITIONS).map(definition => (
+                  <option key={definition.type} value={definition.type}>{definition.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="vital-date" className="block mb-2 font-medium">Date</label>
+              <input id="vital-date" type="datetime-local" name="date" required className="w-full p-2 rounded border dark:bg-gray-800" />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label htmlFor="vital-value" className="block mb-2 font-medium">Reading</label>
+                <input
+                  id="vital-value"
+                  type={formType === 'bloodPressure' ? 'text' : 'number'}
+                  step="any"
+                  name="value"
+                  required
+                  placeholder={formType === 'bloodPressure' ? '120/80' : undefined}
+                  className="w-full p-2 rounded border dark:bg-gray-800"
+                />
+              </div>
+              <div>
+                <label htmlFor="vital-unit" className="block mb-2 font-medium">Unit</label>
+                <select id="vital-unit" key={formType} name="unit" defaultValue={formDefinition.unit} className="w-full p-2 rounded border dark:bg-gray-800">
+                  {[formDefinition.unit, ...Object.keys(formDefinition.conversions || {})].map(unit => (
+                    <option key={unit} value={unit}>{unit === 'c' ? '°C' : unit}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="vital-notes" className="block mb-2 font-medium">Notes</label>
+              <input id="vital-notes" type="text" name="notes" placeholder="e.g. after exercise" className="w-full p-2 rounded border dark:bg-gray-800" />
+            </div>
+          </div>
+          {formError && <p role="alert" className="text-sm text-red-600 mt-2">{formError}</p>}
+          <div className="flex gap-2 mt-4">
+            <button type="submit" className="px-4 py-2 bg-green-500 text-white rounded hover:bg-green-600">
+              Save Reading
+            </button>
+            <button type="button" onClick={() => { setShowForm(false); setFormError(null); }} className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600">
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {trends.length === 0 ? (
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">
+          No vitals recorded yet. Vitals written in visit notes are added automatically, or can be added by hand.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {/* Latest reading per vital */}
+          <div className="space-y-2">
+            {trends.map(trend => (
+              <VitalCard
+                key={trend.type}
+                trend={trend}
+                selected={selectedTrend?.type === trend.type}
+                isDark={isDark}
+                onSelect={() => setSelectedType(trend.type)}
+              />
+            ))}
+            {bmi && (
+              <div className={`p-3 rounded-lg border ${isDark ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'}`}>
+                <span className="font-medium">BMI</span>
+                <div className="flex items-center gap-2 mt-1">
+                  <span className="font-bold">{bmi.value}</span>
+                  {bmi.category && (
+                    <span className={`text-xs px-2 py-0.5 rounded ${BMI_STYLES[bmi.category].bg} ${BMI_STYLES[bmi.category].color}`}>
+                      {BMI_LABELS[bmi.category]}
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">From weight on {formatDate(bmi.date)}</div>
+              </div>
+            )}
+          </div>
+
+          {/* Trend chart and history of the selected vital */}
+          {selectedTrend && (
+            <div className="lg:col-span-2">
+              <h3 className="text-xl font-semibold mb-1">{selectedTrend.label}</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                {selectedTrend.unit}
+                {rangeText(selectedTrend) && ` · normal for age ${rangeText(selectedTrend)}`}
+                {selectedTrend.change !== undefined && ` · ${selectedTrend.change > 0 ? '+' : ''}${selectedTrend.change} since ${formatDate(selectedTrend.previous!.date)}`}
+              </p>
+              <VitalTrendChart trend={selectedTrend} isDark={isDark} />
+
+              <div className="space-y-2 mt-4">
+                {[...selectedTrend.readings].reverse().map((vital: VitalSign) => (
+                  <div key={vital.id} className={`p-3 rounded-lg border flex justify-between items-center ${isDark ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'}`}>
+                    <div className="flex items-center gap-3">
+                      <span className="font-semibold">{formatDate(vital.date)}</span>
+                      <span>{formatVitalValue(vital)}</span>
+                      {vital.reportedValue && <span className="text-xs text-gray-500">entered {vital.reportedValue}</span>}
+                      <span className="text-xs text-gray-500">{vital.source === 'record' ? 'from visit note' : vital.source}</span>
+                      {vital.notes && <span className="text-xs text-gray-500">{vital.notes}</span>}
+                    </div>
+                    <button
+                      onClick={() => deleteVitalSign(patientId, vital.id)}
+                      aria-label={`Delete ${selectedTrend.label.toLowerCase()} reading from ${formatDate(vital.date)}`}
+                      className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                    >
+                      <span className="material-symbols-outlined text-sm">delete</span>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -267,7 +267,10 @@ const PatientDetails: React.FC<PatientDetailsProps> = ({
           records={patient.records}
         />
 
-        <DrugInteractions medications={patient.currentMedications} />
+        <DrugInteractions
+          medications={patient.currentMedications}
+          diabetesMedications={patient.diabetesRecord?.medications}
+        />
 
         
       <div className="space-y-2 pb-6 border-b border-border-light dark:border-border-dark">
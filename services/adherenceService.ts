@@ -0,0 +1,216 @@
+/**
+ * Adherence Service
+ *
+ * Turns `Medication.timings` into a schedule of doses for each day and
+ * matches it against the doses recorded in the medication's dose log. A dose
+ * taken more than an hour after it was due is recorded as late; a due dose
+ * with nothing recorded an hour after its time counts as missed.
+ *
+ * Adherence only counts days from the first recorded dose, so history from
+ * before a medication was tracked does not count against it.
+ */
+
+import type { DoseEvent, Medication } from '../types';
+
+export type DoseStatus = DoseEvent['status'] | 'missed' | 'due' | 'upcoming';
+
+export interface ScheduledDose {
+  medicationId: string;
+  medicationName: string;
+  date: string;
+  time: string;
+  status: DoseStatus;
+  event?: DoseEvent;
+}
+
+export interface AdherenceCounts {
+  due: number; // Doses whose time has passed
+  taken: number;
+  late: number;
+  skipped: number;
+  missed: number;
+  percent?: number; // Taken or late, of doses due; undefined when none were due
+}
+
+export interface MedicationAdherence extends AdherenceCounts {
+  medicationId: string;
+  medicationName: string;
+  streak: number; // Days in a row with every dose taken
+}
+
+export interface PatientAdherence extends AdherenceCounts {
+  days: number;
+  medications: MedicationAdherence[];
+}
+
+// A dose taken or left unrecorded this long after its time is late or missed
+export const DOSE_GRACE_MINUTES = 60;
+
+export const ADHERENCE_DEFAULT_DAYS = 30;
+
+const MINUTE = 60 * 1000;
+
+export const toLocalDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const doseTime = (date: string, time: string): Date => new Date(`${date}T${time.padStart(5, '0')}:00`);
+
+const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return toLocalDate(new Date(year, month - 1, day + days));
+};
+
+const sortedTimings = (medication: Medication): string[] =>
+  [...new Set(medication.timings || [])].sort();
+
+/**
+ * Whether the medication has doses due on a day: it has timings and the day
+ * falls between its start and end dates
+ */
+export const isScheduledOn = (medication: Medication, date: string): boolean =>
+  sortedTimings(medication).length > 0 &&
+  (!medication.startDate || medication.startDate <= date) &&
+  (!medication.endDate || medication.endDate >= date);
+
+/**
+ * The medication's doses for one day, with what was recorded for each
+ */
+export const getDosesForDay = (medication: Medication, date: string, now: Date = new Date()): ScheduledDose[] => {
+  if (!isScheduledOn(medication, date)) return [];
+
+  return sortedTimings(medication).map(time => {
+    const event = medication.doseLog?.find(e => e.date === date && e.scheduledTime === time);
+    const due = doseTime(date, time).getTime();
+    let status: DoseStatus;
+    if (event) status = event.status;
+    else if (now.getTime() > due + DOSE_GRACE_MINUTES * MINUTE) status = 'missed';
+    else if (now.getTime() >= due) status = 'due';
+    else status = 'upcoming';
+
+    return { medicationId: medication.id, medicationName: medication.name, date, time, status, event };
+  });
+};
+
+/**
+ * A dose event for a scheduled dose. Doses taken after the grace period are
+ * recorded as late.
+ */
+export const createDoseEvent = (
+  date: string,
+  scheduledTime: string,
+  status: 'taken' | 'skipped',
+  recordedAt: Date = new Date(),
+  notes?: string
+): DoseEvent => ({
+  id: `dose-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+  date,
+  scheduledTime,
+  status: status === 'taken' && recordedAt.getTime() > doseTime(date, scheduledTime).getTime() + DOSE_GRACE_MINUTES * MINUTE
+    ? 'late'
+    : status,
+  recordedAt: recordedAt.toISOString(),
+  notes,
+});
+
+/**
+ * Adds an event to a dose log, replacing any earlier event for the same dose
+ */
+export const recordDoseEvent = (log: DoseEvent[] = [], event: DoseEvent): DoseEvent[] => [
+  ...log.filter(e => !(e.date === event.date && e.scheduledTime === event.scheduledTime)),
+  event,
+];
+
+// First day adherence is counted from
+const getTrackingStart = (medication: Medication): string | undefined => {
+  const firstLogged = (medication.doseLog || []).map(e => e.date).sort()[0];
+  if (!firstLogged) return undefined;
+  return medication.startDate && medication.startDate > firstLogged ? medication.startDate : firstLogged;
+};
+
+// Every scheduled dose in the `days` days ending today, oldest first
+const getDosesInPeriod = (medication: Medication, days: number, now: Date): ScheduledDose[] => {
+  const trackingStart = getTrackingStart(medication);
+  if (!trackingStart) return [];
+
+  const today = toLocalDate(now);
+  const periodStart = addDays(today, -(days - 1));
+  const doses: ScheduledDose[] = [];
+  for (let date = periodStart > trackingStart ? periodStart : trackingStart; date <= today; date = addDays(date, 1)) {
+    doses.push(...getDosesForDay(medication, date, now));
+  }
+  return doses;
+};
+
+const countDoses = (doses: ScheduledDose[]): AdherenceCounts => {
+  const count = (status: DoseStatus) => doses.filter(dose => dose.status === status).length;
+  const counts = { taken: count('taken'), late: count('late'), skipped: count('skipped'), missed: count('missed') };
+  const due = counts.taken + counts.late + counts.skipped + counts.missed;
+  return { due, ...counts, percent: due > 0 ? Math.round(((counts.taken + counts.late) / due) * 100) : undefined };
+};
+
+/**
+ * Days in a row, back from today, on which every dose was taken. Today only
+ * counts once all of its doses are taken, but does not break the streak
+ * while some are still to come.
+ */
+export const getStreak = (medication: Medication, now: Date = new Date()): number => {
+  const trackingStart = getTrackingStart(medication);
+  if (!trackingStart) return 0;
+
+  let streak = 0;
+  for (let date = toLocalDate(now); date >= trackingStart; date = addDays(date, -1)) {
+    const doses = getDosesForDay(medication, date, now);
+    if (doses.length === 0) continue;
+    if (doses.some(dose => dose.status === 'missed' || dose.status === 'skipped')) break;
+    if (doses.every(dose => dose.status === 'taken' || dose.status === 'late')) streak++;
+  }
+  return streak;
+};
+
+export const getMedicationAdherence = (
+  medication: Medication,
+  days: number = ADHERENCE_DEFAULT_DAYS,
+  now: Date = new Date()
+): MedicationAdherence => ({
+  medicationId: medication.id,
+  medicationName: medication.name,
+  ...countDoses(getDosesInPeriod(medication, days, now)),
+  streak: getStreak(medication, now),
+});
+
+/**
+ * Adherence across all of a patient's tracked medications
+ */
+export const getPatientAdherence = (
+  medications: Medication[],
+  days: number = ADHERENCE_DEFAULT_DAYS,
+  now: Date = new Date()
+): PatientAdherence => {
+  const tracked = medications.filter(medication => getTrackingStart(medication));
+  return {
+    days,
+    ...countDoses(tracked.flatMap(medication => getDosesInPeriod(medication, days, now))),
+    medications: tracked.map(medication => getMedicationAdherence(medication, days, now)),
+  };
+};
+
+/**
+ * Doses that passed without being recorded, newest first
+ */
+export const getMissedDoses = (
+  medications: Medication[],
+  days: number = ADHERENCE_DEFAULT_DAYS,
+  now: Date = new Date()
+): ScheduledDose[] =>
+  medications
+    .flatMap(medication => getDosesInPeriod(medication, days, now))
+    .filter(dose => dose.status === 'missed')
+    .sort((a, b) => `${b.date}T${b.time}`.localeCompare(`${a.date}T${a.time}`));
+
+/**
+ * Today's doses across all medications, in time order
+ */
+export const getTodaysDoses = (medications: Medication[], now: Date = new Date()): ScheduledDose[] =>
+  medications
+    .flatMap(medication => getDosesForDay(medication, toLocalDate(now), now))
+    .sort((a, b) => a.time.localeCompare(b.time));
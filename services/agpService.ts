@@ -0,0 +1,219 @@
+/**
+ * Ambulatory Glucose Profile Service
+ *
+ * Builds the AGP report described by the 2019 international consensus on
+ * time in range: the day's glucose as percentile bands by time of day, the
+ * share of readings in each glucose range, the glucose management indicator
+ * (GMI, an HbA1c estimate from mean glucose) and variability. The standard
+ * report covers the last 14 days of CGM data. Fingerstick readings are
+ * included but are too sparse for bands on their own.
+ */
+
+import type { BloodGlucoseReading } from '../types';
+import { toLocalDate } from './adherenceService';
+
+export interface GlucoseRangeShares {
+  veryLow: number; // <54 mg/dL
+  low: number; // 54-69
+  inRange: number; // 70-180
+  high: number; // 181-250
+  veryHigh: number; // >250
+}
+
+export interface AgpHourBin {
+  hour: number;
+  count: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface HypoglycemiaEpisode {
+  date: string;
+  time: string;
+  durationMinutes?: number; // Unknown for a single fingerstick reading
+  nadir: number;
+  level: 1 | 2; // Level 2 when it went below 54 mg/dL
+}
+
+export interface AgpReport {
+  from: string;
+  to: string;
+  days: number;
+  readingCount: number;
+  mean: number;
+  sd: number;
+  cv: number; // Percentage
+  gmi: number; // Percentage
+  ranges: GlucoseRangeShares;
+  profile: AgpHourBin[]; // Hours with too few readings are left out
+  episodes: HypoglycemiaEpisode[];
+  sensorActive?: number; // Percentage of the period with CGM data
+}
+
+export const AGP_THRESHOLDS = { veryLow: 54, low: 70, high: 180, veryHigh: 250 };
+
+// Consensus targets for most adults with type 1 or type 2 diabetes
+export const AGP_TARGETS = { inRange: 70, low: 4, veryLow: 1, high: 25, veryHigh: 5, cv: 36 };
+
+export const AGP_DEFAULT_DAYS = 14;
+
+// A reading below 70 has to last this long to count as a CGM episode
+const EPISODE_MINUTES = 15;
+// Readings further apart than this are not treated as one run
+const MAX_GAP_MINUTES = 30;
+// Percentiles from fewer readings than this in an hour are not meaningful
+const MIN_BIN_READINGS = 5;
+
+const MINUTE = 60 * 1000;
+
+const readingTime = (reading: Pick<BloodGlucoseReading, 'date' | 'time'>): number => {
+  const [year, month, day] = reading.date.split('-').map(Number);
+  const [hours, minutes] = reading.time.split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hours || 0, minutes || 0);
+};
+
+/**
+ * Percentile of sorted values, interpolating between neighbours
+ */
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return NaN;
+  const position = (sorted.length - 1) * (p / 100);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const calculateGmi = (meanGlucose: number): number =>
+  Math.round((3.31 + 0.02392 * meanGlucose) * 10) / 10;
+
+export const calculateRangeShares = (values: number[]): GlucoseRangeShares => {
+  const share = (count: number) => (values.length > 0 ? Math.round((count / values.length) * 1000) / 10 : 0);
+  const count = (test: (value: number) => boolean) => share(values.filter(test).length);
+  const { veryLow, low, high, veryHigh } = AGP_THRESHOLDS;
+
+  return {
+    veryLow: count(value => value < veryLow),
+    low: count(value => value >= veryLow && value < low),
+    inRange: count(value => value >= low && value <= high),
+    high: count(value => value > high && value <= veryHigh),
+    veryHigh: count(value => value > veryHigh),
+  };
+};
+
+export const buildHourlyProfile = (readings: BloodGlucoseReading[]): AgpHourBin[] => {
+  const bins: number[][] = Array.from({ length: 24 }, () => []);
+  readings.forEach(reading => {
+    const hour = parseInt(reading.time.split(':')[0], 10);
+    if (hour >= 0 && hour < 24) bins[hour].push(reading.value);
+  });
+
+  return bins.flatMap((values, hour) => {
+    if (values.length < MIN_BIN_READINGS) return [];
+    const sorted = [...values].sort((a, b) => a - b);
+    const at = (p: number) => Math.round(percentile(sorted, p));
+    return [{ hour, count: values.length, p5: at(5), p25: at(25), p50: at(50), p75: at(75), p95: at(95) }];
+  });
+};
+
+/**
+ * Runs of readings below 70 mg/dL. A CGM run counts once it has lasted 15
+ * minutes, timed until the first reading back at 70 or above; a single low
+ * fingerstick reading counts on its own.
+ */
+export const detectHypoglycemiaEpisodes = (readings: BloodGlucoseReading[]): HypoglycemiaEpisode[] => {
+  const sorted = [...readings].sort((a, b) => readingTime(a) - readingTime(b));
+  const episodes: HypoglycemiaEpisode[] = [];
+  let run: BloodGlucoseReading[] = [];
+
+  const close = (next?: BloodGlucoseReading) => {
+    if (run.length === 0) return;
+    const first = run[0];
+    const last = run[run.length - 1];
+    const cgm = run.some(reading => reading.source === 'cgm');
+    const end = next && readingTime(next) - readingTime(last) <= MAX_GAP_MINUTES * MINUTE ? next : last;
+    const durationMinutes = (readingTime(end) - readingTime(first)) / MINUTE;
+    const nadir = Math.min(...run.map(reading => reading.value));
+
+    if (!cgm || durationMinutes >= EPISODE_MINUTES) {
+      episodes.push({
+        date: first.date,
+        time: first.time,
+        durationMinutes: cgm || run.length > 1 ? durationMinutes : undefined,
+        nadir,
+        level: nadir < AGP_THRESHOLDS.veryLow ? 2 : 1,
+      });
+    }
+    run = [];
+  };
+
+  sorted.forEach(reading => {
+    const previous = run[run.length - 1];
+    if (previous && readingTime(reading) - readingTime(previous) > MAX_GAP_MINUTES * MINUTE) {
+      close();
+    }
+    if (reading.value < AGP_THRESHOLDS.low) {
+      run.push(reading);
+    } else {
+      close(reading);
+    }
+  });
+  close();
+
+  return episodes;
+};
+
+/**
+ * Share of the period covered by CGM data, from the sensor's usual interval
+ */
+const sensorActivity = (readings: BloodGlucoseReading[], days: number): number | undefined => {
+  const times = readings.filter(reading => reading.source === 'cgm').map(readingTime).sort((a, b) => a - b);
+  if (times.length < 2) return undefined;
+
+  const gaps = times.slice(1).map((time, i) => time - times[i]).filter(gap => gap > 0).sort((a, b) => a - b);
+  const interval = percentile(gaps, 50);
+  if (!interval) return undefined;
+
+  const expected = (days * 24 * 60 * MINUTE) / interval;
+  return Math.min(100, Math.round((times.length / expected) * 100));
+};
+
+/**
+ * AGP over the `days` days up to `asOf`, or undefined without readings
+ */
+export const buildAgpReport = (
+  readings: BloodGlucoseReading[],
+  days: number = AGP_DEFAULT_DAYS,
+  asOf: string = toLocalDate(new Date())
+): AgpReport | undefined => {
+  const end = readingTime({ date: asOf, time: '23:59' });
+  const start = end - days * 24 * 60 * MINUTE;
+  const period = readings.filter(reading => {
+    const time = readingTime(reading);
+    return time > start && time <= end && !isNaN(reading.value);
+  });
+  if (period.length === 0) return undefined;
+
+  const values = period.map(reading => reading.value);
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const sd = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(values.length - 1, 1));
+  const [year, month, day] = asOf.split('-').map(Number);
+  const from = toLocalDate(new Date(year, month - 1, day - days + 1));
+
+  return {
+    from,
+    to: asOf,
+    days,
+    readingCount: period.length,
+    mean: Math.round(mean),
+    sd: Math.round(sd),
+    cv: Math.round((sd / mean) * 1000) / 10,
+    gmi: calculateGmi(mean),
+    ranges: calculateRangeShares(values),
+    profile: buildHourlyProfile(period),
+    episodes: detectHypoglycemiaEpisodes(period),
+    sensorActive: sensorActivity(period, days),
+  };
+};
@@ -0,0 +1,287 @@
+/**
+ * Allergy Service
+ *
+ * Structured allergies and the drug-class cross-reactivity table used to
+ * check new medications against them. A medication conflicts with an
+ * allergy when it is the same drug, belongs to the same class, or belongs
+ * to a class known to cross-react (penicillins and cephalosporins, for
+ * example). Older patients only have free-text allergy names; those are
+ * checked too, as self-reported allergies of unknown severity.
+ */
+
+import type { AllergyRecord, Medication, Patient } from '../types';
+
+export type ConflictMatch = 'same-drug' | 'same-class' | 'cross-reactive';
+
+export interface DrugClass {
+  key: string;
+  label: string;
+  // Generic and common brand names, lower case
+  members: string[];
+  // Other ways people write the class itself, e.g. "sulfa drugs"
+  aliases?: string[];
+}
+
+export interface CrossReactivity {
+  classes: [string, string];
+  risk: 'high' | 'low';
+  note: string;
+}
+
+export interface AllergyConflict {
+  allergy: AllergyRecord;
+  medicationName: string;
+  match: ConflictMatch;
+  drugClass?: string; // Label of the class that links them
+  risk: 'high' | 'low';
+  message: string;
+}
+
+export class AllergyConflictError extends Error {
+  conflicts: AllergyConflict[];
+
+  constructor(conflicts: AllergyConflict[]) {
+    super(`Allergy conflict: ${[...new Set(conflicts.map(conflict => conflict.message))].join('; ')}`);
+    this.name = 'AllergyConflictError';
+    this.conflicts = conflicts;
+  }
+}
+
+export const DRUG_CLASSES: DrugClass[] = [
+  {
+    key: 'penicillins',
+    label: 'Penicillins',
+    members: ['penicillin', 'amoxicillin', 'ampicillin', 'augmentin', 'co-amoxiclav', 'flucloxacillin', 'dicloxacillin', 'cloxacillin', 'nafcillin', 'oxacillin', 'piperacillin', 'tazocin'],
+  },
+  {
+    key: 'cephalosporins',
+    label: 'Cephalosporins',
+    members: ['cephalexin', 'cefalexin', 'keflex', 'cefadroxil', 'cefazolin', 'cefaclor', 'cefuroxime', 'cefprozil', 'cefdinir', 'cefixime', 'cefpodoxime', 'ceftriaxone', 'cefotaxime', 'ceftazidime', 'cefepime'],
+  },
+  {
+    key: 'carbapenems',
+    label: 'Carbapenems',
+    members: ['meropenem', 'imipenem', 'ertapenem', 'doripenem'],
+  },
+  {
+    key: 'sulfonamides',
+    label: 'Sulfonamide antibiotics',
+    members: ['sulfamethoxazole', 'co-trimoxazole', 'bactrim', 'septra', 'sulfadiazine', 'sulfasalazine'],
+    aliases: ['sulfa', 'sulpha', 'sulfa drugs', 'sulfonamide', 'sulfonamides'],
+  },
+  {
+    key: 'macrolides',
+    label: 'Macrolides',
+    members: ['erythromycin', 'azithromycin', 'clarithromycin'],
+  },
+  {
+    key: 'fluoroquinolones',
+    label: 'Fluoroquinolones',
+    members: ['ciprofloxacin', 'levofloxacin', 'moxifloxacin', 'ofloxacin', 'norfloxacin'],
+    aliases: ['quinolones'],
+  },
+  {
+    key: 'tetracyclines',
+    label: 'Tetracyclines',
+    members: ['tetracycline', 'doxycycline', 'minocycline'],
+  },
+  {
+    key: 'nsaids',
+    label: 'NSAIDs',
+    members: ['aspirin', 'ibuprofen', 'naproxen', 'diclofenac', 'ketorolac', 'indomethacin', 'meloxicam', 'piroxicam', 'celecoxib', 'etoricoxib', 'advil', 'motrin', 'aleve'],
+    aliases: ['nsaid', 'anti-inflammatories'],
+  },
+  {
+    key: 'opioids',
+    label: 'Opioids',
+    members: ['codeine', 'morphine', 'hydrocodone', 'oxycodone', 'hydromorphone', 'tramadol', 'tapentadol', 'fentanyl'],
+    aliases: ['opiates'],
+  },
+  {
+    key: 'ace-inhibitors',
+    label: 'ACE inhibitors',
+    members: ['lisinopril', 'enalapril', 'ramipril', 'captopril', 'perindopril', 'benazepril', 'quinapril'],
+    aliases: ['ace inhibitor', 'ace inhibitors'],
+  },
+  {
+    key: 'aromatic-anticonvulsants',
+    label: 'Aromatic anticonvulsants',
+    members: ['carbamazepine', 'oxcarbazepine', 'phenytoin', 'phenobarbital', 'lamotrigine'],
+  },
+];
+
+export const CROSS_REACTIVITY: CrossReactivity[] = [
+  {
+    classes: ['penicillins', 'cephalosporins'],
+    risk: 'low',
+    note: 'About 1–2% of people allergic to penicillin react to cephalosporins, mostly first-generation ones',
+  },
+  {
+    classes: ['penicillins', 'carbapenems'],
+    risk: 'low',
+    note: 'Under 1% of people allergic to penicillin react to carbapenems',
+  },
+  {
+    classes: ['cephalosporins', 'carbapenems'],
+    risk: 'low',
+    note: 'Cross-reactions between cephalosporins and carbapenems are rare but reported',
+  },
+];
+
+export const SEVERITY_LABELS: Record<AllergyRecord['severity'], string> = {
+  mild: 'Mild',
+  moderate: 'Moderate',
+  severe: 'Severe',
+  unknown: 'Unknown severity',
+};
+
+const normalize = (value: string): string => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match, so "cefalexin" does not match inside another name
+const mentions = (text: string, term: string): boolean =>
+  new RegExp(`(^|[^a-z])${escapeRegExp(term)}([^a-z]|$)`).test(text);
+
+const classByKey = (key?: string): DrugClass | undefined => DRUG_CLASSES.find(drugClass => drugClass.key === key);
+
+/**
+ * The drug class a substance or medication name belongs to, if any. Class
+ * names ("penicillins", "sulfa drugs") resolve to their own class.
+ */
+export const detectDrugClass = (name: string): DrugClass | undefined => {
+  const text = normalize(name);
+  return DRUG_CLASSES.find(drugClass =>
+    [drugClass.key, normalize(drugClass.label), ...(drugClass.aliases || []), ...drugClass.members]
+      .some(term => mentions(text, term))
+  );
+};
+
+export const createAllergyRecord = (input: Omit<AllergyRecord, 'id'>): AllergyRecord => ({
+  ...input,
+  substance: input.substance.trim(),
+  drugClass: input.drugClass || (input.category === 'drug' ? detectDrugClass(input.substance)?.key : undefined),
+  id: `allergy-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+});
+
+/**
+ * Structured allergies, followed by any free-text allergy names that have no
+ * structured record yet
+ */
+export const getPatientAllergies = (patient: Pick<Patient, 'allergies' | 'allergyRecords'>): AllergyRecord[] => {
+  const records = patient.allergyRecords || [];
+  const recorded = new Set(records.map(record => normalize(record.substance)));
+
+  const legacy = (patient.allergies || [])
+    .filter(name => name.trim() && !recorded.has(normalize(name)))
+    .map((name, index): AllergyRecord => ({
+      id: `allergy-legacy-${index}`,
+      substance: name.trim(),
+      category: detectDrugClass(name) ? 'drug' : 'other',
+      drugClass: detectDrugClass(name)?.key,
+      severity: 'unknown',
+      verification: 'self-reported',
+    }));
+
+  return [...records, ...legacy];
+};
+
+const crossReactivity = (a: string, b: string): CrossReactivity | undefined =>
+  CROSS_REACTIVITY.find(({ classes }) => (classes[0] === a && classes[1] === b) || (classes[0] === b && classes[1] === a));
+
+/**
+ * Allergies a medication conflicts with. Food and environmental allergies
+ * only match when the medication is named after the same substance.
+ */
+export const checkMedicationAllergies = (medicationName: string, allergies: AllergyRecord[]): AllergyConflict[] => {
+  const name = normalize(medicationName);
+  if (!name) return [];
+  const medicationClass = detectDrugClass(name);
+
+  return allergies.flatMap((allergy): AllergyConflict[] => {
+    const substance = normalize(allergy.substance);
+    const allergyClass = classByKey(allergy.drugClass) || detectDrugClass(substance);
+
+    if (substance && mentions(name, substance)) {
+      return [{
+        allergy,
+        medicationName,
+        match: 'same-drug',
+        risk: 'high',
+        message: `${medicationName} contains ${allergy.substance}, which is listed as an allergy`,
+      }];
+    }
+    if (!allergyClass || !medicationClass || allergy.category === 'food' || allergy.category === 'environmental') return [];
+
+    if (allergyClass.key === medicationClass.key) {
+      return [{
+        allergy,
+        medicationName,
+        match: 'same-class',
+        drugClass: medicationClass.label,
+        risk: 'high',
+        message: `${medicationName} is in the same class (${medicationClass.label}) as the ${allergy.substance} allergy`,
+      }];
+    }
+
+    const crossReaction = crossReactivity(allergyClass.key, medicationClass.key);
+    return crossReaction ? [{
+      allergy,
+      medicationName,
+      match: 'cross-reactive',
+      drugClass: medicationClass.label,
+      risk: crossReaction.risk,
+      message: `${medicationName} (${medicationClass.label}) can cross-react with the ${allergy.substance} allergy. ${crossReaction.note}`,
+    }] : [];
+  });
+};
+
+/**
+ * Conflicts for a batch of medications that have not already been overridden.
+ * An override only covers the allergies it was given for, so a medication
+ * renamed to another allergen is flagged again.
+ */
+export const findUnacknowledgedConflicts = (
+  medications: Pick<Medication, 'name' | 'allergyOverride'>[],
+  allergies: AllergyRecord[]
+): AllergyConflict[] =>
+  medications.flatMap(medication => {
+    const override = medication.allergyOverride;
+    return checkMedicationAllergies(medication.name, allergies).filter(
+      conflict => !override?.reason.trim() || !override.substances.includes(conflict.allergy.substance)
+    );
+  });
+
+/**
+ * Medications that are new in `medications` or renamed since `previous`.
+ * Only these need checking when a saved list changes; the rest were checked
+ * when they were added.
+ */
+export const getChangedMedications = <T extends Pick<Medication, 'id' | 'name'>>(
+  previous: Pick<Medication, 'id' | 'name'>[],
+  medications: T[]
+): T[] =>
+  medications.filter(medication => previous.find(other => other.id === medication.id)?.name !== medication.name);
+
+/**
+ * Marks medications as prescribed despite their allergy conflicts, storing
+ * the reason on each one that had a conflict
+ */
+export const applyAllergyOverride = <T extends Pick<Medication, 'name' | 'allergyOverride'>>(
+  medications: T[],
+  allergies: AllergyRecord[],
+  reason: string,
+  overriddenAt: string = new Date().toISOString()
+): (T & Pick<Medication, 'allergyOverride'>)[] =>
+  medications.map(medication => {
+    const conflicts = checkMedicationAllergies(medication.name, allergies);
+    if (conflicts.length === 0) return medication;
+    return {
+      ...medication,
+      allergyOverride: {
+        reason: reason.trim(),
+        substances: [...new Set(conflicts.map(conflict => conflict.allergy.substance))],
+        overriddenAt,
+      },
+    };
+  });
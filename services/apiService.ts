@@ -1,22 +1,137 @@
-import type { Patient, Doctor, MedicalRecord, LoginRequest, RegisterRequest, AuthResponse } from '../types';
+import type { Patient, Doctor, MedicalRecord, Medication, Appointment, DeviceSession, Household, HouseholdMember, HouseholdRole, Pagination, LoginRequest, RegisterRequest, AuthResponse } from '../types';
+import type { FhirBundle } from './fhirExportService';
 
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000/api/v1';
 
+// An audit event as returned by GET /audit
+export interface AuditEvent {
+  id: string;
+  user_id: string | null;
+  action: string;
+  table_name: string;
+  record_id: string | null;
+  patient_id: string | null;
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+  ip_address: string | null;
+  created_at: string;
+  user_email: string | null;
+  user_first_name: string | null;
+  user_last_name: string | null;
+  patient_name: string | null;
+}
+
+// A document attached to a medical record, as stored by the server
+export interface RecordDocument {
+  id: string;
+  medical_record_id: string;
+  original_name: string;
+  file_type: string;
+  file_size: number;
+  mime_type: string;
+  uploaded_at: string;
+}
+
+// A response the server answered with an error status
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Rows as the server sends them, before mapping to the frontend's names
+interface DeviceSessionRow {
+  id: string;
+  device_info: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  refresh_expires_at: string | null;
+  is_current: boolean;
+}
+
+type PatientRow = Patient & {
+  household_id?: string | null;
+  access_role?: HouseholdRole | null;
+};
+
+interface HouseholdMemberRow {
+  id: string;
+  user_id: string;
+  email: string;
+  first_name: string;
+  last_name: string;
+  role: HouseholdRole;
+  patient_ids: string[] | null;
+}
+
+interface HouseholdRow {
+  id: string;
+  name: string;
+  role: HouseholdRole;
+  created_at: string;
+  patients?: { id: string; name: string }[];
+  members?: HouseholdMemberRow[];
+}
+
+interface MedicalRecordRow {
+  id: string;
+  patient_id: string;
+  doctor_id: string | null;
+  record_date: string;
+  complaint: string | null;
+  investigations: string | null;
+  diagnosis: string | null;
+  prescription: string | null;
+  notes: string | null;
+  documents?: RecordDocument[];
+}
+
+interface MedicationRow {
+  id: string;
+  patient_id: string;
+  name: string;
+  dosage: string;
+  frequency: string;
+  start_date: string | null;
+  end_date: string | null;
+  prescribed_by: string | null;
+  instructions: string | null;
+  is_active: boolean;
+  updated_at: string;
+}
+
 class ApiService {
   private token: string | null = null;
+  private refreshToken: string | null = null;
+  private refreshInFlight: Promise<boolean> | null = null;
 
   constructor() {
     this.token = localStorage.getItem('auth_token');
+    this.refreshToken = localStorage.getItem('refresh_token');
   }
 
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    retryOnExpiry = true
   ): Promise<T> {
+    const response = await this.send(endpoint, options, retryOnExpiry);
+    return response.json();
+  }
+
+  // Authenticated fetch that throws ApiError on error statuses; callers read the body
+  private async send(
+    endpoint: string,
+    options: RequestInit = {},
+    retryOnExpiry = true
+  ): Promise<Response> {
     const url = `${API_BASE_URL}${endpoint}`;
 
+    // Uploads leave the content type to the browser so it can add the multipart boundary
     const headers: HeadersInit = {
-      'Content-Type': 'application/json',
+      ...(!(options.body instanceof FormData) && { 'Content-Type': 'application/json' }),
       ...options.headers,
     };
 
@@ -32,12 +147,19 @@ class ApiService {
     try {
       const response = await fetch(url, config);
 
+      // Access tokens are short-lived: refresh once and replay the request
+      if (response.status === 401 && retryOnExpiry && this.refreshToken && endpoint !== '/auth/refresh') {
+        if (await this.refreshSession()) {
+          return this.send(endpoint, options, false);
+        }
+      }
+
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || `HTTP error! status: ${response.status}`);
+        throw new ApiError(error.error || `HTTP error! status: ${response.status}`, response.status);
       }
 
-      return await response.json();
+      return response;
     } catch (error) {
       console.error('API request failed:', error);
       throw error;
@@ -52,8 +174,7 @@ class ApiService {
     });
 
     if (response.success && response.token) {
-      this.token = response.token;
-      localStorage.setItem('auth_token', response.token);
+      this.storeTokens(response.token, response.refreshToken);
     }
 
     return response;
@@ -66,8 +187,7 @@ class ApiService {
     });
 
     if (response.success && response.token) {
-      this.token = response.token;
-      localStorage.setItem('auth_token', response.token);
+      this.storeTokens(response.token, response.refreshToken);
     }
 
     return response;
@@ -76,14 +196,77 @@ class ApiService {
   async logout(): Promise<void> {
     if (this.token) {
       try {
-        await this.request('/auth/logout', { method: 'POST' });
+        await this.request('/auth/logout', { method: 'POST' }, false);
       } catch (error) {
         console.error('Logout request failed:', error);
       }
     }
 
-    this.token = null;
-    localStorage.removeItem('auth_token');
+    this.clearToken();
+  }
+
+  // Rotate the refresh token; concurrent callers share one request
+  async refreshSession(): Promise<boolean> {
+    if (!this.refreshToken) {
+      return false;
+    }
+
+    if (!this.refreshInFlight) {
+      this.refreshInFlight = this.request<AuthResponse>('/auth/refresh', {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken: this.refreshToken }),
+      }, false)
+        .then(response => {
+          if (response.success && response.token) {
+            this.storeTokens(response.token, response.refreshToken);
+            return true;
+          }
+          return false;
+        })
+        .catch(error => {
+          // A rejected or reused refresh token ends the session on this device;
+          // network and server errors keep the tokens for the next attempt
+          if (error instanceof ApiError && error.status === 401) {
+            this.clearToken();
+          }
+          return false;
+        })
+        .finally(() => {
+          this.refreshInFlight = null;
+        });
+    }
+
+    return this.refreshInFlight;
+  }
+
+  // Signed-in devices
+  async getSessions(): Promise<{ success: boolean; data: DeviceSession[] }> {
+    const response = await this.request<{ success: boolean; data: DeviceSessionRow[] }>('/auth/sessions');
+
+    return {
+      success: response.success,
+      data: (response.data || []).map(session => ({
+        id: session.id,
+        deviceInfo: session.device_info || undefined,
+        ipAddress: session.ip_address || undefined,
+        createdAt: session.created_at,
+        lastUsedAt: session.last_used_at || undefined,
+        expiresAt: session.refresh_expires_at || undefined,
+        isCurrent: !!session.is_current,
+      })),
+    };
+  }
+
+  async revokeSession(sessionId: string): Promise<{ success: boolean }> {
+    return this.request(`/auth/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async revokeOtherSessions(): Promise<{ success: boolean; data: { revoked: number } }> {
+    return this.request('/auth/sessions/revoke-others', {
+      method: 'POST',
+    });
   }
 
   async getCurrentUser(): Promise<any> {
@@ -96,7 +279,7 @@ class ApiService {
     limit?: number;
     search?: string;
     doctor_id?: string;
-  }): Promise<{ success: boolean; data: Patient[]; pagination: any }> {
+  }): Promise<{ success: boolean; data: Patient[]; pagination: Pagination }> {
     const searchParams = new URLSearchParams();
 
     if (params?.page) searchParams.append('page', params.page.toString());
@@ -107,11 +290,30 @@ class ApiService {
     const query = searchParams.toString();
     const endpoint = `/patients${query ? `?${query}` : ''}`;
 
-    return this.request(endpoint);
+    const response = await this.request<{ success: boolean; data: PatientRow[]; pagination: Pagination }>(endpoint);
+
+    return {
+      ...response,
+      data: (response.data || []).map(patient => this.withPatientAccess(patient)),
+    };
   }
 
   async getPatient(id: string): Promise<{ success: boolean; data: Patient }> {
-    return this.request(`/patients/${id}`);
+    const response = await this.request<{ success: boolean; data: PatientRow }>(`/patients/${id}`);
+
+    return {
+      ...response,
+      data: response.data && this.withPatientAccess(response.data),
+    };
+  }
+
+  // Expose the household sharing fields under the frontend's names
+  private withPatientAccess(patient: PatientRow): Patient {
+    return {
+      ...patient,
+      householdId: patient.household_id || undefined,
+      accessRole: patient.access_role || undefined,
+    };
   }
 
   async createPatient(patientData: Partial<Patient>): Promise<{ success: boolean; data: Patient }> {
@@ -134,13 +336,128 @@ class ApiService {
     });
   }
 
+  // FHIR R4 Bundle of the patient's complete record, as assembled by the server
+  async exportPatientFhir(patientId: string): Promise<FhirBundle> {
+    return this.request(`/patients/${patientId}/fhir`);
+  }
+
+  // Household methods
+  async getHouseholds(): Promise<{ success: boolean; data: Household[] }> {
+    const response = await this.request<{ success: boolean; data: HouseholdRow[] }>('/households');
+
+    return {
+      success: response.success,
+      data: (response.data || []).map(household => ({
+        id: household.id,
+        name: household.name,
+        role: household.role,
+        createdAt: household.created_at,
+        patients: (household.patients || []).map(patient => ({ id: patient.id, name: patient.name })),
+        members: (household.members || []).map(member => this.toHouseholdMember(member)),
+      })),
+    };
+  }
+
+  async createHousehold(name: string): Promise<{ success: boolean; data: Pick<Household, 'id' | 'name' | 'role'> }> {
+    return this.request('/households', {
+      method: 'POST',
+      body: JSON.stringify({ name }),
+    });
+  }
+
+  async deleteHousehold(householdId: string): Promise<{ success: boolean }> {
+    return this.request(`/households/${householdId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async addHouseholdMember(
+    householdId: string,
+    email: string,
+    role: HouseholdRole,
+    patientIds?: string[]
+  ): Promise<{ success: boolean; data: HouseholdMember }> {
+    const response = await this.request<{ success: boolean; data: HouseholdMemberRow }>(`/households/${householdId}/members`, {
+      method: 'POST',
+      body: JSON.stringify({ email, role, patient_ids: patientIds ?? null }),
+    });
+
+    return { success: response.success, data: this.toHouseholdMember(response.data) };
+  }
+
+  async updateHouseholdMember(
+    householdId: string,
+    memberId: string,
+    updates: { role?: HouseholdRole; patientIds?: string[] | null }
+  ): Promise<{ success: boolean; data: Pick<HouseholdMember, 'id' | 'userId' | 'role' | 'patientIds'> }> {
+    const response = await this.request<{ success: boolean; data: HouseholdMemberRow }>(`/households/${householdId}/members/${memberId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ role: updates.role, patient_ids: updates.patientIds }),
+    });
+
+    const { id, userId, role, patientIds } = this.toHouseholdMember(response.data);
+    return { success: response.success, data: { id, userId, role, patientIds } };
+  }
+
+  async removeHouseholdMember(householdId: string, memberId: string): Promise<{ success: boolean }> {
+    return this.request(`/households/${householdId}/members/${memberId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async addPatientToHousehold(householdId: string, patientId: string): Promise<{ success: boolean; data: { id: string; name: string; household_id: string } }> {
+    return this.request(`/households/${householdId}/patients/${patientId}`, {
+      method: 'POST',
+    });
+  }
+
+  async removePatientFromHousehold(householdId: string, patientId: string): Promise<{ success: boolean }> {
+    return this.request(`/households/${householdId}/patients/${patientId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  private toHouseholdMember(member: HouseholdMemberRow): HouseholdMember {
+    return {
+      id: member.id,
+      userId: member.user_id,
+      email: member.email,
+      firstName: member.first_name,
+      lastName: member.last_name,
+      role: member.role,
+      patientIds: member.patient_ids || undefined,
+    };
+  }
+
+  // Audit log (who changed what, and when)
+  async getAuditLog(params?: {
+    page?: number;
+    limit?: number;
+    patient_id?: string;
+    user_id?: string;
+    action?: string;
+    table_name?: string;
+    field?: string;
+    date_from?: string;
+    date_to?: string;
+  }): Promise<{ success: boolean; data: AuditEvent[]; pagination: Pagination }> {
+    const searchParams = new URLSearchParams();
+
+    Object.entries(params || {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') searchParams.append(key, String(value));
+    });
+
+    const query = searchParams.toString();
+    return this.request(`/audit${query ? `?${query}` : ''}`);
+  }
+
   // Doctor methods
   async getDoctors(params?: {
     page?: number;
     limit?: number;
     search?: string;
     specialty?: string;
-  }): Promise<{ success: boolean; data: Doctor[]; pagination: any }> {
+  }): Promise<{ success: boolean; data: Doctor[]; pagination: Pagination }> {
     const searchParams = new URLSearchParams();
 
     if (params?.page) searchParams.append('page', params.page.toString());
@@ -162,25 +479,270 @@ class ApiService {
     return this.request('/doctors/specialties/list');
   }
 
-  // Medical Record methods (placeholder)
-  async getMedicalRecords(patientId: string): Promise<{ success: boolean; data: MedicalRecord[] }> {
-    // For now, return empty response until backend is fully implemented
-    return { success: true, data: [] };
+  // Medical Record methods
+  async getMedicalRecords(patientId: string, params?: {
+    page?: number;
+    limit?: number;
+    doctor_id?: string;
+    date_from?: string;
+    date_to?: string;
+    severity?: string;
+  }): Promise<{ success: boolean; data: MedicalRecord[]; pagination?: Pagination }> {
+    const searchParams = new URLSearchParams({ patient_id: patientId });
+
+    if (params?.page) searchParams.append('page', params.page.toString());
+    if (params?.limit) searchParams.append('limit', params.limit.toString());
+    if (params?.doctor_id) searchParams.append('doctor_id', params.doctor_id);
+    if (params?.date_from) searchParams.append('date_from', params.date_from);
+    if (params?.date_to) searchParams.append('date_to', params.date_to);
+    if (params?.severity) searchParams.append('severity', params.severity);
+
+    const response = await this.request<{ success: boolean; data: MedicalRecordRow[]; pagination?: Pagination }>(
+      `/medical-records?${searchParams.toString()}`
+    );
+
+    return {
+      ...response,
+      data: (response.data || []).map(record => this.toMedicalRecord(record)),
+    };
+  }
+
+  async getMedicalRecord(recordId: string): Promise<{ success: boolean; data: MedicalRecord }> {
+    const response = await this.request<{ success: boolean; data: MedicalRecordRow }>(`/medical-records/${recordId}`);
+
+    return { success: response.success, data: this.toMedicalRecord(response.data) };
   }
 
   async createMedicalRecord(patientId: string, recordData: Partial<MedicalRecord>): Promise<{ success: boolean; data: MedicalRecord }> {
-    // Placeholder implementation
-    throw new Error('Medical records endpoint not yet implemented');
+    const response = await this.request<{ success: boolean; data: MedicalRecordRow }>('/medical-records', {
+      method: 'POST',
+      body: JSON.stringify({ ...this.toMedicalRecordRow(recordData), patient_id: patientId }),
+    });
+
+    return { success: response.success, data: this.toMedicalRecord(response.data) };
   }
 
   async updateMedicalRecord(patientId: string, recordId: string, updates: Partial<MedicalRecord>): Promise<{ success: boolean; data: MedicalRecord }> {
-    // Placeholder implementation
-    throw new Error('Medical records endpoint not yet implemented');
+    const response = await this.request<{ success: boolean; data: MedicalRecordRow }>(`/medical-records/${recordId}`, {
+      method: 'PUT',
+      body: JSON.stringify(this.toMedicalRecordRow(updates)),
+    });
+
+    return { success: response.success, data: this.toMedicalRecord(response.data) };
   }
 
   async deleteMedicalRecord(patientId: string, recordId: string): Promise<{ success: boolean }> {
-    // Placeholder implementation
-    throw new Error('Medical records endpoint not yet implemented');
+    return this.request(`/medical-records/${recordId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  private toMedicalRecord(record: MedicalRecordRow): MedicalRecord {
+    return {
+      id: record.id,
+      date: record.record_date.slice(0, 10),
+      doctorId: record.doctor_id || '',
+      complaint: record.complaint || '',
+      investigations: record.investigations || '',
+      diagnosis: record.diagnosis || '',
+      prescription: record.prescription || '',
+      notes: record.notes || '',
+      documents: (record.documents || []).map(document => ({
+        id: document.id,
+        name: document.original_name,
+        type: document.mime_type,
+        size: document.file_size,
+        uploadedAt: document.uploaded_at,
+        // Stored files are encrypted; fetch them with downloadDocument
+        url: '',
+      })),
+    };
+  }
+
+  // Only the fields present in `record` are sent, so this also serves partial updates
+  private toMedicalRecordRow(record: Partial<MedicalRecord>): Partial<Omit<MedicalRecordRow, 'id' | 'documents'>> {
+    return {
+      record_date: record.date,
+      doctor_id: record.doctorId === undefined ? undefined : record.doctorId || null,
+      complaint: record.complaint,
+      investigations: record.investigations,
+      diagnosis: record.diagnosis,
+      prescription: record.prescription,
+      notes: record.notes,
+    };
+  }
+
+  // Document methods (attachments on a medical record)
+  async getDocuments(recordId: string): Promise<{ success: boolean; data: RecordDocument[] }> {
+    return this.request(`/medical-records/${recordId}/documents`);
+  }
+
+  async uploadDocument(recordId: string, file: File): Promise<{ success: boolean; data: RecordDocument }> {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    return this.request(`/medical-records/${recordId}/documents`, {
+      method: 'POST',
+      body: formData,
+    });
+  }
+
+  async downloadDocument(recordId: string, documentId: string): Promise<Blob> {
+    const response = await this.send(`/medical-records/${recordId}/documents/${documentId}`);
+    return response.blob();
+  }
+
+  async deleteDocument(recordId: string, documentId: string): Promise<{ success: boolean }> {
+    return this.request(`/medical-records/${recordId}/documents/${documentId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Medication methods
+  async getMedications(patientId: string, params?: {
+    page?: number;
+    limit?: number;
+    active?: boolean;
+  }): Promise<{ success: boolean; data: Medication[]; pagination: Pagination }> {
+    const searchParams = new URLSearchParams({ patient_id: patientId });
+
+    if (params?.page) searchParams.append('page', params.page.toString());
+    if (params?.limit) searchParams.append('limit', params.limit.toString());
+    if (params?.active !== undefined) searchParams.append('active', params.active.toString());
+
+    const response = await this.request<{ success: boolean; data: MedicationRow[]; pagination: Pagination }>(
+      `/medications?${searchParams.toString()}`
+    );
+
+    return {
+      ...response,
+      data: (response.data || []).map(medication => this.toMedication(medication)),
+    };
+  }
+
+  async getMedicationHistory(patientId: string): Promise<{ success: boolean; data: { active: Medication[]; discontinued: Medication[] } }> {
+    const response = await this.request<{ success: boolean; data: { active: MedicationRow[]; discontinued: MedicationRow[] } }>(
+      `/medications/history/${patientId}`
+    );
+
+    return {
+      success: response.success,
+      data: {
+        active: (response.data?.active || []).map(medication => this.toMedication(medication)),
+        discontinued: (response.data?.discontinued || []).map(medication => this.toMedication(medication)),
+      },
+    };
+  }
+
+  async createMedication(patientId: string, medicationData: Partial<Medication>): Promise<{ success: boolean; data: Medication }> {
+    const response = await this.request<{ success: boolean; data: MedicationRow }>('/medications', {
+      method: 'POST',
+      body: JSON.stringify({ ...this.toMedicationRow(medicationData), patient_id: patientId }),
+    });
+
+    return { success: response.success, data: this.toMedication(response.data) };
+  }
+
+  async updateMedication(medicationId: string, updates: Partial<Medication>): Promise<{ success: boolean; data: Medication }> {
+    const response = await this.request<{ success: boolean; data: MedicationRow }>(`/medications/${medicationId}`, {
+      method: 'PUT',
+      body: JSON.stringify(this.toMedicationRow(updates)),
+    });
+
+    return { success: response.success, data: this.toMedication(response.data) };
+  }
+
+  async discontinueMedication(medicationId: string, reason: string, endDate?: string): Promise<{ success: boolean; data: Medication }> {
+    const response = await this.request<{ success: boolean; data: MedicationRow }>(`/medications/${medicationId}/discontinue`, {
+      method: 'POST',
+      body: JSON.stringify({ reason, end_date: endDate }),
+    });
+
+    return { success: response.success, data: this.toMedication(response.data) };
+  }
+
+  // The frontend has no active flag: a medication is active until its end date
+  private toMedication(medication: MedicationRow): Medication {
+    const endDate = medication.end_date || (medication.is_active ? null : medication.updated_at);
+
+    return {
+      id: medication.id,
+      name: medication.name,
+      dosage: medication.dosage,
+      frequency: medication.frequency,
+      prescribedBy: medication.prescribed_by || undefined,
+      startDate: medication.start_date?.slice(0, 10),
+      endDate: endDate?.slice(0, 10),
+      notes: medication.instructions || undefined,
+    };
+  }
+
+  // Only the fields present in `medication` are sent, so this also serves partial updates
+  private toMedicationRow(medication: Partial<Medication>): Partial<Omit<MedicationRow, 'id' | 'patient_id' | 'is_active' | 'updated_at'>> {
+    return {
+      name: medication.name,
+      dosage: medication.dosage,
+      frequency: medication.frequency,
+      start_date: medication.startDate === undefined ? undefined : medication.startDate || null,
+      end_date: medication.endDate === undefined ? undefined : medication.endDate || null,
+      prescribed_by: medication.prescribedBy === undefined ? undefined : medication.prescribedBy || null,
+      instructions: medication.notes,
+    };
+  }
+
+  // Appointment methods
+  async getAppointments(params?: {
+    page?: number;
+    limit?: number;
+    patient_id?: string;
+    doctor_id?: string;
+    status?: string;
+    date_from?: string;
+    date_to?: string;
+  }): Promise<{ success: boolean; data: Appointment[]; pagination: Pagination }> {
+    const searchParams = new URLSearchParams();
+
+    if (params?.page) searchParams.append('page', params.page.toString());
+    if (params?.limit) searchParams.append('limit', params.limit.toString());
+    if (params?.patient_id) searchParams.append('patient_id', params.patient_id);
+    if (params?.doctor_id) searchParams.append('doctor_id', params.doctor_id);
+    if (params?.status) searchParams.append('status', params.status);
+    if (params?.date_from) searchParams.append('date_from', params.date_from);
+    if (params?.date_to) searchParams.append('date_to', params.date_to);
+
+    const query = searchParams.toString();
+    return this.request(`/appointments${query ? `?${query}` : ''}`);
+  }
+
+  async createAppointment(appointmentData: Partial<Appointment>): Promise<{ success: boolean; data: Appointment }> {
+    return this.request('/appointments', {
+      method: 'POST',
+      body: JSON.stringify(appointmentData),
+    });
+  }
+
+  async updateAppointment(appointmentId: string, updates: Partial<Appointment>): Promise<{ success: boolean; data: Appointment }> {
+    return this.request(`/appointments/${appointmentId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async updateAppointmentStatus(
+    appointmentId: string,
+    status: 'completed' | 'cancelled' | 'no-show',
+    notes?: string
+  ): Promise<{ success: boolean; data: Appointment }> {
+    return this.request(`/appointments/${appointmentId}/status`, {
+      method: 'PATCH',
+      body: JSON.stringify({ status, notes }),
+    });
+  }
+
+  async deleteAppointment(appointmentId: string): Promise<{ success: boolean }> {
+    return this.request(`/appointments/${appointmentId}`, {
+      method: 'DELETE',
+    });
   }
 
   // Health check
@@ -200,9 +762,20 @@ class ApiService {
     localStorage.setItem('auth_token', token);
   }
 
+  private storeTokens(token: string, refreshToken?: string): void {
+    this.setToken(token);
+
+    if (refreshToken) {
+      this.refreshToken = refreshToken;
+      localStorage.setItem('refresh_token', refreshToken);
+    }
+  }
+
   clearToken(): void {
     this.token = null;
+    this.refreshToken = null;
     localStorage.removeItem('auth_token');
+    localStorage.removeItem('refresh_token');
   }
 
   isAuthenticated(): boolean {
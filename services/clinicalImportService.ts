@@ -0,0 +1,800 @@
+/**
+ * Clinical Import Service
+ *
+ * Reads documents handed over by hospitals - FHIR R4 Bundles (JSON) and C-CDA
+ * discharge summaries (XML) - and merges them into a new or existing patient.
+ *
+ * Importing is a two step process, so nothing is changed without review:
+ * 1. `previewClinicalImport` compares the document with the patient and
+ *    returns what would be added, updated or skipped as a duplicate
+ * 2. `applyClinicalImport` turns an accepted preview into the updated patient
+ *
+ * Medications go through MedicationReconciliationService so a drug that is
+ * already on the list is updated rather than added twice.
+ */
+
+import type { Patient, Doctor, MedicalRecord, Medication, Document, HospitalId, ContactInfo, EmergencyContact } from '../types';
+import {
+  toFhirId,
+  type FhirAnnotation,
+  type FhirBundle,
+  type FhirBundleEntry,
+  type FhirCodeableConcept,
+  type FhirContactPoint,
+  type FhirHumanName,
+  type FhirIdentifier,
+  type FhirReference,
+  type FhirResource,
+} from './fhirExportService';
+import { MedicationReconciliationService, type ReconciliationResult } from './medicationReconciliation';
+
+export type ClinicalImportFormat = 'fhir' | 'ccda';
+
+export interface ImportedPatientDetails {
+  name?: string;
+  dateOfBirth?: string;
+  gender?: Patient['gender'];
+  contactInfo?: ContactInfo;
+  emergencyContact?: EmergencyContact;
+  hospitalIds: HospitalId[];
+}
+
+export interface ImportedRecord {
+  record: MedicalRecord;
+  // Doctor as written in the document; matched against known doctors on preview
+  doctorName?: string;
+  // Id the record had in the source system, used to spot re-imports
+  sourceId?: string;
+}
+
+export interface ImportedClinicalData {
+  format: ClinicalImportFormat;
+  patient: ImportedPatientDetails;
+  records: ImportedRecord[];
+  allergies: string[];
+  conditions: string[];
+  medications: Medication[];
+  warnings: string[];
+}
+
+export interface ClinicalImportOptions {
+  // 'merge' lets the document overwrite demographics, 'merge-preserve' only fills blanks
+  mergeStrategy?: 'merge' | 'merge-preserve';
+  doctors?: Doctor[];
+}
+
+export interface DemographicChange {
+  field: 'name' | 'dateOfBirth' | 'gender' | 'contactInfo' | 'emergencyContact';
+  current?: unknown;
+  imported: unknown;
+}
+
+export interface ListDiff<T> {
+  added: T[];
+  existing: T[];
+}
+
+export interface ClinicalImportPreview {
+  format: ClinicalImportFormat;
+  isNewPatient: boolean;
+  demographics: DemographicChange[];
+  hospitalIds: ListDiff<HospitalId>;
+  records: ListDiff<MedicalRecord>;
+  allergies: ListDiff<string>;
+  conditions: ListDiff<string>;
+  medications: ReconciliationResult;
+  warnings: string[];
+}
+
+export class ClinicalImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClinicalImportError';
+  }
+}
+
+const newId = (prefix: string): string =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+const normalize = (value?: string): string =>
+  (value || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+const clean = (value?: string | null): string | undefined => {
+  const trimmed = value?.replace(/\s+/g, ' ').trim();
+  return trimmed || undefined;
+};
+
+const uniqueStrings = (values: (string | undefined)[]): string[] => {
+  const seen = new Set<string>();
+  return values.filter((value): value is string => {
+    if (!value || seen.has(normalize(value))) return false;
+    seen.add(normalize(value));
+    return true;
+  });
+};
+
+const GENDERS: Record<string, Patient['gender']> = {
+  male: 'male',
+  female: 'female',
+  other: 'other',
+  m: 'male',
+  f: 'female',
+};
+
+// Strength written after the drug name, e.g. "Metformin 500mg"
+const STRENGTH_PATTERN = /^(.*?)\s+(\d+(?:\.\d+)?\s?(?:mg|mcg|g|ml|iu|units?|%)(?:\/\d*\s?(?:mg|ml|g))?)$/i;
+
+const splitStrength = (value: string): { name: string; strength?: string } => {
+  const match = value.trim().match(STRENGTH_PATTERN);
+  return match ? { name: match[1].trim(), strength: match[2].replace(/\s+/g, '') } : { name: value.trim() };
+};
+
+const formatPrescriptionLine = (medication: Medication): string =>
+  [[medication.name, medication.strength].filter(Boolean).join(' '), [medication.dosage, medication.frequency].filter(Boolean).join(', ')]
+    .filter(Boolean)
+    .join(' - ');
+
+const emptyRecord = (date: string): MedicalRecord => ({
+  id: newId('rec'),
+  date,
+  doctorId: '',
+  complaint: '',
+  investigations: '',
+  diagnosis: '',
+  prescription: '',
+  notes: '',
+  documents: [],
+});
+
+const appendLine = (existing: string, line?: string): string =>
+  line ? (existing ? `${existing}\n${line}` : line) : existing;
+
+// ---------------------------------------------------------------------------
+// FHIR R4
+// ---------------------------------------------------------------------------
+
+const conceptText = (concept?: FhirCodeableConcept): string | undefined =>
+  clean(concept?.text) || clean(concept?.coding?.find(coding => coding.display)?.display);
+
+const statusCode = (concept?: FhirCodeableConcept): string | undefined =>
+  concept?.coding?.find(coding => coding.code)?.code;
+
+const INACTIVE_CLINICAL_STATUS = ['inactive', 'resolved', 'remission'];
+const EXCLUDED_VERIFICATION_STATUS = ['refuted', 'entered-in-error'];
+const INACTIVE_MEDICATION_STATUS = ['stopped', 'completed', 'entered-in-error', 'cancelled', 'not-taken', 'revoked'];
+
+const isActiveFinding = (resource: FhirResource): boolean =>
+  !INACTIVE_CLINICAL_STATUS.includes(statusCode(resource.clinicalStatus) || '') &&
+  !EXCLUDED_VERIFICATION_STATUS.includes(statusCode(resource.verificationStatus) || '');
+
+const hasCategory = (resource: FhirResource, code: string): boolean =>
+  (resource.category || []).some((category: FhirCodeableConcept) => statusCode(category) === code);
+
+class BundleIndex {
+  private readonly byReference = new Map<string, FhirResource>();
+
+  constructor(readonly resources: { fullUrl?: string; resource: FhirResource }[]) {
+    resources.forEach(({ fullUrl, resource }) => {
+      if (fullUrl) this.byReference.set(fullUrl, resource);
+      if (resource.id) this.byReference.set(`${resource.resourceType}/${resource.id}`, resource);
+    });
+  }
+
+  resolve(reference?: FhirReference): FhirResource | undefined {
+    return reference?.reference ? this.byReference.get(reference.reference) : undefined;
+  }
+
+  ofType(resourceType: string): FhirResource[] {
+    return this.resources.map(entry => entry.resource).filter(resource => resource.resourceType === resourceType);
+  }
+}
+
+function readFhirPatient(resource: FhirResource | undefined): ImportedPatientDetails {
+  if (!resource) return { hospitalIds: [] };
+
+  const names: FhirHumanName[] = resource.name || [];
+  const name = names.find(n => n.use === 'official') || names[0];
+  const telecom: FhirContactPoint[] = (resource.telecom || []).filter((t: FhirContactPoint) => t.value);
+  const phones = telecom.filter(t => t.system === 'phone').map(t => String(t.value));
+  const email = telecom.find(t => t.system === 'email')?.value;
+  const address = resource.address?.[0];
+  const street = clean(address?.text || address?.line?.join(', '));
+  const contact = resource.contact?.[0];
+
+  const contactInfo: ContactInfo = {
+    ...(phones[0] && { phone: phones[0] }),
+    ...(phones[1] && { alternatePhone: phones[1] }),
+    ...(email && { email }),
+    ...(street && { address: street }),
+    ...(address?.city && { city: address.city }),
+    ...(address?.state && { state: address.state }),
+    ...(address?.postalCode && { pincode: address.postalCode }),
+  };
+
+  return {
+    name: clean(name?.text) || clean([...(name?.given || []), name?.family].filter(Boolean).join(' ')),
+    dateOfBirth: resource.birthDate?.slice(0, 10),
+    gender: GENDERS[resource.gender],
+    ...(Object.keys(contactInfo).length > 0 && { contactInfo }),
+    ...(contact?.name && {
+      emergencyContact: {
+        name: clean(contact.name.text) || [...(contact.name.given || []), contact.name.family].filter(Boolean).join(' '),
+        relationship: conceptText(contact.relationship?.[0]) || '',
+        phone: contact.telecom?.find((t: FhirContactPoint) => t.system === 'phone')?.value || '',
+      },
+    }),
+    hospitalIds: (resource.identifier || [])
+      .filter((identifier: FhirIdentifier) => identifier.value)
+      .map((identifier: FhirIdentifier) => ({
+        id: newId('hid'),
+        hospitalName: clean(identifier.assigner?.display) || clean(identifier.system) || 'Unknown hospital',
+        patientId: String(identifier.value),
+      })),
+  };
+}
+
+function readFhirMedication(resource: FhirResource, index: BundleIndex): Medication | null {
+  const medicationName =
+    conceptText(resource.medicationCodeableConcept) ||
+    clean(resource.medicationReference?.display) ||
+    conceptText(index.resolve(resource.medicationReference)?.code);
+  if (!medicationName) return null;
+
+  const dosage = (resource.dosage || resource.dosageInstruction || [])[0];
+  const [dose, ...frequency] = (clean(dosage?.text) || '').split(', ');
+  const timeOfDay: string[] = dosage?.timing?.repeat?.timeOfDay || [];
+  const start = resource.effectivePeriod?.start || resource.effectiveDateTime || resource.authoredOn;
+  const note = (resource.note || []).map((n: FhirAnnotation) => n.text).filter(Boolean).join('\n');
+
+  return {
+    id: newId('med'),
+    ...splitStrength(medicationName),
+    dosage: dose || '',
+    frequency: frequency.join(', ') || conceptText(dosage?.timing?.code) || '',
+    ...(timeOfDay.length > 0 && { timings: timeOfDay.map(time => time.slice(0, 5)) }),
+    ...((resource.informationSource?.display || resource.requester?.display) && {
+      prescribedBy: resource.informationSource?.display || resource.requester?.display,
+    }),
+    ...(start && { startDate: String(start).slice(0, 10) }),
+    ...(note && { notes: note }),
+  };
+}
+
+function readFhirDocument(resource: FhirResource): Document | null {
+  const attachment = resource.content?.[0]?.attachment;
+  if (!attachment || (!attachment.url && !attachment.data)) return null;
+
+  const contentType = attachment.contentType || 'application/octet-stream';
+  return {
+    id: newId('doc'),
+    name: clean(attachment.title) || clean(resource.description) || 'Imported document',
+    type: contentType,
+    size: attachment.size || 0,
+    uploadedAt: attachment.creation || resource.date || new Date().toISOString(),
+    url: attachment.data ? `data:${contentType};base64,${attachment.data}` : attachment.url,
+  };
+}
+
+const observationText = (resource: FhirResource): string | undefined => {
+  const label = conceptText(resource.code);
+  const quantity = resource.valueQuantity;
+  const value =
+    clean(resource.valueString) ||
+    conceptText(resource.valueCodeableConcept) ||
+    (quantity?.value !== undefined ? [quantity.value, quantity.unit].filter(v => v !== undefined).join(' ') : undefined);
+
+  if (!value) return undefined;
+  // Our own exports store the whole investigations text under this label
+  return label && label !== 'Investigations' ? `${label}: ${value}` : value;
+};
+
+/**
+ * Read a FHIR R4 Bundle (any bundle type holding a single patient's resources)
+ */
+export function parseFhirBundle(input: FhirBundle | FhirResource | string): ImportedClinicalData {
+  let bundle: FhirResource;
+  try {
+    bundle = typeof input === 'string' ? JSON.parse(input) : input;
+  } catch {
+    throw new ClinicalImportError('The file is not valid JSON');
+  }
+
+  if (bundle?.resourceType !== 'Bundle' || !Array.isArray(bundle.entry)) {
+    throw new ClinicalImportError('Expected a FHIR Bundle resource');
+  }
+
+  const index = new BundleIndex(bundle.entry.filter((entry: Partial<FhirBundleEntry>) => entry?.resource?.resourceType));
+  const warnings: string[] = [];
+
+  const patients = index.ofType('Patient');
+  if (patients.length === 0) {
+    warnings.push('The bundle has no Patient resource; only clinical data will be imported');
+  } else if (patients.length > 1) {
+    warnings.push(`The bundle describes ${patients.length} patients; only the first one is imported`);
+  }
+
+  // One medical record per encounter
+  const encounters = new Map<FhirResource, ImportedRecord>();
+  index.ofType('Encounter').forEach(encounter => {
+    const start = encounter.period?.start || encounter.period?.end;
+    const record = emptyRecord(start ? String(start).slice(0, 10) : new Date().toISOString().slice(0, 10));
+    record.complaint = uniqueStrings((encounter.reasonCode || []).map(conceptText)).join(', ');
+
+    encounters.set(encounter, {
+      record,
+      doctorName: clean(encounter.participant?.find((p: { individual?: FhirReference }) => p.individual?.display)?.individual?.display),
+      sourceId: encounter.id,
+    });
+  });
+
+  const encounterOf = (resource: FhirResource): ImportedRecord | undefined => {
+    const encounter = index.resolve(resource.encounter || resource.context?.encounter?.[0] || resource.context);
+    return encounter ? encounters.get(encounter) : undefined;
+  };
+
+  const allergies = uniqueStrings(
+    index.ofType('AllergyIntolerance').filter(isActiveFinding).map(resource => conceptText(resource.code))
+  );
+
+  const conditions: string[] = [];
+  index.ofType('Condition').filter(isActiveFinding).forEach(resource => {
+    const condition = conceptText(resource.code);
+    const imported = encounterOf(resource);
+    if (!condition) return;
+
+    if (imported && !hasCategory(resource, 'problem-list-item')) {
+      imported.record.diagnosis = uniqueStrings([...imported.record.diagnosis.split(', '), condition]).join(', ');
+    } else {
+      conditions.push(condition);
+    }
+  });
+
+  let detachedObservations = 0;
+  index.ofType('Observation').forEach(resource => {
+    const imported = encounterOf(resource);
+    const line = observationText(resource);
+    if (!line) return;
+
+    if (imported) {
+      imported.record.investigations = appendLine(imported.record.investigations, line);
+    } else {
+      detachedObservations++;
+    }
+  });
+  if (detachedObservations > 0) {
+    warnings.push(`${detachedObservations} observation(s) not linked to a visit were skipped`);
+  }
+
+  const medications: Medication[] = [];
+  [...index.ofType('MedicationStatement'), ...index.ofType('MedicationRequest')].forEach(resource => {
+    if (INACTIVE_MEDICATION_STATUS.includes(resource.status)) return;
+    const medication = readFhirMedication(resource, index);
+    if (!medication) return;
+
+    medications.push(medication);
+    const imported = encounterOf(resource);
+    if (imported) {
+      imported.record.prescription = appendLine(imported.record.prescription, formatPrescriptionLine(medication));
+    }
+  });
+
+  let detachedDocuments = 0;
+  index.ofType('DocumentReference').forEach(resource => {
+    if (resource.status === 'entered-in-error') return;
+    const document = readFhirDocument(resource);
+    const imported = encounterOf(resource);
+    if (!document) return;
+
+    if (imported) {
+      imported.record.documents.push(document);
+    } else {
+      detachedDocuments++;
+    }
+  });
+  if (detachedDocuments > 0) {
+    warnings.push(`${detachedDocuments} document(s) not linked to a visit were skipped`);
+  }
+
+  return {
+    format: 'fhir',
+    patient: readFhirPatient(patients[0]),
+    records: [...encounters.values()],
+    allergies,
+    conditions: uniqueStrings(conditions),
+    medications,
+    warnings,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// C-CDA
+// ---------------------------------------------------------------------------
+
+// LOINC section codes used by C-CDA R2.1 discharge summaries and CCDs
+const CCDA_SECTIONS = {
+  allergies: ['48765-2'],
+  problems: ['11450-4'],
+  medications: ['10160-0'],
+  dischargeMedications: ['10183-2', '75311-1'],
+  complaint: ['10154-3', '29299-5', '46239-0'],
+  dischargeDiagnosis: ['11535-2', '78375-3'],
+  hospitalCourse: ['8648-8'],
+  results: ['30954-2'],
+  instructions: ['8653-8', '69730-0'],
+};
+
+const children = (element: Element | null | undefined, name: string): Element[] =>
+  element ? Array.from(element.children).filter(child => child.localName === name) : [];
+
+const child = (element: Element | null | undefined, ...path: string[]): Element | undefined =>
+  path.reduce<Element | undefined>((current, name) => children(current, name)[0], element || undefined);
+
+const descendants = (element: Element | XMLDocument | null | undefined, name: string): Element[] =>
+  element ? Array.from(element.getElementsByTagNameNS('*', name)) : [];
+
+const elementText = (element?: Element): string | undefined => clean(element?.textContent);
+
+// HL7 TS values look like 20240115 or 20240115103000+0530
+const fromHl7Date = (value?: string | null): string | undefined => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+};
+
+const hl7Name = (name?: Element): string | undefined =>
+  name &&
+  (clean([...children(name, 'prefix'), ...children(name, 'given'), ...children(name, 'family')]
+    .map(part => part.textContent)
+    .join(' ')) ||
+    elementText(name));
+
+// Display text of a coded value, falling back to narrative referenced by originalText
+function codeDisplay(code: Element | undefined, doc: XMLDocument): string | undefined {
+  if (!code) return undefined;
+  const original = child(code, 'originalText');
+  const referenceId = child(original, 'reference')?.getAttribute('value')?.replace(/^#/, '');
+  const referenced = referenceId
+    ? descendants(doc, '*').find(element => element.getAttribute('ID') === referenceId)
+    : undefined;
+
+  return clean(code.getAttribute('displayName')) || elementText(referenced) || clean(original?.firstChild?.textContent);
+}
+
+const PIVL_UNITS: Record<string, string> = { h: 'hour', d: 'day', wk: 'week', min: 'minute' };
+
+function ccdaFrequency(substanceAdministration: Element): string {
+  const periodic = children(substanceAdministration, 'effectiveTime').find(time =>
+    /PIVL_TS/.test(time.getAttribute('xsi:type') || time.getAttributeNS('http://www.w3.org/2001/XMLSchema-instance', 'type') || '')
+  );
+  const period = child(periodic, 'period');
+  const value = Number(period?.getAttribute('value'));
+  const unit = PIVL_UNITS[period?.getAttribute('unit') || ''];
+  if (!value || !unit) return '';
+
+  if (unit === 'day' && value === 1) return 'Once daily';
+  if (unit === 'hour' && [6, 8, 12, 24].includes(value)) {
+    return { 6: 'Four times daily', 8: 'Three times daily', 12: 'Twice daily', 24: 'Once daily' }[value as 6 | 8 | 12 | 24];
+  }
+  return `Every ${value} ${unit}${value > 1 ? 's' : ''}`;
+}
+
+function readCcdaMedication(substanceAdministration: Element, doc: XMLDocument): Medication | null {
+  const status = child(substanceAdministration, 'statusCode')?.getAttribute('code');
+  if (substanceAdministration.getAttribute('negationInd') === 'true' || status === 'completed' || status === 'aborted') {
+    return null;
+  }
+
+  const material = child(substanceAdministration, 'consumable', 'manufacturedProduct', 'manufacturedMaterial');
+  const medicationName = codeDisplay(child(material, 'code'), doc) || elementText(child(material, 'name'));
+  if (!medicationName) return null;
+
+  const dose = child(substanceAdministration, 'doseQuantity');
+  const doseValue = dose?.getAttribute('value');
+  const doseUnit = dose?.getAttribute('unit');
+  const start = children(substanceAdministration, 'effectiveTime')
+    .map(time => child(time, 'low')?.getAttribute('value'))
+    .find(Boolean);
+  const instructions = elementText(child(substanceAdministration, 'text'));
+
+  return {
+    id: newId('med'),
+    ...splitStrength(medicationName),
+    dosage: doseValue ? [doseValue, doseUnit && doseUnit !== '1' ? doseUnit : 'unit'].join(' ') : '',
+    frequency: ccdaFrequency(substanceAdministration),
+    ...(fromHl7Date(start) && { startDate: fromHl7Date(start) }),
+    ...(instructions && { notes: instructions }),
+  };
+}
+
+const observationValue = (observation: Element, doc: XMLDocument): string | undefined => {
+  const value = child(observation, 'value');
+  if (!value) return undefined;
+  if (value.getAttribute('value')) {
+    return [value.getAttribute('value'), value.getAttribute('unit')].filter(Boolean).join(' ');
+  }
+  return codeDisplay(value, doc) || elementText(value);
+};
+
+/**
+ * Read a C-CDA document (CCD or discharge summary). The encounter the document
+ * covers becomes one medical record.
+ */
+export function parseCcdaDocument(xml: string): ImportedClinicalData {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const root = doc.documentElement;
+
+  if (!root || root.localName !== 'ClinicalDocument' || descendants(doc, 'parsererror').length > 0) {
+    throw new ClinicalImportError('Expected a C-CDA ClinicalDocument');
+  }
+
+  const warnings: string[] = [];
+  const sections = descendants(root, 'section');
+  const sectionsFor = (codes: string[]) =>
+    sections.filter(section => codes.includes(child(section, 'code')?.getAttribute('code') || ''));
+  const narrative = (codes: string[]) =>
+    sectionsFor(codes).map(section => elementText(child(section, 'text'))).filter(Boolean).join('\n');
+  // Entry observations, leaving out the status/severity observations nested inside them
+  const observations = (codes: string[]) =>
+    sectionsFor(codes).flatMap(section => children(section, 'entry').flatMap(entry =>
+      descendants(entry, 'observation').filter(observation => observation.parentElement?.parentElement?.localName !== 'observation')
+    ));
+  const medicationsIn = (codes: string[]) =>
+    sectionsFor(codes)
+      .flatMap(section => children(section, 'entry').flatMap(entry => children(entry, 'substanceAdministration')))
+      .map(element => readCcdaMedication(element, doc))
+      .filter((medication): medication is Medication => medication !== null);
+
+  // Patient
+  const patientRole = child(root, 'recordTarget', 'patientRole');
+  const patientElement = child(patientRole, 'patient');
+  const addr = child(patientRole, 'addr');
+  const telecoms = children(patientRole, 'telecom').map(t => t.getAttribute('value') || '');
+  const phones = telecoms.filter(t => t.startsWith('tel:')).map(t => t.slice(4));
+  const email = telecoms.find(t => t.startsWith('mailto:'))?.slice(7);
+  const guardian = child(patientElement, 'guardian');
+
+  const contactInfo: ContactInfo = {
+    ...(phones[0] && { phone: phones[0] }),
+    ...(phones[1] && { alternatePhone: phones[1] }),
+    ...(email && { email }),
+    ...(elementText(addr) && {
+      address: children(addr, 'streetAddressLine').map(line => line.textContent?.trim()).filter(Boolean).join(', ') || undefined,
+    }),
+    ...(elementText(child(addr, 'city')) && { city: elementText(child(addr, 'city')) }),
+    ...(elementText(child(addr, 'state')) && { state: elementText(child(addr, 'state')) }),
+    ...(elementText(child(addr, 'postalCode')) && { pincode: elementText(child(addr, 'postalCode')) }),
+  };
+  if (!contactInfo.address) delete contactInfo.address;
+
+  const patient: ImportedPatientDetails = {
+    name: hl7Name(child(patientElement, 'name')),
+    dateOfBirth: fromHl7Date(child(patientElement, 'birthTime')?.getAttribute('value')),
+    gender: GENDERS[(child(patientElement, 'administrativeGenderCode')?.getAttribute('code') || '').toLowerCase()],
+    ...(Object.keys(contactInfo).length > 0 && { contactInfo }),
+    ...(guardian && hl7Name(child(guardian, 'guardianPerson', 'name')) && {
+      emergencyContact: {
+        name: hl7Name(child(guardian, 'guardianPerson', 'name'))!,
+        relationship: codeDisplay(child(guardian, 'code'), doc) || '',
+        phone: (child(guardian, 'telecom')?.getAttribute('value') || '').replace(/^tel:/, ''),
+      },
+    }),
+    hospitalIds: children(patientRole, 'id')
+      .filter(id => id.getAttribute('extension'))
+      .map(id => ({
+        id: newId('hid'),
+        hospitalName: id.getAttribute('assigningAuthorityName') || id.getAttribute('root') || 'Unknown hospital',
+        patientId: id.getAttribute('extension')!,
+      })),
+  };
+
+  if (!patient.name) {
+    warnings.push('The document has no patient name');
+  }
+
+  // Lists
+  const allergies = uniqueStrings(
+    observations(CCDA_SECTIONS.allergies)
+      .filter(observation => observation.getAttribute('negationInd') !== 'true')
+      .map(observation =>
+        codeDisplay(child(observation, 'participant', 'participantRole', 'playingEntity', 'code'), doc) ||
+        elementText(child(observation, 'participant', 'participantRole', 'playingEntity', 'name'))
+      )
+  );
+
+  const conditions = uniqueStrings(
+    observations(CCDA_SECTIONS.problems)
+      .filter(observation => observation.getAttribute('negationInd') !== 'true')
+      .filter(observation => !child(observation, 'effectiveTime', 'high')?.getAttribute('value'))
+      .map(observation => observationValue(observation, doc))
+  );
+
+  const dischargeMedications = medicationsIn(CCDA_SECTIONS.dischargeMedications);
+  const medicationsByName = new Map<string, Medication>();
+  // Discharge medications come last so they win over the admission list
+  [...medicationsIn(CCDA_SECTIONS.medications), ...dischargeMedications]
+    .forEach(medication => medicationsByName.set(normalize(medication.name), medication));
+  const medications = [...medicationsByName.values()];
+
+  // The encounter the document covers
+  const encounter = child(root, 'componentOf', 'encompassingEncounter');
+  const encounterTime = child(encounter, 'effectiveTime');
+  const date =
+    fromHl7Date(child(encounterTime, 'low')?.getAttribute('value') || encounterTime?.getAttribute('value')) ||
+    fromHl7Date(child(root, 'effectiveTime')?.getAttribute('value')) ||
+    new Date().toISOString().slice(0, 10);
+
+  const record = emptyRecord(date);
+  record.complaint = narrative(CCDA_SECTIONS.complaint);
+  record.diagnosis = uniqueStrings(
+    observations(CCDA_SECTIONS.dischargeDiagnosis).map(observation => observationValue(observation, doc))
+  ).join(', ') || narrative(CCDA_SECTIONS.dischargeDiagnosis);
+  record.investigations =
+    observations(CCDA_SECTIONS.results)
+      .map(observation => {
+        const value = observationValue(observation, doc);
+        const label = codeDisplay(child(observation, 'code'), doc);
+        return value && (label ? `${label}: ${value}` : value);
+      })
+      .filter(Boolean)
+      .join('\n') || narrative(CCDA_SECTIONS.results);
+  record.prescription = (dischargeMedications.length > 0 ? dischargeMedications : medications)
+    .map(formatPrescriptionLine)
+    .join('\n');
+  record.notes = [
+    elementText(child(root, 'title')),
+    narrative(CCDA_SECTIONS.hospitalCourse),
+    narrative(CCDA_SECTIONS.instructions),
+  ].filter(Boolean).join('\n\n');
+
+  const doctorName =
+    hl7Name(child(encounter, 'responsibleParty', 'assignedEntity', 'assignedPerson', 'name')) ||
+    hl7Name(child(root, 'author', 'assignedAuthor', 'assignedPerson', 'name'));
+
+  return {
+    format: 'ccda',
+    patient,
+    records: [{ record, doctorName, sourceId: child(encounter, 'id')?.getAttribute('extension') || undefined }],
+    allergies,
+    conditions,
+    medications,
+    warnings,
+  };
+}
+
+/**
+ * Parse a FHIR JSON or C-CDA XML document, picking the format from its content
+ */
+export function parseClinicalDocument(content: string): ImportedClinicalData {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{')) return parseFhirBundle(trimmed);
+  if (trimmed.startsWith('<')) return parseCcdaDocument(trimmed);
+  throw new ClinicalImportError('Unsupported file: expected a FHIR Bundle (JSON) or C-CDA document (XML)');
+}
+
+// ---------------------------------------------------------------------------
+// Preview and apply
+// ---------------------------------------------------------------------------
+
+const diffList = (current: string[] = [], imported: string[]): ListDiff<string> => {
+  const known = new Set(current.map(normalize));
+  return {
+    added: imported.filter(item => !known.has(normalize(item))),
+    existing: imported.filter(item => known.has(normalize(item))),
+  };
+};
+
+const isSameRecord = (existing: MedicalRecord, imported: ImportedRecord): boolean =>
+  (!!imported.sourceId && toFhirId(existing.id) === imported.sourceId) ||
+  (existing.date.slice(0, 10) === imported.record.date &&
+    normalize(existing.diagnosis) === normalize(imported.record.diagnosis) &&
+    normalize(existing.complaint) === normalize(imported.record.complaint));
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' ||
+  (typeof value === 'object' && Object.values(value as object).every(v => v === undefined || v === ''));
+
+/**
+ * Work out what importing `data` into `patient` (or a new patient, when null) would change
+ */
+export function previewClinicalImport(
+  data: ImportedClinicalData,
+  patient: Patient | null,
+  options: ClinicalImportOptions = {}
+): ClinicalImportPreview {
+  const { mergeStrategy = 'merge-preserve', doctors = [] } = options;
+  const warnings = [...data.warnings];
+
+  const demographics: DemographicChange[] = [];
+  (['name', 'dateOfBirth', 'gender', 'contactInfo', 'emergencyContact'] as const).forEach(field => {
+    const current = patient?.[field];
+    // Contact details are merged field by field rather than replaced
+    const imported = field === 'contactInfo' && current
+      ? { ...(current as ContactInfo), ...data.patient.contactInfo }
+      : data.patient[field];
+    if (isBlank(imported) || JSON.stringify(current) === JSON.stringify(imported)) return;
+
+    if (!patient || isBlank(current) || mergeStrategy === 'merge') {
+      demographics.push({ field, current, imported });
+    }
+  });
+
+  if (patient && data.patient.name && normalize(patient.name) !== normalize(data.patient.name)) {
+    warnings.push(`The document is for "${data.patient.name}", not "${patient.name}"`);
+  }
+  if (patient && data.patient.dateOfBirth && patient.dateOfBirth && patient.dateOfBirth.slice(0, 10) !== data.patient.dateOfBirth) {
+    warnings.push(`Date of birth in the document (${data.patient.dateOfBirth}) does not match`);
+  }
+  if (!patient && !data.patient.name) {
+    throw new ClinicalImportError('A new patient needs a name, but the document has none');
+  }
+
+  const knownHospitalIds = new Set((patient?.hospitalIds || []).map(h => `${normalize(h.hospitalName)}|${h.patientId}`));
+  const hospitalIds: ListDiff<HospitalId> = { added: [], existing: [] };
+  data.patient.hospitalIds.forEach(hospitalId =>
+    (knownHospitalIds.has(`${normalize(hospitalId.hospitalName)}|${hospitalId.patientId}`)
+      ? hospitalIds.existing
+      : hospitalIds.added
+    ).push(hospitalId)
+  );
+
+  const records: ListDiff<MedicalRecord> = { added: [], existing: [] };
+  data.records.forEach(imported => {
+    const doctor = imported.doctorName
+      ? doctors.find(d => normalize(d.name) === normalize(imported.doctorName))
+      : undefined;
+    const record: MedicalRecord = {
+      ...imported.record,
+      doctorId: doctor?.id || '',
+      notes: !doctor && imported.doctorName
+        ? appendLine(`Seen by: ${imported.doctorName}`, imported.record.notes)
+        : imported.record.notes,
+    };
+
+    (patient?.records || []).some(existing => isSameRecord(existing, imported))
+      ? records.existing.push(record)
+      : records.added.push({ ...record, isNew: true });
+  });
+
+  return {
+    format: data.format,
+    isNewPatient: !patient,
+    demographics,
+    hospitalIds,
+    records,
+    allergies: diffList(patient?.allergies, data.allergies),
+    conditions: diffList(patient?.conditions, data.conditions),
+    medications: MedicationReconciliationService.reconcileImportedMedications(
+      patient?.currentMedications || [],
+      data.medications
+    ),
+    warnings,
+  };
+}
+
+/**
+ * Apply an accepted preview, returning the new or updated patient
+ */
+export function applyClinicalImport(preview: ClinicalImportPreview, patient: Patient | null): Patient {
+  const base: Patient = patient || {
+    id: `p-${Date.now()}`,
+    name: '',
+    hospitalIds: [],
+    avatarUrl: `https://picsum.photos/seed/${Date.now()}/200/200`,
+    medicalHistory: '',
+    records: [],
+    reminders: [],
+    appointments: [],
+    currentMedications: [],
+  };
+
+  const updated: Patient = {
+    ...base,
+    ...Object.fromEntries(preview.demographics.map(change => [change.field, change.imported])),
+    hospitalIds: [...base.hospitalIds, ...preview.hospitalIds.added],
+    allergies: [...(base.allergies || []), ...preview.allergies.added],
+    conditions: [...(base.conditions || []), ...preview.conditions.added],
+    records: [...base.records, ...preview.records.added].sort((a, b) => b.date.localeCompare(a.date)),
+    currentMedications: preview.medications.currentMedications,
+  };
+
+  return updated;
+}
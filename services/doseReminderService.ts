@@ -0,0 +1,90 @@
+/**
+ * Dose Reminder Service
+ *
+ * Generates the recurring dose reminders for a patient from the timings of
+ * their active medications. Medications due at the same time share one
+ * reminder ("08:00: Metformin, Amlodipine"), and each time slot keeps the
+ * same reminder id, so regenerating after a medication is added, edited or
+ * stopped replaces the old reminders instead of leaving orphans behind.
+ *
+ * A dose reminder's `date` is today's occurrence. Ticking it off covers
+ * today only; the next sync on a later day moves it on and clears it.
+ */
+
+import type { Medication, Reminder } from '../types';
+import { isScheduledOn, toLocalDate } from './adherenceService';
+
+export interface DoseSlot {
+  time: string; // HH:MM
+  medications: Medication[];
+}
+
+export const DOSE_REMINDER_PREFIX = 'rem-dose-';
+
+export const isDoseReminder = (reminder: Reminder): boolean => reminder.id.startsWith(DOSE_REMINDER_PREFIX);
+
+/**
+ * Doses due on a day grouped by time, earliest first, with the medications
+ * in each slot in name order
+ */
+export const getDoseSlots = (medications: Medication[], date: string): DoseSlot[] => {
+  const slots = new Map<string, Medication[]>();
+  medications
+    .filter(medication => isScheduledOn(medication, date))
+    .forEach(medication => {
+      new Set(medication.timings).forEach(time => {
+        slots.set(time, [...(slots.get(time) || []), medication]);
+      });
+    });
+
+  return [...slots.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([time, slotMedications]) => ({
+      time,
+      medications: [...slotMedications].sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+};
+
+export const formatDoseReminderTitle = (slot: DoseSlot): string =>
+  `${slot.time}: ${slot.medications.map(medication => medication.name).join(', ')}`;
+
+const sameMedications = (a: string[] = [], b: string[] = []): boolean =>
+  a.length === b.length && a.every(id => b.includes(id));
+
+/**
+ * Replaces the generated dose reminders with one per time slot today. A
+ * reminder ticked off today stays ticked off unless its medications change.
+ */
+export const syncDoseReminders = (
+  reminders: Reminder[],
+  medications: Medication[],
+  now: Date = new Date()
+): Reminder[] => {
+  const today = toLocalDate(now);
+  const others = reminders.filter(reminder => !isDoseReminder(reminder));
+
+  const doseReminders = getDoseSlots(medications, today).map((slot): Reminder => {
+    const id = `${DOSE_REMINDER_PREFIX}${slot.time.replace(':', '')}`;
+    const medicationIds = slot.medications.map(medication => medication.id);
+    const existing = reminders.find(reminder => reminder.id === id);
+    const unchanged = existing && existing.date === today && sameMedications(existing.medicationIds, medicationIds)
+      ? existing
+      : undefined;
+
+    return {
+      id,
+      type: 'medication',
+      title: formatDoseReminderTitle(slot),
+      date: today,
+      time: slot.time,
+      completed: unchanged?.completed || false,
+      notificationSent: unchanged?.notificationSent,
+      priority: existing?.priority || 'medium',
+      recurrence: 'daily',
+      medicationIds,
+      notes: slot.medications.map(medication => `${medication.name} ${medication.dosage}`.trim()).join('; '),
+    };
+  });
+
+  return [...others, ...doseReminders];
+};
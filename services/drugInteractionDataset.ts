@@ -0,0 +1,212 @@
+import type { InteractionDataset } from './drugInteractionService';
+
+/**
+ * Interaction dataset shipped with the app. Imported datasets replace it
+ * only while their version is newer, so bumping the version here rolls an
+ * update out over older imports.
+ */
+export const BUILT_IN_INTERACTION_DATASET: InteractionDataset = {
+  version: '1.0.0',
+  updatedAt: '2026-10-01',
+  source: 'Built-in',
+  classes: [
+    { key: 'nsaids', label: 'NSAIDs' },
+    { key: 'ace-inhibitors', label: 'ACE inhibitors' },
+    { key: 'arbs', label: 'Angiotensin receptor blockers' },
+    { key: 'loop-diuretics', label: 'Loop diuretics' },
+    { key: 'cyp3a4-statins', label: 'Statins cleared by CYP3A4' },
+    { key: 'strong-cyp3a4-inhibitors', label: 'Strong CYP3A4 inhibitors' },
+    { key: 'ssris', label: 'SSRIs' },
+    { key: 'cyp2c19-ppis', label: 'PPIs that inhibit CYP2C19' },
+    { key: 'non-selective-beta-blockers', label: 'Non-selective beta-blockers' },
+    { key: 'beta-agonists', label: 'Beta-agonist inhalers' },
+    { key: 'sulfonylureas', label: 'Sulfonylureas' },
+    { key: 'insulins', label: 'Insulins' },
+    { key: 'fluoroquinolones', label: 'Fluoroquinolones' },
+  ],
+  drugs: [
+    { name: 'warfarin', aliases: ['coumadin', 'jantoven'] },
+    { name: 'aspirin', aliases: ['acetylsalicylic acid', 'asa', 'ecotrin'], classes: ['nsaids'] },
+    { name: 'ibuprofen', aliases: ['advil', 'motrin', 'nurofen'], classes: ['nsaids'] },
+    { name: 'naproxen', aliases: ['aleve', 'naprosyn'], classes: ['nsaids'] },
+    { name: 'diclofenac', aliases: ['voltaren'], classes: ['nsaids'] },
+    { name: 'celecoxib', aliases: ['celebrex'], classes: ['nsaids'] },
+    { name: 'meloxicam', aliases: ['mobic'], classes: ['nsaids'] },
+    { name: 'ketorolac', classes: ['nsaids'] },
+    { name: 'lisinopril', aliases: ['zestril', 'prinivil'], classes: ['ace-inhibitors'] },
+    { name: 'enalapril', aliases: ['vasotec'], classes: ['ace-inhibitors'] },
+    { name: 'ramipril', aliases: ['altace'], classes: ['ace-inhibitors'] },
+    { name: 'captopril', classes: ['ace-inhibitors'] },
+    { name: 'perindopril', classes: ['ace-inhibitors'] },
+    { name: 'losartan', aliases: ['cozaar'], classes: ['arbs'] },
+    { name: 'valsartan', aliases: ['diovan'], classes: ['arbs'] },
+    { name: 'irbesartan', aliases: ['avapro'], classes: ['arbs'] },
+    { name: 'candesartan', aliases: ['atacand'], classes: ['arbs'] },
+    { name: 'telmisartan', aliases: ['micardis'], classes: ['arbs'] },
+    { name: 'furosemide', aliases: ['frusemide', 'lasix'], classes: ['loop-diuretics'] },
+    { name: 'bumetanide', classes: ['loop-diuretics'] },
+    { name: 'torsemide', classes: ['loop-diuretics'] },
+    { name: 'metformin', aliases: ['glucophage'] },
+    { name: 'digoxin', aliases: ['lanoxin'] },
+    { name: 'simvastatin', aliases: ['zocor'], classes: ['cyp3a4-statins'] },
+    { name: 'lovastatin', classes: ['cyp3a4-statins'] },
+    { name: 'atorvastatin', aliases: ['lipitor'] },
+    { name: 'clarithromycin', aliases: ['biaxin'], classes: ['strong-cyp3a4-inhibitors'] },
+    { name: 'erythromycin', classes: ['strong-cyp3a4-inhibitors'] },
+    { name: 'itraconazole', classes: ['strong-cyp3a4-inhibitors'] },
+    { name: 'ketoconazole', classes: ['strong-cyp3a4-inhibitors'] },
+    { name: 'sertraline', aliases: ['zoloft'], classes: ['ssris'] },
+    { name: 'fluoxetine', aliases: ['prozac'], classes: ['ssris'] },
+    { name: 'paroxetine', aliases: ['paxil'], classes: ['ssris'] },
+    { name: 'citalopram', aliases: ['celexa'], classes: ['ssris'] },
+    { name: 'escitalopram', aliases: ['lexapro'], classes: ['ssris'] },
+    { name: 'tramadol', aliases: ['ultram'] },
+    { name: 'clopidogrel', aliases: ['plavix'] },
+    { name: 'omeprazole', aliases: ['prilosec', 'losec'], classes: ['cyp2c19-ppis'] },
+    { name: 'esomeprazole', aliases: ['nexium'], classes: ['cyp2c19-ppis'] },
+    { name: 'propranolol', aliases: ['inderal'], classes: ['non-selective-beta-blockers'] },
+    { name: 'nadolol', classes: ['non-selective-beta-blockers'] },
+    { name: 'sotalol', classes: ['non-selective-beta-blockers'] },
+    { name: 'albuterol', aliases: ['salbutamol', 'ventolin', 'proair'], classes: ['beta-agonists'] },
+    { name: 'salmeterol', aliases: ['serevent'], classes: ['beta-agonists'] },
+    { name: 'formoterol', classes: ['beta-agonists'] },
+    { name: 'glipizide', aliases: ['glucotrol'], classes: ['sulfonylureas'] },
+    { name: 'glyburide', aliases: ['glibenclamide'], classes: ['sulfonylureas'] },
+    { name: 'glimepiride', aliases: ['amaryl'], classes: ['sulfonylureas'] },
+    { name: 'gliclazide', classes: ['sulfonylureas'] },
+    { name: 'insulin', aliases: ['lantus', 'toujeo', 'basaglar', 'humalog', 'novolog', 'novorapid', 'fiasp', 'tresiba', 'levemir', 'humulin', 'novolin'], classes: ['insulins'] },
+    { name: 'ciprofloxacin', aliases: ['cipro'], classes: ['fluoroquinolones'] },
+    { name: 'levofloxacin', aliases: ['levaquin'], classes: ['fluoroquinolones'] },
+    { name: 'moxifloxacin', classes: ['fluoroquinolones'] },
+    { name: 'contrast media', aliases: ['iodinated contrast', 'contrast dye'] },
+    { name: 'grapefruit juice', aliases: ['grapefruit'] },
+  ],
+  interactions: [
+    {
+      id: 'warfarin-nsaids',
+      a: 'warfarin',
+      b: 'class:nsaids',
+      severity: 'high',
+      description: 'Increased risk of bleeding',
+      recommendation: 'Avoid concurrent use. If essential, monitor INR closely and watch for bleeding signs.',
+      evidence: 'Significant increase in bleeding risk',
+    },
+    {
+      id: 'warfarin-ssris',
+      a: 'warfarin',
+      b: 'class:ssris',
+      severity: 'moderate',
+      description: 'Increased risk of bleeding',
+      recommendation: 'Monitor INR when starting or stopping the antidepressant. Watch for bruising or bleeding.',
+      evidence: 'SSRIs reduce platelet serotonin and add to the anticoagulant effect',
+    },
+    {
+      id: 'ace-inhibitors-nsaids',
+      a: 'class:ace-inhibitors',
+      b: 'class:nsaids',
+      severity: 'high',
+      description: 'Reduced antihypertensive effect and increased kidney risk',
+      recommendation: 'Use acetaminophen instead for pain relief. Monitor blood pressure and kidney function.',
+      evidence: 'NSAIDs can reduce ACE inhibitor effectiveness',
+    },
+    {
+      id: 'ace-inhibitors-arbs',
+      a: 'class:ace-inhibitors',
+      b: 'class:arbs',
+      severity: 'high',
+      description: 'Higher risk of high potassium, low blood pressure and kidney injury',
+      recommendation: 'Dual blockade is rarely needed. Check with the prescriber and monitor potassium and kidney function.',
+      evidence: 'Combining ACE inhibitors and ARBs increased adverse events without added benefit in trials',
+    },
+    {
+      id: 'metformin-loop-diuretics',
+      a: 'metformin',
+      b: 'class:loop-diuretics',
+      severity: 'moderate',
+      description: 'Increased risk of lactic acidosis',
+      recommendation: 'Monitor kidney function regularly. Watch for signs of lactic acidosis.',
+      evidence: 'Both drugs affect kidney function',
+    },
+    {
+      id: 'metformin-contrast',
+      a: 'metformin',
+      b: 'contrast media',
+      severity: 'moderate',
+      description: 'Increased risk of lactic acidosis',
+      recommendation: 'Hold metformin before and after contrast procedures. Monitor kidney function.',
+      evidence: 'Contrast can affect kidney function',
+    },
+    {
+      id: 'statins-cyp3a4-inhibitors',
+      a: 'class:cyp3a4-statins',
+      b: 'class:strong-cyp3a4-inhibitors',
+      severity: 'high',
+      description: 'Increased risk of muscle damage and rhabdomyolysis',
+      recommendation: 'Avoid concurrent use. Consider alternative antibiotics or statins.',
+      evidence: 'These drugs inhibit statin metabolism',
+    },
+    {
+      id: 'atorvastatin-grapefruit',
+      a: 'atorvastatin',
+      b: 'grapefruit juice',
+      severity: 'moderate',
+      description: 'Increased statin levels and side effects',
+      recommendation: 'Avoid grapefruit juice. Monitor for muscle pain.',
+      evidence: 'Grapefruit inhibits statin metabolism',
+    },
+    {
+      id: 'digoxin-loop-diuretics',
+      a: 'digoxin',
+      b: 'class:loop-diuretics',
+      severity: 'moderate',
+      description: 'Increased risk of digoxin toxicity',
+      recommendation: 'Monitor digoxin levels and electrolytes closely. Watch for toxicity signs.',
+      evidence: 'Diuretics can increase digoxin levels',
+    },
+    {
+      id: 'ssris-tramadol',
+      a: 'class:ssris',
+      b: 'tramadol',
+      severity: 'moderate',
+      description: 'Increased risk of seizures and serotonin syndrome',
+      recommendation: 'Use with caution. Monitor for neurological symptoms.',
+      evidence: 'Both affect serotonin levels',
+    },
+    {
+      id: 'clopidogrel-ppis',
+      a: 'clopidogrel',
+      b: 'class:cyp2c19-ppis',
+      severity: 'high',
+      description: 'Reduced antiplatelet effect of clopidogrel',
+      recommendation: 'Avoid omeprazole and esomeprazole. Use alternative PPIs like pantoprazole.',
+      evidence: 'These PPIs inhibit clopidogrel activation',
+    },
+    {
+      id: 'beta-agonists-beta-blockers',
+      a: 'class:beta-agonists',
+      b: 'class:non-selective-beta-blockers',
+      severity: 'high',
+      description: 'Reduced effectiveness of the inhaler',
+      recommendation: 'Use cardioselective beta-blockers. Monitor respiratory function.',
+      evidence: 'Non-selective beta-blockers can block bronchodilation',
+    },
+    {
+      id: 'insulins-beta-blockers',
+      a: 'class:insulins',
+      b: 'class:non-selective-beta-blockers',
+      severity: 'moderate',
+      description: 'Warning signs of low blood sugar can be masked',
+      recommendation: 'Check blood glucose more often, especially when starting the beta-blocker.',
+      evidence: 'Beta-blockers blunt the tremor and fast heartbeat that signal hypoglycemia',
+    },
+    {
+      id: 'sulfonylureas-fluoroquinolones',
+      a: 'class:sulfonylureas',
+      b: 'class:fluoroquinolones',
+      severity: 'moderate',
+      description: 'Risk of severe low or high blood sugar',
+      recommendation: 'Check blood glucose more often during the antibiotic course.',
+      evidence: 'Fluoroquinolones cause dysglycemia, most often with sulfonylureas',
+    },
+  ],
+};
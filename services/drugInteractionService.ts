@@ -0,0 +1,305 @@
+/**
+ * Drug Interaction Service
+ *
+ * Checks a patient's medications against an interaction dataset. The dataset
+ * lists drugs by generic name with their brand names and synonyms, groups
+ * them into classes, and describes interactions between drugs or classes
+ * ("class:nsaids"). A medication matches a drug when its name mentions the
+ * generic name or any alias as a whole word, so "Advil 200mg" is ibuprofen
+ * and ibuprofen is an NSAID.
+ *
+ * The built-in dataset can be replaced by importing a newer one from a JSON
+ * file with the same shape; the newest version available is the one used.
+ */
+
+import type { DiabetesMedication, Medication } from '../types';
+import { BUILT_IN_INTERACTION_DATASET } from './drugInteractionDataset';
+import { toLocalDate } from './adherenceService';
+
+export type InteractionSeverity = 'high' | 'moderate' | 'low';
+
+export interface InteractionDrug {
+  name: string; // Generic name, lower case
+  aliases?: string[]; // Brand names and synonyms
+  classes?: string[]; // Class keys
+}
+
+export interface InteractionClass {
+  key: string;
+  label: string;
+}
+
+export interface InteractionRule {
+  id: string;
+  // A generic name, or "class:<key>" for every drug in a class
+  a: string;
+  b: string;
+  severity: InteractionSeverity;
+  description: string;
+  recommendation: string;
+  evidence?: string;
+}
+
+export interface InteractionDataset {
+  version: string; // Dotted numbers, e.g. "1.2.0"
+  updatedAt?: string;
+  source?: string;
+  classes: InteractionClass[];
+  drugs: InteractionDrug[];
+  interactions: InteractionRule[];
+}
+
+export interface CheckedMedication {
+  id: string;
+  name: string;
+  source: 'current' | 'diabetes';
+}
+
+export interface InteractionSide {
+  medication: CheckedMedication;
+  drug: string; // Generic name the medication matched
+  matchedBy: 'name' | 'alias' | 'class';
+  className?: string;
+}
+
+export interface FoundInteraction {
+  rule: InteractionRule;
+  first: InteractionSide;
+  second: InteractionSide;
+}
+
+export class InteractionDatasetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InteractionDatasetError';
+  }
+}
+
+export const INTERACTION_DATASET_STORAGE_KEY = 'fhk_interaction_dataset';
+
+const SEVERITY_ORDER: Record<InteractionSeverity, number> = { high: 3, moderate: 2, low: 1 };
+
+const CLASS_PREFIX = 'class:';
+
+const normalize = (value: string): string => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const mentions = (text: string, term: string): boolean =>
+  new RegExp(`(^|[^a-z])${escapeRegExp(normalize(term))}([^a-z]|$)`).test(text);
+
+/**
+ * Negative when `a` is older than `b`, comparing dotted version numbers
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const left = a.split('.').map(part => parseInt(part, 10) || 0);
+  const right = b.split('.').map(part => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const difference = (left[i] || 0) - (right[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const isStringList = (value: unknown): value is string[] | undefined =>
+  value === undefined || (Array.isArray(value) && value.every(isString));
+
+/**
+ * Checks the shape of an imported dataset and that every class it refers to
+ * is defined
+ */
+export const validateInteractionDataset = (data: unknown): InteractionDataset => {
+  const dataset = data as Partial<InteractionDataset> | null;
+  if (!dataset || typeof dataset !== 'object') {
+    throw new InteractionDatasetError('Expected a JSON object');
+  }
+  if (!isString(dataset.version) || !/^\d+(\.\d+)*$/.test(dataset.version.trim())) {
+    throw new InteractionDatasetError('The dataset needs a version such as "1.2.0"');
+  }
+  if (!Array.isArray(dataset.classes) || !Array.isArray(dataset.drugs) || !Array.isArray(dataset.interactions)) {
+    throw new InteractionDatasetError('The dataset needs "classes", "drugs" and "interactions" lists');
+  }
+
+  const classKeys = new Set<string>();
+  dataset.classes.forEach((drugClass, index) => {
+    if (!isString(drugClass?.key) || !isString(drugClass?.label)) {
+      throw new InteractionDatasetError(`Class ${index + 1} needs a key and a label`);
+    }
+    classKeys.add(drugClass.key);
+  });
+
+  const checkClasses = (keys: string[], where: string) => keys.forEach(key => {
+    if (!classKeys.has(key)) throw new InteractionDatasetError(`${where} refers to unknown class "${key}"`);
+  });
+
+  dataset.drugs.forEach((drug, index) => {
+    if (!isString(drug?.name) || !isStringList(drug.aliases) || !isStringList(drug.classes)) {
+      throw new InteractionDatasetError(`Drug ${index + 1} needs a name, and aliases and classes must be lists of names`);
+    }
+    checkClasses(drug.classes || [], `Drug "${drug.name}"`);
+  });
+
+  dataset.interactions.forEach((rule, index) => {
+    if (!isString(rule?.id) || !isString(rule.a) || !isString(rule.b) || !isString(rule.description) || !isString(rule.recommendation)) {
+      throw new InteractionDatasetError(`Interaction ${index + 1} needs an id, two drugs, a description and a recommendation`);
+    }
+    if (!(rule.severity in SEVERITY_ORDER)) {
+      throw new InteractionDatasetError(`Interaction "${rule.id}" has an unknown severity "${rule.severity}"`);
+    }
+    checkClasses(
+      [rule.a, rule.b].filter(side => side.startsWith(CLASS_PREFIX)).map(side => side.slice(CLASS_PREFIX.length)),
+      `Interaction "${rule.id}"`
+    );
+  });
+
+  return {
+    ...dataset,
+    version: dataset.version.trim(),
+    drugs: dataset.drugs.map(drug => ({ ...drug, name: normalize(drug.name), aliases: drug.aliases?.map(normalize) })),
+  } as InteractionDataset;
+};
+
+export const parseInteractionDataset = (text: string): InteractionDataset => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new InteractionDatasetError('The file is not valid JSON');
+  }
+  return validateInteractionDataset(data);
+};
+
+const readStoredDataset = (): InteractionDataset | undefined => {
+  try {
+    const stored = localStorage.getItem(INTERACTION_DATASET_STORAGE_KEY);
+    return stored ? parseInteractionDataset(stored) : undefined;
+  } catch (error) {
+    console.error('Failed to load imported interaction dataset:', error);
+    return undefined;
+  }
+};
+
+/**
+ * The imported dataset when it is newer than the built-in one, otherwise the
+ * built-in dataset
+ */
+export const loadInteractionDataset = (): InteractionDataset => {
+  const stored = readStoredDataset();
+  return stored && compareVersions(stored.version, BUILT_IN_INTERACTION_DATASET.version) > 0
+    ? stored
+    : BUILT_IN_INTERACTION_DATASET;
+};
+
+/**
+ * Validates and stores an imported dataset. Datasets no newer than the one
+ * in use are rejected, so an old file cannot roll back an update.
+ */
+export const importInteractionDataset = (text: string): InteractionDataset => {
+  const dataset = parseInteractionDataset(text);
+  const current = loadInteractionDataset();
+  if (compareVersions(dataset.version, current.version) <= 0) {
+    throw new InteractionDatasetError(
+      `Version ${dataset.version} is not newer than the dataset in use (version ${current.version})`
+    );
+  }
+  localStorage.setItem(INTERACTION_DATASET_STORAGE_KEY, JSON.stringify(dataset));
+  return dataset;
+};
+
+export const resetInteractionDataset = (): InteractionDataset => {
+  localStorage.removeItem(INTERACTION_DATASET_STORAGE_KEY);
+  return BUILT_IN_INTERACTION_DATASET;
+};
+
+const isActiveOn = (medication: { endDate?: string }, date: string): boolean =>
+  !medication.endDate || medication.endDate >= date;
+
+/**
+ * Current and diabetes medications still being taken on `asOf`, checked together
+ */
+export const collectMedications = (
+  currentMedications: Medication[],
+  diabetesMedications: DiabetesMedication[] = [],
+  asOf: string = toLocalDate(new Date())
+): CheckedMedication[] => [
+  ...currentMedications
+    .filter(medication => isActiveOn(medication, asOf))
+    .map(medication => ({ id: medication.id, name: medication.name, source: 'current' as const })),
+  ...diabetesMedications
+    .filter(medication => isActiveOn(medication, asOf))
+    .map(medication => ({ id: medication.id, name: medication.name, source: 'diabetes' as const })),
+];
+
+/**
+ * The dataset drugs a medication name mentions, with how each was matched
+ */
+export const resolveDrugs = (
+  medicationName: string,
+  dataset: InteractionDataset
+): { drug: InteractionDrug; matchedBy: 'name' | 'alias' }[] => {
+  const name = normalize(medicationName);
+  return dataset.drugs.flatMap((drug): { drug: InteractionDrug; matchedBy: 'name' | 'alias' }[] => {
+    if (mentions(name, drug.name)) return [{ drug, matchedBy: 'name' }];
+    if ((drug.aliases || []).some(alias => mentions(name, alias))) return [{ drug, matchedBy: 'alias' }];
+    return [];
+  });
+};
+
+// How a medication meets one side of a rule, if it does
+const matchSide = (
+  side: string,
+  medication: CheckedMedication,
+  resolved: ReturnType<typeof resolveDrugs>,
+  dataset: InteractionDataset
+): InteractionSide | undefined => {
+  if (side.startsWith(CLASS_PREFIX)) {
+    const key = side.slice(CLASS_PREFIX.length);
+    const match = resolved.find(({ drug }) => drug.classes?.includes(key));
+    return match && {
+      medication,
+      drug: match.drug.name,
+      matchedBy: 'class',
+      className: dataset.classes.find(drugClass => drugClass.key === key)?.label,
+    };
+  }
+
+  const generic = normalize(side);
+  const match = resolved.find(({ drug }) => drug.name === generic);
+  if (match) return { medication, drug: match.drug.name, matchedBy: match.matchedBy };
+  // Rules may name drugs the dataset has no entry for
+  return mentions(normalize(medication.name), generic) ? { medication, drug: generic, matchedBy: 'name' } : undefined;
+};
+
+/**
+ * Every interaction between two different medications, most severe first
+ */
+export const findInteractions = (
+  medications: CheckedMedication[],
+  dataset: InteractionDataset = loadInteractionDataset()
+): FoundInteraction[] => {
+  const resolved = medications.map(medication => resolveDrugs(medication.name, dataset));
+  const found: FoundInteraction[] = [];
+  const seen = new Set<string>();
+
+  dataset.interactions.forEach(rule => {
+    medications.forEach((first, i) => {
+      medications.forEach((second, j) => {
+        if (i === j) return;
+        // By name, so a drug on both the current and diabetes lists is reported once
+        const pair = [normalize(first.name), normalize(second.name)].sort().join('|');
+        if (seen.has(`${rule.id}|${pair}`)) return;
+
+        const firstSide = matchSide(rule.a, first, resolved[i], dataset);
+        const secondSide = firstSide && matchSide(rule.b, second, resolved[j], dataset);
+        if (firstSide && secondSide) {
+          seen.add(`${rule.id}|${pair}`);
+          found.push({ rule, first: firstSide, second: secondSide });
+        }
+      });
+    });
+  });
+
+  return found.sort((a, b) => SEVERITY_ORDER[b.rule.severity] - SEVERITY_ORDER[a.rule.severity]);
+};
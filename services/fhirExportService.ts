@@ -0,0 +1,411 @@
+/**
+ * FHIR Export Service
+ *
+ * Converts a patient's complete record into a FHIR R4 Bundle (type
+ * "collection") so it can be handed to hospitals and other EHR systems.
+ *
+ * Mapping:
+ * - Patient             -> Patient
+ * - MedicalRecord       -> Encounter + Condition (diagnosis) + Observation (investigations)
+ * - Medication          -> MedicationStatement
+ * - Appointment         -> Appointment
+ * - allergies           -> AllergyIntolerance
+ * - conditions          -> Condition (problem list)
+ * - Document            -> DocumentReference
+ *
+ * Resources reference each other through urn:uuid full URLs, which keeps the
+ * bundle self-contained and importable as-is.
+ */
+
+import type { Patient, Doctor, MedicalRecord, Medication, Appointment, Document } from '../types';
+import { toLocalDate } from './adherenceService';
+
+export const FHIR_MIME_TYPE = 'application/fhir+json';
+
+export interface FhirReference {
+  reference?: string;
+  display?: string;
+}
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirHumanName {
+  use?: string;
+  text?: string;
+  family?: string;
+  given?: string[];
+}
+
+export interface FhirContactPoint {
+  system?: string;
+  value?: string;
+  use?: string;
+}
+
+export interface FhirIdentifier {
+  system?: string;
+  value?: string;
+  assigner?: FhirReference;
+}
+
+export interface FhirAnnotation {
+  text?: string;
+}
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [key: string]: any;
+}
+
+export interface FhirBundleEntry {
+  fullUrl: string;
+  resource: FhirResource;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  meta: { lastUpdated: string };
+  type: 'collection';
+  timestamp: string;
+  entry: FhirBundleEntry[];
+}
+
+export interface FhirExportOptions {
+  // Embed document contents that are held as data: URLs (default true)
+  includeDocumentData?: boolean;
+}
+
+const TERMINOLOGY = 'http://terminology.hl7.org/CodeSystem';
+
+const concept = (system: string, code: string, display?: string): FhirCodeableConcept => ({
+  coding: [{ system, code, ...(display && { display }) }],
+});
+
+const text = (value: string): FhirCodeableConcept => ({ text: value });
+
+const newUuid = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+        const r = (Math.random() * 16) | 0;
+        return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+      });
+
+// FHIR ids allow [A-Za-z0-9\-\.]{1,64}
+export const toFhirId = (value: string): string =>
+  value.replace(/[^A-Za-z0-9\-.]/g, '-').slice(0, 64) || newUuid();
+
+// A FHIR date (YYYY-MM-DD) in the user's calendar, or undefined when the value can't be parsed
+export const toFhirDate = (value?: string): string | undefined => {
+  if (!value) return undefined;
+  if (/^\d{4}(-\d{2}(-\d{2})?)?$/.test(value)) return value;
+
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? undefined : toLocalDate(parsed);
+};
+
+// A FHIR dateTime/instant with timezone, or undefined when the value can't be parsed
+export const toFhirDateTime = (date?: string, time?: string): string | undefined => {
+  if (!date) return undefined;
+  if (!time && /^\d{4}-\d{2}-\d{2}$/.test(date)) return date;
+
+  const withTime = time && !date.includes('T') ? `${date}T${time.length === 5 ? `${time}:00` : time}` : date;
+  const parsed = new Date(withTime);
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+};
+
+// A FHIR instant (always includes time and timezone)
+const toFhirInstant = (value?: string): string | undefined => {
+  if (!value) return undefined;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+};
+
+const splitName = (name: string): { family?: string; given?: string[] } => {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length < 2) return { given: parts.filter(Boolean) };
+  return { family: parts[parts.length - 1], given: parts.slice(0, -1) };
+};
+
+const APPOINTMENT_STATUS: Record<Appointment['status'], string> = {
+  scheduled: 'booked',
+  confirmed: 'booked',
+  rescheduled: 'booked',
+  completed: 'fulfilled',
+  cancelled: 'cancelled',
+};
+
+// Appointments without a duration are exported as 30-minute slots, since FHIR requires start and end together
+const DEFAULT_APPOINTMENT_MINUTES = 30;
+
+const GENDERS = ['male', 'female', 'other'];
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+class BundleBuilder {
+  readonly entries: FhirBundleEntry[] = [];
+
+  add(resource: FhirResource): string {
+    const fullUrl = `urn:uuid:${newUuid()}`;
+    this.entries.push({ fullUrl, resource });
+    return fullUrl;
+  }
+}
+
+function mapPatient(patient: Patient): FhirResource {
+  const { contactInfo, emergencyContact } = patient;
+  const telecom = [
+    contactInfo?.phone && { system: 'phone', value: contactInfo.phone, use: 'mobile' },
+    contactInfo?.alternatePhone && { system: 'phone', value: contactInfo.alternatePhone },
+    contactInfo?.email && { system: 'email', value: contactInfo.email },
+  ].filter(Boolean);
+
+  const hasAddress = contactInfo?.address || contactInfo?.city || contactInfo?.state || contactInfo?.pincode;
+
+  return {
+    resourceType: 'Patient',
+    id: toFhirId(patient.id),
+    active: true,
+    ...(patient.hospitalIds?.length > 0 && {
+      identifier: patient.hospitalIds.map(hospitalId => ({
+        type: { ...concept(`${TERMINOLOGY}/v2-0203`, 'MR', 'Medical record number'), text: 'Hospital ID' },
+        value: hospitalId.patientId,
+        assigner: { display: hospitalId.hospitalName },
+      })),
+    }),
+    name: [{ text: patient.name, ...splitName(patient.name) }],
+    ...(telecom.length > 0 && { telecom }),
+    ...(patient.gender && GENDERS.includes(patient.gender) && { gender: patient.gender }),
+    ...(toFhirDate(patient.dateOfBirth) && { birthDate: toFhirDate(patient.dateOfBirth) }),
+    ...(hasAddress && {
+      address: [{
+        ...(contactInfo?.address && { text: contactInfo.address }),
+        ...(contactInfo?.city && { city: contactInfo.city }),
+        ...(contactInfo?.state && { state: contactInfo.state }),
+        ...(contactInfo?.pincode && { postalCode: contactInfo.pincode }),
+      }],
+    }),
+    ...(emergencyContact?.name && {
+      contact: [{
+        relationship: [{ ...concept(`${TERMINOLOGY}/v2-0131`, 'C', 'Emergency Contact'), text: emergencyContact.relationship }],
+        name: { text: emergencyContact.name },
+        ...(emergencyContact.phone && { telecom: [{ system: 'phone', value: emergencyContact.phone }] }),
+      }],
+    }),
+  };
+}
+
+function mapRecord(
+  builder: BundleBuilder,
+  record: MedicalRecord,
+  subject: FhirReference,
+  doctors: Doctor[],
+  options: Required<FhirExportOptions>
+): void {
+  const doctor = doctors.find(d => d.id === record.doctorId);
+  const date = toFhirDateTime(record.date);
+
+  const encounterUrl = builder.add({
+    resourceType: 'Encounter',
+    id: toFhirId(record.id),
+    status: 'finished',
+    class: { system: `${TERMINOLOGY}/v3-ActCode`, code: 'AMB', display: 'ambulatory' },
+    subject,
+    ...(date && { period: { start: date } }),
+    ...(doctor && { participant: [{ individual: { display: doctor.name } }] }),
+    ...(record.complaint && { reasonCode: [text(record.complaint)] }),
+  });
+  const encounter: FhirReference = { reference: encounterUrl };
+
+  if (record.diagnosis?.trim()) {
+    builder.add({
+      resourceType: 'Condition',
+      clinicalStatus: concept(`${TERMINOLOGY}/condition-clinical`, 'active'),
+      category: [concept(`${TERMINOLOGY}/condition-category`, 'encounter-diagnosis', 'Encounter Diagnosis')],
+      code: text(record.diagnosis.trim()),
+      subject,
+      encounter,
+      ...(date && { recordedDate: date }),
+    });
+  }
+
+  if (record.investigations?.trim()) {
+    builder.add({
+      resourceType: 'Observation',
+      status: 'final',
+      category: [concept(`${TERMINOLOGY}/observation-category`, 'laboratory', 'Laboratory')],
+      code: text('Investigations'),
+      subject,
+      encounter,
+      ...(date && { effectiveDateTime: date }),
+      valueString: record.investigations.trim(),
+    });
+  }
+
+  (record.documents || []).forEach(document =>
+    builder.add(mapDocument(document, subject, encounter, options))
+  );
+}
+
+function mapMedication(medication: Medication, subject: FhirReference): FhirResource {
+  const name = [medication.name, medication.strength].filter(Boolean).join(' ');
+  const timeOfDay = (medication.timings || [])
+    .filter(timing => /^\d{2}:\d{2}(:\d{2})?$/.test(timing))
+    .map(timing => (timing.length === 5 ? `${timing}:00` : timing));
+
+  return {
+    resourceType: 'MedicationStatement',
+    id: toFhirId(medication.id),
+    status: 'active',
+    medicationCodeableConcept: text(name),
+    subject,
+    ...(toFhirDate(medication.startDate) && { effectivePeriod: { start: toFhirDate(medication.startDate) } }),
+    ...(medication.prescribedBy && { informationSource: { display: medication.prescribedBy } }),
+    dosage: [{
+      text: [medication.dosage, medication.frequency].filter(Boolean).join(', '),
+      ...(timeOfDay.length > 0 && { timing: { repeat: { timeOfDay } } }),
+    }],
+    ...(medication.notes && { note: [{ text: medication.notes }] }),
+  };
+}
+
+function mapAppointment(appointment: Appointment, subject: FhirReference, doctors: Doctor[]): FhirResource {
+  const doctor = doctors.find(d => d.id === appointment.doctorId);
+  const start = toFhirDateTime(appointment.date, appointment.time || '00:00');
+  const minutes = appointment.duration || DEFAULT_APPOINTMENT_MINUTES;
+  const end = start && new Date(new Date(start).getTime() + minutes * 60000).toISOString();
+
+  return {
+    resourceType: 'Appointment',
+    id: toFhirId(appointment.id),
+    status: APPOINTMENT_STATUS[appointment.status] || 'booked',
+    appointmentType: text(appointment.type),
+    ...(appointment.reason && { description: appointment.reason }),
+    ...(start && { start }),
+    ...(end && { end, minutesDuration: minutes }),
+    ...(appointment.notes && { comment: appointment.notes }),
+    participant: [
+      { actor: subject, status: 'accepted' },
+      ...(doctor ? [{ actor: { display: doctor.name }, status: 'accepted' }] : []),
+    ],
+  };
+}
+
+function mapDocument(
+  document: Document,
+  subject: FhirReference,
+  encounter: FhirReference | undefined,
+  options: Required<FhirExportOptions>
+): FhirResource {
+  const dataUrl = document.url?.match(/^data:([^;,]+)?(;base64)?,(.*)$/);
+  const contentType = document.type?.includes('/')
+    ? document.type
+    : MIME_TYPES[(document.type || '').toLowerCase()] || dataUrl?.[1];
+  const uploadedAt = toFhirInstant(document.uploadedAt);
+
+  const attachment: Record<string, any> = {
+    ...(contentType && { contentType }),
+    title: document.name,
+    ...(document.size && { size: document.size }),
+    ...(uploadedAt && { creation: uploadedAt }),
+  };
+
+  if (dataUrl && dataUrl[2] && options.includeDocumentData) {
+    attachment.data = dataUrl[3];
+  } else if (document.url && !dataUrl) {
+    attachment.url = document.url;
+  }
+
+  return {
+    resourceType: 'DocumentReference',
+    id: toFhirId(document.id),
+    status: 'current',
+    subject,
+    ...(uploadedAt && { date: uploadedAt }),
+    description: document.name,
+    content: [{ attachment }],
+    ...(encounter && { context: { encounter: [encounter] } }),
+  };
+}
+
+/**
+ * Build a FHIR R4 collection Bundle holding everything we know about a patient
+ */
+export function buildFhirBundle(
+  patient: Patient,
+  doctors: Doctor[] = [],
+  options: FhirExportOptions = {}
+): FhirBundle {
+  const resolvedOptions: Required<FhirExportOptions> = { includeDocumentData: true, ...options };
+  const builder = new BundleBuilder();
+  const subject: FhirReference = { reference: builder.add(mapPatient(patient)), display: patient.name };
+
+  (patient.allergies || []).filter(allergy => allergy.trim()).forEach(allergy =>
+    builder.add({
+      resourceType: 'AllergyIntolerance',
+      clinicalStatus: concept(`${TERMINOLOGY}/allergyintolerance-clinical`, 'active'),
+      code: text(allergy.trim()),
+      patient: subject,
+    })
+  );
+
+  (patient.conditions || []).filter(condition => condition.trim()).forEach(condition =>
+    builder.add({
+      resourceType: 'Condition',
+      clinicalStatus: concept(`${TERMINOLOGY}/condition-clinical`, 'active'),
+      category: [concept(`${TERMINOLOGY}/condition-category`, 'problem-list-item', 'Problem List Item')],
+      code: text(condition.trim()),
+      subject,
+    })
+  );
+
+  (patient.records || []).forEach(record => mapRecord(builder, record, subject, doctors, resolvedOptions));
+  (patient.currentMedications || []).forEach(medication => builder.add(mapMedication(medication, subject)));
+  (patient.appointments || []).forEach(appointment => builder.add(mapAppointment(appointment, subject, doctors)));
+
+  const now = new Date().toISOString();
+
+  return {
+    resourceType: 'Bundle',
+    id: newUuid(),
+    meta: { lastUpdated: now },
+    type: 'collection',
+    timestamp: now,
+    entry: builder.entries,
+  };
+}
+
+/**
+ * Download a patient's FHIR bundle as a .json file
+ */
+export function downloadFhirBundle(patient: Patient, doctors: Doctor[] = [], options?: FhirExportOptions): void {
+  const bundle = buildFhirBundle(patient, doctors, options);
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: FHIR_MIME_TYPE });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${patient.name.replace(/\s+/g, '_')}_fhir_r4.json`;
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,389 @@
+/**
+ * Glucose Import Service
+ *
+ * Reads the CSV exports of continuous glucose monitors and glucometers into
+ * blood glucose readings. Each device names its columns differently, so an
+ * import is driven by a column mapping: either one of the presets below or
+ * one the user builds from the file's header row. Readings are stored in
+ * mg/dL; files in mmol/L are converted. A reading is identified by the minute
+ * it was taken, so importing an overlapping export again adds nothing twice.
+ */
+
+import type { BloodGlucoseReading } from '../types';
+
+export type GlucoseUnit = 'mg/dL' | 'mmol/L';
+
+export type DateOrder = 'dmy' | 'mdy';
+
+export interface GlucoseColumnMapping {
+  // Either one timestamp column or separate date and time columns
+  timestamp?: string;
+  date?: string;
+  time?: string;
+  // Several value columns are read in order, first non-empty wins
+  value: string | string[];
+  // Fixed unit; when not set it is read from the value header, then from
+  // `unitColumn`, then guessed from the values
+  unit?: GlucoseUnit;
+  unitColumn?: string;
+  mealTag?: string;
+  notes?: string;
+  // Only rows whose `column` holds one of `values` are readings
+  rowFilter?: { column: string; values: string[] };
+  // Used when the dates themselves do not tell day and month apart
+  dateOrder?: DateOrder;
+  // Values reported as "Low"/"High" when outside the sensor's range, in mg/dL
+  outOfRange?: { low: number; high: number };
+}
+
+export interface GlucoseImportPreset {
+  id: string;
+  name: string;
+  source: 'cgm' | 'glucometer';
+  mapping: GlucoseColumnMapping;
+}
+
+export interface GlucoseImportResult {
+  readings: BloodGlucoseReading[];
+  unit?: GlucoseUnit;
+  rowsRead: number;
+  skipped: number; // Rows with no usable timestamp or value
+  duplicates: number; // Repeated timestamps within the file
+  from?: string;
+  to?: string;
+}
+
+export const MMOL_TO_MG_DL = 18.016;
+
+export const GLUCOSE_IMPORT_PRESETS: GlucoseImportPreset[] = [
+  {
+    id: 'dexcom-clarity',
+    name: 'Dexcom Clarity',
+    source: 'cgm',
+    mapping: {
+      timestamp: 'Timestamp',
+      value: 'Glucose Value',
+      rowFilter: { column: 'Event Type', values: ['EGV'] },
+      outOfRange: { low: 40, high: 400 },
+    },
+  },
+  {
+    id: 'freestyle-libre',
+    name: 'FreeStyle Libre (LibreView)',
+    source: 'cgm',
+    mapping: {
+      timestamp: 'Device Timestamp',
+      value: ['Historic Glucose', 'Scan Glucose'],
+      // 0 is the sensor's 15 minute history, 1 a scan
+      rowFilter: { column: 'Record Type', values: ['0', '1'] },
+      outOfRange: { low: 40, high: 500 },
+    },
+  },
+  {
+    id: 'mysugr',
+    name: 'mySugr / Accu-Chek',
+    source: 'glucometer',
+    mapping: {
+      date: 'Date',
+      time: 'Time',
+      value: 'Blood Sugar Measurement',
+      mealTag: 'Tags',
+      notes: 'Note',
+      outOfRange: { low: 20, high: 600 },
+    },
+  },
+  {
+    id: 'glucometer',
+    name: 'Glucometer (Date, Time, Glucose)',
+    source: 'glucometer',
+    mapping: {
+      date: 'Date',
+      time: 'Time',
+      value: ['Glucose', 'Reading', 'Result', 'Value'],
+      unitColumn: 'Unit',
+      mealTag: 'Meal',
+      notes: 'Notes',
+      outOfRange: { low: 20, high: 600 },
+    },
+  },
+];
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with commas, quotes
+ * and line breaks, and files delimited by semicolons or tabs.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.slice(0, content.indexOf('\n') === -1 ? undefined : content.indexOf('\n'));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  if (row.some(value => value !== '')) rows.push(row);
+
+  return rows;
+};
+
+/**
+ * Index of the column named `name`: an exact match first, then a header
+ * starting with it, so "Glucose Value" finds "Glucose Value (mg/dL)".
+ */
+export const findColumn = (headers: string[], name?: string): number => {
+  if (!name) return -1;
+  const wanted = normalizeHeader(name);
+  const normalized = headers.map(normalizeHeader);
+  const exact = normalized.indexOf(wanted);
+  return exact !== -1 ? exact : normalized.findIndex(header => header.startsWith(wanted));
+};
+
+const valueColumns = (mapping: GlucoseColumnMapping): string[] =>
+  Array.isArray(mapping.value) ? mapping.value : [mapping.value];
+
+const mappedColumns = (mapping: GlucoseColumnMapping): string[] =>
+  [...(mapping.timestamp ? [mapping.timestamp] : [mapping.date!, mapping.time!]), valueColumns(mapping)[0]];
+
+/**
+ * Exports often start with a few lines about the patient or device before the
+ * header row, so look for the first row that has the mapped columns.
+ */
+export const findHeaderRow = (rows: string[][], mapping: GlucoseColumnMapping): number =>
+  rows.slice(0, 10).findIndex(row => mappedColumns(mapping).every(column => findColumn(row, column) !== -1));
+
+export const detectPreset = (rows: string[][]): GlucoseImportPreset | undefined =>
+  GLUCOSE_IMPORT_PRESETS.find(preset => findHeaderRow(rows, preset.mapping) !== -1);
+
+export const unitFromText = (text?: string): GlucoseUnit | undefined => {
+  if (!text) return undefined;
+  if (/mmol/i.test(text)) return 'mmol/L';
+  if (/mg/i.test(text)) return 'mg/dL';
+  return undefined;
+};
+
+export const toMgDl = (value: number, unit: GlucoseUnit): number =>
+  Math.round(unit === 'mmol/L' ? value * MMOL_TO_MG_DL : value);
+
+const DATE_PATTERNS = {
+  ymd: /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s,]+(.*))?$/,
+  other: /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})(?:[T\s,]+(.*))?$/,
+};
+
+/**
+ * "8:05 PM", "20:05" or "20:05:31" as "HH:mm"
+ */
+export const parseTime = (text: string): string | undefined => {
+  const match = text.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?\s*([ap]\.?m\.?)?/i);
+  if (!match) return undefined;
+
+  let hours = parseInt(match[1], 10);
+  const meridiem = match[3]?.[0].toLowerCase();
+  if (meridiem === 'p' && hours < 12) hours += 12;
+  if (meridiem === 'a' && hours === 12) hours = 0;
+  if (hours > 23) return undefined;
+
+  return `${String(hours).padStart(2, '0')}:${match[2]}`;
+};
+
+/**
+ * Day-first or month-first, from the first date whose day is above 12
+ */
+export const detectDateOrder = (values: string[]): DateOrder | undefined => {
+  for (const value of values) {
+    const match = value.trim().match(DATE_PATTERNS.other);
+    if (!match) continue;
+    if (parseInt(match[1], 10) > 12) return 'dmy';
+    if (parseInt(match[2], 10) > 12) return 'mdy';
+  }
+  return undefined;
+};
+
+export const parseTimestamp = (text: string, order: DateOrder = 'dmy'): { date: string; time: string } | undefined => {
+  const value = text.trim();
+  let year: number, month: number, day: number, rest: string | undefined;
+
+  const ymd = value.match(DATE_PATTERNS.ymd);
+  const other = value.match(DATE_PATTERNS.other);
+  if (ymd) {
+    [year, month, day] = [ymd[1], ymd[2], ymd[3]].map(Number);
+    rest = ymd[4];
+  } else if (other) {
+    const [first, second, yearPart] = [other[1], other[2], other[3]].map(Number);
+    [day, month] = order === 'dmy' ? [first, second] : [second, first];
+    year = yearPart < 100 ? 2000 + yearPart : yearPart;
+    rest = other[4];
+  } else {
+    return undefined;
+  }
+
+  const time = rest ? parseTime(rest) : undefined;
+  if (!time || month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+
+  return { date: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`, time };
+};
+
+/**
+ * Meal tags as written by glucometer apps, e.g. "Before breakfast", "Post meal", "Fasting"
+ */
+export const readingTypeFromTag = (tag?: string): BloodGlucoseReading['type'] => {
+  if (!tag) return 'random';
+  if (/fast/i.test(tag)) return 'fasting';
+  if (/after|post|\bpp\b/i.test(tag)) return 'postprandial';
+  if (/bed|night/i.test(tag)) return 'bedtime';
+  return 'random';
+};
+
+export const readingKey = (reading: Pick<BloodGlucoseReading, 'date' | 'time'>): string => `${reading.date}T${reading.time}`;
+
+/**
+ * Read a CSV export with the given mapping. Returns no readings when the
+ * mapped columns are not in the file.
+ */
+export const parseGlucoseCsv = (
+  text: string,
+  mapping: GlucoseColumnMapping,
+  source: BloodGlucoseReading['source'] = 'glucometer'
+): GlucoseImportResult => {
+  const rows = parseCsv(text);
+  const headerIndex = findHeaderRow(rows, mapping);
+  if (headerIndex === -1) {
+    return { readings: [], rowsRead: 0, skipped: 0, duplicates: 0 };
+  }
+
+  const headers = rows[headerIndex];
+  const column = (name?: string) => findColumn(headers, name);
+  const values = valueColumns(mapping).map(name => column(name)).filter(index => index !== -1);
+  const timestamp = column(mapping.timestamp);
+  const date = column(mapping.date);
+  const time = column(mapping.time);
+  const unitColumn = column(mapping.unitColumn);
+  const mealTag = column(mapping.mealTag);
+  const notes = column(mapping.notes);
+  const filter = mapping.rowFilter && { index: column(mapping.rowFilter.column), values: mapping.rowFilter.values };
+
+  const dataRows = rows.slice(headerIndex + 1).filter(row =>
+    !filter || filter.index === -1 || filter.values.includes(row[filter.index])
+  );
+  const timestampText = (row: string[]) =>
+    timestamp !== -1 ? row[timestamp] || '' : `${row[date] || ''} ${row[time] || ''}`;
+
+  const order = detectDateOrder(dataRows.map(timestampText)) || mapping.dateOrder;
+  const headerUnit = mapping.unit || values.map(index => unitFromText(headers[index])).find(Boolean);
+
+  // Without a unit anywhere, values under 35 can only be mmol/L
+  const numbers = dataRows
+    .map(row => parseFloat(values.map(index => row[index]).find(Boolean) || ''))
+    .filter(value => !isNaN(value));
+  const guessedUnit: GlucoseUnit = numbers.length > 0 && numbers.sort((a, b) => a - b)[Math.floor(numbers.length / 2)] < 35
+    ? 'mmol/L'
+    : 'mg/dL';
+
+  const readings: BloodGlucoseReading[] = [];
+  const seen = new Set<string>();
+  let skipped = 0;
+  let duplicates = 0;
+
+  dataRows.forEach((row, index) => {
+    const when = parseTimestamp(timestampText(row), order);
+    const raw = values.map(i => row[i]).find(Boolean);
+    if (!when || !raw) {
+      skipped++;
+      return;
+    }
+
+    const unit = headerUnit || unitFromText(row[unitColumn]) || guessedUnit;
+    let value = parseFloat(raw.replace(',', '.'));
+    let note = notes !== -1 ? row[notes] || undefined : undefined;
+    if (isNaN(value)) {
+      if (!mapping.outOfRange || !/^(low|lo|high|hi)$/i.test(raw)) {
+        skipped++;
+        return;
+      }
+      const low = /^lo/i.test(raw);
+      value = low ? mapping.outOfRange.low : mapping.outOfRange.high;
+      note = [`${low ? 'Below' : 'Above'} meter range`, note].filter(Boolean).join('; ');
+    } else {
+      value = toMgDl(value, unit);
+    }
+
+    const key = readingKey(when);
+    if (seen.has(key)) {
+      duplicates++;
+      return;
+    }
+    seen.add(key);
+
+    const tag = mealTag !== -1 ? row[mealTag] || undefined : undefined;
+    readings.push({
+      id: `glucose-${Date.now()}-${index}`,
+      date: when.date,
+      time: when.time,
+      value,
+      type: readingTypeFromTag(tag),
+      context: tag,
+      notes: note,
+      source,
+    });
+  });
+
+  readings.sort((a, b) => readingKey(a).localeCompare(readingKey(b)));
+
+  return {
+    readings,
+    unit: headerUnit || (readings.length > 0 ? guessedUnit : undefined),
+    rowsRead: dataRows.length,
+    skipped,
+    duplicates,
+    from: readings[0]?.date,
+    to: readings[readings.length - 1]?.date,
+  };
+};
+
+/**
+ * Add imported readings, skipping any taken in a minute already recorded
+ */
+export const mergeGlucoseReadings = (
+  existing: BloodGlucoseReading[],
+  incoming: BloodGlucoseReading[]
+): BloodGlucoseReading[] => {
+  const recorded = new Set(existing.map(readingKey));
+  const added = incoming.filter(reading => {
+    const key = readingKey(reading);
+    if (recorded.has(key)) return false;
+    recorded.add(key);
+    return true;
+  });
+  return [...existing, ...added];
+};
@@ -0,0 +1,188 @@
+/**
+ * Hypertension Service
+ *
+ * Home blood pressure is judged on averages over a period rather than on
+ * single readings, which swing by 20 mmHg or more through the day. Readings
+ * are also split into morning and evening by the time they were taken: a
+ * morning average well above the evening one usually means the medication
+ * is wearing off before the next dose.
+ */
+
+import type { AntihypertensiveMedication, HomeBloodPressureReading, HypertensionRecord } from '../types';
+import { toLocalDate } from './adherenceService';
+
+export type BpCategory = 'normal' | 'elevated' | 'stage1' | 'stage2' | 'crisis';
+
+export type ReadingPeriod = 'morning' | 'evening' | 'other';
+
+export interface BpAverage {
+  systolic: number;
+  diastolic: number;
+  pulse?: number;
+  count: number;
+}
+
+export interface BpPeriodAverage {
+  days: number;
+  average?: BpAverage;
+  atTarget: number; // Percentage of readings below target
+}
+
+export interface MorningEveningAnalysis {
+  days: number;
+  morning?: BpAverage;
+  evening?: BpAverage;
+  // Morning minus evening, when both have readings
+  systolicDifference?: number;
+  diastolicDifference?: number;
+  pattern?: 'morning' | 'evening' | 'balanced';
+}
+
+export const DEFAULT_BP_TARGET = { systolic: 130, diastolic: 80 };
+
+export const AVERAGE_PERIODS = [7, 30, 90];
+
+// Systolic gap between morning and evening averages worth raising with the doctor
+export const MORNING_EVENING_THRESHOLD = 10;
+
+// ACC/AHA 2017 categories
+export const BP_CATEGORIES: Record<BpCategory, { label: string; description: string }> = {
+  normal: { label: 'Normal', description: 'Below 120/80' },
+  elevated: { label: 'Elevated', description: '120-129 systolic and below 80 diastolic' },
+  stage1: { label: 'Stage 1', description: '130-139 systolic or 80-89 diastolic' },
+  stage2: { label: 'Stage 2', description: '140 systolic or 90 diastolic and above' },
+  crisis: { label: 'Crisis', description: 'Above 180 systolic or 120 diastolic - seek care now' },
+};
+
+export const DRUG_CLASS_LABELS: Record<AntihypertensiveMedication['drugClass'], string> = {
+  'ace-inhibitor': 'ACE inhibitor',
+  arb: 'ARB',
+  'calcium-channel-blocker': 'Calcium channel blocker',
+  diuretic: 'Diuretic',
+  'beta-blocker': 'Beta blocker',
+  other: 'Other',
+};
+
+// Readings are stored with local dates
+const today = () => toLocalDate(new Date());
+
+export const createHypertensionRecord = (patientId: string): HypertensionRecord => ({
+  id: `hypertension-${Date.now()}`,
+  patientId,
+  diagnosisDate: today(),
+  readings: [],
+  medications: [],
+  targetSystolic: DEFAULT_BP_TARGET.systolic,
+  targetDiastolic: DEFAULT_BP_TARGET.diastolic,
+  lastCheckup: today(),
+  nextCheckup: toLocalDate(new Date(Date.now() + 90 * 24 * 60 * 60 * 1000)),
+});
+
+export const classifyBloodPressure = (systolic: number, diastolic: number): BpCategory => {
+  if (systolic > 180 || diastolic > 120) return 'crisis';
+  if (systolic >= 140 || diastolic >= 90) return 'stage2';
+  if (systolic >= 130 || diastolic >= 80) return 'stage1';
+  if (systolic >= 120) return 'elevated';
+  return 'normal';
+};
+
+/**
+ * Readings from 4am to noon count as morning and from 4pm to midnight as
+ * evening; afternoon and night readings are left out of the comparison.
+ */
+export const getReadingPeriod = (time: string): ReadingPeriod => {
+  const hour = parseInt(time.split(':')[0], 10);
+  if (hour >= 4 && hour < 12) return 'morning';
+  if (hour >= 16 && hour < 24) return 'evening';
+  return 'other';
+};
+
+export const isAtTarget = (
+  reading: Pick<HomeBloodPressureReading, 'systolic' | 'diastolic'>,
+  record: Pick<HypertensionRecord, 'targetSystolic' | 'targetDiastolic'>
+): boolean => reading.systolic < record.targetSystolic && reading.diastolic < record.targetDiastolic;
+
+export const formatBloodPressure = ({ systolic, diastolic }: Pick<BpAverage, 'systolic' | 'diastolic'>): string =>
+  `${systolic}/${diastolic}`;
+
+export const sortReadings = (readings: HomeBloodPressureReading[]): HomeBloodPressureReading[] =>
+  [...readings].sort((a, b) => `${a.date}T${a.time}`.localeCompare(`${b.date}T${b.time}`));
+
+export const getLatestReading = (readings: HomeBloodPressureReading[]): HomeBloodPressureReading | undefined =>
+  sortReadings(readings).pop();
+
+export const averageReadings = (readings: HomeBloodPressureReading[]): BpAverage | undefined => {
+  if (readings.length === 0) return undefined;
+
+  const mean = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+  const pulses = readings.filter(reading => reading.pulse !== undefined).map(reading => reading.pulse!);
+
+  return {
+    systolic: mean(readings.map(reading => reading.systolic)),
+    diastolic: mean(readings.map(reading => reading.diastolic)),
+    pulse: pulses.length > 0 ? mean(pulses) : undefined,
+    count: readings.length,
+  };
+};
+
+/**
+ * Readings taken within the last `days` days, counting `asOf` as the first.
+ */
+export const readingsWithin = (
+  readings: HomeBloodPressureReading[],
+  days: number,
+  asOf: string = today()
+): HomeBloodPressureReading[] => {
+  const from = new Date(asOf);
+  from.setUTCDate(from.getUTCDate() - (days - 1));
+  const fromDate = from.toISOString().split('T')[0];
+
+  return readings.filter(reading => reading.date >= fromDate && reading.date <= asOf);
+};
+
+export const getPeriodAverages = (record: HypertensionRecord, asOf: string = today()): BpPeriodAverage[] =>
+  AVERAGE_PERIODS.map(days => {
+    const readings = readingsWithin(record.readings, days, asOf);
+    const atTarget = readings.filter(reading => isAtTarget(reading, record)).length;
+
+    return {
+      days,
+      average: averageReadings(readings),
+      atTarget: readings.length > 0 ? Math.round((atTarget / readings.length) * 100) : 0,
+    };
+  });
+
+export const analyseMorningEvening = (
+  readings: HomeBloodPressureReading[],
+  days: number = 30,
+  asOf: string = today()
+): MorningEveningAnalysis => {
+  const recent = readingsWithin(readings, days, asOf);
+  const morning = averageReadings(recent.filter(reading => getReadingPeriod(reading.time) === 'morning'));
+  const evening = averageReadings(recent.filter(reading => getReadingPeriod(reading.time) === 'evening'));
+
+  if (!morning || !evening) {
+    return { days, morning, evening };
+  }
+
+  const systolicDifference = morning.systolic - evening.systolic;
+  const pattern = systolicDifference >= MORNING_EVENING_THRESHOLD
+    ? 'morning'
+    : systolicDifference <= -MORNING_EVENING_THRESHOLD
+      ? 'evening'
+      : 'balanced';
+
+  return {
+    days,
+    morning,
+    evening,
+    systolicDifference,
+    diastolicDifference: morning.diastolic - evening.diastolic,
+    pattern,
+  };
+};
+
+export const getActiveMedications = (
+  medications: AntihypertensiveMedication[],
+  asOf: string = today()
+): AntihypertensiveMedication[] => medications.filter(medication => !medication.endDate || medication.endDate >= asOf);
@@ -0,0 +1,197 @@
+/**
+ * Insulin Log Service
+ *
+ * Basal and bolus doses with the carbs they covered, for people on multiple
+ * daily injections. Each dose is linked to the glucose reading taken with it,
+ * which is what makes the insulin-to-carb ratio review possible: a meal
+ * bolus is judged by where glucose ended up two to four hours later.
+ */
+
+import type { BloodGlucoseReading, InsulinLogEntry } from '../types';
+
+export type MealTag = NonNullable<InsulinLogEntry['mealTag']>;
+
+export interface DailyInsulinTotals {
+  date: string;
+  basal: number;
+  bolus: number;
+  correction: number; // Part of the bolus total
+  total: number;
+  carbs: number;
+  basalPercent: number;
+}
+
+export interface MealBolusOutcome {
+  entry: InsulinLogEntry;
+  ratio: number; // Grams of carbs per unit of meal insulin
+  before?: number; // mg/dL
+  after?: number; // mg/dL, 2-4 hours later
+}
+
+export interface CarbRatioReview {
+  mealTag: MealTag | 'untagged';
+  meals: number;
+  averageRatio: number;
+  averageRise?: number; // mg/dL from before to after, over meals with both readings
+  outcome: 'on-target' | 'high-after' | 'low-after' | 'insufficient';
+  outcomes: MealBolusOutcome[];
+}
+
+export const MEAL_TAGS: MealTag[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+// A reading this close to a dose is taken to be the one it was given with
+export const LINK_WINDOW_MINUTES = 30;
+
+// Post-meal readings are looked for in this window after the bolus
+const AFTER_MEAL_MINUTES = { from: 120, to: 240 };
+
+// A review needs this many meals with readings after them
+const MIN_MEALS_FOR_REVIEW = 3;
+
+// Average rise that suggests the ratio is too weak, and the lowest acceptable post-meal reading
+const HIGH_RISE = 50;
+const LOW_AFTER = 70;
+
+const MINUTE = 60 * 1000;
+
+const timestamp = (item: { date: string; time: string }): number => {
+  const [year, month, day] = item.date.split('-').map(Number);
+  const [hours, minutes] = item.time.split(':').map(Number);
+  return Date.UTC(year, month - 1, day, hours || 0, minutes || 0);
+};
+
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * The reading closest to the dose within the link window, preferring one
+ * taken before it when two are equally close
+ */
+export const findLinkedReading = (
+  entry: Pick<InsulinLogEntry, 'date' | 'time'>,
+  readings: BloodGlucoseReading[],
+  windowMinutes: number = LINK_WINDOW_MINUTES
+): BloodGlucoseReading | undefined => {
+  const doseTime = timestamp(entry);
+  let closest: BloodGlucoseReading | undefined;
+  let closestDistance = Infinity;
+
+  readings.forEach(reading => {
+    const offset = timestamp(reading) - doseTime;
+    const distance = Math.abs(offset);
+    if (distance > windowMinutes * MINUTE) return;
+    if (distance < closestDistance || (distance === closestDistance && offset < 0)) {
+      closest = reading;
+      closestDistance = distance;
+    }
+  });
+
+  return closest;
+};
+
+/**
+ * A new log entry, linked to the glucose reading taken with it when there is one
+ */
+export const createInsulinLogEntry = (
+  input: Omit<InsulinLogEntry, 'id'>,
+  readings: BloodGlucoseReading[] = []
+): InsulinLogEntry => ({
+  ...input,
+  id: `insulin-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+  glucoseReadingId: input.glucoseReadingId || findLinkedReading(input, readings)?.id,
+});
+
+export const sortLog = (log: InsulinLogEntry[]): InsulinLogEntry[] =>
+  [...log].sort((a, b) => timestamp(a) - timestamp(b));
+
+/**
+ * Insulin and carb totals per day, newest day first
+ */
+export const getDailyTotals = (log: InsulinLogEntry[]): DailyInsulinTotals[] => {
+  const days = new Map<string, DailyInsulinTotals>();
+
+  log.forEach(entry => {
+    const day = days.get(entry.date) || { date: entry.date, basal: 0, bolus: 0, correction: 0, total: 0, carbs: 0, basalPercent: 0 };
+    if (entry.type === 'basal') day.basal += entry.units;
+    else day.bolus += entry.units;
+    day.correction += entry.correctionUnits || 0;
+    day.carbs += entry.carbs || 0;
+    days.set(entry.date, day);
+  });
+
+  return [...days.values()]
+    .map(day => {
+      const total = day.basal + day.bolus;
+      return {
+        ...day,
+        basal: round(day.basal),
+        bolus: round(day.bolus),
+        correction: round(day.correction),
+        total: round(total),
+        basalPercent: total > 0 ? Math.round((day.basal / total) * 100) : 0,
+      };
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+};
+
+/**
+ * Meal boluses with the readings before and after them
+ */
+export const getMealBolusOutcomes = (log: InsulinLogEntry[], readings: BloodGlucoseReading[]): MealBolusOutcome[] =>
+  sortLog(log).flatMap(entry => {
+    const mealUnits = entry.units - (entry.correctionUnits || 0);
+    if (entry.type !== 'bolus' || !entry.carbs || mealUnits <= 0) return [];
+
+    const doseTime = timestamp(entry);
+    const before = readings.find(reading => reading.id === entry.glucoseReadingId) || findLinkedReading(entry, readings);
+    const after = readings
+      .filter(reading => {
+        const minutes = (timestamp(reading) - doseTime) / MINUTE;
+        return minutes >= AFTER_MEAL_MINUTES.from && minutes <= AFTER_MEAL_MINUTES.to;
+      })
+      .sort((a, b) => timestamp(a) - timestamp(b))[0];
+
+    return [{ entry, ratio: round(entry.carbs / mealUnits), before: before?.value, after: after?.value }];
+  });
+
+/**
+ * How well each meal's insulin-to-carb ratio has worked. Meals are judged by
+ * the reading two to four hours after the bolus. The review points at meals
+ * to discuss with the diabetes team; it does not suggest new doses.
+ */
+export const reviewCarbRatios = (log: InsulinLogEntry[], readings: BloodGlucoseReading[]): CarbRatioReview[] => {
+  const groups = new Map<CarbRatioReview['mealTag'], MealBolusOutcome[]>();
+  getMealBolusOutcomes(log, readings).forEach(outcome => {
+    const tag = outcome.entry.mealTag || 'untagged';
+    groups.set(tag, [...(groups.get(tag) || []), outcome]);
+  });
+
+  const order = [...MEAL_TAGS, 'untagged'];
+  return [...groups.entries()]
+    .sort(([a], [b]) => order.indexOf(a) - order.indexOf(b))
+    .map(([mealTag, outcomes]) => {
+      const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+      const withAfter = outcomes.filter(outcome => outcome.after !== undefined);
+      const rises = withAfter
+        .filter(outcome => outcome.before !== undefined)
+        .map(outcome => outcome.after! - outcome.before!);
+      const averageRise = rises.length > 0 ? Math.round(average(rises)) : undefined;
+
+      let outcome: CarbRatioReview['outcome'] = 'insufficient';
+      if (withAfter.length >= MIN_MEALS_FOR_REVIEW) {
+        if (withAfter.some(meal => meal.after! < LOW_AFTER)) outcome = 'low-after';
+        else if (averageRise !== undefined && averageRise > HIGH_RISE) outcome = 'high-after';
+        else outcome = 'on-target';
+      }
+
+      return {
+        mealTag,
+        meals: outcomes.length,
+        averageRatio: round(average(outcomes.map(meal => meal.ratio))),
+        averageRise,
+        outcome,
+        outcomes,
+      };
+    });
+};
+
+export const formatCarbRatio = (gramsPerUnit: number): string => `1:${gramsPerUnit}`;
@@ -0,0 +1,580 @@
+/**
+ * Lab Results Service
+ *
+ * A catalogue of the lab tests families track most (glucose and HbA1c, lipid
+ * panel, thyroid, kidney and liver function, CBC, vitamins) keyed by LOINC
+ * code. Results from documents and manual entry are matched to the catalogue
+ * by name, converted to the test's canonical unit and flagged against a
+ * reference range for the patient's age and sex.
+ *
+ * Tests that are not in the catalogue are kept as "custom:<name>" results in
+ * the unit they were reported in, so they still trend but never mix units.
+ */
+
+import type { Document, LabFlag, LabReferenceRange, LabResult, Patient } from '../types';
+import { extractMedicalData } from './ocrService';
+
+export type LabPanel = 'diabetes' | 'lipid' | 'thyroid' | 'kidney' | 'liver' | 'cbc' | 'vitamins';
+
+interface RangeRule {
+  low?: number;
+  high?: number;
+  sex?: 'male' | 'female';
+  minAge?: number; // Inclusive, in years
+  maxAge?: number; // Exclusive, in years
+}
+
+export interface LabTestDefinition {
+  code: string; // LOINC
+  name: string;
+  panel: LabPanel;
+  unit: string; // Canonical unit every result is stored in
+  decimals: number;
+  aliases: string[];
+  // Other units the test is reported in, keyed by unitKey(), converted to `unit`
+  conversions?: Record<string, (value: number) => number>;
+  // The first rule matching the patient applies, so specific rules come first
+  ranges: RangeRule[];
+  critical?: { low?: number; high?: number };
+}
+
+export interface LabResultInput {
+  name: string; // Test name as written on the report
+  value: number | string;
+  unit?: string;
+  date: string;
+  reference?: string; // Printed reference range ("70-100", "<200") or flag ("High")
+  source?: LabResult['source'];
+  recordId?: string;
+  documentId?: string;
+  notes?: string;
+}
+
+export interface LabTrend {
+  testCode: string;
+  name: string;
+  unit: string;
+  panel?: LabPanel;
+  results: LabResult[]; // Oldest first
+  latest: LabResult;
+  previous?: LabResult;
+  change?: number; // latest - previous
+  direction: 'up' | 'down' | 'stable';
+}
+
+export const LAB_PANELS: Record<LabPanel, string> = {
+  diabetes: 'Diabetes',
+  lipid: 'Lipid profile',
+  thyroid: 'Thyroid',
+  kidney: 'Kidney function',
+  liver: 'Liver function',
+  cbc: 'Complete blood count',
+  vitamins: 'Vitamins',
+};
+
+const scale = (factor: number) => (value: number) => value * factor;
+
+export const LAB_TESTS: LabTestDefinition[] = [
+  {
+    code: '4548-4',
+    name: 'HbA1c',
+    panel: 'diabetes',
+    unit: '%',
+    decimals: 1,
+    aliases: ['hba1c', 'hb a1c', 'a1c', 'glycated hemoglobin', 'glycated haemoglobin', 'glycosylated hemoglobin', 'glycosylated haemoglobin'],
+    // IFCC mmol/mol to NGSP %
+    conversions: { 'mmol/mol': value => value * 0.09148 + 2.152 },
+    ranges: [{ low: 4, high: 5.6 }],
+    critical: { high: 14 },
+  },
+  {
+    code: '1558-6',
+    name: 'Fasting glucose',
+    panel: 'diabetes',
+    unit: 'mg/dL',
+    decimals: 0,
+    aliases: ['fasting glucose', 'fasting blood sugar', 'fbs', 'fasting plasma glucose', 'fpg', 'glucose fasting', 'blood sugar fasting', 'fasting blood glucose'],
+    conversions: { 'mmol/l': scale(18.016) },
+    ranges: [{ low: 70, high: 99 }],
+    critical: { low: 40, high: 450 },
+  },
+  {
+    code: '1521-4',
+    name: 'Post-prandial glucose',
+    panel: 'diabetes',
+    unit: 'mg/dL',
+    decimals: 0,
+    aliases: ['post prandial glucose', 'postprandial glucose', 'post prandial blood sugar', 'postprandial blood sugar', 'ppbs', 'pp glucose', 'ppbs 2 hrs', 'glucose pp'],
+    conversions: { 'mmol/l': scale(18.016) },
+    ranges: [{ low: 70, high: 139 }],
+    critical: { low: 40, high: 450 },
+  },
+  {
+    code: '2345-7',
+    name: 'Random glucose',
+    panel: 'diabetes',
+    unit: 'mg/dL',
+    decimals: 0,
+    aliases: ['random glucose', 'random blood sugar', 'rbs', 'glucose random', 'glucose', 'blood glucose', 'blood sugar'],
+    conversions: { 'mmol/l': scale(18.016) },
+    ranges: [{ low: 70, high: 139 }],
+    critical: { low: 40, high: 450 },
+  },
+  {
+    code: '2093-3',
+    name: 'Total cholesterol',
+    panel: 'lipid',
+    unit: 'mg/dL',
+    decimals: 0,
+    aliases: ['total cholesterol', 'cholesterol', 'cholesterol total', 'serum cholesterol'],
+    conversions: { 'mmol/l': scale(38.67) },
+    ranges: [{ high: 199 }],
+  },
+  {
+    code: '2089-1',
+    name: 'LDL cholesterol',
+    panel: 'lipid',
+    unit: 'mg/dL',
+    decimals: 0,
+    aliases: ['ldl', 'ldl cholesterol', 'ldl c', 'ldl cholesterol direct', 'ldl calculated', 'ldl cholesterol calculated', 'low density lipoprotein'],
+    conversions: { 'mmol/l': scale(38.67) },
+    ranges: [{ high: 99 }],
+  },
+  {
+    code: '2085-9',
+    name: 'HDL cholesterol',
+    panel: 'lipid',
+    unit: 'mg/dL',
+    decimals: 0,
+    aliases: ['hdl', 'hdl cholesterol', 'hdl c', 'hdl cholesterol direct', 'high density lipoprotein'],
+    conversions: { 'mmol/l': scale(38.67) },
+    ranges: [{ low: 40, sex: 'male' }, { low: 50, sex: 'female' }, { low: 40 }],
+  },
+  {
+    code: '2571-8',
+    name: 'Triglycerides',
+    panel: 'lipid',
+    unit: 'mg/dL',
+    decimals: 0,
+    aliases: ['triglycerides', 'triglyceride', 'tg', 'serum triglycerides'],
+    conversions: { 'mmol/l': scale(88.57) },
+    ranges: [{ high: 149 }],
+    critical: { high: 1000 },
+  },
+  {
+    code: '3016-3',
+    name: 'TSH',
+    panel: 'thyroid',
+    unit: 'mIU/L',
+    decimals: 2,
+    aliases: ['tsh', 'thyroid stimulating hormone', 'tsh ultrasensitive', 'tsh 3rd generation'],
+    conversions: { 'uiu/ml': scale(1) },
+    ranges: [{ low: 0.7, high: 6.4, maxAge: 18 }, { low: 0.4, high: 4.0 }],
+  },
+  {
+    code: '3024-7',
+    name: 'Free T4',
+    panel: 'thyroid',
+    unit: 'ng/dL',
+    decimals: 2,
+    aliases: ['free t4', 'ft4', 'free thyroxine'],
+    conversions: { 'pmol/l': scale(1 / 12.87) },
+    ranges: [{ low: 0.8, high: 1.8 }],
+  },
+  {
+    code: '2160-0',
+    name: 'Creatinine',
+    panel: 'kidney',
+    unit: 'mg/dL',
+    decimals: 2,
+    aliases: ['creatinine', 'creat'],
+    conversions: { 'umol/l': scale(1 / 88.42) },
+    ranges: [
+      { low: 0.3, high: 0.7, maxAge: 18 },
+      { low: 0.74, high: 1.35, sex: 'male' },
+      { low: 0.59, high: 1.04, sex: 'female' },
+      { low: 0.59, high: 1.35 },
+    ],
+    critical: { high: 10 },
+  },
+  {
+    code: '3091-6',
+    name: 'Urea',
+    panel: 'kidney',
+    unit: 'mg/dL',
+    decimals: 0,
+    aliases: ['urea', 'blood urea'],
+    conversions: { 'mmol/l': scale(6.006) },
+    ranges: [{ low: 15, high: 40 }],
+  },
+  {
+    code: '1742-6',
+    name: 'ALT (SGPT)',
+    panel: 'liver',
+    unit: 'U/L',
+    decimals: 0,
+    aliases: ['alt', 'sgpt', 'alt sgpt', 'sgpt alt', 'alanine aminotransferase', 'alanine transaminase'],
+    conversions: { 'iu/l': scale(1) },
+    ranges: [{ high: 40 }],
+  },
+  {
+    code: '1920-8',
+    name: 'AST (SGOT)',
+    panel: 'liver',
+    unit: 'U/L',
+    decimals: 0,
+    aliases: ['ast', 'sgot', 'ast sgot', 'sgot ast', 'aspartate aminotransferase', 'aspartate transaminase'],
+    conversions: { 'iu/l': scale(1) },
+    ranges: [{ high: 40 }],
+  },
+  {
+    code: '718-7',
+    name: 'Hemoglobin',
+    panel: 'cbc',
+    unit: 'g/dL',
+    decimals: 1,
+    aliases: ['hemoglobin', 'haemoglobin', 'hb', 'hgb'],
+    conversions: { 'g/l': scale(0.1) },
+    ranges: [
+      { low: 11, high: 14.5, maxAge: 12 },
+      { low: 13, high: 17, sex: 'male' },
+      { low: 12, high: 15.5, sex: 'female' },
+      { low: 12, high: 17 },
+    ],
+    critical: { low: 7, high: 20 },
+  },
+  {
+    code: '6690-2',
+    name: 'White blood cells',
+    panel: 'cbc',
+    unit: '10^3/µL',
+    decimals: 1,
+    aliases: ['wbc', 'wbc count', 'total wbc count', 'white blood cells', 'total leucocyte count', 'total leukocyte count', 'tlc'],
+    conversions: { '10^9/l': scale(1), '/ul': scale(0.001), 'cells/ul': scale(0.001) },
+    ranges: [{ low: 4, high: 11 }],
+    critical: { low: 2, high: 30 },
+  },
+  {
+    code: '777-3',
+    name: 'Platelets',
+    panel: 'cbc',
+    unit: '10^3/µL',
+    decimals: 0,
+    aliases: ['platelets', 'platelet count', 'plt'],
+    conversions: { '10^9/l': scale(1), '/ul': scale(0.001), 'cells/ul': scale(0.001), 'lakh/ul': scale(100) },
+    ranges: [{ low: 150, high: 450 }],
+    critical: { low: 50, high: 1000 },
+  },
+  {
+    code: '789-8',
+    name: 'Red blood cells',
+    panel: 'cbc',
+    unit: '10^6/µL',
+    decimals: 2,
+    aliases: ['rbc', 'rbc count', 'total rbc count', 'red blood cells'],
+    conversions: { '10^12/l': scale(1), 'million/ul': scale(1), 'mill/ul': scale(1) },
+    ranges: [
+      { low: 4.5, high: 5.9, sex: 'male' },
+      { low: 4.1, high: 5.1, sex: 'female' },
+      { low: 4.1, high: 5.9 },
+    ],
+  },
+  {
+    code: '1989-3',
+    name: 'Vitamin D (25-OH)',
+    panel: 'vitamins',
+    unit: 'ng/mL',
+    decimals: 1,
+    aliases: ['vitamin d', 'vit d', 'vitamin d3', '25 oh vitamin d', '25 hydroxy vitamin d', '25 oh d', 'vitamin d 25 hydroxy'],
+    conversions: { 'nmol/l': scale(1 / 2.496) },
+    ranges: [{ low: 30, high: 100 }],
+  },
+  {
+    code: '2132-9',
+    name: 'Vitamin B12',
+    panel: 'vitamins',
+    unit: 'pg/mL',
+    decimals: 0,
+    aliases: ['vitamin b12', 'vit b12', 'b12', 'cobalamin'],
+    conversions: { 'pmol/l': scale(1.355) },
+    ranges: [{ low: 200, high: 900 }],
+  },
+];
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const TESTS_BY_ALIAS = new Map<string, LabTestDefinition>(
+  LAB_TESTS.flatMap(test => [test.name, ...test.aliases].map(alias => [normalizeName(alias), test] as const))
+);
+
+// Specimen prefixes labs put in front of test names ("S. Creatinine")
+const SPECIMEN_PREFIX = /^(?:s|serum|plasma|blood|p)\s+/;
+
+/**
+ * Comparable form of a unit: lower case, ASCII, no spaces, with cubic
+ * millimetres written as microlitres (1 mm³ = 1 µL)
+ */
+export const unitKey = (unit: string) =>
+  unit
+    .toLowerCase()
+    .replace(/[µμ]/g, 'u')
+    .replace(/mcg/g, 'ug')
+    .replace(/\s+/g, '')
+    .replace(/³/g, '^3')
+    .replace(/⁶/g, '^6')
+    .replace(/^[x×*](?=10)/, '')
+    .replace(/(?:cumm|cmm|mm\^?3)$/, 'ul')
+    .replace(/lakhs?/, 'lakh')
+    .replace(/millions?/, 'million')
+    .replace(/^thou\/ul$/, '10^3/ul');
+
+export const getLabTest = (code: string) => LAB_TESTS.find(test => test.code === code);
+
+/**
+ * Match a test name as written on a report to the catalogue
+ */
+export const findLabTest = (name: string): LabTestDefinition | undefined => {
+  const normalized = normalizeName(name);
+  const withoutParentheses = normalizeName(name.replace(/\([^)]*\)/g, ' '));
+
+  for (const candidate of [normalized, withoutParentheses]) {
+    const test = TESTS_BY_ALIAS.get(candidate) || TESTS_BY_ALIAS.get(candidate.replace(SPECIMEN_PREFIX, ''));
+    if (test) return test;
+  }
+  return undefined;
+};
+
+/**
+ * Convert a value to the test's canonical unit. A missing unit is taken to be
+ * canonical; null means the unit is not one the test is reported in.
+ */
+export const convertToCanonicalUnit = (test: LabTestDefinition, value: number, unit?: string): number | null => {
+  const key = unitKey(unit || '');
+  if (!key || key === unitKey(test.unit)) return value;
+  const convert = test.conversions?.[key];
+  return convert ? convert(value) : null;
+};
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const ageAt = (dateOfBirth: string, date: string): number | undefined => {
+  const birth = new Date(dateOfBirth);
+  const on = new Date(date);
+  if (isNaN(birth.getTime()) || isNaN(on.getTime())) return undefined;
+
+  let age = on.getFullYear() - birth.getFullYear();
+  const monthDiff = on.getMonth() - birth.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && on.getDate() < birth.getDate())) {
+    age--;
+  }
+  return age;
+};
+
+/**
+ * The catalogue reference range for a patient's age and sex on a given date
+ */
+export const getReferenceRange = (
+  test: LabTestDefinition,
+  patient?: Pick<Patient, 'dateOfBirth' | 'gender'>,
+  date: string = new Date().toISOString()
+): LabReferenceRange | undefined => {
+  const age = patient?.dateOfBirth ? ageAt(patient.dateOfBirth, date) : undefined;
+  const sex = patient?.gender === 'male' || patient?.gender === 'female' ? patient.gender : undefined;
+
+  const rule = test.ranges.find(range =>
+    (!range.sex || range.sex === sex) &&
+    (range.minAge === undefined || (age !== undefined && age >= range.minAge)) &&
+    (range.maxAge === undefined || (age !== undefined && age < range.maxAge))
+  );
+  if (!rule) return undefined;
+
+  const { low, high } = rule;
+  return {
+    low,
+    high,
+    text: low !== undefined && high !== undefined ? `${low}-${high}` : high !== undefined ? `<${high}` : `>${low}`,
+  };
+};
+
+/**
+ * Parse a printed reference range: "70-100", "70 - 100", "<200", "> 40"
+ */
+export const parseReferenceRange = (reference: string): LabReferenceRange | undefined => {
+  const text = reference.trim();
+  const between = text.match(/^(\d+(?:\.\d+)?)\s*[-–]\s*(\d+(?:\.\d+)?)$/);
+  if (between) return { low: parseFloat(between[1]), high: parseFloat(between[2]), text };
+
+  const bound = text.match(/^([<>])\s*=?\s*(\d+(?:\.\d+)?)$/);
+  if (bound) return bound[1] === '<' ? { high: parseFloat(bound[2]), text } : { low: parseFloat(bound[2]), text };
+
+  return undefined;
+};
+
+export const flagLabValue = (
+  value: number,
+  range?: LabReferenceRange,
+  critical?: LabTestDefinition['critical']
+): LabFlag | undefined => {
+  if (critical?.low !== undefined && value < critical.low) return 'critical-low';
+  if (critical?.high !== undefined && value > critical.high) return 'critical-high';
+  if (!range) return undefined;
+  if (range.low !== undefined && value < range.low) return 'low';
+  if (range.high !== undefined && value > range.high) return 'high';
+  return 'normal';
+};
+
+export const isOutOfRange = (result: LabResult) => !!result.flag && result.flag !== 'normal';
+
+/**
+ * Build a lab result from a reported value: match the test, convert to the
+ * canonical unit and flag it. Returns null when the value is not a number.
+ */
+export const createLabResult = (
+  input: LabResultInput,
+  patient?: Pick<Patient, 'dateOfBirth' | 'gender'>
+): LabResult | null => {
+  const reported = typeof input.value === 'number' ? input.value : parseFloat(String(input.value).replace(/,/g, ''));
+  if (!Number.isFinite(reported)) return null;
+
+  const test = findLabTest(input.name);
+  const converted = test ? convertToCanonicalUnit(test, reported, input.unit) : null;
+  const printedRange = input.reference ? parseReferenceRange(input.reference) : undefined;
+  const printedFlag = input.reference?.match(/^\s*(high|h|low|l)\s*$/i)?.[1].toLowerCase();
+
+  const base = {
+    id: `lab-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    date: input.date,
+    source: input.source || 'manual',
+    ...(input.recordId && { recordId: input.recordId }),
+    ...(input.documentId && { documentId: input.documentId }),
+    ...(input.notes && { notes: input.notes }),
+  };
+
+  if (test && converted !== null) {
+    const isConverted = !!input.unit && unitKey(input.unit) !== unitKey(test.unit);
+    // The lab's own printed range wins over the catalogue's population range
+    const referenceRange = printedRange
+      ? {
+          ...printedRange,
+          low: printedRange.low !== undefined ? round(convertToCanonicalUnit(test, printedRange.low, input.unit)!, test.decimals + 1) : undefined,
+          high: printedRange.high !== undefined ? round(convertToCanonicalUnit(test, printedRange.high, input.unit)!, test.decimals + 1) : undefined,
+        }
+      : getReferenceRange(test, patient, input.date);
+    const value = round(converted, test.decimals);
+
+    return {
+      ...base,
+      testCode: test.code,
+      name: test.name,
+      value,
+      unit: test.unit,
+      ...(isConverted && { reportedValue: `${reported} ${input.unit}` }),
+      ...(referenceRange && { referenceRange }),
+      flag: flagLabValue(value, referenceRange, test.critical),
+    };
+  }
+
+  const name = input.name.trim();
+  const flag = printedRange
+    ? flagLabValue(reported, printedRange)
+    : printedFlag ? (printedFlag.startsWith('h') ? 'high' : 'low') : undefined;
+
+  return {
+    ...base,
+    testCode: `custom:${normalizeName(name)}`,
+    name,
+    value: reported,
+    unit: input.unit?.trim() || '',
+    ...(printedRange && { referenceRange: printedRange }),
+    ...(flag && { flag }),
+  };
+};
+
+/**
+ * Lab results from the text already read from a visit's documents. Results
+ * are dated to the visit so trends line up with the timeline.
+ */
+export const labResultsFromDocuments = (
+  documents: Document[],
+  visit: { date: string; recordId?: string },
+  patient?: Pick<Patient, 'dateOfBirth' | 'gender'>
+): LabResult[] =>
+  documents.flatMap(document =>
+    (document.content ? extractMedicalData(document.content).labResults || [] : [])
+      .map(lab => createLabResult({
+        name: lab.test,
+        value: lab.value,
+        unit: lab.unit,
+        reference: lab.reference,
+        date: visit.date,
+        source: 'document',
+        recordId: visit.recordId,
+        documentId: document.id,
+      }, patient))
+      .filter((result): result is LabResult => result !== null)
+  );
+
+const sameResult = (a: LabResult, b: LabResult) =>
+  a.testCode === b.testCode && a.date.slice(0, 10) === b.date.slice(0, 10) && a.value === b.value;
+
+/**
+ * Add new results, skipping ones already recorded (same test, day and value),
+ * so reading a document again does not duplicate its results
+ */
+export const mergeLabResults = (existing: LabResult[], incoming: LabResult[]): LabResult[] =>
+  incoming.reduce(
+    (merged, result) => (merged.some(current => sameResult(current, result)) ? merged : [...merged, result]),
+    existing
+  );
+
+const byDate = (a: LabResult, b: LabResult) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+/**
+ * One trend per test, ordered by catalogue panel and then by name
+ */
+export const getLabTrends = (results: LabResult[]): LabTrend[] => {
+  const groups = new Map<string, LabResult[]>();
+  results.forEach(result => groups.set(result.testCode, [...(groups.get(result.testCode) || []), result]));
+
+  const panelOrder = Object.keys(LAB_PANELS);
+  return [...groups.entries()]
+    .map(([testCode, group]) => {
+      const sorted = [...group].sort(byDate);
+      const latest = sorted[sorted.length - 1];
+      const previous = sorted.length > 1 ? sorted[sorted.length - 2] : undefined;
+      const test = getLabTest(testCode);
+      const change = previous ? round(latest.value - previous.value, (test?.decimals ?? 2) + 1) : undefined;
+
+      return {
+        testCode,
+        name: latest.name,
+        unit: latest.unit,
+        panel: test?.panel,
+        results: sorted,
+        latest,
+        previous,
+        change,
+        direction: change === undefined || change === 0 ? 'stable' : change > 0 ? 'up' : 'down',
+      } as LabTrend;
+    })
+    .sort((a, b) => {
+      const panelA = a.panel ? panelOrder.indexOf(a.panel) : panelOrder.length;
+      const panelB = b.panel ? panelOrder.indexOf(b.panel) : panelOrder.length;
+      return panelA - panelB || a.name.localeCompare(b.name);
+    });
+};
+
+const FLAG_SEVERITY: Record<LabFlag, number> = { 'critical-low': 0, 'critical-high': 0, low: 1, high: 1, normal: 2 };
+
+/**
+ * The latest result of each test when it is out of range, critical first
+ */
+export const getOutOfRangeResults = (results: LabResult[]): LabResult[] =>
+  getLabTrends(results)
+    .map(trend => trend.latest)
+    .filter(isOutOfRange)
+    .sort((a, b) => FLAG_SEVERITY[a.flag!] - FLAG_SEVERITY[b.flag!] || byDate(b, a));
@@ -1,4 +1,49 @@
 import { MedicalRecord, Document, Medication } from '../types';
+import { recognizeImage, ocrDocument, OCR_ENGINE, type OcrOptions } from './ocrService';
+import { extractPdfText } from './pdfTextService';
+
+export type NoteSectionKind =
+  | 'complaints'
+  | 'history'
+  | 'examination'
+  | 'vitals'
+  | 'investigations'
+  | 'diagnoses'
+  | 'prescriptions'
+  | 'notes'
+  | 'followUp'
+  | 'text'; // lines before the first header
+
+/**
+ * A range of the parsed text as character offsets, end exclusive
+ */
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
+export interface NoteItem extends SourceSpan {
+  text: string;
+}
+
+/**
+ * The lines of a note under one header, split into items: one per line,
+ * list entry or ";"-separated part
+ */
+export interface NoteSection extends SourceSpan {
+  kind: NoteSectionKind;
+  header?: string;
+  items: NoteItem[];
+}
+
+export interface ParsedMedicalSources {
+  chiefComplaints: SourceSpan[];
+  investigations: SourceSpan[];
+  diagnoses: SourceSpan[];
+  prescriptions: SourceSpan[];
+  notes: SourceSpan[];
+  followUp?: SourceSpan;
+}
 
 export interface ParsedMedicalData {
   chiefComplaints: string[];
@@ -10,11 +55,16 @@ export interface ParsedMedicalData {
     bloodPressure?: string;
     heartRate?: string;
     temperature?: string;
+    respiratoryRate?: string;
+    oxygenSaturation?: string;
     weight?: string;
     height?: string;
   };
   followUp?: string;
   urgency: 'low' | 'medium' | 'high';
+  // Where each item was found in the parsed text, index for index with the
+  // lists above. Merged data from several texts has no sources.
+  sources?: ParsedMedicalSources;
 }
 
 export interface VisitOverview {
@@ -31,104 +81,225 @@ export interface VisitOverview {
   redFlags: string[];
 }
 
+// A section header at the start of a line, followed by ":", "-", "." or the
+// end of the line; `bare` is what else may follow it ("Rx Tab. Dolo 650")
+const sectionHeader = (names: string, bare?: string) =>
+  new RegExp(`^(${names})(?:\\s*[:\\-–]+\\s*|\\.(?:\\s+|$)|\\s*$${bare ? `|${bare}` : ''})`, 'i');
+
 export class MedicalRecordParser {
   // Patterns for extracting medical information
   private static readonly PATTERNS = {
-    // Chief complaints patterns
-    chiefComplaint: [
-      /c\/c\s*:?\s*([^\n]+)/i,
-      /chief complaint\s*:?\s*([^\n]+)/i,
-      /presenting complaint\s*:?\s*([^\n]+)/i,
-      /patient presents with\s*([^\n]+)/i,
-      /complains of\s*([^\n]+)/i
-    ],
-
-    // Investigations patterns
-    investigation: [
-      /ix\s*:?\s*([^\n]+)/i,
-      /investigations?\s*:?\s*([^\n]+)/i,
-      /labs?\s*:?\s*([^\n]+)/i,
-      /tests?\s*:?\s*([^\n]+)/i,
-      /diagnostic\s*:?\s*([^\n]+)/i
-    ],
-
-    // Diagnoses patterns
-    diagnosis: [
-      /d\/dx\s*:?\s*([^\n]+)/i,
-      /diagnosis\s*:?\s*([^\n]+)/i,
-      /diagnoses?\s*:?\s*([^\n]+)/i,
-      /assessment\s*:?\s*([^\n]+)/i,
-      /impression\s*:?\s*([^\n]+)/i
-    ],
-
-    // Prescriptions patterns
-    prescription: [
-      /r\/x\s*:?\s*([^\n]+)/i,
-      /prescription\s*:?\s*([^\n]+)/i,
-      /rx\s*:?\s*([^\n]+)/i,
-      /medications?\s*:?\s*([^\n]+)/i,
-      /treatment\s*:?\s*([^\n]+)/i
-    ],
+    // Section headers as they are written in notes, most specific first
+    sections: [
+      { kind: 'complaints', pattern: sectionHeader('c\\/c|c\\/o|(?:chief|presenting)\\s+complaints?|complaints?') },
+      { kind: 'history', pattern: sectionHeader('h\\/o|hpi|history\\s+of\\s+present(?:ing)?\\s+illness|past\\s+(?:medical\\s+)?history|history') },
+      { kind: 'examination', pattern: sectionHeader('o\\/e|on\\s+examination|examination|exam|findings') },
+      { kind: 'vitals', pattern: sectionHeader('vitals?|bp|pulse|pr|hr|rr|spo2|temp(?:erature)?|wt|weight|ht|height', '\\s+(?=\\d)') },
+      { kind: 'investigations', pattern: sectionHeader('ix|inv|investigations?|lab\\s+tests?|labs?|tests?|diagnostics?') },
+      { kind: 'diagnoses', pattern: sectionHeader('d\\/dx|dx|(?:provisional|final)\\s+diagnos[ie]s|diagnos[ie]s|impression|assessment') },
+      { kind: 'prescriptions', pattern: sectionHeader('r\\/?x|℞', '\\s+') },
+      { kind: 'prescriptions', pattern: sectionHeader('prescriptions?|medications?|meds|treatment|tx') },
+      { kind: 'notes', pattern: sectionHeader('notes?|advice|adv|plan|remarks|instructions') },
+      { kind: 'followUp', pattern: sectionHeader('follow[-\\s]?up|f\\/u|review|next\\s+visit') },
+    ] as Array<{ kind: NoteSectionKind; pattern: RegExp }>,
+
+    // "1.", "2)", "-", "•" at the start of a list item
+    listMarker: /^(?:\d{1,2}\s*[.)](?!\d)\s*|[•●▪]\s*|[-–*]\s+)/,
+
+    // Complaints written as prose outside a C/C section
+    complaintPhrase: /\b(?:complains of|patient presents with)\s*(.+)$/i,
 
     // Vitals patterns
     vitals: {
-      bloodPressure: /bp\s*:?\s*(\d{2,3}\/\d{2,3})/i,
-      heartRate: /hr\s*:?\s*(\d{2,3})\s*bpm/i,
-      temperature: /temp\s*:?\s*(\d{2,3}\.\d)/i,
-      weight: /wt\s*:?\s*(\d{2,3})\s*kg/i,
-      height: /ht\s*:?\s*(\d{2,3})\s*cm/i
-    },
-
-    // Follow-up patterns
-    followUp: [
-      /follow[-\s]?up\s*:?\s*([^\n]+)/i,
-      /review\s*:?\s*([^\n]+)/i,
-      /next visit\s*:?\s*([^\n]+)/i
-    ]
+      bloodPressure: /\bbp\s*[:-]?\s*(\d{2,3}\s*\/\s*\d{2,3})/i,
+      heartRate: /\b(?:hr|pr|pulse(?:\s+rate)?)\s*[:-]?\s*(\d{2,3})\s*(?:bpm|b\/min|\/\s*min)?/i,
+      temperature: /\btemp(?:erature)?\s*[:-]?\s*(\d{2,3}(?:\.\d+)?\s*°?\s*[fc]?)\b/i,
+      respiratoryRate: /\b(?:rr|resp(?:iratory)?\s+rate)\s*[:-]?\s*(\d{1,2})\b/i,
+      oxygenSaturation: /\bspo2\s*[:-]?\s*(\d{2,3})\s*%?/i,
+      weight: /\b(?:wt|weight)\s*[:-]?\s*(\d{1,3}(?:\.\d+)?\s*(?:kgs?|lbs?)?)/i,
+      height: /\b(?:ht|height)\s*[:-]?\s*(\d{2,3}(?:\.\d+)?\s*(?:cm|in)?)/i
+    }
   };
 
   /**
-   * Parse medical record text and extract structured data
+   * Parse medical record text and extract structured data. Each item keeps
+   * the span of text it came from in `sources`.
    */
-  static parseMedicalRecord(text: string): ParsedMedicalData {
+  static parseMedicalRecord(text: string, visitDate?: string): ParsedMedicalData {
+    const sources: ParsedMedicalSources = {
+      chiefComplaints: [],
+      investigations: [],
+      diagnoses: [],
+      prescriptions: [],
+      notes: []
+    };
     const result: ParsedMedicalData = {
       chiefComplaints: [],
       investigations: [],
       diagnoses: [],
       prescriptions: [],
       notes: [],
-      urgency: 'medium'
+      urgency: 'medium',
+      sources
     };
 
-    // Extract chief complaints
-    result.chiefComplaints = this.extractMultiplePatterns(text, this.PATTERNS.chiefComplaint);
-
-    // Extract investigations
-    result.investigations = this.extractMultiplePatterns(text, this.PATTERNS.investigation);
+    const add = (field: 'chiefComplaints' | 'investigations' | 'diagnoses' | 'notes', value: string, span: SourceSpan) => {
+      if (!value || result[field].includes(value)) return;
+      result[field].push(value);
+      sources[field].push({ start: span.start, end: span.end });
+    };
+    const prescriptionLines = new Set<string>();
+    const addPrescription = (item: NoteItem): boolean => {
+      const medication = this.parsePrescriptionLine(item.text, visitDate);
+      if (!medication) return false;
+      if (!prescriptionLines.has(item.text.toLowerCase())) {
+        prescriptionLines.add(item.text.toLowerCase());
+        result.prescriptions.push(medication);
+        sources.prescriptions.push({ start: item.start, end: item.end });
+      }
+      return true;
+    };
+    const formPrefix = new RegExp(`^(?:${Object.keys(this.DOSAGE_FORMS).join('|')})\\b\\.?\\s`, 'i');
+    const freeText: NoteItem[] = [];
+
+    for (const section of this.tokenizeNote(text)) {
+      for (const item of section.items) {
+        // Medication lines outside the Rx section still start with a dosage form
+        if (section.kind === 'prescriptions' || formPrefix.test(item.text)) {
+          if (!addPrescription(item)) add('notes', item.text, item);
+          continue;
+        }
 
-    // Extract diagnoses
-    result.diagnoses = this.extractMultiplePatterns(text, this.PATTERNS.diagnosis);
+        switch (section.kind) {
+          case 'complaints':
+            add('chiefComplaints', item.text, item);
+            break;
+          case 'investigations':
+            add('investigations', item.text, item);
+            break;
+          case 'diagnoses':
+            add('diagnoses', item.text, item);
+            break;
+          case 'followUp':
+            if (!result.followUp) {
+              result.followUp = item.text;
+              sources.followUp = { start: item.start, end: item.end };
+            }
+            break;
+          case 'notes':
+            add('notes', item.text, item);
+            break;
+          case 'history':
+          case 'examination':
+            add('notes', `${section.header}: ${item.text}`, item);
+            break;
+          case 'text':
+            freeText.push(item);
+            break;
+        }
+      }
+    }
 
-    // Extract and parse prescriptions
-    const prescriptionTexts = this.extractMultiplePatterns(text, this.PATTERNS.prescription);
-    result.prescriptions = this.parsePrescriptions(prescriptionTexts);
+    // Complaints written as prose, and the first few lines of free text as notes
+    for (const item of freeText) {
+      const complaint = item.text.match(this.PATTERNS.complaintPhrase);
+      if (complaint) {
+        const start = item.end - complaint[1].length;
+        add('chiefComplaints', complaint[1], { start, end: item.end });
+      }
+    }
+    freeText
+      .filter(item => item.text.length > 10 && !/^\d+\.?$/.test(item.text)) // Skip page numbers
+      .slice(0, 5)
+      .forEach(item => add('notes', item.text, item));
 
     // Extract vitals
     result.vitals = this.extractVitals(text);
 
-    // Extract follow-up
-    const followUpTexts = this.extractMultiplePatterns(text, this.PATTERNS.followUp);
-    result.followUp = followUpTexts[0];
-
     // Determine urgency based on content
     result.urgency = this.determineUrgency(result);
 
-    // Extract remaining notes
-    result.notes = this.extractNotes(text);
-
     return result;
   }
 
+  /**
+   * Split a note into sections by header. A section keeps every line up to
+   * the next header; text on the header line is its first item. Numbered and
+   * bulleted list entries become items without their markers, and an
+   * indented line under a list entry continues it.
+   */
+  static tokenizeNote(text: string): NoteSection[] {
+    const sections: NoteSection[] = [];
+    let section: NoteSection | undefined;
+    let listIndent: number | undefined;
+    let offset = 0;
+
+    // Items of one line (or what follows a header), split on ";"
+    const addItems = (content: string, start: number) => {
+      let position = start;
+      for (const part of content.split(';')) {
+        const value = part.trim();
+        if (value) {
+          const itemStart = position + part.indexOf(value);
+          section!.items.push({ text: value, start: itemStart, end: itemStart + value.length });
+        }
+        position += part.length + 1;
+      }
+    };
+    const addLine = (content: string, start: number, indent: number) => {
+      const marker = content.match(this.PATTERNS.listMarker);
+      const lastItem = section!.items[section!.items.length - 1];
+      if (marker) {
+        listIndent = indent;
+        addItems(content.slice(marker[0].length), start + marker[0].length);
+      } else if (listIndent !== undefined && indent > listIndent && lastItem) {
+        lastItem.text = `${lastItem.text} ${content}`;
+        lastItem.end = start + content.length;
+      } else {
+        listIndent = undefined;
+        addItems(content, start);
+      }
+    };
+
+    for (const line of text.split('\n')) {
+      const lineStart = offset;
+      offset += line.length + 1;
+
+      const content = line.trim();
+      if (!content) continue;
+      const indent = line.length - line.trimStart().length;
+      const start = lineStart + indent;
+      const end = start + content.length;
+
+      const header = this.matchSectionHeader(content);
+      if (header) {
+        section = { kind: header.kind, header: header.label, start, end, items: [] };
+        sections.push(section);
+        listIndent = undefined;
+        const rest = content.slice(header.length);
+        if (rest) addLine(rest, start + header.length, indent);
+        continue;
+      }
+
+      if (!section) {
+        section = { kind: 'text', start, end, items: [] };
+        sections.push(section);
+      }
+      addLine(content, start, indent);
+      section.end = end;
+    }
+
+    return sections;
+  }
+
+  private static matchSectionHeader(line: string): { kind: NoteSectionKind; label: string; length: number } | null {
+    for (const { kind, pattern } of this.PATTERNS.sections) {
+      const match = line.match(pattern);
+      if (match) return { kind, label: match[1], length: match[0].length };
+    }
+    return null;
+  }
+
   /**
    * Generate AI-powered visit overview from parsed medical data
    */
@@ -164,52 +335,243 @@ export class MedicalRecordParser {
   }
 
   /**
-   * Extract text from multiple pattern matches
+   * Parse prescription lines into medication objects. Each text may hold
+   * several lines or ";"-separated items; lines that do not look like a
+   * medication (no dosage form, strength, dose or frequency) are skipped.
    */
-  private static extractMultiplePatterns(text: string, patterns: RegExp[]): string[] {
-    const results: string[] = [];
-
-    for (const pattern of patterns) {
-      const matches = text.match(pattern);
-      if (matches) {
-        for (let i = 1; i < matches.length; i++) {
-          const match = matches[i]?.trim();
-          if (match && !results.includes(match)) {
-            results.push(match);
-          }
-        }
-      }
-    }
-
-    return results;
+  static parsePrescriptions(prescriptionTexts: string[], startDate?: string): Medication[] {
+    return prescriptionTexts
+      .flatMap(text => text.split(/\n|;/))
+      .map(line => this.parsePrescriptionLine(line, startDate))
+      .filter((medication): medication is Medication => medication !== null);
   }
 
   /**
-   * Parse prescription text into medication objects
+   * Parse one prescription line written the way Indian prescriptions are:
+   * "Tab. Metformin 500mg 1-0-1 x 30 days after food", "Syp. Ascoril 5 ml TDS",
+   * "Inj. Lantus 10 units HS", "Cap. Omez 20 OD BBF x 2/52".
    */
-  private static parsePrescriptions(prescriptionTexts: string[]): Medication[] {
-    const medications: Medication[] = [];
+  static parsePrescriptionLine(line: string, startDate: string = new Date().toISOString().split('T')[0]): Medication | null {
+    let rest = ` ${line.replace(/^\s*(?:\d+\s*[.)]|[-•*])\s*/, '').trim()} `;
+    const take = (pattern: RegExp): RegExpMatchArray | null => {
+      const match = rest.match(pattern);
+      if (match) rest = rest.replace(match[0], ' ');
+      return match;
+    };
 
-    for (const text of prescriptionTexts) {
-      // Parse medication format: "MedicationName strength - dosage frequency"
-      const medPattern = /([a-zA-Z\s]+)(\d+[a-zA-Z]*)?\s*[-:]?\s*([^\n]+)/i;
-      const match = text.match(medPattern);
+    // Dosage form prefix
+    const formMatch = take(new RegExp(`^\\s*(${Object.keys(this.DOSAGE_FORMS).join('|')})\\b\\.?`, 'i'));
+    const form = formMatch ? this.DOSAGE_FORMS[formMatch[1].toLowerCase()] : undefined;
+
+    // Duration: "x 5 days", "for 2 weeks", "x 3/7", "1 month"
+    let duration: { count: number; unit: 'day' | 'week' | 'month' } | undefined;
+    const fractionDuration = take(/(?<![a-z])[x×*]\s*(\d+)\s*\/\s*(7|52|12)\b/i);
+    const wordDuration = fractionDuration ? null : take(
+      /(?:(?:(?<![a-z])[x×*]|\bfor)\s*(\d+)\s*(d|days?|w|wks?|weeks?|m|mths?|months?)\b|\b(\d+)\s*(days?|wks?|weeks?|mths?|months?)\b)/i
+    );
+    if (fractionDuration) {
+      duration = {
+        count: parseInt(fractionDuration[1], 10),
+        unit: fractionDuration[2] === '7' ? 'day' : fractionDuration[2] === '52' ? 'week' : 'month',
+      };
+    } else if (wordDuration) {
+      const unit = (wordDuration[2] || wordDuration[4]).toLowerCase();
+      duration = {
+        count: parseInt(wordDuration[1] || wordDuration[3], 10),
+        unit: unit.startsWith('d') ? 'day' : unit.startsWith('w') ? 'week' : 'month',
+      };
+    }
+    take(/\b(?:to\s+)?continue\b|\blong[\s-]term\b|\blife[\s-]?long\b/i);
+
+    // Relation to food
+    const foodNotes = this.FOOD_INSTRUCTIONS.flatMap(({ pattern, note }) => (take(pattern) ? [note] : []));
+
+    // Dose pattern: "1-0-1", "1/2-0-1/2", "1-1-1-1"
+    const amount = '(\\d+\\/\\d+|\\d+(?:\\.\\d+)?|[½¼¾])';
+    const slots = take(new RegExp(`(?:^|\\s)${amount}\\s*-\\s*${amount}\\s*-\\s*${amount}(?:\\s*-\\s*${amount})?(?=\\s|$)`));
+
+    // Frequency code: OD, BD, TDS, QID, HS, SOS, weekly...
+    const frequencyEntry = this.FREQUENCIES.find(({ pattern }) => take(pattern));
+
+    // Dose amount: "2 tabs", "5 ml", "10 units", "½ tab". IU is a dose only
+    // for injections (insulin); on tablets it is the strength ("60000 IU")
+    const doseUnits = `tabs?|tablets?|caps?|capsules?|ml|units?|u|puffs?|drops?|tsp|teaspoons?|sachets?${form?.unit === 'unit' ? '|iu' : ''}`;
+    const doseMatch = take(new RegExp(`(?:^|\\s)(\\d+\\/\\d+|\\d+(?:\\.\\d+)?|[½¼¾]|one|two|half)\\s*(${doseUnits})\\b\\.?`, 'i'));
+
+    // Trailing indication: "SOS for vomiting"
+    const indication = take(/\bfor\s+([a-z][a-z\s]*?)\s*$/i);
+
+    // What is left is the name and strength: "Metformin 500mg", "Telma 40 H", "Janumet 50/500"
+    const remainder = rest.replace(/\s+/g, ' ').replace(/^[\s,.:-]+|[\s,.:-]+$/g, '');
+    const strengthMatch = remainder.match(
+      /^(.*?[a-z].*?)\s+(\d+(?:\.\d+)?(?:\s*\/\s*\d+(?:\.\d+)?)*\s*(?:mg|mcg|µg|gm|g|iu|k|%)?(?:\s*\/\s*\d*(?:\.\d+)?\s*ml)?)(?=\s|$)(.*)$/i
+    );
+    const name = (strengthMatch ? `${strengthMatch[1]} ${strengthMatch[3]}` : remainder).replace(/\s+/g, ' ').trim();
+    const strength = strengthMatch?.[2].replace(/\s+/g, '').replace(/gm$/i, 'g').replace(/iu$/i, 'IU').replace(/k$/, 'K');
+
+    if (!name || !/[a-z]{2}/i.test(name)) return null;
+    if (!form && !strength && !slots && !frequencyEntry && !doseMatch) return null;
+
+    // Frequency and timings: the dose pattern is the most specific source
+    let frequency = frequencyEntry?.frequency;
+    let timings = frequencyEntry?.timings;
+    let dosage: string | undefined;
+    const unit = doseMatch ? this.doseUnit(doseMatch[2]) : form?.unit;
+
+    if (slots) {
+      const amounts = slots.slice(1).filter(Boolean).map(value => this.normalizeAmount(value));
+      const times = amounts.length === 4 ? this.SLOT_TIMES.four : this.SLOT_TIMES.three;
+      const names = amounts.length === 4 ? ['morning', 'afternoon', 'evening', 'night'] : ['morning', 'afternoon', 'night'];
+      const taken = amounts.map((value, i) => ({ value, time: times[i], slot: names[i] })).filter(({ value }) => value !== '0');
+
+      // Weekly, alternate-day and as-needed codes still apply to the pattern
+      if (!frequencyEntry || frequencyEntry.daily) {
+        frequency = this.DAILY_FREQUENCIES[taken.length] || frequency;
+      }
+      timings = frequencyEntry?.timings?.length === 0 ? [] : taken.map(({ time }) => time);
+      if (taken.length > 0 && unit) {
+        dosage = taken.every(({ value }) => value === taken[0].value)
+          ? this.formatDose(taken[0].value, unit)
+          : taken.map(({ value, slot }) => `${this.formatDose(value, unit)} ${slot}`).join(', ');
+      }
+    }
 
-      if (match) {
-        const medication: Medication = {
-          id: `med-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-          name: match[1].trim(),
-          strength: match[2]?.trim(),
-          dosage: '1 tablet', // Default, could be refined
-          frequency: match[3]?.trim() || 'Once daily',
-          startDate: new Date().toISOString().split('T')[0]
-        };
-
-        medications.push(medication);
+    if (!dosage) {
+      if (doseMatch) {
+        dosage = this.formatDose(this.normalizeAmount(doseMatch[1]), unit!);
+      } else {
+        dosage = form?.defaultDosage || '1 tablet';
       }
     }
 
-    return medications;
+    // Empty-stomach morning doses are taken on waking
+    if (timings?.length === 1 && timings[0] === this.SLOT_TIMES.three[0] && foodNotes.some(note => /empty stomach|before breakfast/i.test(note))) {
+      timings = ['07:00'];
+    }
+
+    const medication: Medication = {
+      id: `med-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      ...(strength && { strength }),
+      dosage,
+      frequency: frequency || 'As directed',
+      ...(timings && { timings }),
+      startDate,
+    };
+
+    if (duration) {
+      medication.duration = `${duration.count} ${duration.unit}${duration.count === 1 ? '' : 's'}`;
+      medication.endDate = this.addDuration(startDate, duration.count, duration.unit);
+    }
+    const notes = [...foodNotes, ...(indication ? [`For ${indication[1]}`] : [])];
+    if (notes.length > 0) {
+      medication.notes = notes.join(', ');
+    }
+
+    return medication;
+  }
+
+  // Dosage form prefixes and the unit a dose of each is counted in
+  private static readonly DOSAGE_FORMS: Record<string, { unit?: string; defaultDosage: string }> = {
+    tab: { unit: 'tablet', defaultDosage: '1 tablet' },
+    tabs: { unit: 'tablet', defaultDosage: '1 tablet' },
+    tablet: { unit: 'tablet', defaultDosage: '1 tablet' },
+    cap: { unit: 'capsule', defaultDosage: '1 capsule' },
+    caps: { unit: 'capsule', defaultDosage: '1 capsule' },
+    capsule: { unit: 'capsule', defaultDosage: '1 capsule' },
+    syp: { unit: 'ml', defaultDosage: 'As directed' },
+    syr: { unit: 'ml', defaultDosage: 'As directed' },
+    syrup: { unit: 'ml', defaultDosage: 'As directed' },
+    susp: { unit: 'ml', defaultDosage: 'As directed' },
+    inj: { unit: 'unit', defaultDosage: '1 injection' },
+    injection: { unit: 'unit', defaultDosage: '1 injection' },
+    sachet: { unit: 'sachet', defaultDosage: '1 sachet' },
+    inh: { unit: 'puff', defaultDosage: '2 puffs' },
+    inhaler: { unit: 'puff', defaultDosage: '2 puffs' },
+    rotacap: { unit: 'rotacap', defaultDosage: '1 rotacap' },
+    drop: { unit: 'drop', defaultDosage: 'As directed' },
+    drops: { unit: 'drop', defaultDosage: 'As directed' },
+    gtt: { unit: 'drop', defaultDosage: 'As directed' },
+    oint: { defaultDosage: 'Apply locally' },
+    ointment: { defaultDosage: 'Apply locally' },
+    cream: { defaultDosage: 'Apply locally' },
+    gel: { defaultDosage: 'Apply locally' },
+    lotion: { defaultDosage: 'Apply locally' },
+  };
+
+  private static readonly SLOT_TIMES = {
+    three: ['09:00', '14:00', '21:00'], // morning-afternoon-night
+    four: ['08:00', '13:00', '18:00', '22:00'], // morning-afternoon-evening-night
+  };
+
+  private static readonly DAILY_FREQUENCIES: Record<number, string> = {
+    1: 'Once daily',
+    2: 'Twice daily',
+    3: 'Three times daily',
+    4: 'Four times daily',
+  };
+
+  // Latin and Indian frequency shorthand, most specific first
+  private static readonly FREQUENCIES: Array<{ pattern: RegExp; frequency: string; timings: string[]; daily?: boolean }> = [
+    { pattern: /\b(?:sos|prn|as\s+(?:and\s+when\s+)?(?:needed|required))\b/i, frequency: 'As needed (PRN)', timings: [] },
+    { pattern: /\bstat\b/i, frequency: 'Once (immediately)', timings: [] },
+    { pattern: /\b(?:once\s+(?:a\s+)?weekly|once\s+a\s+week|weekly|every\s+week)\b/i, frequency: 'Once weekly', timings: ['09:00'] },
+    { pattern: /\b(?:alternate\s+days?|every\s+other\s+day|eod|qod)\b/i, frequency: 'Alternate days', timings: ['09:00'] },
+    { pattern: /\b(?:q\.?i\.?d|qds|four\s+times\s+(?:a\s+)?(?:day|daily)|6\s*(?:th)?\s*hourly|q6h)\b\.?/i, frequency: 'Four times daily', timings: ['08:00', '13:00', '18:00', '22:00'], daily: true },
+    { pattern: /\b(?:t\.?d\.?s|t\.?i\.?d|thrice\s+(?:a\s+)?(?:day|daily)|three\s+times\s+(?:a\s+)?(?:day|daily)|8\s*(?:th)?\s*hourly|q8h)\b\.?/i, frequency: 'Three times daily', timings: ['08:00', '14:00', '20:00'], daily: true },
+    { pattern: /\b(?:b\.?d|b\.?i\.?d|twice\s+(?:a\s+)?(?:day|daily)|12\s*(?:th)?\s*hourly|q12h)\b\.?/i, frequency: 'Twice daily', timings: ['09:00', '21:00'], daily: true },
+    { pattern: /\b(?:once\s+(?:a\s+)?(?:day|daily)\s+)?(?:h\.?s|at\s+bed\s*time|bed\s*time|at\s+night)\b\.?/i, frequency: 'Once daily at bedtime', timings: ['22:00'], daily: true },
+    { pattern: /\b(?:o\.?d|q\.?d|once\s+(?:a\s+)?(?:day|daily)|daily|in\s+the\s+morning)\b\.?/i, frequency: 'Once daily', timings: ['09:00'], daily: true },
+  ];
+
+  private static readonly FOOD_INSTRUCTIONS: Array<{ pattern: RegExp; note: string }> = [
+    { pattern: /\b(?:empty\s+stomach|e\/s)\b/i, note: 'Empty stomach' },
+    { pattern: /\b(?:before\s+breakfast|bbf)\b/i, note: 'Before breakfast' },
+    { pattern: /\b(?:after\s+breakfast|abf)\b/i, note: 'After breakfast' },
+    { pattern: /\bbefore\s+lunch\b/i, note: 'Before lunch' },
+    { pattern: /\bafter\s+lunch\b/i, note: 'After lunch' },
+    { pattern: /\bbefore\s+dinner\b/i, note: 'Before dinner' },
+    { pattern: /\bafter\s+dinner\b/i, note: 'After dinner' },
+    { pattern: /\b(?:before\s+(?:food|meals?)|b\/f|a\.c\.?|ac)(?=\s|$)/i, note: 'Before food' },
+    { pattern: /\b(?:after\s+(?:food|meals?)|a\/f|p\.c\.?|pc)(?=\s|$)/i, note: 'After food' },
+    { pattern: /\bwith\s+(?:food|meals?|milk)\b/i, note: 'With food' },
+  ];
+
+  private static normalizeAmount(value: string): string {
+    const fractions: Record<string, string> = { '1/2': '½', '0.5': '½', '.5': '½', '1/4': '¼', '0.25': '¼', '3/4': '¾', '0.75': '¾', half: '½', one: '1', two: '2' };
+    return fractions[value.toLowerCase()] || value;
+  }
+
+  private static doseUnit(unit: string): string {
+    const lower = unit.toLowerCase();
+    if (lower.startsWith('tab')) return 'tablet';
+    if (lower.startsWith('cap')) return 'capsule';
+    if (lower === 'u' || lower === 'iu' || lower.startsWith('unit')) return 'unit';
+    if (lower.startsWith('puff')) return 'puff';
+    if (lower.startsWith('drop')) return 'drop';
+    if (lower === 'tsp' || lower.startsWith('teaspoon')) return 'teaspoon';
+    if (lower.startsWith('sachet')) return 'sachet';
+    return 'ml';
+  }
+
+  private static formatDose(amount: string, unit: string): string {
+    const count = parseFloat(amount);
+    const plural = unit !== 'ml' && count > 1;
+    return `${amount} ${unit}${plural ? 's' : ''}`;
+  }
+
+  /**
+   * Last day of a course that starts on `startDate` (inclusive), as YYYY-MM-DD
+   */
+  private static addDuration(startDate: string, count: number, unit: 'day' | 'week' | 'month'): string {
+    const date = new Date(`${startDate.slice(0, 10)}T00:00:00Z`);
+    if (unit === 'month') {
+      date.setUTCMonth(date.getUTCMonth() + count);
+    } else {
+      date.setUTCDate(date.getUTCDate() + count * (unit === 'week' ? 7 : 1));
+    }
+    date.setUTCDate(date.getUTCDate() - 1);
+    return date.toISOString().split('T')[0];
   }
 
   /**
@@ -221,7 +583,7 @@ export class MedicalRecordParser {
     for (const [key, pattern] of Object.entries(this.PATTERNS.vitals)) {
       const match = text.match(pattern as RegExp);
       if (match) {
-        vitals[key] = match[1];
+        vitals[key] = match[1].replace(/\s*\/\s*/g, '/').replace(/\s+/g, ' ').trim();
       }
     }
 
@@ -379,40 +741,14 @@ export class MedicalRecordParser {
   }
 
   /**
-   * Extract general notes from the text
+   * Extract the text of each document and merge their data. Returns the
+   * documents with `content` and `parsedData` filled in so callers can store
+   * them; documents that already have content are not read again.
    */
-  private static extractNotes(text: string): string[] {
-    // Remove already parsed sections and extract remaining meaningful content
-    const patternsToIgnore = [
-      /c\/c\s*:?\s*[^\n]+/gi,
-      /chief complaint\s*:?\s*[^\n]+/gi,
-      /ix\s*:?\s*[^\n]+/gi,
-      /investigations?\s*:?\s*[^\n]+/gi,
-      /d\/dx\s*:?\s*[^\n]+/gi,
-      /diagnosis\s*:?\s*[^\n]+/gi,
-      /r\/x\s*:?\s*[^\n]+/gi,
-      /prescription\s*:?\s*[^\n]+/gi,
-      /follow[-\s]?up\s*:?\s*[^\n]+/gi
-    ];
-
-    let cleanedText = text;
-    for (const pattern of patternsToIgnore) {
-      cleanedText = cleanedText.replace(pattern, '');
-    }
-
-    // Split into paragraphs and filter meaningful content
-    const paragraphs = cleanedText
-      .split('\n')
-      .map(p => p.trim())
-      .filter(p => p.length > 10 && !p.match(/^\d+\.?\s*$/)); // Remove page numbers
-
-    return paragraphs.slice(0, 5); // Limit to first 5 meaningful paragraphs
-  }
-
-  /**
-   * Process multiple documents and merge their data
-   */
-  static processMultipleDocuments(documents: Document[]): ParsedMedicalData {
+  static async processMultipleDocuments(
+    documents: Document[],
+    options: OcrOptions = {}
+  ): Promise<{ mergedData: ParsedMedicalData; documents: Document[] }> {
     const mergedData: ParsedMedicalData = {
       chiefComplaints: [],
       investigations: [],
@@ -421,13 +757,24 @@ export class MedicalRecordParser {
       notes: [],
       urgency: 'medium'
     };
+    const processedDocuments: Document[] = [];
 
-    // This would integrate with a real OCR/Document parsing service
-    // For now, we'll simulate the processing
     for (const doc of documents) {
-      // Simulate document content extraction
-      const simulatedContent = this.simulateDocumentContent(doc);
-      const docData = this.parseMedicalRecord(simulatedContent);
+      let processed = doc;
+      try {
+        processed = await this.extractDocumentText(doc, undefined, options);
+      } catch (error) {
+        // Blob URLs from earlier sessions can no longer be read
+        console.warn(`Could not read document ${doc.name}:`, error);
+      }
+
+      if (!processed.content) {
+        processedDocuments.push(processed);
+        continue;
+      }
+
+      const docData = processed.parsedData || this.parseMedicalRecord(processed.content);
+      processedDocuments.push({ ...processed, parsedData: docData });
 
       // Merge data, avoiding duplicates
       mergedData.chiefComplaints = [...new Set([...mergedData.chiefComplaints, ...docData.chiefComplaints])];
@@ -442,47 +789,50 @@ export class MedicalRecordParser {
       }
     }
 
-    return mergedData;
+    return { mergedData, documents: processedDocuments };
   }
 
   /**
-   * Simulate document content extraction (would integrate with real OCR service)
+   * Return the document with its text in `content`: the text layer for PDFs
+   * (scanned pages are OCR'd) and OCR for images. `source` is the uploaded
+   * file when available; otherwise the document URL is read.
    */
-  private static simulateDocumentContent(doc: Document): string {
-    // This is a placeholder for actual document processing
-    // In a real implementation, this would call OCR services or document parsers
-
-    if (doc.name.toLowerCase().includes('lab') || doc.name.toLowerCase().includes('test')) {
-      return `
-        C/C: Routine checkup
-        Ix: Complete blood count, Lipid profile, HbA1c
-        D/Dx: Well-controlled diabetes, Hyperlipidemia
-        R/X: Continue current medications
-        Follow-up: 3 months
-      `;
+  static async extractDocumentText(
+    document: Document,
+    source?: Blob,
+    options: OcrOptions = {}
+  ): Promise<Document> {
+    if (document.content) return document;
+
+    const isPdf = document.type === 'pdf' || document.type === 'application/pdf';
+    if (!isPdf) {
+      return ocrDocument(document, options, source || document.url);
     }
 
-    if (doc.name.toLowerCase().includes('prescription') || doc.name.toLowerCase().includes('rx')) {
-      return `
-        R/X: Metformin 500mg - Twice daily with meals
-             Atorvastatin 20mg - Once daily at bedtime
-             Lisinopril 10mg - Once daily in morning
-      `;
-    }
+    const file = source || await fetch(document.url).then(response => response.blob());
+    const { text, pages } = await extractPdfText(file, options);
+    const ocrPages = pages.filter(page => page.source === 'ocr');
 
-    return `
-      C/C: Follow-up consultation
-      Ix: As per lab reports
-      D/Dx: Stable condition
-      Notes: Patient doing well on current regimen
-    `;
+    return {
+      ...document,
+      content: text,
+      pages: pages.map(({ pageNumber, source: pageSource, text: pageText }) => ({ pageNumber, source: pageSource, text: pageText })),
+      ...(ocrPages.length > 0 && {
+        ocr: {
+          engine: OCR_ENGINE,
+          confidence: ocrPages.reduce((sum, page) => sum + (page.confidence || 0), 0) / ocrPages.length,
+          lines: ocrPages.flatMap(page => page.lines),
+          processedAt: new Date().toISOString()
+        }
+      })
+    };
   }
 
   /**
    * Main method to parse medical text and return structured data
    */
-  static parseMedicalText(text: string): ParsedMedicalData {
-    return this.parseMedicalRecord(text);
+  static parseMedicalText(text: string, visitDate?: string): ParsedMedicalData {
+    return this.parseMedicalRecord(text, visitDate);
   }
 
   /**
@@ -531,52 +881,15 @@ export class MedicalRecordParser {
    * Extract text from PDF files
    */
   static async extractPDFText(file: File): Promise<string> {
-    // In a real implementation, this would use a PDF parsing library like pdf-parse or pdf.js
-    // For now, we'll simulate the extraction
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        // Simulate PDF text extraction
-        // In production, you'd use a proper PDF parsing library
-        const simulatedText = `
-          MEDICAL REPORT
-          Date: ${new Date().toLocaleDateString()}
-
-          Chief Complaint: Follow-up consultation
-          Investigations: Blood work, X-ray
-          Diagnosis: Stable condition
-          Prescriptions: Continue current medications
-          Notes: Patient responding well to treatment
-        `;
-        resolve(simulatedText);
-      };
-      reader.readAsArrayBuffer(file);
-    });
+    const { text } = await extractPdfText(file);
+    return text;
   }
 
   /**
    * Extract text from image files using OCR
    */
   static async extractImageText(file: File): Promise<string> {
-    // In a real implementation, this would use an OCR service like Tesseract.js
-    // For now, we'll simulate the OCR extraction
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        // Simulate OCR text extraction
-        // In production, you'd use a proper OCR library
-        const simulatedText = `
-          OCR EXTRACTED TEXT
-          Date: ${new Date().toLocaleDateString()}
-
-          Patient Report
-          Chief Complaint: Routine check-up
-          Vitals: BP 120/80, HR 72
-          Notes: All vital signs normal
-        `;
-        resolve(simulatedText);
-      };
-      reader.readAsDataURL(file);
-    });
+    const { text } = await recognizeImage(file);
+    return text;
   }
 }
\ No newline at end of file
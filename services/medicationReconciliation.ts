@@ -6,7 +6,7 @@ export interface MedicationChange {
   changeType: 'added' | 'modified' | 'discontinued' | 'continued';
   previousMedication?: Medication;
   reason?: string;
-  source: 'prescription' | 'record' | 'manual';
+  source: 'prescription' | 'record' | 'manual' | 'import';
 }
 
 export interface ReconciliationResult {
@@ -43,7 +43,7 @@ export class MedicationReconciliationService {
           D/Dx: ${record.diagnosis}
           R/X: ${record.prescription}
           Notes: ${record.notes}
-        `);
+        `, record.date);
         allNewPrescriptions.push(...parsedData.prescriptions);
       }
     }
@@ -111,6 +111,87 @@ export class MedicationReconciliationService {
       }
     }
 
+    return this.summarizeChanges(changes);
+  }
+
+  /**
+   * Reconcile current medications with a medication list imported from another
+   * system (FHIR bundle, C-CDA document). An import only describes what the other
+   * system knows about, so medications missing from it are kept, never discontinued.
+   */
+  static reconcileImportedMedications(
+    currentMeds: Medication[],
+    importedMeds: Medication[]
+  ): ReconciliationResult {
+    const changes: MedicationChange[] = [];
+    // A document can list the same medication twice (e.g. two strengths), so every
+    // entry is kept and the ones after the first are flagged in the preview
+    const importedMap = new Map<string, Medication[]>();
+    for (const med of importedMeds) {
+      const normalizedName = this.normalizeMedicationName(med.name);
+      importedMap.set(normalizedName, [...(importedMap.get(normalizedName) || []), med]);
+    }
+    const firstListed = new Set([...importedMap.values()].map(meds => meds[0]));
+
+    for (const currentMed of currentMeds) {
+      const importedMed = importedMap.get(this.normalizeMedicationName(currentMed.name))?.shift();
+
+      if (!importedMed) {
+        changes.push({
+          medication: currentMed,
+          changeType: 'continued',
+          reason: 'Not listed in imported document',
+          source: 'manual'
+        });
+        continue;
+      }
+
+      // Fields the document leaves out keep their local value, and the local id
+      // is kept so the existing entry is updated in place
+      const merged: Medication = {
+        ...currentMed,
+        ...Object.fromEntries(Object.entries(importedMed).filter(([, value]) => value !== undefined && value !== '')),
+        id: currentMed.id
+      };
+
+      if (this.isMedicationModified(currentMed, merged)) {
+        changes.push({
+          medication: merged,
+          changeType: 'modified',
+          previousMedication: currentMed,
+          reason: 'Dosage or frequency differs in imported document',
+          source: 'import'
+        });
+      } else {
+        changes.push({
+          medication: currentMed,
+          changeType: 'continued',
+          reason: 'Already on medication list',
+          source: 'import'
+        });
+      }
+    }
+
+    for (const remaining of importedMap.values()) {
+      for (const importedMed of remaining) {
+        changes.push({
+          medication: importedMed,
+          changeType: 'added',
+          reason: firstListed.has(importedMed)
+            ? 'New medication from imported document'
+            : 'Listed more than once in imported document',
+          source: 'import'
+        });
+      }
+    }
+
+    return this.summarizeChanges(changes);
+  }
+
+  /**
+   * Build the medication lists and summary for a set of changes
+   */
+  private static summarizeChanges(changes: MedicationChange[]): ReconciliationResult {
     // Generate current medications list
     const currentMedications: Medication[] = [];
     const discontinuedMedications: Medication[] = [];
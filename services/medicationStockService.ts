@@ -0,0 +1,209 @@
+/**
+ * Medication Stock Service
+ *
+ * Forecasts when a medication runs out from the count entered at the last
+ * refill. Medications with a dose log use up stock only for doses recorded as
+ * taken; the rest are assumed to be taken as prescribed, working out the
+ * daily use from `frequency` (or `timings`) and the units in `dosage`.
+ *
+ * Each forecast keeps one medication reminder per medication, due a few days
+ * before the stock runs out.
+ */
+
+import type { Medication, Patient, Reminder } from '../types';
+import { toLocalDate } from './adherenceService';
+
+export interface StockForecast {
+  remaining: number; // Units left now
+  dailyUsage: number; // Units used per day; 0 when taken as needed
+  source: 'doses' | 'schedule'; // What stock use since the last count is based on
+  daysLeft?: number;
+  runOutDate?: string; // YYYY-MM-DD
+  refillBy?: string; // Day the refill reminder falls on
+  needsRefill: boolean; // False when taken as needed or the course ends first
+}
+
+export interface RefillDue {
+  patientId: string;
+  patientName: string;
+  medication: Medication;
+  forecast: StockForecast;
+}
+
+export const REFILL_REMINDER_DEFAULT_DAYS = 7;
+
+export const REFILL_REMINDER_PREFIX = 'rem-refill-';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const addDays = (date: Date, days: number): string =>
+  toLocalDate(new Date(date.getFullYear(), date.getMonth(), date.getDate() + days));
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const VULGAR_FRACTIONS: Record<string, number> = { '½': 0.5, '¼': 0.25, '¾': 0.75 };
+
+// The first amount written in a dose, or undefined when there is none
+const parseAmount = (text: string): number | undefined => {
+  const vulgar = text.match(/(\d+)?\s*([½¼¾])/);
+  if (vulgar) return Number(vulgar[1] || 0) + VULGAR_FRACTIONS[vulgar[2]];
+  const fraction = text.match(/(\d+)\s*\/\s*(\d+)/);
+  if (fraction && Number(fraction[2]) > 0) return Number(fraction[1]) / Number(fraction[2]);
+  const number = text.match(/\d+(?:\.\d+)?/);
+  if (number) return Number(number[0]);
+  return /\bhalf\b/.test(text) ? 0.5 : undefined;
+};
+
+/**
+ * Units taken per dose: "2 tablets" is 2, "1/2 tablet" and "half a tablet"
+ * are 0.5. Doses split by time of day, like "1 tablet morning, ½ tablet
+ * night", give the average, so a day's doses add up to the whole amount.
+ * Anything without a number counts as one unit.
+ */
+export const getUnitsPerDose = (dosage: string = ''): number => {
+  const text = dosage.toLowerCase();
+  const amounts = text.split(/[,;]/).map(parseAmount);
+  if (amounts.length > 1 && amounts.every((amount): amount is number => amount !== undefined)) {
+    return amounts.reduce((total, amount) => total + amount, 0) / amounts.length;
+  }
+  return parseAmount(text) || 1;
+};
+
+/**
+ * Doses taken per day. As-needed medications have no schedule and return 0,
+ * as do frequencies that cannot be read.
+ */
+export const getDosesPerDay = (medication: Pick<Medication, 'frequency' | 'timings'>): number => {
+  const frequency = (medication.frequency || '').toLowerCase();
+  const everyHours = frequency.match(/every\s+(\d+)\s*(?:hours?|hrs?)|q(\d+)h\b|(\d+)\s*(?:th)?\s*hourly/);
+
+  if (/as\s+needed|\bprn\b|\bsos\b|\bstat\b|once \(immediately\)/.test(frequency)) return 0;
+  if (/weekly|a\s+week/.test(frequency)) return 1 / 7;
+  if (/alternate\s+days?|every\s+other\s+day/.test(frequency)) return 0.5;
+  if (everyHours) return 24 / Number(everyHours[1] || everyHours[2] || everyHours[3]);
+  if (medication.timings && medication.timings.length > 0) return medication.timings.length;
+  if (/four\s+times|\bqid\b|\bqds\b/.test(frequency)) return 4;
+  if (/three\s+times|thrice|\btid\b|\btds\b/.test(frequency)) return 3;
+  if (/twice|two\s+times|\bbid\b|\bbd\b/.test(frequency)) return 2;
+  if (/once|daily|bedtime|at\s+night|\bod\b/.test(frequency)) return 1;
+  return 0;
+};
+
+// Units used since the last count, from recorded doses when there are any
+const getUnitsUsedSince = (medication: Medication, since: Date, now: Date): { used: number; source: StockForecast['source'] } => {
+  const unitsPerDose = getUnitsPerDose(medication.dosage);
+
+  if (medication.doseLog && medication.doseLog.length > 0) {
+    const taken = medication.doseLog.filter(event => {
+      const doseTime = new Date(`${event.date}T${event.scheduledTime}:00`).getTime();
+      return (event.status === 'taken' || event.status === 'late') && doseTime > since.getTime() && doseTime <= now.getTime();
+    });
+    return { used: taken.length * unitsPerDose, source: 'doses' };
+  }
+
+  const days = Math.max(0, now.getTime() - since.getTime()) / DAY;
+  return { used: getDosesPerDay(medication) * unitsPerDose * days, source: 'schedule' };
+};
+
+/**
+ * Stock left and when it runs out. Undefined until a pill count is entered.
+ */
+export const getStockForecast = (medication: Medication, now: Date = new Date()): StockForecast | undefined => {
+  if (medication.pillCount === undefined || medication.pillCount === null) return undefined;
+
+  const since = medication.stockUpdatedAt ? new Date(medication.stockUpdatedAt) : now;
+  const { used, source } = getUnitsUsedSince(medication, since, now);
+  const remaining = Math.max(0, round(medication.pillCount - used));
+  const dailyUsage = round(getDosesPerDay(medication) * getUnitsPerDose(medication.dosage));
+
+  if (dailyUsage <= 0) return { remaining, dailyUsage, source, needsRefill: false };
+
+  // From the exact time stock runs out, so the date holds steady through the day
+  const runOut = new Date(now.getTime() + (remaining / dailyUsage) * DAY);
+  const runOutDate = toLocalDate(runOut);
+  const reminderDays = medication.refillReminderDays ?? REFILL_REMINDER_DEFAULT_DAYS;
+  const today = toLocalDate(now);
+  const reminderDate = addDays(runOut, -reminderDays);
+  const refillBy = reminderDate > today ? reminderDate : today;
+  const daysLeft = Math.floor(remaining / dailyUsage);
+
+  return {
+    remaining,
+    dailyUsage,
+    source,
+    daysLeft,
+    runOutDate,
+    refillBy,
+    needsRefill: !medication.endDate || medication.endDate >= runOutDate,
+  };
+};
+
+/**
+ * The stock after adding whole packs to what is left now
+ */
+export const getRefilledStock = (
+  medication: Medication,
+  packs: number = 1,
+  now: Date = new Date()
+): Pick<Medication, 'pillCount' | 'stockUpdatedAt'> => ({
+  pillCount: round((getStockForecast(medication, now)?.remaining || 0) + packs * (medication.packSize || 0)),
+  stockUpdatedAt: now.toISOString(),
+});
+
+/**
+ * Medications across the family that need refilling within the next `days`
+ * days, including overdue ones, soonest to run out first
+ */
+export const getRefillsDue = (
+  patients: Pick<Patient, 'id' | 'name' | 'currentMedications'>[],
+  days: number = 7,
+  now: Date = new Date()
+): RefillDue[] => {
+  const lastDay = addDays(now, days - 1);
+  return patients
+    .flatMap(patient => (patient.currentMedications || []).map(medication => ({
+      patientId: patient.id,
+      patientName: patient.name,
+      medication,
+      forecast: getStockForecast(medication, now),
+    })))
+    .filter((due): due is RefillDue => !!due.forecast?.needsRefill && due.forecast.refillBy! <= lastDay)
+    .sort((a, b) => a.forecast.runOutDate!.localeCompare(b.forecast.runOutDate!));
+};
+
+/**
+ * Brings the automatic refill reminders in line with the current forecasts:
+ * adds or moves one per medication that needs a refill and drops the rest.
+ * A reminder marked done stays done until the run-out date changes.
+ */
+export const syncRefillReminders = (
+  reminders: Reminder[],
+  medications: Medication[],
+  now: Date = new Date()
+): Reminder[] => {
+  const others = reminders.filter(reminder => !reminder.id.startsWith(REFILL_REMINDER_PREFIX));
+
+  const refills = medications.flatMap((medication): Reminder[] => {
+    const forecast = getStockForecast(medication, now);
+    if (!forecast?.needsRefill) return [];
+
+    const id = `${REFILL_REMINDER_PREFIX}${medication.id}`;
+    const existing = reminders.find(reminder => reminder.id === id);
+    const unchanged = existing && existing.dueDate === forecast.runOutDate ? existing : undefined;
+    return [{
+      id,
+      type: 'medication',
+      title: `Refill ${medication.name}`,
+      date: forecast.refillBy!,
+      dueDate: forecast.runOutDate,
+      time: existing?.time || '09:00',
+      completed: unchanged?.completed || false,
+      notificationSent: unchanged?.notificationSent,
+      priority: forecast.daysLeft! <= 3 ? 'high' : 'medium',
+      medicationId: medication.id,
+      notes: `${forecast.remaining} left, about ${forecast.daysLeft} day${forecast.daysLeft === 1 ? '' : 's'} of stock`,
+    }];
+  });
+
+  return [...others, ...refills];
+};
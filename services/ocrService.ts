@@ -1,8 +1,42 @@
-import type { Document } from '../types';
+import { createWorker, OEM, type Worker as TesseractWorker, type Page } from 'tesseract.js';
+import type { Document, OcrLine } from '../types';
+
+/**
+ * On-device OCR for uploaded prescriptions and lab reports.
+ *
+ * Recognition runs in tesseract.js, the Tesseract engine compiled to WASM,
+ * inside its own Web Worker, so images never leave the browser and the UI
+ * thread stays responsive. A single worker is shared and jobs are queued; it
+ * is shut down after a minute without work to free the WASM heap.
+ *
+ * The worker script, WASM core and English language data are bundled with
+ * the app and served from its own origin under /tesseract/ (see
+ * vite.config.ts). VITE_TESSERACT_WORKER_PATH, VITE_TESSERACT_CORE_PATH and
+ * VITE_TESSERACT_LANG_PATH can point them somewhere else.
+ */
+
+const OCR_LANGUAGE = 'eng';
+export const OCR_ENGINE = `tesseract.js/${OCR_LANGUAGE}`;
+const WORKER_IDLE_MS = 60_000;
+
+export interface OcrProgress {
+  status: string; // e.g. 'loading language traineddata', 'recognizing text'
+  progress: number; // 0-1 within the current status
+}
+
+export interface OcrOptions {
+  onProgress?: (progress: OcrProgress) => void;
+}
 
-interface OCRResult {
+export interface RecognizedText {
   text: string;
-  confidence: number;
+  confidence: number; // 0-1
+  lines: OcrLine[];
+}
+
+interface OCRResult extends RecognizedText {
+  // True when the text came from Document.content rather than a new OCR run
+  cached: boolean;
   extractedData: {
     patientName?: string;
     date?: string;
@@ -22,65 +56,177 @@ interface OCRResult {
   };
 }
 
-export const processMedicalDocument = async (document: Document): Promise<OCRResult> => {
-  // In a real implementation, this would use OCR services like:
-  // - Google Vision API
-  // - Tesseract.js
-  // - Azure Computer Vision
-  // - Amazon Textract
+let workerPromise: Promise<TesseractWorker> | null = null;
+let idleTimer: ReturnType<typeof setTimeout> | undefined;
+let queue: Promise<unknown> = Promise.resolve();
+let reportProgress: OcrOptions['onProgress'];
+
+// Files picked in the record form are OCR'd again when the record is saved
+const fileResults = new WeakMap<Blob, Promise<RecognizedText>>();
+
+// The worker starts from a blob URL, so its paths must be absolute
+const bundledAsset = (file: string): string =>
+  new URL(`${import.meta.env.BASE_URL}tesseract/${file}`, window.location.href).href;
+
+const getWorker = (): Promise<TesseractWorker> => {
+  if (!workerPromise) {
+    const env = import.meta.env;
+    workerPromise = createWorker(OCR_LANGUAGE, OEM.LSTM_ONLY, {
+      workerPath: env.VITE_TESSERACT_WORKER_PATH || bundledAsset('worker.min.js'),
+      corePath: env.VITE_TESSERACT_CORE_PATH || bundledAsset('core'),
+      langPath: env.VITE_TESSERACT_LANG_PATH || bundledAsset('lang'),
+      logger: message => reportProgress?.({ status: message.status, progress: message.progress }),
+    }).catch(error => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+};
 
-  // For now, simulate OCR processing based on document type
-  const mockOCRResult = simulateOCRProcessing(document);
+/**
+ * Stop the OCR worker. The next recognition starts a fresh one.
+ */
+export const terminateOcrWorker = async (): Promise<void> => {
+  clearTimeout(idleTimer);
+  const worker = workerPromise;
+  workerPromise = null;
+  if (worker) {
+    await (await worker.catch(() => null))?.terminate();
+  }
+};
 
-  // Add delay to simulate processing time
-  await new Promise(resolve => setTimeout(resolve, 1500));
+const toRecognizedText = (page: Page): RecognizedText => ({
+  text: page.text.trim(),
+  confidence: page.confidence / 100,
+  lines: (page.blocks || [])
+    .flatMap(block => block.paragraphs)
+    .flatMap(paragraph => paragraph.lines)
+    .map(line => ({ text: line.text.trim(), confidence: line.confidence / 100 }))
+    .filter(line => line.text),
+});
+
+/**
+ * Run OCR on an image. Jobs are queued on the shared worker, so progress
+ * callbacks only ever see their own job.
+ */
+export const recognizeImage = (image: Blob | string, options: OcrOptions = {}): Promise<RecognizedText> => {
+  const cached = typeof image !== 'string' ? fileResults.get(image) : undefined;
+  if (cached) return cached;
+
+  const job = queue.then(async () => {
+    clearTimeout(idleTimer);
+    reportProgress = options.onProgress;
+    try {
+      const worker = await getWorker();
+      const { data } = await worker.recognize(image, {}, { text: true, blocks: true });
+      return toRecognizedText(data);
+    } finally {
+      reportProgress = undefined;
+      idleTimer = setTimeout(terminateOcrWorker, WORKER_IDLE_MS);
+    }
+  });
 
-  return mockOCRResult;
+  queue = job.catch(() => undefined);
+  if (typeof image !== 'string') {
+    fileResults.set(image, job);
+    job.catch(() => fileResults.delete(image));
+  }
+  return job;
 };
 
-const simulateOCRProcessing = (document: Document): OCRResult => {
-  const baseResult: OCRResult = {
-    text: `Document: ${document.name}\nType: ${document.type}\nUpload Date: ${new Date(document.uploadedAt).toLocaleDateString()}`,
-    confidence: 0.95,
-    extractedData: {}
+const isImageDocument = (document: Document): boolean =>
+  document.type === 'image' || document.type.startsWith('image/');
+
+/**
+ * Return the document with its OCR text stored in `content`. Documents that
+ * already have content are returned unchanged, so a file is only OCR'd once.
+ * Pass the uploaded file as `image` when it is still at hand.
+ */
+export const ocrDocument = async (
+  document: Document,
+  options: OcrOptions = {},
+  image: Blob | string = document.url
+): Promise<Document> => {
+  if (document.content || !isImageDocument(document)) return document;
+
+  const { text, confidence, lines } = await recognizeImage(image, options);
+  return {
+    ...document,
+    content: text,
+    ocr: { engine: OCR_ENGINE, confidence, lines, processedAt: new Date().toISOString() },
   };
+};
 
-  // Simulate different OCR results based on document type
-  switch (document.type) {
-    case 'pdf':
-      return {
-        ...baseResult,
-        text: `${baseResult.text}\n\nMEDICAL REPORT\nPatient: John Doe\nDate: 2024-01-15\nDiagnosis: Hypertension, Type 2 Diabetes\nLab Results:\n- Fasting Glucose: 125 mg/dL (High)\n- Blood Pressure: 140/90 mmHg (High)\n- HbA1c: 7.2% (High)\nRecommendations: Follow up in 3 months, monitor blood pressure`,
-        extractedData: {
-          patientName: "John Doe",
-          date: "2024-01-15",
-          diagnosis: ["Hypertension", "Type 2 Diabetes"],
-          medications: [], // Disabled - users should enter medications manually
-          labResults: [
-            { test: "Fasting Glucose", value: "125", unit: "mg/dL", reference: "High" },
-            { test: "Blood Pressure", value: "140/90", unit: "mmHg", reference: "High" },
-            { test: "HbA1c", value: "7.2", unit: "%", reference: "High" }
-          ],
-          vitals: [
-            { measurement: "Blood Pressure", value: "140/90", unit: "mmHg" }
-          ]
-        }
-      };
+const LAB_LINE = /^([A-Za-z][A-Za-z0-9 ()/.,-]{1,40}?)\s*[:-]?\s+(\d+(?:\.\d+)?)\s*(mg\/dl|mmol\/mol|mmol\/l|[µu]mol\/l|nmol\/l|pmol\/l|g\/dl|g\/l|%|u\/l|iu\/l|ng\/ml|ng\/dl|pg\/ml|[µu]iu\/ml|miu\/l|meq\/l|fl|pg|cells\/cumm|\/cumm|lakhs?\/cumm|mill(?:ion)?s?\/cumm|x?\s?10\^?\d+\/[µu]?l)(?![a-z])\s*(.*)$/i;
+
+const VITAL_PATTERNS: Array<{ measurement: string; pattern: RegExp; unit: string }> = [
+  { measurement: 'Blood Pressure', pattern: /\b(?:bp|blood pressure)\s*[:-]?\s*(\d{2,3}\s*\/\s*\d{2,3})/i, unit: 'mmHg' },
+  { measurement: 'Pulse', pattern: /\b(?:pulse|pr|hr|heart rate)\s*[:-]?\s*(\d{2,3})\b/i, unit: 'bpm' },
+  { measurement: 'Temperature', pattern: /\b(?:temp|temperature)\s*[:-]?\s*(\d{2,3}(?:\.\d)?)\s*°?\s*[fc]?/i, unit: '°F' },
+  { measurement: 'SpO2', pattern: /\bspo2\s*[:-]?\s*(\d{2,3})\s*%?/i, unit: '%' },
+  { measurement: 'Weight', pattern: /\b(?:wt|weight)\s*[:-]?\s*(\d{2,3}(?:\.\d+)?)\s*kg/i, unit: 'kg' },
+];
+
+const labelledValue = (text: string, labels: string): string | undefined =>
+  text.match(new RegExp(`^\\s*(?:${labels})\\s*[:-]\\s*(.+)$`, 'im'))?.[1].trim();
+
+/**
+ * Pull the fields we auto-fill from OCR text: patient, date, diagnoses,
+ * lab values and vitals. Medications are left to the user to enter.
+ */
+export const extractMedicalData = (text: string): OCRResult['extractedData'] => {
+  const extracted: OCRResult['extractedData'] = {};
+
+  const patientName = labelledValue(text, "patient(?:'s)?\\s*name|patient|name");
+  if (patientName) extracted.patientName = patientName;
+
+  const date = text.match(/\bdate\s*[:-]?\s*(\d{4}-\d{2}-\d{2}|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})/i)?.[1];
+  if (date) extracted.date = date;
+
+  const diagnosis = labelledValue(text, 'diagnosis|d\\/dx|dx|impression|provisional diagnosis');
+  if (diagnosis) extracted.diagnosis = diagnosis.split(/[,;]/).map(item => item.trim()).filter(Boolean);
+
+  const labResults = text.split('\n').flatMap(line => {
+    const match = line.trim().match(LAB_LINE);
+    if (!match) return [];
+    const [, test, value, unit, rest] = match;
+    const flag = rest.match(/\b(high|low|h|l)\b/i)?.[1].toLowerCase();
+    const range = rest.match(/\d+(?:\.\d+)?\s*-\s*\d+(?:\.\d+)?/)?.[0];
+    return [{
+      test: test.trim(),
+      value,
+      unit,
+      ...(flag ? { reference: flag.startsWith('h') ? 'High' : 'Low' } : range && { reference: range.replace(/\s+/g, '') }),
+    }];
+  });
+  if (labResults.length > 0) extracted.labResults = labResults;
 
-    case 'image':
-      return {
-        ...baseResult,
-        text: `${baseResult.text}\n\nPRESCRIPTION\nDr. Sarah Johnson\nDate: 2024-01-20\nPatient: John Doe\nNote: Prescription details should be entered manually by the user\nRefills: 3\nNext Appointment: 2024-04-20`,
-        extractedData: {
-          patientName: "John Doe",
-          date: "2024-01-20",
-          medications: [], // Disabled - users should enter medications manually
-        }
-      };
+  const vitals = VITAL_PATTERNS.flatMap(({ measurement, pattern, unit }) => {
+    const value = text.match(pattern)?.[1];
+    return value ? [{ measurement, value: value.replace(/\s+/g, ''), unit }] : [];
+  });
+  if (vitals.length > 0) extracted.vitals = vitals;
 
-    default:
-      return baseResult;
-  }
+  return extracted;
+};
+
+/**
+ * OCR a document and extract its medical fields. Text already cached in
+ * `document.content` is reused; use `ocrDocument` to get a document to store.
+ */
+export const processMedicalDocument = async (document: Document, options: OcrOptions = {}): Promise<OCRResult> => {
+  const cached = Boolean(document.content);
+  const processed = await ocrDocument(document, options);
+  const text = processed.content || '';
+
+  return {
+    text,
+    confidence: processed.ocr?.confidence ?? (text ? 1 : 0),
+    lines: processed.ocr?.lines ?? text.split('\n').filter(line => line.trim()).map(line => ({ text: line.trim(), confidence: 1 })),
+    cached,
+    extractedData: extractMedicalData(text),
+  };
 };
 
 export const extractMedicalKeywords = (text: string): string[] => {
@@ -334,36 +480,4 @@ export const formatMedicationsForPrescription = (medications: string[]): string
     .join('\n');
 };
 
-// Debug function for testing OCR prescription parsing
-export const debugOCRPrescription = () => {
-  const testMedications = [
-    "Metformin 500mg - Take 1 tablet twice daily with meals",
-    "1. Lisinopril 10mg - Take 1 tablet daily in the morning",
-    "Atorvastatin 20mg - Take 1 tablet at bedtime",
-    "Aspirin 81mg - Take 1 tablet daily with food",
-    "Metoprolol 25mg - Take 1 tablet BID",
-    "Albuterol 90mcg - Take 2 puffs every 4-6 hours as needed",
-    "Vitamin D3",
-    "Omeprazole 20mg - Take 1 capsule before breakfast",
-    "Amoxicillin 500mg - Take 1 capsule TID for 7 days",
-    "Insulin glargine - Inject 10 units subcutaneously at bedtime"
-  ];
-
-  console.log('🧪 OCR Prescription Auto-Fill Test Results\n');
-  console.log('📋 Individual Medication Parsing:\n');
-
-  testMedications.forEach((med, index) => {
-    const parsed = parseMedicationFromText(med);
-    console.log(`${index + 1}. Input: "${med}"`);
-    console.log(`   Parsed:`, parsed);
-    console.log('');
-  });
-
-  console.log('💊 Formatted Prescription:\n');
-  const formatted = formatMedicationsForPrescription(testMedications);
-  console.log(formatted);
-
-  return { testMedications, formatted };
-};
-
 export default processMedicalDocument;
\ No newline at end of file
@@ -1,8 +1,19 @@
 // This will be available globally from the script tag in index.html
 declare const jspdf: any;
 
-import type { Patient, Reminder, Medication, MedicalRecord, Doctor } from '../types';
+import type { Patient, Reminder, Medication, MedicalRecord, Doctor, HypertensionRecord } from '../types';
 import { summarizeMedicalHistory } from './geminiService';
+import {
+    analyseMorningEvening,
+    classifyBloodPressure,
+    BP_CATEGORIES,
+    DRUG_CLASS_LABELS,
+    formatBloodPressure,
+    getActiveMedications,
+    getLatestReading,
+    getPeriodAverages,
+} from './hypertensionService';
+import { AGP_TARGETS, AGP_THRESHOLDS, type AgpReport } from './agpService';
 
 const MARGIN = 15;
 const PAGE_WIDTH = 210;
@@ -110,6 +121,37 @@ function addMedicationsSection(meds: Medication[]): void {
     });
 }
 
+// Adds Hypertension section with home BP averages and medications
+function addHypertensionSection(record: HypertensionRecord): void {
+    addSectionHeader('Hypertension');
+
+    addDetail('Target', `Below ${record.targetSystolic}/${record.targetDiastolic} mmHg`);
+
+    const latest = getLatestReading(record.readings);
+    if (!latest) {
+        addWrappedText("No home blood pressure readings logged.", { x: MARGIN + 4 });
+        yPos += 2;
+    } else {
+        const category = BP_CATEGORIES[classifyBloodPressure(latest.systolic, latest.diastolic)].label;
+        addDetail('Latest', `${formatBloodPressure(latest)} mmHg${latest.pulse ? `, pulse ${latest.pulse}` : ''} on ${latest.date} at ${latest.time} (${category})`);
+
+        getPeriodAverages(record).forEach(({ days, average, atTarget }) => {
+            addDetail(`${days}-day average`, average
+                ? `${formatBloodPressure(average)} mmHg from ${average.count} readings, ${atTarget}% at target`
+                : 'No readings');
+        });
+
+        const { morning, evening, systolicDifference } = analyseMorningEvening(record.readings);
+        if (morning && evening) {
+            addDetail('AM vs PM', `Morning ${formatBloodPressure(morning)} vs evening ${formatBloodPressure(evening)} mmHg (${systolicDifference! > 0 ? '+' : ''}${systolicDifference} systolic)`);
+        }
+    }
+
+    getActiveMedications(record.medications).forEach(med => {
+        addDetail('Medication', `${med.name} ${med.dosage}, ${med.frequency} (${DRUG_CLASS_LABELS[med.drugClass]})`);
+    });
+}
+
 // Adds Reminders section
 function addRemindersSection(reminders: Reminder[]): void {
     addSectionHeader('Reminders');
@@ -290,15 +332,129 @@ export const generatePatientPdf = async (patient: Patient, doctors: Doctor[]) =>
     addMedicationsSection(patient.currentMedications || []);
     yPos += 5;
 
-    // --- 4. REMINDERS ---
+    // --- 4. HYPERTENSION ---
+    if (patient.hypertensionRecord) {
+        addHypertensionSection(patient.hypertensionRecord);
+        yPos += 5;
+    }
+
+    // --- 5. REMINDERS ---
     addRemindersSection(patient.reminders || []);
     yPos += 5;
     
-    // --- 5. RECORDS ---
+    // --- 6. RECORDS ---
     await addRecordsSection(patient.records || [], doctors);
     
-    // --- 6. FOOTER ---
+    // --- 7. FOOTER ---
     addPageNumbers();
 
     doc.save(`${patient.name.replace(/\s+/g, '_')}_health_record.pdf`);
-};
\ No newline at end of file
+};
+
+const AGP_RANGE_ROWS: { key: keyof AgpReport['ranges']; label: string; target: string; color: number[] }[] = [
+    { key: 'veryHigh', label: 'Very high (>250 mg/dL)', target: `<${AGP_TARGETS.veryHigh}%`, color: [249, 115, 22] },
+    { key: 'high', label: 'High (181-250 mg/dL)', target: `<${AGP_TARGETS.high}%`, color: [250, 204, 21] },
+    { key: 'inRange', label: 'In range (70-180 mg/dL)', target: `>${AGP_TARGETS.inRange}%`, color: [34, 197, 94] },
+    { key: 'low', label: 'Low (54-69 mg/dL)', target: `<${AGP_TARGETS.low}%`, color: [239, 68, 68] },
+    { key: 'veryLow', label: 'Very low (<54 mg/dL)', target: `<${AGP_TARGETS.veryLow}%`, color: [153, 27, 27] },
+];
+
+// Percentile bands by hour, drawn as steps across each hour
+function addAgpChart(report: AgpReport, top: number, height: number): void {
+    const maxGlucose = 350;
+    const toY = (value: number) => top + (1 - Math.min(value, maxGlucose) / maxGlucose) * height;
+    const left = MARGIN + 10;
+    const width = MAX_WIDTH - 10;
+    const hourWidth = width / 24;
+
+    doc.setFillColor(220, 252, 231);
+    doc.rect(left, toY(AGP_THRESHOLDS.high), width, toY(AGP_THRESHOLDS.low) - toY(AGP_THRESHOLDS.high), 'F');
+
+    report.profile.forEach(bin => {
+        const x = left + bin.hour * hourWidth;
+        doc.setFillColor(191, 219, 254);
+        doc.rect(x, toY(bin.p95), hourWidth, toY(bin.p5) - toY(bin.p95), 'F');
+        doc.setFillColor(96, 165, 250);
+        doc.rect(x, toY(bin.p75), hourWidth, toY(bin.p25) - toY(bin.p75), 'F');
+    });
+
+    doc.setDrawColor(30, 58, 138);
+    doc.setLineWidth(0.6);
+    report.profile.slice(1).forEach((bin, i) => {
+        const previous = report.profile[i];
+        doc.line(left + (previous.hour + 0.5) * hourWidth, toY(previous.p50), left + (bin.hour + 0.5) * hourWidth, toY(bin.p50));
+    });
+    doc.setLineWidth(0.2);
+
+    doc.setFontSize(7);
+    doc.setTextColor(107, 114, 128);
+    [54, 70, 180, 250].forEach(value => {
+        doc.setDrawColor(value === 70 || value === 180 ? 22 : 209, value === 70 || value === 180 ? 163 : 213, value === 70 || value === 180 ? 74 : 219);
+        doc.line(left, toY(value), left + width, toY(value));
+        doc.text(String(value), left - 2, toY(value) + 1, { align: 'right' });
+    });
+    [0, 6, 12, 18, 24].forEach(hour => {
+        const label = hour === 0 || hour === 24 ? '12am' : hour === 12 ? '12pm' : hour < 12 ? `${hour}am` : `${hour - 12}pm`;
+        doc.text(label, left + hour * hourWidth, top + height + 4, { align: 'center' });
+    });
+}
+
+/**
+ * One-page Ambulatory Glucose Profile for clinic visits
+ */
+export const generateAgpPdf = (patient: Patient, report: AgpReport) => {
+    const { jsPDF } = jspdf;
+    doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    yPos = MARGIN;
+
+    doc.setFontSize(20);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(31, 41, 55);
+    doc.text('Ambulatory Glucose Profile', MARGIN, yPos);
+    yPos += 7;
+    addWrappedText(`${patient.name} • ${report.from} to ${report.to} (${report.days} days) • ${report.readingCount} readings`);
+
+    addSectionHeader('Glucose Statistics');
+    addDetail('Mean glucose', `${report.mean} mg/dL (SD ${report.sd})`);
+    addDetail('GMI', `${report.gmi}% (estimated HbA1c)`);
+    addDetail('Variability', `CV ${report.cv}% (target ${AGP_TARGETS.cv}% or lower)`);
+    if (report.sensorActive !== undefined) {
+        addDetail('Sensor active', `${report.sensorActive}% of the period`);
+    }
+
+    addSectionHeader('Time in Ranges');
+    AGP_RANGE_ROWS.forEach(row => {
+        doc.setFillColor(row.color[0], row.color[1], row.color[2]);
+        doc.rect(MARGIN + 4, yPos - 3, 3, 3, 'F');
+        addWrappedText(row.label, { x: MARGIN + 10 });
+        yPos -= LINE_HEIGHT;
+        addWrappedText(`${report.ranges[row.key]}%`, { x: MARGIN + 80, isBold: true, color: [31, 41, 55] });
+        yPos -= LINE_HEIGHT;
+        addWrappedText(`target ${row.target}`, { x: MARGIN + 100 });
+        yPos += 1;
+    });
+
+    addSectionHeader('Glucose Profile by Time of Day');
+    if (report.profile.length > 1) {
+        addAgpChart(report, yPos, 60);
+        yPos += 68;
+        addWrappedText('Line: median. Dark band: 25th-75th percentile. Light band: 5th-95th percentile. Green: 70-180 mg/dL.', { fontSize: 8 });
+    } else {
+        addWrappedText('Not enough readings across the day for a profile.');
+    }
+
+    addSectionHeader(`Low Glucose Episodes (${report.episodes.length})`);
+    if (report.episodes.length === 0) {
+        addWrappedText('No readings below 70 mg/dL in this period.');
+    }
+    // Keep the report to one page; the rest are counted in the header
+    report.episodes.slice(0, 6).forEach(episode => {
+        const duration = episode.durationMinutes !== undefined ? `, ${episode.durationMinutes} min` : '';
+        addWrappedText(`${episode.date} ${episode.time} - lowest ${episode.nadir} mg/dL (level ${episode.level}${duration})`, { x: MARGIN + 4 });
+    });
+    if (report.episodes.length > 6) {
+        addWrappedText(`and ${report.episodes.length - 6} more`, { x: MARGIN + 4 });
+    }
+
+    doc.save(`${patient.name.replace(/\s+/g, '_')}_AGP_${report.to}.pdf`);
+};
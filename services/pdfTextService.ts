@@ -0,0 +1,176 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { recognizeImage, type OcrOptions } from './ocrService';
+import type { OcrLine } from '../types';
+
+/**
+ * PDF Text Service
+ *
+ * Reads the text layer of digital PDFs (most lab reports) with pdf.js, keeping
+ * the page and position of every text run. Pages without a usable text layer
+ * are scanned images: those are rendered to a canvas and sent through OCR.
+ *
+ * pdf.js is loaded on first use and parses in its own Web Worker.
+ */
+
+// A page with fewer printable characters than this is treated as scanned
+const MIN_TEXT_LAYER_CHARS = 20;
+// Render scale for OCR; ~144 dpi, which Tesseract reads reliably
+const OCR_RENDER_SCALE = 2;
+
+export interface PdfTextItem {
+  text: string;
+  // Top-left origin, in PDF points
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfPageText {
+  pageNumber: number;
+  width: number;
+  height: number;
+  source: 'text-layer' | 'ocr';
+  text: string;
+  items: PdfTextItem[]; // Empty for OCR'd pages
+  lines: OcrLine[]; // OCR'd pages only
+  confidence?: number; // OCR'd pages only, 0-1
+}
+
+export interface PdfTextResult {
+  text: string;
+  pages: PdfPageText[];
+}
+
+export interface PdfTextOptions extends OcrOptions {
+  // Skip the OCR fallback, leaving scanned pages empty
+  ocrScannedPages?: boolean;
+}
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+const loadPdfjs = () => {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist').then(pdfjs => {
+      pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+};
+
+const isTextItem = (item: object): item is TextItem => 'str' in item;
+
+/**
+ * Rebuild reading-order lines from positioned text runs: runs whose
+ * baselines are within half a line height share a line, ordered left to right.
+ */
+export const itemsToLines = (items: PdfTextItem[]): string[] => {
+  const rows: PdfTextItem[][] = [];
+
+  [...items]
+    .filter(item => item.text.trim())
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .forEach(item => {
+      const row = rows[rows.length - 1];
+      const tolerance = Math.max(item.height, row?.[0].height || 0, 1) / 2;
+      if (row && Math.abs(row[0].y - item.y) <= tolerance) {
+        row.push(item);
+      } else {
+        rows.push([item]);
+      }
+    });
+
+  return rows.map(row =>
+    row
+      .sort((a, b) => a.x - b.x)
+      .reduce((line, item, i) => {
+        if (i === 0) return item.text;
+        const previous = row[i - 1];
+        const gap = item.x - (previous.x + previous.width);
+        // Runs that touch are parts of one word; wide gaps separate table columns
+        const separator = gap > item.height * 2 ? '  ' : gap > item.height * 0.15 ? ' ' : '';
+        return line.endsWith(' ') || item.text.startsWith(' ') ? line + item.text : line + separator + item.text;
+      }, '')
+      .replace(/\s+$/, '')
+  );
+};
+
+const renderPageToBlob = async (page: PDFPageProxy): Promise<Blob> => {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  await page.render({ canvas, canvasContext: canvas.getContext('2d'), viewport }).promise;
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not render PDF page'))), 'image/png')
+  );
+};
+
+/**
+ * Extract the text of every page of a PDF, OCR'ing scanned pages
+ */
+export const extractPdfText = async (
+  source: Blob | ArrayBuffer | Uint8Array,
+  options: PdfTextOptions = {}
+): Promise<PdfTextResult> => {
+  const { ocrScannedPages = true, onProgress } = options;
+  const pdfjs = await loadPdfjs();
+  const data = source instanceof Uint8Array
+    ? source
+    : new Uint8Array(source instanceof ArrayBuffer ? source : await source.arrayBuffer());
+  const pdf = await pdfjs.getDocument({ data }).promise;
+
+  try {
+    const pages: PdfPageText[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 1 });
+      const content = await page.getTextContent();
+
+      const items: PdfTextItem[] = content.items.filter(isTextItem).map(item => ({
+        text: item.str,
+        x: item.transform[4],
+        // PDF space grows upwards from the baseline; flip to a top-left origin
+        y: viewport.height - item.transform[5],
+        width: item.width,
+        height: item.height,
+      }));
+      const text = itemsToLines(items).join('\n');
+      const printable = text.replace(/\s/g, '').length;
+
+      if (printable >= MIN_TEXT_LAYER_CHARS || !ocrScannedPages) {
+        pages.push({ pageNumber, width: viewport.width, height: viewport.height, source: 'text-layer', text, items, lines: [] });
+      } else {
+        const ocr = await recognizeImage(await renderPageToBlob(page), {
+          onProgress: onProgress && (progress => onProgress({ ...progress, status: `page ${pageNumber}: ${progress.status}` })),
+        });
+        pages.push({
+          pageNumber,
+          width: viewport.width,
+          height: viewport.height,
+          source: 'ocr',
+          text: ocr.text,
+          items: [],
+          lines: ocr.lines,
+          confidence: ocr.confidence,
+        });
+      }
+
+      page.cleanup();
+      onProgress?.({ status: 'reading pages', progress: pageNumber / pdf.numPages });
+    }
+
+    return {
+      text: pages.map(page => page.text).filter(Boolean).join('\n\n'),
+      pages,
+    };
+  } finally {
+    await pdf.destroy();
+  }
+};
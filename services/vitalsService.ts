@@ -0,0 +1,358 @@
+/**
+ * Vitals Service
+ *
+ * Vital signs are kept as a time series on the patient, one reading per
+ * vital, in a fixed unit per type (mmHg, bpm, °F, breaths/min, %, kg, cm).
+ * Readings come from manual entry and from the vitals written in visit notes.
+ * Normal ranges depend on age: a resting heart rate of 120 is normal for a
+ * toddler and high for an adult. BMI is computed from the latest weight and
+ * height rather than stored.
+ */
+
+import type { LabFlag, Patient, VitalSign, VitalType } from '../types';
+import type { ParsedMedicalData } from './medicalRecordParser';
+
+export interface VitalRange {
+  low?: number;
+  high?: number;
+  // Diastolic bounds for blood pressure
+  secondaryLow?: number;
+  secondaryHigh?: number;
+  minAge?: number; // Inclusive, in years
+  maxAge?: number; // Exclusive, in years
+}
+
+export interface VitalDefinition {
+  type: VitalType;
+  label: string;
+  unit: string;
+  decimals: number;
+  // Other units readings are entered in, converted to `unit`
+  conversions?: Record<string, (value: number) => number>;
+  // The first range matching the patient's age applies
+  ranges: VitalRange[];
+  critical?: { low?: number; high?: number; secondaryLow?: number; secondaryHigh?: number };
+}
+
+export interface VitalSignInput {
+  type: VitalType;
+  value: number | string; // "140/90" for blood pressure
+  unit?: string;
+  date: string;
+  source?: VitalSign['source'];
+  recordId?: string;
+  notes?: string;
+}
+
+export interface VitalTrend {
+  type: VitalType;
+  label: string;
+  unit: string;
+  readings: VitalSign[]; // Oldest first
+  latest: VitalSign;
+  previous?: VitalSign;
+  change?: number; // Systolic change for blood pressure
+  direction: 'up' | 'down' | 'stable';
+  flag?: LabFlag;
+  range?: VitalRange;
+}
+
+export type BmiCategory = 'underweight' | 'normal' | 'overweight' | 'obese';
+
+export interface BmiResult {
+  value: number;
+  category?: BmiCategory; // Adult categories only; children need growth charts
+  date: string; // Of the weight it was computed from
+}
+
+const scale = (factor: number) => (value: number) => value * factor;
+
+export const VITAL_DEFINITIONS: Record<VitalType, VitalDefinition> = {
+  bloodPressure: {
+    type: 'bloodPressure',
+    label: 'Blood Pressure',
+    unit: 'mmHg',
+    decimals: 0,
+    ranges: [
+      { low: 70, high: 100, secondaryLow: 35, secondaryHigh: 65, maxAge: 1 },
+      { low: 80, high: 110, secondaryLow: 45, secondaryHigh: 70, minAge: 1, maxAge: 6 },
+      { low: 90, high: 115, secondaryLow: 55, secondaryHigh: 75, minAge: 6, maxAge: 13 },
+      { low: 90, high: 120, secondaryLow: 60, secondaryHigh: 80 },
+    ],
+    critical: { low: 70, high: 180, secondaryHigh: 120 },
+  },
+  heartRate: {
+    type: 'heartRate',
+    label: 'Heart Rate',
+    unit: 'bpm',
+    decimals: 0,
+    ranges: [
+      { low: 100, high: 160, maxAge: 1 },
+      { low: 90, high: 150, minAge: 1, maxAge: 3 },
+      { low: 80, high: 140, minAge: 3, maxAge: 6 },
+      { low: 70, high: 120, minAge: 6, maxAge: 12 },
+      { low: 60, high: 100 },
+    ],
+    critical: { low: 40, high: 180 },
+  },
+  temperature: {
+    type: 'temperature',
+    label: 'Temperature',
+    unit: '°F',
+    decimals: 1,
+    conversions: { c: value => value * 9 / 5 + 32 },
+    ranges: [{ low: 97, high: 99.5 }],
+    critical: { low: 95, high: 104 },
+  },
+  respiratoryRate: {
+    type: 'respiratoryRate',
+    label: 'Respiratory Rate',
+    unit: 'breaths/min',
+    decimals: 0,
+    ranges: [
+      { low: 30, high: 60, maxAge: 1 },
+      { low: 24, high: 40, minAge: 1, maxAge: 3 },
+      { low: 22, high: 34, minAge: 3, maxAge: 6 },
+      { low: 18, high: 30, minAge: 6, maxAge: 12 },
+      { low: 12, high: 20 },
+    ],
+    critical: { low: 8, high: 40 },
+  },
+  oxygenSaturation: {
+    type: 'oxygenSaturation',
+    label: 'Oxygen Saturation',
+    unit: '%',
+    decimals: 0,
+    ranges: [{ low: 95 }],
+    critical: { low: 90 },
+  },
+  weight: {
+    type: 'weight',
+    label: 'Weight',
+    unit: 'kg',
+    decimals: 1,
+    conversions: { lb: scale(0.45359237) },
+    ranges: [],
+  },
+  height: {
+    type: 'height',
+    label: 'Height',
+    unit: 'cm',
+    decimals: 1,
+    conversions: { in: scale(2.54), m: scale(100) },
+    ranges: [],
+  },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  '°f': 'f', f: 'f', '°c': 'c', c: 'c',
+  kgs: 'kg', kg: 'kg', lb: 'lb', lbs: 'lb', pounds: 'lb',
+  cm: 'cm', in: 'in', inch: 'in', inches: 'in', m: 'm',
+};
+
+const unitKey = (unit: string) => {
+  const key = unit.trim().toLowerCase().replace(/\s+/g, '');
+  return UNIT_ALIASES[key] || key;
+};
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const ageAt = (dateOfBirth: string, date: string): number | undefined => {
+  const birth = new Date(dateOfBirth);
+  const on = new Date(date);
+  if (isNaN(birth.getTime()) || isNaN(on.getTime())) return undefined;
+
+  let age = on.getFullYear() - birth.getFullYear();
+  const monthDiff = on.getMonth() - birth.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && on.getDate() < birth.getDate())) {
+    age--;
+  }
+  return age;
+};
+
+/**
+ * The normal range for a vital at the patient's age on a given date. Without
+ * a date of birth the adult range applies.
+ */
+export const getVitalRange = (
+  type: VitalType,
+  patient?: Pick<Patient, 'dateOfBirth'>,
+  date: string = new Date().toISOString()
+): VitalRange | undefined => {
+  const age = patient?.dateOfBirth ? ageAt(patient.dateOfBirth, date) : undefined;
+  const ranges = VITAL_DEFINITIONS[type].ranges;
+
+  if (age === undefined) return ranges[ranges.length - 1];
+  return ranges.find(range =>
+    (range.minAge === undefined || age >= range.minAge) &&
+    (range.maxAge === undefined || age < range.maxAge)
+  );
+};
+
+/**
+ * Flag a reading against its age-appropriate range. Blood pressure is high
+ * when either number is high.
+ */
+export const flagVital = (vital: VitalSign, patient?: Pick<Patient, 'dateOfBirth'>): LabFlag | undefined => {
+  const { critical } = VITAL_DEFINITIONS[vital.type];
+  const range = getVitalRange(vital.type, patient, vital.date);
+  const diastolic = vital.secondaryValue;
+
+  if (critical?.high !== undefined && vital.value > critical.high) return 'critical-high';
+  if (critical?.secondaryHigh !== undefined && diastolic !== undefined && diastolic > critical.secondaryHigh) return 'critical-high';
+  if (critical?.low !== undefined && vital.value < critical.low) return 'critical-low';
+  if (!range) return undefined;
+  if (range.high !== undefined && vital.value > range.high) return 'high';
+  if (range.secondaryHigh !== undefined && diastolic !== undefined && diastolic > range.secondaryHigh) return 'high';
+  if (range.low !== undefined && vital.value < range.low) return 'low';
+  if (range.secondaryLow !== undefined && diastolic !== undefined && diastolic < range.secondaryLow) return 'low';
+  return 'normal';
+};
+
+/**
+ * Build a reading from an entered value, converting it to the type's unit.
+ * Temperatures without a unit are read as °C when they are below 45.
+ * Returns null when the value is not a number.
+ */
+export const createVitalSign = (input: VitalSignInput): VitalSign | null => {
+  const definition = VITAL_DEFINITIONS[input.type];
+  const text = String(input.value).trim();
+  let value: number;
+  let secondaryValue: number | undefined;
+
+  if (input.type === 'bloodPressure') {
+    const match = text.match(/^(\d{2,3})\s*\/\s*(\d{2,3})$/);
+    if (!match) return null;
+    value = parseInt(match[1], 10);
+    secondaryValue = parseInt(match[2], 10);
+  } else {
+    value = typeof input.value === 'number' ? input.value : parseFloat(text);
+  }
+  if (!Number.isFinite(value)) return null;
+
+  let unit = input.unit ? unitKey(input.unit) : undefined;
+  if (!unit && input.type === 'temperature' && value < 45) unit = 'c';
+  const convert = unit && unit !== unitKey(definition.unit) ? definition.conversions?.[unit] : undefined;
+  if (unit && unit !== unitKey(definition.unit) && !convert) return null;
+
+  return {
+    id: `vital-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    type: input.type,
+    date: input.date,
+    value: round(convert ? convert(value) : value, definition.decimals),
+    ...(secondaryValue !== undefined && { secondaryValue }),
+    unit: definition.unit,
+    ...(convert && { reportedValue: `${text} ${input.unit?.trim() || '°C'}` }),
+    source: input.source || 'manual',
+    ...(input.recordId && { recordId: input.recordId }),
+    ...(input.notes && { notes: input.notes }),
+  };
+};
+
+/**
+ * Readings from the vitals written in a visit note ("BP 140/90", "Wt 72 kg"),
+ * dated to the visit
+ */
+export const vitalsFromParsedData = (
+  vitals: ParsedMedicalData['vitals'],
+  visit: { date: string; recordId?: string }
+): VitalSign[] =>
+  Object.entries(vitals || {})
+    .filter(([type, value]) => value && type in VITAL_DEFINITIONS)
+    .map(([type, value]) => {
+      const [, amount, unit] = value!.match(/^(\d+(?:\.\d+)?(?:\/\d+)?)\s*°?\s*([a-z]*)$/i) || [];
+      return amount
+        ? createVitalSign({
+            type: type as VitalType,
+            value: amount,
+            unit: unit || undefined,
+            date: visit.date,
+            source: 'record',
+            recordId: visit.recordId,
+          })
+        : null;
+    })
+    .filter((vital): vital is VitalSign => vital !== null);
+
+const sameReading = (a: VitalSign, b: VitalSign) =>
+  a.type === b.type &&
+  a.date.slice(0, 10) === b.date.slice(0, 10) &&
+  a.value === b.value &&
+  a.secondaryValue === b.secondaryValue;
+
+/**
+ * Add new readings, skipping ones already recorded (same vital, day and
+ * value), so saving a record again does not duplicate its vitals
+ */
+export const mergeVitalSigns = (existing: VitalSign[], incoming: VitalSign[]): VitalSign[] =>
+  incoming.reduce(
+    (merged, vital) => (merged.some(current => sameReading(current, vital)) ? merged : [...merged, vital]),
+    existing
+  );
+
+const byDate = (a: VitalSign, b: VitalSign) => new Date(a.date).getTime() - new Date(b.date).getTime();
+
+/**
+ * One trend per vital with readings, in the order of VITAL_DEFINITIONS
+ */
+export const getVitalTrends = (vitals: VitalSign[], patient?: Pick<Patient, 'dateOfBirth'>): VitalTrend[] =>
+  (Object.keys(VITAL_DEFINITIONS) as VitalType[])
+    .map(type => {
+      const readings = vitals.filter(vital => vital.type === type).sort(byDate);
+      if (readings.length === 0) return null;
+
+      const definition = VITAL_DEFINITIONS[type];
+      const latest = readings[readings.length - 1];
+      const previous = readings.length > 1 ? readings[readings.length - 2] : undefined;
+      const change = previous ? round(latest.value - previous.value, definition.decimals) : undefined;
+
+      return {
+        type,
+        label: definition.label,
+        unit: definition.unit,
+        readings,
+        latest,
+        previous,
+        change,
+        direction: change === undefined || change === 0 ? 'stable' : change > 0 ? 'up' : 'down',
+        flag: flagVital(latest, patient),
+        range: getVitalRange(type, patient, latest.date),
+      } as VitalTrend;
+    })
+    .filter((trend): trend is VitalTrend => trend !== null);
+
+export const calculateBmi = (weightKg: number, heightCm: number): number =>
+  round(weightKg / (heightCm / 100) ** 2, 1);
+
+export const bmiCategory = (bmi: number): BmiCategory =>
+  bmi < 18.5 ? 'underweight' : bmi < 25 ? 'normal' : bmi < 30 ? 'overweight' : 'obese';
+
+/**
+ * BMI from the latest weight and the latest height taken on or before it
+ */
+export const getBmi = (vitals: VitalSign[], patient?: Pick<Patient, 'dateOfBirth'>): BmiResult | undefined => {
+  const weights = vitals.filter(vital => vital.type === 'weight').sort(byDate);
+  const weight = weights[weights.length - 1];
+  if (!weight) return undefined;
+
+  const heights = vitals.filter(vital => vital.type === 'height' && byDate(vital, weight) <= 0).sort(byDate);
+  const height = heights[heights.length - 1] || vitals.filter(vital => vital.type === 'height').sort(byDate)[0];
+  if (!height || height.value <= 0) return undefined;
+
+  const value = calculateBmi(weight.value, height.value);
+  const age = patient?.dateOfBirth ? ageAt(patient.dateOfBirth, weight.date) : undefined;
+  return {
+    value,
+    ...((age === undefined || age >= 18) && { category: bmiCategory(value) }),
+    date: weight.date,
+  };
+};
+
+export const formatVitalValue = (vital: Pick<VitalSign, 'type' | 'value' | 'secondaryValue'>): string => {
+  const { unit } = VITAL_DEFINITIONS[vital.type];
+  const value = vital.type === 'bloodPressure' ? `${vital.value}/${vital.secondaryValue ?? '?'}` : `${vital.value}`;
+  return unit === '%' || unit === '°F' ? `${value}${unit}` : `${value} ${unit}`;
+};
@@ -1,9 +1,21 @@
-import type { Patient, MedicalRecord, Doctor } from '../types';
+import type { Patient, MedicalRecord, Doctor, HypertensionRecord, Medication } from '../types';
+import {
+  analyseMorningEvening,
+  classifyBloodPressure,
+  BP_CATEGORIES,
+  formatBloodPressure,
+  getActiveMedications,
+  getLatestReading,
+  getPeriodAverages,
+} from './hypertensionService';
+import { ADHERENCE_DEFAULT_DAYS, getMissedDoses, getPatientAdherence } from './adherenceService';
 
 interface ShareOptions {
   includeFullHistory?: boolean;
   includeMedications?: boolean;
+  includeAdherence?: boolean;
   includeAllergies?: boolean;
+  includeHypertension?: boolean;
   includeRecentVisits?: boolean;
   maxRecentVisits?: number;
   customMessage?: string;
@@ -20,7 +32,9 @@ export class WhatsAppShareService {
     const {
       includeFullHistory = true,
       includeMedications = true,
+      includeAdherence = true,
       includeAllergies = true,
+      includeHypertension = true,
       includeRecentVisits = true,
       maxRecentVisits = 3,
       customMessage = ''
@@ -65,6 +79,11 @@ export class WhatsAppShareService {
       message += '\n';
     }
 
+    // Adherence
+    if (includeAdherence && patient.currentMedications) {
+      message += this.generateAdherenceSummary(patient.currentMedications);
+    }
+
     // Allergies
     if (includeAllergies && patient.allergies && patient.allergies.length > 0) {
       message += `⚠️ *Allergies*\n`;
@@ -74,6 +93,11 @@ export class WhatsAppShareService {
       message += '\n';
     }
 
+    // Blood Pressure
+    if (includeHypertension && patient.hypertensionRecord) {
+      message += this.generateHypertensionSummary(patient.hypertensionRecord);
+    }
+
     // Recent Visits
     if (includeRecentVisits && patient.records && patient.records.length > 0) {
       message += `🗓️ *Recent Medical Visits* (Last ${maxRecentVisits})\n`;
@@ -191,6 +215,72 @@ export class WhatsAppShareService {
     return message;
   }
 
+  /**
+   * Summarize home blood pressure averages and antihypertensive medications
+   */
+  static generateHypertensionSummary(record: HypertensionRecord): string {
+    let message = `❤️ *Blood Pressure*\n`;
+    message += `Target: below ${record.targetSystolic}/${record.targetDiastolic} mmHg\n`;
+
+    const latest = getLatestReading(record.readings);
+    if (latest) {
+      const category = BP_CATEGORIES[classifyBloodPressure(latest.systolic, latest.diastolic)].label;
+      message += `Latest: ${formatBloodPressure(latest)} mmHg (${category}) on ${new Date(latest.date).toLocaleDateString()}\n`;
+
+      getPeriodAverages(record).forEach(({ days, average, atTarget }) => {
+        if (average) {
+          message += `${days}-day average: ${formatBloodPressure(average)} mmHg (${average.count} readings, ${atTarget}% at target)\n`;
+        }
+      });
+
+      const { morning, evening } = analyseMorningEvening(record.readings);
+      if (morning && evening) {
+        message += `Morning vs evening: ${formatBloodPressure(morning)} vs ${formatBloodPressure(evening)} mmHg\n`;
+      }
+    } else {
+      message += `No home readings logged yet\n`;
+    }
+
+    getActiveMedications(record.medications).forEach(med => {
+      message += `• ${med.name}`;
+      if (med.dosage) message += ` - ${med.dosage}`;
+      if (med.frequency) message += ` (${med.frequency})`;
+      message += '\n';
+    });
+
+    return message + '\n';
+  }
+
+  /**
+   * Summarize dose adherence for medications with recorded doses. Empty when
+   * no doses have been recorded.
+   */
+  static generateAdherenceSummary(medications: Medication[], now: Date = new Date()): string {
+    const adherence = getPatientAdherence(medications, ADHERENCE_DEFAULT_DAYS, now);
+    if (adherence.medications.length === 0) return '';
+
+    let message = `📈 *Medication Adherence* (Last ${adherence.days} days)\n`;
+    if (adherence.percent !== undefined) {
+      message += `Overall: ${adherence.percent}% (${adherence.taken + adherence.late} of ${adherence.due} doses taken)\n`;
+    }
+
+    adherence.medications.forEach(med => {
+      message += `• ${med.medicationName}: `;
+      message += med.percent !== undefined ? `${med.percent}%` : 'no doses due yet';
+      if (med.late) message += `, ${med.late} late`;
+      if (med.skipped) message += `, ${med.skipped} skipped`;
+      if (med.missed) message += `, ${med.missed} missed`;
+      message += '\n';
+    });
+
+    const [lastMissed] = getMissedDoses(medications, ADHERENCE_DEFAULT_DAYS, now);
+    if (lastMissed) {
+      message += `Last missed dose: ${lastMissed.medicationName} on ${new Date(`${lastMissed.date}T${lastMissed.time}`).toLocaleDateString()} at ${lastMissed.time}\n`;
+    }
+
+    return message + '\n';
+  }
+
   /**
    * Share via WhatsApp Web
    */
@@ -1,4 +1,4 @@
-import React, { memo, useState, useCallback } from 'react';
+import React, { memo, useState, useCallback, useMemo } from 'react';
 import { useOptimizedPatientData } from '../../hooks/useOptimizedPatientData';
 import { useOptimizedApp } from '../../contexts/OptimizedAppContext';
 import { useToast } from '../../hooks/useToast';
@@ -7,6 +7,7 @@ import RecordFormModal from '../modals/RecordFormModal';
 import { databaseService } from '../../services/databaseService';
 import { generatePatientPdf } from '../../services/pdfService';
 import AIAssistant from '../AIAssistant';
+import { formatVitalValue, getVitalTrends } from '../../../services/vitalsService';
 import type { MedicalRecord } from '../../types';
 import './EHRDashboard.css';
 
@@ -87,6 +88,19 @@ const VitalCard = memo(({ icon, label, value, status, trend, lastUpdated }: Vita
 
 VitalCard.displayName = 'VitalCard';
 
+const VITAL_ICONS: Record<string, string> = {
+  bloodPressure: 'favorite',
+  heartRate: 'monitor_heart',
+  temperature: 'thermostat',
+  respiratoryRate: 'pulmonology',
+  oxygenSaturation: 'spo2',
+  weight: 'monitor_weight',
+  height: 'height',
+};
+
+const vitalStatus = (flag?: string): VitalCardProps['status'] =>
+  flag?.startsWith('critical') ? 'critical' : flag === 'low' || flag === 'high' ? 'warning' : 'normal';
+
 export const EHRDashboard = memo(function EHRDashboard() {
   const {
     currentPatient,
@@ -98,6 +112,10 @@ export const EHRDashboard = memo(function EHRDashboard() {
   } = useOptimizedPatientData();
 
   const { state, actions } = useOptimizedApp();
+  const vitalTrends = useMemo(
+    () => getVitalTrends(currentPatient?.vitalSigns || [], currentPatient),
+    [currentPatient]
+  );
   const { showSuccess, showError } = useToast();
   const [showShareModal, setShowShareModal] = useState(false);
   const [showRecordModal, setShowRecordModal] = useState(false);
@@ -300,38 +318,21 @@ export const EHRDashboard = memo(function EHRDashboard() {
       <div className="vital-signs-section">
         <h2>Vital Signs</h2>
         <div className="vital-signs-grid">
-          <VitalCard
-            icon="favorite"
-            label="Blood Pressure"
-            value="120/80"
-            status="normal"
-            trend="stable"
-            lastUpdated="2 hours ago"
-          />
-          <VitalCard
-            icon="monitor_heart"
-            label="Heart Rate"
-            value="72 bpm"
-            status="normal"
-            trend="stable"
-            lastUpdated="2 hours ago"
-          />
-          <VitalCard
-            icon="thermostat"
-            label="Temperature"
-            value="98.6°F"
-            status="normal"
-            trend="stable"
-            lastUpdated="1 hour ago"
-          />
-          <VitalCard
-            icon="monitor_weight"
-            label="Weight"
-            value="165 lbs"
-            status="normal"
-            trend="down"
-            lastUpdated="1 day ago"
-          />
+          {vitalTrends.length === 0 ? (
+            <p className="empty-message">No vitals recorded yet</p>
+          ) : (
+            vitalTrends.map(trend => (
+              <VitalCard
+                key={trend.type}
+                icon={VITAL_ICONS[trend.type]}
+                label={trend.label}
+                value={formatVitalValue(trend.latest)}
+                status={vitalStatus(trend.flag)}
+                trend={trend.previous ? trend.direction : undefined}
+                lastUpdated={new Date(trend.latest.date).toLocaleDateString()}
+              />
+            ))
+          )}
         </div>
       </div>
 
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import type { DoseEvent, Medication, Patient } from '../../types';
+import {
+  createDoseEvent,
+  getDosesForDay,
+  getMedicationAdherence,
+  getMissedDoses,
+  getPatientAdherence,
+  getStreak,
+  recordDoseEvent,
+} from '../../services/adherenceService';
+import { WhatsAppShareService } from '../../services/whatsappService';
+
+// Wednesday 10 January 2024, 13:00 local time
+const now = new Date(2024, 0, 10, 13, 0);
+
+const dose = (date: string, scheduledTime: string, status: DoseEvent['status'] = 'taken'): DoseEvent => ({
+  id: `dose-${date}-${scheduledTime}`,
+  date,
+  scheduledTime,
+  status,
+  recordedAt: `${date}T${scheduledTime}:00`,
+});
+
+const medication = (doseLog: DoseEvent[], fields: Partial<Medication> = {}): Medication => ({
+  id: 'med-metformin',
+  name: 'Metformin',
+  dosage: '500mg',
+  frequency: 'Twice daily',
+  timings: ['20:00', '08:00'],
+  doseLog,
+  ...fields,
+});
+
+// Both doses taken every day from the 7th to yesterday
+const takenSince7th = [7, 8, 9].flatMap(day => [dose(`2024-01-0${day}`, '08:00'), dose(`2024-01-0${day}`, '20:00')]);
+
+describe('scheduled doses', () => {
+  it('lists a day of doses in time order with their status', () => {
+    const doses = getDosesForDay(medication([dose('2024-01-10', '08:00', 'late')]), '2024-01-10', now);
+
+    expect(doses.map(d => [d.time, d.status])).toEqual([['08:00', 'late'], ['20:00', 'upcoming']]);
+  });
+
+  it('counts a dose as missed once the grace period has passed', () => {
+    const med = medication([], { timings: ['11:30', '12:30'] });
+
+    expect(getDosesForDay(med, '2024-01-10', now).map(d => d.status)).toEqual(['missed', 'due']);
+  });
+
+  it('has no doses outside the start and end dates', () => {
+    const med = medication([], { startDate: '2024-01-05', endDate: '2024-01-08' });
+
+    expect(getDosesForDay(med, '2024-01-04', now)).toEqual([]);
+    expect(getDosesForDay(med, '2024-01-09', now)).toEqual([]);
+    expect(getDosesForDay(med, '2024-01-06', now)).toHaveLength(2);
+  });
+});
+
+describe('recording doses', () => {
+  it('records doses taken after the grace period as late', () => {
+    expect(createDoseEvent('2024-01-10', '08:00', 'taken', new Date(2024, 0, 10, 8, 45)).status).toBe('taken');
+    expect(createDoseEvent('2024-01-10', '08:00', 'taken', new Date(2024, 0, 10, 9, 30)).status).toBe('late');
+    expect(createDoseEvent('2024-01-10', '08:00', 'skipped', new Date(2024, 0, 10, 12, 0)).status).toBe('skipped');
+  });
+
+  it('replaces an earlier event for the same dose', () => {
+    const log = recordDoseEvent([dose('2024-01-10', '08:00', 'skipped')], dose('2024-01-10', '08:00', 'late'));
+
+    expect(log).toHaveLength(1);
+    expect(log[0].status).toBe('late');
+  });
+});
+
+describe('adherence', () => {
+  it('counts from the first recorded dose', () => {
+    const med = medication([...takenSince7th, dose('2024-01-10', '08:00', 'late')]);
+
+    expect(getMedicationAdherence(med, 30, now)).toMatchObject({
+      due: 7,
+      taken: 6,
+      late: 1,
+      missed: 0,
+      percent: 100,
+    });
+  });
+
+  it('counts skipped and missed doses against adherence', () => {
+    const med = medication([dose('2024-01-08', '08:00'), dose('2024-01-08', '20:00', 'skipped'), dose('2024-01-09', '08:00')]);
+
+    expect(getMedicationAdherence(med, 30, now)).toMatchObject({ due: 5, taken: 2, skipped: 1, missed: 2, percent: 40 });
+    expect(getMissedDoses([med], 30, now).map(d => `${d.date} ${d.time}`)).toEqual(['2024-01-10 08:00', '2024-01-09 20:00']);
+  });
+
+  it('only counts the chosen period', () => {
+    const med = medication([dose('2024-01-01', '08:00', 'skipped'), ...takenSince7th, dose('2024-01-10', '08:00')]);
+
+    expect(getMedicationAdherence(med, 3, now)).toMatchObject({ due: 5, skipped: 0, percent: 100 });
+    expect(getMedicationAdherence(med, 10, now)).toMatchObject({ skipped: 1, missed: 11 });
+  });
+
+  it('keeps a streak going until a dose is missed or skipped', () => {
+    expect(getStreak(medication([...takenSince7th, dose('2024-01-10', '08:00')]), now)).toBe(3);
+    expect(getStreak(medication([...takenSince7th, dose('2024-01-10', '08:00'), dose('2024-01-10', '20:00')]), now)).toBe(4);
+    expect(getStreak(medication([...takenSince7th.slice(0, 5)]), now)).toBe(0);
+  });
+
+  it('combines tracked medications for the patient and leaves out untracked ones', () => {
+    const adherence = getPatientAdherence([
+      medication([dose('2024-01-09', '08:00'), dose('2024-01-09', '20:00'), dose('2024-01-10', '08:00')]),
+      medication([dose('2024-01-10', '08:00', 'skipped')], { id: 'med-lisinopril', name: 'Lisinopril', timings: ['08:00'] }),
+      medication([], { id: 'med-aspirin', name: 'Aspirin', timings: ['09:00'] }),
+    ], 30, now);
+
+    expect(adherence.medications.map(m => m.medicationName)).toEqual(['Metformin', 'Lisinopril']);
+    expect(adherence).toMatchObject({ due: 4, taken: 3, skipped: 1, percent: 75 });
+  });
+});
+
+describe('WhatsApp summary', () => {
+  it('includes adherence for tracked medications', () => {
+    const summary = WhatsAppShareService.generateAdherenceSummary(
+      [medication([dose('2024-01-09', '08:00'), dose('2024-01-10', '08:00')])],
+      now
+    );
+
+    expect(summary).toContain('📈 *Medication Adherence* (Last 30 days)');
+    expect(summary).toContain('Overall: 67% (2 of 3 doses taken)');
+    expect(summary).toContain('• Metformin: 67%, 1 missed');
+    expect(summary).toContain('Last missed dose: Metformin');
+  });
+
+  it('leaves adherence out when no doses have been recorded', () => {
+    const patient = {
+      id: 'patient-1',
+      name: 'Test Patient',
+      currentMedications: [medication([])],
+    } as unknown as Patient;
+
+    expect(WhatsAppShareService.generatePatientSummary(patient)).not.toContain('Adherence');
+  });
+});
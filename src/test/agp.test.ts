@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { BloodGlucoseReading } from '../../types';
+import {
+  percentile,
+  calculateGmi,
+  calculateRangeShares,
+  buildHourlyProfile,
+  detectHypoglycemiaEpisodes,
+  buildAgpReport,
+} from '../../services/agpService';
+
+let nextId = 0;
+const reading = (date: string, time: string, value: number, source: BloodGlucoseReading['source'] = 'cgm'): BloodGlucoseReading => ({
+  id: `g-${nextId++}`,
+  date,
+  time,
+  value,
+  type: 'random',
+  source,
+});
+
+// Readings every 15 minutes from `start` on one day
+const series = (date: string, start: string, values: number[]) => {
+  const [hours, minutes] = start.split(':').map(Number);
+  return values.map((value, i) => {
+    const total = hours * 60 + minutes + i * 15;
+    const time = `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+    return reading(date, time, value);
+  });
+};
+
+describe('glucose statistics', () => {
+  it('interpolates percentiles', () => {
+    const sorted = [60, 80, 100, 120, 200];
+    expect(percentile(sorted, 50)).toBe(100);
+    expect(percentile(sorted, 25)).toBe(80);
+    expect(percentile(sorted, 95)).toBe(184);
+  });
+
+  it('estimates GMI from mean glucose', () => {
+    expect(calculateGmi(154)).toBe(7);
+    expect(calculateGmi(100)).toBe(5.7);
+  });
+
+  it('splits readings at the consensus thresholds', () => {
+    expect(calculateRangeShares([50, 54, 69, 70, 180, 181, 250, 251, 120, 140])).toEqual({
+      veryLow: 10,
+      low: 20,
+      inRange: 40,
+      high: 20,
+      veryHigh: 10,
+    });
+  });
+
+  it('builds percentile bands for hours with enough readings', () => {
+    const profile = buildHourlyProfile([
+      ...series('2024-06-01', '08:00', [100, 110, 120, 130]),
+      ...series('2024-06-02', '08:00', [140]),
+      ...series('2024-06-02', '13:00', [150, 160]),
+    ]);
+
+    expect(profile).toEqual([{ hour: 8, count: 5, p5: 102, p25: 110, p50: 120, p75: 130, p95: 138 }]);
+  });
+});
+
+describe('detectHypoglycemiaEpisodes', () => {
+  it('counts CGM lows lasting 15 minutes until glucose is back above 70', () => {
+    const episodes = detectHypoglycemiaEpisodes([
+      ...series('2024-06-01', '02:00', [90, 68, 60, 52, 66, 75, 90]),
+      // Five minutes below 70 is not an episode
+      reading('2024-06-01', '15:00', 80),
+      reading('2024-06-01', '15:05', 69),
+      reading('2024-06-01', '15:10', 82),
+    ]);
+
+    expect(episodes).toEqual([{ date: '2024-06-01', time: '02:15', durationMinutes: 60, nadir: 52, level: 2 }]);
+  });
+
+  it('splits runs at gaps in the data', () => {
+    const episodes = detectHypoglycemiaEpisodes([
+      reading('2024-06-01', '03:00', 65),
+      reading('2024-06-01', '03:15', 64),
+      reading('2024-06-01', '05:00', 62),
+      reading('2024-06-01', '05:15', 61),
+      reading('2024-06-01', '05:30', 63),
+    ]);
+
+    expect(episodes.map(e => [e.time, e.durationMinutes, e.level])).toEqual([
+      ['03:00', 15, 1],
+      ['05:00', 30, 1],
+    ]);
+  });
+
+  it('counts each low fingerstick reading', () => {
+    const episodes = detectHypoglycemiaEpisodes([
+      reading('2024-06-01', '07:00', 64, 'glucometer'),
+      reading('2024-06-02', '07:00', 110, 'glucometer'),
+    ]);
+
+    expect(episodes).toEqual([{ date: '2024-06-01', time: '07:00', durationMinutes: undefined, nadir: 64, level: 1 }]);
+  });
+});
+
+describe('buildAgpReport', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('summarises the last 14 days of readings', () => {
+    const readings = [
+      ...series('2024-06-14', '00:00', [100, 140, 180, 220]),
+      ...series('2024-06-01', '00:00', [120, 60]),
+      // Outside the 14 days
+      reading('2024-05-31', '23:45', 300),
+    ];
+
+    const report = buildAgpReport(readings, 14, '2024-06-14')!;
+
+    expect(report).toMatchObject({
+      from: '2024-06-01',
+      to: '2024-06-14',
+      readingCount: 6,
+      mean: 137,
+      gmi: 6.6,
+      ranges: { veryLow: 0, low: 16.7, inRange: 66.7, high: 16.7, veryHigh: 0 },
+    });
+    expect(report.cv).toBeCloseTo(41.8, 1);
+    expect(report.sensorActive).toBe(0);
+  });
+
+  it('ends on the local calendar day by default', () => {
+    vi.useFakeTimers({ now: new Date(2024, 5, 14, 0, 30) });
+
+    const report = buildAgpReport([reading('2024-06-14', '00:15', 110)])!;
+
+    expect(report).toMatchObject({ from: '2024-06-01', to: '2024-06-14', readingCount: 1 });
+  });
+
+  it('has no report without readings in the period', () => {
+    expect(buildAgpReport([reading('2024-01-01', '08:00', 120)], 14, '2024-06-14')).toBeUndefined();
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { AllergyRecord, Patient } from '../../types';
+import {
+  AllergyConflictError,
+  applyAllergyOverride,
+  checkMedicationAllergies,
+  createAllergyRecord,
+  detectDrugClass,
+  findUnacknowledgedConflicts,
+  getChangedMedications,
+  getPatientAllergies,
+} from '../../services/allergyService';
+import { useSecureHealthStore } from '../../stores/useSecureHealthStore';
+
+vi.mock('../../services/secureStorageService', () => ({
+  secureStorage: { updatePatient: vi.fn(async () => undefined) },
+}));
+
+const allergy = (fields: Partial<AllergyRecord> & Pick<AllergyRecord, 'substance'>): AllergyRecord => ({
+  id: `allergy-${fields.substance}`,
+  category: 'drug',
+  severity: 'severe',
+  verification: 'verified',
+  ...fields,
+});
+
+describe('detectDrugClass', () => {
+  it('finds the class from a drug, brand or class name', () => {
+    expect(detectDrugClass('Amoxicillin 500mg')?.key).toBe('penicillins');
+    expect(detectDrugClass('Augmentin')?.key).toBe('penicillins');
+    expect(detectDrugClass('Sulfa drugs')?.key).toBe('sulfonamides');
+    expect(detectDrugClass('NSAIDs')?.key).toBe('nsaids');
+    expect(detectDrugClass('Metformin')).toBeUndefined();
+  });
+
+  it('fills in the class of new drug allergies only', () => {
+    expect(createAllergyRecord({ substance: ' Penicillin ', category: 'drug', severity: 'severe', verification: 'verified' }))
+      .toMatchObject({ substance: 'Penicillin', drugClass: 'penicillins' });
+    expect(createAllergyRecord({ substance: 'Peanuts', category: 'food', severity: 'severe', verification: 'verified' }).drugClass)
+      .toBeUndefined();
+  });
+});
+
+describe('checkMedicationAllergies', () => {
+  const penicillin = allergy({ substance: 'Penicillin', drugClass: 'penicillins' });
+
+  it('flags a drug in the same class as the allergy', () => {
+    const [conflict] = checkMedicationAllergies('Amoxicillin', [penicillin]);
+
+    expect(conflict).toMatchObject({ match: 'same-class', drugClass: 'Penicillins', risk: 'high' });
+  });
+
+  it('flags the allergen itself', () => {
+    expect(checkMedicationAllergies('Penicillin V 250mg', [penicillin])[0].match).toBe('same-drug');
+  });
+
+  it('flags known cross-reactive classes as lower risk', () => {
+    const [conflict] = checkMedicationAllergies('Cefalexin', [penicillin]);
+
+    expect(conflict).toMatchObject({ match: 'cross-reactive', drugClass: 'Cephalosporins', risk: 'low' });
+  });
+
+  it('ignores unrelated drugs and food allergies that share a class word', () => {
+    expect(checkMedicationAllergies('Metformin', [penicillin])).toEqual([]);
+    expect(checkMedicationAllergies('Ibuprofen', [allergy({ substance: 'Eggs', category: 'food' })])).toEqual([]);
+  });
+
+  it('checks free-text allergies from older records', () => {
+    const allergies = getPatientAllergies({
+      allergies: ['Sulfa drugs', 'Penicillin'],
+      allergyRecords: [penicillin],
+    });
+
+    expect(allergies.map(a => [a.substance, a.verification])).toEqual([
+      ['Penicillin', 'verified'],
+      ['Sulfa drugs', 'self-reported'],
+    ]);
+    expect(checkMedicationAllergies('Bactrim DS', allergies)[0]).toMatchObject({ match: 'same-class', risk: 'high' });
+  });
+});
+
+describe('overrides', () => {
+  const allergies = [allergy({ substance: 'Penicillin', drugClass: 'penicillins' })];
+
+  it('stores the reason on conflicting medications only', () => {
+    const [amoxicillin, metformin] = applyAllergyOverride(
+      [{ name: 'Amoxicillin' }, { name: 'Metformin' }],
+      allergies,
+      ' Tolerated in hospital ',
+      '2024-06-01T10:00:00.000Z'
+    );
+
+    expect(amoxicillin.allergyOverride).toEqual({
+      reason: 'Tolerated in hospital',
+      substances: ['Penicillin'],
+      overriddenAt: '2024-06-01T10:00:00.000Z',
+    });
+    expect(metformin.allergyOverride).toBeUndefined();
+  });
+
+  it('only reports conflicts that have not been overridden', () => {
+    const overridden = applyAllergyOverride([{ name: 'Amoxicillin' }], allergies, 'Tolerated');
+    const conflicts = findUnacknowledgedConflicts([...overridden, { name: 'Ampicillin' }], allergies);
+
+    expect(conflicts.map(c => c.medicationName)).toEqual(['Ampicillin']);
+    expect(new AllergyConflictError(conflicts).message).toContain('Ampicillin is in the same class');
+  });
+
+  it('checks medications added or renamed since the list was saved', () => {
+    const saved = [{ id: 'm1', name: 'Metformin' }, { id: 'm2', name: 'Amoxicillin' }];
+    const [amoxicillin] = applyAllergyOverride([saved[1]], allergies, 'Tolerated');
+    const changed = getChangedMedications(saved, [
+      { id: 'm1', name: 'Metformin' },
+      { ...amoxicillin, name: 'Ibuprofen' },
+      { id: 'm3', name: 'Ampicillin' },
+    ]);
+
+    expect(changed.map(m => m.id)).toEqual(['m2', 'm3']);
+    // The override was given for penicillin, so it does not cover a new NSAID allergy
+    const withNsaid = [...allergies, allergy({ substance: 'Aspirin', drugClass: 'nsaids' })];
+    expect(findUnacknowledgedConflicts(changed, withNsaid).map(c => c.medicationName)).toEqual(['Ibuprofen', 'Ampicillin']);
+  });
+});
+
+describe('updating a patient', () => {
+  const patient = {
+    id: 'p1',
+    name: 'Asha Verma',
+    allergies: ['Penicillin'],
+    currentMedications: [{ id: 'm1', name: 'Metformin', dosage: '500mg', frequency: 'Twice daily' }],
+    reminders: [],
+  } as unknown as Patient;
+  const amoxicillin = { id: 'm2', name: 'Amoxicillin', dosage: '500mg', frequency: 'Three times daily' };
+
+  const medicationsOfP1 = () =>
+    useSecureHealthStore.getState().patients.find(p => p.id === 'p1')?.currentMedications.map(m => m.name);
+
+  it('refuses new medications that conflict with an allergy', async () => {
+    useSecureHealthStore.setState({ patients: [patient] });
+
+    await expect(useSecureHealthStore.getState().updatePatient('p1', {
+      currentMedications: [...patient.currentMedications, amoxicillin],
+    })).rejects.toBeInstanceOf(AllergyConflictError);
+    expect(medicationsOfP1()).toEqual(['Metformin']);
+  });
+
+  it('saves restored medications as they are when asked to skip the check', async () => {
+    useSecureHealthStore.setState({ patients: [patient] });
+
+    await useSecureHealthStore.getState().updatePatient('p1', {
+      currentMedications: [...patient.currentMedications, amoxicillin],
+    }, { skipAllergyCheck: true });
+    expect(medicationsOfP1()).toEqual(['Metformin', 'Amoxicillin']);
+  });
+});
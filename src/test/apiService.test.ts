@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { MedicalRecord, Medication } from '../../types';
+import { ApiError, apiService } from '../../services/apiService';
+
+type Row = Record<string, unknown>;
+
+// Stands in for the Express API: keeps rows the way the database returns them
+const fakeServer = () => {
+  const tables: Record<string, Row[]> = { 'medical-records': [], medications: [] };
+
+  // Same checks and defaults as the routes in backend/src/routes
+  const required: Record<string, string[]> = {
+    'medical-records': ['patient_id', 'record_date'],
+    medications: ['patient_id', 'name', 'dosage', 'frequency'],
+  };
+  const defaults: Record<string, Row> = {
+    'medical-records': { symptoms: null, follow_up_date: null, severity: 'medium' },
+    medications: { route: 'oral', end_date: null, is_active: true, updated_at: '2024-01-10T08:00:00.000Z' },
+  };
+
+  // DATE columns come back as timestamps
+  const asStored = (row: Row): Row => Object.fromEntries(Object.entries(row).map(([key, value]) => [
+    key,
+    /_date$/.test(key) && typeof value === 'string' ? `${value}T00:00:00.000Z` : value,
+  ]));
+
+  const json = (status: number, body: unknown) => ({
+    ok: status < 400,
+    status,
+    json: async () => body,
+  });
+
+  return vi.fn(async (url: string, init: { method?: string; body?: string } = {}) => {
+    const table = new URL(url).pathname.split('/').pop() || '';
+    const rows = tables[table];
+    const body = init.body ? JSON.parse(init.body) : {};
+
+    if (!rows) return json(404, { success: false, error: 'Not found' });
+
+    if (init.method === 'POST') {
+      const missing = required[table].filter(field => !body[field]);
+      if (missing.length > 0) {
+        return json(400, { success: false, error: `${missing.join(' and ')} are required` });
+      }
+      const row = { id: `${table}-${rows.length + 1}`, ...defaults[table], ...body };
+      rows.push(row);
+      return json(201, { success: true, data: asStored(row) });
+    }
+
+    return json(200, { success: true, data: rows.map(asStored) });
+  });
+};
+
+let fetchMock: ReturnType<typeof fakeServer>;
+
+beforeEach(() => {
+  fetchMock = fakeServer();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('medical records API', () => {
+  it('sends records in the API column names and reads them back unchanged', async () => {
+    const record: Omit<MedicalRecord, 'id'> = {
+      date: '2024-01-10',
+      doctorId: 'doc-1',
+      complaint: 'Headache',
+      investigations: 'BP 150/95',
+      diagnosis: 'Hypertension',
+      prescription: 'Amlodipine 5mg OD',
+      notes: 'Review in 2 weeks',
+      documents: [],
+    };
+
+    const created = await apiService.createMedicalRecord('patient-1', record);
+    const sent = JSON.parse(fetchMock.mock.calls[0][1]?.body || '{}');
+
+    expect(sent).toMatchObject({ patient_id: 'patient-1', record_date: '2024-01-10', doctor_id: 'doc-1' });
+    expect(sent).not.toHaveProperty('date');
+    expect(created.data).toEqual({ id: 'medical-records-1', ...record });
+
+    const { data } = await apiService.getMedicalRecords('patient-1');
+    expect(data).toEqual([{ id: 'medical-records-1', ...record }]);
+  });
+});
+
+describe('medications API', () => {
+  it('sends medications in the API column names and reads them back unchanged', async () => {
+    const medication: Omit<Medication, 'id'> = {
+      name: 'Amoxicillin',
+      dosage: '1 capsule',
+      frequency: 'Three times daily',
+      prescribedBy: 'doc-1',
+      startDate: '2024-01-10',
+      endDate: '2024-01-14',
+      notes: 'After food',
+    };
+
+    const created = await apiService.createMedication('patient-1', medication);
+    const sent = JSON.parse(fetchMock.mock.calls[0][1]?.body || '{}');
+
+    expect(sent).toEqual({
+      patient_id: 'patient-1',
+      name: 'Amoxicillin',
+      dosage: '1 capsule',
+      frequency: 'Three times daily',
+      prescribed_by: 'doc-1',
+      start_date: '2024-01-10',
+      end_date: '2024-01-14',
+      instructions: 'After food',
+    });
+    expect(created.data).toEqual({ id: 'medications-1', ...medication });
+
+    const { data } = await apiService.getMedications('patient-1');
+    expect(data).toEqual([{ id: 'medications-1', ...medication }]);
+  });
+});
+
+describe('record documents API', () => {
+  type Call = [string, { method?: string; headers?: Record<string, string>; body?: unknown }];
+
+  // Answers each request in turn with the next status and body
+  const replies = (...responses: [number, unknown][]) => {
+    const mock = vi.fn();
+    responses.forEach(([status, body]) => mock.mockResolvedValueOnce({
+      ok: status < 400,
+      status,
+      json: async () => body,
+      blob: async () => new Blob([JSON.stringify(body)]),
+    }));
+    vi.stubGlobal('fetch', mock);
+    return mock;
+  };
+
+  const document = { id: 'doc-1', medical_record_id: 'rec-1', original_name: 'scan.pdf', file_type: 'pdf', file_size: 4, mime_type: 'application/pdf', uploaded_at: '2024-01-10T08:00:00.000Z' };
+
+  beforeEach(async () => {
+    replies([200, { success: true, token: 'access-1', refreshToken: 'refresh-1' }]);
+    await apiService.login({ email: 'asha@example.com', password: 'secret' });
+  });
+
+  afterEach(() => {
+    apiService.clearToken();
+  });
+
+  it('refreshes an expired token and replays the upload as multipart', async () => {
+    const mock = replies(
+      [401, { error: 'Token expired' }],
+      [200, { success: true, token: 'access-2', refreshToken: 'refresh-2' }],
+      [201, { success: true, data: document }]
+    );
+
+    const result = await apiService.uploadDocument('rec-1', new File(['%PDF'], 'scan.pdf', { type: 'application/pdf' }));
+
+    expect(result.data).toEqual(document);
+    const [url, init] = mock.mock.calls[2] as Call;
+    expect(url).toMatch(/\/medical-records\/rec-1\/documents$/);
+    expect(init.body).toBeInstanceOf(FormData);
+    expect(init.headers).toEqual({ Authorization: 'Bearer access-2' });
+  });
+
+  it('refreshes an expired token before downloading', async () => {
+    const mock = replies(
+      [401, { error: 'Token expired' }],
+      [200, { success: true, token: 'access-2', refreshToken: 'refresh-2' }],
+      [200, 'file contents']
+    );
+
+    const blob = await apiService.downloadDocument('rec-1', 'doc-1');
+
+    expect(blob).toBeInstanceOf(Blob);
+    expect((mock.mock.calls[2] as Call)[1].headers).toMatchObject({ Authorization: 'Bearer access-2' });
+  });
+
+  it('reports failed downloads with their status', async () => {
+    replies([404, { error: 'Document not found' }]);
+
+    const download = apiService.downloadDocument('rec-1', 'doc-missing');
+
+    await expect(download).rejects.toBeInstanceOf(ApiError);
+    await expect(download).rejects.toMatchObject({ status: 404, message: 'Document not found' });
+  });
+});
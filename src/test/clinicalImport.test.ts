@@ -0,0 +1,331 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseFhirBundle,
+  parseCcdaDocument,
+  parseClinicalDocument,
+  previewClinicalImport,
+  applyClinicalImport,
+  ClinicalImportError,
+} from '../../services/clinicalImportService';
+import { buildFhirBundle } from '../../services/fhirExportService';
+import { Patient, Doctor } from '../../types';
+
+const doctors: Doctor[] = [{ id: 'd1', name: 'Dr. Anil Mehta', specialty: 'Cardiology' }];
+
+const makePatient = (overrides: Partial<Patient> = {}): Patient => ({
+  id: 'p1',
+  name: 'Asha Verma',
+  dateOfBirth: '1968-04-12',
+  gender: 'female',
+  contactInfo: { phone: '+91 98765 43210', email: 'asha@example.com', city: 'Pune', pincode: '411001' },
+  hospitalIds: [{ id: 'h1', hospitalName: 'Ruby Hall Clinic', patientId: 'RHC-0042' }],
+  avatarUrl: '',
+  medicalHistory: '',
+  allergies: ['Penicillin'],
+  conditions: ['Hypertension'],
+  records: [
+    {
+      id: 'r1',
+      date: '2024-03-10',
+      doctorId: 'd1',
+      complaint: 'Chest pain',
+      investigations: 'ECG normal',
+      diagnosis: 'Stable angina',
+      prescription: 'Tab Sorbitrate 5mg SOS',
+      notes: '',
+      documents: [],
+    },
+  ],
+  reminders: [],
+  appointments: [],
+  currentMedications: [
+    { id: 'm1', name: 'Metformin', strength: '500mg', dosage: '1 tablet', frequency: 'Twice daily', timings: ['08:00', '20:00'] },
+  ],
+  ...overrides,
+});
+
+const dischargeSummary = `<?xml version="1.0" encoding="UTF-8"?>
+<ClinicalDocument xmlns="urn:hl7-org:v3" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <title>Discharge Summary</title>
+  <effectiveTime value="20240620"/>
+  <recordTarget>
+    <patientRole>
+      <id root="2.16.840.1.113883.19.5" extension="AIIMS-7781" assigningAuthorityName="AIIMS Delhi"/>
+      <addr><streetAddressLine>12 MG Road</streetAddressLine><city>Pune</city><state>MH</state><postalCode>411001</postalCode></addr>
+      <telecom value="tel:+91 98765 43210"/>
+      <patient>
+        <name><given>Asha</given><family>Verma</family></name>
+        <administrativeGenderCode code="F" codeSystem="2.16.840.1.113883.5.1"/>
+        <birthTime value="19680412"/>
+      </patient>
+    </patientRole>
+  </recordTarget>
+  <componentOf>
+    <encompassingEncounter>
+      <id extension="ENC-5521"/>
+      <effectiveTime><low value="20240615"/><high value="20240620"/></effectiveTime>
+      <responsibleParty><assignedEntity><assignedPerson><name><prefix>Dr.</prefix><given>Anil</given><family>Mehta</family></name></assignedPerson></assignedEntity></responsibleParty>
+    </encompassingEncounter>
+  </componentOf>
+  <component><structuredBody>
+    <component><section>
+      <code code="46239-0" codeSystem="2.16.840.1.113883.6.1"/>
+      <text>Breathlessness on exertion</text>
+    </section></component>
+    <component><section>
+      <code code="48765-2" codeSystem="2.16.840.1.113883.6.1"/>
+      <text><content ID="allergy1">Sulfa drugs</content></text>
+      <entry><act classCode="ACT" moodCode="EVN"><entryRelationship typeCode="SUBJ"><observation classCode="OBS" moodCode="EVN">
+        <participant typeCode="CSM"><participantRole><playingEntity>
+          <code nullFlavor="OTH"><originalText><reference value="#allergy1"/></originalText></code>
+        </playingEntity></participantRole></participant>
+      </observation></entryRelationship></act></entry>
+      <entry><act classCode="ACT" moodCode="EVN"><entryRelationship typeCode="SUBJ"><observation classCode="OBS" moodCode="EVN">
+        <participant typeCode="CSM"><participantRole><playingEntity>
+          <code code="7980" displayName="Penicillin G"/>
+          <name>penicillin</name>
+        </playingEntity></participantRole></participant>
+      </observation></entryRelationship></act></entry>
+      <entry><act classCode="ACT" moodCode="EVN"><entryRelationship typeCode="SUBJ"><observation classCode="OBS" moodCode="EVN">
+        <participant typeCode="CSM"><participantRole><playingEntity><code displayName="Penicillin"/></playingEntity></participantRole></participant>
+      </observation></entryRelationship></act></entry>
+    </section></component>
+    <component><section>
+      <code code="11450-4" codeSystem="2.16.840.1.113883.6.1"/>
+      <entry><act classCode="ACT" moodCode="EVN"><entryRelationship typeCode="SUBJ"><observation classCode="OBS" moodCode="EVN">
+        <effectiveTime><low value="2015"/></effectiveTime>
+        <value xsi:type="CD" code="44054006" displayName="Type 2 diabetes mellitus"/>
+        <entryRelationship typeCode="REFR"><observation classCode="OBS" moodCode="EVN">
+          <value xsi:type="CD" code="55561003" displayName="Active"/>
+        </observation></entryRelationship>
+      </observation></entryRelationship></act></entry>
+      <entry><act classCode="ACT" moodCode="EVN"><entryRelationship typeCode="SUBJ"><observation classCode="OBS" moodCode="EVN">
+        <effectiveTime><low value="2010"/><high value="2012"/></effectiveTime>
+        <value xsi:type="CD" displayName="Tuberculosis"/>
+      </observation></entryRelationship></act></entry>
+    </section></component>
+    <component><section>
+      <code code="11535-2" codeSystem="2.16.840.1.113883.6.1"/>
+      <entry><observation classCode="OBS" moodCode="EVN"><value xsi:type="CD" displayName="Heart failure with reduced ejection fraction"/></observation></entry>
+    </section></component>
+    <component><section>
+      <code code="30954-2" codeSystem="2.16.840.1.113883.6.1"/>
+      <entry><organizer classCode="BATTERY" moodCode="EVN">
+        <component><observation classCode="OBS" moodCode="EVN"><code displayName="HbA1c"/><value xsi:type="PQ" value="7.8" unit="%"/></observation></component>
+        <component><observation classCode="OBS" moodCode="EVN"><code displayName="Ejection fraction"/><value xsi:type="PQ" value="35" unit="%"/></observation></component>
+      </organizer></entry>
+    </section></component>
+    <component><section>
+      <code code="8648-8" codeSystem="2.16.840.1.113883.6.1"/>
+      <text>Treated with IV diuretics, improved.</text>
+    </section></component>
+    <component><section>
+      <code code="10183-2" codeSystem="2.16.840.1.113883.6.1"/>
+      <entry><substanceAdministration classCode="SBADM" moodCode="INT">
+        <statusCode code="active"/>
+        <effectiveTime xsi:type="IVL_TS"><low value="20240620"/></effectiveTime>
+        <effectiveTime xsi:type="PIVL_TS" operator="A"><period value="12" unit="h"/></effectiveTime>
+        <doseQuantity value="1"/>
+        <consumable><manufacturedProduct><manufacturedMaterial><code displayName="Metformin 1000mg"/></manufacturedMaterial></manufacturedProduct></consumable>
+      </substanceAdministration></entry>
+      <entry><substanceAdministration classCode="SBADM" moodCode="INT">
+        <statusCode code="active"/>
+        <effectiveTime xsi:type="PIVL_TS" operator="A"><period value="1" unit="d"/></effectiveTime>
+        <doseQuantity value="1"/>
+        <consumable><manufacturedProduct><manufacturedMaterial><code displayName="Furosemide 40 mg"/></manufacturedMaterial></manufacturedProduct></consumable>
+      </substanceAdministration></entry>
+      <entry><substanceAdministration classCode="SBADM" moodCode="INT">
+        <statusCode code="completed"/>
+        <consumable><manufacturedProduct><manufacturedMaterial><code displayName="Ceftriaxone 1g"/></manufacturedMaterial></manufacturedProduct></consumable>
+      </substanceAdministration></entry>
+    </section></component>
+  </structuredBody></component>
+</ClinicalDocument>`;
+
+describe('FHIR import', () => {
+  it('round-trips a patient exported by buildFhirBundle', () => {
+    const source = makePatient();
+    const data = parseFhirBundle(JSON.stringify(buildFhirBundle(source, doctors)));
+
+    expect(data.format).toBe('fhir');
+    expect(data.patient).toMatchObject({
+      name: 'Asha Verma',
+      dateOfBirth: '1968-04-12',
+      gender: 'female',
+      contactInfo: { phone: '+91 98765 43210', email: 'asha@example.com', city: 'Pune', pincode: '411001' },
+    });
+    expect(data.patient.hospitalIds).toEqual([expect.objectContaining({ hospitalName: 'Ruby Hall Clinic', patientId: 'RHC-0042' })]);
+    expect(data.allergies).toEqual(['Penicillin']);
+    expect(data.conditions).toEqual(['Hypertension']);
+    expect(data.records).toHaveLength(1);
+    expect(data.records[0]).toMatchObject({
+      doctorName: 'Dr. Anil Mehta',
+      sourceId: 'r1',
+      record: { date: '2024-03-10', complaint: 'Chest pain', diagnosis: 'Stable angina', investigations: 'ECG normal' },
+    });
+    expect(data.medications[0]).toMatchObject({
+      name: 'Metformin', strength: '500mg', dosage: '1 tablet', frequency: 'Twice daily', timings: ['08:00', '20:00'],
+    });
+  });
+
+  it('re-importing an export into the same patient changes nothing', () => {
+    const patient = makePatient();
+    const preview = previewClinicalImport(parseFhirBundle(buildFhirBundle(patient, doctors)), patient, { doctors });
+
+    expect(preview.demographics).toEqual([]);
+    expect(preview.hospitalIds.added).toEqual([]);
+    expect(preview.records.added).toEqual([]);
+    expect(preview.records.existing).toHaveLength(1);
+    expect(preview.allergies.added).toEqual([]);
+    expect(preview.conditions.added).toEqual([]);
+    expect(preview.medications.summary).toMatchObject({ added: 0, modified: 0, continued: 1 });
+    expect(preview.warnings).toEqual([]);
+  });
+
+  it('skips inactive, refuted and stopped entries', () => {
+    const subject = { reference: 'Patient/x' };
+    const data = parseFhirBundle({
+      resourceType: 'Bundle',
+      type: 'collection',
+      entry: [
+        { resource: { resourceType: 'Patient', id: 'x', name: [{ given: ['Ravi'], family: 'Kumar' }] } },
+        { resource: { resourceType: 'AllergyIntolerance', patient: subject, code: { text: 'Latex' }, verificationStatus: { coding: [{ code: 'refuted' }] } } },
+        { resource: { resourceType: 'Condition', subject, code: { coding: [{ display: 'Asthma' }] } } },
+        { resource: { resourceType: 'Condition', subject, code: { text: 'Appendicitis' }, clinicalStatus: { coding: [{ code: 'resolved' }] } } },
+        { resource: { resourceType: 'MedicationRequest', status: 'active', subject, medicationCodeableConcept: { text: 'Amlodipine 5 mg' }, dosageInstruction: [{ text: '1 tablet, Once daily' }] } },
+        { resource: { resourceType: 'MedicationStatement', status: 'stopped', subject, medicationCodeableConcept: { text: 'Atenolol' } } },
+        { resource: { resourceType: 'Observation', status: 'final', subject, code: { text: 'Weight' }, valueQuantity: { value: 70, unit: 'kg' } } },
+      ],
+    } as any);
+
+    expect(data.patient.name).toBe('Ravi Kumar');
+    expect(data.allergies).toEqual([]);
+    expect(data.conditions).toEqual(['Asthma']);
+    expect(data.medications).toEqual([expect.objectContaining({ name: 'Amlodipine', strength: '5mg', dosage: '1 tablet', frequency: 'Once daily' })]);
+    expect(data.warnings).toContain('1 observation(s) not linked to a visit were skipped');
+  });
+
+  it('rejects documents that are not bundles', () => {
+    expect(() => parseFhirBundle('{"resourceType":"Patient"}')).toThrow(ClinicalImportError);
+    expect(() => parseFhirBundle('not json')).toThrow('The file is not valid JSON');
+  });
+});
+
+describe('C-CDA import', () => {
+  it('reads demographics, lists and the discharge encounter', () => {
+    const data = parseCcdaDocument(dischargeSummary);
+
+    expect(data.format).toBe('ccda');
+    expect(data.patient).toMatchObject({
+      name: 'Asha Verma',
+      dateOfBirth: '1968-04-12',
+      gender: 'female',
+      contactInfo: { phone: '+91 98765 43210', address: '12 MG Road', city: 'Pune', state: 'MH', pincode: '411001' },
+    });
+    expect(data.patient.hospitalIds).toEqual([expect.objectContaining({ hospitalName: 'AIIMS Delhi', patientId: 'AIIMS-7781' })]);
+    expect(data.allergies).toEqual(['Sulfa drugs', 'Penicillin G', 'Penicillin']);
+    // Resolved problems and nested status observations are left out
+    expect(data.conditions).toEqual(['Type 2 diabetes mellitus']);
+    // Completed courses are not current medications
+    expect(data.medications.map(m => [m.name, m.strength, m.frequency])).toEqual([
+      ['Metformin', '1000mg', 'Twice daily'],
+      ['Furosemide', '40mg', 'Once daily'],
+    ]);
+
+    const [{ record, doctorName, sourceId }] = data.records;
+    expect(doctorName).toBe('Dr. Anil Mehta');
+    expect(sourceId).toBe('ENC-5521');
+    expect(record).toMatchObject({
+      date: '2024-06-15',
+      complaint: 'Breathlessness on exertion',
+      diagnosis: 'Heart failure with reduced ejection fraction',
+      investigations: 'HbA1c: 7.8 %\nEjection fraction: 35 %',
+      prescription: 'Metformin 1000mg - 1 unit, Twice daily\nFurosemide 40mg - 1 unit, Once daily',
+    });
+    expect(record.notes).toContain('Treated with IV diuretics');
+  });
+
+  it('rejects XML that is not a ClinicalDocument', () => {
+    expect(() => parseCcdaDocument('<html></html>')).toThrow(ClinicalImportError);
+    expect(() => parseClinicalDocument('name,dob')).toThrow(ClinicalImportError);
+  });
+});
+
+describe('import preview', () => {
+  it('diffs a discharge summary against an existing patient', () => {
+    const patient = makePatient();
+    const preview = previewClinicalImport(parseClinicalDocument(dischargeSummary), patient, { doctors });
+
+    expect(preview.isNewPatient).toBe(false);
+    // merge-preserve only fills blanks
+    expect(preview.demographics.map(d => d.field)).toEqual([]);
+    expect(preview.hospitalIds.added.map(h => h.patientId)).toEqual(['AIIMS-7781']);
+    expect(preview.allergies).toEqual({ added: ['Sulfa drugs', 'Penicillin G'], existing: ['Penicillin'] });
+    expect(preview.conditions.added).toEqual(['Type 2 diabetes mellitus']);
+    expect(preview.records.added).toHaveLength(1);
+    expect(preview.records.added[0].doctorId).toBe('d1');
+
+    const { changes, summary } = preview.medications;
+    expect(summary).toMatchObject({ added: 1, modified: 1, discontinued: 0 });
+    const metformin = changes.find(c => c.changeType === 'modified')!;
+    expect(metformin.medication).toMatchObject({ id: 'm1', strength: '1000mg', timings: ['08:00', '20:00'] });
+    expect(metformin.previousMedication?.strength).toBe('500mg');
+  });
+
+  it('keeps a medication the document lists twice and flags the repeat', () => {
+    const data = parseCcdaDocument(dischargeSummary);
+    data.medications.push({ ...data.medications[0], id: 'med-repeat', strength: '500mg' });
+
+    const { changes, summary, requiresAttention } = previewClinicalImport(data, makePatient()).medications;
+
+    expect(summary).toMatchObject({ added: 2, modified: 1 });
+    expect(changes.find(c => c.changeType === 'modified')?.medication.strength).toBe('1000mg');
+    const repeat = changes.find(c => c.medication.id === 'med-repeat');
+    expect(repeat).toMatchObject({ changeType: 'added', reason: 'Listed more than once in imported document' });
+    expect(requiresAttention).toContain(repeat);
+  });
+
+  it('overwrites demographics only with the merge strategy', () => {
+    const patient = makePatient({ contactInfo: { phone: '+91 90000 00000' } });
+    const data = parseCcdaDocument(dischargeSummary);
+
+    const preserved = previewClinicalImport(data, patient, { mergeStrategy: 'merge-preserve' });
+    expect(preserved.demographics).toEqual([]);
+
+    const merged = previewClinicalImport(data, patient, { mergeStrategy: 'merge' });
+    expect(merged.demographics).toEqual([
+      { field: 'contactInfo', current: patient.contactInfo, imported: expect.objectContaining({ phone: '+91 98765 43210', city: 'Pune' }) },
+    ]);
+  });
+
+  it('warns when the document belongs to someone else', () => {
+    const preview = previewClinicalImport(parseCcdaDocument(dischargeSummary), makePatient({ name: 'Rahul Verma', dateOfBirth: '1995-01-01' }));
+    expect(preview.warnings).toEqual([
+      'The document is for "Asha Verma", not "Rahul Verma"',
+      'Date of birth in the document (1968-04-12) does not match',
+    ]);
+  });
+
+  it('applies a preview to an existing patient', () => {
+    const patient = makePatient();
+    const updated = applyClinicalImport(previewClinicalImport(parseCcdaDocument(dischargeSummary), patient, { doctors }), patient);
+
+    expect(updated.id).toBe('p1');
+    expect(updated.allergies).toEqual(['Penicillin', 'Sulfa drugs', 'Penicillin G']);
+    expect(updated.conditions).toEqual(['Hypertension', 'Type 2 diabetes mellitus']);
+    expect(updated.hospitalIds).toHaveLength(2);
+    expect(updated.records.map(r => r.date)).toEqual(['2024-06-15', '2024-03-10']);
+    expect(updated.currentMedications.map(m => `${m.name} ${m.strength}`)).toEqual(['Metformin 1000mg', 'Furosemide 40mg']);
+    // The original patient object is left untouched
+    expect(patient.records).toHaveLength(1);
+  });
+
+  it('creates a new patient from the document', () => {
+    const created = applyClinicalImport(previewClinicalImport(parseCcdaDocument(dischargeSummary), null), null);
+
+    expect(created).toMatchObject({ name: 'Asha Verma', dateOfBirth: '1968-04-12', gender: 'female' });
+    expect(created.records).toHaveLength(1);
+    expect(created.records[0].notes).toContain('Seen by: Dr. Anil Mehta');
+    expect(created.currentMedications).toHaveLength(2);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import type { Medication, Reminder } from '../../types';
+import { DOSE_REMINDER_PREFIX, getDoseSlots, syncDoseReminders } from '../../services/doseReminderService';
+
+// Wednesday 10 January 2024, 07:00 local time
+const now = new Date(2024, 0, 10, 7, 0);
+
+const medication = (id: string, name: string, timings: string[], fields: Partial<Medication> = {}): Medication => ({
+  id,
+  name,
+  dosage: '1 tablet',
+  frequency: 'Once daily',
+  timings,
+  ...fields,
+});
+
+const metformin = medication('med-metformin', 'Metformin', ['08:00', '20:00']);
+const amlodipine = medication('med-amlodipine', 'Amlodipine', ['08:00']);
+
+const manual: Reminder = {
+  id: 'rem-1',
+  type: 'appointment',
+  title: 'Eye clinic',
+  date: '2024-01-12',
+  time: '10:00',
+  completed: false,
+  priority: 'medium',
+};
+
+describe('dose slots', () => {
+  it('groups active medications by time slot', () => {
+    const slots = getDoseSlots([
+      metformin,
+      amlodipine,
+      medication('med-ibuprofen', 'Ibuprofen', [], { frequency: 'As needed (PRN)' }),
+      medication('med-amoxicillin', 'Amoxicillin', ['14:00'], { endDate: '2024-01-09' }),
+    ], '2024-01-10');
+
+    expect(slots.map(slot => [slot.time, slot.medications.map(m => m.name)])).toEqual([
+      ['08:00', ['Amlodipine', 'Metformin']],
+      ['20:00', ['Metformin']],
+    ]);
+  });
+});
+
+describe('syncing dose reminders', () => {
+  it('creates one daily reminder per time slot and keeps manual reminders', () => {
+    const reminders = syncDoseReminders([manual], [metformin, amlodipine], now);
+
+    expect(reminders[0]).toBe(manual);
+    expect(reminders.slice(1)).toMatchObject([
+      {
+        id: `${DOSE_REMINDER_PREFIX}0800`,
+        type: 'medication',
+        title: '08:00: Amlodipine, Metformin',
+        date: '2024-01-10',
+        time: '08:00',
+        recurrence: 'daily',
+        medicationIds: ['med-amlodipine', 'med-metformin'],
+        completed: false,
+      },
+      { id: `${DOSE_REMINDER_PREFIX}2000`, title: '20:00: Metformin', medicationIds: ['med-metformin'] },
+    ]);
+  });
+
+  it('regenerates without duplicates when a medication is edited or stopped', () => {
+    const first = syncDoseReminders([manual], [metformin, amlodipine], now);
+    const edited = syncDoseReminders(first, [{ ...metformin, timings: ['09:00'] }, amlodipine], now);
+
+    expect(edited.map(r => r.title)).toEqual(['Eye clinic', '08:00: Amlodipine', '09:00: Metformin']);
+
+    const stopped = syncDoseReminders(edited, [metformin, { ...amlodipine, endDate: '2024-01-09' }], now);
+    expect(stopped.map(r => r.title)).toEqual(['Eye clinic', '08:00: Metformin', '20:00: Metformin']);
+
+    expect(syncDoseReminders(stopped, [], now)).toEqual([manual]);
+  });
+
+  it('keeps a slot ticked off for today and clears it the next day', () => {
+    const ticked = syncDoseReminders([], [metformin], now).map(r => (r.time === '08:00' ? { ...r, completed: true } : r));
+
+    expect(syncDoseReminders(ticked, [metformin], now)[0].completed).toBe(true);
+    // A new medication in the slot needs its own dose taken
+    expect(syncDoseReminders(ticked, [metformin, amlodipine], now)[0].completed).toBe(false);
+
+    const tomorrow = syncDoseReminders(ticked, [metformin], new Date(2024, 0, 11, 7, 0));
+    expect(tomorrow[0]).toMatchObject({ date: '2024-01-11', completed: false });
+  });
+});
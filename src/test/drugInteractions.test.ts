@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { DiabetesMedication, Medication } from '../../types';
+import {
+  InteractionDatasetError,
+  collectMedications,
+  compareVersions,
+  findInteractions,
+  importInteractionDataset,
+  loadInteractionDataset,
+  parseInteractionDataset,
+  resolveDrugs,
+  type InteractionDataset,
+} from '../../services/drugInteractionService';
+import { BUILT_IN_INTERACTION_DATASET } from '../../services/drugInteractionDataset';
+
+const medication = (name: string): Medication => ({
+  id: `med-${name}`,
+  name,
+  dosage: '1 tablet',
+  frequency: 'Once daily',
+});
+
+const check = (...names: string[]) =>
+  findInteractions(collectMedications(names.map(medication)), BUILT_IN_INTERACTION_DATASET);
+
+const dataset = (version: string, fields: Partial<InteractionDataset> = {}): InteractionDataset => ({
+  version,
+  classes: [],
+  drugs: [],
+  interactions: [],
+  ...fields,
+});
+
+describe('matching medications to drugs', () => {
+  it('matches generic names, brand aliases and whole words only', () => {
+    expect(resolveDrugs('Advil 200mg', BUILT_IN_INTERACTION_DATASET)).toMatchObject([
+      { drug: { name: 'ibuprofen' }, matchedBy: 'alias' },
+    ]);
+    expect(resolveDrugs('Insulin Glargine (Lantus)', BUILT_IN_INTERACTION_DATASET)[0].drug.name).toBe('insulin');
+    expect(resolveDrugs('Pantoprazole 40mg', BUILT_IN_INTERACTION_DATASET)).toEqual([]);
+  });
+
+  it('finds interactions through a drug class', () => {
+    const [found] = check('Warfarin 5mg', 'Naproxen 500mg');
+
+    expect(found.rule.id).toBe('warfarin-nsaids');
+    expect(found.first).toMatchObject({ drug: 'warfarin', matchedBy: 'name' });
+    expect(found.second).toMatchObject({ drug: 'naproxen', matchedBy: 'class', className: 'NSAIDs' });
+  });
+
+  it('finds interactions when the medications are listed in either order', () => {
+    expect(check('Omeprazole 20mg', 'Plavix').map(found => found.rule.id)).toEqual(['clopidogrel-ppis']);
+  });
+
+  it('lists the most severe interactions first', () => {
+    expect(check('Sertraline', 'Warfarin', 'Aspirin 81mg').map(found => found.rule.severity)).toEqual(['high', 'moderate']);
+  });
+
+  it('has nothing to report for unrelated medications', () => {
+    expect(check('Metformin', 'Atorvastatin', 'Levothyroxine')).toEqual([]);
+  });
+});
+
+describe('diabetes medications', () => {
+  const diabetesMedication = (name: string, endDate?: string): DiabetesMedication => ({
+    id: `dm-${name}`,
+    name,
+    type: 'oral',
+    dosage: '5mg',
+    frequency: 'Once daily',
+    startDate: '2024-01-01',
+    endDate,
+  });
+
+  it('checks active diabetes medications with current medications', () => {
+    const medications = collectMedications(
+      [medication('Ciprofloxacin 500mg')],
+      [diabetesMedication('Glipizide'), diabetesMedication('Glimepiride', '2024-03-01')],
+      '2024-06-01'
+    );
+
+    expect(medications.map(m => m.name)).toEqual(['Ciprofloxacin 500mg', 'Glipizide']);
+    expect(findInteractions(medications, BUILT_IN_INTERACTION_DATASET).map(found => [
+      found.rule.id,
+      found.first.medication.source,
+    ])).toEqual([['sulfonylureas-fluoroquinolones', 'diabetes']]);
+  });
+
+  it('leaves out current medications that have ended', () => {
+    const medications = collectMedications(
+      [{ ...medication('Ciprofloxacin 500mg'), endDate: '2024-05-20' }, { ...medication('Warfarin'), endDate: '2024-06-01' }],
+      [diabetesMedication('Glipizide')],
+      '2024-06-01'
+    );
+
+    expect(medications.map(m => m.name)).toEqual(['Warfarin', 'Glipizide']);
+  });
+
+  it('checks against the local calendar day by default', () => {
+    vi.useFakeTimers({ now: new Date(2024, 5, 1, 0, 30) });
+
+    const medications = collectMedications([{ ...medication('Ciprofloxacin 500mg'), endDate: '2024-05-31' }]);
+    vi.useRealTimers();
+
+    expect(medications).toEqual([]);
+  });
+
+  it('reports a drug on both lists once', () => {
+    const medications = collectMedications([medication('Metformin'), medication('Lasix')], [diabetesMedication('Metformin')]);
+
+    expect(findInteractions(medications, BUILT_IN_INTERACTION_DATASET)).toHaveLength(1);
+  });
+});
+
+describe('datasets', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('compares dotted versions numerically', () => {
+    expect(compareVersions('1.10.0', '1.9.2')).toBeGreaterThan(0);
+    expect(compareVersions('2', '2.0.0')).toBe(0);
+    expect(compareVersions('1.0.1', '1.1')).toBeLessThan(0);
+  });
+
+  it('rejects datasets that refer to unknown classes or lack a version', () => {
+    expect(() => parseInteractionDataset('not json')).toThrow(InteractionDatasetError);
+    expect(() => parseInteractionDataset(JSON.stringify({ ...dataset('1.0.0'), version: 'latest' }))).toThrow(/version/);
+    expect(() => parseInteractionDataset(JSON.stringify(dataset('2.0.0', {
+      interactions: [{ id: 'x', a: 'warfarin', b: 'class:missing', severity: 'high', description: 'd', recommendation: 'r' }],
+    })))).toThrow('Interaction "x" refers to unknown class "missing"');
+  });
+
+  it('uses an imported dataset while it is newer than the built-in one', () => {
+    const update = dataset('1.1.0', {
+      source: 'Pharmacy',
+      drugs: [{ name: 'Fluconazole', aliases: ['Diflucan'] }],
+      interactions: [{ id: 'warfarin-fluconazole', a: 'warfarin', b: 'fluconazole', severity: 'high', description: 'd', recommendation: 'r' }],
+    });
+
+    importInteractionDataset(JSON.stringify(update));
+    const loaded = loadInteractionDataset();
+
+    expect(loaded.version).toBe('1.1.0');
+    expect(findInteractions(collectMedications([medication('Warfarin'), medication('Diflucan 150mg')]), loaded)[0].rule.id)
+      .toBe('warfarin-fluconazole');
+    expect(() => importInteractionDataset(JSON.stringify(dataset('1.0.5')))).toThrow(/not newer/);
+  });
+});
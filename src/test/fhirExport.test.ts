@@ -0,0 +1,324 @@
+import { describe, it, expect } from 'vitest';
+import { buildFhirBundle, toFhirId, toFhirDate, toFhirDateTime, FhirBundle, FhirResource } from '../../services/fhirExportService';
+import { Patient, Doctor } from '../../types';
+
+// FHIR R4 JSON primitive formats
+const DATE = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?)?$/;
+const DATE_TIME = /^\d{4}(-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01])(T([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]((0\d|1[0-3]):[0-5]\d|14:00)))?)?)?$/;
+const INSTANT = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])T([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]((0\d|1[0-3]):[0-5]\d|14:00))$/;
+const ID = /^[A-Za-z0-9\-.]{1,64}$/;
+const URN_UUID = /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Required elements and bound code values for each exported resource type (FHIR R4)
+const RESOURCE_RULES: Record<string, { required: string[]; codes?: Record<string, string[]> }> = {
+  Patient: { required: [], codes: { gender: ['male', 'female', 'other', 'unknown'] } },
+  Encounter: { required: ['status', 'class'], codes: { status: ['planned', 'arrived', 'triaged', 'in-progress', 'onleave', 'finished', 'cancelled', 'entered-in-error', 'unknown'] } },
+  Condition: { required: ['subject'] },
+  Observation: { required: ['status', 'code'], codes: { status: ['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown'] } },
+  MedicationStatement: { required: ['status', 'subject'], codes: { status: ['active', 'completed', 'entered-in-error', 'intended', 'stopped', 'on-hold', 'unknown', 'not-taken'] } },
+  Appointment: { required: ['status', 'participant'], codes: { status: ['proposed', 'pending', 'booked', 'arrived', 'fulfilled', 'cancelled', 'noshow', 'entered-in-error', 'checked-in', 'waitlist'] } },
+  AllergyIntolerance: { required: ['patient'] },
+  DocumentReference: { required: ['status', 'content'], codes: { status: ['current', 'superseded', 'entered-in-error'] } },
+};
+
+// FHIR JSON never carries nulls, empty strings, empty objects or empty arrays
+function findEmptyValues(value: any, path: string, problems: string[]): void {
+  if (value === null || value === undefined || value === '') {
+    problems.push(path);
+  } else if (Array.isArray(value)) {
+    if (value.length === 0) problems.push(path);
+    value.forEach((item, i) => findEmptyValues(item, `${path}[${i}]`, problems));
+  } else if (typeof value === 'object') {
+    if (Object.keys(value).length === 0) problems.push(path);
+    Object.entries(value).forEach(([key, item]) => findEmptyValues(item, `${path}.${key}`, problems));
+  }
+}
+
+function collectReferences(value: any, references: string[]): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectReferences(item, references));
+  } else if (value && typeof value === 'object') {
+    if (typeof value.reference === 'string') references.push(value.reference);
+    Object.values(value).forEach(item => collectReferences(item, references));
+  }
+}
+
+function validateResource(resource: FhirResource): string[] {
+  const problems: string[] = [];
+  const rules = RESOURCE_RULES[resource.resourceType];
+
+  if (!rules) return [`unexpected resourceType ${resource.resourceType}`];
+  if (resource.id !== undefined && !ID.test(resource.id)) problems.push(`invalid id ${resource.id}`);
+
+  rules.required.forEach(field => {
+    if (resource[field] === undefined) problems.push(`${resource.resourceType}.${field} is required`);
+  });
+
+  Object.entries(rules.codes || {}).forEach(([field, allowed]) => {
+    if (resource[field] !== undefined && !allowed.includes(resource[field])) {
+      problems.push(`${resource.resourceType}.${field} has invalid code ${resource[field]}`);
+    }
+  });
+
+  findEmptyValues(resource, resource.resourceType, problems);
+
+  switch (resource.resourceType) {
+    case 'Patient':
+      if (resource.birthDate && !DATE.test(resource.birthDate)) problems.push('Patient.birthDate');
+      break;
+    case 'Encounter':
+      // Encounter.class is a Coding, not a CodeableConcept
+      if (!resource.class.code || !resource.class.system) problems.push('Encounter.class');
+      if (resource.period?.start && !DATE_TIME.test(resource.period.start)) problems.push('Encounter.period.start');
+      break;
+    case 'MedicationStatement':
+      if (!resource.medicationCodeableConcept && !resource.medicationReference) problems.push('MedicationStatement.medication[x]');
+      resource.dosage?.forEach((dosage: any) =>
+        dosage.timing?.repeat?.timeOfDay?.forEach((time: string) => {
+          if (!/^([01]\d|2[0-3]):[0-5]\d:[0-5]\d$/.test(time)) problems.push(`timeOfDay ${time}`);
+        })
+      );
+      break;
+    case 'Appointment':
+      if (resource.participant.length === 0) problems.push('Appointment.participant');
+      // app-2: start and end must be given together; app-3: only proposed/cancelled may omit them
+      if (!!resource.start !== !!resource.end) problems.push('Appointment start/end');
+      if (!resource.start && !['proposed', 'cancelled', 'waitlist'].includes(resource.status)) problems.push('Appointment.start');
+      if (resource.start && !INSTANT.test(resource.start)) problems.push('Appointment.start format');
+      if (resource.end && !INSTANT.test(resource.end)) problems.push('Appointment.end format');
+      break;
+    case 'DocumentReference':
+      resource.content.forEach((content: any) => {
+        if (!content.attachment) problems.push('DocumentReference.content.attachment');
+      });
+      if (resource.date && !INSTANT.test(resource.date)) problems.push('DocumentReference.date');
+      break;
+  }
+
+  return problems;
+}
+
+function resourcesOfType(bundle: FhirBundle, type: string): FhirResource[] {
+  return bundle.entry.map(entry => entry.resource).filter(resource => resource.resourceType === type);
+}
+
+describe('FHIR export', () => {
+  const doctors: Doctor[] = [
+    { id: 'doc-1', name: 'Dr. Meera Rao', specialty: 'Cardiology' }
+  ];
+
+  const patient: Patient = {
+    id: 'patient_1',
+    name: 'Ramesh Kumar Sharma',
+    dateOfBirth: '1952-03-14',
+    gender: 'male',
+    contactInfo: { phone: '+91 98765 43210', email: 'ramesh@example.com', city: 'Pune', state: 'Maharashtra', pincode: '411001' },
+    emergencyContact: { name: 'Anita Sharma', relationship: 'Daughter', phone: '+91 91234 56789' },
+    hospitalIds: [{ id: 'h1', hospitalName: 'Ruby Hall Clinic', patientId: 'RHC-55821' }],
+    avatarUrl: '',
+    medicalHistory: 'Hypertension since 2010',
+    allergies: ['Penicillin', 'Sulfa drugs'],
+    conditions: ['Hypertension'],
+    records: [
+      {
+        id: 'record-1',
+        date: '2024-02-10',
+        doctorId: 'doc-1',
+        complaint: 'Chest tightness on exertion',
+        investigations: 'ECG: normal sinus rhythm. Lipid profile: LDL 162 mg/dL',
+        diagnosis: 'Stable angina',
+        prescription: 'Tab Ecosprin 75mg OD',
+        notes: 'Review in 4 weeks',
+        documents: [
+          { id: 'doc-a', name: 'ecg.pdf', type: 'application/pdf', size: 2048, uploadedAt: '2024-02-10T09:30:00Z', url: 'data:application/pdf;base64,JVBERi0xLjQ=' },
+          { id: 'doc-b', name: 'lipids.png', type: 'png', size: 1024, uploadedAt: '2024-02-10T09:35:00Z', url: 'https://files.example.com/lipids.png' }
+        ]
+      },
+      {
+        id: 'record-2',
+        date: '2024-03-10',
+        doctorId: 'unknown-doctor',
+        complaint: '',
+        investigations: '',
+        diagnosis: '',
+        prescription: '',
+        notes: '',
+        documents: []
+      }
+    ],
+    reminders: [],
+    appointments: [
+      {
+        id: 'appt-1',
+        doctorId: 'doc-1',
+        patientId: 'patient_1',
+        date: '2024-03-08',
+        time: '10:30',
+        duration: 20,
+        type: 'followup',
+        status: 'scheduled',
+        reason: 'Angina follow-up',
+        createdAt: '2024-02-10T10:00:00Z'
+      },
+      {
+        id: 'appt-2',
+        doctorId: 'doc-1',
+        patientId: 'patient_1',
+        date: '2024-01-05',
+        time: '',
+        type: 'checkup',
+        status: 'completed',
+        reason: 'Annual checkup',
+        createdAt: '2023-12-20T10:00:00Z'
+      }
+    ],
+    currentMedications: [
+      { id: 'med-1', name: 'Amlodipine', strength: '5mg', dosage: '1 tablet', frequency: 'Once daily', timings: ['08:00'], prescribedBy: 'Dr. Meera Rao', startDate: '2010-06-01' },
+      { id: 'med-2', name: 'Ecosprin', dosage: '1 tablet', frequency: 'Once daily', timings: ['after lunch'] }
+    ]
+  };
+
+  it('builds a collection bundle with urn:uuid full URLs', () => {
+    const bundle = buildFhirBundle(patient, doctors);
+
+    expect(bundle.resourceType).toBe('Bundle');
+    expect(bundle.type).toBe('collection');
+    expect(bundle.timestamp).toMatch(INSTANT);
+    expect(bundle.meta.lastUpdated).toMatch(INSTANT);
+    bundle.entry.forEach(entry => expect(entry.fullUrl).toMatch(URN_UUID));
+    expect(new Set(bundle.entry.map(entry => entry.fullUrl)).size).toBe(bundle.entry.length);
+  });
+
+  it('produces resources that satisfy the FHIR R4 shapes', () => {
+    const bundle = buildFhirBundle(patient, doctors);
+
+    bundle.entry.forEach(entry => {
+      expect(validateResource(entry.resource)).toEqual([]);
+    });
+  });
+
+  it('only references resources contained in the bundle', () => {
+    const bundle = buildFhirBundle(patient, doctors);
+    const fullUrls = new Set(bundle.entry.map(entry => entry.fullUrl));
+    const references: string[] = [];
+
+    collectReferences(bundle.entry.map(entry => entry.resource), references);
+
+    expect(references.length).toBeGreaterThan(0);
+    references.forEach(reference => expect(fullUrls.has(reference)).toBe(true));
+  });
+
+  it('maps every part of the record to the expected resource types', () => {
+    const bundle = buildFhirBundle(patient, doctors);
+
+    expect(resourcesOfType(bundle, 'Patient')).toHaveLength(1);
+    expect(resourcesOfType(bundle, 'Encounter')).toHaveLength(2);
+    // One problem-list condition and one encounter diagnosis
+    expect(resourcesOfType(bundle, 'Condition')).toHaveLength(2);
+    expect(resourcesOfType(bundle, 'Observation')).toHaveLength(1);
+    expect(resourcesOfType(bundle, 'MedicationStatement')).toHaveLength(2);
+    expect(resourcesOfType(bundle, 'Appointment')).toHaveLength(2);
+    expect(resourcesOfType(bundle, 'AllergyIntolerance')).toHaveLength(2);
+    expect(resourcesOfType(bundle, 'DocumentReference')).toHaveLength(2);
+  });
+
+  it('maps patient demographics and hospital identifiers', () => {
+    const [resource] = resourcesOfType(buildFhirBundle(patient, doctors), 'Patient');
+
+    expect(resource.id).toBe('patient-1');
+    expect(resource.name[0]).toEqual({ text: 'Ramesh Kumar Sharma', family: 'Sharma', given: ['Ramesh', 'Kumar'] });
+    expect(resource.birthDate).toBe('1952-03-14');
+    expect(resource.identifier[0].value).toBe('RHC-55821');
+    expect(resource.identifier[0].assigner.display).toBe('Ruby Hall Clinic');
+    expect(resource.address[0].postalCode).toBe('411001');
+    expect(resource.contact[0].name.text).toBe('Anita Sharma');
+  });
+
+  it('links diagnoses, investigations and documents to their encounter', () => {
+    const bundle = buildFhirBundle(patient, doctors);
+    const encounterEntry = bundle.entry.find(entry => entry.resource.id === 'record-1')!;
+    const diagnosis = resourcesOfType(bundle, 'Condition').find(c => c.encounter)!;
+    const observation = resourcesOfType(bundle, 'Observation')[0];
+    const documents = resourcesOfType(bundle, 'DocumentReference');
+
+    expect(encounterEntry.resource.participant[0].individual.display).toBe('Dr. Meera Rao');
+    expect(encounterEntry.resource.reasonCode[0].text).toBe('Chest tightness on exertion');
+    expect(diagnosis.code.text).toBe('Stable angina');
+    expect(diagnosis.encounter.reference).toBe(encounterEntry.fullUrl);
+    expect(observation.valueString).toContain('LDL 162');
+    documents.forEach(document => expect(document.context.encounter[0].reference).toBe(encounterEntry.fullUrl));
+  });
+
+  it('embeds data URLs and links external documents', () => {
+    const documents = resourcesOfType(buildFhirBundle(patient, doctors), 'DocumentReference');
+    const pdf = documents.find(d => d.description === 'ecg.pdf')!;
+    const png = documents.find(d => d.description === 'lipids.png')!;
+
+    expect(pdf.content[0].attachment.data).toBe('JVBERi0xLjQ=');
+    expect(pdf.content[0].attachment.contentType).toBe('application/pdf');
+    expect(png.content[0].attachment.url).toBe('https://files.example.com/lipids.png');
+    expect(png.content[0].attachment.contentType).toBe('image/png');
+
+    const withoutData = resourcesOfType(buildFhirBundle(patient, doctors, { includeDocumentData: false }), 'DocumentReference');
+    expect(withoutData.find(d => d.description === 'ecg.pdf')!.content[0].attachment.data).toBeUndefined();
+  });
+
+  it('maps medication dosage and only valid times of day', () => {
+    const statements = resourcesOfType(buildFhirBundle(patient, doctors), 'MedicationStatement');
+    const amlodipine = statements.find(s => s.medicationCodeableConcept.text === 'Amlodipine 5mg')!;
+    const ecosprin = statements.find(s => s.medicationCodeableConcept.text === 'Ecosprin')!;
+
+    expect(amlodipine.dosage[0].text).toBe('1 tablet, Once daily');
+    expect(amlodipine.dosage[0].timing.repeat.timeOfDay).toEqual(['08:00:00']);
+    expect(amlodipine.effectivePeriod.start).toBe('2010-06-01');
+    expect(ecosprin.dosage[0].timing).toBeUndefined();
+  });
+
+  it('maps appointment statuses and fills in a default end time', () => {
+    const appointments = resourcesOfType(buildFhirBundle(patient, doctors), 'Appointment');
+    const followUp = appointments.find(a => a.id === 'appt-1')!;
+    const checkup = appointments.find(a => a.id === 'appt-2')!;
+
+    expect(followUp.status).toBe('booked');
+    expect(followUp.minutesDuration).toBe(20);
+    expect(new Date(followUp.end).getTime() - new Date(followUp.start).getTime()).toBe(20 * 60000);
+    expect(checkup.status).toBe('fulfilled');
+    expect(checkup.minutesDuration).toBe(30);
+  });
+
+  it('exports a minimal patient without empty elements', () => {
+    const bundle = buildFhirBundle({
+      id: 'p2',
+      name: 'Asha',
+      hospitalIds: [],
+      avatarUrl: '',
+      medicalHistory: '',
+      records: [],
+      reminders: [],
+      appointments: [],
+      currentMedications: []
+    });
+
+    expect(bundle.entry).toHaveLength(1);
+    expect(validateResource(bundle.entry[0].resource)).toEqual([]);
+    expect(bundle.entry[0].resource.name[0]).toEqual({ text: 'Asha', given: ['Asha'] });
+  });
+
+  describe('helpers', () => {
+    it('sanitizes ids to the FHIR id alphabet', () => {
+      expect(toFhirId('patient_1')).toBe('patient-1');
+      expect(toFhirId('a'.repeat(80))).toHaveLength(64);
+    });
+
+    it('normalizes dates and date-times', () => {
+      expect(toFhirDate('2024-02-10')).toBe('2024-02-10');
+      // A timestamp keeps the calendar date it has where the user is, not in UTC
+      expect(toFhirDate(new Date(2024, 1, 10, 0, 30).toISOString())).toBe('2024-02-10');
+      expect(toFhirDate(new Date(2024, 1, 10, 23, 30).toISOString())).toBe('2024-02-10');
+      expect(toFhirDate('not a date')).toBeUndefined();
+      expect(toFhirDateTime('2024-02-10')).toBe('2024-02-10');
+      expect(toFhirDateTime('2024-02-10', '10:30')).toMatch(INSTANT);
+      expect(toFhirDateTime('garbage', '10:30')).toBeUndefined();
+    });
+  });
+});
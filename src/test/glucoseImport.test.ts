@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import type { BloodGlucoseReading } from '../../types';
+import {
+  GLUCOSE_IMPORT_PRESETS,
+  parseCsv,
+  detectPreset,
+  parseGlucoseCsv,
+  parseTimestamp,
+  mergeGlucoseReadings,
+} from '../../services/glucoseImportService';
+
+const preset = (id: string) => GLUCOSE_IMPORT_PRESETS.find(p => p.id === id)!;
+
+const dexcom = [
+  'Index,Timestamp (YYYY-MM-DDThh:mm:ss),Event Type,Event Subtype,Patient Info,Device Info,Source Device ID,Glucose Value (mg/dL),Insulin Value (u),Carb Value (grams)',
+  '1,,FirstName,,Asha,,,,,',
+  '2,,Device,,,G6,,,,',
+  '3,2024-06-01T08:00:12,EGV,,,,iOS G6,112,,',
+  '4,2024-06-01T08:05:12,EGV,,,,iOS G6,118,,',
+  '5,2024-06-01T08:05:40,EGV,,,,iOS G6,119,,',
+  '6,2024-06-01T08:10:12,EGV,,,,iOS G6,Low,,',
+  '7,2024-06-01T08:12:00,Carbs,,,,,,,30',
+].join('\r\n');
+
+const libre = [
+  'Glucose Data,Generated on,13-06-2024 10:15 UTC,Generated by,Asha Rao',
+  'Device,Serial Number,Device Timestamp,Record Type,Historic Glucose mmol/L,Scan Glucose mmol/L,Notes',
+  'FreeStyle LibreLink,ABC123,13-06-2024 07:02,0,6.1,,',
+  'FreeStyle LibreLink,ABC123,13-06-2024 07:10,1,,6.4,',
+  'FreeStyle LibreLink,ABC123,13-06-2024 07:17,0,7.9,,',
+  'FreeStyle LibreLink,ABC123,13-06-2024 07:20,6,,,"Breakfast, 2 idli"',
+].join('\n');
+
+describe('parseCsv', () => {
+  it('keeps quoted commas, quotes and line breaks in a cell', () => {
+    expect(parseCsv('a,b\n"1,5","say ""hi""\nthere"\n\n')).toEqual([
+      ['a', 'b'],
+      ['1,5', 'say "hi"\nthere'],
+    ]);
+  });
+
+  it('reads semicolon delimited files', () => {
+    expect(parseCsv('Date;Time;Glucose\n01.06.2024;07:30;5,8')).toEqual([
+      ['Date', 'Time', 'Glucose'],
+      ['01.06.2024', '07:30', '5,8'],
+    ]);
+  });
+
+  it('drops a byte order mark from the first header', () => {
+    expect(parseCsv('\uFEFFDate,Glucose\n')[0]).toEqual(['Date', 'Glucose']);
+  });
+});
+
+describe('detectPreset', () => {
+  it('recognises exports by their header row, even below metadata lines', () => {
+    expect(detectPreset(parseCsv(dexcom))?.id).toBe('dexcom-clarity');
+    expect(detectPreset(parseCsv(libre))?.id).toBe('freestyle-libre');
+    expect(detectPreset(parseCsv('Date,Time,Tags,Blood Sugar Measurement (mg/dL)\n'))?.id).toBe('mysugr');
+    expect(detectPreset(parseCsv('When,Sugar\n'))).toBeUndefined();
+  });
+});
+
+describe('parseGlucoseCsv', () => {
+  it('imports Dexcom sensor readings and skips events and repeated minutes', () => {
+    const result = parseGlucoseCsv(dexcom, preset('dexcom-clarity').mapping, 'cgm');
+
+    expect(result.readings.map(r => [r.time, r.value])).toEqual([
+      ['08:00', 112],
+      ['08:05', 118],
+      ['08:10', 40],
+    ]);
+    expect(result.readings[0]).toMatchObject({ date: '2024-06-01', type: 'random', source: 'cgm' });
+    expect(result.readings[2].notes).toBe('Below meter range');
+    expect(result).toMatchObject({ unit: 'mg/dL', rowsRead: 4, duplicates: 1, skipped: 0 });
+  });
+
+  it('converts mmol/L and reads day-first dates', () => {
+    const result = parseGlucoseCsv(libre, preset('freestyle-libre').mapping, 'cgm');
+
+    expect(result.unit).toBe('mmol/L');
+    expect(result.readings.map(r => [r.date, r.time, r.value])).toEqual([
+      ['2024-06-13', '07:02', 110],
+      ['2024-06-13', '07:10', 115],
+      ['2024-06-13', '07:17', 142],
+    ]);
+  });
+
+  it('maps glucometer meal tags to reading types', () => {
+    const csv = [
+      'Date,Time,Tags,Blood Sugar Measurement (mg/dL),Note',
+      '06/14/2024,7:05 AM,Fasting,104,',
+      '06/14/2024,10:15 AM,After Meal,162,Poha',
+      '06/14/2024,10:45 PM,Bedtime,131,',
+    ].join('\n');
+    const result = parseGlucoseCsv(csv, preset('mysugr').mapping);
+
+    expect(result.readings.map(r => [r.date, r.time, r.type, r.value])).toEqual([
+      ['2024-06-14', '07:05', 'fasting', 104],
+      ['2024-06-14', '10:15', 'postprandial', 162],
+      ['2024-06-14', '22:45', 'bedtime', 131],
+    ]);
+    expect(result.readings[1]).toMatchObject({ context: 'After Meal', notes: 'Poha', source: 'glucometer' });
+  });
+
+  it('imports with a custom mapping and guesses the unit from the values', () => {
+    const csv = 'When,Sugar\n02/03/2024 21:30,7.2\n02/03/2024 06:45,5.5\nnot a date,6.0';
+    const result = parseGlucoseCsv(csv, { timestamp: 'When', value: 'Sugar', dateOrder: 'mdy' });
+
+    expect(result.unit).toBe('mmol/L');
+    expect(result.skipped).toBe(1);
+    expect(result.readings.map(r => [r.date, r.time, r.value])).toEqual([
+      ['2024-02-03', '06:45', 99],
+      ['2024-02-03', '21:30', 130],
+    ]);
+  });
+
+  it('finds nothing when the mapped columns are missing', () => {
+    expect(parseGlucoseCsv(libre, preset('dexcom-clarity').mapping).readings).toEqual([]);
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('reads ISO, day-first and month-first timestamps', () => {
+    expect(parseTimestamp('2024-06-01T08:05:12')).toEqual({ date: '2024-06-01', time: '08:05' });
+    expect(parseTimestamp('1.6.24 12:10 am')).toEqual({ date: '2024-06-01', time: '00:10' });
+    expect(parseTimestamp('06/01/2024 8:05 PM', 'mdy')).toEqual({ date: '2024-06-01', time: '20:05' });
+    expect(parseTimestamp('2024-06-01')).toBeUndefined();
+  });
+});
+
+describe('mergeGlucoseReadings', () => {
+  it('skips readings taken in a minute already recorded', () => {
+    const reading = (id: string, time: string, value: number): BloodGlucoseReading =>
+      ({ id, date: '2024-06-01', time, value, type: 'random' });
+    const existing = [reading('a', '08:00', 110)];
+
+    const merged = mergeGlucoseReadings(existing, [reading('b', '08:00', 112), reading('c', '08:05', 118), reading('d', '08:05', 119)]);
+
+    expect(merged.map(r => r.id)).toEqual(['a', 'c']);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import type { HomeBloodPressureReading, HypertensionRecord, Patient } from '../../types';
+import {
+  classifyBloodPressure,
+  getReadingPeriod,
+  readingsWithin,
+  getPeriodAverages,
+  analyseMorningEvening,
+  getLatestReading,
+  getActiveMedications,
+} from '../../services/hypertensionService';
+import { WhatsAppShareService } from '../../services/whatsappService';
+
+const AS_OF = '2024-06-30';
+
+let nextId = 0;
+const reading = (date: string, time: string, systolic: number, diastolic: number, pulse?: number): HomeBloodPressureReading => ({
+  id: `bp-${nextId++}`,
+  date,
+  time,
+  systolic,
+  diastolic,
+  pulse,
+  arm: 'left',
+  position: 'sitting',
+});
+
+const record: HypertensionRecord = {
+  id: 'hypertension-1',
+  patientId: 'p1',
+  diagnosisDate: '2020-01-01',
+  targetSystolic: 130,
+  targetDiastolic: 80,
+  readings: [
+    reading('2024-06-30', '07:15', 148, 92, 78),
+    reading('2024-06-29', '21:00', 128, 78, 70),
+    reading('2024-06-25', '06:50', 144, 90),
+    reading('2024-06-24', '20:30', 126, 76),
+    reading('2024-06-10', '08:00', 150, 94),
+    reading('2024-04-15', '19:00', 136, 86),
+    reading('2024-01-05', '08:00', 170, 100),
+  ],
+  medications: [
+    { id: 'm1', name: 'Telmisartan', drugClass: 'arb', dosage: '40 mg', frequency: 'Once daily', startDate: '2023-01-01' },
+    { id: 'm2', name: 'Amlodipine', drugClass: 'calcium-channel-blocker', dosage: '5 mg', frequency: 'Once daily', startDate: '2022-01-01', endDate: '2023-01-01' },
+  ],
+};
+
+describe('classifyBloodPressure', () => {
+  it('uses the ACC/AHA categories', () => {
+    expect(classifyBloodPressure(118, 76)).toBe('normal');
+    expect(classifyBloodPressure(124, 78)).toBe('elevated');
+    expect(classifyBloodPressure(124, 84)).toBe('stage1');
+    expect(classifyBloodPressure(142, 70)).toBe('stage2');
+    expect(classifyBloodPressure(185, 100)).toBe('crisis');
+  });
+});
+
+describe('period averages', () => {
+  it('counts the reference day as the first of the period', () => {
+    expect(readingsWithin(record.readings, 7, AS_OF).map(r => r.date)).toEqual([
+      '2024-06-30', '2024-06-29', '2024-06-25', '2024-06-24',
+    ]);
+  });
+
+  it('averages the last 7, 30 and 90 days and the share at target', () => {
+    const [week, month, quarter] = getPeriodAverages(record, AS_OF);
+
+    expect(week).toEqual({ days: 7, average: { systolic: 137, diastolic: 84, pulse: 74, count: 4 }, atTarget: 50 });
+    expect(month.average).toMatchObject({ systolic: 139, diastolic: 86, count: 5 });
+    expect(month.atTarget).toBe(40);
+    expect(quarter.average?.count).toBe(6);
+  });
+
+  it('has no average for a period without readings', () => {
+    const [week] = getPeriodAverages({ ...record, readings: [] }, AS_OF);
+    expect(week).toEqual({ days: 7, average: undefined, atTarget: 0 });
+  });
+});
+
+describe('analyseMorningEvening', () => {
+  it('splits readings by time of day', () => {
+    expect(['05:30', '11:59', '13:00', '16:00', '23:45', '02:00'].map(getReadingPeriod)).toEqual([
+      'morning', 'morning', 'other', 'evening', 'evening', 'other',
+    ]);
+  });
+
+  it('flags mornings that run well above evenings', () => {
+    const analysis = analyseMorningEvening(record.readings, 30, AS_OF);
+
+    expect(analysis.morning).toMatchObject({ systolic: 147, diastolic: 92, count: 3 });
+    expect(analysis.evening).toMatchObject({ systolic: 127, diastolic: 77, count: 2 });
+    expect(analysis.systolicDifference).toBe(20);
+    expect(analysis.pattern).toBe('morning');
+  });
+
+  it('needs readings at both times of day', () => {
+    const mornings = record.readings.filter(r => getReadingPeriod(r.time) === 'morning');
+    expect(analyseMorningEvening(mornings, 30, AS_OF).pattern).toBeUndefined();
+  });
+});
+
+describe('hypertension record helpers', () => {
+  it('finds the latest reading and active medications', () => {
+    expect(getLatestReading(record.readings)).toMatchObject({ date: '2024-06-30', time: '07:15' });
+    expect(getActiveMedications(record.medications, AS_OF).map(m => m.name)).toEqual(['Telmisartan']);
+    // Still taken on its last day
+    expect(getActiveMedications(record.medications, '2023-01-01').map(m => m.name)).toEqual(['Telmisartan', 'Amlodipine']);
+  });
+
+  it('adds a blood pressure section to the WhatsApp summary', () => {
+    const patient = {
+      id: 'p1',
+      name: 'Asha Rao',
+      hospitalIds: [],
+      avatarUrl: '',
+      medicalHistory: '',
+      records: [],
+      reminders: [],
+      appointments: [],
+      currentMedications: [],
+      hypertensionRecord: { ...record, readings: [reading(new Date().toISOString().split('T')[0], '08:00', 132, 84)] },
+    } as Patient;
+
+    const summary = WhatsAppShareService.generatePatientSummary(patient);
+
+    expect(summary).toContain('❤️ *Blood Pressure*');
+    expect(summary).toContain('Target: below 130/80 mmHg');
+    expect(summary).toContain('7-day average: 132/84 mmHg (1 readings, 0% at target)');
+    expect(summary).toContain('• Telmisartan - 40 mg (Once daily)');
+    expect(summary).not.toContain('Amlodipine');
+    expect(WhatsAppShareService.generatePatientSummary(patient, { includeHypertension: false })).not.toContain('Blood Pressure');
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import type { BloodGlucoseReading, InsulinLogEntry } from '../../types';
+import {
+  findLinkedReading,
+  createInsulinLogEntry,
+  getDailyTotals,
+  getMealBolusOutcomes,
+  reviewCarbRatios,
+} from '../../services/insulinLogService';
+
+let nextId = 0;
+const reading = (date: string, time: string, value: number): BloodGlucoseReading => ({
+  id: `g-${nextId++}`,
+  date,
+  time,
+  value,
+  type: 'random',
+});
+
+const dose = (date: string, time: string, fields: Partial<InsulinLogEntry> = {}): InsulinLogEntry => ({
+  id: `i-${nextId++}`,
+  date,
+  time,
+  type: 'bolus',
+  units: 4,
+  ...fields,
+});
+
+describe('linking doses to readings', () => {
+  it('links the closest reading within 30 minutes', () => {
+    const before = reading('2024-06-01', '07:50', 110);
+    const readings = [reading('2024-06-01', '07:00', 95), before, reading('2024-06-01', '08:40', 160)];
+
+    expect(findLinkedReading({ date: '2024-06-01', time: '08:00' }, readings)).toBe(before);
+    expect(findLinkedReading({ date: '2024-06-01', time: '12:00' }, readings)).toBeUndefined();
+  });
+
+  it('prefers the reading before the dose when two are equally close', () => {
+    const before = reading('2024-06-01', '07:50', 110);
+    const after = reading('2024-06-01', '08:10', 130);
+
+    expect(findLinkedReading({ date: '2024-06-01', time: '08:00' }, [after, before])).toBe(before);
+  });
+
+  it('links across midnight and sets the reading on new entries', () => {
+    const late = reading('2024-06-01', '23:55', 140);
+    const entry = createInsulinLogEntry({ date: '2024-06-02', time: '00:10', type: 'basal', units: 12 }, [late]);
+
+    expect(entry.id).toMatch(/^insulin-/);
+    expect(entry.glucoseReadingId).toBe(late.id);
+  });
+});
+
+describe('getDailyTotals', () => {
+  it('totals basal, bolus, corrections and carbs per day', () => {
+    const totals = getDailyTotals([
+      dose('2024-06-01', '08:00', { units: 5.5, carbs: 50, correctionUnits: 1 }),
+      dose('2024-06-01', '12:30', { units: 4, carbs: 40 }),
+      dose('2024-06-01', '21:00', { type: 'basal', units: 10.5 }),
+      dose('2024-06-02', '08:00', { units: 3, carbs: 30 }),
+    ]);
+
+    expect(totals).toEqual([
+      { date: '2024-06-02', basal: 0, bolus: 3, correction: 0, total: 3, carbs: 30, basalPercent: 0 },
+      { date: '2024-06-01', basal: 10.5, bolus: 9.5, correction: 1, total: 20, carbs: 90, basalPercent: 53 },
+    ]);
+  });
+});
+
+describe('carb ratio review', () => {
+  // A breakfast bolus with readings at the dose and three hours later
+  const breakfast = (date: string, units: number, carbs: number, before: number, after: number, correctionUnits?: number) => ({
+    entry: dose(date, '08:00', { units, carbs, correctionUnits, mealTag: 'breakfast' }),
+    readings: [reading(date, '07:55', before), reading(date, '11:00', after)],
+  });
+
+  it('works out the ratio from meal insulin, leaving out the correction', () => {
+    const meal = breakfast('2024-06-01', 6, 50, 200, 150, 1);
+    const [outcome] = getMealBolusOutcomes([meal.entry], meal.readings);
+
+    expect(outcome).toMatchObject({ ratio: 10, before: 200, after: 150 });
+  });
+
+  it('flags meals where glucose rises well above the starting value', () => {
+    const meals = [
+      breakfast('2024-06-01', 5, 50, 110, 190),
+      breakfast('2024-06-02', 5, 50, 120, 180),
+      breakfast('2024-06-03', 5, 60, 100, 170),
+    ];
+
+    const [review] = reviewCarbRatios(meals.map(m => m.entry), meals.flatMap(m => m.readings));
+
+    expect(review).toMatchObject({ mealTag: 'breakfast', meals: 3, averageRatio: 10.7, averageRise: 70, outcome: 'high-after' });
+  });
+
+  it('flags a low after any meal ahead of the average rise', () => {
+    const meals = [
+      breakfast('2024-06-01', 5, 50, 110, 130),
+      breakfast('2024-06-02', 5, 50, 120, 65),
+      breakfast('2024-06-03', 5, 50, 100, 120),
+    ];
+
+    expect(reviewCarbRatios(meals.map(m => m.entry), meals.flatMap(m => m.readings))[0].outcome).toBe('low-after');
+  });
+
+  it('needs three meals with a reading afterwards', () => {
+    const meals = [breakfast('2024-06-01', 5, 50, 110, 130), breakfast('2024-06-02', 5, 50, 120, 125)];
+    const untagged = dose('2024-06-03', '13:00', { units: 4, carbs: 40 });
+
+    const reviews = reviewCarbRatios([untagged, ...meals.map(m => m.entry)], meals.flatMap(m => m.readings));
+
+    expect(reviews.map(r => [r.mealTag, r.outcome])).toEqual([
+      ['breakfast', 'insufficient'],
+      ['untagged', 'insufficient'],
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import type { Document, LabResult } from '../../types';
+import {
+  findLabTest,
+  unitKey,
+  convertToCanonicalUnit,
+  getReferenceRange,
+  createLabResult,
+  labResultsFromDocuments,
+  mergeLabResults,
+  getLabTrends,
+  getOutOfRangeResults,
+} from '../../services/labResultsService';
+
+const adultMan = { dateOfBirth: '1970-06-15', gender: 'male' as const };
+const adultWoman = { dateOfBirth: '1975-02-01', gender: 'female' as const };
+
+const result = (name: string, value: number | string, date: string, unit?: string, reference?: string) =>
+  createLabResult({ name, value, unit, date, reference }, adultMan)!;
+
+describe('lab test catalogue', () => {
+  it('matches the names labs print to catalogue tests', () => {
+    expect(findLabTest('HbA1c')?.code).toBe('4548-4');
+    expect(findLabTest('Glycosylated Haemoglobin (HbA1c)')?.code).toBe('4548-4');
+    expect(findLabTest('S. Creatinine')?.code).toBe('2160-0');
+    expect(findLabTest('Serum Triglycerides')?.code).toBe('2571-8');
+    expect(findLabTest('LDL Cholesterol (Direct)')?.code).toBe('2089-1');
+    expect(findLabTest('FBS')?.code).toBe('1558-6');
+    expect(findLabTest('Hb')?.code).toBe('718-7');
+    expect(findLabTest('Platelet Count')?.code).toBe('777-3');
+    expect(findLabTest('Ferritin')).toBeUndefined();
+  });
+
+  it('compares units by a normalised key', () => {
+    expect(unitKey('µmol/L')).toBe('umol/l');
+    expect(unitKey('x 10³/µL')).toBe('10^3/ul');
+    expect(unitKey('Lakhs/cumm')).toBe('lakh/ul');
+    expect(unitKey('/cmm')).toBe('/ul');
+  });
+
+  it('converts reported units to the canonical unit', () => {
+    const glucose = findLabTest('fasting glucose')!;
+    expect(convertToCanonicalUnit(glucose, 7, 'mmol/L')).toBeCloseTo(126.1, 1);
+    expect(convertToCanonicalUnit(glucose, 126, 'mg/dl')).toBe(126);
+    expect(convertToCanonicalUnit(glucose, 126)).toBe(126);
+    expect(convertToCanonicalUnit(glucose, 126, 'g/dL')).toBeNull();
+
+    expect(convertToCanonicalUnit(findLabTest('HbA1c')!, 53, 'mmol/mol')).toBeCloseTo(7.0, 1);
+    expect(convertToCanonicalUnit(findLabTest('platelets')!, 1.8, 'lakhs/cumm')).toBe(180);
+    expect(convertToCanonicalUnit(findLabTest('creatinine')!, 88.42, 'µmol/L')).toBeCloseTo(1, 5);
+  });
+
+  it('picks reference ranges by sex and age', () => {
+    const hemoglobin = findLabTest('hemoglobin')!;
+    expect(getReferenceRange(hemoglobin, adultMan, '2024-01-10')).toEqual({ low: 13, high: 17, text: '13-17' });
+    expect(getReferenceRange(hemoglobin, adultWoman, '2024-01-10')).toEqual({ low: 12, high: 15.5, text: '12-15.5' });
+    expect(getReferenceRange(hemoglobin, { dateOfBirth: '2018-03-01', gender: 'female' }, '2024-01-10')).toMatchObject({ low: 11, high: 14.5 });
+    expect(getReferenceRange(hemoglobin, undefined, '2024-01-10')).toMatchObject({ low: 12, high: 17 });
+
+    expect(getReferenceRange(findLabTest('hdl')!, adultWoman)).toEqual({ low: 50, high: undefined, text: '>50' });
+    expect(getReferenceRange(findLabTest('ldl')!, adultWoman)).toEqual({ low: undefined, high: 99, text: '<99' });
+  });
+});
+
+describe('createLabResult', () => {
+  it('stores catalogue results in the canonical unit and flags them', () => {
+    const hba1c = createLabResult({ name: 'HbA1c', value: '64', unit: 'mmol/mol', date: '2024-03-01', source: 'document', recordId: 'rec-1' }, adultMan);
+
+    expect(hba1c).toMatchObject({
+      testCode: '4548-4',
+      name: 'HbA1c',
+      value: 8,
+      unit: '%',
+      reportedValue: '64 mmol/mol',
+      referenceRange: { low: 4, high: 5.6 },
+      flag: 'high',
+      source: 'document',
+      recordId: 'rec-1',
+    });
+  });
+
+  it('flags critical values before ordinary ones', () => {
+    expect(result('Haemoglobin', 6.2, '2024-03-01', 'g/dL').flag).toBe('critical-low');
+    expect(result('Haemoglobin', 11.5, '2024-03-01', 'g/dL').flag).toBe('low');
+    expect(result('Haemoglobin', 14.1, '2024-03-01', 'g/dL').flag).toBe('normal');
+  });
+
+  it('prefers the range printed on the report, converted to the canonical unit', () => {
+    const glucose = result('Fasting Glucose', 6, '2024-03-01', 'mmol/L', '3.9-5.5');
+
+    expect(glucose.value).toBe(108);
+    expect(glucose.referenceRange).toMatchObject({ low: 70.3, high: 99.1, text: '3.9-5.5' });
+    expect(glucose.flag).toBe('high');
+  });
+
+  it('keeps unknown tests and unknown units as custom results in the reported unit', () => {
+    expect(result('Ferritin', 15, '2024-03-01', 'ng/mL', 'Low')).toMatchObject({
+      testCode: 'custom:ferritin',
+      name: 'Ferritin',
+      value: 15,
+      unit: 'ng/mL',
+      flag: 'low',
+    });
+    expect(result('Creatinine', 1.1, '2024-03-01', 'mg%')).toMatchObject({ testCode: 'custom:creatinine', unit: 'mg%' });
+  });
+
+  it('rejects values that are not numbers', () => {
+    expect(createLabResult({ name: 'HbA1c', value: 'pending', date: '2024-03-01' })).toBeNull();
+  });
+});
+
+describe('lab results from documents', () => {
+  it('reads lab lines from document text and dates them to the visit', () => {
+    const documents: Document[] = [{
+      id: 'doc-1',
+      name: 'lipid-profile.pdf',
+      type: 'application/pdf',
+      size: 2048,
+      uploadedAt: '2024-03-02T09:00:00.000Z',
+      url: 'blob:lipid',
+      content: [
+        'CITY DIAGNOSTICS',
+        'Total Cholesterol  232  mg/dL  <200',
+        'HDL Cholesterol  38  mg/dL',
+        'Triglycerides  2.1  mmol/L',
+        'Diagnosis: Dyslipidaemia',
+      ].join('\n'),
+    }, {
+      id: 'doc-2',
+      name: 'scan.jpg',
+      type: 'image/jpeg',
+      size: 1024,
+      uploadedAt: '2024-03-02T09:00:00.000Z',
+      url: 'blob:scan',
+    }];
+
+    const results = labResultsFromDocuments(documents, { date: '2024-03-01', recordId: 'rec-7' }, adultMan);
+
+    expect(results.map(r => [r.name, r.value, r.unit, r.flag])).toEqual([
+      ['Total cholesterol', 232, 'mg/dL', 'high'],
+      ['HDL cholesterol', 38, 'mg/dL', 'low'],
+      ['Triglycerides', 186, 'mg/dL', 'high'],
+    ]);
+    expect(results.every(r => r.date === '2024-03-01' && r.recordId === 'rec-7' && r.documentId === 'doc-1' && r.source === 'document')).toBe(true);
+  });
+
+  it('does not duplicate results when a document is read again', () => {
+    const first = [result('HbA1c', 7.2, '2024-03-01'), result('TSH', 2.1, '2024-03-01')];
+    const again = [result('HbA1c', 7.2, '2024-03-01'), result('HbA1c', 6.9, '2024-06-01')];
+
+    const merged = mergeLabResults(first, again);
+    expect(merged).toHaveLength(3);
+    expect(merged.slice(0, 2)).toEqual(first);
+  });
+});
+
+describe('lab trends', () => {
+  const history: LabResult[] = [
+    result('HbA1c', 8.1, '2023-09-01'),
+    result('HbA1c', 6.8, '2024-06-01'),
+    result('HbA1c', 7.4, '2024-01-05'),
+    result('Creatinine', 1.1, '2024-06-01'),
+    result('TSH', 5.2, '2023-09-01'),
+    result('TSH', 2.3, '2024-06-01'),
+    result('Platelets', 42, '2024-06-01'),
+    result('Ferritin', 15, '2024-06-01', 'ng/mL', '20-250'),
+  ];
+
+  it('groups results per test in date order, ordered by panel', () => {
+    const trends = getLabTrends(history);
+
+    expect(trends.map(t => t.name)).toEqual(['HbA1c', 'TSH', 'Creatinine', 'Platelets', 'Ferritin']);
+    expect(trends[0]).toMatchObject({
+      results: [{ value: 8.1 }, { value: 7.4 }, { value: 6.8 }],
+      latest: { value: 6.8 },
+      previous: { value: 7.4 },
+      change: -0.6,
+      direction: 'down',
+    });
+    expect(trends[2]).toMatchObject({ direction: 'stable', previous: undefined, change: undefined });
+  });
+
+  it('flags the latest out-of-range result of each test, critical first', () => {
+    expect(getOutOfRangeResults(history).map(r => [r.name, r.flag])).toEqual([
+      ['Platelets', 'critical-low'],
+      ['HbA1c', 'high'],
+      ['Ferritin', 'low'],
+    ]);
+  });
+});
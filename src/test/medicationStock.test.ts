@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import type { DoseEvent, Medication, Reminder } from '../../types';
+import {
+  REFILL_REMINDER_PREFIX,
+  getDosesPerDay,
+  getRefilledStock,
+  getRefillsDue,
+  getStockForecast,
+  getUnitsPerDose,
+  syncRefillReminders,
+} from '../../services/medicationStockService';
+
+// Wednesday 10 January 2024, 13:00 local time
+const now = new Date(2024, 0, 10, 13, 0);
+
+const medication = (fields: Partial<Medication> = {}): Medication => ({
+  id: 'med-metformin',
+  name: 'Metformin',
+  dosage: '1 tablet',
+  frequency: 'Twice daily',
+  timings: ['08:00', '20:00'],
+  pillCount: 30,
+  packSize: 60,
+  // Counted five days ago
+  stockUpdatedAt: new Date(2024, 0, 5, 13, 0).toISOString(),
+  ...fields,
+});
+
+const dose = (date: string, scheduledTime: string, status: DoseEvent['status'] = 'taken'): DoseEvent => ({
+  id: `dose-${date}-${scheduledTime}`,
+  date,
+  scheduledTime,
+  status,
+  recordedAt: `${date}T${scheduledTime}:00`,
+});
+
+describe('reading the schedule', () => {
+  it('reads units per dose from the dosage', () => {
+    expect(getUnitsPerDose('2 tablets')).toBe(2);
+    expect(getUnitsPerDose('1/2 tablet')).toBe(0.5);
+    expect(getUnitsPerDose('½ tablet')).toBe(0.5);
+    expect(getUnitsPerDose('Half a tablet')).toBe(0.5);
+    expect(getUnitsPerDose('1½ tablets')).toBe(1.5);
+    expect(getUnitsPerDose('1 tablet morning, ½ tablet night')).toBe(0.75);
+    expect(getUnitsPerDose('1 tablet, after food')).toBe(1);
+    expect(getUnitsPerDose('As directed')).toBe(1);
+  });
+
+  it('reads doses per day from the frequency or timings', () => {
+    expect(getDosesPerDay({ frequency: 'Three times daily' })).toBe(3);
+    expect(getDosesPerDay({ frequency: 'Once daily', timings: ['08:00', '20:00'] })).toBe(2);
+    expect(getDosesPerDay({ frequency: 'Every 8 hours' })).toBe(3);
+    expect(getDosesPerDay({ frequency: 'Once weekly', timings: ['09:00'] })).toBeCloseTo(1 / 7);
+    expect(getDosesPerDay({ frequency: 'As needed (PRN)', timings: [] })).toBe(0);
+  });
+});
+
+describe('stock forecast', () => {
+  it('uses up stock on schedule when no doses are recorded', () => {
+    expect(getStockForecast(medication(), now)).toMatchObject({
+      remaining: 20,
+      dailyUsage: 2,
+      source: 'schedule',
+      daysLeft: 10,
+      runOutDate: '2024-01-20',
+      refillBy: '2024-01-13',
+      needsRefill: true,
+    });
+  });
+
+  it('adds up doses that differ by time of day', () => {
+    expect(getStockForecast(medication({ dosage: '1 tablet morning, ½ tablet night' }), now)).toMatchObject({
+      remaining: 22.5,
+      dailyUsage: 1.5,
+      daysLeft: 15,
+    });
+  });
+
+  it('uses up stock only for doses recorded as taken since the last count', () => {
+    const forecast = getStockForecast(medication({
+      dosage: '2 tablets',
+      doseLog: [
+        dose('2024-01-05', '08:00'), // Before the count
+        dose('2024-01-05', '20:00'),
+        dose('2024-01-06', '08:00', 'skipped'),
+        dose('2024-01-06', '20:00', 'late'),
+      ],
+    }), now);
+
+    expect(forecast).toMatchObject({ remaining: 26, dailyUsage: 4, source: 'doses', daysLeft: 6 });
+  });
+
+  it('does not forecast as-needed medications or courses that end first', () => {
+    expect(getStockForecast(medication({ frequency: 'As needed (PRN)', timings: [] }), now)).toMatchObject({
+      remaining: 30,
+      needsRefill: false,
+    });
+    expect(getStockForecast(medication({ endDate: '2024-01-15' }), now)?.needsRefill).toBe(false);
+    expect(getStockForecast(medication({ pillCount: undefined }), now)).toBeUndefined();
+  });
+
+  it('adds whole packs to what is left', () => {
+    expect(getRefilledStock(medication(), 1, now)).toEqual({ pillCount: 80, stockUpdatedAt: now.toISOString() });
+  });
+});
+
+describe('refills', () => {
+  it('lists refills due this week across the family, soonest first', () => {
+    const due = getRefillsDue([
+      { id: 'mom', name: 'Mom', currentMedications: [medication(), medication({ id: 'med-aspirin', name: 'Aspirin', pillCount: 100 })] },
+      { id: 'dad', name: 'Dad', currentMedications: [medication({ id: 'med-lisinopril', name: 'Lisinopril', pillCount: 12 })] },
+    ], 7, now);
+
+    expect(due.map(d => [d.patientName, d.medication.name, d.forecast.runOutDate])).toEqual([
+      ['Dad', 'Lisinopril', '2024-01-11'],
+      ['Mom', 'Metformin', '2024-01-20'],
+    ]);
+  });
+
+  it('keeps one reminder per medication, due before the stock runs out', () => {
+    const other: Reminder = { id: 'rem-1', type: 'test', title: 'Blood test', date: '2024-01-12', time: '09:00', completed: false, priority: 'low' };
+    const reminders = syncRefillReminders([other], [medication()], now);
+
+    expect(reminders).toHaveLength(2);
+    expect(reminders[1]).toMatchObject({
+      id: `${REFILL_REMINDER_PREFIX}med-metformin`,
+      type: 'medication',
+      title: 'Refill Metformin',
+      date: '2024-01-13',
+      dueDate: '2024-01-20',
+      medicationId: 'med-metformin',
+      completed: false,
+    });
+
+    // Done stays done while the forecast holds; the reminder goes once the course ends before the stock
+    const done = reminders.map(r => (r.id === reminders[1].id ? { ...r, completed: true } : r));
+    expect(syncRefillReminders(done, [medication()], now)[1].completed).toBe(true);
+    expect(syncRefillReminders(done, [medication({ endDate: '2024-01-15' })], now)).toEqual([other]);
+  });
+});
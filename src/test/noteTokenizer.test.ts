@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { MedicalRecordParser, type SourceSpan } from '../../services/medicalRecordParser';
+
+const VISIT = '2024-03-01';
+
+const note = [
+  'Dr. Mehta Clinic',
+  'C/C:',
+  '1. Fever x 3 days',
+  '2. Dry cough',
+  '   worse at night',
+  'H/O: Type 2 DM on OHA',
+  'BP 150/96',
+  'Ix - CBC; LFT',
+  '  • Chest X-ray PA view',
+  'D/Dx',
+  'Viral URTI',
+  'Uncontrolled DM',
+  'Rx',
+  '1) Tab. Dolo 650 SOS for fever',
+  '2) Syp. Ascoril 5 ml TDS x 5 days',
+  'Steam inhalation',
+  'Adv: Plenty of oral fluids',
+  'Review after 5 days',
+  'Follow up: after 5 days with reports',
+].join('\n');
+
+const source = (text: string, span?: SourceSpan) => span && text.slice(span.start, span.end);
+
+describe('tokenizeNote', () => {
+  it('splits a note into sections that run until the next header', () => {
+    const sections = MedicalRecordParser.tokenizeNote(note);
+
+    expect(sections.map(section => [section.kind, section.header, section.items.map(item => item.text)])).toEqual([
+      ['text', undefined, ['Dr. Mehta Clinic']],
+      ['complaints', 'C/C', ['Fever x 3 days', 'Dry cough worse at night']],
+      ['history', 'H/O', ['Type 2 DM on OHA']],
+      ['vitals', 'BP', ['150/96']],
+      ['investigations', 'Ix', ['CBC', 'LFT', 'Chest X-ray PA view']],
+      ['diagnoses', 'D/Dx', ['Viral URTI', 'Uncontrolled DM']],
+      ['prescriptions', 'Rx', ['Tab. Dolo 650 SOS for fever', 'Syp. Ascoril 5 ml TDS x 5 days', 'Steam inhalation']],
+      ['notes', 'Adv', ['Plenty of oral fluids', 'Review after 5 days']],
+      ['followUp', 'Follow up', ['after 5 days with reports']],
+    ]);
+  });
+
+  it('keeps the span of every section and item', () => {
+    const sections = MedicalRecordParser.tokenizeNote(note);
+    const complaints = sections[1];
+
+    expect(source(note, complaints)).toBe('C/C:\n1. Fever x 3 days\n2. Dry cough\n   worse at night');
+    expect(complaints.items.map(item => source(note, item))).toEqual([
+      'Fever x 3 days',
+      'Dry cough\n   worse at night',
+    ]);
+    expect(sections.flatMap(section => section.items).every(item => {
+      const text = source(note, item)!;
+      return text.replace(/\s+/g, ' ') === item.text;
+    })).toBe(true);
+  });
+
+  it('does not take sentences that start with a header word for headers', () => {
+    const sections = MedicalRecordParser.tokenizeNote('Rx: Tab. Telma 40 OD\nTreatment continued as before\nPlan of care discussed');
+
+    expect(sections).toHaveLength(1);
+    expect(sections[0].items.map(item => item.text)).toEqual([
+      'Tab. Telma 40 OD',
+      'Treatment continued as before',
+      'Plan of care discussed',
+    ]);
+  });
+
+  it('reads headers written with "Rx" and no separator', () => {
+    const [section] = MedicalRecordParser.tokenizeNote('Rx Tab. Pan 40 OD BBF');
+    expect(section).toMatchObject({ kind: 'prescriptions', items: [{ text: 'Tab. Pan 40 OD BBF', start: 3 }] });
+  });
+});
+
+describe('parseMedicalRecord sections', () => {
+  const parsed = MedicalRecordParser.parseMedicalRecord(note, VISIT);
+
+  it('reads multi-line sections and numbered lists', () => {
+    expect(parsed.chiefComplaints).toEqual(['Fever x 3 days', 'Dry cough worse at night']);
+    expect(parsed.investigations).toEqual(['CBC', 'LFT', 'Chest X-ray PA view']);
+    expect(parsed.diagnoses).toEqual(['Viral URTI', 'Uncontrolled DM']);
+    expect(parsed.prescriptions.map(m => [m.name, m.frequency])).toEqual([
+      ['Dolo', 'As needed (PRN)'],
+      ['Ascoril', 'Three times daily'],
+    ]);
+    expect(parsed.notes).toEqual([
+      'H/O: Type 2 DM on OHA',
+      'Steam inhalation',
+      'Plenty of oral fluids',
+      'Review after 5 days',
+      'Dr. Mehta Clinic',
+    ]);
+    expect(parsed.followUp).toBe('after 5 days with reports');
+    expect(parsed.vitals).toEqual({ bloodPressure: '150/96' });
+    expect(parsed.urgency).toBe('high');
+  });
+
+  it('points every extracted item at the text it came from', () => {
+    const { sources } = parsed;
+
+    expect(sources!.chiefComplaints.map(span => source(note, span))).toEqual(['Fever x 3 days', 'Dry cough\n   worse at night']);
+    expect(sources!.diagnoses.map(span => source(note, span))).toEqual(['Viral URTI', 'Uncontrolled DM']);
+    expect(sources!.prescriptions.map(span => source(note, span))).toEqual([
+      'Tab. Dolo 650 SOS for fever',
+      'Syp. Ascoril 5 ml TDS x 5 days',
+    ]);
+    expect(sources!.notes.map(span => source(note, span))[0]).toBe('Type 2 DM on OHA');
+    expect(source(note, sources!.followUp)).toBe('after 5 days with reports');
+    expect(sources!.investigations).toHaveLength(parsed.investigations.length);
+  });
+
+  it('finds complaints written as prose', () => {
+    const text = 'Patient seen in OPD.\nComplains of burning micturition since 2 days';
+    const prose = MedicalRecordParser.parseMedicalRecord(text, VISIT);
+
+    expect(prose.chiefComplaints).toEqual(['burning micturition since 2 days']);
+    expect(source(text, prose.sources!.chiefComplaints[0])).toBe('burning micturition since 2 days');
+  });
+
+  it('leaves sources out of combined data', () => {
+    const combined = MedicalRecordParser.combineParsedData(parsed, MedicalRecordParser.parseMedicalRecord('Dx: Sinusitis'));
+
+    expect(combined.diagnoses).toEqual(['Viral URTI', 'Uncontrolled DM', 'Sinusitis']);
+    expect(combined.sources).toBeUndefined();
+  });
+});
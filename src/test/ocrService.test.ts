@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Document } from '../../types';
+
+const tesseract = vi.hoisted(() => ({
+  createWorker: vi.fn(),
+  recognize: vi.fn(),
+  terminate: vi.fn(),
+  logger: undefined as undefined | ((message: any) => void),
+}));
+
+vi.mock('tesseract.js', () => ({
+  OEM: { LSTM_ONLY: 1 },
+  createWorker: tesseract.createWorker,
+}));
+
+import {
+  recognizeImage,
+  ocrDocument,
+  processMedicalDocument,
+  extractMedicalData,
+  parseMedicationFromText,
+  formatMedicationsForPrescription,
+  terminateOcrWorker,
+} from '../../services/ocrService';
+
+const page = (lines: Array<[string, number]>) => ({
+  text: lines.map(([text]) => text).join('\n') + '\n',
+  confidence: 88,
+  blocks: [{ paragraphs: [{ lines: lines.map(([text, confidence]) => ({ text: `${text}\n`, confidence })) }] }],
+});
+
+const imageDocument = (overrides: Partial<Document> = {}): Document => ({
+  id: 'doc-1',
+  name: 'prescription.jpg',
+  type: 'image/jpeg',
+  size: 2048,
+  uploadedAt: '2024-05-01T10:00:00.000Z',
+  url: 'blob:http://localhost/prescription',
+  ...overrides,
+});
+
+describe('ocrService', () => {
+  beforeEach(async () => {
+    await terminateOcrWorker();
+    vi.clearAllMocks();
+    tesseract.createWorker.mockImplementation(async (_lang, _oem, options) => {
+      tesseract.logger = options.logger;
+      return { recognize: tesseract.recognize, terminate: tesseract.terminate };
+    });
+    tesseract.recognize.mockImplementation(async () => {
+      tesseract.logger?.({ status: 'recognizing text', progress: 0.5 });
+      tesseract.logger?.({ status: 'recognizing text', progress: 1 });
+      return { data: page([['Patient: Asha Verma', 93], ['BP 130/85 mmHg', 71], ['', 0]]) };
+    });
+  });
+
+  it('returns text with page and per-line confidence from a single shared worker', async () => {
+    const first = await recognizeImage(new Blob(['a']));
+    await recognizeImage(new Blob(['b']));
+
+    expect(tesseract.createWorker).toHaveBeenCalledTimes(1);
+    expect(tesseract.createWorker).toHaveBeenCalledWith('eng', 1, expect.objectContaining({
+      workerPath: `${window.location.origin}/tesseract/worker.min.js`,
+      corePath: `${window.location.origin}/tesseract/core`,
+      langPath: `${window.location.origin}/tesseract/lang`,
+      logger: expect.any(Function),
+    }));
+    expect(tesseract.recognize).toHaveBeenCalledWith(expect.any(Blob), {}, { text: true, blocks: true });
+    expect(first).toEqual({
+      text: 'Patient: Asha Verma\nBP 130/85 mmHg',
+      confidence: 0.88,
+      lines: [
+        { text: 'Patient: Asha Verma', confidence: 0.93 },
+        { text: 'BP 130/85 mmHg', confidence: 0.71 },
+      ],
+    });
+  });
+
+  it('reports progress to the job that asked for it', async () => {
+    const onProgress = vi.fn();
+    const other = vi.fn();
+
+    await Promise.all([recognizeImage(new Blob(['a']), { onProgress }), recognizeImage(new Blob(['b']), { onProgress: other })]);
+
+    expect(onProgress.mock.calls).toEqual([
+      [{ status: 'recognizing text', progress: 0.5 }],
+      [{ status: 'recognizing text', progress: 1 }],
+    ]);
+    expect(other).toHaveBeenCalledTimes(2);
+  });
+
+  it('recognizes the same file only once', async () => {
+    const file = new Blob(['same']);
+    const [a, b] = await Promise.all([recognizeImage(file), recognizeImage(file)]);
+
+    expect(a).toBe(b);
+    expect(tesseract.recognize).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a file after a failed recognition', async () => {
+    const file = new Blob(['retry']);
+    tesseract.recognize.mockRejectedValueOnce(new Error('decode failed'));
+
+    await expect(recognizeImage(file)).rejects.toThrow('decode failed');
+    await expect(recognizeImage(file)).resolves.toMatchObject({ confidence: 0.88 });
+  });
+
+  it('caches OCR text on Document.content and skips documents that already have it', async () => {
+    const processed = await ocrDocument(imageDocument());
+
+    expect(processed.content).toBe('Patient: Asha Verma\nBP 130/85 mmHg');
+    expect(processed.ocr).toMatchObject({ engine: 'tesseract.js/eng', confidence: 0.88 });
+    expect(processed.ocr?.lines).toHaveLength(2);
+
+    const again = await processMedicalDocument(processed);
+    expect(tesseract.recognize).toHaveBeenCalledTimes(1);
+    expect(again).toMatchObject({ cached: true, confidence: 0.88, text: processed.content });
+    expect(again.extractedData.patientName).toBe('Asha Verma');
+  });
+
+  it('does not OCR non-image documents', async () => {
+    const pdf = imageDocument({ type: 'application/pdf', name: 'report.pdf' });
+
+    expect(await ocrDocument(pdf)).toBe(pdf);
+    expect((await processMedicalDocument(pdf)).confidence).toBe(0);
+    expect(tesseract.createWorker).not.toHaveBeenCalled();
+  });
+
+  it('terminates the worker on request and starts a new one afterwards', async () => {
+    await recognizeImage(new Blob(['a']));
+    await terminateOcrWorker();
+    await recognizeImage(new Blob(['b']));
+
+    expect(tesseract.terminate).toHaveBeenCalledTimes(1);
+    expect(tesseract.createWorker).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('extractMedicalData', () => {
+  it('extracts patient, date, diagnoses, labs and vitals from report text', () => {
+    const text = [
+      'CITY DIAGNOSTICS',
+      'Patient Name: Ravi Kumar',
+      'Date: 12/03/2024',
+      'Diagnosis: Type 2 Diabetes; Hypertension',
+      'Fasting Glucose 126 mg/dL H 70-100',
+      'HbA1c: 7.4 % 4.0-5.6',
+      'Haemoglobin 13.2 g/dL 13-17',
+      'BP: 142/90  Pulse 78',
+      'Weight 81.5 kg',
+    ].join('\n');
+
+    expect(extractMedicalData(text)).toEqual({
+      patientName: 'Ravi Kumar',
+      date: '12/03/2024',
+      diagnosis: ['Type 2 Diabetes', 'Hypertension'],
+      labResults: [
+        { test: 'Fasting Glucose', value: '126', unit: 'mg/dL', reference: 'High' },
+        { test: 'HbA1c', value: '7.4', unit: '%', reference: '4.0-5.6' },
+        { test: 'Haemoglobin', value: '13.2', unit: 'g/dL', reference: '13-17' },
+      ],
+      vitals: [
+        { measurement: 'Blood Pressure', value: '142/90', unit: 'mmHg' },
+        { measurement: 'Pulse', value: '78', unit: 'bpm' },
+        { measurement: 'Weight', value: '81.5', unit: 'kg' },
+      ],
+    });
+  });
+
+  it('returns nothing for text without recognisable fields', () => {
+    expect(extractMedicalData('Thank you for visiting')).toEqual({});
+  });
+});
+
+describe('prescription lines', () => {
+  it('parses name, strength, dosage and frequency from a medication line', () => {
+    expect(parseMedicationFromText('Metformin 500mg - Take 1 tablet twice daily with meals')).toEqual({
+      name: 'Metformin',
+      strength: '500mg',
+      dosage: '1 tablet',
+      frequency: 'twice daily',
+      duration: 'with meals',
+      instructions: 'Take 1 tablet twice daily with meals',
+    });
+    expect(parseMedicationFromText('1. Lisinopril 10mg - Take 1 tablet daily in the morning')).toMatchObject({ name: 'Lisinopril', strength: '10mg' });
+    expect(parseMedicationFromText('Amoxicillin 500mg - Take 1 capsule TID for 7 days')).toMatchObject({ dosage: '1 capsule', frequency: 'TID' });
+    expect(parseMedicationFromText('Albuterol 90mcg - Take 2 puffs every 4-6 hours as needed')).toMatchObject({ dosage: '2 puffs', frequency: 'as needed' });
+  });
+
+  it('parses lines without a strength and skips lines without instructions', () => {
+    expect(parseMedicationFromText('Insulin glargine - Inject 10 units subcutaneously at bedtime')).toEqual({
+      name: 'Insulin glargine',
+      dosage: '10 units',
+      duration: 'at bedtime',
+      instructions: 'Inject 10 units subcutaneously at bedtime',
+    });
+    expect(parseMedicationFromText('Vitamin D3')).toBeNull();
+  });
+
+  it('formats parsed lines as a prescription', () => {
+    expect(formatMedicationsForPrescription([
+      'Metformin 500mg - Take 1 tablet twice daily with meals',
+      'Metoprolol 25mg - Take 1 tablet BID',
+      'Insulin glargine - Inject 10 units subcutaneously at bedtime',
+    ])).toBe([
+      'Metformin 500mg - 1 tablet twice daily with meals',
+      'Metoprolol 25mg - 1 tablet bid',
+      'Insulin Glargine - 10 units at bedtime',
+    ].join('\n'));
+    expect(formatMedicationsForPrescription([])).toBe('');
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Document } from '../../types';
+
+const mocks = vi.hoisted(() => ({
+  getDocument: vi.fn(),
+  recognizeImage: vi.fn(),
+  destroy: vi.fn(),
+  render: vi.fn(),
+}));
+
+vi.mock('pdfjs-dist', () => ({
+  GlobalWorkerOptions: {},
+  getDocument: mocks.getDocument,
+}));
+
+vi.mock('../../services/ocrService', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../services/ocrService')>()),
+  recognizeImage: mocks.recognizeImage,
+}));
+
+import { extractPdfText, itemsToLines } from '../../services/pdfTextService';
+import { MedicalRecordParser } from '../../services/medicalRecordParser';
+
+const PAGE_HEIGHT = 842;
+
+// A text run at (x, top) in top-left page coordinates, as pdf.js reports it
+const run = (str: string, x: number, top: number, width = str.length * 5, height = 10) => ({
+  str,
+  dir: 'ltr',
+  transform: [height, 0, 0, height, x, PAGE_HEIGHT - top],
+  width,
+  height,
+  fontName: 'g_d0_f1',
+  hasEOL: false,
+});
+
+// jsdom's Blob has no arrayBuffer()
+const pdfFile = () => Object.assign(new Blob(['%PDF-1.7']), { arrayBuffer: async () => new ArrayBuffer(8) });
+
+const mockPdf = (pages: object[][]) => {
+  mocks.getDocument.mockReturnValue({
+    promise: Promise.resolve({
+      numPages: pages.length,
+      destroy: mocks.destroy,
+      getPage: async (pageNumber: number) => ({
+        getViewport: ({ scale }: { scale: number }) => ({ width: 595 * scale, height: PAGE_HEIGHT * scale }),
+        getTextContent: async () => ({ items: pages[pageNumber - 1], styles: {}, lang: null }),
+        render: (params: object) => {
+          mocks.render(pageNumber, params);
+          return { promise: Promise.resolve() };
+        },
+        cleanup: vi.fn(),
+      }),
+    }),
+  });
+};
+
+const labReportPage = [
+  run('CITY DIAGNOSTICS', 200, 40),
+  { type: 'beginMarkedContent', id: 'mc0' },
+  // Runs arrive out of reading order, as they often do in generated PDFs
+  run('126', 250, 120, 15),
+  run('Fasting Glucose', 50, 120, 75),
+  run('mg/dL', 300, 120, 25),
+  run(' ', 125, 120, 3),
+  run('Hb', 50, 140, 10),
+  run('A1c', 60, 140, 15),
+  run('7.4', 250, 140.5, 15),
+  run('%', 300, 140, 5),
+  run('Diagnosis: Type 2 Diabetes', 50, 180),
+];
+
+describe('pdfTextService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.recognizeImage.mockResolvedValue({
+      text: 'Ix: Lipid profile\nLDL 162 mg/dL',
+      confidence: 0.82,
+      lines: [
+        { text: 'Ix: Lipid profile', confidence: 0.9 },
+        { text: 'LDL 162 mg/dL', confidence: 0.74 },
+      ],
+    });
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({} as any);
+    vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(function (callback) {
+      callback(new Blob(['png'], { type: 'image/png' }));
+    });
+  });
+
+  it('rebuilds lines in reading order from positioned runs', () => {
+    expect(itemsToLines([
+      { text: 'mg/dL', x: 300, y: 20, width: 25, height: 10 },
+      { text: 'Glucose', x: 50, y: 20, width: 35, height: 10 },
+      { text: '126', x: 250, y: 20.5, width: 15, height: 10 },
+      { text: 'Report', x: 50, y: 5, width: 30, height: 10 },
+      { text: 'Hb', x: 50, y: 40, width: 10, height: 10 },
+      { text: 'A1c', x: 60, y: 40, width: 15, height: 10 },
+    ])).toEqual(['Report', 'Glucose  126  mg/dL', 'HbA1c']);
+  });
+
+  it('reads the text layer with page and position information', async () => {
+    mockPdf([labReportPage]);
+    const result = await extractPdfText(pdfFile());
+
+    expect(mocks.getDocument).toHaveBeenCalledWith({ data: expect.any(Uint8Array) });
+    expect(result.text).toBe('CITY DIAGNOSTICS\nFasting Glucose  126  mg/dL\nHbA1c  7.4  %\nDiagnosis: Type 2 Diabetes');
+
+    const [page] = result.pages;
+    expect(page).toMatchObject({ pageNumber: 1, width: 595, height: PAGE_HEIGHT, source: 'text-layer', lines: [] });
+    expect(page.items).toContainEqual({ text: 'Fasting Glucose', x: 50, y: 120, width: 75, height: 10 });
+    expect(mocks.recognizeImage).not.toHaveBeenCalled();
+    expect(mocks.destroy).toHaveBeenCalled();
+  });
+
+  it('OCRs only the pages without a text layer', async () => {
+    mockPdf([labReportPage, [run('2', 290, 820)]]);
+    const onProgress = vi.fn();
+    const result = await extractPdfText(pdfFile(), { onProgress });
+
+    expect(result.pages.map(page => page.source)).toEqual(['text-layer', 'ocr']);
+    expect(mocks.render).toHaveBeenCalledTimes(1);
+    expect(mocks.render).toHaveBeenCalledWith(2, expect.objectContaining({ viewport: { width: 1190, height: 1684 } }));
+    expect(mocks.recognizeImage).toHaveBeenCalledWith(expect.any(Blob), { onProgress: expect.any(Function) });
+    expect(result.pages[1]).toMatchObject({ text: 'Ix: Lipid profile\nLDL 162 mg/dL', confidence: 0.82, items: [] });
+    expect(result.text).toContain('\n\nIx: Lipid profile');
+    expect(onProgress).toHaveBeenLastCalledWith({ status: 'reading pages', progress: 1 });
+  });
+
+  it('can leave scanned pages empty instead of running OCR', async () => {
+    mockPdf([[run('2', 290, 820)]]);
+    const result = await extractPdfText(new Uint8Array([1, 2, 3]), { ocrScannedPages: false });
+
+    expect(result.pages[0]).toMatchObject({ source: 'text-layer', text: '2' });
+    expect(mocks.recognizeImage).not.toHaveBeenCalled();
+  });
+});
+
+describe('MedicalRecordParser document text', () => {
+  const pdfDocument: Document = {
+    id: 'doc-1',
+    name: 'lab-report.pdf',
+    type: 'application/pdf',
+    size: 1024,
+    uploadedAt: '2024-05-01T10:00:00.000Z',
+    url: 'blob:http://localhost/lab-report',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('stores page text on the document and records which pages were OCR\'d', async () => {
+    mockPdf([labReportPage, [run('2', 290, 820)]]);
+    mocks.recognizeImage.mockResolvedValue({ text: 'LDL 162 mg/dL', confidence: 0.8, lines: [{ text: 'LDL 162 mg/dL', confidence: 0.8 }] });
+
+    const document = await MedicalRecordParser.extractDocumentText(pdfDocument, pdfFile());
+
+    expect(document.content).toContain('Diagnosis: Type 2 Diabetes');
+    expect(document.pages).toEqual([
+      expect.objectContaining({ pageNumber: 1, source: 'text-layer' }),
+      { pageNumber: 2, source: 'ocr', text: 'LDL 162 mg/dL' },
+    ]);
+    expect(document.ocr).toMatchObject({ confidence: 0.8, lines: [{ text: 'LDL 162 mg/dL', confidence: 0.8 }] });
+  });
+
+  it('parses each document from its real text and never reads a document twice', async () => {
+    mockPdf([labReportPage]);
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue({ blob: async () => pdfFile() } as Response);
+
+    const { mergedData, documents } = await MedicalRecordParser.processMultipleDocuments([pdfDocument]);
+
+    expect(fetchSpy).toHaveBeenCalledWith(pdfDocument.url);
+    expect(documents[0].content).toContain('Fasting Glucose');
+    expect(documents[0].parsedData?.diagnoses).toEqual(mergedData.diagnoses);
+    expect(mergedData.diagnoses.join(' ')).toContain('Type 2 Diabetes');
+
+    await MedicalRecordParser.processMultipleDocuments(documents);
+    expect(mocks.getDocument).toHaveBeenCalledTimes(1);
+    fetchSpy.mockRestore();
+  });
+
+  it('skips documents that can no longer be read', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('Failed to fetch'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { mergedData, documents } = await MedicalRecordParser.processMultipleDocuments([pdfDocument]);
+
+    expect(documents).toEqual([pdfDocument]);
+    expect(mergedData.diagnoses).toEqual([]);
+    fetchSpy.mockRestore();
+  });
+});
@@ -0,0 +1,269 @@
+import { describe, it, expect } from 'vitest';
+import type { Medication } from '../../types';
+import { MedicalRecordParser } from '../../services/medicalRecordParser';
+
+const VISIT = '2024-03-01';
+
+type Expected = Omit<Medication, 'id' | 'startDate'>;
+
+// Prescription lines as our doctors write them, and the medication each should become
+const FIXTURES: Array<[string, Expected]> = [
+  // Dose patterns (morning-afternoon-night)
+  ['Tab. Metformin 500mg 1-0-1 x 30 days after food', {
+    name: 'Metformin', strength: '500mg', dosage: '1 tablet', frequency: 'Twice daily',
+    timings: ['09:00', '21:00'], duration: '30 days', endDate: '2024-03-30', notes: 'After food',
+  }],
+  ['Tab Amlodipine 5 mg 1-0-0', {
+    name: 'Amlodipine', strength: '5mg', dosage: '1 tablet', frequency: 'Once daily', timings: ['09:00'],
+  }],
+  ['Tab. Atorvastatin 10mg 0-0-1', {
+    name: 'Atorvastatin', strength: '10mg', dosage: '1 tablet', frequency: 'Once daily', timings: ['21:00'],
+  }],
+  ['Cap. Amoxicillin 500 mg 1-1-1 x 5 days', {
+    name: 'Amoxicillin', strength: '500mg', dosage: '1 capsule', frequency: 'Three times daily',
+    timings: ['09:00', '14:00', '21:00'], duration: '5 days', endDate: '2024-03-05',
+  }],
+  ['Tab. Glimepiride 1mg 1/2-0-1/2 before food', {
+    name: 'Glimepiride', strength: '1mg', dosage: '½ tablet', frequency: 'Twice daily',
+    timings: ['09:00', '21:00'], notes: 'Before food',
+  }],
+  ['Tab Metoprolol 25mg 1-0-½', {
+    name: 'Metoprolol', strength: '25mg', dosage: '1 tablet morning, ½ tablet night', frequency: 'Twice daily',
+    timings: ['09:00', '21:00'],
+  }],
+  ['Tab. Paracetamol 650 1-1-1-1 x 3 days', {
+    name: 'Paracetamol', strength: '650', dosage: '1 tablet', frequency: 'Four times daily',
+    timings: ['08:00', '13:00', '18:00', '22:00'], duration: '3 days', endDate: '2024-03-03',
+  }],
+  ['Tab. Prednisolone 10mg 2-0-0 x 1 week', {
+    name: 'Prednisolone', strength: '10mg', dosage: '2 tablets', frequency: 'Once daily',
+    timings: ['09:00'], duration: '1 week', endDate: '2024-03-07',
+  }],
+
+  // Frequency codes
+  ['Tab. Telma 40 OD', {
+    name: 'Telma', strength: '40', dosage: '1 tablet', frequency: 'Once daily', timings: ['09:00'],
+  }],
+  ['Tab Telma 40 H OD', {
+    name: 'Telma H', strength: '40', dosage: '1 tablet', frequency: 'Once daily', timings: ['09:00'],
+  }],
+  ['Tab. Augmentin 625 BD x 5 days', {
+    name: 'Augmentin', strength: '625', dosage: '1 tablet', frequency: 'Twice daily',
+    timings: ['09:00', '21:00'], duration: '5 days', endDate: '2024-03-05',
+  }],
+  ['Tab. Azithromycin 500mg OD x 3 days', {
+    name: 'Azithromycin', strength: '500mg', dosage: '1 tablet', frequency: 'Once daily',
+    timings: ['09:00'], duration: '3 days', endDate: '2024-03-03',
+  }],
+  ['Syp. Ascoril 5 ml TDS', {
+    name: 'Ascoril', dosage: '5 ml', frequency: 'Three times daily', timings: ['08:00', '14:00', '20:00'],
+  }],
+  ['Syp. Calpol 250mg/5ml 5ml TDS x 3 days', {
+    name: 'Calpol', strength: '250mg/5ml', dosage: '5 ml', frequency: 'Three times daily',
+    timings: ['08:00', '14:00', '20:00'], duration: '3 days', endDate: '2024-03-03',
+  }],
+  ['Cap. Doxycycline 100mg B.D. x 7 days after food', {
+    name: 'Doxycycline', strength: '100mg', dosage: '1 capsule', frequency: 'Twice daily',
+    timings: ['09:00', '21:00'], duration: '7 days', endDate: '2024-03-07', notes: 'After food',
+  }],
+  ['Tab. Ibuprofen 400mg QID PC', {
+    name: 'Ibuprofen', strength: '400mg', dosage: '1 tablet', frequency: 'Four times daily',
+    timings: ['08:00', '13:00', '18:00', '22:00'], notes: 'After food',
+  }],
+  ['Tab Alprazolam 0.25mg HS', {
+    name: 'Alprazolam', strength: '0.25mg', dosage: '1 tablet', frequency: 'Once daily at bedtime', timings: ['22:00'],
+  }],
+  ['Tab. Dolo 650 SOS', {
+    name: 'Dolo', strength: '650', dosage: '1 tablet', frequency: 'As needed (PRN)', timings: [],
+  }],
+  ['Tab. Ondansetron 4mg SOS for vomiting', {
+    name: 'Ondansetron', strength: '4mg', dosage: '1 tablet', frequency: 'As needed (PRN)', timings: [], notes: 'For vomiting',
+  }],
+  ['Tab. Cetirizine 10mg once a day at night x 5 days', {
+    name: 'Cetirizine', strength: '10mg', dosage: '1 tablet', frequency: 'Once daily at bedtime',
+    timings: ['22:00'], duration: '5 days', endDate: '2024-03-05',
+  }],
+  ['Tab Levocetirizine 5mg twice a day', {
+    name: 'Levocetirizine', strength: '5mg', dosage: '1 tablet', frequency: 'Twice daily', timings: ['09:00', '21:00'],
+  }],
+  ['Tab. Ciprofloxacin 500mg 12 hourly x 5/7', {
+    name: 'Ciprofloxacin', strength: '500mg', dosage: '1 tablet', frequency: 'Twice daily',
+    timings: ['09:00', '21:00'], duration: '5 days', endDate: '2024-03-05',
+  }],
+  ['Tab. Metronidazole 400mg TDS x 1/52', {
+    name: 'Metronidazole', strength: '400mg', dosage: '1 tablet', frequency: 'Three times daily',
+    timings: ['08:00', '14:00', '20:00'], duration: '1 week', endDate: '2024-03-07',
+  }],
+  ['Tab. Folic acid 5mg OD x 3/12', {
+    name: 'Folic acid', strength: '5mg', dosage: '1 tablet', frequency: 'Once daily',
+    timings: ['09:00'], duration: '3 months', endDate: '2024-05-31',
+  }],
+
+  // Empty stomach and before-breakfast doses move to waking time
+  ['Tab. Thyronorm 50mcg OD empty stomach', {
+    name: 'Thyronorm', strength: '50mcg', dosage: '1 tablet', frequency: 'Once daily',
+    timings: ['07:00'], notes: 'Empty stomach',
+  }],
+  ['Cap. Omez 20 OD BBF x 2 weeks', {
+    name: 'Omez', strength: '20', dosage: '1 capsule', frequency: 'Once daily',
+    timings: ['07:00'], duration: '2 weeks', endDate: '2024-03-14', notes: 'Before breakfast',
+  }],
+  ['Tab. Pan 40 1-0-0 before breakfast', {
+    name: 'Pan', strength: '40', dosage: '1 tablet', frequency: 'Once daily',
+    timings: ['07:00'], notes: 'Before breakfast',
+  }],
+
+  // Non-daily schedules
+  ['Cap. Vit D3 60000 IU once weekly x 8 weeks', {
+    name: 'Vit D3', strength: '60000IU', dosage: '1 capsule', frequency: 'Once weekly',
+    timings: ['09:00'], duration: '8 weeks', endDate: '2024-04-25',
+  }],
+  ['Sachet Uprise D3 60K weekly with milk', {
+    name: 'Uprise D3', strength: '60K', dosage: '1 sachet', frequency: 'Once weekly',
+    timings: ['09:00'], notes: 'With food',
+  }],
+  ['Tab. Methotrexate 7.5mg weekly', {
+    name: 'Methotrexate', strength: '7.5mg', dosage: '1 tablet', frequency: 'Once weekly', timings: ['09:00'],
+  }],
+  ['Tab. Prednisolone 5mg 1-0-0 alternate days', {
+    name: 'Prednisolone', strength: '5mg', dosage: '1 tablet', frequency: 'Alternate days', timings: ['09:00'],
+  }],
+
+  // Combinations, injections, inhalers and topicals
+  ['Tab. Janumet 50/500 1-0-1 after food', {
+    name: 'Janumet', strength: '50/500', dosage: '1 tablet', frequency: 'Twice daily',
+    timings: ['09:00', '21:00'], notes: 'After food',
+  }],
+  ['Tab. Glycomet GP 2 1-0-1 before food to continue', {
+    name: 'Glycomet GP', strength: '2', dosage: '1 tablet', frequency: 'Twice daily',
+    timings: ['09:00', '21:00'], notes: 'Before food',
+  }],
+  ['Inj. Lantus 10 units HS', {
+    name: 'Lantus', dosage: '10 units', frequency: 'Once daily at bedtime', timings: ['22:00'],
+  }],
+  ['Inj. Human Actrapid 8 IU TDS before meals', {
+    name: 'Human Actrapid', dosage: '8 units', frequency: 'Three times daily',
+    timings: ['08:00', '14:00', '20:00'], notes: 'Before food',
+  }],
+  ['Inj. Ceftriaxone 1g IV BD x 5 days', {
+    name: 'Ceftriaxone IV', strength: '1g', dosage: '1 injection', frequency: 'Twice daily',
+    timings: ['09:00', '21:00'], duration: '5 days', endDate: '2024-03-05',
+  }],
+  ['Inh. Budecort 200 2 puffs BD', {
+    name: 'Budecort', strength: '200', dosage: '2 puffs', frequency: 'Twice daily', timings: ['09:00', '21:00'],
+  }],
+  ['Inhaler Asthalin 2 puffs SOS', {
+    name: 'Asthalin', dosage: '2 puffs', frequency: 'As needed (PRN)', timings: [],
+  }],
+  ['Drops Moxifloxacin 1 drop QID x 1 week', {
+    name: 'Moxifloxacin', dosage: '1 drop', frequency: 'Four times daily',
+    timings: ['08:00', '13:00', '18:00', '22:00'], duration: '1 week', endDate: '2024-03-07',
+  }],
+  ['Oint. Mupirocin BD x 5 days', {
+    name: 'Mupirocin', dosage: 'Apply locally', frequency: 'Twice daily',
+    timings: ['09:00', '21:00'], duration: '5 days', endDate: '2024-03-05',
+  }],
+  ['Tablet Losartan 50mg once daily', {
+    name: 'Losartan', strength: '50mg', dosage: '1 tablet', frequency: 'Once daily', timings: ['09:00'],
+  }],
+
+  // Numbered lines and missing form prefixes
+  ['1. Tab. Ecosprin 75mg 0-1-0 after lunch', {
+    name: 'Ecosprin', strength: '75mg', dosage: '1 tablet', frequency: 'Once daily', timings: ['14:00'], notes: 'After lunch',
+  }],
+  ['2) Metformin 1000mg BD', {
+    name: 'Metformin', strength: '1000mg', dosage: '1 tablet', frequency: 'Twice daily', timings: ['09:00', '21:00'],
+  }],
+  ['- Rosuvastatin 10 mg HS x 1 month', {
+    name: 'Rosuvastatin', strength: '10mg', dosage: '1 tablet', frequency: 'Once daily at bedtime',
+    timings: ['22:00'], duration: '1 month', endDate: '2024-03-31',
+  }],
+  ['Syp. Lactulose 15 ml at bedtime', {
+    name: 'Lactulose', dosage: '15 ml', frequency: 'Once daily at bedtime', timings: ['22:00'],
+  }],
+  ['Tab. Max 5 days', {
+    name: 'Max', dosage: '1 tablet', frequency: 'As directed', duration: '5 days', endDate: '2024-03-05',
+  }],
+];
+
+describe('MedicalRecordParser.parsePrescriptionLine', () => {
+  it.each(FIXTURES)('parses %s', (line, expected) => {
+    const medication = MedicalRecordParser.parsePrescriptionLine(line, VISIT);
+
+    expect(medication).not.toBeNull();
+    const { id, startDate, ...fields } = medication!;
+    expect(id).toMatch(/^med-/);
+    expect(startDate).toBe(VISIT);
+    expect(fields).toEqual(expected);
+  });
+
+  it.each([
+    'Review after 2 weeks',
+    'Conservative management',
+    'Plenty of oral fluids',
+    '',
+    '1.',
+  ])('ignores %j', line => {
+    expect(MedicalRecordParser.parsePrescriptionLine(line, VISIT)).toBeNull();
+  });
+
+  it('starts courses today when no visit date is given', () => {
+    const today = new Date().toISOString().split('T')[0];
+    expect(MedicalRecordParser.parsePrescriptionLine('Tab. Dolo 650 SOS')?.startDate).toBe(today);
+  });
+});
+
+describe('prescriptions in record text', () => {
+  it('reads every line of the Rx section up to the next section', () => {
+    const text = [
+      'C/C: Fever with cough x 3 days',
+      'D/Dx: Acute bronchitis',
+      'Rx:',
+      '1. Tab. Augmentin 625 1-0-1 x 5 days after food',
+      '2. Syp. Ascoril 5 ml TDS',
+      '3. Tab. Dolo 650 SOS',
+      'Plenty of oral fluids',
+      'Follow up: after 5 days',
+      'Tab. Montair LC 0-0-1 x 10 days',
+    ].join('\n');
+
+    const parsed = MedicalRecordParser.parseMedicalRecord(text, VISIT);
+
+    expect(parsed.prescriptions.map(m => [m.name, m.frequency, m.endDate])).toEqual([
+      ['Augmentin', 'Twice daily', '2024-03-05'],
+      ['Ascoril', 'Three times daily', undefined],
+      ['Dolo', 'As needed (PRN)', undefined],
+      ['Montair LC', 'Once daily', '2024-03-10'],
+    ]);
+    expect(parsed.prescriptions.every(m => m.startDate === VISIT)).toBe(true);
+  });
+
+  it('reads items on the header line and ;-separated items', () => {
+    const parsed = MedicalRecordParser.parseMedicalText(
+      'Prescription: Tab. Telma 40 OD; Tab. Metformin 500mg 1-0-1\nNotes: Low salt diet',
+      VISIT
+    );
+
+    expect(parsed.prescriptions.map(m => `${m.name} ${m.strength} ${m.frequency}`)).toEqual([
+      'Telma 40 Once daily',
+      'Metformin 500mg Twice daily',
+    ]);
+  });
+
+  it('keeps the parsed fields when the record is reconciled', () => {
+    const parsed = MedicalRecordParser.parseMedicalRecord(`
+          C/C: Routine review
+          R/X: Tab. Glimepiride 1mg 1-0-0 before breakfast
+          Notes: Sugar control improving
+        `, VISIT);
+
+    expect(parsed.prescriptions).toHaveLength(1);
+    expect(parsed.prescriptions[0]).toMatchObject({
+      name: 'Glimepiride',
+      strength: '1mg',
+      frequency: 'Once daily',
+      timings: ['07:00'],
+      notes: 'Before breakfast',
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import type { VitalSign } from '../../types';
+import { MedicalRecordParser } from '../../services/medicalRecordParser';
+import {
+  createVitalSign,
+  flagVital,
+  getVitalRange,
+  vitalsFromParsedData,
+  mergeVitalSigns,
+  getVitalTrends,
+  getBmi,
+  formatVitalValue,
+} from '../../services/vitalsService';
+
+const adult = { dateOfBirth: '1970-06-15' };
+const toddler = { dateOfBirth: '2022-01-10' };
+
+const reading = (type: VitalSign['type'], value: number | string, date: string, unit?: string) =>
+  createVitalSign({ type, value, unit, date })!;
+
+describe('createVitalSign', () => {
+  it('reads blood pressure as systolic/diastolic', () => {
+    expect(reading('bloodPressure', '142 / 91', '2024-03-01')).toMatchObject({
+      type: 'bloodPressure',
+      value: 142,
+      secondaryValue: 91,
+      unit: 'mmHg',
+      source: 'manual',
+    });
+    expect(createVitalSign({ type: 'bloodPressure', value: '142', date: '2024-03-01' })).toBeNull();
+  });
+
+  it('converts readings to the unit of each vital', () => {
+    expect(reading('weight', 165, '2024-03-01', 'lbs')).toMatchObject({ value: 74.8, unit: 'kg', reportedValue: '165 lbs' });
+    expect(reading('height', 5.5 * 12, '2024-03-01', 'in')).toMatchObject({ value: 167.6, unit: 'cm' });
+    expect(reading('temperature', 38.5, '2024-03-01', '°C')).toMatchObject({ value: 101.3, unit: '°F' });
+    expect(reading('temperature', 38.5, '2024-03-01').value).toBe(101.3);
+    expect(reading('temperature', 99.1, '2024-03-01').value).toBe(99.1);
+    expect(createVitalSign({ type: 'heartRate', value: 72, unit: 'kg', date: '2024-03-01' })).toBeNull();
+  });
+});
+
+describe('normal ranges', () => {
+  it('picks heart rate and breathing ranges by age', () => {
+    expect(getVitalRange('heartRate', toddler, '2024-03-01')).toMatchObject({ low: 90, high: 150 });
+    expect(getVitalRange('heartRate', adult, '2024-03-01')).toMatchObject({ low: 60, high: 100 });
+    expect(getVitalRange('heartRate', undefined, '2024-03-01')).toMatchObject({ low: 60, high: 100 });
+    expect(getVitalRange('respiratoryRate', toddler, '2024-03-01')).toMatchObject({ low: 24, high: 40 });
+  });
+
+  it('flags readings for the patient\'s age', () => {
+    const heartRate = reading('heartRate', 120, '2024-03-01');
+    expect(flagVital(heartRate, toddler)).toBe('normal');
+    expect(flagVital(heartRate, adult)).toBe('high');
+
+    expect(flagVital(reading('bloodPressure', '118/92', '2024-03-01'), adult)).toBe('high');
+    expect(flagVital(reading('bloodPressure', '190/100', '2024-03-01'), adult)).toBe('critical-high');
+    expect(flagVital(reading('oxygenSaturation', 88, '2024-03-01'), adult)).toBe('critical-low');
+    expect(flagVital(reading('temperature', 100.4, '2024-03-01'), adult)).toBe('high');
+    expect(flagVital(reading('weight', 70, '2024-03-01'), adult)).toBeUndefined();
+  });
+});
+
+describe('vitals from visit notes', () => {
+  it('extracts vitals written in the note and dates them to the visit', () => {
+    const parsed = MedicalRecordParser.parseMedicalRecord([
+      'C/C: Headache',
+      'O/E: BP 150 / 96, Pulse 88/min, Temp 99.4 F',
+      'SpO2 97%  RR 18',
+      'Wt: 82.5 kg  Ht: 172 cm',
+    ].join('\n'));
+
+    expect(parsed.vitals).toEqual({
+      bloodPressure: '150/96',
+      heartRate: '88',
+      temperature: '99.4 F',
+      respiratoryRate: '18',
+      oxygenSaturation: '97',
+      weight: '82.5 kg',
+      height: '172 cm',
+    });
+
+    const vitals = vitalsFromParsedData(parsed.vitals, { date: '2024-03-01', recordId: 'rec-1' });
+    expect(vitals.map(formatVitalValue)).toEqual(['150/96 mmHg', '88 bpm', '99.4°F', '18 breaths/min', '97%', '82.5 kg', '172 cm']);
+    expect(vitals.every(v => v.source === 'record' && v.recordId === 'rec-1' && v.date === '2024-03-01')).toBe(true);
+  });
+
+  it('does not duplicate readings when a record is saved again', () => {
+    const first = [reading('heartRate', 72, '2024-03-01'), reading('bloodPressure', '130/85', '2024-03-01')];
+    const again = [reading('bloodPressure', '130/85', '2024-03-01T18:00'), reading('bloodPressure', '130/80', '2024-03-01')];
+
+    const merged = mergeVitalSigns(first, again);
+    expect(merged).toHaveLength(3);
+    expect(merged.slice(0, 2)).toEqual(first);
+  });
+});
+
+describe('vital trends', () => {
+  const history = [
+    reading('weight', 84, '2024-01-05'),
+    reading('heartRate', 76, '2024-03-01'),
+    reading('weight', 81.5, '2024-03-01'),
+    reading('height', 172, '2023-06-01'),
+    reading('bloodPressure', '150/95', '2023-11-20'),
+    reading('bloodPressure', '138/88', '2024-03-01'),
+  ];
+
+  it('computes the direction of each vital from its history', () => {
+    const trends = getVitalTrends(history, adult);
+
+    expect(trends.map(t => [t.type, t.direction, t.change])).toEqual([
+      ['bloodPressure', 'down', -12],
+      ['heartRate', 'stable', undefined],
+      ['weight', 'down', -2.5],
+      ['height', 'stable', undefined],
+    ]);
+    expect(trends[0]).toMatchObject({ latest: { value: 138 }, previous: { value: 150 }, flag: 'high' });
+  });
+
+  it('computes BMI from the latest weight and height', () => {
+    expect(getBmi(history, adult)).toEqual({ value: 27.5, category: 'overweight', date: '2024-03-01' });
+    expect(getBmi([reading('weight', 20, '2024-03-01'), reading('height', 110, '2024-03-01')], toddler)).toEqual({
+      value: 16.5,
+      date: '2024-03-01',
+    });
+    expect(getBmi([reading('weight', 70, '2024-03-01')], adult)).toBeUndefined();
+  });
+});
@@ -0,0 +1,162 @@
+import type { StateCreator } from 'zustand';
+import type { HypertensionRecord, HomeBloodPressureReading, AntihypertensiveMedication } from '../../types';
+import type { AppState } from '../types';
+import { createHypertensionRecord } from '../../services/hypertensionService';
+
+// Simple UUID generator
+const generateUUID = (): string => {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
+    const r = Math.random() * 16 | 0;
+    const v = c === 'x' ? r : (r & 0x3 | 0x8);
+    return v.toString(16);
+  });
+};
+
+const generateUniqueId = (prefix: string): string => {
+  return `${prefix}-${Date.now()}-${generateUUID().slice(0, 8)}`;
+};
+
+export interface HypertensionState {
+  // Hypertension Actions
+  initializeHypertensionRecord: (patientId: string) => void;
+  addBloodPressureReading: (patientId: string, reading: Omit<HomeBloodPressureReading, 'id'>) => { success: boolean; error?: string; reading?: HomeBloodPressureReading };
+  updateBloodPressureReading: (patientId: string, readingId: string, updates: Partial<HomeBloodPressureReading>) => void;
+  deleteBloodPressureReading: (patientId: string, readingId: string) => void;
+  addAntihypertensiveMedication: (patientId: string, medication: Omit<AntihypertensiveMedication, 'id'>) => { success: boolean; error?: string; medication?: AntihypertensiveMedication };
+  updateAntihypertensiveMedication: (patientId: string, medicationId: string, updates: Partial<AntihypertensiveMedication>) => void;
+  deleteAntihypertensiveMedication: (patientId: string, medicationId: string) => void;
+  updateHypertensionRecord: (patientId: string, updates: Partial<HypertensionRecord>) => void;
+}
+
+export const createHypertensionSlice: StateCreator<AppState & HypertensionState, [], [], HypertensionState> = (set, get) => {
+  // Apply a change to a patient's hypertension record, if they have one
+  const updateRecord = (patientId: string, update: (record: HypertensionRecord) => HypertensionRecord) => {
+    set((state) => ({
+      patients: state.patients.map(p =>
+        p.id === patientId && p.hypertensionRecord
+          ? { ...p, hypertensionRecord: update(p.hypertensionRecord) }
+          : p
+      )
+    }));
+  };
+
+  return {
+    // Initialize hypertension record for a patient
+    initializeHypertensionRecord: (patientId: string) => {
+      const { patients } = get();
+      const patient = patients.find(p => p.id === patientId);
+
+      if (patient && !patient.hypertensionRecord) {
+        const newHypertensionRecord: HypertensionRecord = {
+          ...createHypertensionRecord(patientId),
+          id: generateUniqueId('hypertension')
+        };
+
+        set((state) => ({
+          patients: state.patients.map(p =>
+            p.id === patientId
+              ? { ...p, hypertensionRecord: newHypertensionRecord }
+              : p
+          )
+        }));
+      }
+    },
+
+    // Add home blood pressure reading
+    addBloodPressureReading: (patientId: string, reading: Omit<HomeBloodPressureReading, 'id'>) => {
+      try {
+        const patient = get().patients.find(p => p.id === patientId);
+
+        if (!patient) {
+          return { success: false, error: 'Patient not found' };
+        }
+
+        if (reading.systolic <= reading.diastolic) {
+          return { success: false, error: 'Systolic pressure must be higher than diastolic' };
+        }
+
+        // Initialize hypertension record if it doesn't exist
+        if (!patient.hypertensionRecord) {
+          get().initializeHypertensionRecord(patientId);
+        }
+
+        const newReading: HomeBloodPressureReading = {
+          ...reading,
+          id: generateUniqueId('bp')
+        };
+
+        updateRecord(patientId, record => ({ ...record, readings: [...record.readings, newReading] }));
+
+        return { success: true, reading: newReading };
+      } catch (error) {
+        console.error('Failed to add blood pressure reading:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    },
+
+    // Update home blood pressure reading
+    updateBloodPressureReading: (patientId: string, readingId: string, updates: Partial<HomeBloodPressureReading>) => {
+      updateRecord(patientId, record => ({
+        ...record,
+        readings: record.readings.map(r => r.id === readingId ? { ...r, ...updates } : r)
+      }));
+    },
+
+    // Delete home blood pressure reading
+    deleteBloodPressureReading: (patientId: string, readingId: string) => {
+      updateRecord(patientId, record => ({
+        ...record,
+        readings: record.readings.filter(r => r.id !== readingId)
+      }));
+    },
+
+    // Add antihypertensive medication
+    addAntihypertensiveMedication: (patientId: string, medication: Omit<AntihypertensiveMedication, 'id'>) => {
+      try {
+        const patient = get().patients.find(p => p.id === patientId);
+
+        if (!patient) {
+          return { success: false, error: 'Patient not found' };
+        }
+
+        // Initialize hypertension record if it doesn't exist
+        if (!patient.hypertensionRecord) {
+          get().initializeHypertensionRecord(patientId);
+        }
+
+        const newMedication: AntihypertensiveMedication = {
+          ...medication,
+          id: generateUniqueId('medication')
+        };
+
+        updateRecord(patientId, record => ({ ...record, medications: [...record.medications, newMedication] }));
+
+        return { success: true, medication: newMedication };
+      } catch (error) {
+        console.error('Failed to add antihypertensive medication:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    },
+
+    // Update antihypertensive medication
+    updateAntihypertensiveMedication: (patientId: string, medicationId: string, updates: Partial<AntihypertensiveMedication>) => {
+      updateRecord(patientId, record => ({
+        ...record,
+        medications: record.medications.map(m => m.id === medicationId ? { ...m, ...updates } : m)
+      }));
+    },
+
+    // Delete antihypertensive medication
+    deleteAntihypertensiveMedication: (patientId: string, medicationId: string) => {
+      updateRecord(patientId, record => ({
+        ...record,
+        medications: record.medications.filter(m => m.id !== medicationId)
+      }));
+    },
+
+    // Update hypertension record
+    updateHypertensionRecord: (patientId: string, updates: Partial<HypertensionRecord>) => {
+      updateRecord(patientId, record => ({ ...record, ...updates }));
+    }
+  };
+};
@@ -8,6 +8,7 @@ import { useSearchStore } from './slices/searchStore';
 import { createBackupSlice, type BackupState } from './slices/backupStore';
 import { createEyeCareSlice, type EyeCareState } from './slices/eyeCareStore';
 import { createDiabetesSlice, type DiabetesState } from './slices/diabetesStore';
+import { createHypertensionSlice, type HypertensionState } from './slices/hypertensionStore';
 import type { AppState } from './types';
 
 /**
@@ -18,7 +19,7 @@ import type { AppState } from './types';
  */
 
 // Type for the complete store interface
-interface AppStore extends AppState, BackupState, EyeCareState, DiabetesState {
+interface AppStore extends AppState, BackupState, EyeCareState, DiabetesState, HypertensionState {
   // Patient Actions
   setPatients: (patients: AppState['patients']) => void;
   addPatient: (patient: Omit<AppState['patients'][0], 'id'>) => { success: boolean; error?: string; patient?: AppState['patients'][0] };
@@ -101,7 +102,7 @@ interface AppStore extends AppState, BackupState, EyeCareState, DiabetesState {
  */
 export const useAppStore = create<AppStore>()(
   persist(
-    (set, get) => ({
+    (set, get, api) => ({
       // State from all slices
       ...usePatientStore.getState(),
       ...useDoctorStore.getState(),
@@ -110,6 +111,7 @@ export const useAppStore = create<AppStore>()(
       ...useSearchStore.getState(),
       ...createBackupSlice(set, get),
       ...createEyeCareSlice(set, get),
+      ...createHypertensionSlice(set, get, api),
 
       // Actions from Patient Store
       setPatients: (patients) => {
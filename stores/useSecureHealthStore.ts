@@ -1,7 +1,16 @@
 import { create } from 'zustand';
 import { secureStorage } from '../services/secureStorageService';
-import type { Patient, MedicalRecord, Doctor, Document, Reminder, Medication, HbA1cReading, BloodGlucoseReading, DiabetesMedication } from '../types';
+import type { Patient, MedicalRecord, Doctor, Document, Reminder, Medication, AllergyRecord, HbA1cReading, BloodGlucoseReading, DiabetesMedication, InsulinLogEntry, LabResult, VitalSign, HypertensionRecord, HomeBloodPressureReading, AntihypertensiveMedication } from '../types';
 import { DOCTORS } from '../constants';
+import { mergeLabResults } from '../services/labResultsService';
+import { mergeVitalSigns } from '../services/vitalsService';
+import { createHypertensionRecord } from '../services/hypertensionService';
+import { mergeGlucoseReadings } from '../services/glucoseImportService';
+import { createInsulinLogEntry } from '../services/insulinLogService';
+import { createDoseEvent, recordDoseEvent } from '../services/adherenceService';
+import { getRefilledStock, syncRefillReminders } from '../services/medicationStockService';
+import { syncDoseReminders } from '../services/doseReminderService';
+import { AllergyConflictError, createAllergyRecord, findUnacknowledgedConflicts, getChangedMedications, getPatientAllergies } from '../services/allergyService';
 
 interface SecureHealthState {
   // Patient and Record State
@@ -21,7 +30,8 @@ interface SecureHealthState {
   loadPatients: () => Promise<void>;
   savePatients: () => Promise<void>;
   addPatient: (patient: Patient) => Promise<void>;
-  updatePatient: (id: string, updates: Partial<Patient>) => Promise<void>;
+  // Restores and bulk clears pass skipAllergyCheck: their medications were checked when first saved
+  updatePatient: (id: string, updates: Partial<Patient>, options?: { skipAllergyCheck?: boolean }) => Promise<void>;
   deletePatient: (id: string) => Promise<void>;
 
   // Actions - Doctors (using secure storage)
@@ -59,6 +69,15 @@ interface SecureHealthState {
   addBulkMedications: (patientId: string, medications: Omit<Medication, 'id'>[]) => Promise<void>;
   updateMedication: (patientId: string, medication: Medication) => Promise<void>;
   deleteMedication: (patientId: string, medicationId: string) => Promise<void>;
+  recordDose: (patientId: string, medicationId: string, date: string, scheduledTime: string, status: 'taken' | 'skipped') => Promise<void>;
+  undoDose: (patientId: string, medicationId: string, eventId: string) => Promise<void>;
+  updateMedicationStock: (patientId: string, medicationId: string, stock: Pick<Medication, 'pillCount' | 'packSize' | 'refillReminderDays'>) => Promise<void>;
+  refillMedication: (patientId: string, medicationId: string, packs?: number) => Promise<void>;
+
+  // Allergy Actions
+  addAllergy: (patientId: string, allergy: Omit<AllergyRecord, 'id'>) => Promise<void>;
+  updateAllergy: (patientId: string, allergyId: string, updates: Partial<AllergyRecord>) => Promise<void>;
+  deleteAllergy: (patientId: string, allergyId: string) => Promise<void>;
 
   // Appointment Actions
   addAppointment: (patientId: string, appointment: Omit<import('../types').Appointment, 'id' | 'createdAt'>) => Promise<void>;
@@ -74,15 +93,47 @@ interface SecureHealthState {
   addBloodGlucoseReading: (patientId: string, reading: Omit<BloodGlucoseReading, 'id'>) => Promise<void>;
   updateBloodGlucoseReading: (patientId: string, readingId: string, updates: Partial<BloodGlucoseReading>) => Promise<void>;
   deleteBloodGlucoseReading: (patientId: string, readingId: string) => Promise<void>;
+  importBloodGlucoseReadings: (patientId: string, readings: BloodGlucoseReading[]) => Promise<void>;
   addDiabetesMedication: (patientId: string, medication: Omit<DiabetesMedication, 'id'>) => Promise<void>;
   updateDiabetesMedication: (patientId: string, medicationId: string, updates: Partial<DiabetesMedication>) => Promise<void>;
   deleteDiabetesMedication: (patientId: string, medicationId: string) => Promise<void>;
+  addInsulinLogEntry: (patientId: string, entry: Omit<InsulinLogEntry, 'id'>) => Promise<void>;
+  updateInsulinLogEntry: (patientId: string, entryId: string, updates: Partial<InsulinLogEntry>) => Promise<void>;
+  deleteInsulinLogEntry: (patientId: string, entryId: string) => Promise<void>;
+
+  // Lab Result Actions
+  addLabResults: (patientId: string, results: LabResult[]) => Promise<void>;
+  updateLabResult: (patientId: string, resultId: string, updates: Partial<LabResult>) => Promise<void>;
+  deleteLabResult: (patientId: string, resultId: string) => Promise<void>;
+
+  // Vital Sign Actions
+  addVitalSigns: (patientId: string, vitals: VitalSign[]) => Promise<void>;
+  updateVitalSign: (patientId: string, vitalId: string, updates: Partial<VitalSign>) => Promise<void>;
+  deleteVitalSign: (patientId: string, vitalId: string) => Promise<void>;
+
+  // Hypertension Actions
+  initializeHypertensionRecord: (patientId: string) => Promise<void>;
+  addBloodPressureReading: (patientId: string, reading: Omit<HomeBloodPressureReading, 'id'>) => Promise<void>;
+  deleteBloodPressureReading: (patientId: string, readingId: string) => Promise<void>;
+  addAntihypertensiveMedication: (patientId: string, medication: Omit<AntihypertensiveMedication, 'id'>) => Promise<void>;
+  updateAntihypertensiveMedication: (patientId: string, medicationId: string, updates: Partial<AntihypertensiveMedication>) => Promise<void>;
+  deleteAntihypertensiveMedication: (patientId: string, medicationId: string) => Promise<void>;
+  updateHypertensionRecord: (patientId: string, updates: Partial<HypertensionRecord>) => Promise<void>;
 
   // Utility Actions
   clearAllData: () => Promise<void>;
   getAuditLog: () => any[];
 }
 
+// Regenerates the dose and refill reminders that follow a patient's medications
+const withMedicationReminders = (patient: Patient): Patient => ({
+  ...patient,
+  reminders: syncDoseReminders(
+    syncRefillReminders(patient.reminders || [], patient.currentMedications || []),
+    patient.currentMedications || []
+  ),
+});
+
 export const useSecureHealthStore = create<SecureHealthState>((set, get) => ({
   // Initial State
   patients: [],
@@ -96,7 +147,8 @@ export const useSecureHealthStore = create<SecureHealthState>((set, get) => ({
   // Patient Actions
   loadPatients: async () => {
     try {
-      const patients = await secureStorage.loadPatients();
+      // Moves dose reminders on to today
+      const patients = (await secureStorage.loadPatients()).map(withMedicationReminders);
       set({ patients });
     } catch (error) {
       console.error('Failed to load patients:', error);
@@ -115,24 +167,44 @@ export const useSecureHealthStore = create<SecureHealthState>((set, get) => ({
 
   addPatient: async (patient: Patient) => {
     try {
-      await secureStorage.addPatient(patient);
+      // Imported patients arrive with medications and need their reminders
+      const newPatient = patient.currentMedications?.length ? withMedicationReminders(patient) : patient;
+      await secureStorage.addPatient(newPatient);
       set((state) => ({
-        patients: [...state.patients, patient]
+        patients: [...state.patients, newPatient]
       }));
     } catch (error) {
       console.error('Failed to add patient:', error);
     }
   },
 
-  updatePatient: async (id: string, updates: Partial<Patient>) => {
+  updatePatient: async (id: string, updates: Partial<Patient>, options = {}) => {
     try {
-      await secureStorage.updatePatient(id, updates);
+      const patient = get().patients.find(p => p.id === id);
+      if (patient && updates.currentMedications && !options.skipAllergyCheck) {
+        // Imported or edited medications get the same allergy check as new ones
+        const conflicts = findUnacknowledgedConflicts(
+          getChangedMedications(patient.currentMedications, updates.currentMedications),
+          getPatientAllergies({ ...patient, ...updates })
+        );
+        if (conflicts.length > 0) {
+          throw new AllergyConflictError(conflicts);
+        }
+      }
+
+      // Medication changes regenerate the dose and refill reminders
+      const changes = patient && updates.currentMedications
+        ? { ...updates, reminders: withMedicationReminders({ ...patient, ...updates }).reminders }
+        : updates;
+
+      await secureStorage.updatePatient(id, changes);
       set((state) => ({
         patients: state.patients.map(patient =>
-          patient.id === id ? { ...patient, ...updates } : patient
+          patient.id === id ? { ...patient, ...changes } : patient
         )
       }));
     } catch (error) {
+      if (error instanceof AllergyConflictError) throw error;
       console.error('Failed to update patient:', error);
     }
   },
@@ -489,6 +561,12 @@ export const useSecureHealthStore = create<SecureHealthState>((set, get) => ({
       const patientIndex = patients.findIndex(p => p.id === patientId);
 
       if (patientIndex !== -1) {
+        // Conflicts must be overridden with a reason before the medication is saved
+        const conflicts = findUnacknowledgedConflicts([medication], getPatientAllergies(patients[patientIndex]));
+        if (conflicts.length > 0) {
+          throw new AllergyConflictError(conflicts);
+        }
+
         const updatedPatients = [...patients];
         const newMedication: Medication = {
           ...medication,
@@ -498,11 +576,13 @@ export const useSecureHealthStore = create<SecureHealthState>((set, get) => ({
           ...updatedPatients[patientIndex],
           currentMedications: [...updatedPatients[patientIndex].currentMedications, newMedication]
         };
+        updatedPatients[patientIndex] = withMedicationReminders(updatedPatients[patientIndex]);
 
         await secureStorage.savePatients(updatedPatients);
         set({ patients: updatedPatients });
       }
     } catch (error) {
+      if (error instanceof AllergyConflictError) throw error;
       console.error('Failed to add medication:', error);
     }
   },
@@ -513,6 +593,11 @@ export const useSecureHealthStore = create<SecureHealthState>((set, get) => ({
       const patientIndex = patients.findIndex(p => p.id === patientId);
 
       if (patientIndex !== -1) {
+        const conflicts = findUnacknowledgedConflicts(medications, getPatientAllergies(patients[patientIndex]));
+        if (conflicts.length > 0) {
+          throw new AllergyConflictError(conflicts);
+        }
+
         const updatedPatients = [...patients];
         const newMedications: Medication[] = medications.map((medication, index) => ({
           ...medication,
@@ -523,11 +608,13 @@ export const useSecureHealthStore = create<SecureHealthState>((set, get) => ({
           ...updatedPatients[patientIndex],
           currentMedications: [...updatedPatients[patientIndex].currentMedications, ...newMedications]
         };
+        updatedPatients[patientIndex] = withMedicationReminders(updatedPatients[patientIndex]);
 
         await secureStorage.savePatients(updatedPatients);
         set({ patients: updatedPatients });
       }
     } catch (error) {
+      if (error instanceof AllergyConflictError) throw error;
       console.error('Failed to add bulk medications:', error);
     }
   },
@@ -538,16 +625,27 @@ export const useSecureHealthStore = create<SecureHealthState>((set, get) => ({
       const patientIndex = patients.findIndex(p => p.id === patientId);
 
       if (patientIndex !== -1) {
+        // A medication renamed to an allergen needs an override like a new one
+        const conflicts = findUnacknowledgedConflicts(
+          getChangedMedications(patients[patientIndex].currentMedications, [medication]),
+          getPatientAllergies(patients[patientIndex])
+        );
+        if (conflicts.length > 0) {
+          throw new AllergyConflictError(conflicts);
+        }
+
         const updatedPatients = [...patients];
         updatedPatients[patientIndex].currentMedications =
           updatedPatients[patientIndex].currentMedications.map(m =>
             m.id === medication.id ? medication : m
           );
+        updatedPatients[patientIndex] = withMedicationReminders(updatedPatients[patientIndex]);
 
         await secureStorage.savePatients(updatedPatients);
         set({ patients: updatedPatients });
       }
     } catch (error) {
+      if (error instanceof AllergyConflictError) throw error;
       console.error('Failed to update medication:', error);
     }
   },
@@ -561,6 +659,7 @@ export const useSecureHealthStore = create<SecureHealthState>((set, get) => ({
         const updatedPatients = [...patients];
         updatedPatients[patientIndex].currentMedications =
           updatedPatients[patientIndex].currentMedications.filter(m => m.id !== medicationId);
+        updatedPatients[patientIndex] = withMedicationReminders(updatedPatients[patientIndex]);
 
         await secureStorage.savePatients(updatedPatients);
         set({ patients: updatedPatients });
@@ -570,6 +669,174 @@ export const useSecureHealthStore = create<SecureHealthState>((set, get) => ({
     }
   },
 
+  recordDose: async (patientId: string, medicationId: string, date: string, scheduledTime: string, status: 'taken' | 'skipped') => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1) {
+        const updatedPatients = [...patients];
+        const event = createDoseEvent(date, scheduledTime, status);
+        updatedPatients[patientIndex].currentMedications =
+          updatedPatients[patientIndex].currentMedications.map(m =>
+            m.id === medicationId ? { ...m, doseLog: recordDoseEvent(m.doseLog, event) } : m
+          );
+        updatedPatients[patientIndex] = withMedicationReminders(updatedPatients[patientIndex]);
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to record dose:', error);
+    }
+  },
+
+  undoDose: async (patientId: string, medicationId: string, eventId: string) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex].currentMedications =
+          updatedPatients[patientIndex].currentMedications.map(m =>
+            m.id === medicationId ? { ...m, doseLog: (m.doseLog || []).filter(e => e.id !== eventId) } : m
+          );
+        updatedPatients[patientIndex] = withMedicationReminders(updatedPatients[patientIndex]);
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to undo dose:', error);
+    }
+  },
+
+  updateMedicationStock: async (patientId: string, medicationId: string, stock: Pick<Medication, 'pillCount' | 'packSize' | 'refillReminderDays'>) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex].currentMedications =
+          updatedPatients[patientIndex].currentMedications.map(m =>
+            m.id === medicationId ? { ...m, ...stock, stockUpdatedAt: new Date().toISOString() } : m
+          );
+        updatedPatients[patientIndex] = withMedicationReminders(updatedPatients[patientIndex]);
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to update medication stock:', error);
+    }
+  },
+
+  refillMedication: async (patientId: string, medicationId: string, packs: number = 1) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex].currentMedications =
+          updatedPatients[patientIndex].currentMedications.map(m =>
+            m.id === medicationId ? { ...m, ...getRefilledStock(m, packs) } : m
+          );
+        updatedPatients[patientIndex] = withMedicationReminders(updatedPatients[patientIndex]);
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to refill medication:', error);
+    }
+  },
+
+  // Allergy Actions
+  addAllergy: async (patientId: string, allergy: Omit<AllergyRecord, 'id'>) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1) {
+        const updatedPatients = [...patients];
+        const patient = updatedPatients[patientIndex];
+        const newAllergy = createAllergyRecord(allergy);
+        const names = patient.allergies || [];
+        const isListed = names.some(name => name.trim().toLowerCase() === newAllergy.substance.toLowerCase());
+
+        updatedPatients[patientIndex] = {
+          ...patient,
+          allergyRecords: [...(patient.allergyRecords || []), newAllergy],
+          allergies: isListed ? names : [...names, newAllergy.substance],
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to add allergy:', error);
+    }
+  },
+
+  updateAllergy: async (patientId: string, allergyId: string, updates: Partial<AllergyRecord>) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1) {
+        const updatedPatients = [...patients];
+        const patient = updatedPatients[patientIndex];
+        const existing = patient.allergyRecords?.find(a => a.id === allergyId);
+        if (!existing) return;
+
+        const updated = { ...existing, ...updates };
+        updatedPatients[patientIndex] = {
+          ...patient,
+          allergyRecords: (patient.allergyRecords || []).map(a => a.id === allergyId ? updated : a),
+          allergies: (patient.allergies || []).map(name =>
+            name.trim().toLowerCase() === existing.substance.toLowerCase() ? updated.substance : name
+          ),
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to update allergy:', error);
+    }
+  },
+
+  deleteAllergy: async (patientId: string, allergyId: string) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1) {
+        const updatedPatients = [...patients];
+        const patient = updatedPatients[patientIndex];
+        // Free-text allergies without a record are listed with generated ids
+        const allergy = getPatientAllergies(patient).find(a => a.id === allergyId);
+        if (!allergy) return;
+
+        updatedPatients[patientIndex] = {
+          ...patient,
+          allergyRecords: (patient.allergyRecords || []).filter(a => a.id !== allergyId),
+          allergies: (patient.allergies || []).filter(name =>
+            name.trim().toLowerCase() !== allergy.substance.toLowerCase()
+          ),
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to delete allergy:', error);
+    }
+  },
+
   // Appointment Actions
   addAppointment: async (patientId: string, appointment) => {
     try {
@@ -892,6 +1159,35 @@ export const useSecureHealthStore = create<SecureHealthState>((set, get) => ({
     }
   },
 
+  importBloodGlucoseReadings: async (patientId: string, readings: BloodGlucoseReading[]) => {
+    try {
+      if (!get().patients.find(p => p.id === patientId)?.diabetesRecord) {
+        await get().initializeDiabetesRecord(patientId);
+      }
+
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1 && patients[patientIndex].diabetesRecord) {
+        const updatedPatients = [...patients];
+        const diabetesRecord = updatedPatients[patientIndex].diabetesRecord!;
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          diabetesRecord: {
+            ...diabetesRecord,
+            // Readings taken in a minute already recorded are skipped
+            bloodGlucoseReadings: mergeGlucoseReadings(diabetesRecord.bloodGlucoseReadings, readings)
+          }
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to import blood glucose readings:', error);
+    }
+  },
+
   addDiabetesMedication: async (patientId: string, medication: Omit<DiabetesMedication, 'id'>) => {
     try {
       const { patients } = get();
@@ -974,6 +1270,372 @@ export const useSecureHealthStore = create<SecureHealthState>((set, get) => ({
     }
   },
 
+  addInsulinLogEntry: async (patientId: string, entry: Omit<InsulinLogEntry, 'id'>) => {
+    try {
+      if (!get().patients.find(p => p.id === patientId)?.diabetesRecord) {
+        await get().initializeDiabetesRecord(patientId);
+      }
+
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1 && patients[patientIndex].diabetesRecord) {
+        const updatedPatients = [...patients];
+        const diabetesRecord = updatedPatients[patientIndex].diabetesRecord!;
+        // Linked to the glucose reading taken with the dose, if one was logged
+        const newEntry = createInsulinLogEntry(entry, diabetesRecord.bloodGlucoseReadings);
+
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          diabetesRecord: {
+            ...diabetesRecord,
+            insulinLog: [...(diabetesRecord.insulinLog || []), newEntry]
+          }
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to add insulin log entry:', error);
+    }
+  },
+
+  updateInsulinLogEntry: async (patientId: string, entryId: string, updates: Partial<InsulinLogEntry>) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+      const diabetesRecord = patients[patientIndex]?.diabetesRecord;
+
+      if (diabetesRecord?.insulinLog) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          diabetesRecord: {
+            ...diabetesRecord,
+            insulinLog: diabetesRecord.insulinLog.map(e => e.id === entryId ? { ...e, ...updates } : e)
+          }
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to update insulin log entry:', error);
+    }
+  },
+
+  deleteInsulinLogEntry: async (patientId: string, entryId: string) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+      const diabetesRecord = patients[patientIndex]?.diabetesRecord;
+
+      if (diabetesRecord?.insulinLog) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          diabetesRecord: {
+            ...diabetesRecord,
+            insulinLog: diabetesRecord.insulinLog.filter(e => e.id !== entryId)
+          }
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to delete insulin log entry:', error);
+    }
+  },
+
+  // Lab Result Actions
+  addLabResults: async (patientId: string, results: LabResult[]) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          // Results already recorded (same test, day and value) are skipped
+          labResults: mergeLabResults(updatedPatients[patientIndex].labResults || [], results)
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to add lab results:', error);
+    }
+  },
+
+  updateLabResult: async (patientId: string, resultId: string, updates: Partial<LabResult>) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1 && patients[patientIndex].labResults) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          labResults: updatedPatients[patientIndex].labResults!.map(r =>
+            r.id === resultId ? { ...r, ...updates } : r
+          )
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to update lab result:', error);
+    }
+  },
+
+  deleteLabResult: async (patientId: string, resultId: string) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1 && patients[patientIndex].labResults) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          labResults: updatedPatients[patientIndex].labResults!.filter(r => r.id !== resultId)
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to delete lab result:', error);
+    }
+  },
+
+  addVitalSigns: async (patientId: string, vitals: VitalSign[]) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          // Readings already recorded (same vital, day and value) are skipped
+          vitalSigns: mergeVitalSigns(updatedPatients[patientIndex].vitalSigns || [], vitals)
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to add vital signs:', error);
+    }
+  },
+
+  updateVitalSign: async (patientId: string, vitalId: string, updates: Partial<VitalSign>) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1 && patients[patientIndex].vitalSigns) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          vitalSigns: updatedPatients[patientIndex].vitalSigns!.map(v =>
+            v.id === vitalId ? { ...v, ...updates } : v
+          )
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to update vital sign:', error);
+    }
+  },
+
+  deleteVitalSign: async (patientId: string, vitalId: string) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1 && patients[patientIndex].vitalSigns) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          vitalSigns: updatedPatients[patientIndex].vitalSigns!.filter(v => v.id !== vitalId)
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to delete vital sign:', error);
+    }
+  },
+
+  // Hypertension Actions
+  initializeHypertensionRecord: async (patientId: string) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1 && !patients[patientIndex].hypertensionRecord) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          hypertensionRecord: createHypertensionRecord(patientId)
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to initialize hypertension record:', error);
+    }
+  },
+
+  addBloodPressureReading: async (patientId: string, reading: Omit<HomeBloodPressureReading, 'id'>) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1) {
+        const updatedPatients = [...patients];
+        const record = updatedPatients[patientIndex].hypertensionRecord || createHypertensionRecord(patientId);
+        const newReading: HomeBloodPressureReading = {
+          ...reading,
+          id: `bp-${Date.now()}`
+        };
+
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          hypertensionRecord: { ...record, readings: [...record.readings, newReading] }
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to add blood pressure reading:', error);
+    }
+  },
+
+  deleteBloodPressureReading: async (patientId: string, readingId: string) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+      const record = patients[patientIndex]?.hypertensionRecord;
+
+      if (record) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          hypertensionRecord: { ...record, readings: record.readings.filter(r => r.id !== readingId) }
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to delete blood pressure reading:', error);
+    }
+  },
+
+  addAntihypertensiveMedication: async (patientId: string, medication: Omit<AntihypertensiveMedication, 'id'>) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+
+      if (patientIndex !== -1) {
+        const updatedPatients = [...patients];
+        const record = updatedPatients[patientIndex].hypertensionRecord || createHypertensionRecord(patientId);
+        const newMedication: AntihypertensiveMedication = {
+          ...medication,
+          id: `bpmed-${Date.now()}`
+        };
+
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          hypertensionRecord: { ...record, medications: [...record.medications, newMedication] }
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to add antihypertensive medication:', error);
+    }
+  },
+
+  updateAntihypertensiveMedication: async (patientId: string, medicationId: string, updates: Partial<AntihypertensiveMedication>) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+      const record = patients[patientIndex]?.hypertensionRecord;
+
+      if (record) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          hypertensionRecord: {
+            ...record,
+            medications: record.medications.map(m => m.id === medicationId ? { ...m, ...updates } : m)
+          }
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to update antihypertensive medication:', error);
+    }
+  },
+
+  deleteAntihypertensiveMedication: async (patientId: string, medicationId: string) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+      const record = patients[patientIndex]?.hypertensionRecord;
+
+      if (record) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          hypertensionRecord: { ...record, medications: record.medications.filter(m => m.id !== medicationId) }
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to delete antihypertensive medication:', error);
+    }
+  },
+
+  updateHypertensionRecord: async (patientId: string, updates: Partial<HypertensionRecord>) => {
+    try {
+      const { patients } = get();
+      const patientIndex = patients.findIndex(p => p.id === patientId);
+      const record = patients[patientIndex]?.hypertensionRecord;
+
+      if (record) {
+        const updatedPatients = [...patients];
+        updatedPatients[patientIndex] = {
+          ...updatedPatients[patientIndex],
+          hypertensionRecord: { ...record, ...updates }
+        };
+
+        await secureStorage.savePatients(updatedPatients);
+        set({ patients: updatedPatients });
+      }
+    } catch (error) {
+      console.error('Failed to update hypertension record:', error);
+    }
+  },
+
   getAuditLog: () => {
     return secureStorage.getAuditLog();
   }
@@ -8,9 +8,29 @@ export interface Document {
   uploadedAt: string;
   url: string;
   content?: string;
+  ocr?: DocumentOcr; // Set when `content` was produced by OCR
+  pages?: DocumentTextPage[]; // Per-page text of PDFs
   parsedData?: import('../services/medicalRecordParser').ParsedMedicalData;
 }
 
+export interface OcrLine {
+  text: string;
+  confidence: number; // 0-1
+}
+
+export interface DocumentTextPage {
+  pageNumber: number;
+  source: 'text-layer' | 'ocr'; // Scanned pages have no text layer and are OCR'd
+  text: string;
+}
+
+export interface DocumentOcr {
+  engine: string;
+  confidence: number; // 0-1, whole page
+  lines: OcrLine[];
+  processedAt: string;
+}
+
 export interface Doctor {
   id: string;
   name: string;
@@ -63,6 +83,8 @@ export interface Reminder {
   priority: 'high' | 'medium' | 'low';
   appointmentId?: string; // Link to appointment if reminder is for appointment
   medicationId?: string; // Link to medication if reminder is for medication
+  medicationIds?: string[]; // Medications covered by a generated dose reminder
+  recurrence?: 'daily'; // Repeats every day; date is the current occurrence
   notes?: string;
   notificationSent?: boolean;
 }
@@ -76,9 +98,44 @@ export interface Medication {
   timings?: string[]; // e.g., ['08:00', '20:00']
   prescribedBy?: string;
   startDate?: string;
+  endDate?: string; // Last day of a fixed course, e.g. "x 5 days"
+  duration?: string; // e.g., "5 days"
+  notes?: string;
+  allergyOverride?: AllergyOverride; // Set when prescribed despite a recorded allergy
+  doseLog?: DoseEvent[]; // Doses recorded against timings
+  pillCount?: number; // Units on hand when stock was last counted
+  packSize?: number; // Units in one pack or bottle
+  stockUpdatedAt?: string; // ISO timestamp of the last count or refill
+  refillReminderDays?: number; // Days before stock runs out to remind about a refill
+}
+
+export interface DoseEvent {
+  id: string;
+  date: string; // Day the dose was due, YYYY-MM-DD
+  scheduledTime: string; // Entry from Medication.timings, HH:MM
+  status: 'taken' | 'skipped' | 'late';
+  recordedAt: string; // ISO timestamp of when it was taken or skipped
   notes?: string;
 }
 
+export interface AllergyRecord {
+  id: string;
+  substance: string; // e.g., "Penicillin", "Peanuts"
+  category: 'drug' | 'food' | 'environmental' | 'other';
+  drugClass?: string; // Key in the cross-reactivity table, e.g. "penicillins"
+  reaction?: string; // e.g., "Hives", "Anaphylaxis"
+  severity: 'mild' | 'moderate' | 'severe' | 'unknown';
+  verification: 'verified' | 'self-reported';
+  onsetDate?: string;
+  notes?: string;
+}
+
+export interface AllergyOverride {
+  reason: string;
+  substances: string[]; // Allergies the warning was raised for
+  overriddenAt: string;
+}
+
 export interface EyePrescription {
   id: string;
   date: string;
@@ -178,6 +235,7 @@ export interface BloodGlucoseReading {
   type: 'fasting' | 'postprandial' | 'random' | 'bedtime';
   context?: string; // e.g., "before exercise", "after meal"
   notes?: string;
+  source?: 'manual' | 'cgm' | 'glucometer'; // Manual when not set
 }
 
 export interface DiabetesMedication {
@@ -191,6 +249,20 @@ export interface DiabetesMedication {
   notes?: string;
 }
 
+export interface InsulinLogEntry {
+  id: string;
+  date: string;
+  time: string;
+  type: 'basal' | 'bolus';
+  units: number; // Total units, including any correction
+  correctionUnits?: number; // Part of a bolus given to bring down a high reading
+  carbs?: number; // in grams; a carb-only entry has 0 units
+  mealTag?: 'breakfast' | 'lunch' | 'dinner' | 'snack';
+  insulinName?: string; // e.g., "NovoRapid", "Tresiba"
+  glucoseReadingId?: string; // Reading taken with the dose
+  notes?: string;
+}
+
 export interface DiabetesRecord {
   id: string;
   patientId: string;
@@ -199,6 +271,7 @@ export interface DiabetesRecord {
   hba1cReadings: HbA1cReading[];
   bloodGlucoseReadings: BloodGlucoseReading[];
   medications: DiabetesMedication[];
+  insulinLog?: InsulinLogEntry[];
   targetHba1c?: number; // typically <7.0%
   targetGlucoseRanges: {
     fasting: { min: number; max: number };
@@ -210,6 +283,92 @@ export interface DiabetesRecord {
   nextCheckup?: string;
 }
 
+// Hypertension Management Types
+export interface HomeBloodPressureReading {
+  id: string;
+  date: string;
+  time: string; // HH:mm, used to split morning and evening readings
+  systolic: number; // in mmHg
+  diastolic: number; // in mmHg
+  pulse?: number; // in bpm
+  arm: 'left' | 'right';
+  position: 'sitting' | 'standing' | 'lying';
+  notes?: string;
+}
+
+export interface AntihypertensiveMedication {
+  id: string;
+  name: string;
+  drugClass: 'ace-inhibitor' | 'arb' | 'calcium-channel-blocker' | 'diuretic' | 'beta-blocker' | 'other';
+  dosage: string;
+  frequency: string;
+  startDate: string;
+  endDate?: string;
+  notes?: string;
+}
+
+export interface HypertensionRecord {
+  id: string;
+  patientId: string;
+  diagnosisDate: string;
+  readings: HomeBloodPressureReading[];
+  medications: AntihypertensiveMedication[];
+  targetSystolic: number; // typically <130 mmHg
+  targetDiastolic: number; // typically <80 mmHg
+  complications?: string[];
+  notes?: string;
+  lastCheckup?: string;
+  nextCheckup?: string;
+}
+
+// Lab Results Types
+export type LabFlag = 'normal' | 'low' | 'high' | 'critical-low' | 'critical-high';
+
+export interface LabReferenceRange {
+  low?: number;
+  high?: number;
+  text?: string; // As printed on the report, e.g. "70-100" or "<200"
+}
+
+export interface LabResult {
+  id: string;
+  testCode: string; // LOINC code from the lab test catalogue, or "custom:<name>"
+  name: string;
+  date: string;
+  value: number; // In the catalogue's canonical unit
+  unit: string;
+  reportedValue?: string; // Value and unit as reported, when they were converted
+  referenceRange?: LabReferenceRange;
+  flag?: LabFlag;
+  source: 'manual' | 'document' | 'import';
+  recordId?: string;
+  documentId?: string;
+  notes?: string;
+}
+
+// Vital Signs Types
+export type VitalType =
+  | 'bloodPressure'
+  | 'heartRate'
+  | 'temperature'
+  | 'respiratoryRate'
+  | 'oxygenSaturation'
+  | 'weight'
+  | 'height';
+
+export interface VitalSign {
+  id: string;
+  type: VitalType;
+  date: string; // When the reading was taken
+  value: number; // In the type's unit; systolic for blood pressure
+  secondaryValue?: number; // Diastolic for blood pressure
+  unit: string; // mmHg, bpm, °F, breaths/min, %, kg or cm
+  reportedValue?: string; // Value and unit as entered, when they were converted
+  source: 'manual' | 'record' | 'device' | 'import';
+  recordId?: string;
+  notes?: string;
+}
+
 export interface HospitalId {
   id: string;
   hospitalName: string;
@@ -274,6 +433,24 @@ export interface AuthSession {
   isActive: boolean;
 }
 
+export interface DeviceSession {
+  id: string;
+  deviceInfo?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  expiresAt?: string;
+  isCurrent: boolean;
+}
+
+// Page info on the API's paginated list responses
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
 export interface LoginCredentials {
   email: string;
   password: string;
@@ -300,7 +477,8 @@ export interface Patient {
   hospitalIds: HospitalId[];
   avatarUrl: string;
   medicalHistory: string;
-  allergies?: string[];
+  allergies?: string[]; // Substance names, kept in step with allergyRecords
+  allergyRecords?: AllergyRecord[];
   conditions?: string[];
   surgeries?: Surgery[];
   notableEvents?: NotableEvent[];
@@ -312,6 +490,32 @@ export interface Patient {
   currentMedications: Medication[];
   eyeRecord?: EyeRecord; // Eye care record
   diabetesRecord?: DiabetesRecord; // Diabetes management record
+  hypertensionRecord?: HypertensionRecord; // Hypertension management record
+  labResults?: LabResult[];
+  vitalSigns?: VitalSign[];
   primaryDoctorId?: string;
   userId?: string; // Link to the user who owns this patient
+  householdId?: string; // Household the patient is shared with
+  accessRole?: HouseholdRole; // The signed-in user's access to this patient
+}
+
+export type HouseholdRole = 'owner' | 'caregiver' | 'viewer';
+
+export interface HouseholdMember {
+  id: string;
+  userId: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  role: HouseholdRole;
+  patientIds?: string[]; // Undefined grants the role on every household patient
+}
+
+export interface Household {
+  id: string;
+  name: string;
+  role: HouseholdRole; // The signed-in user's role
+  members: HouseholdMember[];
+  patients: { id: string; name: string }[];
+  createdAt: string;
 }
\ No newline at end of file
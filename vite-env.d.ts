@@ -7,6 +7,9 @@ interface ImportMetaEnv {
   readonly VITE_ENCRYPTION_KEY: string
   readonly VITE_DEV_MODE: string
   readonly VITE_DEBUG_AI: string
+  readonly VITE_TESSERACT_WORKER_PATH?: string
+  readonly VITE_TESSERACT_CORE_PATH?: string
+  readonly VITE_TESSERACT_LANG_PATH?: string
   readonly DEV: boolean
   readonly PROD: boolean
   readonly MODE: string
@@ -1,7 +1,40 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// OCR engine files served from our own origin under /tesseract/, so on-device
+// OCR never downloads the worker, WASM core or language data from a CDN.
+// Only the LSTM cores are needed; tesseract.js picks the SIMD build it can run.
+const TESSERACT_ASSETS: Record<string, string> = {
+  'worker.min.js': 'node_modules/tesseract.js/dist/worker.min.js',
+  'core/tesseract-core-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-lstm.wasm.js',
+  'core/tesseract-core-simd-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-simd-lstm.wasm.js',
+  'core/tesseract-core-relaxedsimd-lstm.wasm.js': 'node_modules/tesseract.js-core/tesseract-core-relaxedsimd-lstm.wasm.js',
+  'lang/eng.traineddata.gz': 'node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+};
+
+const tesseractAssets = (): Plugin => ({
+  name: 'tesseract-assets',
+  configureServer(server) {
+    server.middlewares.use('/tesseract', (req, res, next) => {
+      const source = TESSERACT_ASSETS[(req.url || '').split('?')[0].replace(/^\//, '')];
+      if (!source) return next();
+      res.setHeader('Content-Type', source.endsWith('.js') ? 'text/javascript' : 'application/octet-stream');
+      fs.createReadStream(path.resolve(__dirname, source)).pipe(res);
+    });
+  },
+  generateBundle() {
+    Object.entries(TESSERACT_ASSETS).forEach(([fileName, source]) => {
+      this.emitFile({
+        type: 'asset',
+        fileName: `tesseract/${fileName}`,
+        source: fs.readFileSync(path.resolve(__dirname, source)),
+      });
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +42,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), tesseractAssets()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),